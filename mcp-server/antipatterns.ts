@@ -1,12 +1,22 @@
-export interface AntiPattern {
+export interface RuleDescription {
   name: string;
   description: string;
   severity: 'error' | 'warning' | 'info';
-  pattern: RegExp;
   fix?: string;
   example?: string;
 }
 
+export interface AntiPattern extends RuleDescription {
+  pattern: RegExp;
+}
+
+// Règle détectée: anti-pattern intégré ou règle personnalisée (.mcp-roblox/rules.json)
+export interface AntiPatternMatch {
+  pattern: RuleDescription;
+  line: number;
+  match: string;
+}
+
 export const robloxAntiPatterns: AntiPattern[] = [
   // === PERFORMANCE KILLERS ===
   {
@@ -53,30 +63,7 @@ export const robloxAntiPatterns: AntiPattern[] = [
     example: "local part = Instance.new('Part')\npart.Size = Vector3.new(4,1,2)\npart.Parent = workspace -- Toujours en dernier!"
   },
 
-  // === DEPRECATED/DANGEREUX ===
-  {
-    name: "wait-deprecated",
-    description: "wait() est déprécié, utiliser task.wait()",
-    severity: "warning",
-    pattern: /\bwait\s*\(/,
-    fix: "Remplacer wait() par task.wait()",
-  },
-
-  {
-    name: "spawn-deprecated",
-    description: "spawn() est déprécié, utiliser task.spawn()",
-    severity: "warning",
-    pattern: /\bspawn\s*\(/,
-    fix: "Remplacer spawn() par task.spawn()",
-  },
-
-  {
-    name: "delay-deprecated",
-    description: "delay() est déprécié, utiliser task.delay()",
-    severity: "warning",
-    pattern: /\bdelay\s*\(/,
-    fix: "Remplacer delay() par task.delay()",
-  },
+  // Les APIs dépréciées (wait, spawn, delay...) sont détectées par le lint d'API (src/analysis/api-linter.ts)
 
   // === SÉCURITÉ ===
   {
@@ -105,6 +92,14 @@ export const robloxAntiPatterns: AntiPattern[] = [
     fix: "Utiliser 'local' devant toutes les variables",
   },
 
+  {
+    name: "global-table",
+    description: "Utilisation de _G (état partagé implicitement entre scripts)",
+    severity: "warning",
+    pattern: /\b_G\b/,
+    fix: "Partager l'état via un ModuleScript",
+  },
+
   {
     name: "findfirstchild-chain",
     description: "Chaîne de FindFirstChild sans vérification nil",
@@ -152,8 +147,8 @@ export const robloxAntiPatterns: AntiPattern[] = [
 ];
 
 // Fonction pour analyser le code
-export function detectAntiPatterns(code: string): Array<{pattern: AntiPattern, line: number, match: string}> {
-  const detectedPatterns: Array<{pattern: AntiPattern, line: number, match: string}> = [];
+export function detectAntiPatterns(code: string): AntiPatternMatch[] {
+  const detectedPatterns: AntiPatternMatch[] = [];
   const lines = code.split('\n');
   
   for (const antiPattern of robloxAntiPatterns) {
@@ -183,7 +178,7 @@ export function detectAntiPatterns(code: string): Array<{pattern: AntiPattern, l
 }
 
 // Fonction pour obtenir des suggestions de fix
-export function getAntiPatternSuggestions(patterns: ReturnType<typeof detectAntiPatterns>): string {
+export function getAntiPatternSuggestions(patterns: AntiPatternMatch[]): string {
   if (patterns.length === 0) return '';
   
   let suggestions = '## ⚠️ **Anti-patterns détectés**\n\n';
@@ -198,7 +193,7 @@ export function getAntiPatternSuggestions(patterns: ReturnType<typeof detectAnti
   if (byServerity.error.length > 0) {
     suggestions += '### 🔴 **ERREURS CRITIQUES**\n';
     byServerity.error.forEach(({pattern, line, match}) => {
-      suggestions += `\n**Ligne ${line}:** ${pattern.description}\n`;
+      suggestions += `\n**Ligne ${line}:** ${pattern.description} (\`${pattern.name}\`)\n`;
       suggestions += `\`\`\`luau\n${match}\n\`\`\`\n`;
       if (pattern.fix) suggestions += `💡 **Fix:** ${pattern.fix}\n`;
       if (pattern.example) suggestions += `📝 **Exemple:**\n\`\`\`luau\n${pattern.example}\n\`\`\`\n`;
@@ -208,7 +203,7 @@ export function getAntiPatternSuggestions(patterns: ReturnType<typeof detectAnti
   if (byServerity.warning.length > 0) {
     suggestions += '\n### 🟡 **AVERTISSEMENTS**\n';
     byServerity.warning.forEach(({pattern, line}) => {
-      suggestions += `- **Ligne ${line}:** ${pattern.description}`;
+      suggestions += `- **Ligne ${line}:** ${pattern.description} (\`${pattern.name}\`)`;
       if (pattern.fix) suggestions += ` → ${pattern.fix}`;
       suggestions += '\n';
     });
@@ -217,7 +212,7 @@ export function getAntiPatternSuggestions(patterns: ReturnType<typeof detectAnti
   if (byServerity.info.length > 0) {
     suggestions += '\n### 🔵 **SUGGESTIONS**\n';
     byServerity.info.forEach(({pattern, line}) => {
-      suggestions += `- **Ligne ${line}:** ${pattern.description}\n`;
+      suggestions += `- **Ligne ${line}:** ${pattern.description} (\`${pattern.name}\`)\n`;
     });
   }
   
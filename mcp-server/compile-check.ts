@@ -2,9 +2,22 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as path from 'path';
 import fs from 'fs-extra';
+import { analyzeLuauSyntax } from './src/parser/syntax-analysis.js';
+import { ParseErrorKind } from './src/parser/parser.js';
+import { walkAst } from './src/parser/walker.js';
 
 const execAsync = promisify(exec);
 
+// Codes d'erreur stables pour chaque catégorie d'erreur du parser
+const SYNTAX_ERROR_CODES: Record<ParseErrorKind, string> = {
+  'mismatched-bracket': 'E002',
+  'unexpected-end': 'E003',
+  'unclosed-block': 'E005',
+  'unclosed-bracket': 'E006',
+  'lexical': 'E007',
+  'unexpected-token': 'E008'
+};
+
 interface CompileResult {
   success: boolean;
   errors: CompileError[];
@@ -214,195 +227,63 @@ export class LuauCompiler {
   }
   
   /**
-   * Vérification syntaxique avancée d'un fichier Luau
+   * Vérification syntaxique avancée d'un fichier Luau (parser partagé)
    */
   private checkLuauSyntax(content: string, filePath: string): { errors: CompileError[], warnings: CompileWarning[] } {
     const errors: CompileError[] = [];
     const warnings: CompileWarning[] = [];
-    const lines = content.split('\n');
-    
-    // Stack pour les structures de blocs
-    const blockStack: Array<{type: string, line: number}> = [];
-    const bracketStack: Array<{char: string, line: number, col: number}> = [];
+    const analysis = analyzeLuauSyntax(content);
     
-    // État du parser
-    let inString = false;
-    let inMultiLineString = false;
-    let stringChar = '';
-    let multiLineStringLevel = 0;
+    for (const error of analysis.errors) {
+      errors.push({
+        file: filePath,
+        line: error.line,
+        column: error.column,
+        message: error.message,
+        code: SYNTAX_ERROR_CODES[error.kind]
+      });
+    }
     
-    lines.forEach((line, lineIndex) => {
-      const lineNum = lineIndex + 1;
-      let col = 0;
-      
-      // Vérifier les strings multi-lignes
-      const multiLineStart = line.match(/\[(=*)\[/);
-      if (multiLineStart && !inString) {
-        inMultiLineString = true;
-        multiLineStringLevel = multiLineStart[1].length;
-      }
-      
-      const multiLineEnd = line.match(/\](=*)\]/);
-      if (multiLineEnd && inMultiLineString && multiLineEnd[1].length === multiLineStringLevel) {
-        inMultiLineString = false;
+    // Détection des patterns dangereux (sur les tokens: ignore strings et commentaires)
+    const tokens = analysis.tokens;
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      const next = tokens[index + 1];
+      if (token.type === 'name' && token.value === 'wait' && next?.value === '(' && previous?.value !== '.' && previous?.value !== ':') {
+        warnings.push({
+          file: filePath,
+          line: token.start.line,
+          message: "Utiliser task.wait() au lieu de wait()"
+        });
       }
-      
-      if (inMultiLineString) return;
-      
-      // Analyser caractère par caractère
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        const nextChar = line[i + 1];
-        col = i + 1;
-        
-        // Ignorer les commentaires
-        if (!inString && char === '-' && nextChar === '-') {
-          break;
-        }
-        
-        // Gérer les strings
-        if ((char === '"' || char === "'") && (i === 0 || line[i-1] !== '\\')) {
-          if (!inString) {
-            inString = true;
-            stringChar = char;
-          } else if (char === stringChar) {
-            inString = false;
-          }
-        }
-        
-        // Vérifier la syntaxe hors strings
-        if (!inString) {
-          // Vérifier les brackets
-          if (char === '(' || char === '{' || char === '[') {
-            bracketStack.push({char, line: lineNum, col});
-          } else if (char === ')' || char === '}' || char === ']') {
-            const expected = char === ')' ? '(' : char === '}' ? '{' : '[';
-            if (bracketStack.length === 0) {
-              errors.push({
-                file: filePath,
-                line: lineNum,
-                column: col,
-                message: `'${char}' inattendu sans '${expected}' correspondant`,
-                code: 'E001'
-              });
-            } else {
-              const last = bracketStack[bracketStack.length - 1];
-              if (last.char !== expected) {
-                errors.push({
-                  file: filePath,
-                  line: lineNum,
-                  column: col,
-                  message: `'${char}' ne correspond pas à '${last.char}' ligne ${last.line}`,
-                  code: 'E002'
-                });
-              } else {
-                bracketStack.pop();
-              }
-            }
-          }
+    });
+    
+    // Variables non déclarées (simple check: nom jamais déclaré 'local' dans le fichier)
+    if (analysis.ast) {
+      const declared = new Set<string>(['_G', 'game', 'script', 'workspace']);
+      walkAst(analysis.ast, node => {
+        if (node.kind === 'LocalStatement' || node.kind === 'GenericForStatement') {
+          node.variables.forEach(v => declared.add(v.name.name));
+        } else if (node.kind === 'NumericForStatement') {
+          declared.add(node.variable.name.name);
+        } else if (node.kind === 'LocalFunctionStatement') {
+          declared.add(node.name.name);
+        } else if (node.kind === 'FunctionExpression') {
+          node.parameters.forEach(p => declared.add(p.name.name));
         }
-      }
+      });
       
-      // Vérifier les blocs (hors strings)
-      if (!inString && !inMultiLineString) {
-        const trimmed = line.trim();
-        
-        // Détection des débuts de blocs
-        const blockStarters = [
-          { pattern: /\bfunction\s+\w+/, type: 'function' },
-          { pattern: /\bfunction\s*\(/, type: 'function' },
-          { pattern: /\bif\s+.+\s+then/, type: 'if' },
-          { pattern: /\bfor\s+.+\s+do/, type: 'for' },
-          { pattern: /\bwhile\s+.+\s+do/, type: 'while' },
-          { pattern: /\brepeat\b/, type: 'repeat' },
-          { pattern: /\bdo\b/, type: 'do' }
-        ];
-        
-        for (const starter of blockStarters) {
-          if (starter.pattern.test(trimmed)) {
-            // Ignorer si c'est une ligne simple (then return, etc.)
-            if (!trimmed.includes('then return') && 
-                !trimmed.includes('then break') &&
-                !trimmed.includes('do return') &&
-                !trimmed.includes('do break')) {
-              blockStack.push({type: starter.type, line: lineNum});
-            }
-          }
-        }
-        
-        // Détection des fins de blocs
-        if (/\bend\b/.test(trimmed)) {
-          if (blockStack.length === 0) {
-            errors.push({
-              file: filePath,
-              line: lineNum,
-              message: "'end' sans bloc correspondant",
-              code: 'E003'
-            });
-          } else {
-            blockStack.pop();
-          }
-        }
-        
-        if (/\buntil\b/.test(trimmed)) {
-          const last = blockStack[blockStack.length - 1];
-          if (!last || last.type !== 'repeat') {
-            errors.push({
-              file: filePath,
-              line: lineNum,
-              message: "'until' sans 'repeat' correspondant",
-              code: 'E004'
-            });
-          } else {
-            blockStack.pop();
-          }
-        }
-        
-        // Détection des patterns dangereux
-        if (/\bwait\s*\(/.test(trimmed)) {
-          warnings.push({
-            file: filePath,
-            line: lineNum,
-            message: "Utiliser task.wait() au lieu de wait()"
-          });
-        }
-        
-        // Variables non déclarées (simple check)
-        const assignmentMatch = trimmed.match(/^(\w+)\s*=/);
-        if (assignmentMatch && !trimmed.startsWith('local ')) {
-          const varName = assignmentMatch[1];
-          if (!['_G', 'game', 'script', 'workspace'].includes(varName)) {
+      walkAst(analysis.ast, node => {
+        if (node.kind !== 'AssignmentStatement') return;
+        for (const target of node.targets) {
+          if (target.kind === 'Identifier' && !declared.has(target.name)) {
             warnings.push({
               file: filePath,
-              line: lineNum,
-              message: `Variable globale potentielle: ${varName}. Utilisez 'local'`
+              line: target.loc.start.line,
+              message: `Variable globale potentielle: ${target.name}. Utilisez 'local'`
             });
           }
         }
-      }
-    });
-    
-    // Vérifications finales
-    if (blockStack.length > 0) {
-      blockStack.forEach(block => {
-        errors.push({
-          file: filePath,
-          line: block.line,
-          message: `Bloc '${block.type}' non fermé (manque 'end')`,
-          code: 'E005'
-        });
-      });
-    }
-    
-    if (bracketStack.length > 0) {
-      bracketStack.forEach(bracket => {
-        errors.push({
-          file: filePath,
-          line: bracket.line,
-          column: bracket.col,
-          message: `'${bracket.char}' non fermé`,
-          code: 'E006'
-        });
       });
     }
     
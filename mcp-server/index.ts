@@ -12,66 +12,105 @@ import path from "path";
 import chokidar from "chokidar";
 import { glob } from "glob";
 import yaml from "yaml";
-import { luauTemplates, getTemplate, getTemplatesByCategory, applyTemplate } from "./templates.js";
-import { detectAntiPatterns, getAntiPatternSuggestions } from "./antipatterns.js";
-import { robloxAPIs, commonTypes, getServiceAPI, searchAPIs } from "./roblox-apis.js";
+import { getAntiPatternSuggestions } from "./antipatterns.js";
+import { robloxAPIs, commonTypes, getServiceAPI, searchAPIs, APISearchResult, getApiDumpIndex, setApiDumpIndex } from "./roblox-apis.js";
 import { validateGameTool } from "./validate-game.js";
 import { compileCheckTool } from "./compile-check.js";
 import { patchTemplates, syntaxHints, countSyntaxElements, validateSyntaxBalance, suggestSyntaxFixes } from "./patch-templates.js";
 import { SYNTAX_RULES, validatePatchBeforeApply, getSyntaxReminder, checkWorkflowCompliance } from "./syntax-rules.js";
 import { analyzeError, generateErrorAnalysisReport, validateApproach, ERROR_PATTERNS } from "./error-handler.js";
 import { syntaxValidator } from "./syntax-validator.js";
-import { hookManager } from "./modification-hooks.js";
-import { syntaxEnforcer } from "./src/validation/syntax-enforcer.js";
+import { hookManager, HookResult, ModificationContext } from "./modification-hooks.js";
 import { syntaxRulesInjector } from "./src/middleware/syntax-rules-injector.js";
 import { syntaxHelperTool } from "./src/tools/syntax-helper-tool.js";
-
-interface PatchOperation {
-  scriptPath: string;
-  operation: "insert" | "replace" | "delete";
-  lineStart: number;
-  lineEnd?: number;
-  newContent?: string;
-  description?: string;
-}
-
-interface TokenUsage {
-  totalTokensUsed: number;
-  contextWindowUsed: number;
-  contextWindowMax: number;
-  operationTokens: number;
-  cacheHits: number;
-  cacheMisses: number;
-}
-
-interface SemanticCache {
-  functions: Map<string, {
-    name: string;
-    signature: string;
-    returnType?: string;
-    line: number;
-    lastModified: number;
-  }>;
-  variables: Map<string, {
-    name: string;
-    type?: string;
-    scope: 'local' | 'global';
-    line: number;
-  }>;
-  fileHash: string;
-  lastUpdate: number;
+import { RojoProjectTree, RojoInstance, DEFAULT_PROJECT_FILE, resolveScriptInfo } from "./src/rojo/project-tree.js";
+import { isProjectFile, readProjectFile } from "./src/rojo/project-file.js";
+import { DependencyGraph } from "./src/analysis/dependency-graph.js";
+import { FileManager } from "./src/managers/file-manager.js";
+import { RollbackManager } from "./src/managers/rollback-manager.js";
+import { TokenManager } from "./src/managers/token-manager.js";
+import { ValidationManager } from "./src/managers/validation-manager.js";
+import { ChangesetManager, ChangesetOperation } from "./src/managers/changeset-manager.js";
+import { PatchManager } from "./src/managers/patch-manager.js";
+import { PatchAnchor, resolveAnchor } from "./src/patching/anchors.js";
+import { createUnifiedDiff } from "./src/patching/unified-diff.js";
+import { PatchOperation, VersionTarget } from "./src/interfaces/managers.js";
+import { MCP_DIRECTORY, getMcpDirectory, loadProjectConfig } from "./src/config/project-config.js";
+import { RULES_FILE } from "./src/config/rules-config.js";
+import { createTokenCounter } from "./src/utils/token-counter.js";
+import { loadApiDump, API_DUMP_FILE } from "./src/roblox-api/api-dump.js";
+import { DocsIndex, DocCategory, buildDocsIndex, DOCS_DIRECTORY } from "./src/docs/docs-index.js";
+import { VersionTracker } from "./src/managers/version-tracker.js";
+import { ReadCache } from "./src/managers/read-cache.js";
+import { QuarantineManager } from "./src/managers/quarantine-manager.js";
+import { ApiLinter, formatApiFindings } from "./src/analysis/api-linter.js";
+import { ToolRegistry } from "./src/tools/tool-registry.js";
+import { TemplateLibrary, TemplateDefinition, TEMPLATES_DIRECTORY } from "./src/templates/template-library.js";
+import { scaffoldGenerators, getScaffoldGenerator, planScaffold, validateScaffold, ScaffoldLocation } from "./src/templates/scaffold.js";
+import { RequireResolver } from "./src/analysis/require-resolver.js";
+import { buildScriptOutline, OutlineSymbol } from "./src/analysis/script-outline.js";
+import { SymbolIndex, SymbolKind, SymbolDefinition } from "./src/analysis/symbol-index.js";
+import { BoundaryChecker, BoundaryViolation, boundaryViolationKey, checkScriptBoundaries } from "./src/analysis/boundary-checker.js";
+import { RemoteRegistry, RemoteContract } from "./src/analysis/remote-registry.js";
+import { BackdoorScan, RiskLevel, isThirdPartyPath, scanForBackdoors, scanProjectSettings } from "./src/analysis/backdoor-scanner.js";
+import { RuleEngine } from "./src/analysis/rule-engine.js";
+import { auditRemoteHandlers, getUnvalidatedParameters, RemoteHandlerAudit, SINK_LABELS } from "./src/analysis/remote-auditor.js";
+
+type ReadScriptMode = "auto" | "full" | "outline";
+
+interface ReadScriptOptions {
+  mode?: ReadScriptMode;
+  startLine?: number;
+  endLine?: number;
+  functionName?: string;
 }
 
-interface RollbackEntry {
-  timestamp: number;
-  fileHash: string;
-  patch: {
-    additions: string[];
-    deletions: string[];
-    modifications: Array<{from: string; to: string}>;
-  };
-  tokenCost: number;
-}
+// Un diff depuis la dernière lecture remplace le contenu s'il coûte au plus cette part de ses tokens
+const MAX_READ_DIFF_RATIO = 0.5;
+
+// En mode auto, les scripts plus longs sont résumés par leur plan quand le contexte est presque plein
+const AUTO_OUTLINE_MIN_LINES = 80;
+
+// Lignes du premier exemple de code affichées par résultat de search_roblox_docs
+const MAX_DOC_EXAMPLE_LINES = 15;
+
+// Outils qui lisent un fichier: argument contenant le chemin, pour le suivi des tokens par fichier
+const FILE_READ_TOOLS: Record<string, string> = {
+  read_script: "scriptPath",
+};
+
+const EXPECTED_VERSION_SCHEMA = {
+  type: "string",
+  description: "Version du script renvoyée par read_script. Par défaut, la dernière version lue ou écrite par l'assistant. Refusé si le fichier a changé depuis",
+};
+
+// Schéma commun de l'ancre des outils de patch (patch_script, preview_patch, apply_changeset)
+const PATCH_ANCHOR_SCHEMA = {
+  type: "object",
+  description: "Cible du patch, résolue sur le contenu actuel juste avant l'application (remplace lineStart/lineEnd). Un seul critère. Refusé si introuvable ou ambigu",
+  properties: {
+    function: {
+      type: "string",
+      description: "Fonction entière (ex: Shop.buy, Shop:buy, helper)",
+    },
+    text: {
+      type: "string",
+      description: "Extrait de code unique, éventuellement sur plusieurs lignes",
+    },
+    before: {
+      type: "string",
+      description: "insert: insérer juste avant cet extrait unique",
+    },
+    after: {
+      type: "string",
+      description: "insert: insérer juste après cet extrait unique",
+    },
+    node: {
+      type: "string",
+      description: "Chemin AST: noms de fonction et if/for/while/repeat/do/return/local avec index optionnel (ex: Shop.buy/if[2])",
+    },
+  },
+};
 
 interface ThoughtProcess {
   step: string;
@@ -82,26 +121,29 @@ interface ThoughtProcess {
 
 class RojoMCPServer {
   private server: Server;
+  private tools: ToolRegistry = new ToolRegistry();
   private projectRoot: string;
+  private projectFile: string;
   private rojoConfig: any;
   private fileWatcher: chokidar.FSWatcher | null = null;
-  private projectStructure: Map<string, any> = new Map();
-  private semanticCache: Map<string, SemanticCache> = new Map();
-  private rollbackHistory: Map<string, RollbackEntry[]> = new Map(); // Historique par fichier
-  private readonly MAX_ROLLBACK_ENTRIES = 5; // Limite pour économiser la mémoire
+  private watchedPatterns: string[] = []; // Motifs surveillés, recalculés à chaque chargement de l'arbre Rojo
+  private fileManager: FileManager; // Scripts du projet et arbre Rojo
+  private symbolIndex: SymbolIndex = new SymbolIndex(null); // Symboles des scripts, tenu à jour par la surveillance des fichiers
+  private docsIndex: DocsIndex | null = null; // Documentation hors ligne, indexée à la première recherche
+  private templateLibrary: TemplateLibrary; // Templates intégrés et templates du projet (.mcp-roblox/templates)
+  private rollbackManager: RollbackManager; // Historique persistant dans .mcp-roblox/history
+  private patchManager: PatchManager; // Patchs ligne à ligne: fraîcheur, hooks, écriture et review
+  private changesetManager: ChangesetManager; // Modifications multi-fichiers atomiques
+  private quarantineManager: QuarantineManager; // Scripts suspects isolés dans .mcp-roblox/quarantine
+  private validationManager: ValidationManager; // Validation syntaxique et auto-validation après écriture
+  private ruleEngine: RuleEngine = new RuleEngine(); // Règles des anti-patterns (.mcp-roblox/rules.json)
+  private versionTracker: VersionTracker = new VersionTracker(); // Versions lues/écrites par l'assistant
+  private readCache: ReadCache = new ReadCache(); // Contenus déjà renvoyés par read_script dans la session
   private chainOfThoughtEnabled = false; // Active/désactive le chain-of-thought
   private thoughtHistory: ThoughtProcess[] = []; // Historique des réflexions
-  private autoValidateEnabled: boolean = true; // Validation automatique activée par défaut
   private searchBeforeWriteEnabled: boolean = true; // Force la recherche avant écriture
   private lastSearchTimestamp: number = 0; // Timestamp de la dernière recherche
-  private tokenUsage: TokenUsage = {
-    totalTokensUsed: 0,
-    contextWindowUsed: 0,
-    contextWindowMax: 200000, // Limite approximative de Claude
-    operationTokens: 0,
-    cacheHits: 0,
-    cacheMisses: 0
-  };
+  private tokenManager: TokenManager = new TokenManager(); // Suivi des tokens de toutes les réponses
   private toolHistory: string[] = []; // Historique des outils utilisés
   private readonly MAX_TOOL_HISTORY = 20; // Garder les 20 derniers outils
 
@@ -119,80 +161,313 @@ class RojoMCPServer {
     );
 
     this.projectRoot = process.cwd();
+    this.projectFile = this.getProjectFileOption();
+    this.fileManager = new FileManager(this.projectRoot, this.projectFile);
+    this.rollbackManager = new RollbackManager(this.projectRoot);
+    this.patchManager = new PatchManager(this.fileManager, this.rollbackManager, this.versionTracker);
+    this.changesetManager = new ChangesetManager(this.projectRoot, this.rollbackManager);
+    this.quarantineManager = new QuarantineManager(this.projectRoot);
+    this.validationManager = new ValidationManager(this.projectRoot);
+    this.templateLibrary = new TemplateLibrary(this.projectRoot);
+    this.registerTools();
+    this.registerBoundaryHook();
     this.setupHandlers();
-    this.loadRojoConfig();
-    this.scanProject();
+    this.loadProject();
     this.setupFileWatcher();
   }
 
+  /**
+   * Valeur d'une option de la ligne de commande (--option valeur ou --option=valeur), sinon de la variable d'environnement
+   */
+  private getStartupOption(option: string, envVariable: string): string | undefined {
+    const args = process.argv.slice(2);
+    const index = args.findIndex(arg => arg === option || arg.startsWith(`${option}=`));
+    if (index !== -1) {
+      const value = args[index].includes("=") ? args[index].split("=")[1] : args[index + 1];
+      if (value) return value;
+    }
+    return process.env[envVariable] || undefined;
+  }
+
+  /**
+   * Fichier projet choisi au démarrage: --project <fichier>, puis MCP_ROBLOX_PROJECT
+   */
+  private getProjectFileOption(): string {
+    return this.getStartupOption("--project", "MCP_ROBLOX_PROJECT") ?? DEFAULT_PROJECT_FILE;
+  }
+
+  private async loadProject() {
+    await this.loadRojoConfig();
+    await this.scanProject();
+    this.buildSymbolIndex();
+    this.updateWatchedPatterns();
+    await this.loadApiDump();
+    await this.loadTemplates();
+    await this.loadRules();
+    await this.configureTokenCounter();
+  }
+
+  /**
+   * Règles des anti-patterns du projet, partagées avec le hook d'écriture 'dangerous-patterns'
+   */
+  private async loadRules() {
+    try {
+      this.ruleEngine = await RuleEngine.load(this.projectRoot);
+      hookManager.setRuleEngine(this.ruleEngine);
+      this.patchManager.setRuleEngine(this.ruleEngine);
+      for (const error of this.ruleEngine.getConfigErrors()) {
+        console.error(`⚠️ ${MCP_DIRECTORY}/${RULES_FILE}: ${error}`);
+      }
+    } catch (error) {
+      console.error("❌ Erreur lors du chargement des règles:", error);
+    }
+  }
+
+  /**
+   * Compteur de tokens et taille du contexte selon .mcp-roblox/config.json (vocabulaire local par défaut)
+   */
+  private async configureTokenCounter() {
+    const { tokens } = await loadProjectConfig(this.projectRoot);
+    this.tokenManager.setCounter(createTokenCounter(tokens.counter));
+    this.tokenManager.setContextWindowMax(tokens.contextWindow);
+  }
+
+  private async loadTemplates() {
+    try {
+      await this.templateLibrary.reload();
+      const projectTemplates = this.templateLibrary.list().filter(template => template.source === 'project');
+      if (projectTemplates.length > 0) {
+        console.error(`✅ Templates du projet chargés: ${projectTemplates.length}`);
+      }
+      for (const error of this.templateLibrary.getLoadErrors()) {
+        console.error(`⚠️ Template ignoré (${error.file}): ${error.message}`);
+      }
+    } catch (error) {
+      console.error("❌ Erreur lors du chargement des templates:", error);
+    }
+  }
+
+  /**
+   * API dump au démarrage: --api-dump <fichier>, puis MCP_ROBLOX_API_DUMP, puis la copie importée dans .mcp-roblox
+   */
+  private async loadApiDump() {
+    const option = this.getStartupOption("--api-dump", "MCP_ROBLOX_API_DUMP");
+    const dumpPath = option
+      ? path.resolve(this.projectRoot, option)
+      : path.join(getMcpDirectory(this.projectRoot), API_DUMP_FILE);
+
+    if (!await fs.pathExists(dumpPath)) {
+      if (option) console.error(`⚠️ API dump non trouvé: ${dumpPath}`);
+      return;
+    }
+
+    try {
+      const apiDump = await loadApiDump(dumpPath);
+      setApiDumpIndex(apiDump);
+      console.error(`✅ API dump chargé: ${apiDump.classCount} classes, ${apiDump.enumCount} enums`);
+    } catch (error) {
+      console.error("❌ Erreur lors du chargement de l'API dump:", error);
+    }
+  }
+
   private async loadRojoConfig() {
+    this.rojoConfig = null;
+
     try {
-      const configPath = path.join(this.projectRoot, "default.project.json");
+      // Sans default.project.json, le projet par défaut est default.project.luau
+      this.projectFile = await RojoProjectTree.resolveProjectFile(this.projectRoot, this.projectFile);
+      const configPath = path.join(this.projectRoot, this.projectFile);
       if (await fs.pathExists(configPath)) {
-        this.rojoConfig = await fs.readJson(configPath);
-        console.error("✅ Configuration Rojo chargée");
+        this.rojoConfig = await readProjectFile(configPath);
+        console.error(`✅ Configuration Rojo chargée (${this.projectFile})`);
       } else {
-        console.error("⚠️ Fichier default.project.json non trouvé");
+        console.error(`⚠️ Fichier ${this.projectFile} non trouvé`);
       }
     } catch (error) {
       console.error("❌ Erreur lors du chargement de la config Rojo:", error);
     }
   }
 
+  private async reloadRojoTree() {
+    if (!this.rojoConfig) return;
+    await this.fileManager.reloadProjectTree();
+    // La résolution des require dépend de l'arbre
+    this.buildSymbolIndex();
+    this.updateWatchedPatterns();
+  }
+
+  private buildSymbolIndex() {
+    this.symbolIndex = SymbolIndex.build(this.fileManager.getProjectTree(), this.getProjectContents());
+  }
+
+  /**
+   * Contenu en mémoire des scripts, par chemin relatif au projet (séparateurs /)
+   */
+  private getProjectContents(): Map<string, string> {
+    const contents = new Map<string, string>();
+    for (const [filePath, fileInfo] of this.fileManager.getProjectStructure()) {
+      contents.set(filePath.split(path.sep).join("/"), fileInfo.content);
+    }
+    return contents;
+  }
+
+  /**
+   * Hook pré-écriture: bloque les écritures qui introduisent une violation de la frontière client/serveur
+   */
+  private registerBoundaryHook() {
+    hookManager.registerHook({
+      name: "execution-boundary",
+      priority: 85,
+      enabled: true,
+      execute: (context) => this.checkBoundaryHook(context),
+    });
+  }
+
+  private async checkBoundaryHook(context: ModificationContext): Promise<HookResult> {
+    const tree = this.fileManager.getProjectTree();
+    if (!context.newContent || !tree || !/\.luau?$/.test(context.filePath)) {
+      return { approved: true };
+    }
+
+    const file = context.filePath.split(path.sep).join("/");
+    let before: BoundaryViolation[];
+    let after: BoundaryViolation[];
+
+    if (tree.findByFile(file)) {
+      // Le fichier peut être un module partagé: comparer les chaînes de require du projet avant et après
+      // Dans un changeset, les opérations précédentes ne sont pas encore écrites: partir de leur contenu prévu
+      const contents = this.getProjectContents();
+      for (const [planned, content] of context.plannedContents ?? []) {
+        if (content === null) contents.delete(planned);
+        else contents.set(planned, content);
+      }
+      if (context.originalContent !== undefined) contents.set(file, context.originalContent);
+      before = new BoundaryChecker(await DependencyGraph.build(this.projectRoot, tree, contents), contents).check();
+      contents.set(file, context.newContent);
+      after = new BoundaryChecker(await DependencyGraph.build(this.projectRoot, tree, contents), contents).check();
+    } else {
+      // Nouveau fichier, pas encore mappé: seuls ses propres usages sont vérifiés
+      const { realm } = resolveScriptInfo(file, tree);
+      before = context.originalContent ? checkScriptBoundaries(file, realm, context.originalContent) : [];
+      after = checkScriptBoundaries(file, realm, context.newContent);
+    }
+
+    const previous = new Set(before.map(boundaryViolationKey));
+    const involved = after.filter(violation => violation.chain.includes(file));
+    const describe = (violation: BoundaryViolation) =>
+      `${violation.file === file ? "" : `${violation.file} `}Ligne ${violation.line}: ${violation.message}`;
+
+    const added = involved.filter(violation => !previous.has(boundaryViolationKey(violation)));
+    return {
+      approved: added.length === 0,
+      errors: added.map(describe),
+      warnings: involved.filter(violation => previous.has(boundaryViolationKey(violation))).map(violation => `Déjà présent: ${describe(violation)}`),
+    };
+  }
+
   private async scanProject() {
     try {
-      const srcFiles = await glob("src/**/*.{luau,lua}", { cwd: this.projectRoot });
-      
-      for (const file of srcFiles) {
-        const fullPath = path.join(this.projectRoot, file);
-        const content = await fs.readFile(fullPath, "utf8");
-        const relativePath = path.relative(this.projectRoot, fullPath);
-        
-        this.projectStructure.set(relativePath, {
-          path: relativePath,
-          fullPath: fullPath,
-          content: content,
-          type: this.getScriptType(file),
-          lastModified: (await fs.stat(fullPath)).mtime,
-        });
+      // Les scripts mappés par le projet Rojo, sinon la convention src/**
+      this.fileManager.setProjectFile(this.projectFile);
+      await this.fileManager.initialize();
+
+      const treeError = this.fileManager.getProjectTreeError();
+      if (treeError) {
+        console.error(`❌ Projet Rojo invalide, types déduits des noms de fichiers: ${treeError}`);
       }
-      
-      console.error(`📁 Projet scanné: ${this.projectStructure.size} fichiers trouvés`);
+      console.error(`📁 Projet scanné: ${this.fileManager.getProjectStructure().size} fichiers trouvés`);
     } catch (error) {
       console.error("❌ Erreur lors du scan du projet:", error);
     }
   }
 
-  private getScriptType(filePath: string): string {
-    const fileName = path.basename(filePath);
-    
-    if (fileName.includes(".server.")) return "ServerScript";
-    if (fileName.includes(".client.")) return "LocalScript";
-    if (filePath.includes("/shared/") || fileName.includes("module")) return "ModuleScript";
-    
-    // Détermine selon le dossier
-    if (filePath.includes("/server/")) return "ServerScript";
-    if (filePath.includes("/client/")) return "LocalScript";
-    
-    return "ModuleScript";
+  /**
+   * Motifs à surveiller: dossiers et fichiers mappés par les $path du projet Rojo et projets imbriqués,
+   * sinon la convention src/**
+   */
+  private getWatchedPatterns(): string[] {
+    const patterns = [
+      "*.project.{json,luau}",
+      `${MCP_DIRECTORY}/${TEMPLATES_DIRECTORY}/**/*.{luau,lua}`,
+      `${MCP_DIRECTORY}/${RULES_FILE}`,
+    ];
+
+    const tree = this.fileManager.getProjectTree();
+    if (!tree) {
+      patterns.push("src/**/*.{luau,lua}", "src/**/*.meta.json");
+      return patterns;
+    }
+
+    const { projectFiles, directories, files } = tree.getSourcePaths();
+    for (const directory of directories) {
+      patterns.push(`${directory}/**/*.{luau,lua}`, `${directory}/**/*.meta.json`, `${directory}/**/*.project.{json,luau}`);
+    }
+    patterns.push(...projectFiles, ...files.filter(file => /\.luau?$/.test(file)));
+    return [...new Set(patterns)];
+  }
+
+  /**
+   * Aligne la surveillance sur l'arbre Rojo courant (nouveau $path, projet imbriqué ajouté ou retiré)
+   */
+  private updateWatchedPatterns() {
+    if (!this.fileWatcher) return;
+
+    const patterns = this.getWatchedPatterns();
+    const removed = this.watchedPatterns.filter(pattern => !patterns.includes(pattern));
+    const added = patterns.filter(pattern => !this.watchedPatterns.includes(pattern));
+    if (removed.length > 0) this.fileWatcher.unwatch(removed);
+    if (added.length > 0) this.fileWatcher.add(added);
+    this.watchedPatterns = patterns;
   }
 
   private setupFileWatcher() {
-    this.fileWatcher = chokidar.watch("src/**/*.{luau,lua}", {
+    this.watchedPatterns = this.getWatchedPatterns();
+    this.fileWatcher = chokidar.watch(this.watchedPatterns, {
       cwd: this.projectRoot,
       ignoreInitial: true,
     });
 
+    // Les fichiers projet et .meta.json ne changent que l'arbre Rojo
+    const isRojoConfig = (filePath: string) => isProjectFile(filePath) || filePath.endsWith(".meta.json");
+
+    // Les templates du projet sont rechargés sans toucher aux scripts
+    const reloadTemplates = async (filePath: string) => {
+      if (!this.templateLibrary.isTemplateFile(filePath)) return false;
+      await this.loadTemplates();
+      console.error(`📚 Templates rechargés (${filePath})`);
+      return true;
+    };
+
+    // Les règles des anti-patterns sont rechargées sans toucher aux scripts
+    const reloadRules = async (filePath: string) => {
+      if (filePath.split(path.sep).join("/") !== `${MCP_DIRECTORY}/${RULES_FILE}`) return false;
+      await this.loadRules();
+      console.error(`📏 Règles rechargées (${filePath})`);
+      return true;
+    };
+
     this.fileWatcher.on("change", async (filePath) => {
+      if (await reloadTemplates(filePath) || await reloadRules(filePath)) return;
+      if (isRojoConfig(filePath)) {
+        await this.reloadRojoTree();
+        return;
+      }
       await this.updateFile(filePath);
     });
 
     this.fileWatcher.on("add", async (filePath) => {
+      if (await reloadTemplates(filePath) || await reloadRules(filePath)) return;
+      await this.reloadRojoTree();
+      if (isRojoConfig(filePath)) return;
       await this.updateFile(filePath);
     });
 
-    this.fileWatcher.on("unlink", (filePath) => {
-      this.projectStructure.delete(filePath);
+    this.fileWatcher.on("unlink", async (filePath) => {
+      if (await reloadTemplates(filePath) || await reloadRules(filePath)) return;
+      await this.reloadRojoTree();
+      if (isRojoConfig(filePath)) return;
+      this.fileManager.forgetFile(filePath);
+      this.symbolIndex.removeFile(filePath.split(path.sep).join("/"));
       console.error(`🗑️ Fichier supprimé: ${filePath}`);
     });
 
@@ -200,718 +475,1357 @@ class RojoMCPServer {
   }
 
   private async updateFile(filePath: string) {
-    try {
-      const fullPath = path.join(this.projectRoot, filePath);
-      const content = await fs.readFile(fullPath, "utf8");
-      
-      this.projectStructure.set(filePath, {
-        path: filePath,
-        fullPath: fullPath,
-        content: content,
-        type: this.getScriptType(filePath),
-        lastModified: new Date(),
-      });
-      
+    await this.fileManager.refreshFile(filePath);
+
+    const fileInfo = this.fileManager.getFileInfo(filePath);
+    const indexedPath = filePath.split(path.sep).join("/");
+    if (fileInfo) {
+      this.symbolIndex.updateFile(indexedPath, fileInfo.content);
       console.error(`📝 Fichier mis à jour: ${filePath}`);
-    } catch (error) {
-      console.error(`❌ Erreur lors de la mise à jour de ${filePath}:`, error);
+    } else {
+      this.symbolIndex.removeFile(indexedPath);
+      console.error(`❌ Erreur lors de la mise à jour de ${filePath}: fichier illisible`);
     }
   }
 
   private setupHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      // Créer la liste des outils de base
-      let tools: Tool[] = [
-          {
-            name: "get_project_structure",
-            description: "Obtient la structure complète du projet Rojo",
-            inputSchema: {
-              type: "object",
-              properties: {},
+      // Injecter les règles de syntaxe et améliorer les outils
+      const tools = syntaxRulesInjector.injectInToolsList(this.tools.list());
+
+      return { tools };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      // Enregistrer l'outil dans l'historique
+      this.toolHistory.push(name);
+      if (this.toolHistory.length > this.MAX_TOOL_HISTORY) {
+        this.toolHistory.shift();
+      }
+
+      // Vérifier la conformité du workflow pour les outils critiques
+      const compliance = checkWorkflowCompliance(this.toolHistory, name);
+      
+      // Forcer l'utilisation d'analyze_error si le contexte suggère une erreur
+      if (name === 'get_project_structure' || name === 'read_script') {
+        const lastTools = this.toolHistory.slice(-3);
+        const hasError = lastTools.some(tool => tool.includes('compile_check') || tool.includes('validate_game'));
+        
+        if (hasError && !lastTools.includes('analyze_error')) {
+          console.error("⚠️ Une erreur a été détectée. Utilisez d'abord 'analyze_error' pour obtenir des directives!");
+        }
+      }
+      
+      try {
+        const result = await this.tools.call(name, args ?? {});
+
+        // Suivi des tokens centralisé pour tous les outils
+        const text = result.content[0]?.type === "text" ? result.content[0].text : undefined;
+        if (text !== undefined) {
+          const fileArgument = FILE_READ_TOOLS[name];
+          const file = fileArgument && typeof args?.[fileArgument] === "string" ? args[fileArgument] as string : undefined;
+          this.tokenManager.recordToolCall(name, text, file);
+          result.content[0].text = text + this.tokenManager.getUsageReport();
+        }
+
+        return result;
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Erreur lors de l'exécution de ${name}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
             },
-          },
-          {
-            name: "read_script",
-            description: "Lit le contenu d'un script spécifique",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script (ex: src/server/main.server.luau)",
-                },
-              },
-              required: ["scriptPath"],
+          ],
+        };
+      }
+    });
+  }
+
+  /**
+   * Outils exposés par le serveur: le schéma et le handler de chaque outil sont déclarés ensemble
+   */
+  private registerTools() {
+    this.tools.registerAll([
+      {
+        name: "get_project_structure",
+        description: "Obtient la structure complète du projet Rojo",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        handler: () => this.getProjectStructure(),
+      },
+      {
+        name: "select_project",
+        description: "Liste les fichiers *.project.json et *.project.luau ou charge l'un d'eux comme projet Rojo actif",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectFile: {
+              type: "string",
+              description: "Fichier projet à charger (ex: isolated.project.json ou default.project.luau). Sans valeur, liste les projets disponibles",
             },
           },
-          {
-            name: "write_script",
-            description: "Écrit/modifie le contenu d'un script",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script",
-                },
-                content: {
-                  type: "string",
-                  description: "Nouveau contenu du script",
-                },
-              },
-              required: ["scriptPath", "content"],
+        },
+        handler: (args) => this.selectProject(args.projectFile as string),
+      },
+      {
+        name: "read_script",
+        description: "Lit le contenu d'un script spécifique, une plage de lignes, une fonction ou seulement son plan (fonctions, méthodes, tables, exports). Renvoie le plan d'un gros script quand le contexte est presque plein",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script (ex: src/server/main.server.luau)",
             },
-          },
-          {
-            name: "create_script",
-            description: "Crée un nouveau script",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin pour le nouveau script (ex: src/server/newScript.server.luau)",
-                },
-                content: {
-                  type: "string",
-                  description: "Contenu initial du script",
-                },
-                scriptType: {
-                  type: "string",
-                  description: "Type de script (server, client, module)",
-                  enum: ["server", "client", "module"],
-                },
-              },
-              required: ["scriptPath", "scriptType"],
+            mode: {
+              type: "string",
+              enum: ["auto", "full", "outline"],
+              description: "auto: contenu complet, ou plan si le contexte est presque plein. Un script déjà lu dans la session renvoie \"inchangé\" ou le diff depuis la dernière lecture. full: toujours le contenu complet. outline: plan avec numéros de ligne",
+              default: "auto",
             },
-          },
-          {
-            name: "delete_script",
-            description: "Supprime un script",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script à supprimer",
-                },
-              },
-              required: ["scriptPath"],
+            startLine: {
+              type: "number",
+              description: "Première ligne à lire (1-based)",
             },
-          },
-          {
-            name: "get_rojo_config",
-            description: "Affiche la configuration Rojo actuelle",
-            inputSchema: {
-              type: "object",
-              properties: {},
+            endLine: {
+              type: "number",
+              description: "Dernière ligne à lire (incluse, défaut: fin du fichier)",
             },
-          },
-          {
-            name: "search_in_scripts",
-            description: "Recherche du texte dans tous les scripts",
-            inputSchema: {
-              type: "object",
-              properties: {
-                query: {
-                  type: "string",
-                  description: "Texte à rechercher",
-                },
-                caseSensitive: {
-                  type: "boolean",
-                  description: "Recherche sensible à la casse",
-                  default: false,
-                },
-              },
-              required: ["query"],
+            function: {
+              type: "string",
+              description: "Nom de la fonction à lire (ex: \"Shop:buy\", \"Shop.buy\", \"helper\")",
             },
           },
-          {
-            name: "patch_script",
-            description: "Applique une modification ciblée sur un script",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script à modifier",
-                },
-                operation: {
-                  type: "string",
-                  enum: ["insert", "replace", "delete"],
-                  description: "Type d'opération : insert (ajouter), replace (remplacer), delete (supprimer)",
-                },
-                lineStart: {
-                  type: "number",
-                  description: "Numéro de ligne de début (1-indexé)",
-                },
-                lineEnd: {
-                  type: "number",
-                  description: "Numéro de ligne de fin (optionnel, pour replace/delete)",
-                },
-                newContent: {
-                  type: "string",
-                  description: "Nouveau contenu (pour insert/replace)",
-                },
-                description: {
-                  type: "string",
-                  description: "Description du changement effectué",
-                },
-              },
-              required: ["scriptPath", "operation", "lineStart", "description"],
+          required: ["scriptPath"],
+        },
+        handler: (args) => this.readScript(args.scriptPath as string, {
+          mode: args.mode as ReadScriptMode | undefined,
+          startLine: args.startLine as number | undefined,
+          endLine: args.endLine as number | undefined,
+          functionName: args.function as string | undefined,
+        }),
+      },
+      {
+        name: "write_script",
+        description: "Écrit/modifie le contenu d'un script",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script",
+            },
+            content: {
+              type: "string",
+              description: "Nouveau contenu du script",
             },
+            expectedVersion: EXPECTED_VERSION_SCHEMA,
           },
-          {
-            name: "preview_patch",
-            description: "Prévisualise le résultat d'un patch sans l'appliquer",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script",
-                },
-                operation: {
-                  type: "string",
-                  enum: ["insert", "replace", "delete"],
-                  description: "Type d'opération",
-                },
-                lineStart: {
-                  type: "number",
-                  description: "Numéro de ligne de début",
-                },
-                lineEnd: {
-                  type: "number",
-                  description: "Numéro de ligne de fin (optionnel)",
-                },
-                newContent: {
-                  type: "string",
-                  description: "Nouveau contenu (pour insert/replace)",
-                },
-              },
-              required: ["scriptPath", "operation", "lineStart"],
+          required: ["scriptPath", "content"],
+        },
+        handler: (args) => this.writeScript(
+          args.scriptPath as string,
+          args.content as string,
+          args.useDiff as boolean,
+          args.expectedVersion as string | undefined
+        ),
+      },
+      {
+        name: "create_script",
+        description: "Crée un nouveau script",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin pour le nouveau script (ex: src/server/newScript.server.luau)",
+            },
+            content: {
+              type: "string",
+              description: "Contenu initial du script",
+            },
+            scriptType: {
+              type: "string",
+              description: "Type de script (server, client, module)",
+              enum: ["server", "client", "module"],
             },
           },
-          {
-            name: "list_templates",
-            description: "Liste tous les templates de code Luau/Roblox disponibles",
-            inputSchema: {
-              type: "object",
-              properties: {
-                category: {
-                  type: "string",
-                  description: "Filtrer par catégorie (event, service, data, ui, utility, pattern)",
-                  enum: ["event", "service", "data", "ui", "utility", "pattern"],
-                },
-              },
+          required: ["scriptPath", "scriptType"],
+        },
+        handler: (args) => this.createScript(
+          args.scriptPath as string,
+          args.scriptType as string,
+          args.content as string
+        ),
+      },
+      {
+        name: "delete_script",
+        description: "Supprime un script",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script à supprimer",
             },
+            expectedVersion: EXPECTED_VERSION_SCHEMA,
           },
-          {
-            name: "use_template",
-            description: "Utilise un template de code avec des variables personnalisées",
-            inputSchema: {
-              type: "object",
-              properties: {
-                templateName: {
-                  type: "string",
-                  description: "Nom du template à utiliser",
-                },
-                variables: {
-                  type: "object",
-                  description: "Variables à remplacer dans le template",
-                },
-                targetPath: {
-                  type: "string",
-                  description: "Chemin où créer le fichier (optionnel)",
-                },
-              },
-              required: ["templateName", "variables"],
+          required: ["scriptPath"],
+        },
+        handler: (args) => this.deleteScript(args.scriptPath as string, args.expectedVersion as string | undefined),
+      },
+      {
+        name: "get_rojo_config",
+        description: "Affiche la configuration Rojo actuelle",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        handler: () => this.getRojoConfig(),
+      },
+      {
+        name: "search_in_scripts",
+        description: "Recherche du texte dans tous les scripts",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Texte à rechercher",
+            },
+            caseSensitive: {
+              type: "boolean",
+              description: "Recherche sensible à la casse",
+              default: false,
             },
           },
-          {
-            name: "rollback_script",
-            description: "Annule les dernières modifications d'un script (rollback)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script à restaurer",
-                },
-                steps: {
-                  type: "number",
-                  description: "Nombre de versions à reculer (par défaut: 1)",
-                },
-              },
-              required: ["scriptPath"],
+          required: ["query"],
+        },
+        handler: (args) => this.searchInScripts(
+          args.query as string,
+          args.caseSensitive as boolean
+        ),
+      },
+      {
+        name: "patch_script",
+        description: "Applique une modification ciblée sur un script",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script à modifier",
+            },
+            operation: {
+              type: "string",
+              enum: ["insert", "replace", "delete"],
+              description: "Type d'opération : insert (ajouter), replace (remplacer), delete (supprimer)",
+            },
+            lineStart: {
+              type: "number",
+              description: "Numéro de ligne de début (1-indexé), si pas d'ancre",
+            },
+            lineEnd: {
+              type: "number",
+              description: "Numéro de ligne de fin (optionnel, pour replace/delete)",
+            },
+            anchor: PATCH_ANCHOR_SCHEMA,
+            newContent: {
+              type: "string",
+              description: "Nouveau contenu (pour insert/replace)",
+            },
+            diff: {
+              type: "string",
+              description: "Diff unifié (format git diff / diff -u) à appliquer à la place de operation/lineStart. Les hunks sont recherchés avec décalage et fuzz",
             },
+            description: {
+              type: "string",
+              description: "Description du changement effectué",
+            },
+            expectedVersion: EXPECTED_VERSION_SCHEMA,
           },
-          {
-            name: "rollback_history",
-            description: "Affiche l'historique des modifications disponibles pour rollback",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script (optionnel, sinon affiche tout)",
+          required: ["scriptPath", "description"],
+        },
+        handler: async (args) => {
+          if (args.diff) {
+            return await this.patchScriptWithDiff(
+              args.scriptPath as string,
+              args.diff as string,
+              args.description as string,
+              args.expectedVersion as string | undefined
+            );
+          }
+          return await this.patchScript({
+            scriptPath: args.scriptPath as string,
+            operation: args.operation as "insert" | "replace" | "delete",
+            lineStart: args.lineStart as number,
+            lineEnd: args.lineEnd as number,
+            anchor: args.anchor as PatchAnchor | undefined,
+            newContent: args.newContent as string,
+            description: args.description as string,
+            expectedVersion: args.expectedVersion as string | undefined,
+          });
+        },
+      },
+      {
+        name: "apply_changeset",
+        description: "Applique plusieurs modifications (write, patch, create, delete, rename) en une seule fois : tout est validé avant écriture, puis tout est appliqué ou rien. Le lot est annulable en une fois via rollback_script",
+        inputSchema: {
+          type: "object",
+          properties: {
+            operations: {
+              type: "array",
+              description: "Opérations appliquées dans l'ordre, chacune sur l'état laissé par les précédentes",
+              items: {
+                type: "object",
+                properties: {
+                  type: {
+                    type: "string",
+                    enum: ["write", "patch", "create", "delete", "rename"],
+                    description: "Type d'opération",
+                  },
+                  scriptPath: {
+                    type: "string",
+                    description: "Chemin du script concerné",
+                  },
+                  content: {
+                    type: "string",
+                    description: "Contenu complet (pour write/create)",
+                  },
+                  operation: {
+                    type: "string",
+                    enum: ["insert", "replace", "delete"],
+                    description: "Opération de patch (pour patch)",
+                  },
+                  lineStart: {
+                    type: "number",
+                    description: "Numéro de ligne de début, 1-indexé (pour patch)",
+                  },
+                  lineEnd: {
+                    type: "number",
+                    description: "Numéro de ligne de fin (pour patch replace/delete)",
+                  },
+                  anchor: PATCH_ANCHOR_SCHEMA,
+                  diff: {
+                    type: "string",
+                    description: "Diff unifié (pour patch, à la place de operation/lineStart)",
+                  },
+                  newContent: {
+                    type: "string",
+                    description: "Nouveau contenu (pour patch insert/replace)",
+                  },
+                  newPath: {
+                    type: "string",
+                    description: "Nouveau chemin (pour rename)",
+                  },
+                  expectedVersion: EXPECTED_VERSION_SCHEMA,
                 },
+                required: ["type", "scriptPath"],
               },
             },
+            description: {
+              type: "string",
+              description: "Description du changement effectué",
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Valider sans rien écrire",
+              default: false,
+            },
           },
-          {
-            name: "check_antipatterns",
-            description: "Analyse un script pour détecter les anti-patterns Roblox",
-            inputSchema: {
-              type: "object",
-              properties: {
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin vers le script à analyser",
-                },
-                autoFix: {
-                  type: "boolean",
-                  description: "Proposer des corrections automatiques (par défaut: false)",
-                },
-              },
-              required: ["scriptPath"],
+          required: ["operations"],
+        },
+        handler: (args) => this.applyChangeset(
+          args.operations as ChangesetOperation[],
+          args.description as string,
+          args.dryRun as boolean
+        ),
+      },
+      {
+        name: "preview_patch",
+        description: "Prévisualise le résultat d'un patch sans l'appliquer",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script",
+            },
+            operation: {
+              type: "string",
+              enum: ["insert", "replace", "delete"],
+              description: "Type d'opération",
+            },
+            lineStart: {
+              type: "number",
+              description: "Numéro de ligne de début, si pas d'ancre",
+            },
+            lineEnd: {
+              type: "number",
+              description: "Numéro de ligne de fin (optionnel)",
+            },
+            anchor: PATCH_ANCHOR_SCHEMA,
+            newContent: {
+              type: "string",
+              description: "Nouveau contenu (pour insert/replace)",
+            },
+            diff: {
+              type: "string",
+              description: "Diff unifié à prévisualiser à la place de operation/lineStart",
             },
           },
-          {
-            name: "validate_game",
-            description: "Valide l'intégralité du projet Roblox (syntaxe, dépendances, sécurité, structure)",
-            inputSchema: {
-              type: "object",
-              properties: {
-                projectPath: {
-                  type: "string",
-                  description: "Chemin du projet à valider (par défaut: répertoire courant)",
-                },
-              },
+          required: ["scriptPath"],
+        },
+        handler: async (args) => {
+          if (args.diff) {
+            return this.previewDiffPatch(args.scriptPath as string, args.diff as string);
+          }
+          return this.previewPatch({
+            scriptPath: args.scriptPath as string,
+            operation: args.operation as "insert" | "replace" | "delete",
+            lineStart: args.lineStart as number,
+            lineEnd: args.lineEnd as number,
+            anchor: args.anchor as PatchAnchor | undefined,
+            newContent: args.newContent as string,
+          });
+        },
+      },
+      {
+        name: "list_templates",
+        description: "Liste les templates de code Luau/Roblox disponibles (intégrés et templates du projet dans .mcp-roblox/templates)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            category: {
+              type: "string",
+              description: "Filtrer par catégorie (event, service, data, ui, utility, pattern ou catégorie d'un template du projet)",
             },
           },
-          {
-            name: "compile_check",
-            description: "Simule une compilation Luau pour détecter TOUTES les erreurs de syntaxe (comme un vrai compilateur)",
-            inputSchema: {
+        },
+        handler: (args) => this.listTemplates(args.category as string),
+      },
+      {
+        name: "use_template",
+        description: "Utilise un template de code avec des variables personnalisées",
+        inputSchema: {
+          type: "object",
+          properties: {
+            templateName: {
+              type: "string",
+              description: "Nom du template à utiliser",
+            },
+            variables: {
               type: "object",
-              properties: {
-                targetFile: {
-                  type: "string",
-                  description: "Fichier spécifique à compiler (optionnel, sinon compile tout le projet)",
-                },
-              },
+              description: "Variables à remplacer dans le template (validées selon leur type, valeurs par défaut appliquées)",
+            },
+            targetPath: {
+              type: "string",
+              description: "Chemin où créer le fichier (optionnel)",
             },
           },
-          {
-            name: "roblox_api",
-            description: "Affiche la documentation des APIs Roblox les plus utilisées",
-            inputSchema: {
+          required: ["templateName", "variables"],
+        },
+        handler: (args) => this.useTemplate(
+          args.templateName as string,
+          args.variables as Record<string, unknown>,
+          args.targetPath as string
+        ),
+      },
+      {
+        name: "scaffold",
+        description: "Génère plusieurs fichiers liés (RemoteEvent, DataStore, UI...) aux emplacements Rojo corrects, avec les require câblés entre eux. Sans generator, liste les générateurs",
+        inputSchema: {
+          type: "object",
+          properties: {
+            generator: {
+              type: "string",
+              description: "Générateur à utiliser (remote-event, shared-types, datastore-service, ui-controller)",
+            },
+            variables: {
               type: "object",
-              properties: {
-                service: {
-                  type: "string",
-                  description: "Nom du service (ex: Players, TweenService, DataStoreService)",
-                },
-                search: {
-                  type: "string",
-                  description: "Rechercher une méthode ou propriété spécifique",
-                },
-              },
+              description: "Variables du générateur, communes à tous les fichiers",
             },
-          },
-          {
-            name: "search_roblox_docs",
-            description: "Recherche dans la documentation officielle Roblox en ligne",
-            inputSchema: {
+            roots: {
               type: "object",
+              description: "Conteneurs DataModel à utiliser à la place des défauts (ex: { \"shared\": \"ReplicatedStorage.Common\" })",
               properties: {
-                query: {
-                  type: "string",
-                  description: "Terme de recherche (ex: 'RemoteEvent', 'PathfindingService', 'Animation')",
-                },
-                category: {
-                  type: "string",
-                  description: "Catégorie de recherche",
-                  enum: ["api", "tutorial", "guide", "all"],
-                },
+                server: { type: "string" },
+                client: { type: "string" },
+                shared: { type: "string" },
               },
-              required: ["query"],
+            },
+            dryRun: {
+              type: "boolean",
+              description: "Affiche les fichiers et le code sans rien écrire",
+              default: false,
             },
           },
-          {
-            name: "toggle_auto_validation",
-            description: "Active/désactive la validation automatique après modification de fichiers",
-            inputSchema: {
-              type: "object",
-              properties: {
-                enabled: {
-                  type: "boolean",
-                  description: "Activer (true) ou désactiver (false) la validation automatique",
-                },
-              },
-              required: ["enabled"],
+        },
+        handler: (args) => this.scaffold(
+          args.generator as string,
+          (args.variables ?? {}) as Record<string, unknown>,
+          args.roots as Partial<Record<ScaffoldLocation, string>>,
+          args.dryRun as boolean
+        ),
+      },
+      {
+        name: "rollback_script",
+        description: "Annule les dernières modifications d'un script (rollback)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script à restaurer",
+            },
+            changesetId: {
+              type: "string",
+              description: "Annuler tout un changeset (voir rollback_history) au lieu d'un seul script",
+            },
+            versionId: {
+              type: "number",
+              description: "Numéro de la version à restaurer (voir rollback_history)",
+            },
+            timestamp: {
+              type: "string",
+              description: "Restaurer la dernière version antérieure à cette date (ISO 8601 ou millisecondes)",
+            },
+            steps: {
+              type: "number",
+              description: "Nombre de versions à reculer (par défaut: 1)",
             },
           },
-          {
-            name: "toggle_chain_of_thought",
-            description: "Active/désactive le mode chain-of-thought qui force l'explication avant action",
-            inputSchema: {
-              type: "object",
-              properties: {
-                enabled: {
-                  type: "boolean",
-                  description: "Activer (true) ou désactiver (false) le chain-of-thought",
-                },
-                verbose: {
-                  type: "boolean",
-                  description: "Mode verbeux pour plus de détails (par défaut: false)",
-                },
+        },
+        handler: async (args) => {
+          if (args.changesetId) {
+            return await this.rollbackChangeset(args.changesetId as string);
+          }
+          return await this.rollbackScript(args.scriptPath as string, {
+            versionId: args.versionId as number | undefined,
+            timestamp: args.timestamp as string | undefined,
+            steps: args.steps as number | undefined,
+          });
+        },
+      },
+      {
+        name: "rollback_history",
+        description: "Affiche l'historique des modifications disponibles pour rollback",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script (optionnel, sinon affiche tout)",
+            },
+            versionId: {
+              type: "number",
+              description: "Afficher le contenu complet de cette version (nécessite scriptPath)",
+            },
+          },
+        },
+        handler: (args) => this.getRollbackHistory(
+          args.scriptPath as string,
+          args.versionId as number | undefined
+        ),
+      },
+      {
+        name: "check_antipatterns",
+        description: "Analyse un script pour détecter les anti-patterns Roblox et les usages d'API dépréciés, réservés aux plugins ou client-only dans un script serveur",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Chemin vers le script à analyser",
+            },
+            autoFix: {
+              type: "boolean",
+              description: "Proposer des corrections automatiques (par défaut: false)",
+            },
+          },
+          required: ["scriptPath"],
+        },
+        handler: (args) => this.checkAntiPatterns(
+          args.scriptPath as string,
+          args.autoFix as boolean
+        ),
+      },
+      {
+        name: "audit_remotes",
+        description: "Audite les handlers OnServerEvent/OnServerInvoke: paramètres du client qui atteignent DataStore, monnaie, Instance.new ou Destroy sans contrôle de type ou de bornes, et limitation de fréquence",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Script à auditer (optionnel, sinon tous les scripts non client)",
+            },
+          },
+        },
+        handler: (args) => this.auditRemotes(args.scriptPath as string),
+      },
+      {
+        name: "list_remotes",
+        description: "Registre des RemoteEvent/RemoteFunction: création, appels Fire/Invoke et handlers côté client et serveur, avec les désaccords (noms inconnus, nombre d'arguments, remotes jamais gérés ou jamais déclenchés)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Nom du remote (optionnel, sinon tous)",
+            },
+          },
+        },
+        handler: (args) => this.listRemotes(args.name as string),
+      },
+      {
+        name: "scan_backdoors",
+        description: "Recherche du code malveillant (free models, packages Wally): chaînes obfusquées, string.char, base64, require(assetId) caché, loadstring et LoadStringEnabled, achats imposés, commandes d'admin à distance. Score de risque par fichier",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Script à analyser (optionnel, sinon tout le projet)",
+            },
+          },
+        },
+        handler: (args) => this.scanBackdoors(args.scriptPath as string),
+      },
+      {
+        name: "quarantine_script",
+        description: "Isole un script suspect hors de l'arbre synchronisé par Rojo (.mcp-roblox/quarantine), le restaure, ou liste les scripts en quarantaine",
+        inputSchema: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["quarantine", "restore", "list"],
+              description: "Action (par défaut: quarantine)",
+            },
+            scriptPath: {
+              type: "string",
+              description: "Script à mettre en quarantaine",
+            },
+            reason: {
+              type: "string",
+              description: "Raison de la mise en quarantaine (par défaut: résultat de scan_backdoors)",
+            },
+            id: {
+              type: "number",
+              description: "Id de quarantaine du script à restaurer",
+            },
+          },
+        },
+        handler: (args) => this.quarantineScript(
+          (args.action as "quarantine" | "restore" | "list") ?? "quarantine",
+          args.scriptPath as string,
+          args.reason as string,
+          args.id as number
+        ),
+      },
+      {
+        name: "validate_game",
+        description: "Valide l'intégralité du projet Roblox (syntaxe, dépendances, sécurité, structure)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            projectPath: {
+              type: "string",
+              description: "Chemin du projet à valider (par défaut: répertoire courant)",
+            },
+          },
+        },
+        handler: async (args) => {
+          const validationResult = await validateGameTool(
+            args.projectPath as string || this.projectRoot,
+            this.projectFile,
+            getApiDumpIndex()
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: validationResult,
               },
-              required: ["enabled"],
+            ],
+          };
+        },
+      },
+      {
+        name: "get_dependency_graph",
+        description: "Affiche le graphe des require résolus via l'arbre Rojo (modules manquants, cycles, require client → serveur)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Limiter l'affichage aux dépendances et dépendants de ce script (optionnel)",
             },
           },
-          {
-            name: "get_thought_history",
-            description: "Affiche l'historique des réflexions chain-of-thought",
-            inputSchema: {
-              type: "object",
-              properties: {
-                limit: {
-                  type: "number",
-                  description: "Nombre de réflexions à afficher (par défaut: 10)",
-                },
+        },
+        handler: (args) => this.getDependencyGraph(args.scriptPath as string),
+      },
+      {
+        name: "find_definition",
+        description: "Trouve la définition d'une fonction, d'un membre de module, d'un type exporté ou d'un RemoteEvent, en suivant les require",
+        inputSchema: {
+          type: "object",
+          properties: {
+            symbol: {
+              type: "string",
+              description: "Nom tel qu'écrit dans le code (ex: \"Shop:buy\", \"Types.Item\", \"getPrice\", \"BuyItem\")",
+            },
+            scriptPath: {
+              type: "string",
+              description: "Script où le nom est utilisé, pour résoudre ses alias de require (recommandé)",
+            },
+            line: {
+              type: "number",
+              description: "Ligne de l'utilisation dans scriptPath (optionnel)",
+            },
+          },
+          required: ["symbol"],
+        },
+        handler: (args) => this.findDefinition(args.symbol as string, args.scriptPath as string, args.line as number),
+      },
+      {
+        name: "find_references",
+        description: "Liste les utilisations d'un symbole dans tout le projet, y compris via les modules requis",
+        inputSchema: {
+          type: "object",
+          properties: {
+            symbol: {
+              type: "string",
+              description: "Nom du symbole (ex: \"Shop.buy\", \"Item\", \"BuyItem\")",
+            },
+            scriptPath: {
+              type: "string",
+              description: "Script où le nom est utilisé ou défini, pour lever les ambiguïtés (optionnel)",
+            },
+            line: {
+              type: "number",
+              description: "Ligne du nom dans scriptPath (optionnel)",
+            },
+          },
+          required: ["symbol"],
+        },
+        handler: (args) => this.findReferences(args.symbol as string, args.scriptPath as string, args.line as number),
+      },
+      {
+        name: "list_symbols",
+        description: "Liste les symboles indexés: fonctions locales, membres de modules, méthodes, types exportés et RemoteEvents",
+        inputSchema: {
+          type: "object",
+          properties: {
+            scriptPath: {
+              type: "string",
+              description: "Limiter à un script (optionnel)",
+            },
+            kind: {
+              type: "string",
+              enum: ["function", "member", "method", "type", "remote"],
+              description: "Type de symbole (optionnel)",
+            },
+            query: {
+              type: "string",
+              description: "Partie du nom, insensible à la casse (optionnel)",
+            },
+          },
+        },
+        handler: (args) => this.listSymbols(args.scriptPath as string, args.kind as SymbolKind, args.query as string),
+      },
+      {
+        name: "compile_check",
+        description: "Simule une compilation Luau pour détecter TOUTES les erreurs de syntaxe (comme un vrai compilateur)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            targetFile: {
+              type: "string",
+              description: "Fichier spécifique à compiler (optionnel, sinon compile tout le projet)",
+            },
+          },
+        },
+        handler: async (args) => {
+          const compileResult = await compileCheckTool(
+            this.projectRoot,
+            args.targetFile as string
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: compileResult,
               },
+            ],
+          };
+        },
+      },
+      {
+        name: "roblox_api",
+        description: "Affiche la documentation des classes, membres et enums Roblox (toutes les classes si l'API dump est importé, sinon les services les plus utilisés)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            service: {
+              type: "string",
+              description: "Nom de la classe, du service ou de l'enum (ex: Players, Part, Enum.Material)",
+            },
+            search: {
+              type: "string",
+              description: "Rechercher une classe, méthode, propriété, événement ou enum",
+            },
+            member: {
+              type: "string",
+              description: "Membre précis de la classe, hérités compris (ex: Anchored pour Part)",
+            },
+            inherited: {
+              type: "boolean",
+              description: "Inclure les membres hérités des classes ancêtres",
             },
           },
-          {
-            name: "syntax_helper",
-            description: "Aide à éviter les erreurs de syntaxe lors des patches en fournissant des templates et en validant la syntaxe",
-            inputSchema: {
-              type: "object",
-              properties: {
-                action: {
-                  type: "string",
-                  enum: ["get_template", "validate_syntax", "count_blocks", "suggest_fix", "show_rules"],
-                  description: "Action à effectuer : get_template (obtenir un template), validate_syntax (valider), count_blocks (compter blocs), suggest_fix (suggestions), show_rules (afficher règles)",
-                },
-                scriptPath: {
-                  type: "string",
-                  description: "Chemin du script à analyser (pour validate_syntax, count_blocks)",
-                },
-                templateName: {
-                  type: "string",
-                  description: "Nom du template souhaité (pour get_template)",
-                },
-                errorMessage: {
-                  type: "string",
-                  description: "Message d'erreur pour obtenir des suggestions (pour suggest_fix)",
-                },
+        },
+        handler: (args) => this.getRobloxAPI(
+          args.service as string,
+          args.search as string,
+          args.member as string,
+          args.inherited as boolean
+        ),
+      },
+      {
+        name: "import_api_dump",
+        description: "Importe une copie locale de l'API-Dump.json officiel de Roblox (classes, héritage, tags, sécurité, enums) pour roblox_api et search_roblox_docs",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Chemin du fichier API-Dump.json (relatif au projet ou absolu)",
+            },
+          },
+          required: ["path"],
+        },
+        handler: (args) => this.importApiDump(args.path as string),
+      },
+      {
+        name: "search_roblox_docs",
+        description: "Recherche classée dans la documentation Roblox hors ligne (sections, extraits et exemples de code), avec liens vers la documentation en ligne si aucun export local n'est indexé",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Terme de recherche (ex: 'RemoteEvent', 'PathfindingService', 'Animation')",
+            },
+            category: {
+              type: "string",
+              description: "Catégorie de recherche",
+              enum: ["api", "tutorial", "guide", "all"],
+            },
+          },
+          required: ["query"],
+        },
+        handler: (args) => this.searchRobloxDocs(
+          args.query as string,
+          args.category as string
+        ),
+      },
+      {
+        name: "index_roblox_docs",
+        description: "Indexe un dossier local de documentation Roblox (Markdown/YAML, ex: export du dépôt creator-docs) pour search_roblox_docs",
+        inputSchema: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Dossier de documentation (par défaut: --docs, MCP_ROBLOX_DOCS ou .mcp-roblox/docs)",
+            },
+          },
+        },
+        handler: (args) => this.indexRobloxDocs(args.path as string | undefined),
+      },
+      {
+        name: "toggle_auto_merge",
+        description: "Active/désactive la fusion automatique quand un script a été modifié hors de l'assistant depuis sa lecture (fusion à trois voies, seulement sans conflit)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            enabled: {
+              type: "boolean",
+              description: "Activer (true) ou désactiver (false) la fusion automatique",
+            },
+          },
+          required: ["enabled"],
+        },
+        handler: async (args) => {
+          this.patchManager.setAutoMerge(args.enabled as boolean);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `✅ Fusion automatique ${this.patchManager.isAutoMergeEnabled() ? 'activée' : 'désactivée'}\n\n` +
+                      `Une écriture sur un script modifié depuis sa lecture sera ${this.patchManager.isAutoMergeEnabled() ? 'fusionnée automatiquement si les modifications ne se chevauchent pas' : 'refusée avec un aperçu de la fusion'}.`,
               },
-              required: ["action"],
+            ],
+          };
+        },
+      },
+      {
+        name: "toggle_auto_validation",
+        description: "Active/désactive la validation automatique après modification de fichiers",
+        inputSchema: {
+          type: "object",
+          properties: {
+            enabled: {
+              type: "boolean",
+              description: "Activer (true) ou désactiver (false) la validation automatique",
             },
           },
-          {
-            name: "analyze_error",
-            description: "Analyse automatiquement une erreur et fournit des directives précises pour la corriger sans casser le code",
-            inputSchema: {
-              type: "object",
-              properties: {
-                errorMessage: {
-                  type: "string",
-                  description: "Le message d'erreur complet à analyser",
-                },
-                filePath: {
-                  type: "string",
-                  description: "Le chemin du fichier où l'erreur se produit (optionnel)",
-                },
-                lineNumber: {
-                  type: "number",
-                  description: "Le numéro de ligne de l'erreur (optionnel)",
-                },
+          required: ["enabled"],
+        },
+        handler: async (args) => {
+          this.validationManager.setAutoValidation(args.enabled as boolean);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `✅ Validation automatique ${this.validationManager.isAutoValidationEnabled() ? 'activée' : 'désactivée'}\n\n` +
+                      `Les fichiers seront ${this.validationManager.isAutoValidationEnabled() ? 'automatiquement validés' : 'modifiés sans validation'} après chaque modification.`,
               },
-              required: ["errorMessage"],
+            ],
+          };
+        },
+      },
+      {
+        name: "toggle_chain_of_thought",
+        description: "Active/désactive le mode chain-of-thought qui force l'explication avant action",
+        inputSchema: {
+          type: "object",
+          properties: {
+            enabled: {
+              type: "boolean",
+              description: "Activer (true) ou désactiver (false) le chain-of-thought",
+            },
+            verbose: {
+              type: "boolean",
+              description: "Mode verbeux pour plus de détails (par défaut: false)",
             },
           },
-        ] as Tool[];
-        
-      // Injecter les règles de syntaxe et améliorer les outils
-      tools = syntaxRulesInjector.injectInToolsList(tools);
-      
-      return { tools };
-    });
+          required: ["enabled"],
+        },
+        handler: (args) => this.toggleChainOfThought(
+          args.enabled as boolean,
+          args.verbose as boolean
+        ),
+      },
+      {
+        name: "get_thought_history",
+        description: "Affiche l'historique des réflexions chain-of-thought",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "Nombre de réflexions à afficher (par défaut: 10)",
+            },
+          },
+        },
+        handler: (args) => this.getThoughtHistory(args.limit as number),
+      },
+      {
+        name: "syntax_helper",
+        description: "Aide à éviter les erreurs de syntaxe lors des patches en fournissant des templates et en validant la syntaxe",
+        inputSchema: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["get_template", "validate_syntax", "count_blocks", "suggest_fix", "show_rules"],
+              description: "Action à effectuer : get_template (obtenir un template), validate_syntax (valider), count_blocks (compter blocs), suggest_fix (suggestions), show_rules (afficher règles)",
+            },
+            scriptPath: {
+              type: "string",
+              description: "Chemin du script à analyser (pour validate_syntax, count_blocks)",
+            },
+            templateName: {
+              type: "string",
+              description: "Nom du template souhaité (pour get_template)",
+            },
+            errorMessage: {
+              type: "string",
+              description: "Message d'erreur pour obtenir des suggestions (pour suggest_fix)",
+            },
+          },
+          required: ["action"],
+        },
+        handler: (args) => this.handleSyntaxHelper(
+          args.action as string,
+          args.scriptPath as string,
+          args.templateName as string,
+          args.errorMessage as string,
+          args
+        ),
+      },
+      {
+        name: "analyze_error",
+        description: "Analyse automatiquement une erreur et fournit des directives précises pour la corriger sans casser le code",
+        inputSchema: {
+          type: "object",
+          properties: {
+            errorMessage: {
+              type: "string",
+              description: "Le message d'erreur complet à analyser",
+            },
+            filePath: {
+              type: "string",
+              description: "Le chemin du fichier où l'erreur se produit (optionnel)",
+            },
+            lineNumber: {
+              type: "number",
+              description: "Le numéro de ligne de l'erreur (optionnel)",
+            },
+          },
+          required: ["errorMessage"],
+        },
+        handler: (args) => this.analyzeErrorMessage(
+          args.errorMessage as string,
+          args.filePath as string,
+          args.lineNumber as number
+        ),
+      },
+      {
+        name: "get_token_report",
+        description: "Affiche les outils et fichiers qui consomment le plus de contexte dans la session",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "number",
+              description: "Nombre d'outils et de fichiers affichés (défaut: 10)",
+              default: 10,
+            },
+            newSession: {
+              type: "boolean",
+              description: "Clôt la session après le rapport (à utiliser quand le contexte du client a été vidé)",
+              default: false,
+            },
+          },
+        },
+        handler: (args) => this.getTokenReport(args.limit as number, args.newSession as boolean),
+      },
+    ]);
+  }
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+  private getProjectStructure() {
+    const rojoTree = this.fileManager.getProjectTree();
+    if (!rojoTree) {
+      return this.getFlatProjectStructure();
+    }
 
-      // Enregistrer l'outil dans l'historique
-      this.toolHistory.push(name);
-      if (this.toolHistory.length > this.MAX_TOOL_HISTORY) {
-        this.toolHistory.shift();
-      }
+    let output = "📁 **Structure du projet Rojo**\n\n";
+    output += `**Racine:** ${this.projectRoot}\n`;
+    output += `**Projet:** \`${this.projectFile}\`${rojoTree.projectName ? ` (${rojoTree.projectName})` : ""}\n\n`;
+    output += "```\n" + this.renderInstanceTree(rojoTree.getRoot()) + "```\n\n";
+    output += `**Total:** ${rojoTree.getScripts().length} scripts mappés`;
 
-      // Vérifier la conformité du workflow pour les outils critiques
-      const compliance = checkWorkflowCompliance(this.toolHistory, name);
-      
-      // Forcer l'utilisation d'analyze_error si le contexte suggère une erreur
-      if (name === 'get_project_structure' || name === 'read_script') {
-        const lastTools = this.toolHistory.slice(-3);
-        const hasError = lastTools.some(tool => tool.includes('compile_check') || tool.includes('validate_game'));
-        
-        if (hasError && !lastTools.includes('analyze_error')) {
-          console.error("⚠️ Une erreur a été détectée. Utilisez d'abord 'analyze_error' pour obtenir des directives!");
-        }
-      }
-      
-      try {
-        switch (name) {
-          case "get_project_structure":
-            return this.getProjectStructure();
-
-          case "read_script":
-            return this.readScript(args?.scriptPath as string);
-
-          case "write_script":
-            return await this.writeScript(
-              args?.scriptPath as string,
-              args?.content as string,
-              args?.useDiff as boolean
-            );
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  }
 
-          case "create_script":
-            return await this.createScript(
-              args?.scriptPath as string,
-              args?.scriptType as string,
-              args?.content as string
-            );
+  /**
+   * Rend l'arbre DataModel avec la classe et la source de chaque instance
+   */
+  private renderInstanceTree(instance: RojoInstance, prefix: string = "", isLast: boolean = true, isRoot: boolean = true): string {
+    const source = instance.filePath ?? instance.projectFile ?? instance.directory;
+    const label = `${instance.name} (${instance.className})${source ? ` → ${source}` : ""}`;
 
-          case "delete_script":
-            return await this.deleteScript(args?.scriptPath as string);
+    let output = isRoot ? `${label}\n` : `${prefix}${isLast ? "└── " : "├── "}${label}\n`;
+    const childPrefix = isRoot ? "" : prefix + (isLast ? "    " : "│   ");
 
-          case "get_rojo_config":
-            return this.getRojoConfig();
+    const children = Array.from(instance.children.values());
+    children.forEach((child, index) => {
+      output += this.renderInstanceTree(child, childPrefix, index === children.length - 1, false);
+    });
 
-          case "search_in_scripts":
-            return this.searchInScripts(
-              args?.query as string,
-              args?.caseSensitive as boolean
-            );
+    return output;
+  }
 
-          case "patch_script":
-            return await this.patchScript({
-              scriptPath: args?.scriptPath as string,
-              operation: args?.operation as "insert" | "replace" | "delete",
-              lineStart: args?.lineStart as number,
-              lineEnd: args?.lineEnd as number,
-              newContent: args?.newContent as string,
-              description: args?.description as string,
-            });
+  private getFlatProjectStructure() {
+    const structure: { [key: string]: any[] } = {
+      server: [],
+      client: [],
+      shared: [],
+    };
 
-          case "preview_patch":
-            return this.previewPatch({
-              scriptPath: args?.scriptPath as string,
-              operation: args?.operation as "insert" | "replace" | "delete",
-              lineStart: args?.lineStart as number,
-              lineEnd: args?.lineEnd as number,
-              newContent: args?.newContent as string,
-            });
+    for (const [path, fileInfo] of this.fileManager.getProjectStructure()) {
+      const category: string = fileInfo.realm;
+      
+      structure[category].push({
+        path: path,
+        name: path.split("/").pop(),
+        type: fileInfo.className,
+        lastModified: fileInfo.lastModified,
+        size: fileInfo.content.length,
+      });
+    }
 
-          case "list_templates":
-            return this.listTemplates(args?.category as string);
+    let output = "📁 **Structure du projet Rojo**\n\n";
+    output += `**Racine:** ${this.projectRoot}\n\n`;
 
-          case "use_template":
-            return await this.useTemplate(
-              args?.templateName as string,
-              args?.variables as Record<string, string>,
-              args?.targetPath as string
-            );
+    for (const [category, files] of Object.entries(structure)) {
+      if (files.length > 0) {
+        const icon = category === "server" ? "🖥️" : category === "client" ? "💻" : "📦";
+        output += `${icon} **${category.toUpperCase()} (${files.length})**\n`;
+        
+        files.forEach(file => {
+          output += `  - \`${file.path}\` (${file.size} chars)\n`;
+        });
+        output += "\n";
+      }
+    }
 
-          case "rollback_script":
-            return await this.rollbackScript(
-              args?.scriptPath as string,
-              args?.steps as number
-            );
+    output += `**Total:** ${this.fileManager.getProjectStructure().size} fichiers`;
 
-          case "rollback_history":
-            return this.getRollbackHistory(args?.scriptPath as string);
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  }
 
-          case "check_antipatterns":
-            return this.checkAntiPatterns(
-              args?.scriptPath as string,
-              args?.autoFix as boolean
-            );
+  private formatSymbol(symbol: SymbolDefinition): string {
+    const exported = symbol.exported && symbol.kind !== "remote" ? " (exporté)" : "";
+    return `- \`${symbol.name}\`${symbol.detail ? ` ${symbol.detail}` : ""} [${symbol.kind}]${exported} - \`${symbol.file}\` ligne ${symbol.line}`;
+  }
 
-          case "validate_game":
-            const validationResult = await validateGameTool(
-              args?.projectPath as string || this.projectRoot
-            );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: validationResult,
-                },
-              ],
-            };
+  private findDefinition(symbol: string, scriptPath?: string, line?: number) {
+    const context = scriptPath ? { file: scriptPath.split(path.sep).join("/"), line } : undefined;
+    const definitions = this.symbolIndex.findDefinitions(symbol, context);
 
-          case "compile_check":
-            const compileResult = await compileCheckTool(
-              this.projectRoot,
-              args?.targetFile as string
-            );
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: compileResult,
-                },
-              ],
-            };
+    let responseText = `## 🎯 **Définition de \`${symbol}\`**\n\n`;
+    if (definitions.length === 0) {
+      responseText += `❌ Aucune définition trouvée${scriptPath ? ` depuis \`${scriptPath}\`` : ""}.\n\n`;
+      responseText += `💡 Seuls les fonctions locales du niveau module, les membres des tables de module, les types exportés et les RemoteEvents nommés sont indexés. Essayez \`list_symbols\` avec \`query\`.`;
+    } else {
+      if (definitions.length > 1) {
+        responseText += `⚠️ ${definitions.length} définitions possibles${scriptPath ? "" : ": précisez `scriptPath` pour résoudre le nom comme il est utilisé"}\n\n`;
+      }
+      definitions.forEach(definition => {
+        responseText += `${this.formatSymbol(definition)}\n`;
+      });
+      responseText += `\n💡 Lisez-la avec \`read_script\` (\`function\` ou \`startLine\`/\`endLine\`).`;
+    }
 
-          case "roblox_api":
-            return this.getRobloxAPI(
-              args?.service as string,
-              args?.search as string
-            );
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
 
-          case "search_roblox_docs":
-            return await this.searchRobloxDocs(
-              args?.query as string,
-              args?.category as string
-            );
+  private findReferences(symbol: string, scriptPath?: string, line?: number) {
+    const context = scriptPath ? { file: scriptPath.split(path.sep).join("/"), line } : undefined;
+    const { definitions, references } = this.symbolIndex.findReferences(symbol, context);
 
-          case "toggle_auto_validation":
-            this.autoValidateEnabled = args?.enabled as boolean;
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `✅ Validation automatique ${this.autoValidateEnabled ? 'activée' : 'désactivée'}\n\n` +
-                        `Les fichiers seront ${this.autoValidateEnabled ? 'automatiquement validés' : 'modifiés sans validation'} après chaque modification.`,
-                },
-              ],
-            };
+    let responseText = `## 🔎 **Références de \`${symbol}\`**\n\n`;
+    if (definitions.length > 0) {
+      responseText += `**Défini dans:**\n${definitions.map(definition => this.formatSymbol(definition)).join("\n")}\n\n`;
+    }
 
-          case "toggle_chain_of_thought":
-            return this.toggleChainOfThought(
-              args?.enabled as boolean,
-              args?.verbose as boolean
-            );
+    if (references.length === 0) {
+      responseText += `Aucune utilisation trouvée.`;
+    } else {
+      const byFile = new Map<string, typeof references>();
+      references.forEach(reference => {
+        byFile.set(reference.file, [...(byFile.get(reference.file) ?? []), reference]);
+      });
+      responseText += `**${references.length} utilisation(s) dans ${byFile.size} script(s):**\n\n`;
+      byFile.forEach((fileReferences, file) => {
+        responseText += `### \`${file}\`\n`;
+        fileReferences.forEach(reference => {
+          responseText += `- ligne ${reference.line}: \`${reference.name}\`\n`;
+        });
+        responseText += `\n`;
+      });
+    }
 
-          case "get_thought_history":
-            return this.getThoughtHistory(args?.limit as number);
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
 
-          case "syntax_helper":
-            return await this.handleSyntaxHelper(
-              args?.action as string,
-              args?.scriptPath as string,
-              args?.templateName as string,
-              args?.errorMessage as string,
-              args
-            );
+  private listSymbols(scriptPath?: string, kind?: SymbolKind, query?: string) {
+    const file = scriptPath ? scriptPath.split(path.sep).join("/") : undefined;
+    const symbols = this.symbolIndex.listSymbols({ file, kind, query });
 
-          case "analyze_error":
-            return this.analyzeErrorMessage(
-              args?.errorMessage as string,
-              args?.filePath as string,
-              args?.lineNumber as number
-            );
+    let responseText = `## 🧭 **Symboles${file ? ` de \`${file}\`` : " du projet"}**\n\n`;
+    responseText += `**Scripts indexés:** ${this.symbolIndex.getIndexedFiles().length}\n\n`;
 
-          default:
-            throw new Error(`Outil inconnu: ${name}`);
+    if (symbols.length === 0) {
+      responseText += `Aucun symbole trouvé.\n`;
+    } else {
+      let currentFile = "";
+      symbols.forEach(symbol => {
+        if (symbol.file !== currentFile) {
+          currentFile = symbol.file;
+          responseText += `${responseText.endsWith("\n\n") ? "" : "\n"}### \`${currentFile}\`\n`;
         }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `❌ Erreur lors de l'exécution de ${name}: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-        };
-      }
-    });
+        const exported = symbol.exported && symbol.kind !== "remote" ? " (exporté)" : "";
+        responseText += `- ligne ${symbol.line}: \`${symbol.name}\`${symbol.detail ? ` ${symbol.detail}` : ""} [${symbol.kind}]${exported}\n`;
+      });
+    }
+
+    const unparsed = this.symbolIndex.getUnparsedFiles().filter(unparsedFile => !file || unparsedFile === file);
+    if (unparsed.length > 0) {
+      responseText += `\n⚠️ Non indexés (erreurs de syntaxe): ${unparsed.map(unparsedFile => `\`${unparsedFile}\``).join(", ")}\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
   }
 
-  private getProjectStructure() {
-    const structure: { [key: string]: any[] } = {
-      server: [],
-      client: [],
-      shared: [],
-    };
+  private async getDependencyGraph(scriptPath?: string) {
+    const tree = await RojoProjectTree.load(this.projectRoot, this.projectFile);
+    const contents = new Map<string, string>();
+    for (const [filePath, fileInfo] of this.fileManager.getProjectStructure()) {
+      contents.set(filePath.split(path.sep).join("/"), fileInfo.content);
+    }
+    const graph = await DependencyGraph.build(this.projectRoot, tree, contents);
 
-    for (const [path, fileInfo] of this.projectStructure) {
-      const category = fileInfo.type === "ServerScript" ? "server" :
-                     fileInfo.type === "LocalScript" ? "client" : "shared";
-      
-      structure[category].push({
-        path: path,
-        name: path.split("/").pop(),
-        type: fileInfo.type,
-        lastModified: fileInfo.lastModified,
-        size: fileInfo.content.length,
-      });
+    const targetFile = scriptPath ? scriptPath.split(path.sep).join("/") : undefined;
+    if (targetFile && !graph.getNode(targetFile)) {
+      throw new Error(`Le script ${scriptPath} n'est pas mappé par le projet Rojo`);
     }
 
-    let output = "📁 **Structure du projet Rojo**\n\n";
-    output += `**Racine:** ${this.projectRoot}\n\n`;
+    const nodes = targetFile ? [graph.getNode(targetFile)!] : graph.getNodes();
+    const issues = graph.getIssues().filter(issue =>
+      !targetFile || issue.file === targetFile || issue.message.includes(targetFile)
+    );
 
-    for (const [category, files] of Object.entries(structure)) {
-      if (files.length > 0) {
-        const icon = category === "server" ? "🖥️" : category === "client" ? "💻" : "📦";
-        output += `${icon} **${category.toUpperCase()} (${files.length})**\n`;
-        
-        files.forEach(file => {
-          output += `  - \`${file.path}\` (${file.size} chars)\n`;
+    let responseText = `## 🔗 **Graphe de dépendances**\n\n`;
+    responseText += `**Scripts analysés:** ${graph.getNodes().length}\n\n`;
+
+    for (const node of nodes) {
+      const dependencies = graph.getDependencies(node.file);
+      responseText += `### \`${node.file}\`\n`;
+      responseText += `${node.instancePath} (${node.className}, ${node.realm})\n`;
+
+      if (dependencies.length === 0) {
+        responseText += `- Aucune dépendance interne\n`;
+      } else {
+        dependencies.forEach(dependency => {
+          responseText += `- → \`${dependency}\`\n`;
         });
-        output += "\n";
       }
+
+      const external = node.requires.filter(r => r.status === "external" || r.status === "asset" || r.status === "dynamic");
+      external.forEach(reference => {
+        const label = reference.status === "asset" ? "asset" : reference.status === "dynamic" ? "dynamique" : "externe";
+        responseText += `- ⚪ \`require(${reference.expression})\` (${label}, ligne ${reference.line})\n`;
+      });
+
+      if (targetFile) {
+        const dependents = graph.getDependents(node.file);
+        responseText += `\n**Utilisé par:** ${dependents.length > 0 ? dependents.map(d => `\`${d}\``).join(", ") : "aucun script"}\n`;
+      }
+      responseText += `\n`;
     }
 
-    output += `**Total:** ${this.projectStructure.size} fichiers`;
+    if (issues.length === 0) {
+      responseText += `✅ **Aucun problème de dépendance détecté**`;
+    } else {
+      responseText += `### ❌ **Problèmes (${issues.length})**\n`;
+      issues.forEach(issue => {
+        responseText += `- \`${issue.file}\`${issue.line ? ` ligne ${issue.line}` : ""}: ${issue.message}\n`;
+      });
+    }
 
     return {
       content: [
         {
           type: "text",
-          text: output,
+          text: responseText,
         },
       ],
     };
   }
 
-  private readScript(scriptPath: string) {
-    const fileInfo = this.projectStructure.get(scriptPath);
+  private readScript(scriptPath: string, options: ReadScriptOptions = {}) {
+    const fileInfo = this.fileManager.getFileInfo(scriptPath);
     
     if (!fileInfo) {
-      const responseText = `❌ **Script non trouvé:** \`${scriptPath}\`\n\nScripts disponibles:\n${Array.from(this.projectStructure.keys()).map(p => `- ${p}`).join('\n')}`;
-      this.updateTokenUsage(responseText);
+      const responseText = `❌ **Script non trouvé:** \`${scriptPath}\`\n\nScripts disponibles:\n${Array.from(this.fileManager.getProjectStructure().keys()).map(p => `- ${p}`).join('\n')}`;
       
       return {
         content: [
           {
             type: "text",
-            text: responseText + this.appendTokenUsageReport(),
+            text: responseText,
           },
         ],
       };
     }
 
-    // Utiliser le cache sémantique pour optimiser les tokens
-    const optimizedContent = this.getOptimizedFileContent(scriptPath);
-    const isUsingCache = this.semanticCache.has(scriptPath) && 
-                        this.semanticCache.get(scriptPath)!.fileHash === this.hashString(fileInfo.content);
-    
+    const { mode = "auto", startLine, endLine, functionName } = options;
+    const lineCount = fileInfo.content.split('\n').length;
+    const partial = startLine !== undefined || endLine !== undefined || functionName !== undefined;
+
+    if (partial && mode === "outline") {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `❌ Le mode outline ne se combine pas avec startLine, endLine ou function`,
+          },
+        ],
+      };
+    }
+    if (mode === "outline" || (mode === "auto" && !partial && lineCount > AUTO_OUTLINE_MIN_LINES && this.tokenManager.isNearLimit())) {
+      return this.readScriptOutline(scriptPath, mode === "auto");
+    }
+    if (partial) {
+      return this.readScriptRange(scriptPath, startLine, endLine, functionName);
+    }
+
     // Diviser le code en petits blocs pour éviter les artefacts
-    const codeLines = optimizedContent.split('\n');
+    const codeLines = fileInfo.content.split('\n');
     const maxLinesPerBlock = 20; // Limiter pour forcer l'affichage inline
     let formattedCode = '';
     
     // Si le fichier est petit, afficher tout
     if (codeLines.length <= maxLinesPerBlock) {
-      formattedCode = `\`\`\`luau\n${optimizedContent}\n\`\`\``;
+      formattedCode = `\`\`\`luau\n${fileInfo.content}\n\`\`\``;
     } else {
       // Sinon, afficher par blocs avec numéros de lignes
       formattedCode = '**Code complet :**\n\n';
@@ -923,130 +1837,203 @@ class RojoMCPServer {
       }
     }
     
-    const responseText = `📝 **${path.basename(scriptPath)}** (${fileInfo.type})\n` +
-                        `**Chemin:** \`${scriptPath}\`\n` +
-                        `**Taille:** ${fileInfo.content.length} caractères\n` +
-                        `**Modifié:** ${fileInfo.lastModified.toLocaleString()}\n` +
-                        `**Cache:** ${isUsingCache ? '✅ Optimisé' : '🔄 Complet'}\n\n` +
-                        formattedCode;
+    // Version de référence pour les prochaines écritures sur ce script
+    const version = this.versionTracker.record(scriptPath, fileInfo.content);
+
+    const header = `📝 **${path.basename(scriptPath)}** (${fileInfo.className})\n` +
+                   `**Chemin:** \`${scriptPath}\`\n` +
+                   `**Version:** \`${version}\`\n` +
+                   (fileInfo.instancePath ? `**Instance:** \`${fileInfo.instancePath}\`\n` : '');
+    const details = `**Taille:** ${fileInfo.content.length} caractères\n` +
+                    `**Modifié:** ${new Date(fileInfo.lastModified).toLocaleString()}\n`;
+
+    // Contenu déjà renvoyé dans la session: réponse courte ou diff depuis la dernière lecture
+    const fullTokens = this.tokenManager.estimateTokens(header + details + formattedCode);
+    const cached = mode === "full" ? { status: "miss" as const } : this.readCache.lookup(scriptPath, fileInfo.content);
+    let responseText: string | undefined;
+
+    if (cached.status === "unchanged") {
+      responseText = header +
+                     `**Lecture:** inchangé depuis la lecture #${cached.read}\n\n` +
+                     `✅ Le contenu est identique à celui de la lecture #${cached.read}. Utilisez \`mode: "full"\` si vous ne l'avez plus.`;
+    } else if (cached.status === "reverted") {
+      // Le fichier est revenu à un contenu plus ancien: la dernière lecture ne reflète plus le disque
+      const { read } = this.readCache.record(scriptPath, fileInfo.content);
+      responseText = header +
+                     `**Lecture:** #${read}, revenu au contenu de la lecture #${cached.read}\n\n` +
+                     `⚠️ Le script a changé depuis la lecture #${cached.lastRead}: son contenu est de nouveau identique à celui de la lecture #${cached.read}. ` +
+                     `Utilisez \`mode: "full"\` si vous ne l'avez plus.`;
+    } else if (cached.status === "changed") {
+      const diff = createUnifiedDiff(cached.previousContent, fileInfo.content);
+      // Le diff n'est utile que s'il est nettement plus court que le contenu
+      if (this.tokenManager.estimateTokens(diff) <= fullTokens * MAX_READ_DIFF_RATIO) {
+        const { read } = this.readCache.record(scriptPath, fileInfo.content);
+        responseText = header +
+                       `**Lecture:** #${read}, modifications depuis la lecture #${cached.read}\n\n` +
+                       '```diff\n' + diff + '\n```';
+      }
+    }
+
+    if (responseText !== undefined) {
+      this.tokenManager.recordCacheHit(fullTokens - this.tokenManager.estimateTokens(responseText));
+    } else {
+      this.tokenManager.recordCacheMiss();
+      const { read } = this.readCache.record(scriptPath, fileInfo.content);
+      responseText = header + details + `**Lecture:** #${read}\n\n` + formattedCode;
+    }
     
-    this.updateTokenUsage(responseText);
-
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
   }
 
-  private async writeScript(scriptPath: string, content: string, useDiff: boolean = true) {
-    // Chain-of-thought si activé
-    if (this.chainOfThoughtEnabled) {
-      const thought = this.generateThoughtProcess('write_script', {
-        scriptPath,
-        contentSize: content.length,
-        hasExistingFile: this.projectStructure.has(scriptPath)
-      });
-      this.thoughtHistory.unshift(thought);
-      if (this.thoughtHistory.length > 50) this.thoughtHistory.pop(); // Limiter l'historique
+  /**
+   * Plan du script: symboles avec leurs lignes, à relire ensuite par plage ou par fonction
+   */
+  private readScriptOutline(scriptPath: string, automatic: boolean) {
+    const fileInfo = this.fileManager.getFileInfo(scriptPath)!;
+    const outline = buildScriptOutline(fileInfo.content);
+    const version = this.versionTracker.record(scriptPath, fileInfo.content);
+
+    let responseText = `🗂️ **Plan de ${path.basename(scriptPath)}** (${fileInfo.className})\n` +
+                       `**Chemin:** \`${scriptPath}\`\n` +
+                       `**Version:** \`${version}\`\n` +
+                       `**Lignes:** ${outline.lineCount}\n\n`;
+
+    if (automatic) {
+      responseText += `⚠️ Contexte presque plein (${this.tokenManager.getRemainingTokens()} tokens restants): plan renvoyé à la place du contenu. ` +
+                      `Utilisez \`mode: "full"\` pour forcer la lecture complète.\n\n`;
+    }
+    if (outline.approximate) {
+      responseText += `⚠️ Le script contient des erreurs de syntaxe: plan approximatif (déclarations de fonctions uniquement).\n\n`;
     }
-    
-    try {
-      const fullPath = path.join(this.projectRoot, scriptPath);
-      const fileInfo = this.projectStructure.get(scriptPath);
-      
-      // NOUVEAU: Exécuter les hooks de validation AVANT l'écriture
-      const hookResult = await hookManager.executeHooks({
-        operation: 'write',
-        filePath: scriptPath,
-        originalContent: fileInfo?.content || '',
-        newContent: content
-      });
 
-      // Si la validation échoue, bloquer l'opération
-      if (!hookResult.approved) {
-        let errorMsg = `❌ **Validation échouée - Écriture bloquée**\n\n`;
-        errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
-        
-        if (hookResult.errors && hookResult.errors.length > 0) {
-          errorMsg += `**🚨 Erreurs critiques:**\n`;
-          hookResult.errors.forEach(err => errorMsg += `- ${err}\n`);
-          errorMsg += `\n`;
-        }
-        
-        if (hookResult.warnings && hookResult.warnings.length > 0) {
-          errorMsg += `**⚠️ Avertissements:**\n`;
-          hookResult.warnings.forEach(warn => errorMsg += `- ${warn}\n`);
-          errorMsg += `\n`;
-        }
-        
-        if (hookResult.suggestions && hookResult.suggestions.length > 0) {
-          errorMsg += `**💡 Suggestions:**\n`;
-          hookResult.suggestions.forEach(sug => errorMsg += `- ${sug}\n`);
-          errorMsg += `\n`;
-        }
-        
-        errorMsg += `\n**📋 Actions requises:**\n`;
-        errorMsg += `1. Corrigez les erreurs de syntaxe ci-dessus\n`;
-        errorMsg += `2. Assurez-vous que tous les blocs sont fermés (chaque 'function', 'if', 'for' doit avoir son 'end')\n`;
-        errorMsg += `3. Vérifiez l'équilibre des parenthèses et accolades\n`;
-        errorMsg += `4. Réessayez l'écriture après correction\n`;
-        
-        this.updateTokenUsage(errorMsg);
+    if (outline.symbols.length === 0) {
+      responseText += `Aucune fonction, table ou export trouvé.\n`;
+    } else {
+      responseText += '```\n' + outline.symbols.map(symbol => this.formatOutlineSymbol(symbol)).join('\n') + '\n```\n';
+    }
+
+    responseText += `\n💡 Lisez une partie avec \`startLine\`/\`endLine\` ou \`function\`.`;
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private formatOutlineSymbol(symbol: OutlineSymbol): string {
+    const lines = symbol.endLine > symbol.line ? `${symbol.line}-${symbol.endLine}` : `${symbol.line}`;
+    const label = symbol.kind === 'type' && symbol.exported ? 'export type' : symbol.kind;
+    const exported = symbol.exported && symbol.kind !== 'export' && symbol.kind !== 'type' ? ' (exporté)' : '';
+    return `${lines.padEnd(9)} ${'  '.repeat(symbol.depth)}${label} ${symbol.name}${symbol.detail ? ` ${symbol.detail}` : ''}${exported}`;
+  }
+
+  /**
+   * Plage de lignes ou fonction entière, avec les numéros de ligne du fichier
+   */
+  private readScriptRange(scriptPath: string, startLine?: number, endLine?: number, functionName?: string) {
+    const fileInfo = this.fileManager.getFileInfo(scriptPath)!;
+    const lines = fileInfo.content.split('\n');
+
+    let start: number;
+    let end: number;
+    if (functionName !== undefined) {
+      if (startLine !== undefined || endLine !== undefined) {
         return {
           content: [
             {
               type: "text",
-              text: errorMsg + this.appendTokenUsageReport(),
+              text: `❌ Utilisez soit \`function\`, soit \`startLine\`/\`endLine\``,
             },
           ],
         };
       }
-
-      // Utiliser le contenu potentiellement modifié par les hooks
-      const finalContent = hookResult.modifiedContent || content;
-      
-      // Générer le diff si l'ancien contenu existe et que useDiff est activé
-      let diffReport = '';
-      if (fileInfo && useDiff) {
-        diffReport = this.generateDiff(fileInfo.content, finalContent);
-        
-        // Sauvegarder dans l'historique de rollback (OPTIMISÉ)
-        this.saveRollbackEntry(scriptPath, fileInfo.content, finalContent);
+      try {
+        ({ start, end } = resolveAnchor(fileInfo.content, { function: functionName }));
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ ${error instanceof Error ? error.message : String(error)}\n\n💡 Utilisez \`mode: "outline"\` pour lister les fonctions du script.`,
+            },
+          ],
+        };
       }
-      
-      await fs.ensureDir(path.dirname(fullPath));
-      await fs.writeFile(fullPath, finalContent);
-      
-      // Mettre à jour la structure en mémoire
-      await this.updateFile(scriptPath);
-      
-      let responseText = `✅ **Script mis à jour avec succès**\n\n**Fichier:** \`${scriptPath}\`\n**Taille:** ${finalContent.length} caractères\n**Lignes:** ${finalContent.split('\n').length}${diffReport ? '\n\n' + diffReport : ''}`;
-      
-      // Ajouter les avertissements s'il y en a
-      if (hookResult.warnings && hookResult.warnings.length > 0) {
-        responseText += `\n\n**⚠️ Avertissements détectés:**\n`;
-        hookResult.warnings.forEach(warn => responseText += `- ${warn}\n`);
+    } else {
+      start = startLine ?? 1;
+      end = Math.min(endLine ?? lines.length, lines.length);
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || start > lines.length || end < start) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `❌ Plage invalide: ${start}-${endLine ?? 'fin'} (le script a ${lines.length} lignes)`,
+            },
+          ],
+        };
       }
+    }
+
+    const version = this.versionTracker.record(scriptPath, fileInfo.content);
+    const width = String(end).length;
+    const numbered = lines.slice(start - 1, end).map((line, index) => `${String(start + index).padStart(width)}| ${line}`).join('\n');
+
+    const responseText = `📝 **${path.basename(scriptPath)}** (${fileInfo.className})\n` +
+                         `**Chemin:** \`${scriptPath}\`\n` +
+                         `**Version:** \`${version}\`\n` +
+                         (functionName !== undefined ? `**Fonction:** \`${functionName}\`\n` : '') +
+                         `**Lignes:** ${start}-${end} sur ${lines.length}\n\n` +
+                         '```luau\n' + numbered + '\n```';
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private async writeScript(scriptPath: string, content: string, useDiff: boolean = true, expectedVersion?: string) {
+    // Chain-of-thought si activé
+    if (this.chainOfThoughtEnabled) {
+      const thought = this.generateThoughtProcess('write_script', {
+        scriptPath,
+        contentSize: content.length,
+        hasExistingFile: this.fileManager.getFileInfo(scriptPath) !== undefined
+      });
+      this.thoughtHistory.unshift(thought);
+      if (this.thoughtHistory.length > 50) this.thoughtHistory.pop(); // Limiter l'historique
+    }
+    
+    try {
+      // Fraîcheur, hooks de validation, écriture, historique et version
+      const result = await this.patchManager.writeScript(scriptPath, content, useDiff, expectedVersion);
+      let responseText = result.message;
       
       // Validation automatique si activée
-      if (this.autoValidateEnabled) {
+      if (result.success && this.validationManager.isAutoValidationEnabled()) {
         const validationResult = await this.performAutoValidation(scriptPath);
         if (validationResult) {
           responseText += '\n\n' + validationResult;
         }
       }
       
-      this.updateTokenUsage(responseText);
-      
       return {
         content: [
           {
             type: "text",
-            text: responseText + this.appendTokenUsageReport(),
+            text: responseText,
           },
         ],
       };
@@ -1057,128 +2044,231 @@ class RojoMCPServer {
 
   private async createScript(scriptPath: string, scriptType: string, content: string = "") {
     try {
-      // Ajouter l'extension appropriée si nécessaire
-      if (!scriptPath.endsWith('.luau') && !scriptPath.endsWith('.lua')) {
-        const extension = scriptType === "server" ? ".server.luau" :
-                         scriptType === "client" ? ".client.luau" : ".luau";
-        scriptPath += extension;
+      const result = await this.patchManager.createScript(scriptPath, scriptType, content);
+      let responseText = result.message;
+      
+      // Validation automatique si activée
+      if (result.success && result.filePath && this.validationManager.isAutoValidationEnabled()) {
+        const validationResult = await this.performAutoValidation(result.filePath);
+        if (validationResult) {
+          responseText += '\n\n' + validationResult;
+        }
       }
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Impossible de créer le script: ${error}`);
+    }
+  }
 
-      const fullPath = path.join(this.projectRoot, scriptPath);
+  private async deleteScript(scriptPath: string, expectedVersion?: string) {
+    try {
+      // Fraîcheur, hooks de validation et suppression enregistrée comme changeset
+      const result = await this.patchManager.deleteScript(scriptPath, expectedVersion);
       
-      if (await fs.pathExists(fullPath)) {
-        throw new Error(`Le script ${scriptPath} existe déjà`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: result.message,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Impossible de supprimer le script: ${error}`);
+    }
+  }
+
+  private async applyChangeset(operations: ChangesetOperation[], description?: string, dryRun: boolean = false) {
+    if (!Array.isArray(operations)) {
+      throw new Error("operations doit être une liste d'opérations");
+    }
+
+    // Les scripts existants modifiés ou renommés doivent avoir été lus: version par défaut = dernière version vue
+    const unread: string[] = [];
+    for (const operation of operations) {
+      const modifiesExisting = operation.type !== "create";
+      if (!modifiesExisting || operation.expectedVersion || !operation.scriptPath) continue;
+
+      operation.expectedVersion = this.versionTracker.getSeenVersion(operation.scriptPath);
+      if (!operation.expectedVersion && await fs.pathExists(path.join(this.projectRoot, operation.scriptPath))) {
+        unread.push(operation.scriptPath);
       }
+    }
+    if (unread.length > 0) {
+      const errorMsg = `❌ **Version inconnue - Changeset bloqué**\n\n` +
+                       `Aucun fichier n'a été modifié. Ces scripts n'ont pas été lus dans cette session:\n` +
+                       [...new Set(unread)].map(file => `- \`${file}\`\n`).join('') +
+                       `\n**📋 Action requise:** lisez-les avec 'read_script' puis renvoyez le changeset, ou passez \`expectedVersion\` pour chaque opération.`;
+      return {
+        content: [
+          {
+            type: "text",
+            text: errorMsg,
+          },
+        ],
+      };
+    }
+
+    const result = await this.changesetManager.apply(operations, description, dryRun);
+    const rejected = result.reports.filter(report => !report.approved);
+    const describeOperation = (operation: ChangesetOperation) =>
+      operation.type === "rename" ? `rename \`${operation.scriptPath}\` → \`${operation.newPath}\`` :
+      operation.type === "patch" && operation.diff !== undefined ? `patch \`${operation.scriptPath}\` (diff unifié)` :
+      operation.type === "patch" ? `patch \`${operation.scriptPath}\` (${operation.operation} ${operation.anchor ? `ancre ${JSON.stringify(operation.anchor)}` : `ligne ${operation.lineStart}${operation.lineEnd ? `-${operation.lineEnd}` : ""}`})` :
+      `${operation.type} \`${operation.scriptPath}\``;
+
+    let responseText: string;
+    if (rejected.length > 0) {
+      responseText = `❌ **Validation échouée - Changeset bloqué**\n\n`;
+      responseText += `Aucun fichier n'a été modifié (${rejected.length}/${result.reports.length} opération(s) refusée(s)).\n\n`;
+
+      rejected.forEach(report => {
+        responseText += `**#${report.index + 1} ${describeOperation(report.operation)}**\n`;
+        report.errors.forEach(err => responseText += `- 🚨 ${err}\n`);
+        report.suggestions.forEach(sug => responseText += `- 💡 ${sug}\n`);
+        responseText += `\n`;
+      });
 
-      // Contenu par défaut selon le type
-      if (!content) {
-        content = scriptType === "server" ? "-- Script serveur\nprint(\"Script serveur démarré\")" :
-                 scriptType === "client" ? "-- Script client\nprint(\"Script client démarré\")" :
-                 "-- Module\nlocal Module = {}\n\nreturn Module";
+      responseText += `**📋 Actions requises:** corrigez les opérations ci-dessus puis renvoyez le changeset complet.`;
+    } else {
+      responseText = result.applied
+        ? `✅ **Changeset appliqué avec succès**\n\n**Identifiant:** \`${result.changeset!.id}\`\n`
+        : `🔍 **Changeset validé${dryRun ? " (dry run, rien n'a été écrit)" : " - aucune modification à appliquer"}**\n\n`;
+      if (description) {
+        responseText += `**Description:** ${description}\n`;
       }
 
-      // NOUVEAU: Valider le contenu avant création
-      const hookResult = await hookManager.executeHooks({
-        operation: 'create',
-        filePath: scriptPath,
-        newContent: content
+      responseText += `\n**Opérations:**\n`;
+      result.reports.forEach(report => responseText += `${report.index + 1}. ${describeOperation(report.operation)}\n`);
+
+      responseText += `\n**Fichiers:**\n`;
+      result.changes.forEach(change => {
+        const status = change.previousContent === null ? "➕ créé" : change.newContent === null ? "🗑️ supprimé" : "📝 modifié";
+        responseText += `- \`${change.filePath}\` ${status}\n`;
       });
 
-      if (!hookResult.approved) {
-        let errorMsg = `❌ **Validation échouée - Création bloquée**\n\n`;
-        errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
-        
-        if (hookResult.errors && hookResult.errors.length > 0) {
-          errorMsg += `**🚨 Erreurs:**\n`;
-          hookResult.errors.forEach(err => errorMsg += `- ${err}\n`);
-        }
-        
-        this.updateTokenUsage(errorMsg);
-        return {
-          content: [
-            {
-              type: "text",
-              text: errorMsg + this.appendTokenUsageReport(),
-            },
-          ],
-        };
+      const warnings = result.reports.flatMap(report => report.warnings.map(warn => `#${report.index + 1}: ${warn}`));
+      if (warnings.length > 0) {
+        responseText += `\n**⚠️ Avertissements détectés:**\n`;
+        warnings.forEach(warn => responseText += `- ${warn}\n`);
       }
 
-      const finalContent = hookResult.modifiedContent || content;
+      if (result.applied) {
+        await this.syncChangedFiles(result.changes.map(change => change.filePath));
+        responseText += `\n💡 \`rollback_script\` avec \`changesetId: "${result.changeset!.id}"\` annule tout le changeset.`;
+      }
+    }
 
-      await fs.ensureDir(path.dirname(fullPath));
-      await fs.writeFile(fullPath, finalContent);
-      
-      let responseText = `✅ **Script créé avec succès**\n\n**Fichier:** \`${scriptPath}\`\n**Type:** ${scriptType}\n**Taille:** ${content.length} caractères`;
-      
-      // Validation automatique si activée
-      if (this.autoValidateEnabled) {
-        const validationResult = await this.performAutoValidation(scriptPath);
-        if (validationResult) {
-          responseText += '\n\n' + validationResult;
-        }
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Met à jour la structure en mémoire et les versions connues après des écritures/suppressions faites par le serveur
+   */
+  private async syncChangedFiles(filePaths: string[]) {
+    // Des fichiers créés ou supprimés changent l'arbre Rojo
+    await this.reloadRojoTree();
+
+    for (const filePath of filePaths) {
+      const fullPath = path.join(this.projectRoot, filePath);
+      if (await fs.pathExists(fullPath)) {
+        await this.updateFile(filePath);
+        this.versionTracker.record(filePath, await fs.readFile(fullPath, "utf8"));
+      } else {
+        this.fileManager.forgetFile(filePath);
+        this.symbolIndex.removeFile(filePath.split(path.sep).join("/"));
+        this.versionTracker.forget(filePath);
       }
-      
-      this.updateTokenUsage(responseText);
-      
+    }
+  }
+
+  private getRojoConfig() {
+    const treeError = this.fileManager.getProjectTreeError();
+    if (!this.rojoConfig) {
       return {
         content: [
           {
             type: "text",
-            text: responseText + this.appendTokenUsageReport(),
+            text: `❌ **Configuration Rojo non trouvée**\n\nAssurez-vous qu'un fichier \`${this.projectFile}\` existe dans le répertoire racine, ou choisissez un autre projet avec \`select_project\`.`,
           },
         ],
       };
-    } catch (error) {
-      throw new Error(`Impossible de créer le script: ${error}`);
     }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `⚙️ **Configuration Rojo**\n\n**Fichier:** \`${this.projectFile}\`\n**Nom du projet:** ${this.rojoConfig.name}\n\n` +
+                (treeError ? `❌ **Configuration invalide:** ${treeError}\n\n` : "") +
+                "```json\n" + JSON.stringify(this.rojoConfig, null, 2) + "\n```",
+        },
+      ],
+    };
   }
 
-  private async deleteScript(scriptPath: string) {
-    try {
-      const fullPath = path.join(this.projectRoot, scriptPath);
-      
-      if (!(await fs.pathExists(fullPath))) {
-        throw new Error(`Le script ${scriptPath} n'existe pas`);
+  private async selectProject(projectFile?: string) {
+    const available = await RojoProjectTree.listProjectFiles(this.projectRoot);
+
+    if (!projectFile) {
+      let responseText = `## 🗂️ **Projets Rojo disponibles**\n\n`;
+      if (available.length === 0) {
+        responseText += `Aucun fichier \`*.project.json\` ou \`*.project.luau\` trouvé dans ${this.projectRoot}`;
+      } else {
+        available.forEach(file => {
+          responseText += `- \`${file}\`${file === this.projectFile ? " ✅ (actif)" : ""}\n`;
+        });
+        responseText += `\nUtilisez \`select_project\` avec \`projectFile\` pour changer de projet.`;
       }
 
-      await fs.remove(fullPath);
-      this.projectStructure.delete(scriptPath);
-      
-      const responseText = `🗑️ **Script supprimé avec succès**\n\n**Fichier:** \`${scriptPath}\``;
-      this.updateTokenUsage(responseText);
-      
       return {
         content: [
           {
             type: "text",
-            text: responseText + this.appendTokenUsageReport(),
+            text: responseText,
           },
         ],
       };
-    } catch (error) {
-      throw new Error(`Impossible de supprimer le script: ${error}`);
     }
-  }
 
-  private getRojoConfig() {
-    if (!this.rojoConfig) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "❌ **Configuration Rojo non trouvée**\n\nAssurez-vous qu'un fichier `default.project.json` existe dans le répertoire racine.",
-          },
-        ],
-      };
+    if (!await fs.pathExists(path.join(this.projectRoot, projectFile))) {
+      throw new Error(`Le fichier projet ${projectFile} n'existe pas. Projets disponibles: ${available.join(", ") || "aucun"}`);
     }
 
+    // Valider le projet avant de remplacer celui en cours
+    const tree = await RojoProjectTree.load(this.projectRoot, projectFile);
+
+    this.projectFile = projectFile;
+    this.readCache.clear();
+    await this.loadProject();
+
+    let responseText = `✅ **Projet Rojo chargé:** \`${projectFile}\`\n\n`;
+    if (tree.projectName) {
+      responseText += `**Nom du projet:** ${tree.projectName}\n`;
+    }
+    responseText += `**Scripts mappés:** ${tree.getScripts().length}\n\n`;
+    responseText += `Utilisez \`get_project_structure\` pour voir l'arbre DataModel.`;
+
     return {
       content: [
         {
           type: "text",
-          text: `⚙️ **Configuration Rojo**\n\n**Nom du projet:** ${this.rojoConfig.name}\n\n` +
-                "```json\n" + JSON.stringify(this.rojoConfig, null, 2) + "\n```",
+          text: responseText,
         },
       ],
     };
@@ -1188,7 +2278,7 @@ class RojoMCPServer {
     const results: any[] = [];
     const searchQuery = caseSensitive ? query : query.toLowerCase();
 
-    for (const [path, fileInfo] of this.projectStructure) {
+    for (const [path, fileInfo] of this.fileManager.getProjectStructure()) {
       const content = caseSensitive ? fileInfo.content : fileInfo.content.toLowerCase();
       
       if (content.includes(searchQuery)) {
@@ -1245,665 +2335,88 @@ class RojoMCPServer {
     };
   }
 
-  private async patchScript(patch: PatchOperation) {
-    // Vérifier la conformité du workflow
-    const compliance = checkWorkflowCompliance(this.toolHistory, 'patch_script');
-    
-    // Chain-of-thought si activé
-    if (this.chainOfThoughtEnabled) {
-      const thought = this.generateThoughtProcess('patch_script', {
-        scriptPath: patch.scriptPath,
-        operation: patch.operation,
-        lineCount: (patch.lineEnd || patch.lineStart) - patch.lineStart + 1
-      });
-      this.thoughtHistory.unshift(thought);
-    }
-    
-    try {
-      const fullPath = path.join(this.projectRoot, patch.scriptPath);
-      
-      if (!(await fs.pathExists(fullPath))) {
-        throw new Error(`Le script ${patch.scriptPath} n'existe pas`);
-      }
-
-      // Lire le fichier actuel
-      const content = await fs.readFile(fullPath, "utf8");
-      const lines = content.split('\n');
-
-      // Valider les numéros de ligne
-      if (patch.lineStart < 1 || patch.lineStart > lines.length + 1) {
-        throw new Error(`Numéro de ligne invalide: ${patch.lineStart} (fichier a ${lines.length} lignes)`);
-      }
-
-      // NOUVEAU: Valider le patch avec les hooks AVANT application
-      const currentContent = content;
-      const validationResult = await hookManager.validatePatch(currentContent, patch);
-      
-      if (!validationResult.approved) {
-        let errorMsg = `❌ **Validation échouée - Patch bloqué**\n\n`;
-        errorMsg += `**Fichier:** \`${patch.scriptPath}\`\n`;
-        errorMsg += `**Opération:** ${patch.operation}\n`;
-        errorMsg += `**Lignes affectées:** ${patch.lineStart}${patch.lineEnd ? `-${patch.lineEnd}` : ''}\n\n`;
-        
-        if (validationResult.errors && validationResult.errors.length > 0) {
-          errorMsg += `**🚨 Erreurs critiques:**\n`;
-          validationResult.errors.forEach(err => errorMsg += `- ${err}\n`);
-          errorMsg += `\n`;
-        }
-        
-        if (validationResult.warnings && validationResult.warnings.length > 0) {
-          errorMsg += `**⚠️ Avertissements:**\n`;
-          validationResult.warnings.forEach(warn => errorMsg += `- ${warn}\n`);
-          errorMsg += `\n`;
-        }
-        
-        if (validationResult.suggestions && validationResult.suggestions.length > 0) {
-          errorMsg += `**💡 Suggestions:**\n`;
-          validationResult.suggestions.forEach(sug => errorMsg += `- ${sug}\n`);
-          errorMsg += `\n`;
-        }
-        
-        // Afficher un aperçu du code problématique
-        if (patch.newContent) {
-          errorMsg += `**📝 Code soumis:**\n\`\`\`luau\n${patch.newContent}\n\`\`\`\n\n`;
-        }
-        
-        errorMsg += `**📋 Actions requises:**\n`;
-        errorMsg += `1. Corrigez les erreurs de syntaxe dans le contenu du patch\n`;
-        errorMsg += `2. Assurez-vous que le patch maintient l'équilibre des blocs\n`;
-        errorMsg += `3. Utilisez 'preview_patch' pour tester avant d'appliquer\n`;
-        errorMsg += `4. Réessayez avec un patch corrigé\n\n`;
-        errorMsg += `💡 Utilisez 'syntax_helper' pour obtenir des templates corrects.\n`;
-        errorMsg += `📝 Utilisez 'preview_patch' pour vérifier avant d'appliquer.`;
-        
-        this.updateTokenUsage(errorMsg);
-        return {
-          content: [
-            {
-              type: "text",
-              text: errorMsg + this.appendTokenUsageReport(),
-            },
-          ],
-        };
-      }
-
-      // Effectuer l'opération
-      let newLines = [...lines];
-      let operationDescription = "";
-
-      switch (patch.operation) {
-        case "insert":
-          if (!patch.newContent) {
-            throw new Error("newContent requis pour l'opération insert");
-          }
-          const insertLines = patch.newContent.split('\n');
-          newLines.splice(patch.lineStart - 1, 0, ...insertLines);
-          operationDescription = `Inséré ${insertLines.length} ligne(s) à la ligne ${patch.lineStart}`;
-          break;
-
-        case "replace":
-          if (!patch.newContent) {
-            throw new Error("newContent requis pour l'opération replace");
-          }
-          const replaceLines = patch.newContent.split('\n');
-          const endLine = patch.lineEnd || patch.lineStart;
-          
-          if (endLine < patch.lineStart) {
-            throw new Error("lineEnd doit être >= lineStart");
-          }
-          if (endLine > lines.length) {
-            throw new Error(`lineEnd ${endLine} dépasse la fin du fichier (${lines.length} lignes)`);
-          }
-
-          const deletedCount = endLine - patch.lineStart + 1;
-          newLines.splice(patch.lineStart - 1, deletedCount, ...replaceLines);
-          operationDescription = `Remplacé ${deletedCount} ligne(s) par ${replaceLines.length} ligne(s) (lignes ${patch.lineStart}-${endLine})`;
-          break;
-
-        case "delete":
-          const deleteEndLine = patch.lineEnd || patch.lineStart;
-          
-          if (deleteEndLine < patch.lineStart) {
-            throw new Error("lineEnd doit être >= lineStart");
-          }
-          if (deleteEndLine > lines.length) {
-            throw new Error(`lineEnd ${deleteEndLine} dépasse la fin du fichier (${lines.length} lignes)`);
-          }
-
-          const deleteCount = deleteEndLine - patch.lineStart + 1;
-          newLines.splice(patch.lineStart - 1, deleteCount);
-          operationDescription = `Supprimé ${deleteCount} ligne(s) (lignes ${patch.lineStart}-${deleteEndLine})`;
-          break;
-
-        default:
-          throw new Error(`Opération inconnue: ${patch.operation}`);
-      }
-
-      // Écrire le fichier modifié
-      const newContent = newLines.join('\n');
-      await fs.writeFile(fullPath, newContent);
-
-      // Mettre à jour la structure en mémoire
-      await this.updateFile(patch.scriptPath);
-
-      // Générer la review automatique
-      const reviewResult = this.generateAutoReview(lines, newLines, patch);
-
-      // Mettre à jour les tokens
-      let responseText = `✅ **Patch appliqué avec succès**\n\n` +
-                          `**Fichier:** \`${patch.scriptPath}\`\n` +
-                          `**Opération:** ${patch.operation}\n` +
-                          `**Description:** ${patch.description || operationDescription}\n` +
-                          `**Détails:** ${operationDescription}\n` +
-                          `**Taille finale:** ${newLines.length} lignes\n\n` +
-                          reviewResult;
-      
-      // Ajouter un rappel des règles si le workflow n'a pas été respecté
-      if (!compliance.compliant) {
-        responseText += `\n\n${compliance.message}`;
-        responseText += `\n💡 Utilisez \`syntax_helper action: 'show_rules'\` pour voir toutes les règles.`;
-      }
-      
-      // Ajouter le rappel syntaxique pour les outils critiques
-      responseText += getSyntaxReminder('patch_script');
-      
-      this.updateTokenUsage(responseText);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: responseText + this.appendTokenUsageReport(),
-          },
-        ],
-      };
-    } catch (error) {
-      throw new Error(`Impossible d'appliquer le patch: ${error}`);
-    }
-  }
-
-  private generateAutoReview(originalLines: string[], newLines: string[], patch: PatchOperation): string {
-    const affectedStart = Math.max(1, patch.lineStart - 2);
-    const affectedEnd = Math.min(newLines.length, (patch.lineEnd || patch.lineStart) + 2);
-    
-    let review = `## 📋 **Review Automatique**\n\n`;
-    
-    // Résumé des changements
-    const originalCount = originalLines.length;
-    const newCount = newLines.length;
-    const deltaLines = newCount - originalCount;
-    
-    review += `### Résumé des changements\n`;
-    review += `- **Lignes avant:** ${originalCount}\n`;
-    review += `- **Lignes après:** ${newCount}\n`;
-    review += `- **Delta:** ${deltaLines > 0 ? '+' : ''}${deltaLines} ligne(s)\n\n`;
-    
-    // Code modifié avec contexte
-    review += `### Code modifié (avec contexte)\n`;
-    review += `\`\`\`luau\n`;
-    
-    for (let i = affectedStart; i <= Math.min(affectedEnd, newLines.length); i++) {
-      const line = newLines[i - 1];
-      const lineNum = i.toString().padStart(3, ' ');
-      
-      // Marquer les lignes modifiées
-      if (i >= patch.lineStart && i <= (patch.lineEnd || patch.lineStart)) {
-        review += `${lineNum}* ${line}\n`; // * indique une ligne modifiée
-      } else {
-        review += `${lineNum}  ${line}\n`;
-      }
-    }
-    
-    review += `\`\`\`\n\n`;
-    
-    // Analyse de sécurité basique
-    const securityChecks = this.performBasicSecurityChecks(newLines, patch);
-    if (securityChecks.length > 0) {
-      review += `### ⚠️ Vérifications de sécurité\n`;
-      securityChecks.forEach(check => {
-        review += `- ${check}\n`;
-      });
-      review += `\n`;
-    }
-    
-    // Analyse syntaxique basique
-    const syntaxChecks = this.performBasicSyntaxChecks(newLines, patch);
-    if (syntaxChecks.length > 0) {
-      review += `### ✅ Vérifications syntaxiques\n`;
-      syntaxChecks.forEach(check => {
-        review += `- ${check}\n`;
-      });
-      review += `\n`;
-    }
-    
-    // Détection d'anti-patterns Roblox
-    const antiPatterns = detectAntiPatterns(newLines.join('\n'));
-    if (antiPatterns.length > 0) {
-      review += getAntiPatternSuggestions(antiPatterns);
-    }
-    
-    return review;
-  }
-
-  private performBasicSecurityChecks(lines: string[], patch: PatchOperation): string[] {
-    const checks: string[] = [];
-    const newContent = patch.newContent || '';
-    
-    // Vérifier les mots-clés potentiellement dangereux
-    const dangerousPatterns = [
-      /require\s*\(\s*["']http/i,
-      /loadstring\s*\(/i,
-      /getfenv\s*\(/i,
-      /setfenv\s*\(/i,
-    ];
-    
-    dangerousPatterns.forEach(pattern => {
-      if (pattern.test(newContent)) {
-        checks.push(`⚠️ Détection de code potentiellement dangereux: ${pattern.source}`);
-      }
-    });
-    
-    return checks;
-  }
-
-  private performBasicSyntaxChecks(lines: string[], patch: PatchOperation): string[] {
-    const checks: string[] = [];
-    const fullFileContent = lines.join('\n');
-    
-    // Analyser le fichier complet après modification
-    const luauAnalysis = this.analyzeLuauSyntax(fullFileContent);
-    
-    // Vérifications des blocs Luau
-    if (luauAnalysis.blockBalance.isBalanced) {
-      checks.push(`✅ Blocs Luau équilibrés (${luauAnalysis.blockBalance.totalBlocks} blocs)`);
-    } else {
-      checks.push(`❌ Blocs Luau déséquilibrés: ${luauAnalysis.blockBalance.errors.join(', ')}`);
-    }
-    
-    // Vérifications des parenthèses et accolades
-    if (luauAnalysis.bracketsBalance.isBalanced) {
-      checks.push(`✅ Parenthèses et accolades équilibrées`);
-    } else {
-      checks.push(`❌ Déséquilibre: ${luauAnalysis.bracketsBalance.errors.join(', ')}`);
-    }
-    
-    // Détection de fonctions dupliquées
-    if (luauAnalysis.duplicateFunctions.length > 0) {
-      checks.push(`⚠️ Fonctions potentiellement dupliquées: ${luauAnalysis.duplicateFunctions.join(', ')}`);
-    } else {
-      checks.push(`✅ Aucune fonction dupliquée détectée`);
-    }
-    
-    // Vérification de l'indentation
-    if (luauAnalysis.indentation.isConsistent) {
-      checks.push(`✅ Indentation cohérente`);
-    } else {
-      checks.push(`⚠️ Problèmes d'indentation: ${luauAnalysis.indentation.issues.join(', ')}`);
-    }
-    
-    // Vérification des variables locales non utilisées
-    if (luauAnalysis.unusedVariables.length > 0) {
-      checks.push(`⚠️ Variables locales potentiellement inutilisées: ${luauAnalysis.unusedVariables.join(', ')}`);
-    }
-    
-    return checks;
-  }
-
-  private analyzeLuauSyntax(content: string) {
-    const lines = content.split('\n');
-    
-    return {
-      blockBalance: this.checkLuauBlocks(lines),
-      bracketsBalance: this.checkBracketsBalance(content),
-      duplicateFunctions: this.detectDuplicateFunctions(lines),
-      indentation: this.checkIndentation(lines),
-      unusedVariables: this.detectUnusedVariables(lines)
-    };
-  }
-
-  private checkLuauBlocks(lines: string[]) {
-    const blockStarters = [
-      /\bif\b/, /\bwhile\b/, /\bfor\b/, /\brepeat\b/, 
-      /\bfunction\b/, /\bdo\b/, /\bthen\b/
-    ];
-    const blockEnders = [
-      /\bend\b/, /\buntil\b/, /\belse\b/, /\belseif\b/
-    ];
-    
-    let blockStack: Array<{type: string, line: number}> = [];
-    let errors: string[] = [];
-    let totalBlocks = 0;
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      const lineNum = i + 1;
-      
-      // Ignorer les commentaires
-      if (line.startsWith('--')) continue;
-      
-      // Détecter les débuts de blocs
-      for (const starter of blockStarters) {
-        if (starter.test(line)) {
-          const type = starter.source.replace(/\\b/g, '').replace(/\\/g, '');
-          blockStack.push({type, line: lineNum});
-          totalBlocks++;
-          break;
-        }
-      }
-      
-      // Détecter les fins de blocs
-      if (/\bend\b/.test(line)) {
-        if (blockStack.length === 0) {
-          errors.push(`'end' orphelin ligne ${lineNum}`);
-        } else {
-          blockStack.pop();
-        }
-      }
-      
-      if (/\buntil\b/.test(line)) {
-        const lastBlock = blockStack[blockStack.length - 1];
-        if (!lastBlock || lastBlock.type !== 'repeat') {
-          errors.push(`'until' sans 'repeat' correspondant ligne ${lineNum}`);
-        } else {
-          blockStack.pop();
-        }
-      }
-    }
-    
-    // Vérifier les blocs non fermés
-    blockStack.forEach(block => {
-      errors.push(`Bloc '${block.type}' ligne ${block.line} non fermé`);
-    });
-    
-    return {
-      isBalanced: errors.length === 0,
-      errors,
-      totalBlocks,
-      unclosedBlocks: blockStack.length
-    };
-  }
-
-  private checkBracketsBalance(content: string) {
-    const brackets = {
-      '(': ')',
-      '[': ']',
-      '{': '}'
-    };
-    
-    let stack: string[] = [];
-    let errors: string[] = [];
-    let inString = false;
-    let stringChar = '';
-    
-    for (let i = 0; i < content.length; i++) {
-      const char = content[i];
-      const prevChar = i > 0 ? content[i - 1] : '';
-      
-      // Gérer les chaînes de caractères
-      if ((char === '"' || char === "'") && prevChar !== '\\') {
-        if (!inString) {
-          inString = true;
-          stringChar = char;
-        } else if (char === stringChar) {
-          inString = false;
-          stringChar = '';
-        }
-        continue;
-      }
-      
-      if (inString) continue;
-      
-      // Vérifier les crochets ouvrants
-      if (char in brackets) {
-        stack.push(char);
-      }
-      
-      // Vérifier les crochets fermants
-      if (Object.values(brackets).includes(char as any)) {
-        if (stack.length === 0) {
-          errors.push(`Crochet fermant '${char}' orphelin`);
-        } else {
-          const lastOpen = stack.pop()!;
-          if (brackets[lastOpen as keyof typeof brackets] !== char) {
-            errors.push(`Crochet fermant '${char}' ne correspond pas à '${lastOpen}'`);
-          }
-        }
-      }
-    }
-    
-    // Vérifier les crochets non fermés
-    if (stack.length > 0) {
-      errors.push(`Crochets non fermés: ${stack.join(', ')}`);
-    }
-    
-    return {
-      isBalanced: errors.length === 0,
-      errors
-    };
-  }
-
-  private detectDuplicateFunctions(lines: string[]): string[] {
-    const functions = new Map<string, number[]>();
-    const duplicates: string[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Détecter les déclarations de fonction
-      const functionMatch = line.match(/(?:local\s+)?function\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-      if (functionMatch) {
-        const funcName = functionMatch[1];
-        
-        if (!functions.has(funcName)) {
-          functions.set(funcName, []);
-        }
-        functions.get(funcName)!.push(i + 1);
-      }
-    }
-    
-    // Identifier les fonctions dupliquées
-    functions.forEach((lineNumbers, funcName) => {
-      if (lineNumbers.length > 1) {
-        duplicates.push(`${funcName} (lignes ${lineNumbers.join(', ')})`);
-      }
-    });
-    
-    return duplicates;
-  }
-
-  private checkIndentation(lines: string[]) {
-    const issues: string[] = [];
-    let expectedIndent = 0;
-    const INDENT_SIZE = 2; // Taille d'indentation standard
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
-      
-      // Ignorer les lignes vides et commentaires
-      if (trimmed === '' || trimmed.startsWith('--')) continue;
-      
-      const actualIndent = line.match(/^\s*/)?.[0].length || 0;
-      const lineNum = i + 1;
-      
-      // Ajuster l'indentation attendue selon les mots-clés
-      if (/\b(end|until|else|elseif)\b/.test(trimmed)) {
-        expectedIndent = Math.max(0, expectedIndent - INDENT_SIZE);
-      }
-      
-      // Vérifier l'indentation
-      if (actualIndent !== expectedIndent) {
-        issues.push(`Ligne ${lineNum}: attendu ${expectedIndent}, trouvé ${actualIndent}`);
-      }
-      
-      // Ajuster pour la ligne suivante
-      if (/\b(if|while|for|repeat|function|do|then|else|elseif)\b/.test(trimmed) && 
-          !/\bend\b/.test(trimmed)) {
-        expectedIndent += INDENT_SIZE;
-      }
-    }
-    
-    return {
-      isConsistent: issues.length === 0,
-      issues: issues.slice(0, 5) // Limiter à 5 problèmes pour éviter le spam
-    };
-  }
-
-  private detectUnusedVariables(lines: string[]): string[] {
-    const variables = new Map<string, {declared: number, used: boolean}>();
-    const unused: string[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Détecter les déclarations de variables locales
-      const varMatch = line.match(/local\s+([a-zA-Z_][a-zA-Z0-9_]*)/g);
-      if (varMatch) {
-        varMatch.forEach(match => {
-          const varName = match.replace('local ', '');
-          variables.set(varName, {declared: i + 1, used: false});
-        });
-      }
-      
-      // Vérifier l'utilisation des variables
-      variables.forEach((info, varName) => {
-        if (info.declared !== i + 1 && new RegExp(`\\b${varName}\\b`).test(line)) {
-          info.used = true;
-        }
-      });
-    }
-    
-    // Identifier les variables non utilisées
-    variables.forEach((info, varName) => {
-      if (!info.used) {
-        unused.push(`${varName} (ligne ${info.declared})`);
-      }
-    });
-    
-    return unused.slice(0, 3); // Limiter à 3 variables pour éviter le spam
-  }
-
-  // === Gestion des tokens et cache sémantique ===
-
-  private estimateTokens(text: string): number {
-    // Estimation approximative : 1 token ≈ 4 caractères pour du code
-    return Math.ceil(text.length / 4);
-  }
-
-  private updateTokenUsage(operationText: string) {
-    const operationTokens = this.estimateTokens(operationText);
-    this.tokenUsage.operationTokens = operationTokens;
-    this.tokenUsage.totalTokensUsed += operationTokens;
-    
-    // Estimer l'utilisation du contexte (somme de tous les fichiers en mémoire)
-    let contextSize = 0;
-    this.projectStructure.forEach((file) => {
-      if (file.content) {
-        contextSize += this.estimateTokens(file.content);
-      }
-    });
-    
-    this.tokenUsage.contextWindowUsed = contextSize;
-  }
-
-  private generateSemanticCache(filePath: string, content: string): SemanticCache {
-    const lines = content.split('\n');
-    const cache: SemanticCache = {
-      functions: new Map(),
-      variables: new Map(),
-      fileHash: this.hashString(content),
-      lastUpdate: Date.now()
-    };
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      const lineNum = i + 1;
-
-      // Détecter les fonctions
-      const functionMatch = line.match(/(?:local\s+)?function\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)/);
-      if (functionMatch) {
-        const [, name, params] = functionMatch;
-        cache.functions.set(name, {
-          name,
-          signature: `function ${name}(${params})`,
-          line: lineNum,
-          lastModified: Date.now()
-        });
+  private async patchScript(patch: PatchOperation) {
+    // Vérifier la conformité du workflow
+    const compliance = checkWorkflowCompliance(this.toolHistory, 'patch_script');
+    
+    try {
+      // Fraîcheur, hooks de validation, écriture, historique et review automatique
+      const result = await this.patchManager.applyPatch(patch);
+      if (!result.success || !result.patch) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.message,
+            },
+          ],
+        };
       }
 
-      // Détecter les variables
-      const varMatch = line.match(/local\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-      if (varMatch) {
-        const varName = varMatch[1];
-        cache.variables.set(varName, {
-          name: varName,
-          scope: 'local',
-          line: lineNum
+      // Chain-of-thought si activé
+      if (this.chainOfThoughtEnabled) {
+        const thought = this.generateThoughtProcess('patch_script', {
+          scriptPath: result.patch.scriptPath,
+          operation: result.patch.operation,
+          lineCount: (result.patch.lineEnd || result.patch.lineStart) - result.patch.lineStart + 1
         });
+        this.thoughtHistory.unshift(thought);
       }
-    }
-
-    return cache;
-  }
 
-  private hashString(str: string): string {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString(16);
-  }
-
-  private getOptimizedFileContent(filePath: string): string {
-    const cache = this.semanticCache.get(filePath);
-    const fileInfo = this.projectStructure.get(filePath);
-    
-    if (!fileInfo) {
-      this.tokenUsage.cacheMisses++;
-      return '';
-    }
-
-    const currentHash = this.hashString(fileInfo.content);
-    
-    // Si le cache est valide, retourner seulement les signatures
-    if (cache && cache.fileHash === currentHash) {
-      this.tokenUsage.cacheHits++;
+      let responseText = result.message;
       
-      let summary = `-- Résumé sémantique de ${filePath}\n`;
-      summary += `-- ${cache.functions.size} fonction(s), ${cache.variables.size} variable(s)\n\n`;
-      
-      // Inclure seulement les signatures de fonctions
-      cache.functions.forEach((func) => {
-        summary += `${func.signature} -- ligne ${func.line}\n`;
-      });
+      // Ajouter un rappel des règles si le workflow n'a pas été respecté
+      if (!compliance.compliant) {
+        responseText += `\n\n${compliance.message}`;
+        responseText += `\n💡 Utilisez \`syntax_helper action: 'show_rules'\` pour voir toutes les règles.`;
+      }
       
-      return summary;
-    } else {
-      // Cache manqué, régénérer et stocker
-      this.tokenUsage.cacheMisses++;
-      const newCache = this.generateSemanticCache(filePath, fileInfo.content);
-      this.semanticCache.set(filePath, newCache);
+      // Ajouter le rappel syntaxique pour les outils critiques
+      responseText += getSyntaxReminder('patch_script');
       
-      return fileInfo.content; // Premier passage, retourner le contenu complet
+      return {
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Impossible d'appliquer le patch: ${error}`);
     }
   }
 
-  private appendTokenUsageReport(): string {
-    const usagePercent = ((this.tokenUsage.contextWindowUsed / this.tokenUsage.contextWindowMax) * 100).toFixed(1);
-    const cacheEfficiency = this.tokenUsage.cacheHits + this.tokenUsage.cacheMisses > 0 
-      ? ((this.tokenUsage.cacheHits / (this.tokenUsage.cacheHits + this.tokenUsage.cacheMisses)) * 100).toFixed(1)
-      : '0.0';
+  private async patchScriptWithDiff(scriptPath: string, diff: string, description?: string, expectedVersion?: string) {
+    const compliance = checkWorkflowCompliance(this.toolHistory, 'patch_script');
+
+    try {
+      // Fraîcheur, hunks, hooks de validation, écriture et historique
+      const result = await this.patchManager.applyDiff(scriptPath, diff, description, expectedVersion);
+      let responseText = result.message;
+
+      if (result.success) {
+        if (!compliance.compliant) {
+          responseText += `\n\n${compliance.message}`;
+        }
+        responseText += getSyntaxReminder('patch_script');
+      }
 
-    return `\n\n---\n📊 **Utilisation des ressources**\n` +
-           `🔢 **Tokens:** ${this.tokenUsage.operationTokens} (opération) | ${this.tokenUsage.totalTokensUsed} (total)\n` +
-           `🪟 **Contexte:** ${this.tokenUsage.contextWindowUsed.toLocaleString()} / ${this.tokenUsage.contextWindowMax.toLocaleString()} (${usagePercent}%)\n` +
-           `💾 **Cache:** ${this.tokenUsage.cacheHits} hits | ${this.tokenUsage.cacheMisses} miss (${cacheEfficiency}% efficacité)`;
+      return {
+        content: [
+          {
+            type: "text",
+            text: responseText,
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Impossible d'appliquer le diff: ${error}`);
+    }
   }
 
   private listTemplates(category?: string) {
-    const templates = category ? getTemplatesByCategory(category) : luauTemplates;
+    const templates = this.templateLibrary.list(category);
     
     let responseText = `## 📚 **Templates Luau/Roblox disponibles**\n\n`;
     
@@ -1918,7 +2431,7 @@ class RojoMCPServer {
       }
       acc[template.category].push(template);
       return acc;
-    }, {} as Record<string, typeof templates>);
+    }, {} as Record<string, TemplateDefinition[]>);
     
     // Afficher par catégorie
     const categoryEmojis = {
@@ -1931,57 +2444,68 @@ class RojoMCPServer {
     };
     
     for (const [cat, temps] of Object.entries(grouped)) {
-      responseText += `### ${categoryEmojis[cat as keyof typeof categoryEmojis]} **${cat.toUpperCase()}**\n\n`;
+      responseText += `### ${categoryEmojis[cat as keyof typeof categoryEmojis] ?? '📁'} **${cat.toUpperCase()}**\n\n`;
       
       temps.forEach(template => {
-        responseText += `**\`${template.name}\`** - ${template.description}\n`;
-        if (template.variables && template.variables.length > 0) {
-          responseText += `   Variables: \`${template.variables.join('`, `')}\`\n`;
+        responseText += `**\`${template.name}\`** - ${template.description || 'Sans description'}\n`;
+        if (template.source === 'project') {
+          responseText += `   Projet: \`${template.file}\`${template.overridesBuiltin ? ' (remplace le template intégré)' : ''}\n`;
+        }
+        if (template.variables.length > 0) {
+          const variables = template.variables.map(variable => {
+            let text = `\`${variable.name}\`: ${variable.type === 'enum' ? variable.values!.join(' | ') : variable.type}`;
+            if (variable.default !== undefined) text += ` = ${typeof variable.default === 'object' ? JSON.stringify(variable.default) : variable.default}`;
+            else if (!variable.required) text += ' (optionnelle)';
+            return text;
+          });
+          responseText += `   Variables: ${variables.join(', ')}\n`;
         }
         responseText += '\n';
       });
     }
     
-    responseText += `\n💡 **Usage:** \`use_template\` avec le nom du template et les variables nécessaires.`;
+    const loadErrors = this.templateLibrary.getLoadErrors();
+    if (loadErrors.length > 0) {
+      responseText += `### ⚠️ **Templates du projet ignorés**\n\n`;
+      loadErrors.forEach(error => {
+        responseText += `- \`${error.file}\`: ${error.message}\n`;
+      });
+      responseText += '\n';
+    }
     
-    this.updateTokenUsage(responseText);
+    responseText += `\n💡 **Usage:** \`use_template\` avec le nom du template et les variables nécessaires.`;
+    responseText += `\n📁 Templates du projet: \`${MCP_DIRECTORY}/${TEMPLATES_DIRECTORY}/*.luau\` (front-matter YAML pour les variables)`;
     
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
   }
 
-  private async useTemplate(templateName: string, variables: Record<string, string>, targetPath?: string) {
-    const template = getTemplate(templateName);
-    
-    if (!template) {
-      throw new Error(`Template '${templateName}' non trouvé. Utilisez 'list_templates' pour voir les templates disponibles.`);
-    }
-    
-    // Vérifier que toutes les variables requises sont fournies
-    if (template.variables) {
-      const missingVars = template.variables.filter(v => !variables[v]);
-      if (missingVars.length > 0) {
-        throw new Error(`Variables manquantes: ${missingVars.join(', ')}`);
-      }
-    }
-    
-    // Appliquer le template
-    const code = applyTemplate(template, variables);
+  private async useTemplate(templateName: string, variables: Record<string, unknown>, targetPath?: string) {
+    // Valide les variables (types, valeurs par défaut) avant de générer le code
+    const { template, code, syntaxErrors } = this.templateLibrary.render(templateName, variables ?? {});
     
     let responseText = `## ✨ **Template appliqué: ${template.name}**\n\n`;
     responseText += `**Description:** ${template.description}\n`;
-    responseText += `**Catégorie:** ${template.category}\n\n`;
-    
-    // Si un chemin cible est fourni, créer le fichier
-    if (targetPath) {
+    responseText += `**Catégorie:** ${template.category}\n`;
+    if (template.source === 'project') {
+      responseText += `**Source:** \`${template.file}\`\n`;
+    }
+    responseText += '\n';
+    
+    // Le code généré doit être syntaxiquement valide avant toute création de fichier
+    if (syntaxErrors.length > 0) {
+      responseText += `❌ **Code généré invalide${targetPath ? ' - fichier non créé' : ''}**\n`;
+      syntaxErrors.forEach(err => responseText += `- ${err}\n`);
+      responseText += `\n💡 Vérifiez les variables fournies et les blocs du template.\n\n`;
+    } else if (targetPath) {
       try {
-        await this.createScript(targetPath, 'module', code);
+        await this.createScript(targetPath, template.scriptType ?? 'module', code);
         responseText += `✅ **Fichier créé:** \`${targetPath}\`\n\n`;
       } catch (error) {
         responseText += `⚠️ **Erreur lors de la création du fichier:** ${error}\n\n`;
@@ -1991,208 +2515,351 @@ class RojoMCPServer {
     // Afficher le code généré
     responseText += `### Code généré:\n\`\`\`luau\n${code}\n\`\`\``;
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
   }
 
-  // === SYSTÈME DE ROLLBACK OPTIMISÉ ===
-  
-  private saveRollbackEntry(scriptPath: string, oldContent: string, newContent: string) {
-    // Créer un patch compact au lieu de stocker tout le contenu
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-    
-    const patch: RollbackEntry['patch'] = {
-      additions: [],
-      deletions: [],
-      modifications: []
-    };
-    
-    // Calculer le diff ligne par ligne
-    const maxLines = Math.max(oldLines.length, newLines.length);
-    
-    for (let i = 0; i < maxLines; i++) {
-      const oldLine = i < oldLines.length ? oldLines[i] : undefined;
-      const newLine = i < newLines.length ? newLines[i] : undefined;
-      
-      if (oldLine === undefined && newLine !== undefined) {
-        patch.additions.push(`${i}:${newLine}`);
-      } else if (oldLine !== undefined && newLine === undefined) {
-        patch.deletions.push(`${i}:${oldLine}`);
-      } else if (oldLine !== newLine && oldLine !== undefined && newLine !== undefined) {
-        patch.modifications.push({ from: `${i}:${oldLine}`, to: `${i}:${newLine}` });
-      }
-    }
-    
-    // Créer l'entrée de rollback
-    const entry: RollbackEntry = {
-      timestamp: Date.now(),
-      fileHash: this.hashString(oldContent),
-      patch,
-      tokenCost: this.estimateTokens(JSON.stringify(patch)) // Coût en tokens du patch
+  private listScaffoldGenerators() {
+    let responseText = `## 🏗️ **Générateurs disponibles**\n\n`;
+
+    scaffoldGenerators.forEach(generator => {
+      responseText += `**\`${generator.name}\`** - ${generator.description}\n`;
+      const variables = generator.variables.map(variable =>
+        `\`${variable.name}\`: ${variable.type}${variable.default !== undefined ? ` = ${variable.default}` : ''}`
+      );
+      responseText += `   Variables: ${variables.join(', ')}\n`;
+      responseText += `   Fichiers: ${generator.files.map(file => `${file.location}/${file.path}`).join(', ')}\n\n`;
+    });
+
+    responseText += `💡 **Usage:** \`scaffold\` avec \`generator\` et \`variables\`. \`dryRun: true\` pour prévisualiser.`;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
     };
-    
-    // Ajouter à l'historique
-    if (!this.rollbackHistory.has(scriptPath)) {
-      this.rollbackHistory.set(scriptPath, []);
-    }
-    
-    const history = this.rollbackHistory.get(scriptPath)!;
-    history.unshift(entry); // Ajouter au début
-    
-    // Limiter la taille de l'historique
-    if (history.length > this.MAX_ROLLBACK_ENTRIES) {
-      history.pop(); // Retirer le plus ancien
-    }
-    
-    console.error(`💾 Rollback sauvegardé pour ${scriptPath} (${entry.tokenCost} tokens)`);
   }
-  
-  private async rollbackScript(scriptPath: string, steps: number = 1) {
-    const history = this.rollbackHistory.get(scriptPath);
-    
-    if (!history || history.length === 0) {
-      throw new Error(`Aucun historique de rollback pour ${scriptPath}`);
+
+  private async scaffold(
+    generatorName: string | undefined,
+    variables: Record<string, unknown>,
+    roots: Partial<Record<ScaffoldLocation, string>> = {},
+    dryRun: boolean = false
+  ) {
+    if (!generatorName) {
+      return this.listScaffoldGenerators();
     }
-    
-    if (steps > history.length) {
-      throw new Error(`Seulement ${history.length} version(s) disponible(s) pour rollback`);
+
+    const generator = getScaffoldGenerator(generatorName);
+    if (!generator) {
+      throw new Error(`Générateur '${generatorName}' non trouvé. Appelez 'scaffold' sans generator pour voir la liste.`);
     }
-    
-    // Récupérer le contenu actuel
-    const fileInfo = this.projectStructure.get(scriptPath);
-    if (!fileInfo) {
-      throw new Error(`Le fichier ${scriptPath} n'existe pas`);
+
+    const tree = this.fileManager.getProjectTree();
+    if (!tree) {
+      throw new Error(`scaffold requiert un projet Rojo chargé (${this.projectFile} introuvable)`);
     }
-    
-    let currentContent = fileInfo.content;
-    let appliedSteps = 0;
-    
-    // Appliquer les patches en ordre inverse
-    for (let i = 0; i < steps && i < history.length; i++) {
-      const entry = history[i];
-      
-      // Appliquer le patch inverse
-      const lines = currentContent.split('\n');
-      
-      // Annuler les additions (supprimer)
-      entry.patch.additions.forEach(add => {
-        const [lineNum] = add.split(':');
-        lines.splice(parseInt(lineNum), 1);
-      });
-      
-      // Annuler les suppressions (ajouter)
-      entry.patch.deletions.forEach(del => {
-        const [lineNum, content] = del.split(':');
-        lines.splice(parseInt(lineNum), 0, content);
+
+    const plan = planScaffold(generator, variables, tree, roots ?? {});
+
+    // Tout le code généré passe par le syntax enforcer avant écriture
+    const syntaxErrors = validateScaffold(plan);
+    if (syntaxErrors.size > 0) {
+      let errorMsg = `❌ **Validation échouée - Scaffold bloqué**\n\nAucun fichier n'a été créé.\n\n`;
+      for (const [filePath, errors] of syntaxErrors) {
+        errorMsg += `**\`${filePath}\`**\n`;
+        errors.forEach(err => errorMsg += `- ${err}\n`);
+        errorMsg += `\n`;
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: errorMsg,
+          },
+        ],
+      };
+    }
+
+    const result = await this.changesetManager.apply(
+      plan.files.map(file => ({ type: "create" as const, scriptPath: file.filePath, content: file.content })),
+      `scaffold ${generator.name} (${Object.entries(plan.variables).map(([key, value]) => `${key}=${value}`).join(", ")})`,
+      dryRun
+    );
+
+    const rejected = result.reports.filter(report => !report.approved);
+    if (rejected.length > 0) {
+      let errorMsg = `❌ **Validation échouée - Scaffold bloqué**\n\nAucun fichier n'a été créé.\n\n`;
+      rejected.forEach(report => {
+        errorMsg += `**\`${report.operation.scriptPath}\`**\n`;
+        report.errors.forEach(err => errorMsg += `- 🚨 ${err}\n`);
+        report.suggestions.forEach(sug => errorMsg += `- 💡 ${sug}\n`);
+        errorMsg += `\n`;
       });
-      
-      // Annuler les modifications (restaurer l'ancien)
-      entry.patch.modifications.forEach(mod => {
-        const [lineNum] = mod.from.split(':');
-        const [, oldContent] = mod.from.split(':');
-        lines[parseInt(lineNum)] = oldContent;
+      return {
+        content: [
+          {
+            type: "text",
+            text: errorMsg,
+          },
+        ],
+      };
+    }
+
+    let responseText = result.applied
+      ? `✅ **Scaffold \`${generator.name}\` créé**\n\n**Changeset:** \`${result.changeset!.id}\`\n\n`
+      : `🔍 **Scaffold \`${generator.name}\` (dry run, rien n'a été écrit)**\n\n`;
+
+    responseText += `**Instances:**\n`;
+    plan.files.forEach(file => {
+      responseText += `- \`${["game", ...file.instancePath].join(".")}\` ← \`${file.filePath}\`\n`;
+    });
+
+    const warnings = result.reports.flatMap(report => report.warnings.map(warn => `\`${report.operation.scriptPath}\`: ${warn}`));
+    if (warnings.length > 0) {
+      responseText += `\n**⚠️ Avertissements détectés:**\n`;
+      warnings.forEach(warn => responseText += `- ${warn}\n`);
+    }
+
+    if (result.applied) {
+      await this.syncChangedFiles(result.changes.map(change => change.filePath));
+
+      // Les require câblés doivent résoudre vers les modules créés
+      const reloadedTree = this.fileManager.getProjectTree();
+      if (reloadedTree) {
+        const resolver = new RequireResolver(reloadedTree);
+        const unresolved = plan.files.flatMap(file =>
+          resolver.resolveRequires(file.filePath, file.content)
+            .filter(reference => reference.status !== "resolved")
+            .map(reference => `\`${file.filePath}\` ligne ${reference.line}: ${reference.expression} (${reference.status})`)
+        );
+        if (unresolved.length > 0) {
+          responseText += `\n**⚠️ require non résolus:**\n`;
+          unresolved.forEach(entry => responseText += `- ${entry}\n`);
+        }
+      }
+
+      responseText += `\n💡 \`rollback_script\` avec \`changesetId: "${result.changeset!.id}"\` supprime tous les fichiers générés.`;
+    } else {
+      plan.files.forEach(file => {
+        responseText += `\n### ${file.filePath}\n\`\`\`luau\n${file.content}\`\`\`\n`;
       });
-      
-      currentContent = lines.join('\n');
-      appliedSteps++;
     }
-    
-    // Écrire le fichier restauré
-    const fullPath = path.join(this.projectRoot, scriptPath);
-    await fs.writeFile(fullPath, currentContent);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  // === SYSTÈME DE ROLLBACK PERSISTANT ===
+  
+  private async rollbackScript(scriptPath: string, target: VersionTarget) {
+    if (!scriptPath) {
+      throw new Error("scriptPath ou changesetId est requis");
+    }
+    const result = await this.rollbackManager.rollback(scriptPath, target);
     await this.updateFile(scriptPath);
+    this.versionTracker.record(scriptPath, result.content);
     
-    // Retirer les entrées utilisées de l'historique
-    history.splice(0, appliedSteps);
+    const history = await this.rollbackManager.getFileHistory(scriptPath);
     
     const responseText = `⏪ **Rollback effectué avec succès**\n\n` +
                         `**Fichier:** \`${scriptPath}\`\n` +
-                        `**Versions annulées:** ${appliedSteps}\n` +
-                        `**Historique restant:** ${history.length} version(s)\n` +
-                        `**Tokens économisés:** ~${appliedSteps * 500} tokens vs stockage complet`;
-    
-    this.updateTokenUsage(responseText);
+                        `**Version restaurée:** v${result.version.id} (${new Date(result.version.timestamp).toLocaleString()})\n` +
+                        (result.version.description ? `**Description:** ${result.version.description}\n` : '') +
+                        `**Lignes:** ${result.content.split('\n').length}\n` +
+                        `**Historique:** ${history.length} version(s) — la restauration est elle-même annulable`;
     
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
   }
   
-  private getRollbackHistory(scriptPath?: string) {
+  private async rollbackChangeset(changesetId: string) {
+    const changeset = await this.rollbackManager.rollbackChangeset(changesetId);
+    await this.syncChangedFiles(changeset.entries.map(entry => entry.file));
+
+    let responseText = `⏪ **Changeset annulé avec succès**\n\n`;
+    responseText += `**Changeset annulé:** \`${changesetId}\`\n`;
+    responseText += `**Fichiers restaurés:**\n`;
+    changeset.entries.forEach(entry => {
+      const status = entry.after === null ? "🗑️ supprimé" : entry.before === null ? "➕ recréé" : `📝 v${entry.after}`;
+      responseText += `- \`${entry.file}\` ${status}\n`;
+    });
+    responseText += `\n💡 L'annulation est elle-même le changeset \`${changeset.id}\`, annulable de la même façon.`;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private async getRollbackHistory(scriptPath?: string, versionId?: number) {
     let responseText = `## 🔄 **Historique de rollback**\n\n`;
     
-    if (scriptPath) {
+    if (versionId !== undefined) {
+      if (!scriptPath) {
+        throw new Error("scriptPath est requis pour afficher une version");
+      }
+      const content = await this.rollbackManager.getVersionContent(scriptPath, versionId);
+      responseText += `**Fichier:** \`${scriptPath}\` — version v${versionId}\n\n`;
+      responseText += "```luau\n" + content + "\n```";
+    } else if (scriptPath) {
       // Historique pour un fichier spécifique
-      const history = this.rollbackHistory.get(scriptPath);
+      const history = await this.rollbackManager.getFileHistory(scriptPath);
       
-      if (!history || history.length === 0) {
+      if (history.length === 0) {
         responseText += `Aucun historique pour \`${scriptPath}\``;
       } else {
         responseText += `**Fichier:** \`${scriptPath}\`\n`;
         responseText += `**Versions disponibles:** ${history.length}\n\n`;
         
-        history.forEach((entry, index) => {
-          const date = new Date(entry.timestamp).toLocaleString();
-          const changes = entry.patch.additions.length + entry.patch.deletions.length + entry.patch.modifications.length;
+        history.forEach((version, index) => {
+          const date = new Date(version.timestamp).toLocaleString();
+          const storage = version.content !== undefined ? "📦 complète" : "🧩 diff";
           
-          responseText += `**${index + 1}.** ${date}\n`;
-          responseText += `   📊 ${changes} changements | 💾 ${entry.tokenCost} tokens\n`;
-          responseText += `   ➕ ${entry.patch.additions.length} ajouts | ➖ ${entry.patch.deletions.length} suppressions | ✏️ ${entry.patch.modifications.length} modifications\n\n`;
+          responseText += `**v${version.id}** ${date}${index === 0 ? " (actuelle)" : ""}\n`;
+          if (version.description) {
+            responseText += `   📝 ${version.description}\n`;
+          }
+          responseText += `   ➕ ${version.added} | ➖ ${version.removed} | ${version.lines} lignes | ${storage}\n\n`;
         });
+        
+        responseText += `💡 \`rollback_script\` accepte \`versionId\`, \`timestamp\` ou \`steps\`.`;
       }
     } else {
       // Historique global
+      const histories = await this.rollbackManager.getHistory();
       let totalEntries = 0;
-      let totalTokens = 0;
       
-      this.rollbackHistory.forEach((history, file) => {
-        if (history.length > 0) {
-          totalEntries += history.length;
-          history.forEach(entry => totalTokens += entry.tokenCost);
-          
-          responseText += `**\`${file}\`** - ${history.length} version(s)\n`;
-        }
+      histories.forEach((history, file) => {
+        totalEntries += history.length;
+        const latest = history[0];
+        responseText += `**\`${file}\`** - ${history.length} version(s), dernière: ${new Date(latest.timestamp).toLocaleString()}\n`;
       });
       
       if (totalEntries === 0) {
         responseText += `Aucun historique de rollback disponible.`;
       } else {
-        responseText += `\n**Total:** ${totalEntries} versions | ${totalTokens} tokens stockés`;
-        responseText += `\n**Économie vs stockage complet:** ~${totalEntries * 2000 - totalTokens} tokens`;
+        responseText += `\n**Total:** ${totalEntries} versions stockées dans \`${MCP_DIRECTORY}/history\``;
+      }
+
+      const changesets = await this.rollbackManager.getChangesets();
+      if (changesets.length > 0) {
+        responseText += `\n\n### 📦 Changesets\n\n`;
+        changesets.forEach(changeset => {
+          responseText += `**\`${changeset.id}\`** ${new Date(changeset.timestamp).toLocaleString()} - ${changeset.entries.length} fichier(s)\n`;
+          if (changeset.description) {
+            responseText += `   📝 ${changeset.description}\n`;
+          }
+        });
+        responseText += `\n💡 \`rollback_script\` avec \`changesetId\` annule un changeset entier.`;
       }
     }
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
   }
   
+  /**
+   * Dossier de documentation hors ligne: --docs <dossier>, puis MCP_ROBLOX_DOCS, puis .mcp-roblox/docs
+   */
+  private getDocsDirectory(): string {
+    const option = this.getStartupOption("--docs", "MCP_ROBLOX_DOCS");
+    return option
+      ? path.resolve(this.projectRoot, option)
+      : path.join(getMcpDirectory(this.projectRoot), DOCS_DIRECTORY);
+  }
+
+  private async getDocsIndex(): Promise<DocsIndex | null> {
+    if (this.docsIndex) return this.docsIndex;
+
+    const docsDirectory = this.getDocsDirectory();
+    if (!await fs.pathExists(docsDirectory)) return null;
+
+    this.docsIndex = await buildDocsIndex(docsDirectory);
+    console.error(`✅ Documentation indexée: ${this.docsIndex.fileCount} pages, ${this.docsIndex.sectionCount} sections`);
+    return this.docsIndex;
+  }
+
+  private async indexRobloxDocs(docsPath?: string) {
+    const docsDirectory = docsPath ? path.resolve(this.projectRoot, docsPath) : this.getDocsDirectory();
+    if (!await fs.pathExists(docsDirectory)) {
+      throw new Error(`Dossier de documentation non trouvé: ${docsPath ?? docsDirectory}`);
+    }
+
+    this.docsIndex = await buildDocsIndex(docsDirectory);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Documentation indexée: ${this.docsIndex.fileCount} pages, ${this.docsIndex.sectionCount} sections\n\n` +
+                `**Dossier:** \`${docsDirectory}\`\n` +
+                `💡 \`search_roblox_docs query: "RemoteEvent" category: "guide"\``,
+        },
+      ],
+    };
+  }
+
   private async searchRobloxDocs(query: string, category: string = "all") {
     let responseText = `## 🔎 **Recherche Documentation Roblox**\n\n`;
     responseText += `**Recherche:** "${query}"${category !== "all" ? ` (${category})` : ""}\n\n`;
     
     try {
+      const docsIndex = await this.getDocsIndex();
+
+      if (docsIndex) {
+        const results = docsIndex.search(query, { category: category as DocCategory | "all", limit: 5 });
+        responseText += `### 📖 **Documentation hors ligne** (${docsIndex.fileCount} pages indexées)\n\n`;
+
+        if (results.length === 0) {
+          responseText += `❌ Aucune section ne correspond à "${query}"${category !== "all" ? ` dans la catégorie ${category}` : ""}\n\n`;
+        }
+
+        results.forEach((result, index) => {
+          const { section } = result;
+          responseText += `**${index + 1}. ${[section.title, ...section.headings].join(' › ')}** (${section.category}, \`${section.file}\`)\n`;
+          if (result.snippet) {
+            responseText += `> ${result.snippet}\n`;
+          }
+          if (section.codeExamples.length > 0) {
+            const lines = section.codeExamples[0].split('\n');
+            responseText += `\`\`\`luau\n${lines.slice(0, MAX_DOC_EXAMPLE_LINES).join('\n')}${lines.length > MAX_DOC_EXAMPLE_LINES ? '\n-- ...' : ''}\n\`\`\`\n`;
+          }
+          responseText += `\n`;
+        });
+      }
+
       // URLs de recherche Roblox
       const searchUrls = {
         api: `https://create.roblox.com/docs/reference/engine/search?query=${encodeURIComponent(query)}`,
@@ -2203,19 +2870,22 @@ class RojoMCPServer {
       
       const searchUrl = searchUrls[category as keyof typeof searchUrls] || searchUrls.all;
       
-      // Simuler une recherche structurée (dans la vraie implémentation, on pourrait utiliser WebFetch)
-      responseText += `### 📖 **Résultats suggérés:**\n\n`;
-      
-      // Recherche dans notre cache local d'abord
+      // Recherche dans le cache local de l'API
       const localResults = searchAPIs(query);
       
       if (localResults.length > 0) {
-        responseText += `**Depuis le cache local (${localResults.length} résultats):**\n\n`;
+        responseText += `### 📚 **API (${localResults.length} résultats):**\n\n`;
         localResults.slice(0, 5).forEach(result => {
-          if (result.method) {
+          if (result.isEnum) {
+            responseText += `- **Enum.${result.service}${result.enumItem ? `.${result.enumItem}` : ''}** - Enum\n`;
+          } else if (result.method) {
             responseText += `- **${result.service}.${result.method}** - Méthode\n`;
           } else if (result.property) {
             responseText += `- **${result.service}.${result.property}** - Propriété\n`;
+          } else if (result.event) {
+            responseText += `- **${result.service}.${result.event}** - Événement\n`;
+          } else {
+            responseText += `- **${result.service}** - Classe\n`;
           }
         });
         responseText += `\n`;
@@ -2232,30 +2902,33 @@ class RojoMCPServer {
         responseText += `\n`;
       }
       
-      // Liens directs vers la documentation
-      responseText += `### 🔗 **Liens utiles:**\n\n`;
-      responseText += `- [Documentation officielle](https://create.roblox.com/docs)\n`;
-      responseText += `- [API Reference](https://create.roblox.com/docs/reference/engine)\n`;
-      responseText += `- [Tutorials](https://create.roblox.com/docs/tutorials)\n`;
-      responseText += `- [Recherche directe: ${query}](${searchUrl})\n\n`;
+      // Sans documentation locale: liens vers la documentation en ligne
+      if (!docsIndex) {
+        // Liens directs vers la documentation
+        responseText += `### 🔗 **Liens utiles:**\n\n`;
+        responseText += `- [Documentation officielle](https://create.roblox.com/docs)\n`;
+        responseText += `- [API Reference](https://create.roblox.com/docs/reference/engine)\n`;
+        responseText += `- [Tutorials](https://create.roblox.com/docs/tutorials)\n`;
+        responseText += `- [Recherche directe: ${query}](${searchUrl})\n\n`;
+      
+        // Conseil d'utilisation
+        responseText += `💡 **Astuce:** Pour une recherche plus précise, utilisez:\n`;
+        responseText += `- \`roblox_api search: "${query}"\` pour chercher dans le cache local\n`;
+        responseText += `- \`WebSearch query: "Roblox ${query} documentation"\` pour une recherche web complète\n`;
       
-      // Conseil d'utilisation
-      responseText += `💡 **Astuce:** Pour une recherche plus précise, utilisez:\n`;
-      responseText += `- \`roblox_api search: "${query}"\` pour chercher dans le cache local\n`;
-      responseText += `- \`WebSearch query: "Roblox ${query} documentation"\` pour une recherche web complète\n`;
+        responseText += `\n📥 Hors ligne: placez un export Markdown/YAML de la documentation dans \`${MCP_DIRECTORY}/${DOCS_DIRECTORY}\` ou utilisez \`index_roblox_docs\`\n`;
+      }
       
     } catch (error) {
       responseText += `❌ Erreur lors de la recherche: ${error}\n`;
       responseText += `\nUtilisez \`WebSearch\` directement pour rechercher sur le web.`;
     }
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
@@ -2299,65 +2972,164 @@ class RojoMCPServer {
     return suggestions.slice(0, 5); // Limiter à 5 suggestions
   }
 
-  private getRobloxAPI(service?: string, search?: string) {
+  /**
+   * Marqueurs d'un membre: dépréciation, yield, réplication, sécurité et classe d'origine
+   */
+  private formatAPIMemberFlags(entry: { deprecated?: boolean; yields?: boolean; notReplicated?: boolean; security?: string; inheritedFrom?: string; readonly?: boolean }): string {
+    const flags: string[] = [];
+    if (entry.deprecated) flags.push('⚠️ DÉPRÉCIÉ');
+    if (entry.yields) flags.push('⏳ Yields');
+    if (entry.readonly) flags.push('readonly');
+    if (entry.notReplicated) flags.push('NotReplicated');
+    if (entry.security) flags.push(`🔒 ${entry.security}`);
+    if (entry.inheritedFrom) flags.push(`hérité de ${entry.inheritedFrom}`);
+    return flags.length > 0 ? ` (${flags.join(', ')})` : '';
+  }
+
+  private formatAPISearchResult(result: APISearchResult): string {
+    if (result.isEnum) {
+      return result.enumItem
+        ? `📍 **Enum.${result.service}.${result.enumItem}** - Item d'enum\n\n`
+        : `📍 **Enum.${result.service}** - Enum\n\n`;
+    }
+
+    const api = getServiceAPI(result.service);
+    let text = '';
+
+    if (result.method) {
+      const method = api?.methods.find(m => m.name === result.method) ?? api?.callbacks?.find(c => c.name === result.method);
+      text += `📍 **${result.service}.${result.method}**${method ? this.formatAPIMemberFlags(method) : ''}\n`;
+      if (method) {
+        text += `   \`${method.signature}\`\n`;
+        if (method.description) text += `   ${method.description}\n`;
+        if ('example' in method && method.example) {
+          text += `   \`\`\`luau\n   ${method.example}\n   \`\`\`\n`;
+        }
+      }
+    } else if (result.property) {
+      const prop = api?.properties?.find(p => p.name === result.property);
+      text += `📍 **${result.service}.${result.property}**${prop ? this.formatAPIMemberFlags(prop) : ''}\n`;
+      if (prop) {
+        text += `   Type: \`${prop.type}\`\n`;
+        if (prop.description) text += `   ${prop.description}\n`;
+      }
+    } else if (result.event) {
+      const event = api?.events?.find(e => e.name === result.event);
+      text += `📍 **${result.service}.${result.event}** - Événement${event ? this.formatAPIMemberFlags(event) : ''}\n`;
+      if (event) text += `   \`${event.signature}\`\n`;
+    } else {
+      text += `📍 **${result.service}** - Classe${api?.superclass ? ` (hérite de ${api.superclass})` : ''}\n`;
+    }
+
+    return text + '\n';
+  }
+
+  private async importApiDump(dumpPath: string) {
+    const sourcePath = path.resolve(this.projectRoot, dumpPath);
+    if (!await fs.pathExists(sourcePath)) {
+      throw new Error(`Fichier non trouvé: ${dumpPath}`);
+    }
+
+    // Valider avant de remplacer la copie existante
+    const apiDump = await loadApiDump(sourcePath);
+    const targetPath = path.join(getMcpDirectory(this.projectRoot), API_DUMP_FILE);
+    if (path.resolve(targetPath) !== sourcePath) {
+      await fs.copy(sourcePath, targetPath);
+    }
+    setApiDumpIndex(apiDump);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ API dump importé: ${apiDump.classCount} classes (${apiDump.getServices().length} services), ${apiDump.enumCount} enums\n\n` +
+                `Copie enregistrée dans \`${MCP_DIRECTORY}/${API_DUMP_FILE}\`, rechargée au prochain démarrage.\n` +
+                `💡 \`roblox_api service: "Part" member: "Anchored"\` ou \`roblox_api search: "Raycast"\``,
+        },
+      ],
+    };
+  }
+
+  private getRobloxAPI(service?: string, search?: string, member?: string, inherited: boolean = false) {
     let responseText = `## 📚 **Documentation API Roblox**\n\n`;
+    const apiDump = getApiDumpIndex();
     
     if (search) {
       // Mode recherche
       const results = searchAPIs(search);
       
       if (results.length === 0) {
-        responseText += `❌ Aucun résultat pour "${search}"`;
-      } else {
-        responseText += `**Résultats pour "${search}":** ${results.length} trouvé(s)\n\n`;
-        
-        results.forEach(result => {
-          if (result.method) {
-            responseText += `📍 **${result.service}.${result.method}**\n`;
-            const api = getServiceAPI(result.service);
-            const method = api?.methods.find(m => m.name === result.method);
-            if (method) {
-              responseText += `   \`${method.signature}\`\n`;
-              responseText += `   ${method.description}\n`;
-              if (method.example) {
-                responseText += `   \`\`\`luau\n   ${method.example}\n   \`\`\`\n`;
-              }
-              if (method.deprecated) {
-                responseText += `   ⚠️ **DÉPRÉCIÉ**\n`;
-              }
-            }
-          } else if (result.property) {
-            responseText += `📍 **${result.service}.${result.property}**\n`;
-            const api = getServiceAPI(result.service);
-            const prop = api?.properties?.find(p => p.name === result.property);
-            if (prop) {
-              responseText += `   Type: \`${prop.type}\`${prop.readonly ? ' (readonly)' : ''}\n`;
-              responseText += `   ${prop.description}\n`;
-            }
-          }
-          responseText += '\n';
+        responseText += `❌ Aucun résultat pour "${search}"`;
+      } else {
+        responseText += `**Résultats pour "${search}":** ${results.length} trouvé(s)\n\n`;
+        results.forEach(result => {
+          responseText += this.formatAPISearchResult(result);
         });
       }
+    } else if (service && member) {
+      // Un membre précis, recherché aussi dans les classes ancêtres
+      const api = getServiceAPI(service, true);
+      const lowerMember = member.toLowerCase();
+      const method = api?.methods.find(m => m.name.toLowerCase() === lowerMember) ?? api?.callbacks?.find(c => c.name.toLowerCase() === lowerMember);
+      const prop = api?.properties?.find(p => p.name.toLowerCase() === lowerMember);
+      const event = api?.events?.find(e => e.name.toLowerCase() === lowerMember);
+
+      const inheritedFrom = (method ?? prop ?? event)?.inheritedFrom;
+      if (inheritedFrom) {
+        responseText += `**${api!.service}** hérite de ce membre de **${inheritedFrom}**\n\n`;
+      }
+
+      if (method) {
+        responseText += this.formatAPISearchResult({ service: method.inheritedFrom ?? api!.service, method: method.name });
+      } else if (prop) {
+        responseText += this.formatAPISearchResult({ service: prop.inheritedFrom ?? api!.service, property: prop.name });
+      } else if (event) {
+        responseText += this.formatAPISearchResult({ service: event.inheritedFrom ?? api!.service, event: event.name });
+      } else {
+        responseText += `❌ Membre "${member}" non trouvé dans ${api ? api.service : `"${service}"`}`;
+        if (api?.inheritance && api.inheritance.length > 1) {
+          responseText += ` ni dans ses ancêtres (${api.inheritance.slice(1).join(' → ')})`;
+        }
+        responseText += '\n';
+      }
     } else if (service) {
-      // Afficher un service spécifique
-      const api = getServiceAPI(service);
-      
-      if (!api) {
-        responseText += `❌ Service "${service}" non trouvé\n\n`;
-        responseText += `**Services disponibles:**\n`;
-        robloxAPIs.forEach(api => {
-          responseText += `- ${api.service}\n`;
+      // Afficher une classe ou un enum
+      const api = getServiceAPI(service, inherited);
+      const apiEnum = apiDump?.getEnum(service);
+      
+      if (!api && apiEnum) {
+        responseText += `### 🔢 **Enum.${apiEnum.name}**${apiEnum.deprecated ? ' ⚠️ DÉPRÉCIÉ' : ''}\n\n`;
+        apiEnum.items.forEach(item => {
+          responseText += `- \`Enum.${apiEnum.name}.${item.name}\` = ${item.value}${item.deprecated ? ' ⚠️ DÉPRÉCIÉ' : ''}\n`;
         });
+      } else if (!api) {
+        responseText += `❌ Classe ou service "${service}" non trouvé\n\n`;
+        if (apiDump) {
+          responseText += `💡 Utilisez \`roblox_api search: "${service}"\` pour chercher dans les ${apiDump.classCount} classes de l'API dump`;
+        } else {
+          responseText += `**Services disponibles:**\n`;
+          robloxAPIs.forEach(api => {
+            responseText += `- ${api.service}\n`;
+          });
+        }
       } else {
-        responseText += `### 🎮 **${api.service}**\n\n`;
+        const deprecated = api.tags?.includes('Deprecated');
+        responseText += `### 🎮 **${api.service}**${deprecated ? ' ⚠️ DÉPRÉCIÉ' : ''}\n\n`;
+        if (api.inheritance && api.inheritance.length > 1) {
+          responseText += `**Héritage:** ${api.inheritance.join(' → ')}\n`;
+        }
+        if (api.tags && api.tags.length > 0) {
+          responseText += `**Tags:** ${api.tags.join(', ')}\n`;
+        }
+        responseText += '\n';
         
         // Méthodes
         if (api.methods.length > 0) {
           responseText += `**Méthodes:**\n\n`;
           api.methods.forEach(method => {
-            responseText += `**\`${method.name}\`**${method.deprecated ? ' ⚠️ DÉPRÉCIÉ' : ''}\n`;
+            responseText += `**\`${method.name}\`**${this.formatAPIMemberFlags(method)}\n`;
             responseText += `\`${method.signature}\`\n`;
-            responseText += `${method.description}\n`;
+            if (method.description) responseText += `${method.description}\n`;
             if (method.example) {
               responseText += `\`\`\`luau\n${method.example}\n\`\`\`\n`;
             }
@@ -2369,11 +3141,38 @@ class RojoMCPServer {
         if (api.properties && api.properties.length > 0) {
           responseText += `**Propriétés:**\n\n`;
           api.properties.forEach(prop => {
-            responseText += `**\`${prop.name}\`** - \`${prop.type}\`${prop.readonly ? ' (readonly)' : ''}\n`;
-            responseText += `${prop.description}\n\n`;
+            responseText += `**\`${prop.name}\`** - \`${prop.type}\`${this.formatAPIMemberFlags(prop)}\n`;
+            responseText += prop.description ? `${prop.description}\n\n` : '\n';
+          });
+        }
+
+        // Événements et callbacks
+        if (api.events && api.events.length > 0) {
+          responseText += `**Événements:**\n\n`;
+          api.events.forEach(event => {
+            responseText += `**\`${event.signature}\`**${this.formatAPIMemberFlags(event)}\n`;
+            if (event.description) responseText += `${event.description}\n`;
+          });
+          responseText += '\n';
+        }
+        if (api.callbacks && api.callbacks.length > 0) {
+          responseText += `**Callbacks:**\n\n`;
+          api.callbacks.forEach(callback => {
+            responseText += `**\`${callback.signature}\`**${this.formatAPIMemberFlags(callback)}\n`;
           });
+          responseText += '\n';
+        }
+
+        if (!inherited && api.inheritance && api.inheritance.length > 1) {
+          responseText += `💡 Membres hérités de ${api.inheritance.slice(1).join(', ')}: \`roblox_api service: "${api.service}" inherited: true\``;
         }
       }
+    } else if (apiDump) {
+      // Liste des services de l'API dump
+      const services = apiDump.getServices();
+      responseText += `**API dump chargé:** ${apiDump.classCount} classes, ${apiDump.enumCount} enums\n\n`;
+      responseText += `**Services (${services.length}):** ${services.map(api => `\`${api.name}\``).join(', ')}\n`;
+      responseText += `\n💡 **Usage:** \`roblox_api service: "Part" member: "Anchored"\` ou \`roblox_api search: "tween"\``;
     } else {
       // Liste tous les services
       responseText += `**Services disponibles:** ${robloxAPIs.length}\n\n`;
@@ -2389,43 +3188,53 @@ class RojoMCPServer {
         responseText += `**${type}:** \`${signature}\`\n`;
       });
       
-      responseText += `\n💡 **Usage:** \`roblox_api service: "Players"\` ou \`roblox_api search: "tween"\``;
+      responseText += `\n💡 **Usage:** \`roblox_api service: "Players"\` ou \`roblox_api search: "tween"\`\n`;
+      responseText += `📥 Seule une sélection de services est disponible: importez l'API dump complet avec \`import_api_dump\``;
     }
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
   }
 
   private checkAntiPatterns(scriptPath: string, autoFix: boolean = false) {
-    const fileInfo = this.projectStructure.get(scriptPath);
+    const fileInfo = this.fileManager.getFileInfo(scriptPath);
     
     if (!fileInfo) {
       throw new Error(`Le script ${scriptPath} n'existe pas`);
     }
     
-    const antiPatterns = detectAntiPatterns(fileInfo.content);
+    const antiPatterns = this.ruleEngine.detect(fileInfo.content, scriptPath);
+    const apiFindings = new ApiLinter(getApiDumpIndex()).lint(fileInfo.content, fileInfo.realm);
     
     let responseText = `## 🔍 **Analyse des anti-patterns**\n\n`;
     responseText += `**Fichier:** \`${scriptPath}\`\n`;
-    responseText += `**Lignes:** ${fileInfo.content.split('\n').length}\n\n`;
-    
-    if (antiPatterns.length === 0) {
+    responseText += `**Lignes:** ${fileInfo.content.split('\n').length}\n`;
+    if (this.ruleEngine.isIgnored(scriptPath)) {
+      responseText += `**Règles:** fichier ignoré par \`${MCP_DIRECTORY}/${RULES_FILE}\`\n`;
+    }
+    responseText += `\n`;
+    const configErrors = this.ruleEngine.getConfigErrors();
+    if (configErrors.length > 0) {
+      configErrors.forEach(error => responseText += `⚠️ ${MCP_DIRECTORY}/${RULES_FILE}: ${error}\n`);
+      responseText += `\n`;
+    }
+
+    if (antiPatterns.length === 0 && apiFindings.length === 0) {
       responseText += `✅ **Aucun anti-pattern détecté !** Le code suit les bonnes pratiques Roblox.`;
     } else {
-      responseText += `**${antiPatterns.length} problème(s) détecté(s):**\n\n`;
+      responseText += `**${antiPatterns.length + apiFindings.length} problème(s) détecté(s):**\n\n`;
       responseText += getAntiPatternSuggestions(antiPatterns);
+      responseText += formatApiFindings(apiFindings, fileInfo.realm, getApiDumpIndex() !== null);
       
       // Statistiques
-      const errors = antiPatterns.filter(p => p.pattern.severity === 'error').length;
-      const warnings = antiPatterns.filter(p => p.pattern.severity === 'warning').length;
+      const errors = antiPatterns.filter(p => p.pattern.severity === 'error').length + apiFindings.filter(f => f.severity === 'error').length;
+      const warnings = antiPatterns.filter(p => p.pattern.severity === 'warning').length + apiFindings.filter(f => f.severity === 'warning').length;
       const infos = antiPatterns.filter(p => p.pattern.severity === 'info').length;
       
       responseText += `\n### 📊 **Résumé**\n`;
@@ -2451,13 +3260,252 @@ class RojoMCPServer {
       }
     }
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private auditRemotes(scriptPath?: string) {
+    const files: [string, string][] = [];
+    if (scriptPath) {
+      const fileInfo = this.fileManager.getFileInfo(scriptPath);
+      if (!fileInfo) {
+        throw new Error(`Le script ${scriptPath} n'existe pas`);
+      }
+      files.push([scriptPath, fileInfo.content]);
+    } else {
+      for (const [filePath, fileInfo] of this.fileManager.getProjectStructure()) {
+        if (fileInfo.realm !== "client") files.push([filePath, fileInfo.content]);
+      }
+    }
+
+    const audits: [string, RemoteHandlerAudit][] = files.flatMap(([filePath, content]) =>
+      auditRemoteHandlers(content).map(audit => [filePath, audit] as [string, RemoteHandlerAudit])
+    );
+
+    let responseText = `## 🛡️ **Audit des RemoteEvents/Functions**\n\n`;
+    responseText += `**Scripts analysés:** ${files.length}\n`;
+    responseText += `**Handlers trouvés:** ${audits.length}\n\n`;
+
+    if (audits.length === 0) {
+      responseText += `Aucun handler OnServerEvent/OnServerInvoke trouvé.\n`;
+    }
+
+    let unsafeCount = 0;
+    for (const [filePath, audit] of audits) {
+      const unvalidated = getUnvalidatedParameters(audit);
+      unsafeCount += unvalidated.length;
+
+      responseText += `### ${unvalidated.length > 0 ? "🔴" : "✅"} \`${audit.remote}\` (${audit.event})\n`;
+      responseText += `**Handler:** \`${filePath}:${audit.line}\`\n`;
+      if (audit.parameters.length === 0) {
+        responseText += `**Paramètres:** aucun en dehors du joueur\n`;
+      }
+      audit.parameters.forEach(parameter => {
+        const checks = [parameter.typeChecked ? "type" : "", parameter.rangeChecked ? "bornes" : ""].filter(Boolean);
+        responseText += `- \`${parameter.name}\`: ${checks.length > 0 ? `contrôle de ${checks.join(" et ")}` : "aucun contrôle"}\n`;
+        parameter.unsafeUses.forEach(use => {
+          const missing = use.missing.map(check => check === "type" ? "type" : "bornes").join(" et ");
+          responseText += `  - ⚠️ ligne ${use.line}: atteint ${SINK_LABELS[use.sink]} sans contrôle de ${missing} — \`${use.code}\`\n`;
+        });
+      });
+
+      if (audit.rateLimited) {
+        responseText += `**Limitation de fréquence:** ✅ détectée\n`;
+      } else if (audit.unthrottledSinks.length > 0) {
+        responseText += `**Limitation de fréquence:** ⚠️ absente avant ${audit.unthrottledSinks.map(use => `ligne ${use.line}`).join(", ")}\n`;
+      } else {
+        responseText += `**Limitation de fréquence:** non détectée (aucune opération sensible)\n`;
+      }
+      responseText += `\n`;
+    }
+
+    if (unsafeCount > 0) {
+      responseText += `💡 Validez chaque paramètre avant l'opération: \`typeof(x) == "number"\` puis des bornes (\`x >= 1 and x <= max\`, \`math.clamp\`) ou une liste blanche (\`Items[x]\`).\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private listRemotes(name?: string) {
+    const registry = RemoteRegistry.build(this.fileManager.getProjectTree(), this.getProjectContents());
+    const remotes = registry.getRemotes().filter(remote => !name || remote.name === name);
+    const issues = registry.getIssues().filter(issue => !name || issue.remote === name);
+
+    if (name && remotes.length === 0) {
+      const known = registry.getRemotes().map(remote => `\`${remote.name}\``).join(", ");
+      throw new Error(`Remote ${name} introuvable${known ? ` (remotes connus: ${known})` : ""}`);
+    }
+
+    let responseText = `## 📡 **Remotes${name ? ` \`${name}\`` : " du projet"}**\n\n`;
+    responseText += `**Remotes:** ${remotes.length}\n`;
+    responseText += `**Problèmes:** ${issues.length}\n\n`;
+
+    if (remotes.length === 0) {
+      responseText += `Aucun remote trouvé (Instance.new, fichiers Rojo, Fire/Invoke ou handlers).\n`;
+    }
+
+    remotes.forEach(remote => {
+      responseText += this.formatRemoteContract(remote);
+    });
+
+    if (issues.length > 0) {
+      responseText += `### ⚠️ Désaccords client/serveur\n`;
+      issues.forEach(issue => {
+        responseText += `- \`${issue.file}:${issue.line}\` [${issue.type}] ${issue.message}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private formatRemoteContract(remote: RemoteContract): string {
+    let text = `### \`${remote.name}\`${remote.className ? ` (${remote.className})` : ""}\n`;
+
+    if (remote.creations.length === 0) {
+      text += `- **Création:** introuvable\n`;
+    }
+    remote.creations.forEach(creation => {
+      text += `- **Création:** ${creation.instancePath ? `\`${creation.instancePath}\` (${creation.file})` : `\`${creation.file}:${creation.line}\``}\n`;
+    });
+    remote.calls.forEach(call => {
+      text += `- **${call.method}** \`${call.file}:${call.line}\`: ${call.variadic ? "arguments variables" : `${call.argumentCount} argument(s)`}\n`;
+    });
+    remote.handlers.forEach(handler => {
+      const parameters = [...handler.parameters, ...(handler.variadic ? ["..."] : [])].join(", ");
+      text += `- **${handler.event}** \`${handler.file}:${handler.line}\`: (${parameters})\n`;
+    });
+
+    return text + "\n";
+  }
+
+  private scanBackdoors(scriptPath?: string) {
+    const files: [string, string][] = [];
+    if (scriptPath) {
+      const fileInfo = this.fileManager.getFileInfo(scriptPath);
+      if (!fileInfo) {
+        throw new Error(`Le script ${scriptPath} n'existe pas`);
+      }
+      files.push([scriptPath, fileInfo.content]);
+    } else {
+      for (const [filePath, fileInfo] of this.fileManager.getProjectStructure()) {
+        files.push([filePath, fileInfo.content]);
+      }
+    }
+
+    const scans: [string, BackdoorScan][] = files
+      .map(([filePath, content]) => [filePath, scanForBackdoors(content, { thirdParty: isThirdPartyPath(filePath) })] as [string, BackdoorScan])
+      .filter(([, scan]) => scan.findings.length > 0)
+      .sort(([a, scanA], [b, scanB]) => scanB.score - scanA.score || a.localeCompare(b));
+
+    const levelIcons: Record<RiskLevel, string> = { none: "✅", low: "🔵", medium: "🟡", high: "🟠", critical: "🔴" };
+    const tree = this.fileManager.getProjectTree();
+    const settings = tree && !scriptPath ? scanProjectSettings(tree) : [];
+
+    let responseText = `## 🕵️ **Recherche de backdoors**\n\n`;
+    responseText += `**Scripts analysés:** ${files.length}\n`;
+    responseText += `**Scripts signalés:** ${scans.length}\n\n`;
+
+    settings.forEach(finding => {
+      responseText += `🔴 **${tree!.projectFile}:** ${finding.message}\n\n`;
+    });
+
+    if (scans.length === 0 && settings.length === 0) {
+      responseText += `✅ Aucun motif suspect détecté.\n`;
+    }
+
+    scans.forEach(([filePath, scan]) => {
+      responseText += `### ${levelIcons[scan.level]} \`${filePath}\` — risque ${scan.score}/100 (${scan.level})\n`;
+      scan.findings.forEach(finding => {
+        responseText += `- ligne ${finding.line} [${finding.rule}, ${finding.severity}] ${finding.message}${finding.evidence ? ` — \`${finding.evidence}\`` : ""}\n`;
+      });
+      responseText += `\n`;
+    });
+
+    if (scans.some(([, scan]) => scan.level === "high" || scan.level === "critical")) {
+      responseText += `💡 Isolez les scripts à risque élevé avec \`quarantine_script\` avant la prochaine synchronisation Rojo.\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  private async quarantineScript(action: "quarantine" | "restore" | "list", scriptPath?: string, reason?: string, id?: number) {
+    let responseText: string;
+
+    if (action === "list") {
+      const entries = await this.quarantineManager.list();
+      responseText = `## 🔒 **Scripts en quarantaine** (${entries.length})\n\n`;
+      if (entries.length === 0) {
+        responseText += `Aucun script en quarantaine.\n`;
+      }
+      entries.forEach(entry => {
+        responseText += `- **#${entry.id}** \`${entry.file}\` (${entry.quarantinedAt})${entry.score !== undefined ? ` — risque ${entry.score}/100` : ""}: ${entry.reason}\n`;
+      });
+    } else if (action === "restore") {
+      if (id === undefined) {
+        throw new Error("id est requis pour restaurer un script (voir action \"list\")");
+      }
+      const entry = await this.quarantineManager.restore(id);
+      await this.updateFile(entry.file);
+      responseText = `↩️ **Script restauré**\n\n**Fichier:** \`${entry.file}\`\n\nIl sera de nouveau synchronisé par Rojo.`;
+    } else {
+      if (!scriptPath) {
+        throw new Error("scriptPath est requis pour mettre un script en quarantaine");
+      }
+      // Seuls les scripts gérés par le projet sont déplacés (jamais un fichier de config ou hors du projet)
+      const fileInfo = this.fileManager.getFileInfo(scriptPath);
+      if (!fileInfo) {
+        throw new Error(`Le script ${scriptPath} n'existe pas ou n'est pas un script du projet`);
+      }
+      const scan = scanForBackdoors(fileInfo.content, { thirdParty: isThirdPartyPath(scriptPath) });
+      const defaultReason = scan.findings.length > 0
+        ? [...new Set(scan.findings.map(finding => finding.rule))].join(", ")
+        : "mise en quarantaine manuelle";
+
+      const entry = await this.quarantineManager.quarantine(scriptPath, reason ?? defaultReason, scan.score);
+      this.fileManager.forgetFile(scriptPath);
+      this.symbolIndex.removeFile(entry.file);
+      this.versionTracker.forget(scriptPath);
+
+      responseText = `🔒 **Script mis en quarantaine**\n\n`;
+      responseText += `**Fichier:** \`${entry.file}\`\n`;
+      responseText += `**Id:** ${entry.id}\n`;
+      if (entry.score !== undefined) responseText += `**Risque:** ${entry.score}/100\n`;
+      responseText += `**Raison:** ${entry.reason}\n\n`;
+      responseText += `Le fichier est hors de l'arbre Rojo et ne sera plus synchronisé. Restaurer: \`quarantine_script\` avec \`action: "restore", id: ${entry.id}\`.`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
         },
       ],
     };
@@ -2495,13 +3543,11 @@ class RojoMCPServer {
     
     responseText += `\n**Historique:** ${this.thoughtHistory.length} réflexions enregistrées`;
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
@@ -2540,13 +3586,11 @@ class RojoMCPServer {
       });
     }
     
-    this.updateTokenUsage(responseText);
-    
     return {
       content: [
         {
           type: "text",
-          text: responseText + this.appendTokenUsageReport(),
+          text: responseText,
         },
       ],
     };
@@ -2623,140 +3667,28 @@ class RojoMCPServer {
     };
   }
 
-  private generateDiff(oldContent: string, newContent: string): string {
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-    
-    let additions = 0;
-    let deletions = 0;
-    let modifications = 0;
-    let diffPreview = '';
-    
-    // Algorithme de diff simple basé sur les lignes
-    const maxLines = Math.max(oldLines.length, newLines.length);
-    const changedLines: Array<{line: number, type: 'add' | 'del' | 'mod', content: string}> = [];
-    
-    for (let i = 0; i < maxLines; i++) {
-      const oldLine = i < oldLines.length ? oldLines[i] : undefined;
-      const newLine = i < newLines.length ? newLines[i] : undefined;
-      
-      if (oldLine === undefined && newLine !== undefined) {
-        // Ligne ajoutée
-        additions++;
-        changedLines.push({line: i + 1, type: 'add', content: newLine});
-      } else if (oldLine !== undefined && newLine === undefined) {
-        // Ligne supprimée
-        deletions++;
-        changedLines.push({line: i + 1, type: 'del', content: oldLine});
-      } else if (oldLine !== newLine) {
-        // Ligne modifiée
-        modifications++;
-        changedLines.push({line: i + 1, type: 'mod', content: newLine!});
-      }
-    }
-    
-    // Générer un aperçu compact des changements
-    if (changedLines.length === 0) {
-      return '';
-    }
-    
-    diffPreview = `## 📊 **Résumé des changements**\n`;
-    diffPreview += `- **Lignes ajoutées:** +${additions}\n`;
-    diffPreview += `- **Lignes supprimées:** -${deletions}\n`;
-    diffPreview += `- **Lignes modifiées:** ~${modifications}\n\n`;
-    
-    // Afficher les 5 premiers changements pour économiser les tokens
-    if (changedLines.length > 0) {
-      diffPreview += `### Aperçu des changements (${Math.min(5, changedLines.length)}/${changedLines.length}):\n\`\`\`diff\n`;
-      
-      changedLines.slice(0, 5).forEach(change => {
-        const prefix = change.type === 'add' ? '+' : change.type === 'del' ? '-' : '~';
-        const lineNum = change.line.toString().padStart(4, ' ');
-        diffPreview += `${prefix} ${lineNum}: ${change.content.slice(0, 60)}${change.content.length > 60 ? '...' : ''}\n`;
-      });
-      
-      if (changedLines.length > 5) {
-        diffPreview += `... et ${changedLines.length - 5} autres changements\n`;
-      }
-      
-      diffPreview += `\`\`\``;
+  private async previewDiffPatch(scriptPath: string, diff: string) {
+    try {
+      return {
+        content: [
+          {
+            type: "text",
+            text: await this.patchManager.previewDiff(scriptPath, diff),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Impossible de prévisualiser le diff: ${error}`);
     }
-    
-    return diffPreview;
   }
 
-  private previewPatch(patch: PatchOperation) {
+  private async previewPatch(patch: PatchOperation) {
     try {
-      const fileInfo = this.projectStructure.get(patch.scriptPath);
-      
-      if (!fileInfo) {
-        throw new Error(`Le script ${patch.scriptPath} n'existe pas ou n'est pas chargé`);
-      }
-
-      const lines = fileInfo.content.split('\n');
-
-      // Valider les numéros de ligne
-      if (patch.lineStart < 1 || patch.lineStart > lines.length + 1) {
-        throw new Error(`Numéro de ligne invalide: ${patch.lineStart} (fichier a ${lines.length} lignes)`);
-      }
-
-      // Simuler l'opération
-      let newLines = [...lines];
-      let preview = "";
-
-      switch (patch.operation) {
-        case "insert":
-          if (!patch.newContent) {
-            throw new Error("newContent requis pour l'opération insert");
-          }
-          const insertLines = patch.newContent.split('\n');
-          newLines.splice(patch.lineStart - 1, 0, ...insertLines);
-          
-          preview = `**PREVIEW - Insertion à la ligne ${patch.lineStart}**\n\n`;
-          preview += "**Contenu à insérer:**\n```luau\n" + patch.newContent + "\n```\n\n";
-          break;
-
-        case "replace":
-          if (!patch.newContent) {
-            throw new Error("newContent requis pour l'opération replace");
-          }
-          const endLine = patch.lineEnd || patch.lineStart;
-          const originalContent = lines.slice(patch.lineStart - 1, endLine).join('\n');
-          
-          preview = `**PREVIEW - Remplacement lignes ${patch.lineStart}-${endLine}**\n\n`;
-          preview += "**Contenu actuel:**\n```luau\n" + originalContent + "\n```\n\n";
-          preview += "**Nouveau contenu:**\n```luau\n" + patch.newContent + "\n```\n\n";
-          break;
-
-        case "delete":
-          const deleteEndLine = patch.lineEnd || patch.lineStart;
-          const deletedContent = lines.slice(patch.lineStart - 1, deleteEndLine).join('\n');
-          
-          preview = `**PREVIEW - Suppression lignes ${patch.lineStart}-${deleteEndLine}**\n\n`;
-          preview += "**Contenu à supprimer:**\n```luau\n" + deletedContent + "\n```\n\n";
-          break;
-
-        default:
-          throw new Error(`Opération inconnue: ${patch.operation}`);
-      }
-
-      // Afficher le contexte (quelques lignes avant/après)
-      const contextStart = Math.max(1, patch.lineStart - 3);
-      const contextEnd = Math.min(lines.length, (patch.lineEnd || patch.lineStart) + 3);
-      const contextLines = newLines.slice(contextStart - 1, contextEnd);
-      
-      preview += "**Contexte après modification:**\n```luau\n";
-      contextLines.forEach((line, index) => {
-        const lineNum = contextStart + index;
-        preview += `${lineNum.toString().padStart(3)}: ${line}\n`;
-      });
-      preview += "```";
-
       return {
         content: [
           {
             type: "text",
-            text: preview,
+            text: await this.patchManager.previewPatch(patch),
           },
         ],
       };
@@ -2770,105 +3702,10 @@ class RojoMCPServer {
       // Utiliser uniquement une validation rapide du fichier modifié
       const fullPath = path.join(this.projectRoot, scriptPath);
       const content = await fs.readFile(fullPath, 'utf-8');
-      const lines = content.split('\n');
-      
-      let errors: string[] = [];
-      let warnings: string[] = [];
-      
-      // Validation syntaxique rapide mais plus robuste
-      let blockStack: string[] = [];
-      let bracketStack: string[] = [];
-      let inString = false;
-      let stringChar = '';
-      
-      lines.forEach((line, index) => {
-        let i = 0;
-        let inComment = false;
-        
-        // Analyse caractère par caractère
-        while (i < line.length) {
-          const char = line[i];
-          const nextChar = line[i + 1];
-          
-          // Détecter les commentaires
-          if (!inString && char === '-' && nextChar === '-') {
-            inComment = true;
-            break;
-          }
-          
-          // Gérer les strings
-          if (!inComment && (char === '"' || char === "'") && (i === 0 || line[i-1] !== '\\')) {
-            if (!inString) {
-              inString = true;
-              stringChar = char;
-            } else if (char === stringChar) {
-              inString = false;
-            }
-          }
-          
-          // Vérifier les brackets hors strings
-          if (!inString && !inComment) {
-            if (char === '(' || char === '{' || char === '[') {
-              bracketStack.push(char);
-            } else if (char === ')' || char === '}' || char === ']') {
-              const expected = char === ')' ? '(' : char === '}' ? '{' : '[';
-              if (bracketStack.length === 0 || bracketStack[bracketStack.length - 1] !== expected) {
-                errors.push(`Ligne ${index + 1}: '${char}' sans '${expected}' correspondant`);
-              } else {
-                bracketStack.pop();
-              }
-            }
-          }
-          
-          i++;
-        }
-        
-        // Analyser les mots-clés de bloc (hors strings et commentaires)
-        if (!inComment && !inString) {
-          const trimmed = line.trim();
-          
-          // Détecter les débuts de blocs
-          if (/\b(function|if|for|while|repeat|do)\b/.test(trimmed)) {
-            if (!trimmed.includes(' end') && !trimmed.includes(' return') && !trimmed.includes(' break')) {
-              blockStack.push('block');
-            }
-          }
-          
-          // Détecter les 'then' qui nécessitent un 'end'
-          if (/\bthen\b/.test(trimmed) && !trimmed.includes('then return') && !trimmed.includes('then break')) {
-            blockStack.push('then');
-          }
-          
-          // Détecter les 'end'
-          if (/\bend\b/.test(trimmed)) {
-            if (blockStack.length === 0) {
-              errors.push(`Ligne ${index + 1}: 'end' sans bloc correspondant`);
-            } else {
-              blockStack.pop();
-            }
-          }
-          
-          // Vérifier les patterns dangereux
-          if (/\bwait\s*\(/.test(trimmed)) {
-            warnings.push(`Ligne ${index + 1}: Utiliser task.wait() au lieu de wait()`);
-          }
-        }
-        
-        // Réinitialiser l'état string à la fin de chaque ligne si non fermée (erreur)
-        if (inString) {
-          errors.push(`Ligne ${index + 1}: String non fermée`);
-          inString = false;
-        }
-      });
-      
-      // Vérifications finales
-      if (blockStack.length > 0) {
-        errors.push(`${blockStack.length} bloc(s) non fermé(s)`);
-      }
+      const validation = this.validationManager.validateSyntax(content);
       
-      if (bracketStack.length > 0) {
-        errors.push(`${bracketStack.length} parenthèse(s)/accolade(s) non fermée(s)`);
-      }
+      const errors: string[] = validation.errors.map(error => error.message);
+      const warnings: string[] = validation.warnings.map(warning => `Ligne ${warning.line}: ${warning.message}`);
       
       // Générer le rapport si des problèmes sont trouvés
       if (errors.length > 0 || warnings.length > 0) {
@@ -3094,6 +3931,67 @@ class RojoMCPServer {
     return descriptions[templateName] || "Template de code";
   }
 
+  private getTokenReport(limit: number = 10, newSession: boolean = false) {
+    const report = this.tokenManager.getTokenReport();
+    const percentage = (report.contextWindowUsed / report.contextWindowMax) * 100;
+    const formatTime = (date: Date) => date.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+    const share = (tokens: number) => report.session.tokens > 0 ? `${((tokens / report.session.tokens) * 100).toFixed(1)}%` : "0%";
+
+    let responseText = `## 📊 **Rapport de tokens**\n\n`;
+    responseText += `**Compteur:** ${report.counter}\n`;
+    responseText += `**Session #${report.session.id}** depuis ${formatTime(report.session.startedAt)}: ${report.session.tokens} tokens, ${report.session.calls} appel(s)\n`;
+    responseText += `**Contexte:** ${percentage.toFixed(1)}% (${report.contextWindowUsed}/${report.contextWindowMax})\n`;
+    responseText += `**Total serveur:** ${report.totalTokensUsed} tokens\n`;
+    const cacheLookups = report.cacheHits + report.cacheMisses;
+    if (cacheLookups > 0) {
+      responseText += `**Cache de lecture:** ${report.cacheHits}/${cacheLookups} relectures évitées, ${report.tokensSaved} tokens économisés\n`;
+    }
+    responseText += `\n`;
+
+    if (report.tools.length > 0) {
+      responseText += `### 🔧 Outils\n\n| Outil | Appels | Tokens | Part | Moyenne | Max |\n|---|---|---|---|---|---|\n`;
+      report.tools.slice(0, limit).forEach(tool => {
+        responseText += `| \`${tool.tool}\` | ${tool.calls} | ${tool.tokens} | ${share(tool.tokens)} | ${Math.round(tool.tokens / tool.calls)} | ${tool.maxTokens} |\n`;
+      });
+      responseText += `\n`;
+    }
+
+    if (report.files.length > 0) {
+      responseText += `### 📄 Fichiers lus\n\n| Fichier | Lectures | Tokens | Part |\n|---|---|---|---|\n`;
+      report.files.slice(0, limit).forEach(file => {
+        responseText += `| \`${file.file}\` | ${file.reads} | ${file.tokens} | ${share(file.tokens)} |\n`;
+      });
+      responseText += `\n`;
+      const rereads = report.files.filter(file => file.reads > 1);
+      if (rereads.length > 0) {
+        responseText += `💡 ${rereads.length} fichier(s) lu(s) plusieurs fois dans la session.\n\n`;
+      }
+    }
+
+    if (report.previousSessions.length > 0) {
+      responseText += `### 🕘 Sessions précédentes\n\n`;
+      report.previousSessions.slice(-5).forEach(session => {
+        responseText += `- #${session.id} (${formatTime(session.startedAt)} → ${formatTime(session.endedAt!)}): ${session.tokens} tokens, ${session.calls} appel(s)\n`;
+      });
+      responseText += `\n`;
+    }
+
+    if (newSession) {
+      const session = this.tokenManager.startSession();
+      this.readCache.clear();
+      responseText += `✅ Session #${session.id} démarrée: le contexte, le cache de lecture et les statistiques par outil et par fichier repartent de zéro.`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
   private analyzeErrorMessage(
     errorMessage: string,
     filePath?: string,
@@ -5,6 +5,8 @@
 
 import { syntaxValidator, LuauSyntaxValidator } from './syntax-validator.js';
 import { countSyntaxElements, validateSyntaxBalance } from './patch-templates.js';
+import { AntiPatternMatch } from './antipatterns.js';
+import { RuleEngine } from './src/analysis/rule-engine.js';
 
 export interface ModificationHook {
   name: string;
@@ -14,12 +16,14 @@ export interface ModificationHook {
 }
 
 export interface ModificationContext {
-  operation: 'write' | 'patch' | 'create' | 'delete';
+  operation: 'write' | 'patch' | 'create' | 'delete' | 'rename';
   filePath: string;
   originalContent?: string;
   newContent?: string;
   patch?: any;
   metadata?: Record<string, any>;
+  // Changeset: contenu prévu des fichiers déjà touchés par les opérations précédentes (null = supprimé)
+  plannedContents?: Map<string, string | null>;
 }
 
 export interface HookResult {
@@ -35,6 +39,7 @@ export class ModificationHookManager {
   private hooks: Map<string, ModificationHook> = new Map();
   private blockOnError: boolean = true;
   private forcePreview: boolean = true;
+  private ruleEngine: RuleEngine = new RuleEngine();
 
   constructor() {
     this.registerDefaultHooks();
@@ -73,7 +78,7 @@ export class ModificationHookManager {
       }
     });
 
-    // 2. Hook de détection des patterns dangereux
+    // 2. Hook de détection des anti-patterns (règles du projet: .mcp-roblox/rules.json)
     this.registerHook({
       name: 'dangerous-patterns',
       priority: 90,
@@ -83,28 +88,23 @@ export class ModificationHookManager {
           return { approved: true };
         }
 
-        const errors: string[] = [];
-        const warnings: string[] = [];
-
-        // Boucles infinies potentielles
-        if (/while\s+true\s+do(?![\s\S]*?wait)/.test(context.newContent)) {
-          errors.push("Boucle infinie détectée sans wait() - utilisez task.wait()");
-        }
-
-        // Variables globales
-        if (/^[^-]*\b(?!local\s+)\w+\s*=\s*[^=]/gm.test(context.newContent)) {
-          warnings.push("Variable globale potentielle détectée - utilisez 'local'");
-        }
+        // Seules les détections introduites par la modification bloquent ou avertissent
+        const keyOf = (finding: AntiPatternMatch) => `${finding.pattern.name}:${finding.match}`;
+        const previous = new Set(
+          context.originalContent ? this.ruleEngine.detect(context.originalContent, context.filePath).map(keyOf) : []
+        );
+        const added = this.ruleEngine.detect(context.newContent, context.filePath)
+          .filter(finding => finding.pattern.severity !== 'info' && !previous.has(keyOf(finding)));
 
-        // Loadstring
-        if (/loadstring\s*\(/.test(context.newContent)) {
-          errors.push("loadstring est désactivé sur Roblox pour des raisons de sécurité");
-        }
+        const describe = (finding: AntiPatternMatch) =>
+          `Ligne ${finding.line}: ${finding.pattern.description} (${finding.pattern.name})${finding.pattern.fix ? ` - ${finding.pattern.fix}` : ''}`;
+        const errors = added.filter(finding => finding.pattern.severity === 'error').map(describe);
 
         return {
           approved: errors.length === 0,
           errors,
-          warnings
+          warnings: added.filter(finding => finding.pattern.severity === 'warning').map(describe),
+          suggestions: errors.length > 0 ? ["Ajoutez `-- mcp-ignore: <règle>` sur la ligne si la détection est volontaire"] : []
         };
       }
     });
@@ -156,17 +156,7 @@ export class ModificationHookManager {
           warnings.push(`${oldCounts.functions - newCounts.functions} fonction(s) supprimée(s)`);
         }
 
-        // Détecter les déséquilibres
-        const oldBalance = oldCounts.functions + oldCounts.ifs + oldCounts.fors + oldCounts.whiles;
-        const newBalance = newCounts.functions + newCounts.ifs + newCounts.fors + newCounts.whiles;
-
-        if (newBalance > newCounts.ends) {
-          return {
-            approved: false,
-            errors: [`Il manque ${newBalance - newCounts.ends} 'end' dans le code modifié`],
-            suggestions: ["Vérifiez que chaque nouveau bloc a son 'end' correspondant"]
-          };
-        }
+        // L'équilibre des blocs est vérifié par le parser dans 'syntax-validation' et 'block-balance'
 
         return { approved: true, warnings };
       }
@@ -214,6 +204,13 @@ export class ModificationHookManager {
     this.hooks.set(hook.name, hook);
   }
 
+  /**
+   * Règles appliquées par le hook 'dangerous-patterns'
+   */
+  public setRuleEngine(ruleEngine: RuleEngine) {
+    this.ruleEngine = ruleEngine;
+  }
+
   /**
    * EXÉCUTER TOUS LES HOOKS
    */
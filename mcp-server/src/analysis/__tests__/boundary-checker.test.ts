@@ -0,0 +1,77 @@
+import { describe, it, expect } from '@jest/globals';
+import { DependencyGraph } from '../dependency-graph.js';
+import { BoundaryChecker, BoundaryViolation, findRealmBoundUsages } from '../boundary-checker.js';
+import { useRojoProject } from './rojo-project-fixture.js';
+
+describe('BoundaryChecker', () => {
+  const project = useRojoProject();
+
+  async function check(files: Record<string, string>): Promise<BoundaryViolation[]> {
+    const tree = await project.write(files);
+    const contents = new Map(Object.entries(files));
+    return new BoundaryChecker(await DependencyGraph.build(project.root, tree, contents), contents).check();
+  }
+
+  it('should report client APIs in server scripts and server APIs in client scripts', async () => {
+    const violations = await check({
+      'src/server/main.server.luau': [
+        'local Players = game:GetService("Players")',
+        'local player = Players.LocalPlayer',
+        'local UserInputService = game:GetService("UserInputService")',
+        'player.PlayerGui.Menu.Enabled = true'
+      ].join('\n'),
+      'src/client/main.client.luau': [
+        'local ServerStorage = game:GetService("ServerStorage")',
+        'game.ReplicatedStorage.Remote:FireServer()'
+      ].join('\n')
+    });
+
+    expect(violations.map(violation => `${violation.file}:${violation.line}:${violation.usage?.api}`)).toEqual([
+      'src/server/main.server.luau:2:Players.LocalPlayer',
+      'src/server/main.server.luau:3:GetService("UserInputService")',
+      'src/server/main.server.luau:4:Player.PlayerGui',
+      'src/client/main.client.luau:1:GetService("ServerStorage")'
+    ]);
+  });
+
+  it('should follow requires through shared modules', async () => {
+    const violations = await check({
+      'src/serverModules/Secrets.luau': 'return { key = "abc" }',
+      'src/shared/Config.luau': 'return require(game.ServerStorage.Modules.Secrets)',
+      'src/shared/Input.luau': [
+        'local UserInputService = game:GetService("UserInputService")',
+        'return {}'
+      ].join('\n'),
+      'src/shared/Util.luau': [
+        'local Config = require(script.Parent.Config)',
+        'local Input = require(script.Parent.Input)',
+        'return {}'
+      ].join('\n'),
+      'src/client/main.client.luau': 'local Util = require(game.ReplicatedStorage.Shared.Util)',
+      'src/server/main.server.luau': '\nlocal Util = require(game.ReplicatedStorage.Shared.Util)'
+    });
+
+    expect(violations.map(violation => `${violation.type}:${violation.file}:${violation.line}:${violation.chain.slice(1).join('>')}`)).toEqual([
+      'wrong-realm-api:src/server/main.server.luau:2:src/shared/Util.luau>src/shared/Input.luau',
+      // Config accède à ServerStorage et requiert un module qui n'existe pas côté client
+      'wrong-realm-api:src/client/main.client.luau:1:src/shared/Util.luau>src/shared/Config.luau',
+      'server-module:src/client/main.client.luau:1:src/shared/Util.luau>src/shared/Config.luau>src/serverModules/Secrets.luau'
+    ]);
+    expect(violations[0].message).toContain('via src/shared/Util.luau');
+  });
+
+  it('should ignore code guarded by RunService:IsClient() or IsServer()', () => {
+    const usages = findRealmBoundUsages([
+      'local RunService = game:GetService("RunService")',
+      'if RunService:IsClient() then',
+      '\tprint(game.Players.LocalPlayer)',
+      'end',
+      'local remote = game.ReplicatedStorage.Remote',
+      'remote:FireAllClients()',
+      'if not RunService:IsServer() then return end',
+      'remote.OnServerEvent:Connect(print)'
+    ].join('\n'));
+
+    expect(usages.map(usage => `${usage.line}:${usage.api}`)).toEqual(['6:RemoteEvent:FireAllClients']);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { DependencyGraph } from '../dependency-graph.js';
+import { useRojoProject } from './rojo-project-fixture.js';
+
+describe('DependencyGraph', () => {
+  const project = useRojoProject();
+
+  async function writeProject(files: Record<string, string>): Promise<DependencyGraph> {
+    return DependencyGraph.build(project.root, await project.write(files));
+  }
+
+  it('should resolve GetService, WaitForChild and script.Parent requires', async () => {
+    const graph = await writeProject({
+      'src/shared/Utils.luau': 'return {}',
+      'src/shared/Config/init.luau': 'local Utils = require(script.Parent.Utils)\nreturn {}',
+      'src/server/main.server.luau': [
+        'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+        'local Shared = ReplicatedStorage:WaitForChild("Shared")',
+        'local Config = require(Shared.Config)',
+        'local Utils = require(game:GetService("ReplicatedStorage").Shared["Utils"])'
+      ].join('\n')
+    });
+
+    expect(graph.getDependencies('src/server/main.server.luau').sort()).toEqual([
+      'src/shared/Config/init.luau',
+      'src/shared/Utils.luau'
+    ]);
+    expect(graph.getDependents('src/shared/Utils.luau').sort()).toEqual([
+      'src/server/main.server.luau',
+      'src/shared/Config/init.luau'
+    ]);
+    expect(graph.getIssues()).toEqual([]);
+  });
+
+  it('should report missing modules inside Rojo-managed folders only', async () => {
+    const graph = await writeProject({
+      'src/shared/Utils.luau': 'return {}',
+      'src/server/main.server.luau': [
+        'local Missing = require(game.ReplicatedStorage.Shared.Missing)',
+        'local Package = require(game.ReplicatedStorage.Packages.Promise)'
+      ].join('\n')
+    });
+
+    const issues = graph.getIssues();
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'missing-module', file: 'src/server/main.server.luau', line: 1 });
+  });
+
+  it('should report circular requires once', async () => {
+    const graph = await writeProject({
+      'src/shared/A.luau': 'local B = require(script.Parent.B)\nreturn {}',
+      'src/shared/B.luau': 'local A = require(script.Parent.A)\nreturn {}'
+    });
+
+    const cycles = graph.getIssues().filter(issue => issue.type === 'circular-dependency');
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].message).toContain('src/shared/A.luau → src/shared/B.luau → src/shared/A.luau');
+  });
+
+  it('should flag client scripts requiring server-only modules', async () => {
+    const graph = await writeProject({
+      'src/serverModules/DataStore.luau': 'return {}',
+      'src/client/main.client.luau': 'local DataStore = require(game:GetService("ServerStorage").Modules.DataStore)'
+    });
+
+    const issues = graph.getIssues();
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('client-requires-server');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { auditRemoteHandlers, getUnvalidatedParameters } from '../remote-auditor.js';
+
+describe('auditRemoteHandlers', () => {
+  it('should report parameters reaching sinks before being checked, through derived variables', () => {
+    const code = [
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      'local store = game:GetService("DataStoreService"):GetDataStore("Coins")',
+      'local buyRemote = ReplicatedStorage:WaitForChild("BuyItem")',
+      '',
+      'buyRemote.OnServerEvent:Connect(function(player, itemName, amount)',
+      '\tlocal total = amount * 10',
+      '\tplayer.leaderstats.Coins.Value -= total',
+      '\tlocal part = Instance.new(itemName)',
+      '\tif typeof(amount) ~= "number" or amount < 1 or amount > 99 then return end',
+      '\tstore:SetAsync(player.UserId, amount)',
+      'end)'
+    ].join('\n');
+
+    const [audit] = auditRemoteHandlers(code);
+    expect(audit).toMatchObject({ remote: 'BuyItem', expression: 'buyRemote', event: 'OnServerEvent', line: 5, rateLimited: false });
+    expect(getUnvalidatedParameters(audit)).toMatchObject([
+      { name: 'itemName', unsafeUses: [{ line: 8, sink: 'instance', missing: ['type', 'range'] }] },
+      { name: 'amount', typeChecked: true, rangeChecked: true, unsafeUses: [{ line: 7, sink: 'currency', missing: ['type', 'range'] }] }
+    ]);
+    expect(audit.unthrottledSinks.map(use => use.line)).toEqual([7, 8, 10]);
+  });
+
+  it('should accept whitelists, coercions, clamps, validators and rate limits', () => {
+    const code = [
+      'local Items = { sword = 100 }',
+      'local lastRequest = {}',
+      '',
+      'local function onSell(player, itemId, count, target)',
+      '\tif lastRequest[player] and os.clock() - lastRequest[player] < 1 then return end',
+      '\tlastRequest[player] = os.clock()',
+      '\tlocal price = Items[itemId]',
+      '\tif not price then return end',
+      '\tlocal quantity = math.clamp(tonumber(count) or 0, 1, 10)',
+      '\tassert(isOwnedBy(target, player))',
+      '\tgiveCoins(player, price * quantity)',
+      '\ttarget:Destroy()',
+      'end',
+      '',
+      'Remotes.Sell.OnServerEvent:Connect(onSell)',
+      'Remotes.GetPrice.OnServerInvoke = function(player, itemId)',
+      '\treturn Items[itemId]',
+      'end'
+    ].join('\n');
+
+    const audits = auditRemoteHandlers(code);
+    expect(audits.map(audit => `${audit.remote}:${audit.event}:${audit.rateLimited}`)).toEqual([
+      'Sell:OnServerEvent:true',
+      'GetPrice:OnServerInvoke:false'
+    ]);
+    expect(audits.flatMap(getUnvalidatedParameters)).toEqual([]);
+    expect(audits[0].unthrottledSinks).toEqual([]);
+  });
+
+  it('should only count checks whose failing branch leaves the handler', () => {
+    const code = [
+      'local HttpService = game:GetService("HttpService")',
+      'Remotes.Save.OnServerEvent:Connect(function(player, amount, label)',
+      '\tlocal id = HttpService:GenerateGUID()',
+      '\tif typeof(amount) ~= "number" then print("bad") end',
+      '\tstore:SetAsync(id, amount)',
+      '\tif type(label) == "string" and #label < 20 then',
+      '\t\tstore:SetAsync(id, label)',
+      '\tend',
+      '\tstore:SetAsync(id, label)',
+      'end)'
+    ].join('\n');
+
+    const [audit] = auditRemoteHandlers(code);
+    expect(audit.rateLimited).toBe(false);
+    expect(getUnvalidatedParameters(audit)).toMatchObject([
+      { name: 'amount', unsafeUses: [{ line: 5, sink: 'datastore', missing: ['type', 'range'] }] },
+      { name: 'label', unsafeUses: [{ line: 9, sink: 'datastore', missing: ['type', 'range'] }] }
+    ]);
+  });
+});
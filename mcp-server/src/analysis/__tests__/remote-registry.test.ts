@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { RemoteRegistry } from '../remote-registry.js';
+
+const SERVER = [
+  'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+  '',
+  'local buyItem = Instance.new("RemoteEvent")',
+  'buyItem.Name = "BuyItem"',
+  'buyItem.Parent = ReplicatedStorage',
+  '',
+  'local getPrice = Instance.new("RemoteFunction")',
+  'getPrice.Name = "GetPrice"',
+  'getPrice.Parent = ReplicatedStorage',
+  '',
+  'local function onBuy(player, itemId, amount)',
+  '\tbuyItem:FireClient(player, { success = true })',
+  'end',
+  'buyItem.OnServerEvent:Connect(onBuy)',
+  '',
+  'getPrice.OnServerInvoke = function(player, itemId)',
+  '\treturn 10',
+  'end'
+].join('\n');
+
+describe('RemoteRegistry', () => {
+  it('should record creations, calls and handlers on both sides', () => {
+    const registry = RemoteRegistry.build(null, new Map([
+      ['src/server/Shop.server.luau', SERVER],
+      ['src/client/Shop.client.luau', [
+        'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+        'local buyItem = ReplicatedStorage:WaitForChild("BuyItem")',
+        'buyItem:FireServer("sword", 1)',
+        'buyItem.OnClientEvent:Connect(function(result) end)',
+        'local price = ReplicatedStorage:WaitForChild("GetPrice"):InvokeServer("sword")'
+      ].join('\n')]
+    ]));
+
+    expect(registry.getRemotes().map(remote => remote.name)).toEqual(['BuyItem', 'GetPrice']);
+    expect(registry.getRemote('BuyItem')).toEqual({
+      name: 'BuyItem',
+      className: 'RemoteEvent',
+      creations: [{ file: 'src/server/Shop.server.luau', line: 4, className: 'RemoteEvent' }],
+      calls: [
+        { file: 'src/server/Shop.server.luau', line: 12, method: 'FireClient', argumentCount: 1, variadic: false },
+        { file: 'src/client/Shop.client.luau', line: 3, method: 'FireServer', argumentCount: 2, variadic: false }
+      ],
+      handlers: [
+        { file: 'src/server/Shop.server.luau', line: 14, event: 'OnServerEvent', parameters: ['itemId', 'amount'], variadic: false },
+        { file: 'src/client/Shop.client.luau', line: 4, event: 'OnClientEvent', parameters: ['result'], variadic: false }
+      ]
+    });
+    expect(registry.getIssues()).toEqual([]);
+  });
+
+  it('should report mismatched names, arities, classes and one-sided remotes', () => {
+    const registry = RemoteRegistry.build(null, new Map([
+      ['src/server/Shop.server.luau', SERVER],
+      ['src/client/Shop.client.luau', [
+        'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+        'local buyItem = ReplicatedStorage:WaitForChild("BuyItem")',
+        'buyItem:FireServer("sword")',
+        'ReplicatedStorage.BuyItems:FireServer("sword", 1)',
+        'ReplicatedStorage.GetPrice:FireServer("sword")',
+        'ReplicatedStorage.Ping:FireServer(...)'
+      ].join('\n')]
+    ]));
+
+    expect(registry.getIssues().map(issue => `${issue.type}:${issue.remote}:${issue.file}:${issue.line}`)).toEqual([
+      'arity-mismatch:BuyItem:src/client/Shop.client.luau:3',
+      'unhandled:BuyItem:src/server/Shop.server.luau:12',
+      'unknown-remote:BuyItems:src/client/Shop.client.luau:4',
+      'unhandled:BuyItems:src/client/Shop.client.luau:4',
+      'wrong-class:GetPrice:src/client/Shop.client.luau:5',
+      'unknown-remote:Ping:src/client/Shop.client.luau:6',
+      'unhandled:Ping:src/client/Shop.client.luau:6'
+    ]);
+    const messages = registry.getIssues().map(issue => issue.message);
+    expect(messages).toContain('Remote "BuyItems" jamais créé: vouliez-vous dire "BuyItem" ?');
+    expect(messages).toContain('BuyItem:FireServer envoie 1 argument(s), le handler OnServerEvent (src/server/Shop.server.luau:14) en attend 2 (itemId, amount)');
+  });
+});
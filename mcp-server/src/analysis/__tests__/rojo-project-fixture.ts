@@ -0,0 +1,53 @@
+/**
+ * Projet Rojo temporaire partagé par les tests d'analyse: dossiers partagé, serveur,
+ * modules réservés au serveur et client
+ */
+
+import { beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { RojoProjectTree } from '../../rojo/project-tree.js';
+
+export interface RojoProjectFixture {
+  // Racine du projet, recréée pour chaque test
+  readonly root: string;
+  // Écrit default.project.json et les scripts, puis charge l'arbre Rojo
+  write(files: Record<string, string>): Promise<RojoProjectTree>;
+}
+
+const PROJECT = {
+  name: 'Test',
+  tree: {
+    $className: 'DataModel',
+    ReplicatedStorage: { Shared: { $path: 'src/shared' } },
+    ServerScriptService: { $path: 'src/server' },
+    ServerStorage: { Modules: { $path: 'src/serverModules' } },
+    StarterPlayer: { StarterPlayerScripts: { $path: 'src/client' } }
+  }
+};
+
+export function useRojoProject(): RojoProjectFixture {
+  let root = '';
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-analysis-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  return {
+    get root() {
+      return root;
+    },
+    async write(files) {
+      await fs.writeJson(path.join(root, 'default.project.json'), PROJECT);
+      for (const [file, content] of Object.entries(files)) {
+        await fs.outputFile(path.join(root, file), content);
+      }
+      return RojoProjectTree.load(root);
+    }
+  };
+}
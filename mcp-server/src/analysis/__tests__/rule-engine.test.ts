@@ -0,0 +1,101 @@
+import { describe, it, expect } from '@jest/globals';
+import { RuleEngine } from '../rule-engine.js';
+import { DEFAULT_RULES_CONFIG, RulesConfig } from '../../config/rules-config.js';
+
+function config(overrides: Partial<RulesConfig>): RulesConfig {
+  return { ...DEFAULT_RULES_CONFIG, ...overrides };
+}
+
+const CODE = [
+  'local Players = game:GetService("Players")',
+  'count = 0',
+  '_G.Shared = {}',
+  'local part = Instance.new("Part")'
+].join('\n');
+
+describe('RuleEngine', () => {
+  it('should apply enable, severity and file glob settings', () => {
+    expect(new RuleEngine().detect(CODE)).toMatchObject([
+      { line: 4, pattern: { name: 'instance-parent-nil', severity: 'info' } },
+      { line: 2, pattern: { name: 'global-variable', severity: 'warning' } },
+      { line: 3, pattern: { name: 'global-table', severity: 'warning' } }
+    ]);
+
+    const engine = new RuleEngine(config({
+      rules: {
+        'instance-parent-nil': 'off',
+        'global-variable': { severity: 'error', exclude: ['src/legacy/**'] },
+        'global-table': { files: ['src/server/**/*.{luau,lua}'] }
+      },
+      ignore: ['Packages/**']
+    }));
+
+    expect(engine.detect(CODE, 'src/server/Main.server.luau')).toMatchObject([
+      { line: 2, pattern: { name: 'global-variable', severity: 'error' } },
+      { line: 3, pattern: { name: 'global-table', severity: 'warning' } }
+    ]);
+    expect(engine.detect(CODE, 'src/legacy/Old.luau')).toEqual([]);
+    expect(engine.detect(CODE, 'src/client/Main.client.luau')).toMatchObject([{ line: 2, pattern: { name: 'global-variable', severity: 'error' } }]);
+    expect(engine.detect(CODE, 'Packages/_Index/pkg/init.luau')).toEqual([]);
+  });
+
+  it('should honour mcp-ignore comments on the same or the previous line', () => {
+    const engine = new RuleEngine(config({ rules: { 'instance-parent-nil': 'off' } }));
+    const code = [
+      'count = 0 -- mcp-ignore: global-variable',
+      '-- mcp-ignore: global-table, global-variable',
+      '_G.Shared = {}',
+      '-- _G dans un commentaire',
+      'total = 1',
+      '-- mcp-ignore',
+      '_G.Other = {}'
+    ].join('\n');
+
+    expect(engine.detect(code)).toMatchObject([{ line: 5, pattern: { name: 'global-variable', severity: 'warning' } }]);
+  });
+
+  it('should run custom regex and AST rules and report invalid configuration', () => {
+    const engine = new RuleEngine(config({
+      rules: { 'no-print': 'error', 'unknown-rule': 'off', 'global-variable': 'off', 'instance-parent-nil': 'off' },
+      custom: [
+        { name: 'no-print', description: 'print() oublié', pattern: '\\bprint\\s*\\(' },
+        { name: 'no-part', description: 'Utiliser le pool de Parts', ast: { call: 'Instance.new', argument: 'Part' } },
+        { name: 'no-destroy', description: 'Destroy direct', ast: { method: 'Destroy' }, files: ['src/client/**'] },
+        { name: 'camera', description: 'Caméra courante', ast: { member: 'workspace.CurrentCamera' }, severity: 'info' },
+        { name: 'broken', description: 'Regex invalide', pattern: '(' },
+        { name: 'global-table', description: 'Doublon', pattern: '_G' }
+      ]
+    }));
+    const code = [
+      'print("start")',
+      'local part = Instance.new("Part")',
+      'local model = Instance.new("Model")',
+      'workspace.CurrentCamera.CFrame = CFrame.new()',
+      'part:Destroy() print("done")'
+    ].join('\n');
+
+    expect(engine.detect(code, 'src/server/Main.server.luau')).toMatchObject([
+      { line: 1, pattern: { name: 'no-print', severity: 'error' } },
+      { line: 5, pattern: { name: 'no-print', severity: 'error' } },
+      { line: 2, pattern: { name: 'no-part', severity: 'warning' } },
+      { line: 4, pattern: { name: 'camera', severity: 'info' } }
+    ]);
+    expect(engine.detect(code, 'src/client/Main.client.luau').find(finding => finding.pattern.name === 'no-destroy')).toMatchObject({ line: 5, pattern: { severity: 'warning' } });
+    expect(engine.getConfigErrors()).toEqual([
+      expect.stringContaining('Règle personnalisée "broken": expression régulière invalide'),
+      'Règle personnalisée "global-table": nom déjà utilisé',
+      'Règle inconnue "unknown-rule" dans rules.json'
+    ]);
+  });
+
+  it('should report sections of the wrong type and keep the defaults', () => {
+    const engine = new RuleEngine({ rules: [], ignore: 'src/**', custom: {} } as unknown as RulesConfig);
+
+    expect(engine.getConfigErrors()).toEqual([
+      '"rules" doit être un objet (nom de règle → réglage), section ignorée',
+      '"ignore" doit être une liste de globs, section ignorée',
+      '"custom" doit être une liste de règles, section ignorée'
+    ]);
+    expect(engine.detect(CODE, 'src/server/Main.server.luau')).toEqual(new RuleEngine().detect(CODE));
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildScriptOutline } from '../script-outline.js';
+
+describe('buildScriptOutline', () => {
+  it('should list functions, methods, tables, types and exports with their lines', () => {
+    const code = [
+      'export type Item = { id: string }',
+      'local Shop = {}',
+      'local PRICES = { sword = 10, bow = 5 }',
+      '',
+      'local function getPrice(itemId)',
+      '\treturn PRICES[itemId]',
+      'end',
+      '',
+      'function Shop:buy(player, itemId, ...)',
+      '\tlocal function refund()',
+      '\t\tprint("refund")',
+      '\tend',
+      '\treturn getPrice(itemId)',
+      'end',
+      '',
+      'Shop.reset = function() end',
+      '',
+      'return Shop'
+    ].join('\n');
+
+    const outline = buildScriptOutline(code);
+    expect(outline.approximate).toBe(false);
+    expect(outline.lineCount).toBe(18);
+    expect(outline.symbols).toMatchObject([
+      { kind: 'type', name: 'Item', line: 1, endLine: 1, depth: 0, exported: true },
+      { kind: 'table', name: 'Shop', line: 2, endLine: 2, depth: 0, detail: '0 champ(s)', exported: true },
+      { kind: 'table', name: 'PRICES', line: 3, endLine: 3, depth: 0, detail: '2 champ(s)', exported: false },
+      { kind: 'function', name: 'getPrice', line: 5, endLine: 7, depth: 0, detail: '(itemId)', exported: false },
+      { kind: 'method', name: 'Shop:buy', line: 9, endLine: 14, depth: 0, detail: '(player, itemId, ...)', exported: true },
+      { kind: 'function', name: 'refund', line: 10, endLine: 12, depth: 1, detail: '()', exported: false },
+      { kind: 'function', name: 'Shop.reset', line: 16, endLine: 16, depth: 0, detail: '()', exported: true },
+      { kind: 'export', name: 'Shop', line: 18, endLine: 18, depth: 0, exported: true }
+    ]);
+  });
+
+  it('should fall back to function declarations when the script does not parse', () => {
+    const outline = buildScriptOutline('local function a(x: number)\nend\nfunction M.b(\n\tlocal function c() end');
+    expect(outline.approximate).toBe(true);
+    expect(outline.symbols).toMatchObject([
+      { kind: 'function', name: 'a', line: 1, endLine: 1, depth: 0, detail: '(x)', exported: false },
+      { kind: 'function', name: 'c', line: 4, endLine: 4, depth: 1, detail: '()', exported: false }
+    ]);
+  });
+});
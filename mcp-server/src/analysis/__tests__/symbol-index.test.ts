@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { RojoProjectTree } from '../../rojo/project-tree.js';
+import { SymbolIndex } from '../symbol-index.js';
+import { useRojoProject } from './rojo-project-fixture.js';
+
+const FILES: Record<string, string> = {
+  'src/shared/Shop.luau': [
+    'export type Item = { id: string, price: number }',
+    'local Shop = { currency = "Gems" }',
+    '',
+    'local function getPrice(itemId: string): number',
+    '\treturn 10',
+    'end',
+    '',
+    'function Shop:buy(player, itemId)',
+    '\treturn getPrice(itemId)',
+    'end',
+    '',
+    'Shop.reset = function() end',
+    '',
+    'return Shop'
+  ].join('\n'),
+  'src/server/Remotes.server.luau': [
+    'local remote = Instance.new("RemoteEvent")',
+    'remote.Name = "BuyItem"',
+    'remote.Parent = game:GetService("ReplicatedStorage")'
+  ].join('\n'),
+  'src/client/ShopClient.client.luau': [
+    'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+    'local Store = require(ReplicatedStorage.Shared.Shop)',
+    'local buyRemote = ReplicatedStorage:WaitForChild("BuyItem")',
+    '',
+    'local function onClick(item: Store.Item)',
+    '\tStore:buy(nil, item.id)',
+    '\tbuyRemote:FireServer(item.id, Store.currency)',
+    'end'
+  ].join('\n')
+};
+
+describe('SymbolIndex', () => {
+  const project = useRojoProject();
+  let tree: RojoProjectTree;
+
+  const contents = () => new Map(Object.entries(FILES));
+
+  beforeEach(async () => {
+    tree = await project.write(FILES);
+  });
+
+  it('should record local functions, module members, exported types and remotes', () => {
+    const index = SymbolIndex.build(tree, contents());
+
+    expect(index.listSymbols().map(symbol => `${symbol.file}:${symbol.line}:${symbol.kind}:${symbol.name}${symbol.exported ? ':exported' : ''}`)).toEqual([
+      'src/client/ShopClient.client.luau:5:function:onClick',
+      'src/server/Remotes.server.luau:2:remote:BuyItem:exported',
+      'src/shared/Shop.luau:1:type:Item:exported',
+      'src/shared/Shop.luau:2:member:Shop.currency:exported',
+      'src/shared/Shop.luau:4:function:getPrice',
+      'src/shared/Shop.luau:8:method:Shop:buy:exported',
+      'src/shared/Shop.luau:12:function:Shop.reset:exported'
+    ]);
+    expect(index.listSymbols({ kind: 'function', query: 'PRICE' }).map(symbol => symbol.name)).toEqual(['getPrice']);
+  });
+
+  it('should resolve members and types through require aliases', () => {
+    const index = SymbolIndex.build(tree, contents());
+    const client = { file: 'src/client/ShopClient.client.luau' };
+
+    expect(index.findDefinitions('Store:buy', client).map(symbol => `${symbol.file}:${symbol.line}`)).toEqual(['src/shared/Shop.luau:8']);
+    expect(index.findDefinitions('Store.Item', client).map(symbol => symbol.name)).toEqual(['Item']);
+    expect(index.findDefinitions('BuyItem', { ...client, line: 3 }).map(symbol => symbol.file)).toEqual(['src/server/Remotes.server.luau']);
+    // Sans contexte: nom complet, puis nom court
+    expect(index.findDefinitions('buy').map(symbol => symbol.name)).toEqual(['Shop:buy']);
+
+    const { references } = index.findReferences('Shop.currency');
+    expect(references.map(reference => `${reference.file}:${reference.line}:${reference.name}`)).toEqual([
+      'src/client/ShopClient.client.luau:7:Store.currency'
+    ]);
+    expect(index.findReferences('getPrice').references.map(reference => reference.line)).toEqual([9]);
+  });
+
+  it('should follow file updates and removals', () => {
+    const index = SymbolIndex.build(tree, contents());
+
+    index.updateFile('src/shared/Shop.luau', FILES['src/shared/Shop.luau'].replace('function Shop:buy', 'function Shop:purchase'));
+    expect(index.findDefinitions('Store:buy', { file: 'src/client/ShopClient.client.luau' })).toEqual([]);
+    expect(index.findDefinitions('purchase').map(symbol => symbol.name)).toEqual(['Shop:purchase']);
+
+    index.updateFile('src/shared/Broken.luau', 'local function (');
+    expect(index.getUnparsedFiles()).toEqual(['src/shared/Broken.luau']);
+
+    index.removeFile('src/server/Remotes.server.luau');
+    expect(index.listSymbols({ kind: 'remote' })).toEqual([]);
+    expect(index.findReferences('BuyItem').references.map(reference => reference.file)).toEqual(['src/client/ShopClient.client.luau']);
+  });
+});
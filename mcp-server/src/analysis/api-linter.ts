@@ -0,0 +1,338 @@
+/**
+ * Lint des usages de l'API Roblox: services, Instance.new et accès aux membres sont résolus
+ * sur les métadonnées de l'API (dump officiel si importé, sinon métadonnées intégrées)
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Expression, Identifier, Node } from '../parser/ast.js';
+import { Realm } from '../rojo/project-tree.js';
+import { ApiDumpIndex, ApiMember } from '../roblox-api/api-dump.js';
+import { BUILTIN_API_DUMP } from '../roblox-api/builtin-metadata.js';
+
+export type ApiLintRule =
+  | 'deprecated'       // membre, classe ou global déprécié
+  | 'security'         // API réservée aux plugins ou aux scripts Roblox
+  | 'client-only'      // API qui n'existe que côté client, utilisée dans un script serveur
+  | 'unknown-service'  // GetService sur un nom qui n'est pas un service
+  | 'unknown-class';   // Instance.new sur une classe inexistante
+
+export interface ApiLintFinding {
+  rule: ApiLintRule;
+  severity: 'error' | 'warning';
+  line: number;
+  column: number;
+  message: string;
+  // Remplacement suggéré
+  replacement?: string;
+}
+
+// Globals dépréciés et leur équivalent actuel
+const DEPRECATED_GLOBALS: Record<string, string> = {
+  wait: 'task.wait',
+  Wait: 'task.wait',
+  spawn: 'task.spawn',
+  Spawn: 'task.spawn',
+  delay: 'task.delay',
+  Delay: 'task.delay',
+  ypcall: 'pcall',
+  elapsedTime: 'os.clock',
+  ElapsedTime: 'os.clock',
+  Game: 'game',
+  Workspace: 'workspace'
+};
+
+// Globals qui désignent une instance
+const GLOBAL_INSTANCES: Record<string, string> = {
+  game: 'DataModel',
+  Game: 'DataModel',
+  workspace: 'Workspace',
+  Workspace: 'Workspace'
+};
+
+const SERVICE_METHODS = new Set(['GetService', 'FindService', 'service', 'getService']);
+
+const INPUT_HINT = "Lire l'input dans un LocalScript et l'envoyer au serveur par RemoteEvent";
+
+// Services et membres qui n'existent (ou ne fonctionnent) que côté client
+const CLIENT_ONLY_SERVICES: Record<string, string> = {
+  UserInputService: INPUT_HINT,
+  ContextActionService: INPUT_HINT,
+  HapticService: INPUT_HINT
+};
+
+const CLIENT_ONLY_MEMBERS: Record<string, string> = {
+  'Players.LocalPlayer': 'Côté serveur, utiliser le joueur fourni par Players.PlayerAdded ou RemoteEvent.OnServerEvent',
+  'RunService.RenderStepped': 'Utiliser RunService.Heartbeat côté serveur',
+  'RunService.BindToRenderStep': 'Utiliser RunService.Heartbeat:Connect côté serveur',
+  'RunService.UnbindFromRenderStep': 'Déconnecter la connexion Heartbeat côté serveur',
+  'Player.GetMouse': INPUT_HINT
+};
+
+let builtinIndex: ApiDumpIndex | null = null;
+
+function getBuiltinIndex(): ApiDumpIndex {
+  builtinIndex ??= new ApiDumpIndex(BUILTIN_API_DUMP);
+  return builtinIndex;
+}
+
+function securityHint(level: string): string {
+  return level.includes('Plugin')
+    ? 'Réservé aux plugins Studio: déplacer ce code dans un plugin'
+    : 'API interne à Roblox, sans équivalent pour les scripts de jeu';
+}
+
+export class ApiLinter {
+  private readonly index: ApiDumpIndex;
+  // Le dump officiel est complet: un service ou une classe absents n'existent pas
+  private readonly complete: boolean;
+
+  constructor(apiIndex?: ApiDumpIndex | null) {
+    this.index = apiIndex ?? getBuiltinIndex();
+    this.complete = !!apiIndex;
+  }
+
+  /**
+   * Analyse un script; `realm` active la détection des API client dans les scripts serveur
+   */
+  lint(content: string, realm: Realm = 'shared'): ApiLintFinding[] {
+    const analysis = analyzeLuauSyntax(content);
+    if (!analysis.ast) return [];
+
+    // Classe connue des variables locales (undefined = variable locale de type inconnu)
+    const locals = new Map<string, string | undefined>();
+    const findings: ApiLintFinding[] = [];
+    const reported = new Set<string>();
+
+    const report = (finding: Omit<ApiLintFinding, 'line' | 'column'>, at: Identifier | Node) => {
+      const key = `${finding.rule}:${at.loc.start.line}:${at.loc.start.column}`;
+      if (reported.has(key)) return;
+      reported.add(key);
+      findings.push({ ...finding, line: at.loc.start.line, column: at.loc.start.column });
+    };
+
+    const isGlobal = (name: string) => !locals.has(name);
+
+    const evaluate = (expression: Expression): string | undefined => {
+      switch (expression.kind) {
+        case 'Identifier':
+          return isGlobal(expression.name) ? GLOBAL_INSTANCES[expression.name] : locals.get(expression.name);
+        case 'ParenthesizedExpression':
+        case 'TypeAssertion':
+          return evaluate(expression.expression);
+        case 'MemberExpression': {
+          const owner = evaluate(expression.object);
+          if (!owner) return undefined;
+          const member = this.index.findMember(owner, expression.property.name, true);
+          if (member) return member.memberType === 'Property' ? member.valueClass : undefined;
+          // game.Players: les services sont aussi des enfants du DataModel
+          return owner === 'DataModel' ? this.serviceName(expression.property.name) : undefined;
+        }
+        case 'MethodCallExpression': {
+          const owner = evaluate(expression.object);
+          if (!owner) return undefined;
+          const serviceArgument = this.serviceArgument(owner, expression.method.name, expression.arguments);
+          if (serviceArgument) return this.index.getClass(serviceArgument)?.name ?? (this.complete ? undefined : serviceArgument);
+          const member = this.index.findMember(owner, expression.method.name, true);
+          return member?.memberType === 'Function' ? member.valueClass : undefined;
+        }
+        case 'CallExpression':
+          return this.instanceNewClass(expression.callee, expression.arguments, isGlobal);
+        default:
+          return undefined;
+      }
+    };
+
+    const checkMember = (member: ApiMember, at: Identifier, access: 'read' | 'write') => {
+      const fullName = `${member.className}.${member.name}`;
+
+      if (member.deprecated) {
+        report({
+          rule: 'deprecated',
+          severity: 'warning',
+          message: `${fullName} est déprécié`,
+          replacement: member.preferred ? `Utiliser ${member.preferred}` : undefined
+        }, at);
+      }
+
+      const level = access === 'write' ? member.security.write : member.security.read;
+      if (level !== 'None') {
+        report({
+          rule: 'security',
+          severity: 'error',
+          message: `${fullName} requiert ${level}: inaccessible depuis un script de jeu`,
+          replacement: securityHint(level)
+        }, at);
+      }
+
+      const clientHint = CLIENT_ONLY_MEMBERS[fullName];
+      if (clientHint && realm === 'server') {
+        report({
+          rule: 'client-only',
+          severity: 'error',
+          message: `${fullName} n'est disponible que côté client`,
+          replacement: clientHint
+        }, at);
+      }
+    };
+
+    const checkService = (name: string, at: Node) => {
+      const apiClass = this.index.getClass(name);
+      if (this.complete && !apiClass?.service) {
+        report({
+          rule: 'unknown-service',
+          severity: 'error',
+          message: `"${name}" n'est pas un service Roblox: GetService échouera`,
+          replacement: apiClass ? `Créer l'instance avec Instance.new("${apiClass.name}")` : undefined
+        }, at);
+      }
+      const clientHint = CLIENT_ONLY_SERVICES[apiClass?.name ?? name];
+      if (clientHint && realm === 'server') {
+        report({
+          rule: 'client-only',
+          severity: 'error',
+          message: `${apiClass?.name ?? name} n'est disponible que côté client`,
+          replacement: clientHint
+        }, at);
+      }
+    };
+
+    const checkDeprecatedGlobal = (expression: Expression) => {
+      if (expression.kind !== 'Identifier' || !isGlobal(expression.name)) return;
+      const replacement = DEPRECATED_GLOBALS[expression.name];
+      if (replacement) {
+        report({ rule: 'deprecated', severity: 'warning', message: `${expression.name} est déprécié`, replacement: `Utiliser ${replacement}` }, expression);
+      }
+    };
+
+    walkAst(analysis.ast, (node: Node, parents: Node[]) => {
+      switch (node.kind) {
+        case 'LocalStatement':
+          node.variables.forEach((variable, index) => {
+            const value = node.values[index];
+            locals.set(variable.name.name, value ? evaluate(value) : undefined);
+          });
+          return;
+
+        case 'LocalFunctionStatement':
+          locals.set(node.name.name, undefined);
+          return;
+
+        case 'FunctionExpression':
+          node.parameters.forEach(parameter => locals.set(parameter.name.name, undefined));
+          return;
+
+        case 'NumericForStatement':
+          locals.set(node.variable.name.name, undefined);
+          return;
+
+        case 'GenericForStatement':
+          node.variables.forEach(variable => locals.set(variable.name.name, undefined));
+          return;
+
+        case 'AssignmentStatement':
+          node.targets.forEach((target, index) => {
+            if (target.kind === 'Identifier' && locals.has(target.name)) {
+              const value = node.values[index];
+              locals.set(target.name, value ? evaluate(value) : undefined);
+            }
+          });
+          return;
+
+        case 'CallExpression': {
+          if (node.callee.kind === 'Identifier' && DEPRECATED_GLOBALS[node.callee.name] && !GLOBAL_INSTANCES[node.callee.name]) {
+            checkDeprecatedGlobal(node.callee);
+          }
+
+          const className = this.instanceNewClass(node.callee, node.arguments, isGlobal);
+          if (!className) return;
+          const apiClass = this.index.getClass(className);
+          if (apiClass?.deprecated) {
+            report({
+              rule: 'deprecated',
+              severity: 'warning',
+              message: `La classe ${apiClass.name} est dépréciée`,
+              replacement: apiClass.preferred ? `Utiliser ${apiClass.preferred}` : undefined
+            }, node.arguments[0]);
+          } else if (!apiClass && this.complete) {
+            report({ rule: 'unknown-class', severity: 'error', message: `Classe inconnue: Instance.new("${className}") échouera` }, node.arguments[0]);
+          }
+          return;
+        }
+
+        case 'MethodCallExpression': {
+          checkDeprecatedGlobal(node.object);
+          const owner = evaluate(node.object);
+          if (!owner) return;
+
+          const serviceArgument = this.serviceArgument(owner, node.method.name, node.arguments);
+          if (serviceArgument) checkService(serviceArgument, node.arguments[0]);
+
+          const member = this.index.findMember(owner, node.method.name, true);
+          if (member) checkMember(member, node.method, 'read');
+          return;
+        }
+
+        case 'MemberExpression': {
+          checkDeprecatedGlobal(node.object);
+          const owner = evaluate(node.object);
+          if (!owner) return;
+
+          const member = this.index.findMember(owner, node.property.name, true);
+          if (member) {
+            const parent = parents[0];
+            const written = parent?.kind === 'AssignmentStatement' && parent.targets.includes(node);
+            checkMember(member, node.property, written ? 'write' : 'read');
+          } else if (owner === 'DataModel' && this.serviceName(node.property.name)) {
+            checkService(node.property.name, node.property);
+          }
+          return;
+        }
+      }
+    });
+
+    return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  private serviceName(name: string): string | undefined {
+    const apiClass = this.index.getClass(name);
+    return apiClass?.service ? apiClass.name : undefined;
+  }
+
+  // game:GetService("Players") → "Players"
+  private serviceArgument(owner: string, method: string, args: Expression[]): string | undefined {
+    if (!SERVICE_METHODS.has(method) || args[0]?.kind !== 'StringLiteral') return undefined;
+    const isProvider = this.index.getInheritanceChain(owner).some(apiClass => apiClass.name === 'ServiceProvider');
+    return isProvider ? args[0].value : undefined;
+  }
+
+  // Instance.new("Part") → "Part"
+  private instanceNewClass(callee: Expression, args: Expression[], isGlobal: (name: string) => boolean): string | undefined {
+    if (callee.kind !== 'MemberExpression' || callee.property.name !== 'new') return undefined;
+    if (callee.object.kind !== 'Identifier' || callee.object.name !== 'Instance' || !isGlobal('Instance')) return undefined;
+    return args[0]?.kind === 'StringLiteral' ? args[0].value : undefined;
+  }
+}
+
+/**
+ * Formate un résultat du lint de façon homogène entre les outils
+ */
+export function formatApiLintFinding(finding: ApiLintFinding): string {
+  return `Ligne ${finding.line}: ${finding.message}${finding.replacement ? ` → ${finding.replacement}` : ''}`;
+}
+
+/**
+ * Section de rapport pour le lint d'API, avec le remplacement suggéré pour chaque usage
+ */
+export function formatApiFindings(findings: ApiLintFinding[], realm: Realm, hasApiDump: boolean): string {
+  if (findings.length === 0) return '';
+
+  let text = `\n### 🧩 **Usages de l'API Roblox** (script ${realm})\n`;
+  findings.forEach(finding => {
+    text += `- ${finding.severity === 'error' ? '🔴' : '🟡'} ${formatApiLintFinding(finding)}\n`;
+  });
+  if (!hasApiDump) {
+    text += `\n💡 Métadonnées intégrées uniquement: importez l'API dump (\`import_api_dump\`) pour vérifier toutes les classes et tous les membres\n`;
+  }
+  return text;
+}
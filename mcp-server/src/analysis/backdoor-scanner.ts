@@ -0,0 +1,430 @@
+/**
+ * Détection de code malveillant dans les scripts importés (free models, packages Wally):
+ * chaînes obfusquées, require d'un asset par ID, exécution de code dynamique, achats
+ * déclenchés sans action du joueur et commandes d'administration à distance.
+ * Chaque fichier reçoit un score de risque de 0 à 100.
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Expression, FunctionExpression, Node } from '../parser/ast.js';
+import { RojoInstance, RojoProjectTree } from '../rojo/project-tree.js';
+
+export type BackdoorRule =
+  | 'obfuscated-string'   // longues séquences d'échappement
+  | 'string-char'         // chaîne construite par string.char
+  | 'base64-blob'         // blob encodé en base64
+  | 'obfuscated-code'     // lignes minifiées, identifiants IlIlIl
+  | 'asset-require'       // require(123456): module publié, hors du projet
+  | 'hidden-require'      // ID d'asset calculé ou caché derrière une variable
+  | 'loadstring'          // exécution de code dynamique
+  | 'loadstring-enabled'  // ServerScriptService.LoadStringEnabled
+  | 'remote-code'         // code téléchargé puis exécuté
+  | 'env-manipulation'    // getfenv / setfenv
+  | 'http-request'        // requête HTTP sortante
+  | 'hidden-prompt'       // achat proposé sans action du joueur
+  | 'remote-admin';       // commandes à distance réservées à des comptes codés en dur
+
+export type BackdoorSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export type RiskLevel = 'none' | BackdoorSeverity;
+
+export interface BackdoorFinding {
+  rule: BackdoorRule;
+  severity: BackdoorSeverity;
+  line: number;
+  message: string;
+  // Ligne concernée, tronquée
+  evidence?: string;
+}
+
+export interface BackdoorScan {
+  findings: BackdoorFinding[];
+  // 0 à 100
+  score: number;
+  level: RiskLevel;
+}
+
+export interface BackdoorScanOptions {
+  // Package ou modèle importé: tout achat proposé y est suspect
+  thirdParty?: boolean;
+}
+
+export const SEVERITY_WEIGHTS: Record<BackdoorSeverity, number> = {
+  critical: 50,
+  high: 30,
+  medium: 15,
+  low: 5
+};
+
+const LEVEL_ORDER: RiskLevel[] = ['none', 'low', 'medium', 'high', 'critical'];
+
+// Seuils de score, du plus élevé au plus bas
+const SCORE_LEVELS: [number, RiskLevel][] = [[70, 'critical'], [40, 'high'], [15, 'medium'], [1, 'low']];
+
+const MIN_ESCAPES = 10;
+const MIN_STRING_CHAR_ARGUMENTS = 5;
+const BASE64_BLOB = /^[A-Za-z0-9+/]{60,}={0,2}$/;
+const ESCAPE_SEQUENCE = /\\(\d{1,3}|x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\})/g;
+const CONFUSABLE_IDENTIFIER = /^[Il1_]{6,}$/;
+const MAX_LINE_LENGTH = 500;
+const EVIDENCE_LENGTH = 80;
+
+const PROMPT_METHOD = /^Prompt\w*Purchase$/;
+const CONNECT_METHODS = new Set(['Connect', 'Once', 'ConnectParallel']);
+const HTTP_METHODS = new Set(['GetAsync', 'PostAsync', 'RequestAsync', 'HttpGet', 'HttpGetAsync']);
+const CODE_EXECUTION = new Set(['loadstring', 'getfenv', 'setfenv']);
+const DESTRUCTIVE_METHODS = new Set(['Kick', 'Destroy', 'ClearAllChildren', 'BreakJoints', 'SetAsync', 'RemoveAsync', 'BanAsync', 'Teleport']);
+const COMMAND_PARSING = new Set(['sub', 'split', 'match', 'gmatch', 'find', 'lower']);
+// Événements sans action du joueur: un achat proposé ici est imposé
+const AUTOMATIC_EVENTS = new Set(['PlayerAdded', 'CharacterAdded', 'Heartbeat', 'Stepped', 'RenderStepped', 'ChildAdded']);
+const SCHEDULERS = new Set(['task.spawn', 'task.delay', 'task.defer', 'spawn', 'delay', 'coroutine.wrap']);
+const REMOTE_EVENTS = new Set(['OnServerEvent', 'Chatted']);
+// Les UserId des comptes récents dépassent largement ce seuil
+const MIN_HARDCODED_USER_ID = 1000;
+
+const THIRD_PARTY_PATH = /(^|\/)(Packages|ServerPackages|DevPackages|_Index|FreeModels?)\//;
+
+/**
+ * Fichier d'un package Wally ou d'un modèle importé
+ */
+export function isThirdPartyPath(filePath: string): boolean {
+  return THIRD_PARTY_PATH.test(filePath.split('\\').join('/'));
+}
+
+export function scanForBackdoors(content: string, options: BackdoorScanOptions = {}): BackdoorScan {
+  const lines = content.split('\n');
+  const findings: BackdoorFinding[] = [];
+  const reported = new Set<string>();
+
+  const report = (rule: BackdoorRule, severity: BackdoorSeverity, line: number, message: string) => {
+    const key = `${rule}:${line}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    const evidence = lines[line - 1]?.trim();
+    findings.push({
+      rule,
+      severity,
+      line,
+      message,
+      evidence: evidence && evidence.length > EVIDENCE_LENGTH ? `${evidence.slice(0, EVIDENCE_LENGTH)}…` : evidence
+    });
+  };
+
+  lines.forEach((line, index) => {
+    if (line.length > MAX_LINE_LENGTH) {
+      report('obfuscated-code', 'low', index + 1, `Ligne de ${line.length} caractères (code minifié ou généré)`);
+    }
+  });
+
+  const analysis = analyzeLuauSyntax(content);
+  if (analysis.ast) {
+    scanAst(content, analysis.ast, options, report);
+  } else {
+    // Code non analysable (souvent volontairement): recherche textuelle des motifs les plus graves
+    lines.forEach((line, index) => {
+      if (/\brequire\s*\(\s*\d+\s*\)/.test(line)) report('asset-require', 'high', index + 1, 'require d\'un module publié par son ID d\'asset');
+      if (/\bloadstring\s*\(/.test(line)) report('loadstring', 'high', index + 1, 'Exécution de code dynamique (loadstring)');
+      if (/\b[gs]etfenv\b/.test(line)) report('env-manipulation', 'high', index + 1, 'Manipulation d\'environnement (getfenv/setfenv)');
+      if ((line.match(ESCAPE_SEQUENCE) ?? []).length >= MIN_ESCAPES) report('obfuscated-string', 'medium', index + 1, 'Chaîne obfusquée par séquences d\'échappement');
+    });
+  }
+
+  findings.sort((a, b) => a.line - b.line);
+  const score = Math.min(100, findings.reduce((total, finding) => total + SEVERITY_WEIGHTS[finding.severity], 0));
+  return { findings, score, level: riskLevel(score, findings) };
+}
+
+/**
+ * Réglages du projet Rojo qui ouvrent la porte au code dynamique
+ */
+export function scanProjectSettings(tree: RojoProjectTree): BackdoorFinding[] {
+  const findings: BackdoorFinding[] = [];
+  const visit = (instance: RojoInstance) => {
+    if (instance.className === 'ServerScriptService' && instance.properties?.LoadStringEnabled === true) {
+      findings.push({
+        rule: 'loadstring-enabled',
+        severity: 'critical',
+        line: 1,
+        message: `LoadStringEnabled activé sur ${RojoProjectTree.fullName(instance)}: loadstring peut exécuter du code reçu`
+      });
+    }
+    instance.children.forEach(visit);
+  };
+  visit(tree.getRoot());
+  return findings;
+}
+
+function riskLevel(score: number, findings: BackdoorFinding[]): RiskLevel {
+  const fromScore = SCORE_LEVELS.find(([threshold]) => score >= threshold)?.[1] ?? 'none';
+  const worst = findings.reduce<RiskLevel>((level, finding) =>
+    LEVEL_ORDER.indexOf(finding.severity) > LEVEL_ORDER.indexOf(level) ? finding.severity : level, 'none');
+  return LEVEL_ORDER.indexOf(worst) > LEVEL_ORDER.indexOf(fromScore) ? worst : fromScore;
+}
+
+function scanAst(
+  content: string,
+  ast: Node,
+  options: BackdoorScanOptions,
+  report: (rule: BackdoorRule, severity: BackdoorSeverity, line: number, message: string) => void
+): void {
+  // Variables locales qui contiennent un nombre (ID d'asset potentiel), require ou une réponse HTTP
+  const numericLocals = new Set<string>();
+  const requireAliases = new Set<string>(['require']);
+  const httpLocals = new Set<string>();
+  let confusableReported = false;
+
+  const isNumeric = (expression: Expression): boolean => {
+    switch (expression.kind) {
+      case 'NumberLiteral':
+        return true;
+      case 'Identifier':
+        return numericLocals.has(expression.name);
+      case 'ParenthesizedExpression':
+        return isNumeric(expression.expression);
+      case 'UnaryExpression':
+        return expression.operator === '-' && isNumeric(expression.argument);
+      case 'BinaryExpression':
+        return ['+', '-', '*', '/', '//', '%', '^'].includes(expression.operator) && isNumeric(expression.left) && isNumeric(expression.right);
+      case 'IndexExpression':
+        return expression.object.kind === 'Identifier' && numericLocals.has(expression.object.name);
+      case 'CallExpression': {
+        const name = calleeName(expression.callee);
+        return name === 'tonumber' || !!name?.startsWith('math.');
+      }
+      case 'TableConstructor':
+        return expression.fields.length > 0 && expression.fields.every(field => isNumeric(field.value));
+      default:
+        return false;
+    }
+  };
+
+  const readsHttp = (expression: Node): boolean => {
+    let found = false;
+    walkAst(expression, node => {
+      if (node.kind === 'MethodCallExpression' && HTTP_METHODS.has(node.method.name)) found = true;
+      if (node.kind === 'Identifier' && httpLocals.has(node.name)) found = true;
+    });
+    return found;
+  };
+
+  walkAst(ast, (node, parents) => {
+    const line = node.loc.start.line;
+
+    switch (node.kind) {
+      case 'LocalStatement':
+        node.variables.forEach((variable, index) => {
+          const value = node.values[index];
+          if (!value) return;
+          if (isNumeric(value)) numericLocals.add(variable.name.name);
+          if (value.kind === 'Identifier' && requireAliases.has(value.name)) requireAliases.add(variable.name.name);
+          if (readsHttp(value)) httpLocals.add(variable.name.name);
+        });
+        break;
+
+      case 'Identifier':
+        if (!confusableReported && CONFUSABLE_IDENTIFIER.test(node.name)) {
+          confusableReported = true;
+          report('obfuscated-code', 'medium', line, `Identifiant illisible "${node.name}" (typique des obfuscateurs)`);
+        }
+        break;
+
+      case 'StringLiteral': {
+        const raw = content.slice(node.loc.start.offset, node.loc.end.offset);
+        const escapes = (raw.match(ESCAPE_SEQUENCE) ?? []).length;
+        if (escapes >= MIN_ESCAPES) {
+          report('obfuscated-string', 'medium', line, `Chaîne obfusquée: ${escapes} séquences d'échappement`);
+        }
+        if (BASE64_BLOB.test(node.value) && /[A-Z]/.test(node.value) && /[a-z]/.test(node.value) && /\d/.test(node.value)) {
+          report('base64-blob', 'medium', line, `Blob base64 de ${node.value.length} caractères`);
+        }
+        break;
+      }
+
+      case 'CallExpression': {
+        const name = calleeName(node.callee);
+        if (name === 'string.char') {
+          const unpacked = node.arguments.some(argument => argument.kind === 'CallExpression' && /unpack$/.test(calleeName(argument.callee) ?? ''));
+          if (unpacked || (node.arguments.length >= MIN_STRING_CHAR_ARGUMENTS && node.arguments.every(isNumeric))) {
+            report('string-char', 'medium', line, 'Chaîne reconstruite par string.char (texte caché)');
+          }
+        }
+
+        const argument = node.arguments[0];
+        if (name && requireAliases.has(name) && argument && isNumeric(argument)) {
+          if (argument.kind === 'NumberLiteral' && name === 'require') {
+            report('asset-require', 'high', line, `require d'un module publié par son ID d'asset (${argument.raw}): son code n'est pas dans le projet`);
+          } else {
+            report('hidden-require', 'critical', line, 'require d\'un ID d\'asset caché derrière une variable, un alias ou un calcul');
+          }
+        }
+
+        if (name === 'loadstring') {
+          if (node.arguments.some(readsHttp)) {
+            report('remote-code', 'critical', line, 'Code téléchargé par HTTP puis exécuté par loadstring');
+          } else {
+            report('loadstring', 'high', line, 'Exécution de code dynamique (loadstring)');
+          }
+        }
+        if (name === 'getfenv' || name === 'setfenv') {
+          report('env-manipulation', 'high', line, `Manipulation d'environnement (${name})`);
+        }
+        break;
+      }
+
+      case 'MemberExpression':
+        if (node.property.name === 'LoadStringEnabled') {
+          const assigned = parents[0]?.kind === 'AssignmentStatement' && parents[0].targets.includes(node);
+          report('loadstring-enabled', assigned ? 'critical' : 'high', line,
+            assigned ? 'Activation de ServerScriptService.LoadStringEnabled' : 'Lecture de ServerScriptService.LoadStringEnabled');
+        }
+        break;
+
+      case 'MethodCallExpression':
+        if (HTTP_METHODS.has(node.method.name)) {
+          report('http-request', 'low', line, `Requête HTTP sortante (${node.method.name})`);
+        }
+        if (PROMPT_METHOD.test(node.method.name)) {
+          const trigger = automaticTrigger(parents);
+          if (trigger || options.thirdParty) {
+            report('hidden-prompt', 'high', line, trigger
+              ? `${node.method.name} déclenché sans action du joueur (${trigger})`
+              : `${node.method.name} dans un package ou modèle importé`);
+          }
+        }
+        if (CONNECT_METHODS.has(node.method.name) && node.object.kind === 'MemberExpression' && REMOTE_EVENTS.has(node.object.property.name)) {
+          const handler = node.arguments[0];
+          if (handler?.kind === 'FunctionExpression') scanRemoteHandler(handler, node.object.property.name, report);
+        }
+        break;
+
+      case 'AssignmentStatement':
+        node.targets.forEach((target, index) => {
+          const value = node.values[index];
+          if (target.kind === 'MemberExpression' && target.property.name === 'OnServerInvoke' && value?.kind === 'FunctionExpression') {
+            scanRemoteHandler(value, 'OnServerInvoke', report);
+          }
+        });
+        break;
+    }
+  });
+}
+
+/**
+ * Handler de remote ou de chat: exécution de code reçu, ou actions destructrices réservées
+ * à des UserId codés en dur ou déclenchées par des commandes de chat.
+ * Les paramètres envoyés par le client, et les valeurs qui en dérivent, sont suivis:
+ * require(id) sur l'un d'eux charge un module choisi par le client.
+ */
+function scanRemoteHandler(
+  handler: FunctionExpression,
+  event: string,
+  report: (rule: BackdoorRule, severity: BackdoorSeverity, line: number, message: string) => void
+): void {
+  let executesCode = false;
+  let hardcodedUserId = false;
+  let parsesCommand = false;
+  let destructive = false;
+
+  // Le joueur d'OnServerEvent/OnServerInvoke est fourni par le moteur, le message de Chatted vient du client
+  const parameters = handler.parameters.map(parameter => parameter.name.name);
+  const tainted = new Set(event === 'Chatted' ? parameters : parameters.slice(1));
+  const isTainted = (expression: Node): boolean => {
+    let found = false;
+    walkAst(expression, (node, parents) => {
+      const parent = parents[0];
+      // Le nom d'un champ ou d'une méthode n'est pas une variable
+      if ((parent?.kind === 'MemberExpression' && parent.property === node) || (parent?.kind === 'MethodCallExpression' && parent.method === node)) return;
+      if (node.kind === 'Identifier' && tainted.has(node.name)) found = true;
+    });
+    return found;
+  };
+  // Une valeur manquante reçoit le dernier retour d'un appel: local a, b = f(id)
+  const propagate = (names: (string | undefined)[], values: Expression[]) => {
+    names.forEach((name, index) => {
+      const value = values[Math.min(index, values.length - 1)];
+      if (name && value && isTainted(value)) tainted.add(name);
+    });
+  };
+
+  for (const statement of handler.body) {
+    walkAst(statement, node => {
+      if (node.kind === 'LocalStatement') {
+        propagate(node.variables.map(variable => variable.name.name), node.values);
+      }
+      if (node.kind === 'AssignmentStatement') {
+        propagate(node.targets.map(target => target.kind === 'Identifier' ? target.name : undefined), node.values);
+      }
+      if (node.kind === 'CallExpression') {
+        const name = calleeName(node.callee);
+        const argument = node.arguments[0];
+        if (name && CODE_EXECUTION.has(name)) executesCode = true;
+        if (name === 'require' && argument && isTainted(argument)) {
+          executesCode = true;
+          report('hidden-require', 'critical', node.loc.start.line, `require d'une valeur envoyée par le client (${event}): le client choisit le module chargé`);
+        } else if (name === 'require' && argument && argument.kind !== 'StringLiteral' && !isInstancePath(argument)) {
+          executesCode = true;
+        }
+        if (name === 'table.find' && node.arguments.some(argument => argument.kind === 'MemberExpression' && argument.property.name === 'UserId')) hardcodedUserId = true;
+      }
+      if (node.kind === 'MethodCallExpression') {
+        if (DESTRUCTIVE_METHODS.has(node.method.name)) destructive = true;
+        if (COMMAND_PARSING.has(node.method.name)) parsesCommand = true;
+      }
+      if (node.kind === 'BinaryExpression' && (node.operator === '==' || node.operator === '~=')) {
+        const sides = [node.left, node.right];
+        if (sides.some(side => side.kind === 'MemberExpression' && side.property.name === 'UserId') &&
+            sides.some(side => side.kind === 'NumberLiteral' && Number(side.raw) >= MIN_HARDCODED_USER_ID)) {
+          hardcodedUserId = true;
+        }
+      }
+    });
+  }
+
+  const line = handler.loc.start.line;
+  if (executesCode) {
+    report('remote-admin', 'critical', line, `Handler ${event} qui exécute du code (loadstring, require dynamique, getfenv/setfenv)`);
+  } else if (destructive && (hardcodedUserId || (event === 'Chatted' && parsesCommand))) {
+    report('remote-admin', 'high', line, hardcodedUserId
+      ? `Handler ${event} réservé à des UserId codés en dur qui expulse ou détruit (commande d'admin cachée)`
+      : 'Commandes de chat qui expulsent ou détruisent (commande d\'admin cachée)');
+  }
+}
+
+/**
+ * Premier ancêtre qui déclenche le code sans action du joueur
+ */
+function automaticTrigger(parents: Node[]): string | undefined {
+  for (let index = 0; index < parents.length; index++) {
+    const parent = parents[index];
+    if (parent.kind === 'WhileStatement' || parent.kind === 'RepeatStatement' ||
+        parent.kind === 'NumericForStatement' || parent.kind === 'GenericForStatement') {
+      return 'boucle';
+    }
+    if (parent.kind !== 'FunctionExpression') continue;
+
+    const call = parents[index + 1];
+    if (call?.kind === 'MethodCallExpression' && CONNECT_METHODS.has(call.method.name) &&
+        call.object.kind === 'MemberExpression' && AUTOMATIC_EVENTS.has(call.object.property.name)) {
+      return call.object.property.name;
+    }
+    if (call?.kind === 'CallExpression' && SCHEDULERS.has(calleeName(call.callee) ?? '')) {
+      return calleeName(call.callee);
+    }
+  }
+  return undefined;
+}
+
+function isInstancePath(expression: Expression): boolean {
+  return expression.kind === 'Identifier' || expression.kind === 'MemberExpression' ||
+    expression.kind === 'IndexExpression' || expression.kind === 'MethodCallExpression';
+}
+
+function calleeName(expression: Expression): string | undefined {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind === 'MemberExpression') {
+    const object = calleeName(expression.object);
+    return object ? `${object}.${expression.property.name}` : undefined;
+  }
+  return undefined;
+}
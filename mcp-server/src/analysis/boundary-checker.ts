@@ -0,0 +1,252 @@
+/**
+ * Frontière client/serveur: combine le contexte d'exécution des scripts (résolu via l'arbre Rojo)
+ * et le graphe des require pour signaler le code qui s'exécute du mauvais côté de la réplication,
+ * y compris à travers les modules partagés
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Chunk, Node, Statement } from '../parser/ast.js';
+import { Realm } from '../rojo/project-tree.js';
+import { DependencyGraph } from './dependency-graph.js';
+
+export type ExecutionRealm = Exclude<Realm, 'shared'>;
+
+export interface RealmBoundUsage {
+  // API utilisée, ex: Players.LocalPlayer, GetService("ServerStorage")
+  api: string;
+  // Seul contexte où l'API existe ou fonctionne
+  realm: ExecutionRealm;
+  line: number;
+  hint: string;
+}
+
+export type BoundaryViolationType =
+  | 'wrong-realm-api'     // API client dans du code serveur, ou l'inverse
+  | 'server-module';      // module serveur, non répliqué, requis par du code client
+
+export interface BoundaryViolation {
+  type: BoundaryViolationType;
+  // Script dont le contexte est violé
+  file: string;
+  // Ligne de l'usage, ou du premier require de la chaîne
+  line: number;
+  realm: ExecutionRealm;
+  // Fichiers du script jusqu'au module fautif inclus (un seul élément pour un usage direct)
+  chain: string[];
+  usage?: RealmBoundUsage;
+  message: string;
+}
+
+const INPUT_HINT = "Lire l'input dans un LocalScript et l'envoyer au serveur par RemoteEvent";
+const SERVER_HINT = 'Garder ce code dans ServerScriptService et exposer le résultat au client par RemoteEvent/RemoteFunction';
+
+const REALM_SERVICES: Record<string, { realm: ExecutionRealm; hint: string }> = {
+  UserInputService: { realm: 'client', hint: INPUT_HINT },
+  ContextActionService: { realm: 'client', hint: INPUT_HINT },
+  HapticService: { realm: 'client', hint: INPUT_HINT },
+  ServerScriptService: { realm: 'server', hint: "Le contenu de ServerScriptService n'est pas répliqué vers le client" },
+  ServerStorage: { realm: 'server', hint: "Le contenu de ServerStorage n'est pas répliqué vers le client: utiliser ReplicatedStorage" },
+  DataStoreService: { realm: 'server', hint: SERVER_HINT },
+  MessagingService: { realm: 'server', hint: SERVER_HINT },
+  MemoryStoreService: { realm: 'server', hint: SERVER_HINT }
+};
+
+// Membres reconnus par leur nom, quel que soit l'objet
+const REALM_MEMBERS: Record<string, { realm: ExecutionRealm; api: string; hint: string }> = {
+  LocalPlayer: { realm: 'client', api: 'Players.LocalPlayer', hint: 'Côté serveur, utiliser le joueur fourni par Players.PlayerAdded ou RemoteEvent.OnServerEvent' },
+  PlayerGui: { realm: 'client', api: 'Player.PlayerGui', hint: "L'interface appartient au client: la piloter depuis un LocalScript" },
+  RenderStepped: { realm: 'client', api: 'RunService.RenderStepped', hint: 'Utiliser RunService.Heartbeat côté serveur' },
+  BindToRenderStep: { realm: 'client', api: 'RunService:BindToRenderStep', hint: 'Utiliser RunService.Heartbeat:Connect côté serveur' },
+  GetMouse: { realm: 'client', api: 'Player:GetMouse', hint: INPUT_HINT },
+  FireServer: { realm: 'client', api: 'RemoteEvent:FireServer', hint: 'Côté serveur, utiliser FireClient ou FireAllClients' },
+  InvokeServer: { realm: 'client', api: 'RemoteFunction:InvokeServer', hint: 'Côté serveur, utiliser InvokeClient' },
+  OnClientEvent: { realm: 'client', api: 'RemoteEvent.OnClientEvent', hint: 'Côté serveur, écouter OnServerEvent' },
+  OnClientInvoke: { realm: 'client', api: 'RemoteFunction.OnClientInvoke', hint: 'Côté serveur, définir OnServerInvoke' },
+  FireClient: { realm: 'server', api: 'RemoteEvent:FireClient', hint: 'Côté client, utiliser FireServer' },
+  FireAllClients: { realm: 'server', api: 'RemoteEvent:FireAllClients', hint: 'Côté client, utiliser FireServer' },
+  InvokeClient: { realm: 'server', api: 'RemoteFunction:InvokeClient', hint: 'Côté client, utiliser InvokeServer' },
+  OnServerEvent: { realm: 'server', api: 'RemoteEvent.OnServerEvent', hint: 'Côté client, écouter OnClientEvent' },
+  OnServerInvoke: { realm: 'server', api: 'RemoteFunction.OnServerInvoke', hint: 'Côté client, définir OnClientInvoke' }
+};
+
+const SERVICE_METHODS = new Set(['GetService', 'FindService']);
+const CHILD_LOOKUP_METHODS = new Set(['WaitForChild', 'FindFirstChild']);
+const REALM_CHECKS = new Set(['IsClient', 'IsServer']);
+
+const REALM_LABELS: Record<ExecutionRealm, string> = {
+  client: 'client',
+  server: 'serveur'
+};
+
+/**
+ * Usages d'API liées à un seul contexte. Le code protégé par RunService:IsClient()/IsServer()
+ * (dans le if, ou après un retour anticipé au niveau du module) est ignoré.
+ */
+export function findRealmBoundUsages(content: string): RealmBoundUsage[] {
+  const analysis = analyzeLuauSyntax(content);
+  if (!analysis.ast) return [];
+
+  const guardedFrom = findEarlyRealmReturn(analysis.ast);
+  const usages: RealmBoundUsage[] = [];
+  const seen = new Set<string>();
+
+  const report = (api: string, realm: ExecutionRealm, hint: string, at: Node) => {
+    const line = at.loc.start.line;
+    const key = `${api}:${line}`;
+    if (seen.has(key) || line >= guardedFrom) return;
+    seen.add(key);
+    usages.push({ api, realm, line, hint });
+  };
+
+  walkAst(analysis.ast, node => {
+    if ((node.kind === 'IfStatement' || node.kind === 'IfExpression') &&
+        node.clauses.some(clause => checksRealm(clause.condition))) {
+      return false;
+    }
+
+    if (node.kind === 'MethodCallExpression') {
+      const argument = node.arguments[0];
+      const name = argument?.kind === 'StringLiteral' ? argument.value : undefined;
+      if (name && SERVICE_METHODS.has(node.method.name) && REALM_SERVICES[name]) {
+        report(`GetService("${name}")`, REALM_SERVICES[name].realm, REALM_SERVICES[name].hint, node);
+      } else if (name && CHILD_LOOKUP_METHODS.has(node.method.name) && REALM_MEMBERS[name]) {
+        report(REALM_MEMBERS[name].api, REALM_MEMBERS[name].realm, REALM_MEMBERS[name].hint, node);
+      }
+      const member = REALM_MEMBERS[node.method.name];
+      if (member) report(member.api, member.realm, member.hint, node.method);
+    }
+
+    if (node.kind === 'MemberExpression') {
+      const property = node.property.name;
+      const member = REALM_MEMBERS[property];
+      if (member) report(member.api, member.realm, member.hint, node.property);
+      // game.ServerStorage
+      if (node.object.kind === 'Identifier' && node.object.name === 'game' && REALM_SERVICES[property]) {
+        report(`game.${property}`, REALM_SERVICES[property].realm, REALM_SERVICES[property].hint, node.property);
+      }
+    }
+  });
+
+  return usages.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Violations d'un script seul, d'après ses propres usages (sans suivre les require)
+ */
+export function checkScriptBoundaries(file: string, realm: Realm, content: string): BoundaryViolation[] {
+  if (realm === 'shared') return [];
+  return findRealmBoundUsages(content)
+    .filter(usage => usage.realm !== realm)
+    .map(usage => ({
+      type: 'wrong-realm-api' as const,
+      file,
+      line: usage.line,
+      realm,
+      chain: [file],
+      usage,
+      message: `${usage.api} n'est disponible que côté ${REALM_LABELS[usage.realm]}, mais ce script s'exécute côté ${REALM_LABELS[realm]} → ${usage.hint}`
+    }));
+}
+
+export class BoundaryChecker {
+  private readonly usages: Map<string, RealmBoundUsage[]> = new Map();
+
+  /**
+   * `contents`: contenu des scripts du graphe (clé: chemin relatif au projet)
+   */
+  constructor(private readonly graph: DependencyGraph, private readonly contents: Map<string, string>) {}
+
+  /**
+   * Toutes les violations du projet. Chaque script client ou serveur est suivi à travers les modules
+   * partagés qu'il requiert; un module du même contexte est vérifié pour son propre compte.
+   */
+  check(): BoundaryViolation[] {
+    const violations: BoundaryViolation[] = [];
+
+    for (const node of this.graph.getNodes()) {
+      if (node.realm === 'shared') continue;
+      const realm = node.realm;
+
+      violations.push(...checkScriptBoundaries(node.file, realm, this.contents.get(node.file) ?? ''));
+
+      // Parcours en largeur: la chaîne rapportée est la plus courte
+      const chains = new Map<string, string[]>([[node.file, [node.file]]]);
+      const queue = [node.file];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const dependency of this.graph.getDependencies(current)) {
+          if (chains.has(dependency)) continue;
+          const target = this.graph.getNode(dependency);
+          if (!target || target.realm === realm) continue;
+
+          const chain = [...chains.get(current)!, dependency];
+          chains.set(dependency, chain);
+
+          if (realm === 'client' && target.realm === 'server') {
+            violations.push(this.violation('server-module', node.file, realm, chain));
+            continue;
+          }
+
+          for (const usage of this.getUsages(dependency).filter(usage => usage.realm !== realm)) {
+            violations.push(this.violation('wrong-realm-api', node.file, realm, chain, usage));
+          }
+          queue.push(dependency);
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private getUsages(file: string): RealmBoundUsage[] {
+    let usages = this.usages.get(file);
+    if (!usages) {
+      usages = findRealmBoundUsages(this.contents.get(file) ?? '');
+      this.usages.set(file, usages);
+    }
+    return usages;
+  }
+
+  private violation(
+    type: BoundaryViolationType,
+    file: string,
+    realm: ExecutionRealm,
+    chain: string[],
+    usage?: RealmBoundUsage
+  ): BoundaryViolation {
+    const line = this.graph.getNode(file)!.requires.find(reference => reference.resolvedFile === chain[1])?.line ?? 1;
+    const module = chain[chain.length - 1];
+    const via = chain.length > 2 ? ` (via ${chain.slice(1, -1).join(' → ')})` : '';
+
+    const message = type === 'server-module'
+      ? `Le script client requiert ${module}${via}, un module serveur non répliqué vers le client`
+      : `Le script ${REALM_LABELS[realm]} requiert ${module}${via}, qui utilise ${usage!.api} (ligne ${usage!.line}), disponible uniquement côté ${REALM_LABELS[usage!.realm]} → ${usage!.hint}`;
+
+    return { type, file, line, realm, chain, usage, message };
+  }
+}
+
+/**
+ * Identifiant stable d'une violation, pour comparer deux analyses du projet
+ */
+export function boundaryViolationKey(violation: BoundaryViolation): string {
+  return [violation.type, violation.chain.join('>'), violation.usage?.api ?? ''].join('|');
+}
+
+function checksRealm(condition: Node): boolean {
+  let found = false;
+  walkAst(condition, node => {
+    if (node.kind === 'MethodCallExpression' && REALM_CHECKS.has(node.method.name)) found = true;
+  });
+  return found;
+}
+
+// if RunService:IsServer() then return end: la suite du module ne s'exécute que d'un côté
+function findEarlyRealmReturn(ast: Chunk): number {
+  const early = ast.body.find((statement: Statement) =>
+    statement.kind === 'IfStatement' &&
+    statement.clauses.some(clause => checksRealm(clause.condition) && clause.body.some(inner => inner.kind === 'ReturnStatement'))
+  );
+  return early ? early.loc.end.line + 1 : Infinity;
+}
@@ -0,0 +1,182 @@
+/**
+ * Graphe de dépendances entre scripts, construit à partir des require résolus via l'arbre Rojo
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { RojoProjectTree, Realm } from '../rojo/project-tree.js';
+import { RequireResolver, RequireReference } from './require-resolver.js';
+
+export interface DependencyNode {
+  file: string;
+  instancePath: string;
+  className: string;
+  realm: Realm;
+  requires: RequireReference[];
+}
+
+export type DependencyIssueType =
+  | 'missing-module'
+  | 'not-a-module'
+  | 'circular-dependency'
+  | 'client-requires-server';
+
+export interface DependencyIssue {
+  type: DependencyIssueType;
+  file: string;
+  line?: number;
+  message: string;
+}
+
+export class DependencyGraph {
+  private readonly nodes: Map<string, DependencyNode> = new Map();
+
+  private constructor(private readonly tree: RojoProjectTree) {}
+
+  /**
+   * Construit le graphe pour tous les scripts du projet.
+   * `contents` permet de fournir le contenu déjà en mémoire (clé: chemin relatif au projet).
+   */
+  static async build(
+    projectRoot: string,
+    tree: RojoProjectTree,
+    contents?: Map<string, string>
+  ): Promise<DependencyGraph> {
+    const graph = new DependencyGraph(tree);
+    const resolver = new RequireResolver(tree);
+
+    for (const script of tree.getScripts()) {
+      const file = script.filePath!;
+      const content = contents?.get(file) ?? await fs.readFile(path.join(projectRoot, file), 'utf-8');
+
+      graph.nodes.set(file, {
+        file,
+        instancePath: RojoProjectTree.fullName(script),
+        className: script.className,
+        realm: tree.getRealm(script),
+        requires: resolver.resolveRequires(file, content)
+      });
+    }
+
+    return graph;
+  }
+
+  getNodes(): DependencyNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  getNode(file: string): DependencyNode | undefined {
+    return this.nodes.get(file);
+  }
+
+  /**
+   * Fichiers requis directement par un script
+   */
+  getDependencies(file: string): string[] {
+    const node = this.nodes.get(file);
+    if (!node) return [];
+    const files = node.requires
+      .filter(r => r.status === 'resolved' && r.resolvedFile)
+      .map(r => r.resolvedFile!);
+    return Array.from(new Set(files));
+  }
+
+  /**
+   * Scripts qui requièrent directement ce fichier
+   */
+  getDependents(file: string): string[] {
+    return this.getNodes()
+      .filter(node => this.getDependencies(node.file).includes(file))
+      .map(node => node.file);
+  }
+
+  /**
+   * Détecte les cycles de require (chaque cycle n'est rapporté qu'une fois)
+   */
+  findCycles(): string[][] {
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (file: string) => {
+      state.set(file, 'visiting');
+      stack.push(file);
+
+      for (const dependency of this.getDependencies(file)) {
+        const dependencyState = state.get(dependency);
+        if (dependencyState === 'visiting') {
+          const cycle = stack.slice(stack.indexOf(dependency));
+          // Normaliser la rotation pour dédupliquer A→B→A et B→A→B
+          const start = cycle.indexOf([...cycle].sort()[0]);
+          const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+          const key = normalized.join('→');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push(normalized);
+          }
+        } else if (!dependencyState) {
+          visit(dependency);
+        }
+      }
+
+      stack.pop();
+      state.set(file, 'done');
+    };
+
+    for (const file of this.nodes.keys()) {
+      if (!state.has(file)) visit(file);
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Problèmes de dépendances: modules manquants, cibles invalides, cycles et require client → serveur
+   */
+  getIssues(): DependencyIssue[] {
+    const issues: DependencyIssue[] = [];
+
+    for (const node of this.nodes.values()) {
+      for (const reference of node.requires) {
+        const targetName = reference.target ? ['game', ...reference.target].join('.') : reference.expression;
+
+        if (reference.status === 'missing') {
+          issues.push({
+            type: 'missing-module',
+            file: node.file,
+            line: reference.line,
+            message: `Module introuvable: ${targetName} (require(${reference.expression}))`
+          });
+        } else if (reference.status === 'not-a-module') {
+          issues.push({
+            type: 'not-a-module',
+            file: node.file,
+            line: reference.line,
+            message: `${targetName} est un ${reference.className}, seul un ModuleScript peut être requis`
+          });
+        } else if (reference.status === 'resolved' && node.realm === 'client') {
+          const target = this.tree.findByPath(reference.target!);
+          if (target && this.tree.getRealm(target) === 'server') {
+            issues.push({
+              type: 'client-requires-server',
+              file: node.file,
+              line: reference.line,
+              message: `Le script client requiert ${targetName}, un module serveur non répliqué vers le client`
+            });
+          }
+        }
+      }
+    }
+
+    for (const cycle of this.findCycles()) {
+      issues.push({
+        type: 'circular-dependency',
+        file: cycle[0],
+        message: `Dépendance circulaire: ${[...cycle, cycle[0]].join(' → ')}`
+      });
+    }
+
+    return issues;
+  }
+}
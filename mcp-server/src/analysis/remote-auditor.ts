@@ -0,0 +1,463 @@
+/**
+ * Audit des handlers OnServerEvent / OnServerInvoke: suit chaque paramètre envoyé par le client
+ * (et les variables qui en dérivent) jusqu'aux opérations sensibles, et vérifie qu'il a été
+ * contrôlé (type, plage ou liste blanche) et que le handler est limité en débit avant d'y arriver
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { AstVisitor, walkAst } from '../parser/walker.js';
+import { CallExpression, Chunk, Expression, FunctionExpression, MethodCallExpression, Node, Statement } from '../parser/ast.js';
+
+export type RemoteSinkKind = 'datastore' | 'currency' | 'instance' | 'destroy';
+
+export type ParameterCheck = 'type' | 'range';
+
+export interface RemoteSinkUse {
+  line: number;
+  sink: RemoteSinkKind;
+  // Première ligne de l'instruction, sans indentation
+  code: string;
+}
+
+export interface UnsafeParameterUse extends RemoteSinkUse {
+  missing: ParameterCheck[];
+}
+
+export interface RemoteParameterAudit {
+  name: string;
+  // Contrôles rencontrés dans le handler, à n'importe quel endroit
+  typeChecked: boolean;
+  rangeChecked: boolean;
+  // Opérations sensibles atteintes avant les contrôles
+  unsafeUses: UnsafeParameterUse[];
+}
+
+export interface RemoteHandlerAudit {
+  // Nom du remote quand il est connu (WaitForChild, Name), sinon l'expression
+  remote: string;
+  // Texte source de l'objet remote
+  expression: string;
+  event: 'OnServerEvent' | 'OnServerInvoke';
+  line: number;
+  // Paramètres envoyés par le client (le joueur exclu)
+  parameters: RemoteParameterAudit[];
+  rateLimited: boolean;
+  // Opérations sensibles atteintes avant toute limitation de débit
+  unthrottledSinks: RemoteSinkUse[];
+}
+
+export const SINK_LABELS: Record<RemoteSinkKind, string> = {
+  datastore: 'écriture DataStore',
+  currency: 'modification de monnaie',
+  instance: 'Instance.new',
+  destroy: 'destruction d\'instance'
+};
+
+const DATASTORE_WRITES = new Set(['SetAsync', 'UpdateAsync', 'IncrementAsync', 'RemoveAsync']);
+const DESTROY_METHODS = new Set(['Destroy', 'ClearAllChildren']);
+const CHILD_LOOKUP_METHODS = new Set(['WaitForChild', 'FindFirstChild']);
+
+// Valeurs et fonctions qui désignent une monnaie ou des statistiques du joueur
+const CURRENCY_NAME = /coin|gold|cash|money|gem|currency|balance|credit|leaderstats/i;
+const CURRENCY_FUNCTION = /^(add|give|remove|set|spend|grant|take|award|deduct|increment)_?[a-z]*(coin|gold|cash|money|gem|currency|balance|credit|point)/i;
+
+// Contrôles: conversions, bornes et fonctions de validation (dont la bibliothèque t)
+const TYPE_COERCIONS = new Set(['tonumber', 'tostring']);
+const TYPE_CHECKS = new Set(['typeof', 'type']);
+const RANGE_FUNCTIONS = new Set(['math.clamp', 'math.min', 'math.max', 'table.find']);
+const VALIDATOR_FUNCTION = /^(is|validate|check|verify|sanitize|assert)[A-Z_]/;
+const RANGE_OPERATORS = new Set(['<', '>', '<=', '>=']);
+
+// Limitation de débit: mots entiers d'un nom (rateLimit, onCooldown, last_request) ou comparaison d'horloges
+const RATE_LIMIT_WORDS = /(^|_)(rate_?limit[a-z]*|cool_?downs?|throttle[a-z]*|debounce[a-z]*|last_?(request|fire|call|used|time|action)s?)(_|$)/;
+const CLOCK_FUNCTIONS = new Set(['os.clock', 'os.time', 'tick', 'time', 'workspace.GetServerTimeNow']);
+
+interface ParameterState {
+  audit: RemoteParameterAudit;
+  // Le paramètre et les variables qui en dérivent
+  aliases: Set<string>;
+}
+
+/**
+ * Audite tous les handlers de remotes d'un script
+ */
+export function auditRemoteHandlers(content: string): RemoteHandlerAudit[] {
+  const { ast } = analyzeLuauSyntax(content);
+  if (!ast) return [];
+
+  const audits: RemoteHandlerAudit[] = [];
+  walkAst(ast, node => {
+    // remote.OnServerEvent:Connect(handler)
+    if (node.kind === 'MethodCallExpression' && (node.method.name === 'Connect' || node.method.name === 'Once') &&
+        node.object.kind === 'MemberExpression' && node.object.property.name === 'OnServerEvent') {
+      const handler = resolveHandler(ast, node.arguments[0]);
+      if (handler) audits.push(auditHandler(content, ast, node.object.object, 'OnServerEvent', node.loc.start.line, handler));
+    }
+
+    // remote.OnServerInvoke = handler
+    if (node.kind === 'AssignmentStatement' && node.targets.length === 1) {
+      const target = node.targets[0];
+      if (target.kind === 'MemberExpression' && target.property.name === 'OnServerInvoke') {
+        const handler = resolveHandler(ast, node.values[0]);
+        if (handler) audits.push(auditHandler(content, ast, target.object, 'OnServerInvoke', node.loc.start.line, handler));
+      }
+    }
+  });
+  return audits;
+}
+
+/**
+ * Paramètres qui atteignent une opération sensible sans contrôle
+ */
+export function getUnvalidatedParameters(audit: RemoteHandlerAudit): RemoteParameterAudit[] {
+  return audit.parameters.filter(parameter => parameter.unsafeUses.length > 0);
+}
+
+function auditHandler(
+  content: string,
+  ast: Chunk,
+  remote: Expression,
+  event: RemoteHandlerAudit['event'],
+  line: number,
+  handler: FunctionExpression
+): RemoteHandlerAudit {
+  const lines = content.split('\n');
+  const codeAt = (node: Node) => lines[node.loc.start.line - 1]?.trim() ?? '';
+
+  // Le premier paramètre est le joueur, fourni par le moteur
+  const states: ParameterState[] = handler.parameters.slice(1).map(parameter => ({
+    audit: { name: parameter.name.name, typeChecked: false, rangeChecked: false, unsafeUses: [] },
+    aliases: new Set([parameter.name.name])
+  }));
+
+  const audit: RemoteHandlerAudit = {
+    remote: resolveRemoteName(ast, remote) ?? source(content, remote),
+    expression: source(content, remote),
+    event,
+    line,
+    parameters: states.map(state => state.audit),
+    rateLimited: false,
+    unthrottledSinks: []
+  };
+
+  const statesMentioned = (expression: Node) => states.filter(state => mentions(expression, state.aliases));
+
+  // local price = Items[itemId]: la valeur vient d'une table du serveur, pas du client
+  const statesPropagated = (value: Expression) => statesMentioned(value).filter(state =>
+    value.kind !== 'IndexExpression' || mentions(value.object, state.aliases)
+  );
+
+  // Contrôles présents dans une condition ou un assert: comparaisons, typeof, listes blanches
+  const applyConditionGuards = (condition: Node) => {
+    walkAst(condition, node => {
+      if (node.kind === 'CallExpression' && TYPE_CHECKS.has(calleeName(node.callee) ?? '')) {
+        node.arguments.forEach(argument => statesMentioned(argument).forEach(state => { state.audit.typeChecked = true; }));
+      }
+      if (node.kind === 'BinaryExpression' && (RANGE_OPERATORS.has(node.operator) || isNaNCheck(node))) {
+        statesMentioned(node).forEach(state => { state.audit.rangeChecked = true; });
+      }
+      // Items[itemId]: la valeur doit être une clé connue
+      if (node.kind === 'IndexExpression') {
+        statesMentioned(node.index).forEach(state => {
+          state.audit.typeChecked = true;
+          state.audit.rangeChecked = true;
+        });
+      }
+      if (isRateLimitCheck(node)) audit.rateLimited = true;
+    });
+    applyCallGuards(condition);
+  };
+
+  // Contrôles valables partout: conversions, bornes et fonctions de validation
+  const applyCallGuard = (node: CallExpression | MethodCallExpression) => {
+    const name = node.kind === 'CallExpression' ? calleeName(node.callee) : node.method.name;
+    if (!name) return;
+    const shortName = name.split('.').pop()!;
+    const checked = node.arguments.flatMap(argument => statesMentioned(argument));
+
+    if (TYPE_COERCIONS.has(name)) {
+      checked.forEach(state => { state.audit.typeChecked = true; });
+    } else if (RANGE_FUNCTIONS.has(name)) {
+      checked.forEach(state => { state.audit.rangeChecked = true; });
+    } else if (VALIDATOR_FUNCTION.test(shortName) || name.startsWith('t.')) {
+      checked.forEach(state => {
+        state.audit.typeChecked = true;
+        state.audit.rangeChecked = true;
+      });
+    }
+    if (isRateLimitName(name)) audit.rateLimited = true;
+  };
+
+  const applyCallGuards = (root: Node) => {
+    walkAst(root, node => {
+      if (node.kind === 'CallExpression' || node.kind === 'MethodCallExpression') applyCallGuard(node);
+    });
+  };
+
+  type Checks = { typeChecked: boolean[]; rangeChecked: boolean[]; rateLimited: boolean };
+  const saveChecks = (): Checks => ({
+    typeChecked: states.map(state => state.audit.typeChecked),
+    rangeChecked: states.map(state => state.audit.rangeChecked),
+    rateLimited: audit.rateLimited
+  });
+
+  // Contrôles d'une condition valables seulement dans sa branche: retirés à la sortie, sauf s'ils étaient déjà acquis
+  const walkGuarded = (condition: Expression, body: Statement[]) => {
+    const before = saveChecks();
+    applyConditionGuards(condition);
+    const granted = saveChecks();
+    walkStatements(body);
+    states.forEach((state, index) => {
+      if (granted.typeChecked[index] && !before.typeChecked[index]) state.audit.typeChecked = false;
+      if (granted.rangeChecked[index] && !before.rangeChecked[index]) state.audit.rangeChecked = false;
+    });
+    if (granted.rateLimited && !before.rateLimited) audit.rateLimited = false;
+  };
+
+  const recordSink = (node: Node, sink: RemoteSinkKind, involved: Expression[]) => {
+    // Les contrôles faits dans les arguments (tonumber, math.clamp) précèdent l'opération
+    involved.forEach(expression => applyCallGuards(expression));
+
+    const use: RemoteSinkUse = { line: node.loc.start.line, sink, code: codeAt(node) };
+    if (!audit.rateLimited) audit.unthrottledSinks.push(use);
+
+    for (const state of states) {
+      if (!involved.some(expression => mentions(expression, state.aliases))) continue;
+      const missing: ParameterCheck[] = [];
+      if (!state.audit.typeChecked) missing.push('type');
+      if (!state.audit.rangeChecked) missing.push('range');
+      if (missing.length > 0) state.audit.unsafeUses.push({ ...use, missing });
+    }
+  };
+
+  // Parcours dans l'ordre du source: un contrôle ne protège que les opérations qui le suivent
+  const visit: AstVisitor = node => {
+    switch (node.kind) {
+      case 'IfStatement': {
+        // if typeof(x) ~= "number" then return end: le contrôle protège la suite.
+        // Sans sortie (print, warn...), il ne protège que les opérations de sa branche.
+        const exiting: Expression[] = [];
+        node.clauses.forEach(clause => {
+          walkGuarded(clause.condition, clause.body);
+          if (exitsHandler(clause.body)) exiting.push(clause.condition);
+        });
+        if (node.elseBody) {
+          walkStatements(node.elseBody);
+          if (exitsHandler(node.elseBody)) exiting.push(...node.clauses.map(clause => clause.condition));
+        }
+        exiting.forEach(condition => applyConditionGuards(condition));
+        return false;
+      }
+      case 'WhileStatement':
+        walkGuarded(node.condition, node.body);
+        return false;
+      // local n = if typeof(a) == "number" then a else 0: la valeur retenue est contrôlée
+      case 'IfExpression':
+        node.clauses.forEach(clause => applyConditionGuards(clause.condition));
+        break;
+
+      case 'LocalStatement':
+        node.variables.forEach((variable, index) => {
+          const value = node.values[index];
+          if (!value) return;
+          statesPropagated(value).forEach(state => state.aliases.add(variable.name.name));
+        });
+        break;
+
+      case 'AssignmentStatement':
+      case 'CompoundAssignmentStatement': {
+        const targets = node.kind === 'AssignmentStatement' ? node.targets : [node.target];
+        const values = node.kind === 'AssignmentStatement' ? node.values : [node.value];
+        targets.forEach((target, index) => {
+          const value = values[index];
+          if (!value) return;
+          if (isCurrencyTarget(target)) recordSink(node, 'currency', [value]);
+          if (target.kind === 'Identifier') {
+            statesPropagated(value).forEach(state => state.aliases.add(target.name));
+          }
+        });
+        break;
+      }
+
+      case 'CallExpression': {
+        const name = calleeName(node.callee);
+        if (name === 'assert') {
+          node.arguments.forEach(argument => applyConditionGuards(argument));
+        } else if (name === 'Instance.new') {
+          recordSink(node, 'instance', node.arguments);
+        } else if (name && CURRENCY_FUNCTION.test(name.split('.').pop()!)) {
+          recordSink(node, 'currency', node.arguments);
+        } else {
+          applyCallGuard(node);
+        }
+        break;
+      }
+
+      case 'MethodCallExpression':
+        auditMethodCall(node, recordSink, applyCallGuard);
+        break;
+    }
+  };
+  const walkStatements = (statements: Statement[]) => statements.forEach(statement => walkAst(statement, visit));
+  walkStatements(handler.body);
+
+  return audit;
+}
+
+function auditMethodCall(
+  node: MethodCallExpression,
+  recordSink: (node: Node, sink: RemoteSinkKind, involved: Expression[]) => void,
+  applyCallGuard: (node: MethodCallExpression) => void
+): void {
+  const method = node.method.name;
+  const first = node.arguments[0];
+
+  if (DATASTORE_WRITES.has(method)) {
+    recordSink(node, 'datastore', node.arguments);
+  } else if (DESTROY_METHODS.has(method)) {
+    recordSink(node, 'destroy', [node.object]);
+  } else if (method === 'AddItem' && calleeName(node.object) === 'Debris' && first) {
+    recordSink(node, 'destroy', [first]);
+  } else if (method === 'SetAttribute' && first?.kind === 'StringLiteral' && CURRENCY_NAME.test(first.value) && node.arguments[1]) {
+    recordSink(node, 'currency', [node.arguments[1]]);
+  } else if (CURRENCY_FUNCTION.test(method)) {
+    recordSink(node, 'currency', node.arguments);
+  } else {
+    applyCallGuard(node);
+  }
+}
+
+/**
+ * Fonction passée directement, ou nom d'une fonction locale / d'un membre défini dans le script
+ */
+function resolveHandler(ast: Chunk, expression: Expression | undefined): FunctionExpression | undefined {
+  if (!expression) return undefined;
+  if (expression.kind === 'FunctionExpression') return expression;
+
+  const name = calleeName(expression);
+  if (!name) return undefined;
+
+  let found: FunctionExpression | undefined;
+  walkAst(ast, node => {
+    if (found) return false;
+    if (node.kind === 'LocalFunctionStatement' && node.name.name === name) found = node.func;
+    if (node.kind === 'FunctionStatement' && node.path.map(part => part.name).join('.') === name) found = node.func;
+    if (node.kind === 'LocalStatement') {
+      node.variables.forEach((variable, index) => {
+        const value = node.values[index];
+        if (variable.name.name === name && value?.kind === 'FunctionExpression') found = value;
+      });
+    }
+  });
+  return found;
+}
+
+/**
+ * Nom de l'instance remote: WaitForChild("Nom"), remote.Name = "Nom", ou le dernier segment du chemin
+ */
+function resolveRemoteName(ast: Chunk, remote: Expression): string | undefined {
+  if (remote.kind === 'MemberExpression') return remote.property.name;
+  if (remote.kind === 'IndexExpression' && remote.index.kind === 'StringLiteral') return remote.index.value;
+  if (remote.kind === 'MethodCallExpression') return childLookupName(remote);
+  if (remote.kind !== 'Identifier') return undefined;
+
+  let name: string | undefined;
+  walkAst(ast, node => {
+    if (node.kind === 'LocalStatement') {
+      node.variables.forEach((variable, index) => {
+        const value = node.values[index];
+        if (variable.name.name !== remote.name || !value) return;
+        if (value.kind === 'MethodCallExpression') name = childLookupName(value) ?? name;
+        if (value.kind === 'MemberExpression') name = value.property.name;
+      });
+    }
+    if (node.kind === 'AssignmentStatement' && node.targets.length === 1) {
+      const target = node.targets[0];
+      const value = node.values[0];
+      if (target.kind === 'MemberExpression' && target.property.name === 'Name' &&
+          target.object.kind === 'Identifier' && target.object.name === remote.name && value?.kind === 'StringLiteral') {
+        name = value.value;
+      }
+    }
+  });
+  return name;
+}
+
+function childLookupName(call: MethodCallExpression): string | undefined {
+  const argument = call.arguments[0];
+  return CHILD_LOOKUP_METHODS.has(call.method.name) && argument?.kind === 'StringLiteral' ? argument.value : undefined;
+}
+
+function isCurrencyTarget(target: Expression): boolean {
+  const path = expressionPath(target);
+  return path !== null && path.slice(1).some(segment => CURRENCY_NAME.test(segment));
+}
+
+function isRateLimitCheck(node: Node): boolean {
+  if (node.kind === 'Identifier') return isRateLimitName(node.name);
+  if (node.kind === 'CallExpression') return CLOCK_FUNCTIONS.has(calleeName(node.callee) ?? '');
+  if (node.kind === 'MethodCallExpression') {
+    return CLOCK_FUNCTIONS.has(`${calleeName(node.object)}.${node.method.name}`) || isRateLimitName(node.method.name);
+  }
+  if (node.kind === 'MemberExpression') return isRateLimitName(node.property.name);
+  return false;
+}
+
+// GenerateGUID ou separate ne contiennent "rate" qu'au milieu d'un mot
+function isRateLimitName(name: string): boolean {
+  return name.split('.').some(segment =>
+    RATE_LIMIT_WORDS.test(segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase())
+  );
+}
+
+// La branche sort du handler: return ou error() en dernière instruction
+function exitsHandler(body: Statement[]): boolean {
+  const last = body[body.length - 1];
+  if (!last) return false;
+  if (last.kind === 'ReturnStatement') return true;
+  return last.kind === 'CallStatement' && last.expression.kind === 'CallExpression' && calleeName(last.expression.callee) === 'error';
+}
+
+// value ~= value: vrai uniquement pour NaN
+function isNaNCheck(node: Extract<Node, { kind: 'BinaryExpression' }>): boolean {
+  return node.operator === '~=' && node.left.kind === 'Identifier' && node.right.kind === 'Identifier' && node.left.name === node.right.name;
+}
+
+/**
+ * L'expression lit-elle une des variables? Les noms de champs (a.nom, { nom = ... }) ne comptent pas.
+ */
+function mentions(root: Node, names: Set<string>): boolean {
+  let found = false;
+  walkAst(root, (node, parents) => {
+    if (found) return false;
+    if (node.kind !== 'Identifier' || !names.has(node.name)) return;
+    const parent = parents[0];
+    if (parent?.kind === 'MemberExpression' && parent.property === node) return;
+    if (parent?.kind === 'MethodCallExpression' && parent.method === node) return;
+    if (parent?.kind === 'TableConstructor' && parent.fields.some(field => field.type === 'named' && field.key === node)) return;
+    found = true;
+  });
+  return found;
+}
+
+function calleeName(expression: Expression): string | undefined {
+  return expressionPath(expression)?.join('.');
+}
+
+function expressionPath(expression: Expression): string[] | null {
+  if (expression.kind === 'Identifier') return [expression.name];
+  if (expression.kind === 'MemberExpression') {
+    const object = expressionPath(expression.object);
+    return object ? [...object, expression.property.name] : null;
+  }
+  if (expression.kind === 'IndexExpression' && expression.index.kind === 'StringLiteral') {
+    const object = expressionPath(expression.object);
+    return object ? [...object, expression.index.value] : null;
+  }
+  return null;
+}
+
+function source(content: string, node: Node): string {
+  return content.slice(node.loc.start.offset, node.loc.end.offset);
+}
+
@@ -0,0 +1,389 @@
+/**
+ * Registre des RemoteEvent/RemoteFunction du projet: création (Instance.new ou fichiers Rojo),
+ * appels Fire/Invoke et handlers des deux côtés, pour vérifier que client et serveur s'accordent
+ * sur le nom et le nombre d'arguments de chaque remote
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Chunk, Expression, FunctionExpression } from '../parser/ast.js';
+import { RojoInstance, RojoProjectTree } from '../rojo/project-tree.js';
+import { REMOTE_CLASSES } from './symbol-index.js';
+
+// Côté qui reçoit l'appel
+export type RemoteSide = 'server' | 'client';
+
+export type RemoteCallMethod = 'FireServer' | 'FireClient' | 'FireAllClients' | 'InvokeServer' | 'InvokeClient';
+
+export type RemoteHandlerEvent = 'OnServerEvent' | 'OnClientEvent' | 'OnServerInvoke' | 'OnClientInvoke';
+
+export interface RemoteCreation {
+  file: string;
+  line: number;
+  className: string;
+  // Chemin DataModel des remotes décrits par l'arbre Rojo
+  instancePath?: string;
+}
+
+export interface RemoteCallSite {
+  file: string;
+  line: number;
+  method: RemoteCallMethod;
+  // Arguments transmis au handler (le joueur de FireClient/InvokeClient exclu)
+  argumentCount: number;
+  // Dernier argument `...` ou appel de fonction: nombre inconnu
+  variadic: boolean;
+}
+
+export interface RemoteHandlerSite {
+  file: string;
+  line: number;
+  event: RemoteHandlerEvent;
+  // Paramètres reçus (le joueur des handlers serveur exclu)
+  parameters: string[];
+  variadic: boolean;
+}
+
+export interface RemoteContract {
+  name: string;
+  className?: string;
+  creations: RemoteCreation[];
+  calls: RemoteCallSite[];
+  handlers: RemoteHandlerSite[];
+}
+
+export type RemoteIssueType =
+  | 'unknown-remote'    // nom utilisé mais jamais créé
+  | 'wrong-class'       // Fire sur une RemoteFunction, Invoke sur un RemoteEvent
+  | 'arity-mismatch'    // nombre d'arguments différent du handler
+  | 'unhandled'         // appelé sans handler de l'autre côté
+  | 'never-fired';      // handler jamais déclenché
+
+export interface RemoteIssue {
+  type: RemoteIssueType;
+  remote: string;
+  file: string;
+  line: number;
+  message: string;
+}
+
+const CALL_METHODS: Record<RemoteCallMethod, { side: RemoteSide; invoke: boolean; skipsPlayer: boolean }> = {
+  FireServer: { side: 'server', invoke: false, skipsPlayer: false },
+  FireClient: { side: 'client', invoke: false, skipsPlayer: true },
+  FireAllClients: { side: 'client', invoke: false, skipsPlayer: false },
+  InvokeServer: { side: 'server', invoke: true, skipsPlayer: false },
+  InvokeClient: { side: 'client', invoke: true, skipsPlayer: true }
+};
+
+const HANDLER_EVENTS: Record<RemoteHandlerEvent, { side: RemoteSide; invoke: boolean }> = {
+  OnServerEvent: { side: 'server', invoke: false },
+  OnClientEvent: { side: 'client', invoke: false },
+  OnServerInvoke: { side: 'server', invoke: true },
+  OnClientInvoke: { side: 'client', invoke: true }
+};
+
+const CONNECT_METHODS = new Set(['Connect', 'Once', 'ConnectParallel']);
+const CHILD_LOOKUP_METHODS = new Set(['WaitForChild', 'FindFirstChild']);
+
+// Au-delà, un nom inconnu n'est pas présenté comme une faute de frappe
+const MAX_SUGGESTION_DISTANCE = 3;
+
+export class RemoteRegistry {
+  private readonly remotes: Map<string, RemoteContract> = new Map();
+
+  private constructor() {}
+
+  /**
+   * Construit le registre à partir du contenu des scripts (clé: chemin relatif au projet)
+   * et des remotes décrits par l'arbre Rojo (.model.json, $className dans le projet)
+   */
+  static build(tree: RojoProjectTree | null, contents: Map<string, string>): RemoteRegistry {
+    const registry = new RemoteRegistry();
+
+    if (tree) {
+      const visit = (instance: RojoInstance) => {
+        if (REMOTE_CLASSES.has(instance.className)) {
+          registry.getOrCreate(instance.name).creations.push({
+            file: instance.filePath ?? tree.projectFile,
+            line: 1,
+            className: instance.className,
+            instancePath: RojoProjectTree.fullName(instance)
+          });
+        }
+        instance.children.forEach(visit);
+      };
+      visit(tree.getRoot());
+    }
+
+    for (const [file, content] of contents) {
+      const analysis = analyzeLuauSyntax(content);
+      if (analysis.ast) registry.collect(file, analysis.ast);
+    }
+
+    for (const remote of registry.remotes.values()) {
+      remote.className = remote.creations[0]?.className;
+    }
+    return registry;
+  }
+
+  getRemotes(): RemoteContract[] {
+    return Array.from(this.remotes.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getRemote(name: string): RemoteContract | undefined {
+    return this.remotes.get(name);
+  }
+
+  /**
+   * Désaccords entre client et serveur. Les noms jamais créés ne sont signalés que si le projet
+   * crée au moins un remote: sinon ils viennent probablement du fichier place
+   */
+  getIssues(): RemoteIssue[] {
+    const issues: RemoteIssue[] = [];
+    const created = this.getRemotes().filter(remote => remote.creations.length > 0).map(remote => remote.name);
+
+    for (const remote of this.getRemotes()) {
+      const sites = [...remote.calls, ...remote.handlers].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+      if (remote.creations.length === 0 && created.length > 0) {
+        const suggestion = closestName(remote.name, created);
+        for (const site of sites) {
+          issues.push({
+            type: 'unknown-remote',
+            remote: remote.name,
+            file: site.file,
+            line: site.line,
+            message: `Remote "${remote.name}" jamais créé${suggestion ? `: vouliez-vous dire "${suggestion}" ?` : ' (ni Instance.new ni fichier Rojo)'}`
+          });
+        }
+      }
+
+      if (remote.className) {
+        const invoke = remote.className === 'RemoteFunction';
+        for (const call of remote.calls.filter(call => CALL_METHODS[call.method].invoke !== invoke)) {
+          issues.push(this.wrongClass(remote, call.file, call.line, call.method));
+        }
+        for (const handler of remote.handlers.filter(handler => HANDLER_EVENTS[handler.event].invoke !== invoke)) {
+          issues.push(this.wrongClass(remote, handler.file, handler.line, handler.event));
+        }
+      }
+
+      for (const side of ['server', 'client'] as RemoteSide[]) {
+        const calls = remote.calls.filter(call => CALL_METHODS[call.method].side === side);
+        const handlers = remote.handlers.filter(handler => HANDLER_EVENTS[handler.event].side === side);
+
+        if (calls.length > 0 && handlers.length === 0) {
+          const call = calls[0];
+          const expected = CALL_METHODS[call.method].invoke
+            ? (side === 'server' ? 'OnServerInvoke' : 'OnClientInvoke')
+            : (side === 'server' ? 'OnServerEvent' : 'OnClientEvent');
+          issues.push({
+            type: 'unhandled',
+            remote: remote.name,
+            file: call.file,
+            line: call.line,
+            message: `${remote.name}:${call.method} sans handler ${expected}${CALL_METHODS[call.method].invoke ? ': l\'appel ne rendra jamais la main' : ''}`
+          });
+        }
+
+        if (calls.length === 0) {
+          for (const handler of handlers) {
+            issues.push({
+              type: 'never-fired',
+              remote: remote.name,
+              file: handler.file,
+              line: handler.line,
+              message: `${remote.name}.${handler.event} n'est jamais déclenché par ${side === 'server' ? 'le client' : 'le serveur'}`
+            });
+          }
+        }
+
+        for (const call of calls.filter(call => !call.variadic)) {
+          for (const handler of handlers.filter(handler => !handler.variadic && handler.parameters.length !== call.argumentCount)) {
+            issues.push({
+              type: 'arity-mismatch',
+              remote: remote.name,
+              file: call.file,
+              line: call.line,
+              message: `${remote.name}:${call.method} envoie ${call.argumentCount} argument(s), le handler ${handler.event} (${handler.file}:${handler.line}) en attend ${handler.parameters.length} (${handler.parameters.join(', ') || 'aucun'})`
+            });
+          }
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private wrongClass(remote: RemoteContract, file: string, line: number, usage: string): RemoteIssue {
+    return {
+      type: 'wrong-class',
+      remote: remote.name,
+      file,
+      line,
+      message: `${remote.name} est un ${remote.className}: ${usage} n'existe pas sur cette classe`
+    };
+  }
+
+  private getOrCreate(name: string): RemoteContract {
+    let remote = this.remotes.get(name);
+    if (!remote) {
+      remote = { name, creations: [], calls: [], handlers: [] };
+      this.remotes.set(name, remote);
+    }
+    return remote;
+  }
+
+  private collect(file: string, ast: Chunk): void {
+    // Variables qui désignent un remote, par nom d'instance
+    const variables = new Map<string, string>();
+    // Remotes créés par Instance.new, en attente de leur propriété Name
+    const pending = new Map<string, string>();
+
+    const remoteName = (expression: Expression): string | undefined => {
+      switch (expression.kind) {
+        case 'Identifier':
+          return variables.get(expression.name);
+        case 'MemberExpression':
+          return expression.property.name;
+        case 'IndexExpression':
+          return expression.index.kind === 'StringLiteral' ? expression.index.value : undefined;
+        case 'MethodCallExpression': {
+          const argument = expression.arguments[0];
+          return CHILD_LOOKUP_METHODS.has(expression.method.name) && argument?.kind === 'StringLiteral' ? argument.value : undefined;
+        }
+        default:
+          return undefined;
+      }
+    };
+
+    const addHandler = (remote: Expression, event: RemoteHandlerEvent, line: number, handler: Expression | undefined) => {
+      const name = remoteName(remote);
+      const func = resolveFunction(ast, handler);
+      if (!name || !func) return;
+      const parameters = func.parameters.map(parameter => parameter.name.name);
+      this.getOrCreate(name).handlers.push({
+        file,
+        line,
+        event,
+        parameters: HANDLER_EVENTS[event].side === 'server' ? parameters.slice(1) : parameters,
+        variadic: func.isVararg
+      });
+    };
+
+    walkAst(ast, node => {
+      if (node.kind === 'LocalStatement') {
+        node.variables.forEach((variable, index) => {
+          const value = node.values[index];
+          if (!value) return;
+          const className = instanceNewClass(value);
+          if (className && REMOTE_CLASSES.has(className)) {
+            pending.set(variable.name.name, className);
+            return;
+          }
+          const name = remoteName(value);
+          if (name) variables.set(variable.name.name, name);
+        });
+      }
+
+      if (node.kind === 'AssignmentStatement' && node.targets.length === 1) {
+        const target = node.targets[0];
+        const value = node.values[0];
+        if (target.kind !== 'MemberExpression') return;
+
+        // remote.Name = "BuyItem"
+        if (target.property.name === 'Name' && target.object.kind === 'Identifier' &&
+            pending.has(target.object.name) && value?.kind === 'StringLiteral') {
+          variables.set(target.object.name, value.value);
+          this.getOrCreate(value.value).creations.push({ file, line: node.loc.start.line, className: pending.get(target.object.name)! });
+        }
+
+        const event = target.property.name;
+        if (event === 'OnServerInvoke' || event === 'OnClientInvoke') {
+          addHandler(target.object, event, node.loc.start.line, value);
+        }
+      }
+
+      if (node.kind === 'MethodCallExpression') {
+        const method = node.method.name;
+
+        // remote.OnServerEvent:Connect(handler)
+        if (CONNECT_METHODS.has(method) && node.object.kind === 'MemberExpression') {
+          const event = node.object.property.name;
+          if (event === 'OnServerEvent' || event === 'OnClientEvent') {
+            addHandler(node.object.object, event, node.loc.start.line, node.arguments[0]);
+          }
+        }
+
+        if (Object.keys(CALL_METHODS).includes(method)) {
+          const name = remoteName(node.object);
+          if (!name) return;
+          const callMethod = method as RemoteCallMethod;
+          const last = node.arguments[node.arguments.length - 1];
+          this.getOrCreate(name).calls.push({
+            file,
+            line: node.loc.start.line,
+            method: callMethod,
+            argumentCount: Math.max(0, node.arguments.length - (CALL_METHODS[callMethod].skipsPlayer ? 1 : 0)),
+            variadic: last?.kind === 'VarargLiteral' || last?.kind === 'CallExpression' || last?.kind === 'MethodCallExpression'
+          });
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Fonction passée en handler: fonction anonyme, ou fonction locale désignée par son nom
+ */
+function resolveFunction(ast: Chunk, expression: Expression | undefined): FunctionExpression | undefined {
+  if (!expression) return undefined;
+  if (expression.kind === 'FunctionExpression') return expression;
+  if (expression.kind !== 'Identifier') return undefined;
+
+  let found: FunctionExpression | undefined;
+  walkAst(ast, node => {
+    if (found) return false;
+    if (node.kind === 'LocalFunctionStatement' && node.name.name === expression.name) found = node.func;
+    if (node.kind === 'FunctionStatement' && node.path.length === 1 && node.path[0].name === expression.name) found = node.func;
+    if (node.kind === 'LocalStatement') {
+      node.variables.forEach((variable, index) => {
+        const value = node.values[index];
+        if (variable.name.name === expression.name && value?.kind === 'FunctionExpression') found = value;
+      });
+    }
+  });
+  return found;
+}
+
+function instanceNewClass(expression: Expression): string | undefined {
+  if (expression.kind !== 'CallExpression') return undefined;
+  const callee = expression.callee;
+  const argument = expression.arguments[0];
+  const isInstanceNew = callee.kind === 'MemberExpression' && callee.property.name === 'new' &&
+    callee.object.kind === 'Identifier' && callee.object.name === 'Instance';
+  return isInstanceNew && argument?.kind === 'StringLiteral' ? argument.value : undefined;
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= MAX_SUGGESTION_DISTANCE && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best?.name;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
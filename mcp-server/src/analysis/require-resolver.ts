@@ -0,0 +1,176 @@
+/**
+ * Résolution des appels require(...) vers les fichiers du projet via l'arbre Rojo
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Expression, Node } from '../parser/ast.js';
+import { RojoProjectTree, RojoInstance } from '../rojo/project-tree.js';
+
+export type RequireStatus =
+  | 'resolved'      // pointe vers un ModuleScript du projet
+  | 'missing'       // pointe dans une partie de l'arbre gérée par Rojo où l'instance n'existe pas
+  | 'not-a-module'  // pointe vers une instance qui n'est pas un ModuleScript
+  | 'external'      // pointe vers une partie de l'arbre qui conserve les instances du place
+  | 'asset'         // require(123456): module chargé depuis un asset
+  | 'dynamic';      // chemin non déterminable statiquement
+
+export interface RequireReference {
+  line: number;
+  column: number;
+  // Texte source de l'argument passé à require
+  expression: string;
+  status: RequireStatus;
+  // Chemin DataModel résolu (sans "game")
+  target?: string[];
+  resolvedFile?: string;
+  className?: string;
+}
+
+// Valeur symbolique d'une expression: un chemin DataModel ou rien de connu
+type InstancePath = string[] | undefined;
+
+const CHILD_LOOKUP_METHODS = new Set(['WaitForChild', 'FindFirstChild']);
+
+export class RequireResolver {
+  constructor(private readonly tree: RojoProjectTree) {}
+
+  /**
+   * Liste les require d'un script avec leur résolution
+   */
+  resolveRequires(filePath: string, content: string): RequireReference[] {
+    const analysis = analyzeLuauSyntax(content);
+    if (!analysis.ast) return [];
+
+    const self = this.tree.findByFile(filePath);
+    const aliases = new Map<string, InstancePath>();
+    const references: RequireReference[] = [];
+
+    walkAst(analysis.ast, (node: Node) => {
+      // Suivre les alias locaux: local Shared = ReplicatedStorage:WaitForChild("Shared")
+      if (node.kind === 'LocalStatement') {
+        node.variables.forEach((variable, index) => {
+          const value = node.values[index];
+          aliases.set(variable.name.name, value ? this.evaluate(value, aliases, self) : undefined);
+        });
+        return;
+      }
+
+      if (node.kind !== 'CallExpression') return;
+      if (node.callee.kind !== 'Identifier' || node.callee.name !== 'require') return;
+
+      const argument = node.arguments[0];
+      if (!argument) return;
+
+      const reference: RequireReference = {
+        line: node.loc.start.line,
+        column: node.loc.start.column,
+        expression: content.slice(argument.loc.start.offset, argument.loc.end.offset),
+        status: 'dynamic'
+      };
+
+      if (argument.kind === 'NumberLiteral') {
+        reference.status = 'asset';
+      } else {
+        const target = argument.kind === 'StringLiteral'
+          ? this.resolveStringPath(argument.value, self)
+          : this.evaluate(argument, aliases, self);
+        if (target) {
+          Object.assign(reference, this.classify(target));
+        }
+      }
+
+      references.push(reference);
+    });
+
+    return references;
+  }
+
+  /**
+   * Évalue une expression vers un chemin DataModel quand c'est possible statiquement
+   */
+  private evaluate(expression: Expression, aliases: Map<string, InstancePath>, self?: RojoInstance): InstancePath {
+    switch (expression.kind) {
+      case 'Identifier':
+        if (expression.name === 'game') return [];
+        if (expression.name === 'workspace') return ['Workspace'];
+        if (expression.name === 'script') return self ? [...self.path] : undefined;
+        return aliases.get(expression.name);
+
+      case 'ParenthesizedExpression':
+      case 'TypeAssertion':
+        return this.evaluate(expression.expression, aliases, self);
+
+      case 'MemberExpression': {
+        const base = this.evaluate(expression.object, aliases, self);
+        if (!base) return undefined;
+        if (expression.property.name === 'Parent') {
+          return base.length > 0 ? base.slice(0, -1) : undefined;
+        }
+        return [...base, expression.property.name];
+      }
+
+      case 'IndexExpression': {
+        const base = this.evaluate(expression.object, aliases, self);
+        if (!base || expression.index.kind !== 'StringLiteral') return undefined;
+        return [...base, expression.index.value];
+      }
+
+      case 'MethodCallExpression': {
+        const base = this.evaluate(expression.object, aliases, self);
+        const argument = expression.arguments[0];
+        if (!base || argument?.kind !== 'StringLiteral') return undefined;
+
+        if (expression.method.name === 'GetService' && base.length === 0) {
+          return [argument.value];
+        }
+        if (CHILD_LOOKUP_METHODS.has(expression.method.name)) {
+          return [...base, argument.value];
+        }
+        return undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * require("./Sibling") / require("../Other"): chemins relatifs au script appelant
+   */
+  private resolveStringPath(value: string, self?: RojoInstance): InstancePath {
+    if (!self || !(value.startsWith('./') || value.startsWith('../'))) return undefined;
+
+    let current = self.path.slice(0, -1);
+    for (const segment of value.split('/')) {
+      if (segment === '.' || segment === '') continue;
+      if (segment === '..') {
+        if (current.length === 0) return undefined;
+        current = current.slice(0, -1);
+      } else {
+        current = [...current, segment];
+      }
+    }
+    return current;
+  }
+
+  private classify(target: string[]): Partial<RequireReference> {
+    const instance = this.tree.findByPath(target);
+
+    if (instance) {
+      return {
+        target,
+        className: instance.className,
+        resolvedFile: instance.filePath,
+        status: instance.className === 'ModuleScript' ? 'resolved' : 'not-a-module'
+      };
+    }
+
+    // Sans $ignoreUnknownInstances, Rojo supprime les instances absentes du disque: le contenu est entièrement connu
+    const { instance: deepest } = this.tree.findDeepestExisting(target);
+    return {
+      target,
+      status: deepest.ignoreUnknownInstances ? 'external' : 'missing'
+    };
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Moteur de règles des anti-patterns: règles intégrées (antipatterns.ts) et règles de
+ * l'équipe déclarées dans .mcp-roblox/rules.json (activation, sévérité, globs de fichiers).
+ * Un commentaire `-- mcp-ignore: regle` masque une détection sur sa ligne, ou sur la
+ * ligne suivante s'il est seul sur sa ligne.
+ */
+
+import { AntiPatternMatch, RuleDescription, robloxAntiPatterns } from '../../antipatterns.js';
+import {
+  AstRuleSelector,
+  CustomRuleConfig,
+  DEFAULT_RULES_CONFIG,
+  RULES_FILE,
+  RuleOverride,
+  RuleSetting,
+  RulesConfig,
+  loadRulesConfig
+} from '../config/rules-config.js';
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Chunk, Expression } from '../parser/ast.js';
+import { matchesGlob } from '../utils/path-utils.js';
+
+export interface EngineRule extends RuleDescription {
+  // Règle déclarée dans rules.json
+  custom: boolean;
+  pattern?: RegExp;
+  ast?: AstRuleSelector;
+  files: string[];
+  exclude: string[];
+}
+
+// Règles masquées par ligne ('*' pour toutes)
+export type Suppressions = Map<number, Set<string>>;
+
+const SEVERITIES = ['error', 'warning', 'info'];
+const IGNORE_COMMENT = /--\s*mcp-ignore\b(?:\s*:\s*([\w-]+(?:\s*,\s*[\w-]+)*))?/;
+const MAX_MATCH_LENGTH = 50;
+
+export function parseSuppressions(code: string): Suppressions {
+  const suppressions: Suppressions = new Map();
+
+  code.split('\n').forEach((line, index) => {
+    const comment = line.match(IGNORE_COMMENT);
+    if (!comment) return;
+    // Commentaire seul sur sa ligne: il s'applique à la ligne suivante
+    const target = line.trim().startsWith('--') ? index + 2 : index + 1;
+    const rules = suppressions.get(target) ?? new Set<string>();
+    for (const rule of comment[1] ? comment[1].split(',') : ['*']) {
+      rules.add(rule.trim());
+    }
+    suppressions.set(target, rules);
+  });
+
+  return suppressions;
+}
+
+export function isSuppressed(suppressions: Suppressions, line: number, rule: string): boolean {
+  const rules = suppressions.get(line);
+  return !!rules && (rules.has('*') || rules.has(rule));
+}
+
+export class RuleEngine {
+  private rules: EngineRule[] = [];
+  private ignore: string[];
+  private configErrors: string[] = [];
+
+  constructor(rulesConfig: RulesConfig = DEFAULT_RULES_CONFIG) {
+    const config = this.checkShape(rulesConfig);
+    this.ignore = config.ignore;
+
+    const candidates: EngineRule[] = robloxAntiPatterns.map(antiPattern => ({
+      ...antiPattern,
+      custom: false,
+      files: [],
+      exclude: []
+    }));
+    for (const custom of config.custom) {
+      const rule = this.compileCustomRule(custom, candidates);
+      if (rule) candidates.push(rule);
+    }
+
+    const names = new Set(candidates.map(rule => rule.name));
+    for (const name of Object.keys(config.rules)) {
+      if (!names.has(name)) {
+        this.configErrors.push(`Règle inconnue "${name}" dans ${RULES_FILE}`);
+      }
+    }
+
+    // Une règle personnalisée peut être désactivée dans sa propre déclaration
+    const disabled = new Set(config.custom.filter(custom => custom.enabled === false).map(custom => custom.name));
+    for (const rule of candidates) {
+      if (disabled.has(rule.name)) continue;
+      const configured = this.applySetting(rule, config.rules[rule.name]);
+      if (configured) this.rules.push(configured);
+    }
+  }
+
+  /**
+   * Règles de .mcp-roblox/rules.json, ou toutes les règles intégrées sans configuration
+   */
+  static async load(projectRoot: string): Promise<RuleEngine> {
+    return new RuleEngine(await loadRulesConfig(projectRoot));
+  }
+
+  /**
+   * Règles actives, avec leur sévérité effective
+   */
+  getRules(): EngineRule[] {
+    return this.rules;
+  }
+
+  getConfigErrors(): string[] {
+    return this.configErrors;
+  }
+
+  isIgnored(filePath: string): boolean {
+    return this.ignore.some(glob => matchesGlob(filePath, glob));
+  }
+
+  /**
+   * Détections des règles actives pour ce script. Sans chemin, les globs ne s'appliquent pas.
+   * Les anti-patterns intégrés sont rapportés une fois par script, les règles personnalisées à chaque occurrence.
+   */
+  detect(code: string, filePath?: string): AntiPatternMatch[] {
+    if (filePath && this.isIgnored(filePath)) return [];
+
+    const lines = code.split('\n');
+    const suppressions = parseSuppressions(code);
+    const findings: AntiPatternMatch[] = [];
+    let ast: Chunk | undefined | null = null;
+
+    for (const rule of this.rules) {
+      if (filePath && !this.appliesTo(rule, filePath)) continue;
+
+      if (rule.pattern) {
+        findings.push(...matchPattern(rule, rule.pattern, code, lines, suppressions));
+      } else if (rule.ast) {
+        // Analysé une seule fois, et seulement si une règle AST est active
+        if (ast === null) ast = analyzeLuauSyntax(code).ast;
+        if (ast) findings.push(...matchAst(rule, rule.ast, ast, lines, suppressions));
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * rules.json est écrit à la main: une section du mauvais type est signalée et remplacée par sa valeur par défaut
+   */
+  private checkShape(config: RulesConfig): RulesConfig {
+    const checked = structuredClone(DEFAULT_RULES_CONFIG);
+
+    if (isPlainObject(config.rules)) {
+      checked.rules = config.rules;
+    } else {
+      this.configErrors.push('"rules" doit être un objet (nom de règle → réglage), section ignorée');
+    }
+
+    if (isStringArray(config.ignore)) {
+      checked.ignore = config.ignore;
+    } else {
+      this.configErrors.push('"ignore" doit être une liste de globs, section ignorée');
+    }
+
+    if (Array.isArray(config.custom)) {
+      checked.custom = config.custom.filter(custom => {
+        if (isPlainObject(custom)) return true;
+        this.configErrors.push('Règle personnalisée qui n\'est pas un objet ignorée');
+        return false;
+      });
+    } else {
+      this.configErrors.push('"custom" doit être une liste de règles, section ignorée');
+    }
+
+    return checked;
+  }
+
+  private appliesTo(rule: EngineRule, filePath: string): boolean {
+    if (rule.files.length > 0 && !rule.files.some(glob => matchesGlob(filePath, glob))) return false;
+    return !rule.exclude.some(glob => matchesGlob(filePath, glob));
+  }
+
+  private applySetting(rule: EngineRule, setting: RuleSetting | undefined): EngineRule | null {
+    let override: RuleOverride;
+    if (setting === undefined) {
+      override = {};
+    } else if (setting === 'off') {
+      override = { enabled: false };
+    } else if (typeof setting === 'string') {
+      override = { severity: setting };
+    } else if (isPlainObject(setting)) {
+      override = setting;
+    } else {
+      this.configErrors.push(`Règle "${rule.name}": réglage invalide ("off", une sévérité ou un objet)`);
+      override = {};
+    }
+
+    if (override.enabled === false) return null;
+
+    let severity = rule.severity;
+    if (override.severity !== undefined) {
+      if (SEVERITIES.includes(override.severity)) {
+        severity = override.severity;
+      } else {
+        this.configErrors.push(`Règle "${rule.name}": sévérité invalide "${override.severity}" (error, warning ou info)`);
+      }
+    }
+
+    const globs = (key: 'files' | 'exclude'): string[] => {
+      const value = override[key];
+      if (value === undefined) return rule[key];
+      if (isStringArray(value)) return value;
+      this.configErrors.push(`Règle "${rule.name}": "${key}" doit être une liste de globs`);
+      return rule[key];
+    };
+
+    return {
+      ...rule,
+      severity,
+      files: globs('files'),
+      exclude: globs('exclude')
+    };
+  }
+
+  private compileCustomRule(custom: CustomRuleConfig, existing: EngineRule[]): EngineRule | null {
+    if (!custom.name || !custom.description) {
+      this.configErrors.push('Règle personnalisée sans "name" ou "description" ignorée');
+      return null;
+    }
+    if (existing.some(rule => rule.name === custom.name)) {
+      this.configErrors.push(`Règle personnalisée "${custom.name}": nom déjà utilisé`);
+      return null;
+    }
+    if ((custom.pattern === undefined) === (custom.ast === undefined)) {
+      this.configErrors.push(`Règle personnalisée "${custom.name}": définir "pattern" ou "ast"`);
+      return null;
+    }
+
+    const rule: EngineRule = {
+      name: custom.name,
+      description: custom.description,
+      severity: 'warning',
+      fix: custom.fix,
+      example: custom.example,
+      custom: true,
+      files: [],
+      exclude: []
+    };
+
+    if (custom.pattern !== undefined) {
+      if (typeof custom.pattern !== 'string') {
+        this.configErrors.push(`Règle personnalisée "${custom.name}": "pattern" doit être une chaîne`);
+        return null;
+      }
+      try {
+        rule.pattern = new RegExp(custom.pattern, custom.flags);
+      } catch (error) {
+        this.configErrors.push(`Règle personnalisée "${custom.name}": expression régulière invalide (${error instanceof Error ? error.message : error})`);
+        return null;
+      }
+    } else {
+      const selectors = isPlainObject(custom.ast)
+        ? [custom.ast.call, custom.ast.method, custom.ast.member].filter(selector => selector !== undefined)
+        : [];
+      if (selectors.length !== 1) {
+        this.configErrors.push(`Règle personnalisée "${custom.name}": "ast" doit définir un seul critère parmi call, method et member`);
+        return null;
+      }
+      rule.ast = custom.ast as AstRuleSelector;
+    }
+
+    // Les réglages de la règle elle-même, puis ceux de "rules" qui peuvent les remplacer
+    return this.applySetting(rule, { ...custom, enabled: true });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function matchPattern(rule: EngineRule, pattern: RegExp, code: string, lines: string[], suppressions: Suppressions): AntiPatternMatch[] {
+  const matches: AntiPatternMatch[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+  let result: RegExpExecArray | null;
+  while ((result = regex.exec(code)) !== null) {
+    if (result[0].length === 0) regex.lastIndex++;
+
+    // Ligne du premier caractère significatif: certains patterns commencent par des blancs
+    const leading = result[0].length - result[0].trimStart().length;
+    const line = code.slice(0, result.index + leading).split('\n').length;
+
+    // Les occurrences dans un commentaire ne comptent pas
+    if (lines[line - 1].trim().startsWith('--') || isSuppressed(suppressions, line, rule.name)) continue;
+
+    matches.push({ pattern: rule, line, match: truncateMatch(result[0].trim()) });
+    if (!rule.custom) break;
+  }
+
+  return matches;
+}
+
+function matchAst(rule: EngineRule, selector: AstRuleSelector, ast: Chunk, lines: string[], suppressions: Suppressions): AntiPatternMatch[] {
+  const matches: AntiPatternMatch[] = [];
+
+  walkAst(ast, node => {
+    let matched = false;
+    if (selector.call !== undefined && node.kind === 'CallExpression') {
+      matched = qualifiedName(node.callee) === selector.call && argumentMatches(node.arguments, selector.argument);
+    } else if (selector.method !== undefined && node.kind === 'MethodCallExpression') {
+      matched = node.method.name === selector.method && argumentMatches(node.arguments, selector.argument);
+    } else if (selector.member !== undefined && node.kind === 'MemberExpression') {
+      matched = qualifiedName(node) === selector.member;
+    }
+
+    const line = node.loc.start.line;
+    if (matched && !isSuppressed(suppressions, line, rule.name)) {
+      matches.push({ pattern: rule, line, match: truncateMatch(lines[line - 1].trim()) });
+    }
+  });
+
+  return matches;
+}
+
+function qualifiedName(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind === 'MemberExpression') {
+    const object = qualifiedName(expression.object);
+    return object ? `${object}.${expression.property.name}` : null;
+  }
+  return null;
+}
+
+function argumentMatches(args: Expression[], expected: string | undefined): boolean {
+  if (expected === undefined) return true;
+  return args[0]?.kind === 'StringLiteral' && args[0].value === expected;
+}
+
+function truncateMatch(match: string): string {
+  return match.substring(0, MAX_MATCH_LENGTH) + (match.length > MAX_MATCH_LENGTH ? '...' : '');
+}
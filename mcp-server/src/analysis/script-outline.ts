@@ -0,0 +1,158 @@
+/**
+ * Plan d'un script Luau: fonctions, méthodes, tables et exports avec leurs lignes,
+ * pour lire un gros module sans charger tout son contenu dans le contexte
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Expression, FunctionExpression, Node } from '../parser/ast.js';
+
+export type OutlineSymbolKind = 'function' | 'method' | 'table' | 'type' | 'export';
+
+export interface OutlineSymbol {
+  kind: OutlineSymbolKind;
+  name: string;
+  // Lignes 1-based, fin incluse
+  line: number;
+  endLine: number;
+  // Nombre de fonctions englobantes (0 pour le niveau du module)
+  depth: number;
+  // Paramètres des fonctions, nombre de champs des tables
+  detail?: string;
+  // Renvoyé par le module (return final) ou "export type"
+  exported: boolean;
+}
+
+export interface ScriptOutline {
+  lineCount: number;
+  symbols: OutlineSymbol[];
+  // Plan construit ligne par ligne faute d'AST (erreurs de syntaxe)
+  approximate: boolean;
+}
+
+// Repli sans AST: déclarations de fonctions en début de ligne
+const FUNCTION_LINE = /^(\s*)(?:local\s+)?function\s+([\w.:]+)\s*\(([^)]*)\)/;
+
+export function buildScriptOutline(content: string): ScriptOutline {
+  const lineCount = content.split('\n').length;
+  const { ast } = analyzeLuauSyntax(content);
+  if (!ast) {
+    return { lineCount, symbols: outlineFromLines(content), approximate: true };
+  }
+
+  const symbols: OutlineSymbol[] = [];
+  walkAst(ast, (node, parents) => {
+    const depth = parents.filter(parent => parent.kind === 'FunctionExpression').length;
+    const symbol = asOutlineSymbol(node, depth);
+    if (symbol) symbols.push(symbol);
+  });
+
+  // Le module exporte la valeur de son return final: `return Shop` exporte Shop et ses membres
+  const last = ast.body[ast.body.length - 1];
+  if (last?.kind === 'ReturnStatement' && last.values.length === 1) {
+    const exportedName = expressionName(last.values[0]);
+    if (exportedName) {
+      for (const symbol of symbols) {
+        if (symbol.depth === 0 && (symbol.name === exportedName || symbol.name.startsWith(`${exportedName}.`) || symbol.name.startsWith(`${exportedName}:`))) {
+          symbol.exported = true;
+        }
+      }
+    }
+    symbols.push({
+      kind: 'export',
+      name: exportedName ?? describeExpression(last.values[0]),
+      line: last.loc.start.line,
+      endLine: last.loc.end.line,
+      depth: 0,
+      exported: true
+    });
+  }
+
+  return { lineCount, symbols, approximate: false };
+}
+
+function asOutlineSymbol(node: Node, depth: number): OutlineSymbol | null {
+  const range = { line: node.loc.start.line, endLine: node.loc.end.line, depth, exported: false };
+
+  switch (node.kind) {
+    case 'FunctionStatement': {
+      const owner = node.path.slice(0, -1).map(part => part.name).join('.');
+      const name = node.path[node.path.length - 1].name;
+      return {
+        ...range,
+        kind: node.isMethod ? 'method' : 'function',
+        name: owner ? `${owner}${node.isMethod ? ':' : '.'}${name}` : name,
+        detail: describeParameters(node.func)
+      };
+    }
+
+    case 'LocalFunctionStatement':
+      return { ...range, kind: 'function', name: node.name.name, detail: describeParameters(node.func) };
+
+    case 'LocalStatement':
+    case 'AssignmentStatement': {
+      const targets = node.kind === 'LocalStatement' ? node.variables.map(variable => variable.name.name) : node.targets.map(expressionName);
+      const value = node.values[0];
+      if (targets.length !== 1 || !targets[0] || !value) return null;
+
+      if (value.kind === 'FunctionExpression') {
+        return { ...range, kind: 'function', name: targets[0], detail: describeParameters(value) };
+      }
+      // Seules les tables du niveau module structurent le script
+      if (value.kind === 'TableConstructor' && depth === 0) {
+        return { ...range, kind: 'table', name: targets[0], detail: `${value.fields.length} champ(s)` };
+      }
+      return null;
+    }
+
+    case 'TypeAliasStatement':
+      return { ...range, kind: 'type', name: node.name.name, exported: node.exported };
+
+    default:
+      return null;
+  }
+}
+
+function describeParameters(func: FunctionExpression): string {
+  const parameters = func.parameters.map(parameter => parameter.name.name);
+  if (func.isVararg) parameters.push('...');
+  return `(${parameters.join(', ')})`;
+}
+
+function expressionName(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind === 'MemberExpression') {
+    const object = expressionName(expression.object);
+    return object ? `${object}.${expression.property.name}` : null;
+  }
+  return null;
+}
+
+function describeExpression(expression: Expression): string {
+  switch (expression.kind) {
+    case 'TableConstructor': return '{ ... }';
+    case 'FunctionExpression': return 'function';
+    case 'CallExpression':
+    case 'MethodCallExpression': return 'appel';
+    default: return 'valeur';
+  }
+}
+
+function outlineFromLines(content: string): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  content.split('\n').forEach((text, index) => {
+    const match = FUNCTION_LINE.exec(text);
+    if (!match) return;
+    symbols.push({
+      kind: match[2].includes(':') ? 'method' : 'function',
+      name: match[2],
+      line: index + 1,
+      endLine: index + 1,
+      depth: match[1].length > 0 ? 1 : 0,
+      detail: `(${match[3].split(',').map(parameter => parameter.split(':')[0].trim()).filter(Boolean).join(', ')})`,
+      exported: false
+    });
+  });
+  return symbols;
+}
+
@@ -0,0 +1,486 @@
+/**
+ * Index des symboles du projet: fonctions locales, membres des tables de module, types exportés
+ * et noms de RemoteEvent, avec leurs références résolues à travers les require
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Binding, Chunk, Expression, FunctionExpression, Identifier, Node, SourceLocation } from '../parser/ast.js';
+import { RojoProjectTree, RojoInstance } from '../rojo/project-tree.js';
+import { RequireResolver } from './require-resolver.js';
+
+export type SymbolKind = 'function' | 'member' | 'method' | 'type' | 'remote';
+
+export interface SymbolDefinition {
+  // Clé partagée par la définition et ses références: "fichier#nom", "fichier#type:Nom" ou "remote:Nom"
+  key: string;
+  // Nom affiché: "getPrice", "Shop.buy", "Shop:buy", "Item", "BuyItem"
+  name: string;
+  kind: SymbolKind;
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  // Accessible depuis les autres scripts (membre du module renvoyé, export type, remote)
+  exported: boolean;
+  // Paramètres des fonctions, classe des remotes
+  detail?: string;
+}
+
+export interface SymbolReference {
+  key: string;
+  // Texte tel qu'écrit dans le script: "Shop.buy", "Shop:buy", "Types.Item", "BuyItem"
+  name: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface SymbolFilter {
+  file?: string;
+  kind?: SymbolKind;
+  // Sous-chaîne du nom, insensible à la casse
+  query?: string;
+}
+
+// Référence prise comme point de départ: le symbole tel qu'il est utilisé dans un script
+export interface SymbolContext {
+  file: string;
+  line?: number;
+}
+
+interface FileSymbols {
+  definitions: SymbolDefinition[];
+  references: SymbolReference[];
+  parsed: boolean;
+}
+
+// Classes créées par Instance.new dont le nom (propriété Name) identifie un remote
+export const REMOTE_CLASSES = new Set(['RemoteEvent', 'RemoteFunction', 'UnreliableRemoteEvent']);
+
+// Méthodes qui désignent une instance par son nom
+const CHILD_LOOKUP_METHODS = new Set(['WaitForChild', 'FindFirstChild']);
+
+// Les membres de la table renvoyée par le module sont indexés sous ce nom, quel que soit le nom local
+const MODULE_EXPORT = 'return';
+
+export class SymbolIndex {
+  private readonly files: Map<string, FileSymbols> = new Map();
+  private resolver: RequireResolver | null;
+
+  constructor(private tree: RojoProjectTree | null) {
+    this.resolver = tree ? new RequireResolver(tree) : null;
+  }
+
+  /**
+   * Indexe tous les scripts. `contents`: chemin relatif au projet → contenu.
+   */
+  static build(tree: RojoProjectTree | null, contents: Map<string, string>): SymbolIndex {
+    const index = new SymbolIndex(tree);
+    for (const [file, content] of contents) {
+      index.updateFile(file, content);
+    }
+    return index;
+  }
+
+  updateFile(file: string, content: string): void {
+    this.files.set(file, this.indexFile(file, content));
+  }
+
+  removeFile(file: string): void {
+    this.files.delete(file);
+  }
+
+  getIndexedFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  /**
+   * Fichiers ignorés faute d'AST (erreurs de syntaxe)
+   */
+  getUnparsedFiles(): string[] {
+    return Array.from(this.files.entries()).filter(([, symbols]) => !symbols.parsed).map(([file]) => file);
+  }
+
+  listSymbols(filter: SymbolFilter = {}): SymbolDefinition[] {
+    const query = filter.query?.toLowerCase();
+    return this.allDefinitions().filter(definition =>
+      (!filter.file || definition.file === filter.file) &&
+      (!filter.kind || definition.kind === filter.kind) &&
+      (!query || definition.name.toLowerCase().includes(query))
+    );
+  }
+
+  /**
+   * Définitions d'un symbole. Avec un contexte, le nom est résolu comme il est utilisé dans ce script
+   * (alias de require, table du module); sinon il est cherché par nom complet, puis par nom court.
+   */
+  findDefinitions(symbol: string, context?: SymbolContext): SymbolDefinition[] {
+    const keys = this.resolveKeys(symbol, context);
+    const definitions = this.allDefinitions();
+    if (keys.size > 0) {
+      const resolved = definitions.filter(definition => keys.has(definition.key));
+      if (resolved.length > 0 || context) return resolved;
+    }
+
+    const wanted = normalizeName(symbol);
+    const exact = definitions.filter(definition => normalizeName(definition.name) === wanted);
+    if (exact.length > 0) return exact;
+    const shortName = wanted.split('.').pop();
+    return definitions.filter(definition => normalizeName(definition.name).split('.').pop() === shortName);
+  }
+
+  /**
+   * Utilisations d'un symbole dans tout le projet, définitions exclues
+   */
+  findReferences(symbol: string, context?: SymbolContext): { definitions: SymbolDefinition[]; references: SymbolReference[] } {
+    const definitions = this.findDefinitions(symbol, context);
+    // Sans définition, un remote peut tout de même être cherché par WaitForChild
+    const keys = definitions.length > 0
+      ? new Set(definitions.map(definition => definition.key))
+      : new Set([...this.resolveKeys(symbol, context), remoteKey(symbol.trim())]);
+
+    const references = Array.from(this.files.values())
+      .flatMap(symbols => symbols.references)
+      .filter(reference => keys.has(reference.key))
+      .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+    return { definitions, references };
+  }
+
+  private allDefinitions(): SymbolDefinition[] {
+    const definitions = Array.from(this.files.values()).flatMap(symbols => symbols.definitions);
+    return [...definitions, ...this.treeRemotes(definitions)]
+      .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+  }
+
+  /**
+   * Remotes décrits par des fichiers Rojo (.model.json), sauf s'ils sont déjà créés par un script
+   */
+  private treeRemotes(definitions: SymbolDefinition[]): SymbolDefinition[] {
+    if (!this.tree) return [];
+    const known = new Set(definitions.filter(definition => definition.kind === 'remote').map(definition => definition.key));
+    const remotes: SymbolDefinition[] = [];
+
+    const visit = (instance: RojoInstance) => {
+      if (REMOTE_CLASSES.has(instance.className) && instance.filePath && !known.has(remoteKey(instance.name))) {
+        remotes.push({
+          key: remoteKey(instance.name),
+          name: instance.name,
+          kind: 'remote',
+          file: instance.filePath,
+          line: 1,
+          column: 1,
+          endLine: 1,
+          exported: true,
+          detail: `${instance.className} ${RojoProjectTree.fullName(instance)}`
+        });
+      }
+      instance.children.forEach(visit);
+    };
+    visit(this.tree.getRoot());
+    return remotes;
+  }
+
+  /**
+   * Clés des références du script de contexte qui correspondent au nom (et à la ligne si donnée)
+   */
+  private resolveKeys(symbol: string, context?: SymbolContext): Set<string> {
+    const wanted = normalizeName(symbol);
+    const keys = new Set<string>();
+    if (!context) return keys;
+
+    const symbols = this.files.get(context.file);
+    if (!symbols) return keys;
+    for (const item of [...symbols.references, ...symbols.definitions]) {
+      if (normalizeName(item.name) !== wanted) continue;
+      if (context.line !== undefined && item.line !== context.line) continue;
+      keys.add(item.key);
+    }
+    return keys;
+  }
+
+  private indexFile(file: string, content: string): FileSymbols {
+    const { ast } = analyzeLuauSyntax(content);
+    if (!ast) return { definitions: [], references: [], parsed: false };
+
+    const scope = this.collectModuleScope(file, content, ast);
+    return {
+      definitions: this.collectDefinitions(file, ast, scope),
+      references: this.collectReferences(file, ast, scope),
+      parsed: true
+    };
+  }
+
+  /**
+   * Noms du niveau module: table renvoyée, tables et fonctions locales, alias de require
+   */
+  private collectModuleScope(file: string, content: string, ast: Chunk): ModuleScope {
+    const last = ast.body[ast.body.length - 1];
+    const exported = last?.kind === 'ReturnStatement' && last.values[0]?.kind === 'Identifier' ? last.values[0].name : undefined;
+    const scope: ModuleScope = { exported, tables: new Set(), functions: new Set(), imports: new Map(), types: new Set() };
+
+    // require résolus, repérés par la position de l'appel
+    const requires = new Map<string, string>();
+    for (const reference of this.resolver?.resolveRequires(file, content) ?? []) {
+      if (reference.status === 'resolved' && reference.resolvedFile) {
+        requires.set(`${reference.line}:${reference.column}`, reference.resolvedFile);
+      }
+    }
+
+    for (const statement of ast.body) {
+      if (statement.kind === 'LocalFunctionStatement') {
+        scope.functions.add(statement.name.name);
+      } else if (statement.kind === 'TypeAliasStatement' && statement.exported) {
+        scope.types.add(statement.name.name);
+      } else if (statement.kind === 'LocalStatement') {
+        statement.variables.forEach((variable, index) => {
+          const value = statement.values[index];
+          if (value?.kind === 'TableConstructor') scope.tables.add(variable.name.name);
+          if (value?.kind === 'FunctionExpression') scope.functions.add(variable.name.name);
+          if (value?.kind === 'CallExpression') {
+            const target = requires.get(`${value.loc.start.line}:${value.loc.start.column}`);
+            if (target) scope.imports.set(variable.name.name, target);
+          }
+        });
+      }
+    }
+    return scope;
+  }
+
+  private collectDefinitions(file: string, ast: Chunk, scope: ModuleScope): SymbolDefinition[] {
+    const definitions: SymbolDefinition[] = [];
+    const add = (definition: Omit<SymbolDefinition, 'file'>) => definitions.push({ ...definition, file });
+
+    // Membre d'une table du module: "Shop.buy" (clé "fichier#return.buy" si Shop est renvoyé)
+    const addMember = (path: string[], node: { loc: SourceLocation }, isMethod: boolean, func?: FunctionExpression) => {
+      const [root, ...members] = path;
+      if (members.length === 0 || !(root === scope.exported || scope.tables.has(root))) return;
+      const separator = isMethod ? ':' : '.';
+      add({
+        key: memberKey(file, root === scope.exported ? MODULE_EXPORT : root, members),
+        name: `${[root, ...members.slice(0, -1)].join('.')}${separator}${members[members.length - 1]}`,
+        kind: isMethod ? 'method' : func ? 'function' : 'member',
+        line: node.loc.start.line,
+        column: node.loc.start.column,
+        endLine: node.loc.end.line,
+        exported: root === scope.exported,
+        detail: func ? describeParameters(func) : undefined
+      });
+    };
+
+    // Remotes créés par Instance.new, nommés ensuite par `remote.Name = "..."`
+    const remoteVariables = new Map<string, string>();
+
+    for (const statement of ast.body) {
+      if (statement.kind === 'LocalFunctionStatement') {
+        add({
+          key: `${file}#${statement.name.name}`,
+          name: statement.name.name,
+          kind: 'function',
+          line: statement.loc.start.line,
+          column: statement.loc.start.column,
+          endLine: statement.loc.end.line,
+          exported: false,
+          detail: describeParameters(statement.func)
+        });
+      } else if (statement.kind === 'LocalStatement') {
+        statement.variables.forEach((variable, index) => {
+          const value = statement.values[index];
+          if (value?.kind === 'FunctionExpression') {
+            add({
+              key: `${file}#${variable.name.name}`,
+              name: variable.name.name,
+              kind: 'function',
+              line: statement.loc.start.line,
+              column: statement.loc.start.column,
+              endLine: statement.loc.end.line,
+              exported: false,
+              detail: describeParameters(value)
+            });
+          } else if (value?.kind === 'TableConstructor') {
+            for (const field of value.fields) {
+              if (field.type === 'named' && field.key?.kind === 'Identifier') {
+                const func = field.value.kind === 'FunctionExpression' ? field.value : undefined;
+                addMember([variable.name.name, field.key.name], field, false, func);
+              }
+            }
+          }
+        });
+      } else if (statement.kind === 'TypeAliasStatement' && statement.exported) {
+        add({
+          key: `${file}#type:${statement.name.name}`,
+          name: statement.name.name,
+          kind: 'type',
+          line: statement.loc.start.line,
+          column: statement.loc.start.column,
+          endLine: statement.loc.end.line,
+          exported: true
+        });
+      } else if (statement.kind === 'FunctionStatement') {
+        addMember(statement.path.map(part => part.name), statement, statement.isMethod, statement.func);
+      } else if (statement.kind === 'AssignmentStatement' && statement.targets.length === 1) {
+        const path = expressionPath(statement.targets[0]);
+        const value = statement.values[0];
+        if (path && value) {
+          addMember(path, statement, false, value.kind === 'FunctionExpression' ? value : undefined);
+        }
+      }
+    }
+
+    walkAst(ast, node => {
+      if (node.kind === 'LocalStatement') {
+        node.variables.forEach((variable, index) => {
+          const className = instanceNewClass(node.values[index]);
+          if (className && REMOTE_CLASSES.has(className)) remoteVariables.set(variable.name.name, className);
+        });
+      } else if (node.kind === 'AssignmentStatement' && node.targets.length === 1) {
+        const target = node.targets[0];
+        const value = node.values[0];
+        if (target.kind === 'MemberExpression' && target.property.name === 'Name' &&
+            target.object.kind === 'Identifier' && remoteVariables.has(target.object.name) &&
+            value?.kind === 'StringLiteral') {
+          add({
+            key: remoteKey(value.value),
+            name: value.value,
+            kind: 'remote',
+            line: node.loc.start.line,
+            column: node.loc.start.column,
+            endLine: node.loc.end.line,
+            exported: true,
+            detail: remoteVariables.get(target.object.name)
+          });
+        }
+      }
+    });
+
+    return definitions;
+  }
+
+  private collectReferences(file: string, ast: Chunk, scope: ModuleScope): SymbolReference[] {
+    const references: SymbolReference[] = [];
+    const add = (key: string, name: string, node: Node | Identifier) => references.push({
+      key,
+      name,
+      file,
+      line: node.loc.start.line,
+      column: node.loc.start.column
+    });
+
+    // Clé du préfixe d'un accès membre: module requis, table du module ou table renvoyée
+    const baseKey = (root: string): string | undefined => {
+      const imported = scope.imports.get(root);
+      if (imported) return `${imported}#${MODULE_EXPORT}`;
+      if (root === scope.exported) return `${file}#${MODULE_EXPORT}`;
+      if (scope.tables.has(root)) return `${file}#${root}`;
+      return undefined;
+    };
+
+    walkAst(ast, (node, parents) => {
+      const parent = parents[0];
+      switch (node.kind) {
+        case 'Identifier': {
+          // Les noms de champ et de méthode sont traités avec leur accès
+          if (parent?.kind === 'MemberExpression' && parent.property === node) return;
+          if (parent?.kind === 'MethodCallExpression' && parent.method === node) return;
+          if (scope.functions.has(node.name) && !isDeclaredName(node, parent)) add(`${file}#${node.name}`, node.name, node);
+          return;
+        }
+
+        case 'MemberExpression': {
+          // Une affectation de membre le définit (ou le remplace), ce n'est pas une utilisation
+          if (parent?.kind === 'AssignmentStatement' && parent.targets.includes(node)) return;
+          const path = expressionPath(node);
+          const base = path ? baseKey(path[0]) : undefined;
+          if (path && base) add(`${base}.${path.slice(1).join('.')}`, path.join('.'), node.property);
+          return;
+        }
+
+        case 'MethodCallExpression': {
+          if (CHILD_LOOKUP_METHODS.has(node.method.name) && node.arguments[0]?.kind === 'StringLiteral') {
+            add(remoteKey(node.arguments[0].value), node.arguments[0].value, node.arguments[0]);
+          }
+          const path = expressionPath(node.object);
+          const base = path ? baseKey(path[0]) : undefined;
+          if (path && base) {
+            const members = [...path.slice(1), node.method.name];
+            add(`${base}.${members.join('.')}`, `${path.join('.')}:${node.method.name}`, node.method);
+          }
+          return;
+        }
+
+        case 'TypeReference': {
+          if (node.prefix) {
+            const imported = scope.imports.get(node.prefix);
+            if (imported) add(`${imported}#type:${node.name}`, `${node.prefix}.${node.name}`, node);
+          } else if (scope.types.has(node.name)) {
+            add(`${file}#type:${node.name}`, node.name, node);
+          }
+          return;
+        }
+      }
+    });
+
+    return references;
+  }
+}
+
+interface ModuleScope {
+  // Nom local de la table renvoyée par `return Nom`
+  exported?: string;
+  tables: Set<string>;
+  functions: Set<string>;
+  // Alias local → fichier du module requis
+  imports: Map<string, string>;
+  types: Set<string>;
+}
+
+/**
+ * Identifiant déclaré par son parent (nom de fonction locale, variable, paramètre, variable de boucle)
+ */
+function isDeclaredName(node: Identifier, parent: Node | undefined): boolean {
+  const declares = (bindings: Binding[]) => bindings.some(binding => binding.name === node);
+  switch (parent?.kind) {
+    case 'LocalFunctionStatement': return parent.name === node;
+    case 'FunctionStatement': return parent.path.includes(node);
+    case 'LocalStatement': return declares(parent.variables);
+    case 'FunctionExpression': return declares(parent.parameters);
+    case 'NumericForStatement': return declares([parent.variable]);
+    case 'GenericForStatement': return declares(parent.variables);
+    default: return false;
+  }
+}
+
+function remoteKey(name: string): string {
+  return `remote:${name}`;
+}
+
+function memberKey(file: string, root: string, members: string[]): string {
+  return `${file}#${[root, ...members].join('.')}`;
+}
+
+// "." et ":" sont équivalents pour les recherches
+function normalizeName(name: string): string {
+  return name.trim().replace(/:/g, '.');
+}
+
+function expressionPath(expression: Expression): string[] | null {
+  if (expression.kind === 'Identifier') return [expression.name];
+  if (expression.kind === 'MemberExpression') {
+    const object = expressionPath(expression.object);
+    return object ? [...object, expression.property.name] : null;
+  }
+  return null;
+}
+
+function instanceNewClass(expression: Expression | undefined): string | undefined {
+  if (expression?.kind !== 'CallExpression') return undefined;
+  const callee = expressionPath(expression.callee);
+  const argument = expression.arguments[0];
+  return callee?.join('.') === 'Instance.new' && argument?.kind === 'StringLiteral' ? argument.value : undefined;
+}
+
+function describeParameters(func: FunctionExpression): string {
+  const parameters = func.parameters.map(parameter => parameter.name.name);
+  if (func.isVararg) parameters.push('...');
+  return `(${parameters.join(', ')})`;
+}
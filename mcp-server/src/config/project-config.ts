@@ -0,0 +1,69 @@
+/**
+ * Per-project MCP configuration stored in .mcp-roblox/config.json
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { TokenCounterName } from '../utils/token-counter.js';
+
+// Directory holding the server's per-project state (config, history...)
+export const MCP_DIRECTORY = '.mcp-roblox';
+export const CONFIG_FILE = 'config.json';
+
+export interface HistoryConfig {
+  // Versions kept per file (null = unlimited)
+  maxVersions: number | null;
+  // Versions older than this are pruned (null = never)
+  maxAgeDays: number | null;
+  // A full copy of the file is stored every N versions, diffs in between
+  checkpointInterval: number;
+}
+
+export interface TokensConfig {
+  // 'vocabulary' (greedy match against a built-in vocabulary) or 'heuristic' (~4 characters per token)
+  counter: TokenCounterName;
+  contextWindow: number;
+}
+
+export interface ProjectConfig {
+  history: HistoryConfig;
+  tokens: TokensConfig;
+}
+
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  history: {
+    maxVersions: null,
+    maxAgeDays: null,
+    checkpointInterval: 10
+  },
+  tokens: {
+    counter: 'vocabulary',
+    contextWindow: 200000
+  }
+};
+
+export function getMcpDirectory(projectRoot: string): string {
+  return path.join(projectRoot, MCP_DIRECTORY);
+}
+
+/**
+ * Load .mcp-roblox/config.json merged over the defaults
+ */
+export async function loadProjectConfig(projectRoot: string): Promise<ProjectConfig> {
+  const configPath = path.join(getMcpDirectory(projectRoot), CONFIG_FILE);
+
+  if (!await fs.pathExists(configPath)) {
+    return structuredClone(DEFAULT_PROJECT_CONFIG);
+  }
+
+  try {
+    const config = await fs.readJson(configPath);
+    return {
+      history: { ...DEFAULT_PROJECT_CONFIG.history, ...config.history },
+      tokens: { ...DEFAULT_PROJECT_CONFIG.tokens, ...config.tokens }
+    };
+  } catch (error) {
+    console.error(`⚠️ ${MCP_DIRECTORY}/${CONFIG_FILE} invalide, configuration par défaut utilisée:`, error);
+    return structuredClone(DEFAULT_PROJECT_CONFIG);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Per-project anti-pattern rules stored in .mcp-roblox/rules.json
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { MCP_DIRECTORY, getMcpDirectory } from './project-config.js';
+
+export const RULES_FILE = 'rules.json';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export interface RuleOverride {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  // Globs relative to the project root: the rule only runs on matching files
+  files?: string[];
+  // Globs relative to the project root: the rule never runs on matching files
+  exclude?: string[];
+}
+
+// "off", a severity, or a full override
+export type RuleSetting = 'off' | RuleSeverity | RuleOverride;
+
+/**
+ * AST matcher for custom rules, exactly one of call, method or member
+ */
+export interface AstRuleSelector {
+  // Function call by qualified name: "print", "Instance.new"
+  call?: string;
+  // Method call by name: "Destroy", "GetChildren"
+  method?: string;
+  // Member access by qualified name: "workspace.CurrentCamera"
+  member?: string;
+  // Expected first string argument of a call or method call: "Part"
+  argument?: string;
+}
+
+export interface CustomRuleConfig extends RuleOverride {
+  name: string;
+  description: string;
+  // Regular expression source, matched on the whole script
+  pattern?: string;
+  flags?: string;
+  ast?: AstRuleSelector;
+  fix?: string;
+  example?: string;
+}
+
+export interface RulesConfig {
+  // Settings of built-in and custom rules, by rule name
+  rules: Record<string, RuleSetting>;
+  // Files skipped by every rule
+  ignore: string[];
+  custom: CustomRuleConfig[];
+}
+
+export const DEFAULT_RULES_CONFIG: RulesConfig = {
+  rules: {},
+  ignore: [],
+  custom: []
+};
+
+export function getRulesPath(projectRoot: string): string {
+  return path.join(getMcpDirectory(projectRoot), RULES_FILE);
+}
+
+/**
+ * Load .mcp-roblox/rules.json, or the defaults (every built-in rule enabled)
+ * The sections are returned as written: RuleEngine checks their shape and reports problems
+ */
+export async function loadRulesConfig(projectRoot: string): Promise<RulesConfig> {
+  const rulesPath = getRulesPath(projectRoot);
+
+  if (!await fs.pathExists(rulesPath)) {
+    return structuredClone(DEFAULT_RULES_CONFIG);
+  }
+
+  try {
+    const config = await fs.readJson(rulesPath);
+    return {
+      rules: config.rules ?? {},
+      ignore: config.ignore ?? [],
+      custom: config.custom ?? []
+    };
+  } catch (error) {
+    console.error(`⚠️ ${MCP_DIRECTORY}/${RULES_FILE} invalide, règles par défaut utilisées:`, error);
+    return structuredClone(DEFAULT_RULES_CONFIG);
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { buildDocsIndex, tokenizeDocText, DocsIndex } from '../docs-index.js';
+
+const PAGES: Record<string, string> = {
+  'content/en-us/scripting/events/remote.md': [
+    '---',
+    'title: Remote events and callbacks',
+    'description: Communicate across the client-server boundary.',
+    '---',
+    '',
+    'Roblox runs on a client-server model.',
+    '',
+    '## Client to server',
+    '',
+    'Use `Class.RemoteEvent:FireServer()` to send a message from a client to the server.',
+    '',
+    '```lua',
+    'local remoteEvent = ReplicatedStorage:WaitForChild("RemoteEventTest")',
+    'remoteEvent:FireServer(Color3.fromRGB(255, 0, 0))',
+    '```',
+    '',
+    '## Server to client',
+    '',
+    'Use FireClient to reach a single player.'
+  ].join('\n'),
+  'content/en-us/tutorials/first-game.md': [
+    '# Build your first game',
+    '',
+    'Create a part and make it spin with a RemoteEvent when a player touches it.'
+  ].join('\n'),
+  'content/en-us/reference/engine/classes/RemoteEvent.yaml': [
+    'name: RemoteEvent',
+    'type: class',
+    'summary: |',
+    '  Enables asynchronous, one-way communication across the client-server boundary.',
+    'methods:',
+    '  - name: RemoteEvent:FireServer',
+    '    summary: |',
+    '      Fires the OnServerEvent event on the server from one client.',
+    '  - name: RemoteEvent:FireAllClients',
+    '    summary: |',
+    '      Fires the OnClientEvent event for each connected client.'
+  ].join('\n')
+};
+
+describe('DocsIndex', () => {
+  let docsRoot: string;
+  let index: DocsIndex;
+
+  beforeAll(async () => {
+    docsRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-docs-'));
+    for (const [file, content] of Object.entries(PAGES)) {
+      await fs.outputFile(path.join(docsRoot, file), content);
+    }
+    index = await buildDocsIndex(docsRoot);
+  });
+
+  afterAll(async () => {
+    await fs.remove(docsRoot);
+  });
+
+  it('should split identifiers into searchable terms', () => {
+    expect(tokenizeDocText('the FireAllClients method')).toEqual(['fireallclients', 'fire', 'all', 'clients', 'method']);
+  });
+
+  it('should index Markdown sections and YAML members', () => {
+    expect(index.fileCount).toBe(3);
+
+    const [best] = index.search('FireServer client', { category: 'guide' });
+    expect(best.section.title).toBe('Remote events and callbacks');
+    expect(best.section.headings).toEqual(['Client to server']);
+    expect(best.section.codeExamples[0]).toContain('remoteEvent:FireServer');
+
+    const [member] = index.search('FireAllClients');
+    expect(member.section).toMatchObject({ title: 'RemoteEvent', headings: ['RemoteEvent:FireAllClients'], category: 'api' });
+  });
+
+  it('should filter results by category', () => {
+    const tutorials = index.search('RemoteEvent', { category: 'tutorial' });
+    expect(tutorials.map(result => result.section.file)).toEqual(['content/en-us/tutorials/first-game.md']);
+    expect(tutorials[0].section.title).toBe('Build your first game');
+
+    expect(index.search('RemoteEvent', { category: 'guide' }).every(result => result.section.category === 'guide')).toBe(true);
+    expect(index.search('nonexistentterm')).toEqual([]);
+  });
+});
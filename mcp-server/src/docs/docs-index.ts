@@ -0,0 +1,303 @@
+/**
+ * Index hors ligne de la documentation Roblox: pages Markdown/YAML locales (ex: export du dépôt creator-docs)
+ * découpées en sections et classées par BM25
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import { parse as parseYaml } from 'yaml';
+
+// Dossier par défaut dans .mcp-roblox
+export const DOCS_DIRECTORY = 'docs';
+
+export type DocCategory = 'api' | 'tutorial' | 'guide';
+
+export interface DocSection {
+  // Fichier relatif au dossier indexé
+  file: string;
+  category: DocCategory;
+  // Titre de la page
+  title: string;
+  // Titres de section depuis la page (ex: ["Remote events", "Client → server"])
+  headings: string[];
+  text: string;
+  codeExamples: string[];
+}
+
+export interface DocSearchResult {
+  section: DocSection;
+  score: number;
+  snippet: string;
+}
+
+// Paramètres BM25 usuels
+const K1 = 1.2;
+const B = 0.75;
+// Les termes du titre et des intertitres comptent plus que ceux du corps
+const HEADING_WEIGHT = 3;
+const SNIPPET_LENGTH = 280;
+
+const DOC_PATTERNS = ['**/*.md', '**/*.yaml', '**/*.yml'];
+const IGNORED_PATTERNS = ['**/node_modules/**', '**/.git/**'];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'with', 'you', 'your', 'le', 'la', 'les', 'un', 'une', 'des', 'de', 'du', 'et'
+]);
+
+// Membres des pages de référence YAML (classes, datatypes, enums...)
+const YAML_MEMBER_LISTS = ['properties', 'methods', 'functions', 'events', 'callbacks', 'constructors', 'items', 'math_operations'];
+
+/**
+ * Termes d'un texte: minuscules, sans mots vides; les identifiants en camelCase donnent aussi leurs parties
+ * (GetPlayers → getplayers, get, players)
+ */
+export function tokenizeDocText(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9_]+/g) ?? []) {
+    const lower = word.toLowerCase();
+    if (!STOP_WORDS.has(lower) && lower.length > 1) terms.push(lower);
+
+    const parts = word.split(/_|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const lowerPart = part.toLowerCase();
+        if (!STOP_WORDS.has(lowerPart) && lowerPart.length > 1) terms.push(lowerPart);
+      }
+    }
+  }
+
+  return terms;
+}
+
+function categoryOf(file: string): DocCategory {
+  const segments = file.toLowerCase().split('/');
+  if (segments.includes('reference') || file.toLowerCase().endsWith('.yaml') || file.toLowerCase().endsWith('.yml')) return 'api';
+  if (segments.includes('tutorials')) return 'tutorial';
+  return 'guide';
+}
+
+/**
+ * Sépare le texte des blocs de code ``` d'un contenu Markdown
+ */
+function extractCodeBlocks(markdown: string): { text: string; code: string[] } {
+  const code: string[] = [];
+  const text = markdown.replace(/```[^\n]*\n([\s\S]*?)```/g, (_match, block: string) => {
+    code.push(block.replace(/\n$/, ''));
+    return '';
+  });
+  return { text, code };
+}
+
+// Markdown → texte lisible pour les extraits (liens, balises, emphase)
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`>#|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseMarkdownPage(file: string, content: string): DocSection[] {
+  const category = categoryOf(file);
+  let body = content;
+  let title = path.basename(file).replace(/\.md$/i, '');
+
+  // Frontmatter YAML: title et description
+  const frontmatter = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (frontmatter) {
+    try {
+      const data = parseYaml(frontmatter[1]);
+      if (typeof data?.title === 'string') title = data.title;
+      if (typeof data?.description === 'string') body = `${data.description}\n\n${body.slice(frontmatter[0].length)}`;
+      else body = body.slice(frontmatter[0].length);
+    } catch {
+      body = body.slice(frontmatter[0].length);
+    }
+  }
+
+  const sections: DocSection[] = [];
+  const headingStack: { level: number; text: string }[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const { text, code } = extractCodeBlocks(current.join('\n'));
+    const plain = plainText(text);
+    if (plain || code.length > 0) {
+      sections.push({ file, category, title, headings: headingStack.map(heading => heading.text), text: plain, codeExamples: code });
+    }
+    current = [];
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    const heading = !inFence ? line.match(/^(#{1,4})\s+(.+?)\s*#*\s*$/) : null;
+
+    if (!heading) {
+      current.push(line);
+      continue;
+    }
+
+    flush();
+    const level = heading[1].length;
+    // Un titre de niveau 1 remplace le titre de la page
+    if (level === 1 && sections.length === 0 && headingStack.length === 0) {
+      title = plainText(heading[2]);
+      continue;
+    }
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) headingStack.pop();
+    headingStack.push({ level, text: plainText(heading[2]) });
+  }
+  flush();
+
+  return sections;
+}
+
+function yamlText(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function parseYamlPage(file: string, content: string): DocSection[] {
+  const data = parseYaml(content);
+  if (!data || typeof data !== 'object') return [];
+
+  const category = categoryOf(file);
+  const title = typeof data.name === 'string' ? data.name : path.basename(file).replace(/\.ya?ml$/i, '');
+  const sections: DocSection[] = [];
+
+  const addSection = (headings: string[], entry: Record<string, unknown>) => {
+    const { text, code } = extractCodeBlocks(`${yamlText(entry.summary)}\n\n${yamlText(entry.description)}`);
+    const examples = Array.isArray(entry.code_samples)
+      ? entry.code_samples.filter((sample): sample is string => typeof sample === 'string' && sample.includes('\n'))
+      : [];
+    const plain = plainText(text);
+    if (plain || code.length > 0 || examples.length > 0) {
+      sections.push({ file, category, title, headings, text: plain, codeExamples: [...code, ...examples] });
+    }
+  };
+
+  addSection([], data);
+
+  for (const list of YAML_MEMBER_LISTS) {
+    if (!Array.isArray(data[list])) continue;
+    for (const entry of data[list]) {
+      if (entry && typeof entry === 'object' && typeof entry.name === 'string') {
+        addSection([entry.name], entry);
+      }
+    }
+  }
+
+  return sections;
+}
+
+export class DocsIndex {
+  private readonly sections: DocSection[] = [];
+  // terme → (section → occurrences pondérées)
+  private readonly postings: Map<string, Map<number, number>> = new Map();
+  private readonly lengths: number[] = [];
+  private averageLength = 0;
+
+  constructor(readonly rootDir: string) {}
+
+  get sectionCount(): number {
+    return this.sections.length;
+  }
+
+  get fileCount(): number {
+    return new Set(this.sections.map(section => section.file)).size;
+  }
+
+  /**
+   * Indexe une page; les fichiers illisibles ou mal formés sont ignorés
+   */
+  addPage(file: string, content: string): void {
+    let pageSections: DocSection[];
+    try {
+      pageSections = /\.ya?ml$/i.test(file) ? parseYamlPage(file, content) : parseMarkdownPage(file, content);
+    } catch {
+      return;
+    }
+
+    for (const section of pageSections) {
+      const id = this.sections.length;
+      this.sections.push(section);
+
+      const headingTerms = tokenizeDocText([section.title, ...section.headings].join(' '));
+      const terms = [...tokenizeDocText(section.text), ...tokenizeDocText(section.codeExamples.join('\n'))];
+      const frequencies = new Map<string, number>();
+      headingTerms.forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + HEADING_WEIGHT));
+      terms.forEach(term => frequencies.set(term, (frequencies.get(term) ?? 0) + 1));
+
+      for (const [term, frequency] of frequencies) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(id, frequency);
+      }
+
+      this.lengths.push(headingTerms.length * HEADING_WEIGHT + terms.length);
+    }
+
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (this.lengths.length || 1);
+  }
+
+  search(query: string, options: { category?: DocCategory | 'all'; limit?: number } = {}): DocSearchResult[] {
+    const { category = 'all', limit = 5 } = options;
+    const queryTerms = Array.from(new Set(tokenizeDocText(query)));
+    if (queryTerms.length === 0) return [];
+
+    const scores = new Map<number, number>();
+    const total = this.sections.length;
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (category !== 'all' && this.sections[id].category !== category) continue;
+        const norm = K1 * (1 - B + B * this.lengths[id] / this.averageLength);
+        scores.set(id, (scores.get(id) ?? 0) + idf * (frequency * (K1 + 1)) / (frequency + norm));
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => ({ section: this.sections[id], score, snippet: this.snippet(this.sections[id].text, queryTerms) }));
+  }
+
+  // Fenêtre du texte autour de la première occurrence d'un terme recherché
+  private snippet(text: string, queryTerms: string[]): string {
+    if (text.length <= SNIPPET_LENGTH) return text;
+
+    const lower = text.toLowerCase();
+    const positions = queryTerms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+    const first = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, first - SNIPPET_LENGTH / 4);
+    const excerpt = text.slice(start, start + SNIPPET_LENGTH).trim();
+
+    return `${start > 0 ? '…' : ''}${excerpt}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+  }
+}
+
+/**
+ * Indexe toutes les pages Markdown/YAML d'un dossier
+ */
+export async function buildDocsIndex(rootDir: string): Promise<DocsIndex> {
+  const index = new DocsIndex(rootDir);
+  const files = await glob(DOC_PATTERNS, { cwd: rootDir, ignore: IGNORED_PATTERNS, nodir: true, posix: true });
+
+  for (const file of files.sort()) {
+    const content = await fs.readFile(path.join(rootDir, file), 'utf-8');
+    index.addPage(file, content);
+  }
+
+  return index;
+}
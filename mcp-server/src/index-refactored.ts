@@ -1,914 +0,0 @@
-#!/usr/bin/env node
-
-/**
- * MCP-Roblox Server - Refactored modular version
- */
-
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
-} from "@modelcontextprotocol/sdk/types.js";
-import path from "path";
-import chokidar from "chokidar";
-
-// Import managers
-import { FileManager } from './managers/file-manager.js';
-import { PatchManager } from './managers/patch-manager.js';
-import { RollbackManager } from './managers/rollback-manager.js';
-import { ValidationManager } from './managers/validation-manager.js';
-import { TokenManager } from './managers/token-manager.js';
-
-// Import utilities
-import { analyzeError, generateErrorAnalysisReport } from '../error-handler.js';
-import { checkWorkflowCompliance, getSyntaxReminder, SYNTAX_RULES } from '../syntax-rules.js';
-import { MCPPathMiddleware, formatPathError } from './utils/mcp-path-wrapper.js';
-import { getContextualReminder, enhanceToolDescription, detectCommonMistakes } from './utils/claude-rules.js';
-import { patchTemplates, countSyntaxElements, validateSyntaxBalance, suggestSyntaxFixes } from '../patch-templates.js';
-import { getTemplate, getTemplatesByCategory, applyTemplate } from '../templates.js';
-import { getServiceAPI, searchAPIs } from '../roblox-apis.js';
-import validateGame from '../validate-game.js';
-import compileCheck from '../compile-check.js';
-
-export class RojoMCPServer {
-  private server: Server;
-  private projectRoot: string;
-  
-  // Managers
-  private fileManager: FileManager;
-  private patchManager: PatchManager;
-  private rollbackManager: RollbackManager;
-  private validationManager: ValidationManager;
-  private tokenManager: TokenManager;
-  
-  // State
-  private fileWatcher: chokidar.FSWatcher | null = null;
-  private toolHistory: string[] = [];
-  private readonly MAX_TOOL_HISTORY = 20;
-  private chainOfThoughtEnabled = false;
-  private thoughtHistory: any[] = [];
-  private pathMiddleware: MCPPathMiddleware;
-
-  constructor() {
-    this.projectRoot = process.cwd();
-    
-    // Initialize managers
-    this.fileManager = new FileManager(this.projectRoot);
-    this.rollbackManager = new RollbackManager(this.projectRoot);
-    this.tokenManager = new TokenManager();
-    this.validationManager = new ValidationManager(this.projectRoot);
-    this.patchManager = new PatchManager(this.fileManager, this.rollbackManager);
-    this.pathMiddleware = new MCPPathMiddleware();
-    
-    // Initialize server
-    this.server = new Server(
-      {
-        name: "mcp-roblox-rojo",
-        version: "0.2.0", // Bumped version for refactored code
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    this.setupHandlers();
-    this.initializeFileWatching();
-  }
-
-  /**
-   * Setup MCP request handlers
-   */
-  private setupHandlers() {
-    // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = this.getToolDefinitions();
-      
-      // Add a special "rules" tool that Claude will see
-      tools.unshift({
-        name: "_IMPORTANT_RULES",
-        description: "⚠️ RÈGLES CRITIQUES:\n" +
-                    "1. TOUJOURS utiliser des forward slashes (/) dans les chemins\n" +
-                    "   ✅ src/server/main.server.luau\n" +
-                    "   ❌ src\\server\\main.server.luau\n" +
-                    "2. TOUJOURS chercher et lire avant de modifier\n" +
-                    "3. Faire le MINIMUM de changements nécessaires\n" +
-                    "4. Pour les erreurs, utiliser analyze_error en premier",
-        inputSchema: { type: "object", properties: {} }
-      } as Tool);
-      
-      return { tools };
-    });
-
-    // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      // Process paths and get corrections
-      const { processed: processedArgs, corrections } = this.pathMiddleware.processArgs(args);
-
-      // Track tool usage
-      this.toolHistory.push(name);
-      if (this.toolHistory.length > this.MAX_TOOL_HISTORY) {
-        this.toolHistory.shift();
-      }
-
-      // Check workflow compliance
-      const compliance = checkWorkflowCompliance(this.toolHistory, name);
-      
-      try {
-        const result = await this.handleToolCall(name, processedArgs);
-        
-        // Add token usage report if applicable
-        if (result.content && result.content[0]?.type === 'text') {
-          let text = result.content[0].text;
-          
-          // Add path corrections if any
-          if (corrections.length > 0) {
-            text = corrections.join('\n') + '\n\n' + text;
-            text += '\n\n💡 **Rappel:** Utilisez toujours des forward slashes (/) dans les chemins!';
-          }
-          
-          this.tokenManager.updateUsage(text);
-          result.content[0].text = text + this.tokenManager.getUsageReport();
-        }
-        
-        return result;
-        
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `❌ Error executing ${name}: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-        };
-      }
-    });
-  }
-
-  /**
-   * Handle individual tool calls
-   */
-  private async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
-      case "get_project_structure":
-        return this.getProjectStructure();
-
-      case "read_script":
-        return this.readScript(args?.scriptPath as string);
-
-      case "write_script":
-        return await this.writeScript(
-          args?.scriptPath as string,
-          args?.content as string
-        );
-
-      case "create_script":
-        return await this.createScript(
-          args?.scriptPath as string,
-          args?.content as string,
-          args?.scriptType as string
-        );
-
-      case "delete_script":
-        return await this.deleteScript(args?.scriptPath as string);
-
-      case "search_in_scripts":
-        return await this.searchInScripts(
-          args?.query as string,
-          args?.caseSensitive as boolean
-        );
-
-      case "patch_script":
-        return await this.patchScript({
-          scriptPath: args?.scriptPath as string,
-          operation: args?.operation as "insert" | "replace" | "delete",
-          lineStart: args?.lineStart as number,
-          lineEnd: args?.lineEnd as number,
-          newContent: args?.newContent as string,
-          description: args?.description as string,
-        });
-
-      case "preview_patch":
-        return await this.previewPatch({
-          scriptPath: args?.scriptPath as string,
-          operation: args?.operation as "insert" | "replace" | "delete",
-          lineStart: args?.lineStart as number,
-          lineEnd: args?.lineEnd as number,
-          newContent: args?.newContent as string,
-        });
-
-      case "rollback_script":
-        return await this.rollbackScript(
-          args?.scriptPath as string,
-          args?.version as number
-        );
-
-      case "rollback_history":
-        return this.getRollbackHistory(args?.scriptPath as string);
-
-      case "check_antipatterns":
-        return await this.checkAntipatterns(args?.scriptPath as string);
-
-      case "validate_game":
-        const result = await validateGame(this.projectRoot);
-        return {
-          content: [{ type: "text", text: result }],
-        };
-
-      case "compile_check":
-        const compileResult = await compileCheck(
-          this.projectRoot,
-          args?.scriptPath as string
-        );
-        return {
-          content: [{ type: "text", text: compileResult }],
-        };
-
-      case "list_templates":
-        return this.listTemplates(args?.category as string);
-
-      case "use_template":
-        return this.useTemplate(
-          args?.templateName as string,
-          args?.variables as Record<string, string>
-        );
-
-      case "roblox_api":
-        return this.getRobloxAPI(
-          args?.service as string,
-          args?.search as string
-        );
-
-      case "analyze_error":
-        return this.analyzeErrorMessage(
-          args?.errorMessage as string,
-          args?.filePath as string,
-          args?.lineNumber as number
-        );
-
-      case "syntax_helper":
-        return await this.handleSyntaxHelper(
-          args?.action as string,
-          args?.scriptPath as string,
-          args?.templateName as string,
-          args?.errorMessage as string
-        );
-
-      case "toggle_auto_validation":
-        this.validationManager.setAutoValidation(args?.enabled as boolean);
-        this.patchManager.setAutoValidation(args?.enabled as boolean);
-        return {
-          content: [{
-            type: "text",
-            text: `✅ Auto-validation ${args?.enabled ? 'enabled' : 'disabled'}`,
-          }],
-        };
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  }
-
-  /**
-   * Get project structure
-   */
-  private getProjectStructure() {
-    const structure = this.fileManager.getProjectStructure();
-    const categorized = {
-      server: [] as any[],
-      client: [] as any[],
-      shared: [] as any[],
-      module: [] as any[],
-    };
-
-    for (const [path, info] of structure) {
-      categorized[info.type].push({
-        path,
-        size: info.content.length,
-      });
-    }
-
-    let output = "📁 **Rojo Project Structure**\n\n";
-    output += `**Root:** ${this.projectRoot}\n\n`;
-
-    for (const [category, files] of Object.entries(categorized)) {
-      if (files.length > 0) {
-        const icon = category === "server" ? "🖥️" : 
-                     category === "client" ? "💻" : 
-                     category === "shared" ? "📦" : "📄";
-        output += `${icon} **${category.toUpperCase()} (${files.length})**\n`;
-        files.forEach(file => {
-          output += `  - \`${file.path}\` (${file.size} chars)\n`;
-        });
-        output += "\n";
-      }
-    }
-
-    output += `**Total:** ${structure.size} files`;
-
-    return {
-      content: [{ type: "text", text: output }],
-    };
-  }
-
-  /**
-   * Read a script file
-   */
-  private async readScript(scriptPath: string) {
-    try {
-      const content = await this.fileManager.readFile(scriptPath);
-      const lines = content.split('\n');
-      
-      let output = `📄 **File:** \`${scriptPath}\`\n`;
-      output += `📏 **Lines:** ${lines.length}\n\n`;
-      output += "```luau\n";
-      
-      lines.forEach((line, index) => {
-        output += `${(index + 1).toString().padStart(4, ' ')}: ${line}\n`;
-      });
-      
-      output += "```";
-      
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    } catch (error) {
-      throw new Error(`Cannot read script: ${error}`);
-    }
-  }
-
-  /**
-   * Write a script file
-   */
-  private async writeScript(scriptPath: string, content: string) {
-    try {
-      await this.fileManager.writeFile(scriptPath, content);
-      
-      // Run validation if enabled
-      const validation = await this.validationManager.validateFile(scriptPath, content);
-      
-      let output = `✅ **Script written successfully**\n\n`;
-      output += `**File:** \`${scriptPath}\`\n`;
-      output += `**Size:** ${content.length} characters\n`;
-      output += `**Lines:** ${content.split('\n').length}\n`;
-      
-      if (!validation.isValid) {
-        output += `\n⚠️ **Validation Issues:**\n`;
-        validation.errors.forEach(err => {
-          output += `- ${err.message}\n`;
-        });
-      }
-      
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    } catch (error) {
-      throw new Error(`Cannot write script: ${error}`);
-    }
-  }
-
-  /**
-   * Create a new script
-   */
-  private async createScript(scriptPath: string, content: string, scriptType: string) {
-    try {
-      await this.fileManager.createFile(scriptPath, content, scriptType);
-      
-      return {
-        content: [{
-          type: "text",
-          text: `✅ **Script created successfully**\n\n` +
-                `**File:** \`${scriptPath}\`\n` +
-                `**Type:** ${scriptType}\n` +
-                `**Size:** ${content.length} characters`,
-        }],
-      };
-    } catch (error) {
-      throw new Error(`Cannot create script: ${error}`);
-    }
-  }
-
-  /**
-   * Delete a script
-   */
-  private async deleteScript(scriptPath: string) {
-    try {
-      await this.fileManager.deleteFile(scriptPath);
-      
-      return {
-        content: [{
-          type: "text",
-          text: `✅ **Script deleted successfully**\n\n` +
-                `**File:** \`${scriptPath}\``,
-        }],
-      };
-    } catch (error) {
-      throw new Error(`Cannot delete script: ${error}`);
-    }
-  }
-
-  /**
-   * Search in scripts
-   */
-  private async searchInScripts(query: string, caseSensitive: boolean = false) {
-    try {
-      const results = await this.fileManager.searchInFiles(query, caseSensitive);
-      
-      let output = `🔍 **Search Results**\n\n`;
-      output += `**Query:** "${query}"${caseSensitive ? ' (case sensitive)' : ''}\n`;
-      output += `**Found in ${results.length} file(s):**\n\n`;
-      
-      results.forEach(file => {
-        output += `- \`${file}\`\n`;
-      });
-      
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    } catch (error) {
-      throw new Error(`Search failed: ${error}`);
-    }
-  }
-
-  /**
-   * Apply a patch
-   */
-  private async patchScript(patch: any) {
-    const result = await this.patchManager.applyPatch(patch);
-    
-    if (result.success) {
-      let output = `✅ **Patch applied successfully**\n\n`;
-      output += `**File:** \`${patch.scriptPath}\`\n`;
-      output += `**Operation:** ${patch.operation}\n`;
-      output += `**Description:** ${result.result.description}\n`;
-      output += `**Details:** ${result.result.details}\n`;
-      output += `**Final size:** ${result.result.linesCount} lines\n\n`;
-      output += result.result.review;
-      
-      // Add workflow reminder if needed
-      const compliance = checkWorkflowCompliance(this.toolHistory, 'patch_script');
-      if (!compliance.compliant) {
-        output += `\n\n${compliance.message}`;
-      }
-      
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    } else {
-      throw new Error(result.result.error);
-    }
-  }
-
-  /**
-   * Preview a patch
-   */
-  private async previewPatch(patch: any) {
-    const preview = await this.patchManager.previewPatch(patch);
-    
-    return {
-      content: [{ type: "text", text: preview }],
-    };
-  }
-
-  /**
-   * Rollback a script
-   */
-  private async rollbackScript(scriptPath: string, version: number = 1) {
-    const result = await this.rollbackManager.rollback(scriptPath, version);
-    
-    if (result.success) {
-      return {
-        content: [{
-          type: "text",
-          text: `✅ **Rollback successful**\n\n` +
-                `**File:** \`${scriptPath}\`\n` +
-                `**Rolled back to version:** ${version}\n` +
-                `**Size:** ${result.content.length} characters`,
-        }],
-      };
-    } else {
-      throw new Error("Rollback failed");
-    }
-  }
-
-  /**
-   * Get rollback history
-   */
-  private getRollbackHistory(scriptPath?: string) {
-    const history = this.rollbackManager.getHistory(scriptPath);
-    
-    let output = `📜 **Rollback History**\n\n`;
-    
-    if (scriptPath) {
-      const fileHistory = history.get(scriptPath) || [];
-      if (fileHistory.length === 0) {
-        output += `No rollback history for \`${scriptPath}\``;
-      } else {
-        output += `**File:** \`${scriptPath}\`\n\n`;
-        fileHistory.forEach((entry, index) => {
-          const date = new Date(entry.timestamp).toLocaleString();
-          output += `**${index + 1}.** ${date}\n`;
-          output += `   Changes: ${entry.patch.additions.length} additions, `;
-          output += `${entry.patch.deletions.length} deletions, `;
-          output += `${entry.patch.modifications.length} modifications\n\n`;
-        });
-      }
-    } else {
-      let totalEntries = 0;
-      history.forEach((entries, file) => {
-        if (entries.length > 0) {
-          totalEntries += entries.length;
-          output += `**\`${file}\`** - ${entries.length} version(s)\n`;
-        }
-      });
-      
-      if (totalEntries === 0) {
-        output += `No rollback history available.`;
-      }
-    }
-    
-    return {
-      content: [{ type: "text", text: output }],
-    };
-  }
-
-  /**
-   * Check antipatterns
-   */
-  private async checkAntipatterns(scriptPath?: string) {
-    if (scriptPath) {
-      const content = await this.fileManager.readFile(scriptPath);
-      const warnings = this.validationManager.checkAntiPatterns(content);
-      
-      let output = `🔍 **Anti-pattern Check**\n\n`;
-      output += `**File:** \`${scriptPath}\`\n\n`;
-      
-      if (warnings.length === 0) {
-        output += `✅ No anti-patterns detected!`;
-      } else {
-        output += `⚠️ **Found ${warnings.length} issue(s):**\n\n`;
-        warnings.forEach(warning => {
-          output += `- Line ${warning.line || '?'}: ${warning.message}\n`;
-        });
-      }
-      
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    } else {
-      // Check all files
-      const validation = await this.validationManager.validateProject(this.projectRoot);
-      
-      let output = `🔍 **Project-wide Anti-pattern Check**\n\n`;
-      
-      if (validation.warnings.length === 0) {
-        output += `✅ No anti-patterns detected in the project!`;
-      } else {
-        output += `⚠️ **Found ${validation.warnings.length} issue(s):**\n\n`;
-        
-        const byFile: { [key: string]: any[] } = {};
-        validation.warnings.forEach(warning => {
-          const file = warning.file || 'unknown';
-          if (!byFile[file]) byFile[file] = [];
-          byFile[file].push(warning);
-        });
-        
-        Object.entries(byFile).forEach(([file, warnings]) => {
-          output += `**\`${file}\`**\n`;
-          warnings.forEach(w => {
-            output += `  - Line ${w.line || '?'}: ${w.message}\n`;
-          });
-          output += `\n`;
-        });
-      }
-      
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    }
-  }
-
-  /**
-   * List available templates
-   */
-  private listTemplates(category?: string) {
-    const templates = category ? getTemplatesByCategory(category) : patchTemplates;
-    
-    let output = `📋 **Available Templates**\n\n`;
-    
-    if (category) {
-      output += `**Category:** ${category}\n\n`;
-    }
-    
-    Object.entries(templates).forEach(([name, template]) => {
-      output += `- **${name}**\n`;
-    });
-    
-    return {
-      content: [{ type: "text", text: output }],
-    };
-  }
-
-  /**
-   * Use a template
-   */
-  private useTemplate(templateName: string, variables: Record<string, string>) {
-    const template = getTemplate(templateName);
-    
-    if (!template) {
-      throw new Error(`Template '${templateName}' not found`);
-    }
-    
-    const result = applyTemplate(template, variables);
-    
-    let output = `📝 **Template Applied**\n\n`;
-    output += `**Template:** ${templateName}\n\n`;
-    output += "```luau\n" + result + "\n```";
-    
-    return {
-      content: [{ type: "text", text: output }],
-    };
-  }
-
-  /**
-   * Get Roblox API documentation
-   */
-  private getRobloxAPI(service?: string, search?: string) {
-    let output = `📚 **Roblox API Reference**\n\n`;
-    
-    if (search) {
-      const results = searchAPIs(search);
-      output += `**Search:** "${search}"\n`;
-      output += `**Found ${results.length} result(s):**\n\n`;
-      
-      results.slice(0, 10).forEach(result => {
-        if (result.method) {
-          output += `- **${result.service}.${result.method}**\n`;
-        } else if (result.property) {
-          output += `- **${result.service}.${result.property}**\n`;
-        }
-      });
-    } else if (service) {
-      const api = getServiceAPI(service);
-      if (api) {
-        output += `**Service:** ${service}\n\n`;
-        
-        if (api.methods && api.methods.length > 0) {
-          output += `**Methods:**\n`;
-          api.methods.forEach(method => {
-            output += `- ${method}\n`;
-          });
-        }
-        
-        if (api.properties && api.properties.length > 0) {
-          output += `\n**Properties:**\n`;
-          api.properties.forEach(prop => {
-            output += `- ${prop}\n`;
-          });
-        }
-        
-        if (api.events && api.events.length > 0) {
-          output += `\n**Events:**\n`;
-          api.events.forEach((event: any) => {
-            output += `- ${event}\n`;
-          });
-        }
-      } else {
-        output += `Service '${service}' not found in cache.`;
-      }
-    } else {
-      output += `Use with service name or search term.`;
-    }
-    
-    return {
-      content: [{ type: "text", text: output }],
-    };
-  }
-
-  /**
-   * Analyze error message
-   */
-  private analyzeErrorMessage(errorMessage: string, filePath?: string, lineNumber?: number) {
-    const report = generateErrorAnalysisReport(errorMessage, filePath, lineNumber);
-    
-    // Add context from tool history
-    let enhancedReport = report;
-    
-    const recentPatches = this.toolHistory.filter(tool => tool === 'patch_script').length;
-    if (recentPatches > 2) {
-      enhancedReport += `\n\n⚠️ **WARNING:** You've made ${recentPatches} patches. `;
-      enhancedReport += `STOP patching and analyze the problem completely first.\n`;
-      enhancedReport += `Use 'rollback_history' if needed to revert changes.`;
-    }
-    
-    return {
-      content: [{ type: "text", text: enhancedReport }],
-    };
-  }
-
-  /**
-   * Handle syntax helper
-   */
-  private async handleSyntaxHelper(
-    action: string,
-    scriptPath?: string,
-    templateName?: string,
-    errorMessage?: string
-  ) {
-    let output = "";
-    
-    switch (action) {
-      case "get_template":
-        if (!templateName) {
-          output = "## 📋 **Available Templates:**\n\n";
-          Object.keys(patchTemplates).forEach(name => {
-            output += `- **${name}**\n`;
-          });
-        } else {
-          const template = (patchTemplates as any)[templateName];
-          if (template) {
-            output = `## 📝 **Template: ${templateName}**\n\n`;
-            output += "```luau\n" + template + "\n```\n\n";
-            output += "💡 Replace {{variable}} placeholders with your values.";
-          } else {
-            throw new Error(`Template '${templateName}' not found`);
-          }
-        }
-        break;
-        
-      case "validate_syntax":
-        if (!scriptPath) throw new Error("scriptPath required");
-        const content = await this.fileManager.readFile(scriptPath);
-        const validation = validateSyntaxBalance(content);
-        
-        output = `## 🔍 **Syntax Validation: ${scriptPath}**\n\n`;
-        if (validation.isValid) {
-          output += "✅ **Valid syntax!**\n\n";
-        } else {
-          output += "❌ **Issues detected:**\n\n";
-          validation.issues.forEach(issue => {
-            output += `- ${issue}\n`;
-          });
-        }
-        
-        const counts = countSyntaxElements(content);
-        output += "\n**📊 Counts:**\n";
-        output += `- Functions: ${counts.functions}\n`;
-        output += `- Ends: ${counts.ends}\n`;
-        output += `- If/then: ${counts.ifs}\n`;
-        output += `- For/do: ${counts.fors}\n`;
-        output += `- While/do: ${counts.whiles}\n`;
-        break;
-        
-      case "count_blocks":
-        if (!scriptPath) throw new Error("scriptPath required");
-        const content2 = await this.fileManager.readFile(scriptPath);
-        const counts2 = countSyntaxElements(content2);
-        
-        output = `## 📊 **Block Analysis: ${scriptPath}**\n\n`;
-        output += `- **Functions:** ${counts2.functions}\n`;
-        output += `- **End statements:** ${counts2.ends}\n`;
-        output += `- **If blocks:** ${counts2.ifs}\n`;
-        output += `- **For loops:** ${counts2.fors}\n`;
-        output += `- **While loops:** ${counts2.whiles}\n`;
-        
-        const expectedEnds = counts2.functions + counts2.ifs + counts2.fors + counts2.whiles;
-        if (counts2.ends !== expectedEnds) {
-          output += `\n⚠️ **Warning:** Expected ${expectedEnds} 'end' but found ${counts2.ends}\n`;
-        } else {
-          output += `\n✅ **All blocks properly closed**\n`;
-        }
-        break;
-        
-      case "suggest_fix":
-        if (!errorMessage) throw new Error("errorMessage required");
-        const suggestions = suggestSyntaxFixes("", errorMessage);
-        
-        output = `## 💡 **Fix Suggestions:**\n\n`;
-        output += `**Error:** ${errorMessage}\n\n`;
-        
-        if (suggestions.length > 0) {
-          output += "**Suggestions:**\n";
-          suggestions.forEach(suggestion => {
-            output += `- ${suggestion}\n`;
-          });
-        }
-        break;
-        
-      case "show_rules":
-        output = `## 📜 **Syntax Rules**\n\n`;
-        output += SYNTAX_RULES.MANDATORY_WORKFLOW + "\n\n";
-        output += SYNTAX_RULES.PATCH_BEST_PRACTICES;
-        break;
-        
-      default:
-        throw new Error(`Unknown action: ${action}`);
-    }
-    
-    return {
-      content: [{ type: "text", text: output }],
-    };
-  }
-
-  /**
-   * Initialize file watching
-   */
-  private async initializeFileWatching() {
-    await this.fileManager.initialize();
-    
-    // Setup file watcher
-    const watchPath = path.join(this.projectRoot, 'src/**/*.{luau,lua}');
-    
-    this.fileWatcher = chokidar.watch(watchPath, {
-      persistent: true,
-      ignoreInitial: true,
-    });
-
-    this.fileWatcher
-      .on('add', async (filePath) => {
-        const relativePath = path.relative(this.projectRoot, filePath).replace(/\\/g, '/');
-        await this.fileManager.writeFile(relativePath, await this.fileManager.readFile(relativePath));
-        console.error(`📄 Added: ${relativePath}`);
-      })
-      .on('change', async (filePath) => {
-        const relativePath = path.relative(this.projectRoot, filePath).replace(/\\/g, '/');
-        await this.fileManager.writeFile(relativePath, await this.fileManager.readFile(relativePath));
-        console.error(`✏️ Modified: ${relativePath}`);
-      })
-      .on('unlink', async (filePath) => {
-        const relativePath = path.relative(this.projectRoot, filePath).replace(/\\/g, '/');
-        this.fileManager.getProjectStructure().delete(relativePath);
-        console.error(`🗑️ Deleted: ${relativePath}`);
-      });
-
-    console.error("👁️ File watching initialized");
-  }
-
-  /**
-   * Get tool definitions
-   */
-  private getToolDefinitions(): Tool[] {
-    // Return the same tool definitions as before
-    // This is a long list, so I'm omitting it for brevity
-    // In the real implementation, copy the tool definitions from the original index.ts
-    return [
-      {
-        name: "get_project_structure",
-        description: "Affiche la structure complète du projet Rojo avec tous les scripts organisés par type",
-        inputSchema: {
-          type: "object",
-          properties: {},
-        },
-      },
-      // ... all other tools
-    ] as Tool[];
-  }
-
-  /**
-   * Run the server
-   */
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error("🚀 MCP Rojo Server started (refactored)!");
-  }
-
-  /**
-   * Cleanup resources
-   */
-  async cleanup() {
-    if (this.fileWatcher) {
-      await this.fileWatcher.close();
-      console.error("👁️ File watching stopped");
-    }
-    this.fileManager.cleanup();
-  }
-}
-
-// Handle graceful shutdown
-const server = new RojoMCPServer();
-
-process.on("SIGINT", async () => {
-  console.error("🛑 Shutting down server...");
-  await server.cleanup();
-  process.exit(0);
-});
-
-process.on("SIGTERM", async () => {
-  await server.cleanup();
-  process.exit(0);
-});
-
-// Start server
-server.run().catch((error) => {
-  console.error("❌ Fatal error:", error);
-  process.exit(1);
-});
\ No newline at end of file
@@ -3,33 +3,93 @@
  */
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { LineEdit } from "../utils/line-diff.js";
+import { PatchAnchor } from "../patching/anchors.js";
+import { Realm, ScriptType } from "../rojo/project-tree.js";
 
 // Common types
 export interface FileInfo {
   path: string;
   content: string;
   type: 'server' | 'client' | 'shared' | 'module';
+  // Roblox class of the script and side it runs on, resolved from Rojo rules
+  className: ScriptType;
+  realm: Realm;
+  // Resolved DataModel path (e.g. game.ServerScriptService.main) when the file is mapped by the project
+  instancePath?: string;
   lastModified: number;
 }
 
 export interface PatchOperation {
   scriptPath: string;
   operation: "insert" | "replace" | "delete";
+  // Computed from the anchor, when there is one, just before the patch is applied
   lineStart: number;
   lineEnd?: number;
+  anchor?: PatchAnchor;
   newContent?: string;
   description?: string;
+  // Version of the file the line numbers and anchor were written against
+  expectedVersion?: string;
 }
 
-export interface RollbackEntry {
+// Outcome of a patch, with the response text shown to the assistant
+export interface PatchResult {
+  success: boolean;
+  message: string;
+  // Patch with its anchor resolved, when it was applied without merge
+  patch?: PatchOperation;
+  // Script written or deleted, with the extension added to a new script
+  filePath?: string;
+}
+
+// Result of the version check before a write
+export type FreshnessCheck =
+  | { status: 'fresh' }
+  | { status: 'merged'; content: string }
+  | { status: 'rejected'; message: string };
+
+export interface HistoryVersion {
+  id: number;
+  timestamp: number;
+  // Short hash of the file content at this version
+  hash: string;
+  lines: number;
+  added: number;
+  removed: number;
+  description?: string;
+  // Checkpoints store the full content, other versions the line edits from the previous version
+  content?: string;
+  edits?: LineEdit[];
+}
+
+// Version to restore: by id, by date (latest version at or before it) or N versions back
+export interface VersionTarget {
+  versionId?: number;
+  timestamp?: number | string;
+  steps?: number;
+}
+
+// New state of a file in a changeset, null meaning the file does not exist
+export interface FileChange {
+  filePath: string;
+  previousContent: string | null;
+  newContent: string | null;
+}
+
+// History versions of a file before and after a changeset (null = file absent)
+export interface ChangesetEntry {
+  file: string;
+  before: number | null;
+  after: number | null;
+}
+
+// Multi-file modification recorded and rolled back as a single unit
+export interface Changeset {
+  id: string;
   timestamp: number;
-  previousContent: string;
-  patch: {
-    additions: string[];
-    deletions: string[];
-    modifications: string[];
-  };
-  tokenCost: number;
+  description?: string;
+  entries: ChangesetEntry[];
 }
 
 export interface ValidationResult {
@@ -60,20 +120,34 @@ export interface TokenUsage {
   operationTokens: number;
   cacheHits: number;
   cacheMisses: number;
+  // Tokens not sent thanks to cache hits
+  tokensSaved: number;
 }
 
 // Manager interfaces
 export interface IPatchManager {
-  applyPatch(patch: PatchOperation): Promise<{ success: boolean; result: any }>;
+  writeScript(filePath: string, content: string, showDiff?: boolean, expectedVersion?: string): Promise<PatchResult>;
+  createScript(filePath: string, scriptType: string, content?: string): Promise<PatchResult>;
+  deleteScript(filePath: string, expectedVersion?: string): Promise<PatchResult>;
+  applyPatch(patch: PatchOperation): Promise<PatchResult>;
+  applyDiff(filePath: string, diff: string, description?: string, expectedVersion?: string): Promise<PatchResult>;
   previewPatch(patch: PatchOperation): Promise<string>;
+  previewDiff(filePath: string, diff: string): Promise<string>;
+  checkFreshness(filePath: string, currentContent: string, expectedVersion: string | undefined, applyToBase: (base: string) => string): Promise<FreshnessCheck>;
+  writeMergedContent(filePath: string, currentContent: string, mergedContent: string, description: string): Promise<PatchResult>;
   validatePatchBeforeApply(content: string, patch: PatchOperation): ValidationResult;
 }
 
 export interface IRollbackManager {
-  saveSnapshot(filePath: string, content: string, patch: any): void;
-  rollback(filePath: string, version?: number): Promise<{ success: boolean; content: string }>;
-  getHistory(filePath?: string): Map<string, RollbackEntry[]>;
-  clearHistory(filePath?: string): void;
+  recordChange(filePath: string, previousContent: string, newContent: string, description?: string): Promise<HistoryVersion | null>;
+  rollback(filePath: string, target?: VersionTarget): Promise<{ success: boolean; content: string; version: HistoryVersion }>;
+  getHistory(filePath?: string): Promise<Map<string, HistoryVersion[]>>;
+  getFileHistory(filePath: string): Promise<HistoryVersion[]>;
+  getVersionContent(filePath: string, versionId: number): Promise<string>;
+  clearHistory(filePath?: string): Promise<void>;
+  applyChangeset(changes: FileChange[], description?: string): Promise<Changeset>;
+  rollbackChangeset(changesetId: string): Promise<Changeset>;
+  getChangesets(): Promise<Changeset[]>;
 }
 
 export interface IValidationManager {
@@ -88,12 +162,14 @@ export interface IFileManager {
   writeFile(filePath: string, content: string): Promise<void>;
   deleteFile(filePath: string): Promise<void>;
   createFile(filePath: string, content: string, scriptType: string): Promise<void>;
+  resolveScriptPath(filePath: string, scriptType: string): string;
   searchInFiles(pattern: string, caseSensitive?: boolean): Promise<string[]>;
   getProjectStructure(): Map<string, FileInfo>;
 }
 
 export interface ITokenManager {
   updateUsage(content: string): void;
+  recordToolCall(tool: string, content: string, file?: string): number;
   getUsageReport(): string;
   estimateTokens(content: string): number;
   reset(): void;
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { ChangesetManager } from '../changeset-manager.js';
+import { RollbackManager } from '../rollback-manager.js';
+import { hashContent } from '../../utils/content-hash.js';
+import { ModificationHookManager, ModificationContext } from '../../../modification-hooks.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+describe('ChangesetManager', () => {
+  let projectRoot: string;
+  let rollbackManager: RollbackManager;
+  let changesetManager: ChangesetManager;
+
+  async function readScript(file: string): Promise<string | null> {
+    const fullPath = path.join(projectRoot, file);
+    return await fs.pathExists(fullPath) ? fs.readFile(fullPath, 'utf-8') : null;
+  }
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-changeset-'));
+    rollbackManager = new RollbackManager(projectRoot);
+    changesetManager = new ChangesetManager(projectRoot, rollbackManager);
+
+    await fs.outputFile(path.join(projectRoot, 'src/shared/Config.luau'), 'local Config = {}\n\nreturn Config');
+    await fs.outputFile(path.join(projectRoot, 'src/shared/Old.luau'), 'return {}');
+    await fs.outputFile(path.join(projectRoot, 'src/server/legacy.server.luau'), 'print("legacy")');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  it('should apply every operation and roll them back as one unit', async () => {
+    const result = await changesetManager.apply([
+      { type: 'create', scriptPath: 'src/shared/Util.luau', content: 'local Util = {}\n\nreturn Util' },
+      { type: 'patch', scriptPath: 'src/shared/Util.luau', operation: 'insert', lineStart: 2, newContent: 'Util.version = 1' },
+      { type: 'patch', scriptPath: 'src/shared/Config.luau', operation: 'replace', lineStart: 2, newContent: 'Config.debug = true' },
+      { type: 'rename', scriptPath: 'src/shared/Old.luau', newPath: 'src/shared/New.luau' },
+      { type: 'delete', scriptPath: 'src/server/legacy.server.luau' }
+    ], 'Refactor shared modules');
+
+    expect(result.applied).toBe(true);
+    expect(await readScript('src/shared/Util.luau')).toBe('local Util = {}\nUtil.version = 1\n\nreturn Util');
+    expect(await readScript('src/shared/Config.luau')).toBe('local Config = {}\nConfig.debug = true\nreturn Config');
+    expect(await readScript('src/shared/New.luau')).toBe('return {}');
+    expect(await readScript('src/shared/Old.luau')).toBeNull();
+    expect(await readScript('src/server/legacy.server.luau')).toBeNull();
+
+    const changesets = await rollbackManager.getChangesets();
+    expect(changesets).toHaveLength(1);
+    expect(changesets[0]).toMatchObject({ id: result.changeset!.id, description: 'Refactor shared modules' });
+    expect(changesets[0].entries).toHaveLength(5);
+
+    const undo = await rollbackManager.rollbackChangeset(result.changeset!.id);
+
+    expect(undo.description).toBe(`Annulation du changeset ${result.changeset!.id}`);
+    expect(await readScript('src/shared/Util.luau')).toBeNull();
+    expect(await readScript('src/shared/Config.luau')).toBe('local Config = {}\n\nreturn Config');
+    expect(await readScript('src/shared/Old.luau')).toBe('return {}');
+    expect(await readScript('src/shared/New.luau')).toBeNull();
+    expect(await readScript('src/server/legacy.server.luau')).toBe('print("legacy")');
+  });
+
+  it('should reject the whole changeset when one operation fails', async () => {
+    const result = await changesetManager.apply([
+      { type: 'write', scriptPath: 'src/shared/Config.luau', content: 'return { debug = true }' },
+      { type: 'create', scriptPath: 'src/shared/Broken.luau', content: 'local function f()\n  return 1' },
+      { type: 'delete', scriptPath: 'src/shared/Missing.luau' }
+    ]);
+
+    expect(result.applied).toBe(false);
+    expect(result.reports.map(report => report.approved)).toEqual([true, false, false]);
+    expect(result.reports[2].errors).toEqual(["Le script src/shared/Missing.luau n'existe pas"]);
+    expect(await readScript('src/shared/Config.luau')).toBe('local Config = {}\n\nreturn Config');
+    expect(await readScript('src/shared/Broken.luau')).toBeNull();
+    expect(await rollbackManager.getChangesets()).toEqual([]);
+  });
+
+  it('should validate without writing in dry run', async () => {
+    const result = await changesetManager.apply(
+      [{ type: 'rename', scriptPath: 'src/shared/Old.luau', newPath: 'src/shared/New.luau' }],
+      undefined,
+      true
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.changes.map(change => change.filePath)).toEqual(['src/shared/Old.luau', 'src/shared/New.luau']);
+    expect(await readScript('src/shared/Old.luau')).toBe('return {}');
+  });
+
+  it('should reject operations written against a stale version', async () => {
+    const readVersion = hashContent('local Config = {}\n\nreturn Config');
+    // Edited in an external editor after the assistant read it
+    await fs.outputFile(path.join(projectRoot, 'src/shared/Config.luau'), 'local Config = { debug = true }\n\nreturn Config');
+
+    const result = await changesetManager.apply([
+      { type: 'patch', scriptPath: 'src/shared/Config.luau', operation: 'replace', lineStart: 2, newContent: '-- config', expectedVersion: readVersion },
+      { type: 'delete', scriptPath: 'src/shared/Old.luau', expectedVersion: hashContent('return {}') },
+      { type: 'rename', scriptPath: 'src/shared/Config.luau', newPath: 'src/shared/Settings.luau', expectedVersion: readVersion }
+    ]);
+
+    expect(result.applied).toBe(false);
+    expect(result.reports.map(report => report.approved)).toEqual([false, true, false]);
+    expect(result.reports[2].errors[0]).toContain(`version ${readVersion} attendue`);
+    expect(result.reports[0].errors[0]).toContain(`version ${readVersion} attendue`);
+    expect(await readScript('src/shared/Old.luau')).toBe('return {}');
+  });
+
+  it('should give the hooks the contents planned by the previous operations', async () => {
+    const contexts: ModificationContext[] = [];
+    const hooks = new ModificationHookManager();
+    hooks.registerHook({
+      name: 'spy',
+      priority: 10,
+      enabled: true,
+      execute: async context => {
+        contexts.push(context);
+        return { approved: true };
+      }
+    });
+
+    await new ChangesetManager(projectRoot, rollbackManager, hooks).apply([
+      { type: 'write', scriptPath: 'src/shared/Config.luau', content: 'return { debug = true }' },
+      { type: 'delete', scriptPath: 'src/shared/Old.luau' },
+      { type: 'create', scriptPath: 'src/shared/Util.luau', content: 'return {}' }
+    ], undefined, true);
+
+    expect(contexts[2].plannedContents).toEqual(new Map([
+      ['src/shared/Config.luau', 'return { debug = true }'],
+      ['src/shared/Old.luau', null],
+      ['src/shared/Util.luau', null]
+    ]));
+  });
+
+  it('should reject paths outside the project', async () => {
+    const result = await changesetManager.apply([{ type: 'create', scriptPath: '../outside.luau', content: 'return {}' }]);
+
+    expect(result.reports[0].errors).toEqual(['Chemin hors du projet: ../outside.luau']);
+  });
+
+  it('should restore written files when a later write fails', async () => {
+    // A directory cannot be overwritten as a file
+    await fs.ensureDir(path.join(projectRoot, 'src/shared/Folder'));
+
+    await expect(rollbackManager.applyChangeset([
+      { filePath: 'src/shared/Config.luau', previousContent: 'local Config = {}\n\nreturn Config', newContent: 'return {}' },
+      { filePath: 'src/shared/Folder', previousContent: null, newContent: 'return {}' }
+    ])).rejects.toThrow('Changeset annulé');
+
+    expect(await readScript('src/shared/Config.luau')).toBe('local Config = {}\n\nreturn Config');
+    expect(await rollbackManager.getChangesets()).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { PatchManager } from '../patch-manager.js';
+import { FileManager } from '../file-manager.js';
+import { RollbackManager } from '../rollback-manager.js';
+import { VersionTracker } from '../version-tracker.js';
+import { ModificationHookManager } from '../../../modification-hooks.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+describe('PatchManager', () => {
+  let projectRoot: string;
+  let versionTracker: VersionTracker;
+  let patchManager: PatchManager;
+
+  const FILE = 'src/server/Main.server.luau';
+  const ORIGINAL = ['local a = 1', 'local b = 2', 'print(a, b)'].join('\n');
+
+  async function readScript(): Promise<string> {
+    return fs.readFile(path.join(projectRoot, FILE), 'utf-8');
+  }
+
+  // Patch manager whose hooks refuse any TODO comment
+  function createGuardedManager(): PatchManager {
+    const hooks = new ModificationHookManager();
+    hooks.registerHook({
+      name: 'no-todo',
+      priority: 10,
+      enabled: true,
+      execute: async context => context.newContent?.includes('TODO')
+        ? { approved: false, errors: ['TODO interdit'] }
+        : { approved: true }
+    });
+    return new PatchManager(new FileManager(projectRoot), new RollbackManager(projectRoot), versionTracker, hooks);
+  }
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-patch-'));
+    await fs.outputFile(path.join(projectRoot, FILE), ORIGINAL);
+    versionTracker = new VersionTracker();
+    patchManager = new PatchManager(new FileManager(projectRoot), new RollbackManager(projectRoot), versionTracker);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  it('should refuse to patch a script that was not read', async () => {
+    const result = await patchManager.applyPatch({ scriptPath: FILE, operation: 'delete', lineStart: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Version inconnue');
+    expect(await readScript()).toBe(ORIGINAL);
+  });
+
+  it('should apply a patch on the version read and review it', async () => {
+    versionTracker.record(FILE, ORIGINAL);
+
+    const result = await patchManager.applyPatch({ scriptPath: FILE, operation: 'replace', lineStart: 2, newContent: 'local b = 3' });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toContain('Review Automatique');
+    expect(await readScript()).toBe('local a = 1\nlocal b = 3\nprint(a, b)');
+  });
+
+  it('should merge a patch written against an older version only with auto-merge', async () => {
+    versionTracker.record(FILE, ORIGINAL);
+    await fs.outputFile(path.join(projectRoot, FILE), `-- header\n${ORIGINAL}`);
+    const patch = { scriptPath: FILE, operation: 'replace' as const, lineStart: 3, newContent: 'print(a + b)' };
+
+    const rejected = await patchManager.applyPatch(patch);
+    expect(rejected.success).toBe(false);
+    expect(rejected.message).toContain('Fusion à trois voies possible sans conflit');
+
+    patchManager.setAutoMerge(true);
+    const merged = await patchManager.applyPatch(patch);
+    expect(merged.success).toBe(true);
+    expect(await readScript()).toBe('-- header\nlocal a = 1\nlocal b = 2\nprint(a + b)');
+  });
+
+  it('should run the validation hooks on the merged content', async () => {
+    const guarded = createGuardedManager();
+    guarded.setAutoMerge(true);
+    versionTracker.record(FILE, ORIGINAL);
+    await fs.outputFile(path.join(projectRoot, FILE), `-- header\n${ORIGINAL}`);
+
+    const result = await guarded.applyPatch({ scriptPath: FILE, operation: 'replace', lineStart: 3, newContent: 'print(a + b) -- TODO' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('TODO interdit');
+    expect(await readScript()).toBe(`-- header\n${ORIGINAL}`);
+  });
+
+  it('should run the validation hooks on unified diffs', async () => {
+    const guarded = createGuardedManager();
+    versionTracker.record(FILE, ORIGINAL);
+    const diff = (line: string) => ['@@ -3 +3 @@', '-print(a, b)', `+${line}`].join('\n');
+
+    const blocked = await guarded.applyDiff(FILE, diff('print(a + b) -- TODO'));
+    expect(blocked.success).toBe(false);
+    expect(blocked.message).toContain('TODO interdit');
+    expect(await readScript()).toBe(ORIGINAL);
+
+    const applied = await guarded.applyDiff(FILE, diff('print(a + b)'));
+    expect(applied.success).toBe(true);
+    expect(await readScript()).toBe('local a = 1\nlocal b = 2\nprint(a + b)');
+  });
+
+  it('should create, overwrite and delete scripts through the same pipeline', async () => {
+    const created = await patchManager.createScript('src/shared/Util', 'module');
+    expect(created).toMatchObject({ success: true, filePath: 'src/shared/Util.luau' });
+    expect(await fs.readFile(path.join(projectRoot, 'src/shared/Util.luau'), 'utf-8')).toBe('-- Module\nlocal Module = {}\n\nreturn Module');
+
+    // The script was not read: overwriting it is refused
+    const unread = await patchManager.writeScript(FILE, 'print("new")');
+    expect(unread.success).toBe(false);
+    expect(await readScript()).toBe(ORIGINAL);
+
+    versionTracker.record(FILE, ORIGINAL);
+    const written = await patchManager.writeScript(FILE, 'print("new")');
+    expect(written.success).toBe(true);
+    expect(await readScript()).toBe('print("new")');
+
+    await patchManager.deleteScript('src/shared/Util.luau');
+    expect(await fs.pathExists(path.join(projectRoot, 'src/shared/Util.luau'))).toBe(false);
+  });
+
+  it('should only delete the version read and record the deletion', async () => {
+    const rollbackManager = new RollbackManager(projectRoot);
+    const manager = new PatchManager(new FileManager(projectRoot), rollbackManager, versionTracker);
+    versionTracker.record(FILE, ORIGINAL);
+    // Edited in an external editor after the assistant read it
+    await fs.outputFile(path.join(projectRoot, FILE), `-- header\n${ORIGINAL}`);
+
+    const stale = await manager.deleteScript(FILE);
+    expect(stale.success).toBe(false);
+    expect(stale.message).toContain('une suppression ne peut pas être fusionnée');
+    expect(await readScript()).toBe(`-- header\n${ORIGINAL}`);
+
+    versionTracker.record(FILE, `-- header\n${ORIGINAL}`);
+    expect((await manager.deleteScript(FILE)).success).toBe(true);
+    expect(await fs.pathExists(path.join(projectRoot, FILE))).toBe(false);
+
+    const [changeset] = await rollbackManager.getChangesets();
+    await rollbackManager.rollbackChangeset(changeset.id);
+    expect(await readScript()).toBe(`-- header\n${ORIGINAL}`);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { QuarantineManager } from '../quarantine-manager.js';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+describe('QuarantineManager', () => {
+  let projectRoot: string;
+  let quarantineManager: QuarantineManager;
+
+  const FILE = 'src/server/FreeModel/Loader.server.luau';
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-quarantine-'));
+    quarantineManager = new QuarantineManager(projectRoot);
+    await fs.outputFile(path.join(projectRoot, FILE), 'require(123456)');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  it('should move a script out of the project and restore it', async () => {
+    const entry = await quarantineManager.quarantine(FILE, 'asset-require', 30);
+
+    expect(entry).toMatchObject({ id: 1, file: FILE, reason: 'asset-require', score: 30 });
+    expect(await fs.pathExists(path.join(projectRoot, FILE))).toBe(false);
+    expect(await quarantineManager.getContent(1)).toBe('require(123456)');
+    // Le manifeste survit au redémarrage du serveur
+    expect((await new QuarantineManager(projectRoot).list()).map(listed => listed.file)).toEqual([FILE]);
+
+    await quarantineManager.restore(1);
+    expect(await fs.readFile(path.join(projectRoot, FILE), 'utf-8')).toBe('require(123456)');
+    expect(await quarantineManager.list()).toEqual([]);
+  });
+
+  it('should not overwrite a file recreated at the original location', async () => {
+    await quarantineManager.quarantine(FILE, 'manual');
+    await fs.outputFile(path.join(projectRoot, FILE), 'print("clean")');
+
+    await expect(quarantineManager.restore(1)).rejects.toThrow('un fichier existe déjà');
+    await expect(quarantineManager.restore(2)).rejects.toThrow("Aucun script en quarantaine avec l'id 2");
+  });
+
+  it('should only move Luau scripts inside the project', async () => {
+    await fs.outputFile(path.join(projectRoot, 'default.project.json'), '{}');
+
+    await expect(quarantineManager.quarantine('../outside.luau', 'manual')).rejects.toThrow('Chemin hors du projet');
+    await expect(quarantineManager.quarantine(path.join(projectRoot, FILE), 'manual')).rejects.toThrow('Chemin hors du projet');
+    await expect(quarantineManager.quarantine('default.project.json', 'manual')).rejects.toThrow('Seuls les scripts .lua/.luau');
+    await expect(quarantineManager.quarantine('.mcp-roblox/quarantine/1/x.luau', 'manual')).rejects.toThrow('.mcp-roblox');
+    expect(await fs.pathExists(path.join(projectRoot, 'default.project.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ReadCache } from '../read-cache.js';
+
+describe('ReadCache', () => {
+  let cache: ReadCache;
+
+  beforeEach(() => {
+    cache = new ReadCache();
+  });
+
+  it('should report unchanged content with the read that returned it', () => {
+    expect(cache.lookup('src/server/main.server.luau', 'print("a")')).toEqual({ status: 'miss' });
+    expect(cache.record('src/server/main.server.luau', 'print("a")').read).toBe(1);
+    expect(cache.record('src/shared/Utils.luau', 'return {}').read).toBe(2);
+
+    expect(cache.lookup('src/server/main.server.luau', 'print("a")')).toEqual({ status: 'unchanged', read: 1 });
+  });
+
+  it('should diff against the last read and recognize reverted content', () => {
+    cache.record('main.luau', 'v1');
+    cache.record('main.luau', 'v2');
+
+    expect(cache.lookup('main.luau', 'v3')).toEqual({ status: 'changed', read: 2, previousContent: 'v2' });
+    // Content already returned by an earlier read, but not by the last one
+    expect(cache.lookup('main.luau', 'v1')).toEqual({ status: 'reverted', read: 1, lastRead: 2 });
+    expect(cache.lookup('main.luau', 'v2')).toEqual({ status: 'unchanged', read: 2 });
+  });
+
+  it('should forget every read when a new session starts', () => {
+    cache.record('main.luau', 'v1');
+    cache.clear();
+
+    expect(cache.lookup('main.luau', 'v1')).toEqual({ status: 'miss' });
+    expect(cache.record('main.luau', 'v1').read).toBe(1);
+  });
+});
@@ -1,215 +1,174 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { RollbackManager } from '../rollback-manager.js';
 import fs from 'fs-extra';
+import os from 'os';
 import path from 'path';
 
-// Mock fs-extra
-jest.mock('fs-extra');
-const mockedFs = jest.mocked(fs);
-
 describe('RollbackManager', () => {
+  let projectRoot: string;
   let rollbackManager: RollbackManager;
-  const projectRoot = '/test/project';
 
-  beforeEach(() => {
-    jest.clearAllMocks();
-    rollbackManager = new RollbackManager(projectRoot, 3); // Max 3 entries for testing
+  async function readScript(file: string): Promise<string> {
+    return fs.readFile(path.join(projectRoot, file), 'utf-8');
+  }
+
+  // Simulate successive writes of a script, each one recorded in the history
+  async function writeVersions(manager: RollbackManager, file: string, contents: string[]): Promise<void> {
+    for (let i = 1; i < contents.length; i++) {
+      await fs.outputFile(path.join(projectRoot, file), contents[i]);
+      await manager.recordChange(file, contents[i - 1], contents[i], `edit ${i}`);
+    }
+  }
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-history-'));
+    rollbackManager = new RollbackManager(projectRoot, { checkpointInterval: 3 });
   });
 
-  describe('Constructor', () => {
-    it('should initialize with default values', () => {
-      const rm = new RollbackManager(projectRoot);
-      expect(rm.getTotalTokenCost()).toBe(0);
-      expect(rm.getHistory().size).toBe(0);
-    });
+  afterEach(async () => {
+    await fs.remove(projectRoot);
   });
 
-  describe('Snapshot management', () => {
-    it('should save snapshot correctly', () => {
-      const patch = {
-        operation: 'insert',
-        lineStart: 10,
-        newContent: 'new code'
-      };
-
-      rollbackManager.saveSnapshot('test.luau', 'original content', patch);
-      
-      const history = rollbackManager.getHistory('test.luau');
-      expect(history.size).toBe(1);
-      
-      const entries = history.get('test.luau');
-      expect(entries).toHaveLength(1);
-      expect(entries![0].previousContent).toBe('original content');
-      expect(entries![0].patch.additions).toContain('Line 10: new code');
+  describe('Recording', () => {
+    it('should start with an empty history', async () => {
+      expect((await rollbackManager.getHistory()).size).toBe(0);
     });
 
-    it('should limit history size', () => {
-      const patch = { operation: 'insert', lineStart: 1, newContent: 'test' };
-      
-      // Add 4 snapshots (max is 3)
-      for (let i = 0; i < 4; i++) {
-        rollbackManager.saveSnapshot('test.luau', `content ${i}`, patch);
-      }
-      
-      const history = rollbackManager.getHistory('test.luau');
-      const entries = history.get('test.luau');
-      expect(entries).toHaveLength(3);
-      expect(entries![0].previousContent).toBe('content 3'); // Most recent
-      expect(entries![2].previousContent).toBe('content 1'); // Oldest kept
+    it('should store the initial state then the change', async () => {
+      await writeVersions(rollbackManager, 'test.luau', ['local a = 1', 'local a = 2']);
+
+      const versions = (await rollbackManager.getHistory('test.luau')).get('test.luau')!;
+      expect(versions.map(v => v.id)).toEqual([2, 1]);
+      expect(versions[1].description).toBe('Version initiale');
+      expect(versions[0]).toMatchObject({ description: 'edit 1', added: 1, removed: 1 });
+      // Paths are normalized before the lookup
+      expect(await rollbackManager.getFileHistory('./test.luau')).toEqual(versions);
     });
 
-    it('should track different operations', () => {
-      rollbackManager.saveSnapshot('test.luau', 'content', {
-        operation: 'delete',
-        lineStart: 5,
-        lineEnd: 10
-      });
-      
-      const entries = rollbackManager.getHistory('test.luau').get('test.luau');
-      expect(entries![0].patch.deletions).toContain('Lines 5-10');
-      
-      rollbackManager.saveSnapshot('test.luau', 'content', {
-        operation: 'replace',
-        lineStart: 15,
-        lineEnd: 20
-      });
-      
-      const entries2 = rollbackManager.getHistory('test.luau').get('test.luau');
-      expect(entries2![0].patch.modifications).toContain('Lines 15-20');
+    it('should store diffs between periodic checkpoints', async () => {
+      const contents = ['a', 'a\nb', 'a\nb\nc', 'a\nb\nc\nd', 'a\nb\nc\nd\ne'].map(c => c + '\n-- padding to keep diffs smaller than the file');
+      await writeVersions(rollbackManager, 'test.luau', contents);
+
+      const versions = (await rollbackManager.getHistory('test.luau')).get('test.luau')!.reverse();
+      expect(versions.map(v => v.content !== undefined)).toEqual([true, false, false, true, false]);
+      expect(await rollbackManager.getVersionContent('test.luau', 5)).toBe(contents[4]);
+      expect(await rollbackManager.getVersionContent('test.luau', 3)).toBe(contents[2]);
     });
-  });
 
-  describe('Rollback functionality', () => {
-    beforeEach(() => {
-      (mockedFs.writeFile as jest.Mock).mockResolvedValue(undefined);
+    it('should record changes made outside the server', async () => {
+      await writeVersions(rollbackManager, 'test.luau', ['v1', 'v2']);
+      await rollbackManager.recordChange('test.luau', 'edited in Studio', 'v3');
+
+      const versions = (await rollbackManager.getHistory('test.luau')).get('test.luau')!;
+      expect(versions.map(v => v.description)).toEqual([undefined, 'Modification externe', 'edit 1', 'Version initiale']);
+      expect(await rollbackManager.getVersionContent('test.luau', 3)).toBe('edited in Studio');
     });
+  });
+
+  describe('Rollback', () => {
+    it('should go back one version by default and record the restoration', async () => {
+      await writeVersions(rollbackManager, 'test.luau', ['v1', 'v2', 'v3']);
+
+      const result = await rollbackManager.rollback('test.luau');
 
-    it('should rollback to previous version', async () => {
-      rollbackManager.saveSnapshot('test.luau', 'version 1', { operation: 'insert', lineStart: 1 });
-      rollbackManager.saveSnapshot('test.luau', 'version 2', { operation: 'insert', lineStart: 2 });
-      
-      const result = await rollbackManager.rollback('test.luau', 1);
-      
-      expect(result.success).toBe(true);
-      expect(result.content).toBe('version 2');
-      expect(mockedFs.writeFile).toHaveBeenCalledWith(
-        path.join(projectRoot, 'test.luau'),
-        'version 2'
-      );
+      expect(result.content).toBe('v2');
+      expect(result.version.id).toBe(2);
+      expect(await readScript('test.luau')).toBe('v2');
+
+      const versions = (await rollbackManager.getHistory('test.luau')).get('test.luau')!;
+      expect(versions[0].description).toBe('Restauration de la version 2');
+      expect(versions).toHaveLength(4);
     });
 
-    it('should remove used history entries', async () => {
-      rollbackManager.saveSnapshot('test.luau', 'v1', { operation: 'insert', lineStart: 1 });
-      rollbackManager.saveSnapshot('test.luau', 'v2', { operation: 'insert', lineStart: 2 });
-      rollbackManager.saveSnapshot('test.luau', 'v3', { operation: 'insert', lineStart: 3 });
-      
-      await rollbackManager.rollback('test.luau', 2);
-      
-      const history = rollbackManager.getHistory('test.luau');
-      const entries = history.get('test.luau');
-      expect(entries).toHaveLength(1); // Only most recent left
+    it('should address versions by id or timestamp', async () => {
+      await writeVersions(rollbackManager, 'test.luau', ['v1', 'v2', 'v3']);
+      const versions = (await rollbackManager.getHistory('test.luau')).get('test.luau')!;
+
+      expect((await rollbackManager.rollback('test.luau', { timestamp: String(versions[0].timestamp) })).content).toBe('v3');
+      expect((await rollbackManager.rollback('test.luau', { versionId: 1 })).content).toBe('v1');
+      // Latest version at or before the date: the restoration of v1
+      expect((await rollbackManager.rollback('test.luau', { timestamp: '2999-01-01T00:00:00Z' })).content).toBe('v1');
     });
 
-    it('should throw error for non-existent history', async () => {
+    it('should report missing history and invalid targets', async () => {
       await expect(rollbackManager.rollback('nonexistent.luau'))
         .rejects.toThrow('Aucun historique de rollback');
-    });
 
-    it('should throw error for invalid version', async () => {
-      rollbackManager.saveSnapshot('test.luau', 'content', { operation: 'insert', lineStart: 1 });
-      
-      await expect(rollbackManager.rollback('test.luau', 5))
-        .rejects.toThrow('Version 5 non disponible. Maximum: 1');
+      await writeVersions(rollbackManager, 'test.luau', ['v1', 'v2']);
+      await expect(rollbackManager.rollback('test.luau', { versionId: 9 }))
+        .rejects.toThrow('Version 9 introuvable pour test.luau (versions disponibles: 1 à 2)');
+      await expect(rollbackManager.rollback('test.luau', { steps: 5 }))
+        .rejects.toThrow('Seulement 1 version(s) antérieure(s) disponible(s)');
+      await expect(rollbackManager.rollback('test.luau', { timestamp: 0 }))
+        .rejects.toThrow('Aucune version de test.luau antérieure');
     });
   });
 
-  describe('History management', () => {
-    it('should get history for specific file', () => {
-      rollbackManager.saveSnapshot('file1.luau', 'content1', { operation: 'insert', lineStart: 1 });
-      rollbackManager.saveSnapshot('file2.luau', 'content2', { operation: 'insert', lineStart: 1 });
-      
-      const history = rollbackManager.getHistory('file1.luau');
-      expect(history.size).toBe(1);
-      expect(history.has('file1.luau')).toBe(true);
-      expect(history.has('file2.luau')).toBe(false);
-    });
+  describe('Persistence', () => {
+    it('should survive a restart', async () => {
+      await writeVersions(rollbackManager, 'src/server/main.server.luau', ['v1', 'v2', 'v3']);
+
+      const restarted = new RollbackManager(projectRoot);
+      const history = await restarted.getHistory();
 
-    it('should get all history', () => {
-      rollbackManager.saveSnapshot('file1.luau', 'content1', { operation: 'insert', lineStart: 1 });
-      rollbackManager.saveSnapshot('file2.luau', 'content2', { operation: 'insert', lineStart: 1 });
-      
-      const history = rollbackManager.getHistory();
-      expect(history.size).toBe(2);
+      expect(Array.from(history.keys())).toEqual(['src/server/main.server.luau']);
+      expect(await restarted.getVersionContent('src/server/main.server.luau', 1)).toBe('v1');
     });
 
-    it('should clear history for specific file', () => {
-      rollbackManager.saveSnapshot('file1.luau', 'content1', { operation: 'insert', lineStart: 1 });
-      rollbackManager.saveSnapshot('file2.luau', 'content2', { operation: 'insert', lineStart: 1 });
-      
-      rollbackManager.clearHistory('file1.luau');
-      
-      const history = rollbackManager.getHistory();
-      expect(history.has('file1.luau')).toBe(false);
-      expect(history.has('file2.luau')).toBe(true);
+    it('should read retention settings from .mcp-roblox/config.json', async () => {
+      await fs.outputJson(path.join(projectRoot, '.mcp-roblox', 'config.json'), { history: { maxVersions: 2 } });
+      const configured = new RollbackManager(projectRoot);
+
+      await writeVersions(configured, 'test.luau', ['v1', 'v2', 'v3', 'v4']);
+
+      const versions = (await configured.getHistory('test.luau')).get('test.luau')!;
+      expect(versions.map(v => v.id)).toEqual([4, 3]);
+      // The oldest kept version is rebuilt as a checkpoint
+      expect(versions[1].content).toBe('v3');
     });
 
-    it('should clear all history', () => {
-      rollbackManager.saveSnapshot('file1.luau', 'content1', { operation: 'insert', lineStart: 1 });
-      rollbackManager.saveSnapshot('file2.luau', 'content2', { operation: 'insert', lineStart: 1 });
-      
-      rollbackManager.clearHistory();
-      
-      expect(rollbackManager.getHistory().size).toBe(0);
+    it('should keep the versions a changeset still references when pruning', async () => {
+      const configured = new RollbackManager(projectRoot, { maxVersions: 2 });
+      await fs.outputFile(path.join(projectRoot, 'test.luau'), 'v1');
+
+      const changeset = await configured.applyChangeset([{ filePath: 'test.luau', previousContent: 'v1', newContent: 'v2' }]);
+      await writeVersions(configured, 'test.luau', ['v2', 'v3', 'v4']);
+
+      expect((await configured.getFileHistory('test.luau')).map(v => v.id)).toEqual([4, 3, 2, 1]);
+      await configured.rollbackChangeset(changeset.id);
+      expect(await readScript('test.luau')).toBe('v1');
     });
-  });
 
-  describe('Token cost tracking', () => {
-    it('should calculate total token cost', () => {
-      // 'test content' = 12 chars = 3 tokens
-      rollbackManager.saveSnapshot('file1.luau', 'test content', { operation: 'insert', lineStart: 1 });
-      // 'longer test content here' = 24 chars = 6 tokens
-      rollbackManager.saveSnapshot('file2.luau', 'longer test content here', { operation: 'insert', lineStart: 1 });
-      
-      expect(rollbackManager.getTotalTokenCost()).toBe(9);
+    it('should clear history for one file or all files', async () => {
+      await writeVersions(rollbackManager, 'file1.luau', ['a', 'b']);
+      await writeVersions(rollbackManager, 'file2.luau', ['a', 'b']);
+
+      await rollbackManager.clearHistory('file1.luau');
+      expect(Array.from((await rollbackManager.getHistory()).keys())).toEqual(['file2.luau']);
+
+      await rollbackManager.clearHistory();
+      expect((await rollbackManager.getHistory()).size).toBe(0);
     });
   });
 
   describe('Import/Export', () => {
-    it('should export history to JSON', () => {
-      rollbackManager.saveSnapshot('test.luau', 'content', { 
-        operation: 'insert', 
-        lineStart: 1,
-        newContent: 'test'
-      });
-      
-      const json = rollbackManager.exportHistory();
-      const parsed = JSON.parse(json);
-      
-      expect(parsed).toHaveProperty('test.luau');
-      expect(parsed['test.luau']).toHaveLength(1);
-      expect(parsed['test.luau'][0].previousContent).toBe('content');
-    });
-
-    it('should import history from JSON', () => {
-      const historyData = {
-        'imported.luau': [{
-          timestamp: Date.now(),
-          previousContent: 'imported content',
-          patch: { additions: [], deletions: [], modifications: [] },
-          tokenCost: 10
-        }]
-      };
-      
-      rollbackManager.importHistory(JSON.stringify(historyData));
-      
-      const history = rollbackManager.getHistory();
-      expect(history.has('imported.luau')).toBe(true);
-      expect(history.get('imported.luau')![0].previousContent).toBe('imported content');
+    it('should round-trip history through JSON', async () => {
+      await writeVersions(rollbackManager, 'test.luau', ['v1', 'v2']);
+      const json = await rollbackManager.exportHistory();
+
+      const otherRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-import-'));
+      try {
+        const imported = new RollbackManager(otherRoot);
+        await imported.importHistory(json);
+        expect(await imported.getVersionContent('test.luau', 1)).toBe('v1');
+      } finally {
+        await fs.remove(otherRoot);
+      }
     });
 
-    it('should handle invalid JSON on import', () => {
-      expect(() => rollbackManager.importHistory('invalid json'))
-        .toThrow('Erreur lors de l\'import de l\'historique');
+    it('should handle invalid JSON on import', async () => {
+      await expect(rollbackManager.importHistory('invalid json'))
+        .rejects.toThrow('Erreur lors de l\'import de l\'historique');
     });
   });
-});
\ No newline at end of file
+});
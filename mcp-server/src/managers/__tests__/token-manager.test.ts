@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { TokenManager } from '../token-manager.js';
+import { HeuristicTokenCounter, TokenCounter, VocabularyTokenCounter } from '../../utils/token-counter.js';
 
 describe('TokenManager', () => {
   let tokenManager: TokenManager;
@@ -68,6 +69,15 @@ describe('TokenManager', () => {
       expect(stats.cacheHits).toBe(2);
       expect(stats.cacheMisses).toBe(1);
     });
+
+    it('should add up the tokens saved by cache hits', () => {
+      tokenManager.recordCacheHit(120);
+      tokenManager.recordCacheHit(-5);
+      tokenManager.recordCacheHit(30);
+
+      expect(tokenManager.getDetailedStats().tokensSaved).toBe(150);
+      expect(tokenManager.getTokenReport()).toMatchObject({ cacheHits: 3, cacheMisses: 0, tokensSaved: 150 });
+    });
   });
 
   describe('Limit detection', () => {
@@ -124,4 +134,97 @@ describe('TokenManager', () => {
       expect(stats.contextWindowMax).toBe(100000); // Max should not reset
     });
   });
-});
\ No newline at end of file
+
+  describe('Token counters', () => {
+    // Reference counts from the cl100k_base tokenizer
+    const REFERENCE_COUNTS: Array<[string, number]> = [
+      ['hello world', 2],
+      ['local Players = game:GetService("Players")', 9],
+      ['\t\t\t\treturn true', 3],
+      [
+        'local ReplicatedStorage = game:GetService("ReplicatedStorage")\n' +
+        'local remote = ReplicatedStorage:WaitForChild("BuyItem")\n\n' +
+        'remote.OnServerEvent:Connect(function(player, itemId, amount)\n' +
+        '\tif typeof(amount) ~= "number" or amount < 1 then\n\t\treturn\n\tend\n' +
+        '\tlocal leaderstats = player:FindFirstChild("leaderstats")\n' +
+        '\tleaderstats.Coins.Value -= amount * 10\nend)',
+        86
+      ],
+      [
+        'local Shop = {}\n\nfunction Shop:buy(player, itemId)\n\tlocal price = PRICES[itemId]\n' +
+        '\tif not price then\n\t\twarn("Unknown item", itemId)\n\t\treturn false\n\tend\n\treturn true\nend\n\nreturn Shop',
+        47
+      ],
+      ['✅ **Script mis à jour avec succès**\n\n**Fichier:** `src/server/Main.server.luau`\n**Taille:** 120 caractères\n**Lignes:** 12', 38],
+      ['The server counts the tokens of every tool response and reports the usage per tool, per file and per session.', 22]
+    ];
+
+    it('should stay close to reference tokenizer counts', () => {
+      const counter = new VocabularyTokenCounter();
+      const heuristic = new HeuristicTokenCounter();
+      let counterError = 0;
+      let heuristicError = 0;
+
+      for (const [text, expected] of REFERENCE_COUNTS) {
+        const count = counter.count(text);
+        expect(Math.abs(count - expected)).toBeLessThanOrEqual(Math.ceil(expected * 0.15));
+        counterError += Math.abs(count - expected);
+        heuristicError += Math.abs(heuristic.count(text) - expected);
+      }
+      expect(counterError).toBeLessThan(heuristicError);
+    });
+
+    it('should count short samples like the reference tokenizer', () => {
+      const counter = new VocabularyTokenCounter();
+      expect(counter.count('')).toBe(0);
+      expect(counter.count('hello world')).toBe(2);
+      expect(counter.count('local Players = game:GetService("Players")')).toBe(9);
+      // Indentation costs little, unknown identifiers are split
+      expect(counter.count('\t\t\t\treturn true')).toBe(3);
+      expect(counter.count('xqzvbnmplk')).toBeGreaterThan(1);
+    });
+
+    it('should use the configured counter and fall back to the heuristic', () => {
+      tokenManager.setCounter(new VocabularyTokenCounter());
+      expect(tokenManager.getCounterName()).toBe('vocabulary');
+      expect(tokenManager.estimateTokens('hello world')).toBe(2);
+
+      const failing: TokenCounter = { name: 'broken', count: () => { throw new Error('vocabulaire absent'); } };
+      tokenManager.setCounter(failing);
+      expect(tokenManager.estimateTokens('hello world')).toBe(new HeuristicTokenCounter().count('hello world'));
+    });
+  });
+
+  describe('Per tool, file and session tracking', () => {
+    it('should attribute tokens to tools and files, largest first', () => {
+      tokenManager.recordToolCall('read_script', 'a'.repeat(400), 'src/server/main.server.luau');
+      tokenManager.recordToolCall('read_script', 'a'.repeat(40), 'src/shared/Utils.luau');
+      tokenManager.recordToolCall('read_script', 'a'.repeat(400), 'src/server/main.server.luau');
+      tokenManager.recordToolCall('search_in_scripts', 'a'.repeat(80));
+
+      const report = tokenManager.getTokenReport();
+      expect(report.tools).toEqual([
+        { tool: 'read_script', calls: 3, tokens: 210, maxTokens: 100 },
+        { tool: 'search_in_scripts', calls: 1, tokens: 20, maxTokens: 20 }
+      ]);
+      expect(report.files).toEqual([
+        { file: 'src/server/main.server.luau', reads: 2, tokens: 200 },
+        { file: 'src/shared/Utils.luau', reads: 1, tokens: 10 }
+      ]);
+      expect(report.session).toMatchObject({ id: 1, calls: 4, tokens: 230 });
+    });
+
+    it('should start a new session without losing the server total', () => {
+      tokenManager.recordToolCall('read_script', 'a'.repeat(400), 'src/server/main.server.luau');
+      const session = tokenManager.startSession();
+
+      expect(session.id).toBe(2);
+      const report = tokenManager.getTokenReport();
+      expect(report.contextWindowUsed).toBe(0);
+      expect(report.totalTokensUsed).toBe(100);
+      expect(report.tools).toEqual([]);
+      expect(report.files).toEqual([]);
+      expect(report.previousSessions).toMatchObject([{ id: 1, calls: 1, tokens: 100 }]);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Multi-file changesets: every operation is validated before any file is touched,
+ * then the whole set is applied and recorded as a single rollback unit
+ */
+
+import { IRollbackManager, PatchOperation, FileChange, Changeset } from '../interfaces/managers.js';
+import { ModificationHookManager, ModificationContext, hookManager } from '../../modification-hooks.js';
+import { PatchAnchor, resolvePatchAnchor } from '../patching/anchors.js';
+import { applyUnifiedDiff, describeHunkFailure } from '../patching/unified-diff.js';
+import { hashContent } from '../utils/content-hash.js';
+import { normalizeInsideProject } from '../utils/path-utils.js';
+import { applyPatchToContent } from './patch-manager.js';
+import fs from 'fs-extra';
+import path from 'path';
+
+export type ChangesetOperationType = 'write' | 'patch' | 'create' | 'delete' | 'rename';
+
+export interface ChangesetOperation {
+  type: ChangesetOperationType;
+  scriptPath: string;
+  // write / create
+  content?: string;
+  // patch, same fields as patch_script
+  operation?: PatchOperation['operation'];
+  lineStart?: number;
+  lineEnd?: number;
+  // Resolved against the content left by the previous operations
+  anchor?: PatchAnchor;
+  newContent?: string;
+  // Unified diff, instead of operation/lineStart
+  diff?: string;
+  // rename
+  newPath?: string;
+  // Version of the file on disk the operation was written against
+  expectedVersion?: string;
+}
+
+export interface OperationReport {
+  index: number;
+  operation: ChangesetOperation;
+  approved: boolean;
+  errors: string[];
+  warnings: string[];
+  suggestions: string[];
+}
+
+export interface ChangesetResult {
+  applied: boolean;
+  // Final state of every file touched by the operations
+  changes: FileChange[];
+  reports: OperationReport[];
+  changeset?: Changeset;
+}
+
+export class ChangesetManager {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly rollbackManager: IRollbackManager,
+    private readonly hooks: ModificationHookManager = hookManager
+  ) {}
+
+  /**
+   * Validate all operations against the state left by the previous ones, then apply
+   * them all or none. With dryRun nothing is written.
+   */
+  async apply(operations: ChangesetOperation[], description?: string, dryRun: boolean = false): Promise<ChangesetResult> {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new Error('Le changeset doit contenir au moins une opération');
+    }
+
+    // Content of each touched file: on disk before the changeset, and after the operations so far
+    const original = new Map<string, string | null>();
+    const state = new Map<string, string | null>();
+
+    const read = async (file: string): Promise<string | null> => {
+      if (!state.has(file)) {
+        const fullPath = path.join(this.projectRoot, file);
+        const content = await fs.pathExists(fullPath) ? await fs.readFile(fullPath, 'utf-8') : null;
+        original.set(file, content);
+        state.set(file, content);
+      }
+      return state.get(file)!;
+    };
+
+    const reports: OperationReport[] = [];
+    for (const [index, operation] of operations.entries()) {
+      const report: OperationReport = { index, operation, approved: true, errors: [], warnings: [], suggestions: [] };
+      reports.push(report);
+
+      try {
+        if (operation.expectedVersion !== undefined) {
+          const file = this.normalizePath(operation.scriptPath);
+          await read(file);
+          this.checkVersion(file, original.get(file) ?? null, operation.expectedVersion);
+        }
+        await this.planOperation(operation, read, state, report);
+      } catch (error) {
+        report.approved = false;
+        report.errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const changes: FileChange[] = [];
+    for (const [file, content] of state) {
+      if (content !== original.get(file)) {
+        changes.push({ filePath: file, previousContent: original.get(file)!, newContent: content });
+      }
+    }
+
+    const approved = reports.every(report => report.approved);
+    if (!approved || dryRun || changes.length === 0) {
+      return { applied: false, changes, reports };
+    }
+
+    const changeset = await this.rollbackManager.applyChangeset(changes, description);
+    return { applied: true, changes, reports, changeset };
+  }
+
+  private async planOperation(
+    operation: ChangesetOperation,
+    read: (file: string) => Promise<string | null>,
+    state: Map<string, string | null>,
+    report: OperationReport
+  ): Promise<void> {
+    const file = this.normalizePath(operation.scriptPath);
+    const current = await read(file);
+
+    switch (operation.type) {
+      case 'write':
+      case 'create': {
+        if (operation.type === 'create' && current !== null) {
+          throw new Error(`Le script ${file} existe déjà`);
+        }
+        if (operation.type === 'write' && operation.content === undefined) {
+          throw new Error(`content est requis pour écrire ${file}`);
+        }
+        const content = operation.content ?? '';
+        const result = await this.runHooks({
+          operation: operation.type,
+          filePath: file,
+          originalContent: current ?? '',
+          newContent: content
+        }, state, report);
+        state.set(file, result ?? content);
+        break;
+      }
+
+      case 'patch': {
+        if (current === null) {
+          throw new Error(`Le script ${file} n'existe pas`);
+        }
+        let content: string;
+        let patch: PatchOperation | undefined;
+        if (operation.diff !== undefined) {
+          const result = applyUnifiedDiff(current, operation.diff);
+          if (!result.success) {
+            throw new Error(result.hunks.filter(hunk => !hunk.applied).map(describeHunkFailure).join('\n'));
+          }
+          content = result.content;
+        } else {
+          patch = resolvePatchAnchor(current, {
+            scriptPath: file,
+            operation: operation.operation!,
+            lineStart: operation.lineStart!,
+            lineEnd: operation.lineEnd,
+            anchor: operation.anchor,
+            newContent: operation.newContent
+          });
+          content = applyPatchToContent(current, patch);
+        }
+        const result = await this.runHooks({
+          operation: 'patch',
+          filePath: file,
+          originalContent: current,
+          newContent: content,
+          patch
+        }, state, report);
+        state.set(file, result ?? content);
+        break;
+      }
+
+      case 'delete': {
+        if (current === null) {
+          throw new Error(`Le script ${file} n'existe pas`);
+        }
+        await this.runHooks({ operation: 'delete', filePath: file, originalContent: current }, state, report);
+        state.set(file, null);
+        break;
+      }
+
+      case 'rename': {
+        if (current === null) {
+          throw new Error(`Le script ${file} n'existe pas`);
+        }
+        if (!operation.newPath) {
+          throw new Error(`newPath est requis pour renommer ${file}`);
+        }
+        const target = this.normalizePath(operation.newPath);
+        if (await read(target) !== null) {
+          throw new Error(`Le script ${target} existe déjà`);
+        }
+        // The file is moved as-is, hooks only validate it
+        await this.runHooks({
+          operation: 'rename',
+          filePath: target,
+          originalContent: current,
+          newContent: current,
+          metadata: { from: file }
+        }, state, report);
+        state.set(file, null);
+        state.set(target, current);
+        break;
+      }
+
+      default:
+        throw new Error(`Type d'opération inconnu: ${(operation as ChangesetOperation).type}`);
+    }
+  }
+
+  /**
+   * Reject operations written against another version than the one on disk before the changeset
+   */
+  private checkVersion(file: string, original: string | null, expectedVersion: string): void {
+    if (original === null) {
+      throw new Error(`Le script ${file} n'existe pas (version ${expectedVersion} attendue)`);
+    }
+    const currentVersion = hashContent(original);
+    if (currentVersion !== expectedVersion) {
+      throw new Error(`Le script ${file} a été modifié depuis sa lecture (version ${expectedVersion} attendue, ${currentVersion} sur le disque): relisez-le avec read_script`);
+    }
+  }
+
+  /**
+   * Run the modification hooks against the planned state, returning the content they rewrote if any
+   */
+  private async runHooks(
+    context: ModificationContext,
+    state: Map<string, string | null>,
+    report: OperationReport
+  ): Promise<string | undefined> {
+    const result = await this.hooks.executeHooks({ ...context, plannedContents: new Map(state) });
+
+    report.approved = report.approved && result.approved;
+    report.errors.push(...(result.errors ?? []));
+    report.warnings.push(...(result.warnings ?? []));
+    report.suggestions.push(...(result.suggestions ?? []));
+
+    return result.modifiedContent;
+  }
+
+  private normalizePath(scriptPath: string): string {
+    if (!scriptPath) {
+      throw new Error('scriptPath est requis pour chaque opération');
+    }
+    return normalizeInsideProject(scriptPath);
+  }
+}
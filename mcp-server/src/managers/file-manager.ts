@@ -7,25 +7,81 @@ import fs from 'fs-extra';
 import path from 'path';
 import { glob } from 'glob';
 import { PathNormalizer, normalizePath, joinPath } from '../utils/path-utils.js';
+import { RojoProjectTree, DEFAULT_PROJECT_FILE, Realm, ScriptType, resolveScriptInfo } from '../rojo/project-tree.js';
 
 export class FileManager implements IFileManager {
   private projectRoot: string;
   private projectStructure: Map<string, FileInfo> = new Map();
   private fileWatcher: any = null;
   private pathNormalizer: PathNormalizer;
+  private projectTree: RojoProjectTree | null = null;
+  // Why the project file could not be loaded, when it exists
+  private projectTreeError: string | null = null;
 
-  constructor(projectRoot: string) {
+  constructor(projectRoot: string, private projectFile: string = DEFAULT_PROJECT_FILE) {
     this.projectRoot = normalizePath(projectRoot);
     this.pathNormalizer = new PathNormalizer(this.projectRoot);
   }
 
   /**
-   * Initialize file watching
+   * Load the project tree and scan the scripts it maps
    */
   async initialize(): Promise<void> {
+    await this.loadProjectTree();
     await this.scanProject();
   }
 
+  /**
+   * Switch to another Rojo project file, `initialize` must be called afterwards
+   */
+  setProjectFile(projectFile: string): void {
+    this.projectFile = projectFile;
+  }
+
+  /**
+   * Rojo project tree, null when the project file is missing or invalid
+   */
+  getProjectTree(): RojoProjectTree | null {
+    return this.projectTree;
+  }
+
+  /**
+   * Error raised by an existing but invalid project file (missing "tree", bad JSON or Luau...)
+   */
+  getProjectTreeError(): string | null {
+    return this.projectTreeError;
+  }
+
+  /**
+   * Reload the project tree after a project or .meta.json change
+   */
+  async reloadProjectTree(): Promise<void> {
+    await this.loadProjectTree();
+
+    // A .meta.json or a new mapping can change the type of scripts already loaded
+    for (const [filePath, fileInfo] of this.projectStructure) {
+      this.projectStructure.set(filePath, { ...fileInfo, ...this.describeScript(filePath) });
+    }
+  }
+
+  /**
+   * Load the Rojo project tree used to resolve script types
+   */
+  private async loadProjectTree(): Promise<void> {
+    this.projectTree = null;
+    this.projectTreeError = null;
+
+    // Without a project file, types fall back to Rojo file naming rules
+    const projectFile = await RojoProjectTree.resolveProjectFile(this.projectRoot, this.projectFile);
+    if (!await fs.pathExists(path.join(this.projectRoot, projectFile))) return;
+
+    try {
+      this.projectTree = await RojoProjectTree.load(this.projectRoot, projectFile);
+    } catch (error) {
+      this.projectTreeError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
   /**
    * Read file content
    */
@@ -78,28 +134,25 @@ export class FileManager implements IFileManager {
    * Create a new script file
    */
   async createFile(filePath: string, content: string, scriptType: string): Promise<void> {
-    // Determine file extension based on type
-    let finalPath = filePath;
-    
-    if (!filePath.endsWith('.luau') && !filePath.endsWith('.lua')) {
-      // Add appropriate extension
-      switch (scriptType.toLowerCase()) {
-        case 'server':
-          finalPath = filePath.replace(/\.[^.]*$/, '') + '.server.luau';
-          break;
-        case 'client':
-          finalPath = filePath.replace(/\.[^.]*$/, '') + '.client.luau';
-          break;
-        case 'module':
-        case 'shared':
-          finalPath = filePath.replace(/\.[^.]*$/, '') + '.luau';
-          break;
-        default:
-          finalPath = filePath + '.luau';
-      }
+    await this.writeFile(this.resolveScriptPath(filePath, scriptType), content);
+  }
+
+  /**
+   * Path of a new script, with the extension Rojo expects for its type when none is given
+   */
+  resolveScriptPath(filePath: string, scriptType: string): string {
+    if (filePath.endsWith('.luau') || filePath.endsWith('.lua')) {
+      return filePath;
     }
 
-    await this.writeFile(finalPath, content);
+    switch (scriptType.toLowerCase()) {
+      case 'server':
+        return filePath + '.server.luau';
+      case 'client':
+        return filePath + '.client.luau';
+      default:
+        return filePath + '.luau';
+    }
   }
 
   /**
@@ -129,17 +182,32 @@ export class FileManager implements IFileManager {
    * Scan project and build structure
    */
   private async scanProject(): Promise<void> {
-    const pattern = path.join(this.projectRoot, 'src/**/*.{luau,lua}').replace(/\\/g, '/');
-    const files = await glob(pattern);
+    // Scripts mapped by the Rojo project, otherwise the src/** convention
+    const files = this.projectTree
+      ? this.projectTree.getScripts().map(script => script.filePath!)
+      : await glob('src/**/*.{luau,lua}', { cwd: this.projectRoot });
 
     this.projectStructure.clear();
 
     for (const file of files) {
-      const relativePath = path.relative(this.projectRoot, file).replace(/\\/g, '/');
-      await this.updateFileCache(relativePath);
+      await this.updateFileCache(normalizePath(file));
     }
   }
 
+  /**
+   * Reload a file changed on disk, or drop it from the cache if it no longer exists
+   */
+  async refreshFile(filePath: string): Promise<void> {
+    await this.updateFileCache(normalizePath(filePath));
+  }
+
+  /**
+   * Drop a file from the cache, e.g. after it was deleted on disk
+   */
+  forgetFile(filePath: string): void {
+    this.projectStructure.delete(normalizePath(filePath));
+  }
+
   /**
    * Update file in cache
    */
@@ -149,12 +217,11 @@ export class FileManager implements IFileManager {
     try {
       const content = await fs.readFile(fullPath, 'utf-8');
       const stats = await fs.stat(fullPath);
-      const type = this.determineScriptType(filePath);
 
       this.projectStructure.set(filePath, {
         path: filePath,
         content,
-        type,
+        ...this.describeScript(filePath),
         lastModified: stats.mtimeMs
       });
     } catch (error) {
@@ -164,22 +231,33 @@ export class FileManager implements IFileManager {
   }
 
   /**
-   * Determine script type from path
+   * Script type, realm and DataModel path resolved through the project tree
+   */
+  private describeScript(filePath: string): Pick<FileInfo, 'type' | 'className' | 'realm' | 'instancePath'> {
+    const scriptInfo = resolveScriptInfo(filePath, this.projectTree);
+    return {
+      type: this.toFileType(scriptInfo.type, scriptInfo.realm),
+      className: scriptInfo.type,
+      realm: scriptInfo.realm,
+      instancePath: scriptInfo.instancePath
+    };
+  }
+
+  /**
+   * Map a resolved script type to the file categories used by the cache
    */
-  private determineScriptType(filePath: string): 'server' | 'client' | 'shared' | 'module' {
-    if (filePath.includes('.server.')) return 'server';
-    if (filePath.includes('.client.')) return 'client';
-    if (filePath.includes('/server/')) return 'server';
-    if (filePath.includes('/client/')) return 'client';
-    if (filePath.includes('/shared/')) return 'shared';
-    return 'module';
+  private toFileType(type: ScriptType, realm: Realm): FileInfo['type'] {
+    if (type === 'ServerScript') return 'server';
+    if (type === 'LocalScript') return 'client';
+    // ModuleScripts replicated to both sides are shared, the others stay realm-specific modules
+    return realm === 'shared' ? 'shared' : 'module';
   }
 
   /**
    * Get file info
    */
   getFileInfo(filePath: string): FileInfo | undefined {
-    return this.projectStructure.get(filePath);
+    return this.projectStructure.get(normalizePath(filePath));
   }
 
   /**
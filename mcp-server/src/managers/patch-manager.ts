@@ -1,259 +1,531 @@
 /**
- * Patch operations and code modification management
+ * Script modification pipeline behind every write tool: freshness check, validation hooks,
+ * write, history and version tracking for whole-file writes, creations, deletions,
+ * line patches and unified diffs, with the automatic review of line patches
  */
 
-import { IPatchManager, PatchOperation, ValidationResult } from '../interfaces/managers.js';
+import { IPatchManager, IRollbackManager, PatchOperation, PatchResult, FreshnessCheck, ValidationResult } from '../interfaces/managers.js';
 import { validatePatchBeforeApply } from '../../syntax-rules.js';
+import { getAntiPatternSuggestions } from '../../antipatterns.js';
+import { getApiDumpIndex } from '../../roblox-apis.js';
+import { ModificationHookManager, HookResult, hookManager } from '../../modification-hooks.js';
 import { syntaxEnforcer } from '../validation/syntax-enforcer.js';
-import { IFileManager } from '../interfaces/managers.js';
-import { IRollbackManager } from '../interfaces/managers.js';
+import { analyzeLuauSyntax, formatSyntaxIssue } from '../parser/syntax-analysis.js';
+import { ApiLinter, formatApiFindings } from '../analysis/api-linter.js';
+import { RuleEngine } from '../analysis/rule-engine.js';
+import { resolvePatchAnchor } from '../patching/anchors.js';
+import { applyUnifiedDiff, describeHunkFailure, formatHunkReport } from '../patching/unified-diff.js';
+import { threeWayMerge } from '../patching/three-way-merge.js';
+import { hashContent } from '../utils/content-hash.js';
+import { FileManager } from './file-manager.js';
+import { VersionTracker } from './version-tracker.js';
+
+// Content of a new script when none is given, by script type
+const DEFAULT_SCRIPT_CONTENT: Record<string, string> = {
+  server: '-- Script serveur\nprint("Script serveur démarré")',
+  client: '-- Script client\nprint("Script client démarré")',
+  module: '-- Module\nlocal Module = {}\n\nreturn Module'
+};
 
 export class PatchManager implements IPatchManager {
-  private fileManager: IFileManager;
-  private rollbackManager: IRollbackManager;
-  private autoValidateEnabled: boolean = true;
+  private ruleEngine: RuleEngine = new RuleEngine();
+  // Merge stale writes automatically when the changes do not overlap
+  private autoMergeEnabled: boolean = false;
+
+  constructor(
+    private readonly fileManager: FileManager,
+    private readonly rollbackManager: IRollbackManager,
+    private readonly versionTracker: VersionTracker,
+    private readonly hooks: ModificationHookManager = hookManager
+  ) {}
+
+  setRuleEngine(ruleEngine: RuleEngine): void {
+    this.ruleEngine = ruleEngine;
+  }
 
-  constructor(fileManager: IFileManager, rollbackManager: IRollbackManager) {
-    this.fileManager = fileManager;
-    this.rollbackManager = rollbackManager;
+  setAutoMerge(enabled: boolean): void {
+    this.autoMergeEnabled = enabled;
+  }
+
+  isAutoMergeEnabled(): boolean {
+    return this.autoMergeEnabled;
   }
 
   /**
-   * Apply a patch to a file
+   * Replace the whole content of a script, or create it when it does not exist
    */
-  async applyPatch(patch: PatchOperation): Promise<{ success: boolean; result: any }> {
-    try {
-      // Read current content
-      const content = await this.fileManager.readFile(patch.scriptPath);
-      const lines = content.split('\n');
+  async writeScript(scriptPath: string, content: string, showDiff: boolean = true, expectedVersion?: string): Promise<PatchResult> {
+    const diskContent = await this.fileManager.fileExists(scriptPath) ? await this.fileManager.readFile(scriptPath) : null;
 
-      // Validate line numbers
-      if (patch.lineStart < 1 || patch.lineStart > lines.length + 1) {
-        throw new Error(`Invalid line number: ${patch.lineStart} (file has ${lines.length} lines)`);
+    // Refuse to overwrite changes made since the last read
+    if (diskContent !== null) {
+      const freshness = await this.checkFreshness(scriptPath, diskContent, expectedVersion, () => content);
+      if (freshness.status === 'rejected') {
+        return { success: false, message: freshness.message };
+      }
+      if (freshness.status === 'merged') {
+        return this.writeMergedContent(scriptPath, diskContent, freshness.content, 'write_script');
       }
+    }
 
-      // Save snapshot for rollback
-      this.rollbackManager.saveSnapshot(patch.scriptPath, content, patch);
-
-      // VALIDATION OBLIGATOIRE AVANT APPLICATION
-      if (this.autoValidateEnabled) {
-        // D'abord simuler le patch pour obtenir le contenu final
-        let simulatedContent = content;
-        const lines = content.split('\n');
-        
-        switch (patch.operation) {
-          case "insert":
-            if (patch.newContent) {
-              const insertLines = patch.newContent.split('\n');
-              const simLines = [...lines];
-              simLines.splice(patch.lineStart - 1, 0, ...insertLines);
-              simulatedContent = simLines.join('\n');
-            }
-            break;
-          case "replace":
-            if (patch.newContent) {
-              const replaceLines = patch.newContent.split('\n');
-              const endLine = patch.lineEnd || patch.lineStart;
-              const simLines = [...lines];
-              simLines.splice(patch.lineStart - 1, endLine - patch.lineStart + 1, ...replaceLines);
-              simulatedContent = simLines.join('\n');
-            }
-            break;
-          case "delete":
-            const deleteEnd = patch.lineEnd || patch.lineStart;
-            const simLines = [...lines];
-            simLines.splice(patch.lineStart - 1, deleteEnd - patch.lineStart + 1);
-            simulatedContent = simLines.join('\n');
-            break;
-        }
-        
-        // Valider avec le nouveau système
-        const enforcedValidation = syntaxEnforcer.validateBeforeModification(
-          content,
-          simulatedContent,
-          patch.operation
-        );
-        
-        if (!enforcedValidation.isValid) {
-          // Améliorer les messages d'erreur avec du contexte
-          const enhancedValidation = syntaxEnforcer.enhanceErrorMessages(
-            simulatedContent,
-            enforcedValidation
-          );
-          
-          // BLOQUER LA MODIFICATION
-          const errorMsg = [
-            "❌ MODIFICATION BLOQUÉE - ERREURS DE SYNTAXE DÉTECTÉES ❌",
-            "",
-            ...enhancedValidation.errors,
-            "",
-            "💡 SUGGESTIONS:",
-            ...enhancedValidation.suggestions,
-            "",
-            "📊 ANALYSE DES BLOCS:",
-            `   Expected ends: ${enhancedValidation.blockAnalysis.expectedEnds}`,
-            `   Found ends: ${enhancedValidation.blockAnalysis.foundEnds}`
-          ];
-          
-          throw new Error(errorMsg.join('\n'));
-        }
-        
-        // Afficher les warnings s'il y en a
-        if (enforcedValidation.warnings.length > 0) {
-          console.warn('⚠️ Warnings détectés:', enforcedValidation.warnings);
-        }
+    const hookResult = await this.hooks.executeHooks({
+      operation: 'write',
+      filePath: scriptPath,
+      originalContent: diskContent ?? '',
+      newContent: content
+    });
+    if (!hookResult.approved) {
+      let errorMsg = `❌ **Validation échouée - Écriture bloquée**\n\n`;
+      errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
+      errorMsg += this.formatHookIssues(hookResult);
+      errorMsg += `\n**📋 Actions requises:**\n`;
+      errorMsg += `1. Corrigez les erreurs de syntaxe ci-dessus\n`;
+      errorMsg += `2. Assurez-vous que tous les blocs sont fermés (chaque 'function', 'if', 'for' doit avoir son 'end')\n`;
+      errorMsg += `3. Vérifiez l'équilibre des parenthèses et accolades\n`;
+      errorMsg += `4. Réessayez l'écriture après correction\n`;
+      return { success: false, message: errorMsg };
+    }
+
+    // Hooks may have reformatted the content
+    const finalContent = hookResult.modifiedContent || content;
+    const diffReport = diskContent !== null && showDiff ? generateDiff(diskContent, finalContent) : '';
+
+    await this.fileManager.writeFile(scriptPath, finalContent);
+    if (diskContent !== null) {
+      await this.rollbackManager.recordChange(scriptPath, diskContent, finalContent, 'write_script');
+    }
+    const version = this.versionTracker.record(scriptPath, finalContent);
+
+    let message = `✅ **Script mis à jour avec succès**\n\n**Fichier:** \`${scriptPath}\`\n**Version:** \`${version}\`\n**Taille:** ${finalContent.length} caractères\n**Lignes:** ${finalContent.split('\n').length}${diffReport ? '\n\n' + diffReport : ''}`;
+    if (hookResult.warnings && hookResult.warnings.length > 0) {
+      message += `\n\n**⚠️ Avertissements détectés:**\n`;
+      hookResult.warnings.forEach(warn => message += `- ${warn}\n`);
+    }
+
+    return { success: true, message, filePath: scriptPath };
+  }
+
+  /**
+   * Create a new script, with the extension of its type and a default content
+   */
+  async createScript(scriptPath: string, scriptType: string, content: string = ''): Promise<PatchResult> {
+    const filePath = this.fileManager.resolveScriptPath(scriptPath, scriptType);
+    if (await this.fileManager.fileExists(filePath)) {
+      throw new Error(`Le script ${filePath} existe déjà`);
+    }
+
+    const initialContent = content || (DEFAULT_SCRIPT_CONTENT[scriptType] ?? DEFAULT_SCRIPT_CONTENT.module);
+    const hookResult = await this.hooks.executeHooks({
+      operation: 'create',
+      filePath,
+      newContent: initialContent
+    });
+    if (!hookResult.approved) {
+      let errorMsg = `❌ **Validation échouée - Création bloquée**\n\n`;
+      errorMsg += `**Fichier:** \`${filePath}\`\n\n`;
+      if (hookResult.errors && hookResult.errors.length > 0) {
+        errorMsg += `**🚨 Erreurs:**\n`;
+        hookResult.errors.forEach(err => errorMsg += `- ${err}\n`);
+      }
+      return { success: false, message: errorMsg };
+    }
+
+    const finalContent = hookResult.modifiedContent || initialContent;
+    await this.fileManager.writeFile(filePath, finalContent);
+    const version = this.versionTracker.record(filePath, finalContent);
+
+    const message = `✅ **Script créé avec succès**\n\n**Fichier:** \`${filePath}\`\n**Version:** \`${version}\`\n**Type:** ${scriptType}\n**Taille:** ${finalContent.length} caractères`;
+    return { success: true, message, filePath };
+  }
+
+  /**
+   * Delete a script read in its current version. The deletion is recorded as a changeset,
+   * so the script can be restored with its history.
+   */
+  async deleteScript(scriptPath: string, expectedVersion?: string): Promise<PatchResult> {
+    if (!await this.fileManager.fileExists(scriptPath)) {
+      throw new Error(`Le script ${scriptPath} n'existe pas`);
+    }
+
+    const content = await this.fileManager.readFile(scriptPath);
+
+    // A deletion covers the whole file: it is never merged with the changes on disk
+    const freshness = await this.checkFreshness(scriptPath, content, expectedVersion, () => {
+      throw new Error('une suppression ne peut pas être fusionnée avec les modifications du disque');
+    });
+    if (freshness.status === 'rejected') {
+      return { success: false, message: freshness.message };
+    }
+
+    const hookResult = await this.hooks.executeHooks({ operation: 'delete', filePath: scriptPath, originalContent: content });
+    if (!hookResult.approved) {
+      let errorMsg = `❌ **Validation échouée - Suppression bloquée**\n\n`;
+      errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
+      errorMsg += this.formatHookIssues(hookResult);
+      return { success: false, message: errorMsg };
+    }
+
+    const changeset = await this.rollbackManager.applyChangeset(
+      [{ filePath: scriptPath, previousContent: content, newContent: null }],
+      `delete_script ${scriptPath}`
+    );
+    this.fileManager.forgetFile(scriptPath);
+    this.versionTracker.forget(scriptPath);
+
+    const message = `🗑️ **Script supprimé avec succès**\n\n**Fichier:** \`${scriptPath}\`\n\n` +
+                    `💡 \`rollback_script\` avec \`changesetId: "${changeset.id}"\` restaure le script.`;
+    return { success: true, message, filePath: scriptPath };
+  }
+
+  /**
+   * Apply a patch to a file. Line numbers and anchors target the version the assistant read:
+   * when the file changed since, the patch is merged with the changes on disk.
+   */
+  async applyPatch(patch: PatchOperation): Promise<PatchResult> {
+    if (!await this.fileManager.fileExists(patch.scriptPath)) {
+      throw new Error(`Le script ${patch.scriptPath} n'existe pas`);
+    }
+
+    const content = await this.fileManager.readFile(patch.scriptPath);
+    const lines = content.split('\n');
+
+    const originalPatch = patch;
+    const freshness = await this.checkFreshness(patch.scriptPath, content, patch.expectedVersion,
+      base => applyPatchToContent(base, resolvePatchAnchor(base, originalPatch)));
+    if (freshness.status === 'rejected') {
+      return { success: false, message: freshness.message };
+    }
+    if (freshness.status === 'merged') {
+      return this.writeMergedContent(patch.scriptPath, content, freshness.content, patch.description || `Patch ${patch.operation}`);
+    }
+
+    // Anchors are resolved against the current content, right before use
+    patch = resolvePatchAnchor(content, patch);
+
+    if (patch.lineStart < 1 || patch.lineStart > lines.length + 1) {
+      throw new Error(`Numéro de ligne invalide: ${patch.lineStart} (fichier a ${lines.length} lignes)`);
+    }
+
+    const validationResult = await this.hooks.validatePatch(content, patch);
+    if (!validationResult.approved) {
+      return { success: false, message: this.formatBlockedPatch(patch, validationResult) };
+    }
+
+    const newContent = applyPatchToContent(content, patch);
+    const newLines = newContent.split('\n');
+    const operationDescription = describePatch(patch);
+
+    await this.fileManager.writeFile(patch.scriptPath, newContent);
+    await this.rollbackManager.recordChange(patch.scriptPath, content, newContent, patch.description || operationDescription);
+    const version = this.versionTracker.record(patch.scriptPath, newContent);
+
+    const message = `✅ **Patch appliqué avec succès**\n\n` +
+                    `**Fichier:** \`${patch.scriptPath}\`\n` +
+                    `**Version:** \`${version}\`\n` +
+                    `**Opération:** ${patch.operation}\n` +
+                    `**Description:** ${patch.description || operationDescription}\n` +
+                    `**Détails:** ${operationDescription}\n` +
+                    `**Taille finale:** ${newLines.length} lignes\n\n` +
+                    this.generateReview(lines, newLines, patch);
+
+    return { success: true, message, patch };
+  }
+
+  /**
+   * Apply a unified diff written against the version the assistant read. The whole result
+   * goes through the same hooks as the other writes.
+   */
+  async applyDiff(scriptPath: string, diff: string, description?: string, expectedVersion?: string): Promise<PatchResult> {
+    if (!await this.fileManager.fileExists(scriptPath)) {
+      throw new Error(`Le script ${scriptPath} n'existe pas`);
+    }
+
+    const content = await this.fileManager.readFile(scriptPath);
+
+    const freshness = await this.checkFreshness(scriptPath, content, expectedVersion, base => {
+      const baseResult = applyUnifiedDiff(base, diff);
+      if (!baseResult.success) {
+        throw new Error(baseResult.hunks.filter(hunk => !hunk.applied).map(describeHunkFailure).join('\n'));
       }
+      return baseResult.content;
+    });
+    if (freshness.status === 'rejected') {
+      return { success: false, message: freshness.message };
+    }
+    if (freshness.status === 'merged') {
+      return this.writeMergedContent(scriptPath, content, freshness.content, description || 'Diff');
+    }
+
+    const result = applyUnifiedDiff(content, diff);
+    if (!result.success) {
+      const errorMsg = `❌ **Diff non applicable - Patch bloqué**\n\n` +
+                       `**Fichier:** \`${scriptPath}\`\n\n` +
+                       formatHunkReport(result) +
+                       `\n**📋 Actions requises:**\n` +
+                       `1. Relisez le script avec 'read_script' pour obtenir le contenu actuel\n` +
+                       `2. Régénérez les hunks refusés à partir de la région indiquée\n` +
+                       `3. Aucun hunk n'a été appliqué: renvoyez le diff complet\n`;
+      return { success: false, message: errorMsg };
+    }
 
-      // Apply the patch
-      let newLines = [...lines];
-      let operationDescription = "";
-
-      switch (patch.operation) {
-        case "insert":
-          if (!patch.newContent) {
-            throw new Error("newContent required for insert operation");
-          }
-          const insertLines = patch.newContent.split('\n');
-          newLines.splice(patch.lineStart - 1, 0, ...insertLines);
-          operationDescription = `Inserted ${insertLines.length} line(s) at line ${patch.lineStart}`;
-          break;
-
-        case "replace":
-          if (!patch.newContent) {
-            throw new Error("newContent required for replace operation");
-          }
-          const replaceLines = patch.newContent.split('\n');
-          const endLine = patch.lineEnd || patch.lineStart;
-          newLines.splice(patch.lineStart - 1, endLine - patch.lineStart + 1, ...replaceLines);
-          operationDescription = `Replaced lines ${patch.lineStart}-${endLine} with ${replaceLines.length} line(s)`;
-          break;
-
-        case "delete":
-          const deleteEnd = patch.lineEnd || patch.lineStart;
-          newLines.splice(patch.lineStart - 1, deleteEnd - patch.lineStart + 1);
-          operationDescription = `Deleted lines ${patch.lineStart}-${deleteEnd}`;
-          break;
-
-        default:
-          throw new Error(`Unknown operation: ${patch.operation}`);
+    // Validate the whole result: a hunk can open a block that another one closes
+    const validation = syntaxEnforcer.validateBeforeModification(content, result.content, 'diff');
+    if (!validation.isValid) {
+      const enhanced = syntaxEnforcer.enhanceErrorMessages(result.content, validation);
+      let errorMsg = `❌ **Validation échouée - Patch bloqué**\n\n`;
+      errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
+      errorMsg += `**🚨 Erreurs critiques:**\n`;
+      enhanced.errors.forEach(err => errorMsg += `- ${err}\n`);
+      if (enhanced.suggestions.length > 0) {
+        errorMsg += `\n**💡 Suggestions:**\n`;
+        enhanced.suggestions.forEach(sug => errorMsg += `- ${sug}\n`);
       }
+      errorMsg += `\n💡 Utilisez 'preview_patch' avec le même diff pour vérifier avant d'appliquer.`;
+      return { success: false, message: errorMsg };
+    }
 
-      // Write the modified content
-      const newContent = newLines.join('\n');
-      await this.fileManager.writeFile(patch.scriptPath, newContent);
+    const hookResult = await this.hooks.executeHooks({
+      operation: 'patch',
+      filePath: scriptPath,
+      originalContent: content,
+      newContent: result.content
+    });
+    if (!hookResult.approved) {
+      let errorMsg = `❌ **Validation échouée - Patch bloqué**\n\n`;
+      errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
+      errorMsg += this.formatHookIssues(hookResult);
+      errorMsg += `💡 Utilisez 'preview_patch' avec le même diff pour vérifier avant d'appliquer.`;
+      return { success: false, message: errorMsg };
+    }
+    const finalContent = hookResult.modifiedContent || result.content;
 
-      // Generate review
-      const review = this.generateReview(lines, newLines, patch);
+    await this.fileManager.writeFile(scriptPath, finalContent);
+    await this.rollbackManager.recordChange(scriptPath, content, finalContent, description || `Diff (${result.hunks.length} hunk(s))`);
+    const version = this.versionTracker.record(scriptPath, finalContent);
 
-      return {
-        success: true,
-        result: {
-          description: patch.description || operationDescription,
-          details: operationDescription,
-          linesCount: newLines.length,
-          review
-        }
-      };
+    let message = `✅ **Diff appliqué avec succès**\n\n` +
+                  `**Fichier:** \`${scriptPath}\`\n` +
+                  `**Version:** \`${version}\`\n` +
+                  (description ? `**Description:** ${description}\n` : '') +
+                  `**Taille finale:** ${finalContent.split('\n').length} lignes\n\n` +
+                  formatHunkReport(result);
 
-    } catch (error) {
-      return {
-        success: false,
-        result: {
-          error: error instanceof Error ? error.message : String(error)
-        }
-      };
+    const diffReport = generateDiff(content, finalContent);
+    if (diffReport) {
+      message += `\n${diffReport}`;
     }
+
+    const warnings = [...validation.warnings, ...(hookResult.warnings ?? [])];
+    if (warnings.length > 0) {
+      message += `\n\n**⚠️ Avertissements détectés:**\n`;
+      warnings.forEach(warn => message += `- ${warn}\n`);
+    }
+
+    return { success: true, message };
   }
 
   /**
    * Preview a patch without applying it
    */
   async previewPatch(patch: PatchOperation): Promise<string> {
+    const fileInfo = this.fileManager.getFileInfo(patch.scriptPath);
+    if (!fileInfo) {
+      throw new Error(`Le script ${patch.scriptPath} n'existe pas ou n'est pas chargé`);
+    }
+
+    const lines = fileInfo.content.split('\n');
+    patch = resolvePatchAnchor(fileInfo.content, patch);
+
+    const newLines = applyPatchToContent(fileInfo.content, patch).split('\n');
+    const endLine = patch.lineEnd || patch.lineStart;
+    let preview = '';
+
+    switch (patch.operation) {
+      case 'insert':
+        preview = `**PREVIEW - Insertion à la ligne ${patch.lineStart}**\n\n`;
+        preview += "**Contenu à insérer:**\n```luau\n" + patch.newContent + "\n```\n\n";
+        break;
+
+      case 'replace':
+        preview = `**PREVIEW - Remplacement lignes ${patch.lineStart}-${endLine}**\n\n`;
+        preview += "**Contenu actuel:**\n```luau\n" + lines.slice(patch.lineStart - 1, endLine).join('\n') + "\n```\n\n";
+        preview += "**Nouveau contenu:**\n```luau\n" + patch.newContent + "\n```\n\n";
+        break;
+
+      case 'delete':
+        preview = `**PREVIEW - Suppression lignes ${patch.lineStart}-${endLine}**\n\n`;
+        preview += "**Contenu à supprimer:**\n```luau\n" + lines.slice(patch.lineStart - 1, endLine).join('\n') + "\n```\n\n";
+        break;
+    }
+
+    // A few lines of context around the change
+    const contextStart = Math.max(1, patch.lineStart - 3);
+    const contextEnd = Math.min(lines.length, endLine + 3);
+
+    preview += "**Contexte après modification:**\n```luau\n";
+    newLines.slice(contextStart - 1, contextEnd).forEach((line, index) => {
+      preview += `${(contextStart + index).toString().padStart(3)}: ${line}\n`;
+    });
+    preview += "```";
+
+    return preview;
+  }
+
+  /**
+   * Preview a unified diff without applying it
+   */
+  async previewDiff(scriptPath: string, diff: string): Promise<string> {
+    const fileInfo = this.fileManager.getFileInfo(scriptPath);
+    if (!fileInfo) {
+      throw new Error(`Le script ${scriptPath} n'existe pas ou n'est pas chargé`);
+    }
+
+    const result = applyUnifiedDiff(fileInfo.content, diff);
+    let preview = `## 👁️ **PREVIEW - Diff unifié**\n\n**Fichier:** \`${scriptPath}\`\n\n`;
+    preview += formatHunkReport(result);
+
+    if (!result.success) {
+      return preview + `\n❌ **Le diff ne s'applique pas** - aucun hunk ne sera appliqué tant que tous ne correspondent pas`;
+    }
+
+    const validation = syntaxEnforcer.validateBeforeModification(fileInfo.content, result.content, 'diff');
+    const diffReport = generateDiff(fileInfo.content, result.content);
+    if (diffReport) {
+      preview += `\n${diffReport}\n`;
+    }
+    preview += validation.isValid
+      ? `\n✅ **Syntaxe valide** - le diff peut être appliqué avec 'patch_script'`
+      : `\n❌ **Le résultat contient des erreurs de syntaxe:**\n${validation.errors.map(err => `- ${err}`).join('\n')}`;
+    return preview;
+  }
+
+  /**
+   * Check that a write starts from the current version of the script. Otherwise the assistant's
+   * changes (applied to the version it read) are three-way merged with the changes on disk.
+   */
+  async checkFreshness(
+    scriptPath: string,
+    currentContent: string,
+    expectedVersion: string | undefined,
+    applyToBase: (base: string) => string
+  ): Promise<FreshnessCheck> {
+    const version = expectedVersion || this.versionTracker.getSeenVersion(scriptPath);
+    if (!version) {
+      return {
+        status: 'rejected',
+        message: `❌ **Version inconnue - Écriture bloquée**\n\n**Fichier:** \`${scriptPath}\`\n\n` +
+                 `Le script n'a pas été lu dans cette session: utilisez 'read_script' puis réessayez, ou passez \`expectedVersion\`.`
+      };
+    }
+
+    const currentVersion = hashContent(currentContent);
+    if (version === currentVersion) {
+      return { status: 'fresh' };
+    }
+
+    let message = `⚠️ **Script modifié depuis sa lecture - Écriture bloquée**\n\n` +
+                  `**Fichier:** \`${scriptPath}\`\n` +
+                  `**Version attendue:** \`${version}\`\n` +
+                  `**Version actuelle:** \`${currentVersion}\`\n\n`;
+    const rereadAction = `**📋 Action requise:** relisez le script avec 'read_script' et refaites la modification sur le contenu actuel.`;
+
+    const base = await this.findVersionContent(scriptPath, version);
+    if (base === undefined) {
+      message += `Le contenu de la version \`${version}\` n'est plus disponible: fusion impossible.\n\n${rereadAction}`;
+      return { status: 'rejected', message };
+    }
+
+    let ours: string;
     try {
-      const content = await this.fileManager.readFile(patch.scriptPath);
-      const lines = content.split('\n');
-      
-      // Validate line numbers
-      if (patch.lineStart < 1 || patch.lineStart > lines.length + 1) {
-        throw new Error(`Invalid line number: ${patch.lineStart}`);
-      }
+      ours = applyToBase(base);
+    } catch (error) {
+      message += `La modification ne s'applique pas à la version \`${version}\`: ${error instanceof Error ? error.message : error}\n\n${rereadAction}`;
+      return { status: 'rejected', message };
+    }
 
-      let preview = `## 👁️ Preview of patch\n\n`;
-      preview += `**File:** \`${patch.scriptPath}\`\n`;
-      preview += `**Operation:** ${patch.operation}\n`;
-      preview += `**Lines:** ${patch.lineStart}`;
-      if (patch.lineEnd) {
-        preview += `-${patch.lineEnd}`;
+    const merge = threeWayMerge(base, ours, currentContent);
+    if (merge.conflicts === 0) {
+      if (this.autoMergeEnabled) {
+        return { status: 'merged', content: merge.content };
       }
-      preview += `\n\n`;
+      message += `**🔀 Fusion à trois voies possible sans conflit.** Résultat par rapport au fichier actuel:\n\n` +
+                 `${generateDiff(currentContent, merge.content)}\n\n` +
+                 `**📋 Actions possibles:**\n` +
+                 `1. Relire le script avec 'read_script' et refaire la modification\n` +
+                 `2. Activer 'toggle_auto_merge' pour appliquer automatiquement ce type de fusion\n`;
+      return { status: 'rejected', message };
+    }
 
-      // Show context before
-      const contextStart = Math.max(1, patch.lineStart - 5);
-      const contextEnd = Math.min(lines.length, (patch.lineEnd || patch.lineStart) + 5);
+    message += `**💥 ${merge.conflicts} conflit(s)** entre vos modifications (assistant) et celles du disque:\n\n`;
+    const mergedLines = merge.content.split('\n');
+    merge.conflictLines.forEach(line => {
+      let end = line;
+      while (end < mergedLines.length && !mergedLines[end - 1].startsWith('>>>>>>> ')) end++;
+      message += `📍 **Ligne ${line}:**\n\`\`\`luau\n${mergedLines.slice(line - 1, end).join('\n')}\n\`\`\`\n\n`;
+    });
+    message += rereadAction;
+    return { status: 'rejected', message };
+  }
 
-      preview += "**Context before:**\n```luau\n";
-      for (let i = contextStart; i <= contextEnd && i <= lines.length; i++) {
-        const marker = (i >= patch.lineStart && i <= (patch.lineEnd || patch.lineStart)) ? '>' : ' ';
-        preview += `${i.toString().padStart(3)} ${marker} ${lines[i - 1]}\n`;
-      }
-      preview += "```\n\n";
-
-      // Show what will happen
-      preview += "**After patch:**\n```luau\n";
-      
-      // Apply patch to a copy
-      let previewLines = [...lines];
-      
-      switch (patch.operation) {
-        case "insert":
-          if (patch.newContent) {
-            const insertLines = patch.newContent.split('\n');
-            previewLines.splice(patch.lineStart - 1, 0, ...insertLines);
-          }
-          break;
-          
-        case "replace":
-          if (patch.newContent) {
-            const replaceLines = patch.newContent.split('\n');
-            const endLine = patch.lineEnd || patch.lineStart;
-            previewLines.splice(patch.lineStart - 1, endLine - patch.lineStart + 1, ...replaceLines);
-          }
-          break;
-          
-        case "delete":
-          const deleteEnd = patch.lineEnd || patch.lineStart;
-          previewLines.splice(patch.lineStart - 1, deleteEnd - patch.lineStart + 1);
-          break;
-      }
+  /**
+   * Write the result of a conflict-free automatic merge, validated on the whole file
+   */
+  async writeMergedContent(scriptPath: string, currentContent: string, mergedContent: string, description: string): Promise<PatchResult> {
+    const validation = syntaxEnforcer.validateBeforeModification(currentContent, mergedContent, 'merge');
+    if (!validation.isValid) {
+      const enhanced = syntaxEnforcer.enhanceErrorMessages(mergedContent, validation);
+      let errorMsg = `❌ **Validation échouée - Fusion bloquée**\n\n`;
+      errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
+      errorMsg += `Le script a été modifié depuis sa lecture et la fusion automatique produit un code invalide.\n\n`;
+      errorMsg += `**🚨 Erreurs critiques:**\n`;
+      enhanced.errors.forEach(err => errorMsg += `- ${err}\n`);
+      errorMsg += `\n**📋 Action requise:** relisez le script avec 'read_script' et refaites la modification sur le contenu actuel.`;
+      return { success: false, message: errorMsg };
+    }
 
-      // Show preview with context
-      const newContextEnd = Math.min(previewLines.length, patch.lineStart + 10);
-      for (let i = contextStart; i <= newContextEnd && i <= previewLines.length; i++) {
-        preview += `${i.toString().padStart(3)}   ${previewLines[i - 1]}\n`;
+    // Same hooks as a direct write, on the merged file
+    const hookResult = await this.hooks.executeHooks({
+      operation: 'write',
+      filePath: scriptPath,
+      originalContent: currentContent,
+      newContent: mergedContent
+    });
+    if (!hookResult.approved) {
+      let errorMsg = `❌ **Validation échouée - Fusion bloquée**\n\n`;
+      errorMsg += `**Fichier:** \`${scriptPath}\`\n\n`;
+      errorMsg += `Le script a été modifié depuis sa lecture et le résultat de la fusion automatique est refusé par les hooks de validation.\n\n`;
+      if (hookResult.errors && hookResult.errors.length > 0) {
+        errorMsg += `**🚨 Erreurs critiques:**\n`;
+        hookResult.errors.forEach(err => errorMsg += `- ${err}\n`);
+        errorMsg += `\n`;
       }
-      preview += "```\n";
-      
-      // Valider la syntaxe du preview
-      const previewContent = previewLines.join('\n');
-      const validation = syntaxEnforcer.validateBeforeModification(
-        content,
-        previewContent,
-        patch.operation
-      );
-      
-      if (!validation.isValid) {
-        const enhanced = syntaxEnforcer.enhanceErrorMessages(previewContent, validation);
-        preview += "\n⚠️ **Validation Warnings:**\n";
-        enhanced.errors.forEach(err => {
-          preview += err + "\n";
-        });
+      if (hookResult.suggestions && hookResult.suggestions.length > 0) {
+        errorMsg += `**💡 Suggestions:**\n`;
+        hookResult.suggestions.forEach(sug => errorMsg += `- ${sug}\n`);
+        errorMsg += `\n`;
       }
+      errorMsg += `**📋 Action requise:** relisez le script avec 'read_script' et refaites la modification sur le contenu actuel.`;
+      return { success: false, message: errorMsg };
+    }
+    const finalContent = hookResult.modifiedContent || mergedContent;
 
-      return preview;
+    await this.fileManager.writeFile(scriptPath, finalContent);
+    await this.rollbackManager.recordChange(scriptPath, currentContent, finalContent, `${description} (fusion automatique)`);
+    const version = this.versionTracker.record(scriptPath, finalContent);
 
-    } catch (error) {
-      throw new Error(`Cannot preview patch: ${error}`);
+    let message = `🔀 **Modification fusionnée avec succès**\n\n` +
+                  `**Fichier:** \`${scriptPath}\`\n` +
+                  `**Version:** \`${version}\`\n\n` +
+                  `Le script avait été modifié depuis sa lecture: vos changements ont été fusionnés avec ceux du disque.\n\n` +
+                  generateDiff(currentContent, finalContent);
+
+    const warnings = [...validation.warnings, ...(hookResult.warnings ?? [])];
+    if (warnings.length > 0) {
+      message += `\n\n**⚠️ Avertissements détectés:**\n`;
+      warnings.forEach(warn => message += `- ${warn}\n`);
     }
+
+    return { success: true, message };
   }
 
   /**
@@ -284,50 +556,411 @@ export class PatchManager implements IPatchManager {
     };
   }
 
+  /**
+   * Content of a version seen by the assistant, or else recorded in the rollback history
+   */
+  private async findVersionContent(scriptPath: string, version: string): Promise<string | undefined> {
+    const snapshot = this.versionTracker.getSnapshot(scriptPath, version);
+    if (snapshot !== undefined) {
+      return snapshot;
+    }
+
+    const versions = await this.rollbackManager.getFileHistory(scriptPath);
+    const match = [...versions].reverse().find(entry => entry.hash === version);
+    return match ? await this.rollbackManager.getVersionContent(scriptPath, match.id) : undefined;
+  }
+
+  /**
+   * Errors, warnings and suggestions returned by the hooks, as response sections
+   */
+  private formatHookIssues(hookResult: HookResult): string {
+    let text = '';
+    if (hookResult.errors && hookResult.errors.length > 0) {
+      text += `**🚨 Erreurs critiques:**\n`;
+      hookResult.errors.forEach(err => text += `- ${err}\n`);
+      text += `\n`;
+    }
+    if (hookResult.warnings && hookResult.warnings.length > 0) {
+      text += `**⚠️ Avertissements:**\n`;
+      hookResult.warnings.forEach(warn => text += `- ${warn}\n`);
+      text += `\n`;
+    }
+    if (hookResult.suggestions && hookResult.suggestions.length > 0) {
+      text += `**💡 Suggestions:**\n`;
+      hookResult.suggestions.forEach(sug => text += `- ${sug}\n`);
+      text += `\n`;
+    }
+    return text;
+  }
+
+  private formatBlockedPatch(patch: PatchOperation, validationResult: HookResult): string {
+    let errorMsg = `❌ **Validation échouée - Patch bloqué**\n\n`;
+    errorMsg += `**Fichier:** \`${patch.scriptPath}\`\n`;
+    errorMsg += `**Opération:** ${patch.operation}\n`;
+    errorMsg += `**Lignes affectées:** ${patch.lineStart}${patch.lineEnd ? `-${patch.lineEnd}` : ''}\n\n`;
+
+    if (validationResult.errors && validationResult.errors.length > 0) {
+      errorMsg += `**🚨 Erreurs critiques:**\n`;
+      validationResult.errors.forEach(err => errorMsg += `- ${err}\n`);
+      errorMsg += `\n`;
+    }
+
+    if (validationResult.warnings && validationResult.warnings.length > 0) {
+      errorMsg += `**⚠️ Avertissements:**\n`;
+      validationResult.warnings.forEach(warn => errorMsg += `- ${warn}\n`);
+      errorMsg += `\n`;
+    }
+
+    if (validationResult.suggestions && validationResult.suggestions.length > 0) {
+      errorMsg += `**💡 Suggestions:**\n`;
+      validationResult.suggestions.forEach(sug => errorMsg += `- ${sug}\n`);
+      errorMsg += `\n`;
+    }
+
+    // Show the submitted code
+    if (patch.newContent) {
+      errorMsg += `**📝 Code soumis:**\n\`\`\`luau\n${patch.newContent}\n\`\`\`\n\n`;
+    }
+
+    errorMsg += `**📋 Actions requises:**\n`;
+    errorMsg += `1. Corrigez les erreurs de syntaxe dans le contenu du patch\n`;
+    errorMsg += `2. Assurez-vous que le patch maintient l'équilibre des blocs\n`;
+    errorMsg += `3. Utilisez 'preview_patch' pour tester avant d'appliquer\n`;
+    errorMsg += `4. Réessayez avec un patch corrigé\n\n`;
+    errorMsg += `💡 Utilisez 'syntax_helper' pour obtenir des templates corrects.\n`;
+    errorMsg += `📝 Utilisez 'preview_patch' pour vérifier avant d'appliquer.`;
+    return errorMsg;
+  }
+
   /**
    * Generate automatic review of changes
    */
   private generateReview(originalLines: string[], newLines: string[], patch: PatchOperation): string {
     const affectedStart = Math.max(1, patch.lineStart - 2);
     const affectedEnd = Math.min(newLines.length, (patch.lineEnd || patch.lineStart) + 2);
-    
-    let review = `## 📋 **Automatic Review**\n\n`;
-    
+
+    let review = `## 📋 **Review Automatique**\n\n`;
+
     // Summary
     const originalCount = originalLines.length;
     const newCount = newLines.length;
     const deltaLines = newCount - originalCount;
-    
-    review += `### Change Summary\n`;
-    review += `- **Lines before:** ${originalCount}\n`;
-    review += `- **Lines after:** ${newCount}\n`;
-    review += `- **Delta:** ${deltaLines > 0 ? '+' : ''}${deltaLines} line(s)\n\n`;
-    
-    // Show modified code with context
-    review += `### Modified Code (with context)\n`;
+
+    review += `### Résumé des changements\n`;
+    review += `- **Lignes avant:** ${originalCount}\n`;
+    review += `- **Lignes après:** ${newCount}\n`;
+    review += `- **Delta:** ${deltaLines > 0 ? '+' : ''}${deltaLines} ligne(s)\n\n`;
+
+    // Modified code with context
+    review += `### Code modifié (avec contexte)\n`;
     review += `\`\`\`luau\n`;
-    
+
     for (let i = affectedStart; i <= Math.min(affectedEnd, newLines.length); i++) {
       const line = newLines[i - 1];
       const lineNum = i.toString().padStart(3, ' ');
-      
-      // Mark modified lines
+
+      // * marks modified lines
       if (i >= patch.lineStart && i <= (patch.lineEnd || patch.lineStart)) {
-        review += `${lineNum}* ${line}\n`; // * indicates modified
+        review += `${lineNum}* ${line}\n`;
       } else {
         review += `${lineNum}  ${line}\n`;
       }
     }
-    
-    review += `\`\`\`\n`;
-    
+
+    review += `\`\`\`\n\n`;
+
+    const securityChecks = this.performSecurityChecks(patch);
+    if (securityChecks.length > 0) {
+      review += `### ⚠️ Vérifications de sécurité\n`;
+      securityChecks.forEach(check => {
+        review += `- ${check}\n`;
+      });
+      review += `\n`;
+    }
+
+    const syntaxChecks = this.performSyntaxChecks(newLines);
+    if (syntaxChecks.length > 0) {
+      review += `### ✅ Vérifications syntaxiques\n`;
+      syntaxChecks.forEach(check => {
+        review += `- ${check}\n`;
+      });
+      review += `\n`;
+    }
+
+    const antiPatterns = this.ruleEngine.detect(newLines.join('\n'), patch.scriptPath);
+    if (antiPatterns.length > 0) {
+      review += getAntiPatternSuggestions(antiPatterns);
+    }
+
+    // API usages introduced by the patch
+    const realm = this.fileManager.getFileInfo(patch.scriptPath)?.realm ?? 'shared';
+    const apiLinter = new ApiLinter(getApiDumpIndex());
+    const previousFindings = new Set(
+      apiLinter.lint(originalLines.join('\n'), realm).map(finding => `${finding.rule}:${finding.message}`)
+    );
+    const apiFindings = apiLinter.lint(newLines.join('\n'), realm)
+      .filter(finding => !previousFindings.has(`${finding.rule}:${finding.message}`));
+    review += formatApiFindings(apiFindings, realm, getApiDumpIndex() !== null);
+
     return review;
   }
 
+  private performSecurityChecks(patch: PatchOperation): string[] {
+    const checks: string[] = [];
+    const newContent = patch.newContent || '';
+
+    const dangerousPatterns = [
+      /require\s*\(\s*["']http/i,
+      /loadstring\s*\(/i,
+      /getfenv\s*\(/i,
+      /setfenv\s*\(/i,
+    ];
+
+    dangerousPatterns.forEach(pattern => {
+      if (pattern.test(newContent)) {
+        checks.push(`⚠️ Détection de code potentiellement dangereux: ${pattern.source}`);
+      }
+    });
+
+    return checks;
+  }
+
   /**
-   * Set auto-validation state
+   * Checks on the whole file after the patch
    */
-  setAutoValidation(enabled: boolean): void {
-    this.autoValidateEnabled = enabled;
+  private performSyntaxChecks(lines: string[]): string[] {
+    const checks: string[] = [];
+
+    // Shared Luau parser: blocks, parentheses and braces
+    const syntax = analyzeLuauSyntax(lines.join('\n'));
+    if (syntax.valid) {
+      checks.push(`✅ Syntaxe Luau valide (${syntax.blocks.foundEnds} blocs fermés par 'end')`);
+    } else {
+      checks.push(`❌ Erreur de syntaxe: ${syntax.errors.map(formatSyntaxIssue).join(', ')}`);
+    }
+
+    const duplicateFunctions = this.detectDuplicateFunctions(lines);
+    if (duplicateFunctions.length > 0) {
+      checks.push(`⚠️ Fonctions potentiellement dupliquées: ${duplicateFunctions.join(', ')}`);
+    } else {
+      checks.push(`✅ Aucune fonction dupliquée détectée`);
+    }
+
+    const indentation = this.checkIndentation(lines);
+    if (indentation.isConsistent) {
+      checks.push(`✅ Indentation cohérente`);
+    } else {
+      checks.push(`⚠️ Problèmes d'indentation: ${indentation.issues.join(', ')}`);
+    }
+
+    const unusedVariables = this.detectUnusedVariables(lines);
+    if (unusedVariables.length > 0) {
+      checks.push(`⚠️ Variables locales potentiellement inutilisées: ${unusedVariables.join(', ')}`);
+    }
+
+    return checks;
+  }
+
+  private detectDuplicateFunctions(lines: string[]): string[] {
+    const functions = new Map<string, number[]>();
+    const duplicates: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const functionMatch = lines[i].trim().match(/(?:local\s+)?function\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
+      if (functionMatch) {
+        const funcName = functionMatch[1];
+        if (!functions.has(funcName)) {
+          functions.set(funcName, []);
+        }
+        functions.get(funcName)!.push(i + 1);
+      }
+    }
+
+    functions.forEach((lineNumbers, funcName) => {
+      if (lineNumbers.length > 1) {
+        duplicates.push(`${funcName} (lignes ${lineNumbers.join(', ')})`);
+      }
+    });
+
+    return duplicates;
+  }
+
+  private checkIndentation(lines: string[]) {
+    const issues: string[] = [];
+    let expectedIndent = 0;
+    const INDENT_SIZE = 2;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const trimmed = line.trim();
+
+      // Skip empty lines and comments
+      if (trimmed === '' || trimmed.startsWith('--')) continue;
+
+      const actualIndent = line.match(/^\s*/)?.[0].length || 0;
+
+      if (/\b(end|until|else|elseif)\b/.test(trimmed)) {
+        expectedIndent = Math.max(0, expectedIndent - INDENT_SIZE);
+      }
+
+      if (actualIndent !== expectedIndent) {
+        issues.push(`Ligne ${i + 1}: attendu ${expectedIndent}, trouvé ${actualIndent}`);
+      }
+
+      if (/\b(if|while|for|repeat|function|do|then|else|elseif)\b/.test(trimmed) &&
+          !/\bend\b/.test(trimmed)) {
+        expectedIndent += INDENT_SIZE;
+      }
+    }
+
+    return {
+      isConsistent: issues.length === 0,
+      // Capped to keep the review short
+      issues: issues.slice(0, 5)
+    };
+  }
+
+  private detectUnusedVariables(lines: string[]): string[] {
+    const variables = new Map<string, { declared: number; used: boolean }>();
+    const unused: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+
+      const varMatch = line.match(/local\s+([a-zA-Z_][a-zA-Z0-9_]*)/g);
+      if (varMatch) {
+        varMatch.forEach(match => {
+          variables.set(match.replace('local ', ''), { declared: i + 1, used: false });
+        });
+      }
+
+      variables.forEach((info, varName) => {
+        if (info.declared !== i + 1 && new RegExp(`\\b${varName}\\b`).test(line)) {
+          info.used = true;
+        }
+      });
+    }
+
+    variables.forEach((info, varName) => {
+      if (!info.used) {
+        unused.push(`${varName} (ligne ${info.declared})`);
+      }
+    });
+
+    // Capped to keep the review short
+    return unused.slice(0, 3);
+  }
+}
+
+/**
+ * Apply a line-based patch (1-based lines, lineEnd inclusive) to a content
+ */
+export function applyPatchToContent(content: string, patch: PatchOperation): string {
+  const lines = content.split('\n');
+
+  if (!Number.isInteger(patch.lineStart) || patch.lineStart < 1 || patch.lineStart > lines.length + 1) {
+    throw new Error(`Numéro de ligne invalide: ${patch.lineStart} (fichier a ${lines.length} lignes)`);
+  }
+  const lineEnd = patch.lineEnd ?? patch.lineStart;
+  if (patch.operation !== 'insert' && (lineEnd < patch.lineStart || lineEnd > lines.length)) {
+    throw new Error(`Plage de lignes invalide: ${patch.lineStart}-${lineEnd} (fichier a ${lines.length} lignes)`);
+  }
+
+  switch (patch.operation) {
+    case 'insert':
+      if (patch.newContent === undefined) {
+        throw new Error("newContent est requis pour l'opération insert");
+      }
+      lines.splice(patch.lineStart - 1, 0, ...patch.newContent.split('\n'));
+      break;
+
+    case 'replace':
+      if (patch.newContent === undefined) {
+        throw new Error("newContent est requis pour l'opération replace");
+      }
+      lines.splice(patch.lineStart - 1, lineEnd - patch.lineStart + 1, ...patch.newContent.split('\n'));
+      break;
+
+    case 'delete':
+      lines.splice(patch.lineStart - 1, lineEnd - patch.lineStart + 1);
+      break;
+
+    default:
+      throw new Error(`Opération de patch inconnue: ${patch.operation}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Human-readable summary of a resolved patch
+ */
+export function describePatch(patch: PatchOperation): string {
+  const lineEnd = patch.lineEnd ?? patch.lineStart;
+  const count = lineEnd - patch.lineStart + 1;
+  const newCount = patch.newContent?.split('\n').length ?? 0;
+
+  switch (patch.operation) {
+    case 'insert':
+      return `Inséré ${newCount} ligne(s) à la ligne ${patch.lineStart}`;
+    case 'replace':
+      return `Remplacé ${count} ligne(s) par ${newCount} ligne(s) (lignes ${patch.lineStart}-${lineEnd})`;
+    default:
+      return `Supprimé ${count} ligne(s) (lignes ${patch.lineStart}-${lineEnd})`;
+  }
+}
+
+/**
+ * Compact line-by-line summary of a change, empty when nothing changed
+ */
+export function generateDiff(oldContent: string, newContent: string): string {
+  const oldLines = oldContent.split('\n');
+  const newLines = newContent.split('\n');
+
+  let additions = 0;
+  let deletions = 0;
+  let modifications = 0;
+
+  // Lines are compared by position
+  const maxLines = Math.max(oldLines.length, newLines.length);
+  const changedLines: Array<{ line: number; type: 'add' | 'del' | 'mod'; content: string }> = [];
+
+  for (let i = 0; i < maxLines; i++) {
+    const oldLine = i < oldLines.length ? oldLines[i] : undefined;
+    const newLine = i < newLines.length ? newLines[i] : undefined;
+
+    if (oldLine === undefined && newLine !== undefined) {
+      additions++;
+      changedLines.push({ line: i + 1, type: 'add', content: newLine });
+    } else if (oldLine !== undefined && newLine === undefined) {
+      deletions++;
+      changedLines.push({ line: i + 1, type: 'del', content: oldLine });
+    } else if (oldLine !== newLine) {
+      modifications++;
+      changedLines.push({ line: i + 1, type: 'mod', content: newLine! });
+    }
+  }
+
+  if (changedLines.length === 0) {
+    return '';
   }
-}
\ No newline at end of file
+
+  let diffPreview = `## 📊 **Résumé des changements**\n`;
+  diffPreview += `- **Lignes ajoutées:** +${additions}\n`;
+  diffPreview += `- **Lignes supprimées:** -${deletions}\n`;
+  diffPreview += `- **Lignes modifiées:** ~${modifications}\n\n`;
+
+  // Only the first 5 changes, to save tokens
+  diffPreview += `### Aperçu des changements (${Math.min(5, changedLines.length)}/${changedLines.length}):\n\`\`\`diff\n`;
+  changedLines.slice(0, 5).forEach(change => {
+    const prefix = change.type === 'add' ? '+' : change.type === 'del' ? '-' : '~';
+    const lineNum = change.line.toString().padStart(4, ' ');
+    diffPreview += `${prefix} ${lineNum}: ${change.content.slice(0, 60)}${change.content.length > 60 ? '...' : ''}\n`;
+  });
+  if (changedLines.length > 5) {
+    diffPreview += `... et ${changedLines.length - 5} autres changements\n`;
+  }
+  diffPreview += `\`\`\``;
+
+  return diffPreview;
+}
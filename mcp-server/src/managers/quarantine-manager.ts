@@ -0,0 +1,121 @@
+/**
+ * Quarantine of suspicious scripts: the file is moved out of the Rojo-synced tree into
+ * .mcp-roblox/quarantine, so it never reaches Studio, and can be reviewed and restored later
+ */
+
+import { MCP_DIRECTORY, getMcpDirectory } from '../config/project-config.js';
+import { normalizeInsideProject } from '../utils/path-utils.js';
+import fs from 'fs-extra';
+import path from 'path';
+
+export interface QuarantineEntry {
+  id: number;
+  // Original path, relative to the project root
+  file: string;
+  quarantinedAt: string;
+  reason: string;
+  // Risk score at the time of the quarantine, when scanned
+  score?: number;
+}
+
+interface QuarantineManifest {
+  nextId: number;
+  entries: QuarantineEntry[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+export class QuarantineManager {
+  private readonly quarantineDirectory: string;
+
+  constructor(private readonly projectRoot: string) {
+    this.quarantineDirectory = path.join(getMcpDirectory(projectRoot), 'quarantine');
+  }
+
+  async quarantine(filePath: string, reason: string, score?: number): Promise<QuarantineEntry> {
+    const file = this.normalizePath(filePath);
+    const fullPath = path.join(this.projectRoot, file);
+    if (!await fs.pathExists(fullPath)) {
+      throw new Error(`Le script ${file} n'existe pas`);
+    }
+
+    const manifest = await this.loadManifest();
+    const entry: QuarantineEntry = {
+      id: manifest.nextId++,
+      file,
+      quarantinedAt: new Date().toISOString(),
+      reason,
+      score
+    };
+
+    await fs.move(fullPath, this.storedPath(entry));
+    manifest.entries.push(entry);
+    await this.saveManifest(manifest);
+    return entry;
+  }
+
+  /**
+   * Move a quarantined script back to its original location
+   */
+  async restore(id: number): Promise<QuarantineEntry> {
+    const manifest = await this.loadManifest();
+    const entry = manifest.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      throw new Error(`Aucun script en quarantaine avec l'id ${id}`);
+    }
+
+    // Le manifeste peut avoir été modifié à la main
+    const fullPath = path.join(this.projectRoot, this.normalizePath(entry.file));
+    if (await fs.pathExists(fullPath)) {
+      throw new Error(`Impossible de restaurer ${entry.file}: un fichier existe déjà à cet emplacement`);
+    }
+
+    await fs.move(this.storedPath(entry), fullPath);
+    manifest.entries = manifest.entries.filter(candidate => candidate.id !== id);
+    await this.saveManifest(manifest);
+    return entry;
+  }
+
+  async list(): Promise<QuarantineEntry[]> {
+    return (await this.loadManifest()).entries;
+  }
+
+  async getContent(id: number): Promise<string> {
+    const entry = (await this.list()).find(candidate => candidate.id === id);
+    if (!entry) {
+      throw new Error(`Aucun script en quarantaine avec l'id ${id}`);
+    }
+    return fs.readFile(this.storedPath(entry), 'utf-8');
+  }
+
+  /**
+   * Only Luau scripts inside the project can be moved: never the Rojo project file,
+   * the server's own state or anything outside the project root
+   */
+  private normalizePath(filePath: string): string {
+    const file = normalizeInsideProject(filePath);
+    if (file === MCP_DIRECTORY || file.startsWith(`${MCP_DIRECTORY}/`)) {
+      throw new Error(`Impossible de mettre en quarantaine un fichier de ${MCP_DIRECTORY}: ${filePath}`);
+    }
+    if (!/\.luau?$/.test(file)) {
+      throw new Error(`Seuls les scripts .lua/.luau peuvent être mis en quarantaine: ${filePath}`);
+    }
+    return file;
+  }
+
+  private storedPath(entry: QuarantineEntry): string {
+    return path.join(this.quarantineDirectory, String(entry.id), entry.file);
+  }
+
+  private async loadManifest(): Promise<QuarantineManifest> {
+    const manifestPath = path.join(this.quarantineDirectory, MANIFEST_FILE);
+    if (!await fs.pathExists(manifestPath)) {
+      return { nextId: 1, entries: [] };
+    }
+    return fs.readJson(manifestPath);
+  }
+
+  private async saveManifest(manifest: QuarantineManifest): Promise<void> {
+    await fs.outputJson(path.join(this.quarantineDirectory, MANIFEST_FILE), manifest, { spaces: 2 });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Content-addressed cache of the scripts returned to the assistant during a session,
+ * so re-reading an unchanged file costs a one-line answer instead of the whole content
+ */
+
+import { hashContent } from '../utils/content-hash.js';
+
+export interface CachedRead {
+  // Read number in the session, shown to the assistant as "read #N"
+  read: number;
+  hash: string;
+}
+
+export type ReadCacheLookup =
+  | { status: 'miss' }
+  // Same content as the last read of this file
+  | { status: 'unchanged'; read: number }
+  // Back to the content of an earlier read, after the last read returned something else
+  | { status: 'reverted'; read: number; lastRead: number }
+  // Content changed since the last read, which the assistant can diff against
+  | { status: 'changed'; read: number; previousContent: string };
+
+interface FileReads {
+  // Every content returned for this file in the session, by hash
+  byHash: Map<string, CachedRead>;
+  last: CachedRead;
+  lastContent: string;
+}
+
+export class ReadCache {
+  private files: Map<string, FileReads> = new Map();
+  private readCount = 0;
+
+  lookup(filePath: string, content: string): ReadCacheLookup {
+    const reads = this.files.get(filePath);
+    if (!reads) return { status: 'miss' };
+
+    const hash = hashContent(content);
+    if (hash === reads.last.hash) return { status: 'unchanged', read: reads.last.read };
+
+    const previous = reads.byHash.get(hash);
+    if (previous) return { status: 'reverted', read: previous.read, lastRead: reads.last.read };
+
+    return { status: 'changed', read: reads.last.read, previousContent: reads.lastContent };
+  }
+
+  /**
+   * Record a content returned to the assistant, in full or as a diff
+   */
+  record(filePath: string, content: string): CachedRead {
+    const cached: CachedRead = { read: ++this.readCount, hash: hashContent(content) };
+    const reads = this.files.get(filePath) ?? { byHash: new Map(), last: cached, lastContent: content };
+
+    reads.byHash.set(cached.hash, cached);
+    reads.last = cached;
+    reads.lastContent = content;
+    this.files.set(filePath, reads);
+    return cached;
+  }
+
+  /**
+   * Start a new session: the assistant no longer has previous reads in its context
+   */
+  clear(): void {
+    this.files.clear();
+    this.readCount = 0;
+  }
+}
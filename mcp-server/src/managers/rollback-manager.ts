@@ -1,148 +1,473 @@
 /**
- * Rollback and version history management
+ * Rollback and version history management, persisted under .mcp-roblox/history
  */
 
-import { IRollbackManager, RollbackEntry } from '../interfaces/managers.js';
+import { IRollbackManager, HistoryVersion, VersionTarget, FileChange, Changeset, ChangesetEntry } from '../interfaces/managers.js';
+import { HistoryConfig, DEFAULT_PROJECT_CONFIG, getMcpDirectory, loadProjectConfig } from '../config/project-config.js';
+import { diffLines, applyLineEdits } from '../utils/line-diff.js';
+import { hashContent } from '../utils/content-hash.js';
+import { normalizeProjectPath } from '../utils/path-utils.js';
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 
+interface FileHistory {
+  file: string;
+  nextId: number;
+  // Oldest first
+  versions: HistoryVersion[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class RollbackManager implements IRollbackManager {
-  private rollbackHistory: Map<string, RollbackEntry[]> = new Map();
-  private readonly maxRollbackEntries: number;
-  private readonly projectRoot: string;
+  private readonly historyDirectory: string;
+  private readonly changesetDirectory: string;
+  private readonly histories: Map<string, FileHistory> = new Map();
+  private config: HistoryConfig | null;
 
-  constructor(projectRoot: string, maxRollbackEntries: number = 5) {
-    this.projectRoot = projectRoot;
-    this.maxRollbackEntries = maxRollbackEntries;
+  /**
+   * @param config Overrides .mcp-roblox/config.json (history section) when provided
+   */
+  constructor(private readonly projectRoot: string, config?: Partial<HistoryConfig>) {
+    this.historyDirectory = path.join(getMcpDirectory(projectRoot), 'history');
+    this.changesetDirectory = path.join(this.historyDirectory, 'changesets');
+    this.config = config ? { ...DEFAULT_PROJECT_CONFIG.history, ...config } : null;
   }
 
   /**
-   * Save a snapshot before modification
+   * Record a modification. The previous content is stored first when it is not
+   * the latest known version (initial state or change made outside the server).
    */
-  saveSnapshot(filePath: string, previousContent: string, patch: any): void {
-    const history = this.rollbackHistory.get(filePath) || [];
-    
-    // Calculate diff for efficient storage
-    const additions: string[] = [];
-    const deletions: string[] = [];
-    const modifications: string[] = [];
-    
-    // Simple diff tracking (could be improved with a proper diff algorithm)
-    if (patch.operation === 'insert') {
-      additions.push(`Line ${patch.lineStart}: ${patch.newContent}`);
-    } else if (patch.operation === 'delete') {
-      deletions.push(`Lines ${patch.lineStart}-${patch.lineEnd || patch.lineStart}`);
-    } else if (patch.operation === 'replace') {
-      modifications.push(`Lines ${patch.lineStart}-${patch.lineEnd || patch.lineStart}`);
-    }
-    
-    const entry: RollbackEntry = {
-      timestamp: Date.now(),
-      previousContent,
-      patch: { additions, deletions, modifications },
-      tokenCost: Math.ceil(previousContent.length / 4) // Rough token estimate
-    };
-    
-    history.unshift(entry);
-    
-    // Limit history size
-    if (history.length > this.maxRollbackEntries) {
-      history.pop();
+  async recordChange(
+    filePath: string,
+    previousContent: string,
+    newContent: string,
+    description?: string
+  ): Promise<HistoryVersion | null> {
+    const history = await this.loadHistory(filePath);
+    await this.ensureLatest(history, previousContent);
+
+    let version: HistoryVersion | null = null;
+    if (newContent !== previousContent) {
+      version = await this.appendVersion(history, newContent, previousContent, description);
     }
-    
-    this.rollbackHistory.set(filePath, history);
+
+    await this.prune(history);
+    await this.saveHistory(history);
+    return version;
   }
 
   /**
-   * Rollback to a previous version
+   * Restore a version. The restoration is itself recorded, so it can be undone.
    */
-  async rollback(filePath: string, version: number = 1): Promise<{ success: boolean; content: string }> {
-    const history = this.rollbackHistory.get(filePath);
-    
-    if (!history || history.length === 0) {
+  async rollback(filePath: string, target: VersionTarget = {}): Promise<{ success: boolean; content: string; version: HistoryVersion }> {
+    const history = await this.loadHistory(filePath);
+
+    if (history.versions.length === 0) {
       throw new Error(`Aucun historique de rollback pour ${filePath}`);
     }
-    
-    if (version > history.length) {
-      throw new Error(`Version ${version} non disponible. Maximum: ${history.length}`);
-    }
-    
-    const entry = history[version - 1];
+
+    const index = this.resolveTarget(history, target);
+    const version = history.versions[index];
+    const content = this.contentAt(history, index);
     const fullPath = path.join(this.projectRoot, filePath);
-    
+
     try {
-      await fs.writeFile(fullPath, entry.previousContent);
-      
-      // Remove used history entries
-      this.rollbackHistory.set(filePath, history.slice(version));
-      
-      return {
-        success: true,
-        content: entry.previousContent
-      };
+      const currentContent = await fs.pathExists(fullPath) ? await fs.readFile(fullPath, 'utf-8') : '';
+      await fs.outputFile(fullPath, content);
+      await this.recordChange(filePath, currentContent, content, `Restauration de la version ${version.id}`);
     } catch (error) {
       throw new Error(`Erreur lors du rollback: ${error}`);
     }
+
+    return { success: true, content, version };
   }
 
   /**
-   * Get rollback history
+   * Write every change or none of them, then record the set as one changeset.
+   * Files already written are restored when a later write fails.
    */
-  getHistory(filePath?: string): Map<string, RollbackEntry[]> {
-    if (filePath) {
-      const history = this.rollbackHistory.get(filePath);
-      return new Map([[filePath, history || []]]);
+  async applyChangeset(changes: FileChange[], description?: string): Promise<Changeset> {
+    if (changes.length === 0) {
+      throw new Error('Changeset vide: aucune modification à appliquer');
     }
-    return new Map(this.rollbackHistory);
+
+    const applied: FileChange[] = [];
+    try {
+      for (const change of changes) {
+        await this.writeState(change.filePath, change.newContent);
+        applied.push(change);
+      }
+    } catch (error) {
+      const restoreErrors: string[] = [];
+      for (const change of applied.reverse()) {
+        try {
+          await this.writeState(change.filePath, change.previousContent);
+        } catch (restoreError) {
+          restoreErrors.push(`${change.filePath}: ${restoreError}`);
+        }
+      }
+      const details = restoreErrors.length > 0 ? ` (restauration impossible: ${restoreErrors.join(', ')})` : '';
+      throw new Error(`Changeset annulé, aucune modification conservée: ${error}${details}`);
+    }
+
+    const changeset: Changeset = {
+      id: `${Date.now().toString(36)}-${crypto.randomBytes(2).toString('hex')}`,
+      timestamp: Date.now(),
+      description,
+      entries: []
+    };
+    const versionDescription = `Changeset ${changeset.id}${description ? `: ${description}` : ''}`;
+
+    for (const change of changes) {
+      const history = await this.loadHistory(change.filePath);
+      const entry: ChangesetEntry = { file: history.file, before: null, after: null };
+
+      if (change.previousContent !== null) {
+        entry.before = (await this.ensureLatest(history, change.previousContent)).id;
+      }
+      if (change.newContent !== null) {
+        const latestIndex = history.versions.length - 1;
+        const baseContent = latestIndex >= 0 ? this.contentAt(history, latestIndex) : null;
+        entry.after = baseContent === change.newContent
+          ? history.versions[latestIndex].id
+          : (await this.appendVersion(history, change.newContent, baseContent, versionDescription)).id;
+      }
+
+      // The changeset is not stored yet: its versions are protected explicitly
+      await this.prune(history, [entry.before, entry.after]);
+      await this.saveHistory(history);
+      changeset.entries.push(entry);
+    }
+
+    await fs.outputJson(this.getChangesetPath(changeset.id), changeset, { spaces: 2 });
+    return changeset;
   }
 
   /**
-   * Clear rollback history
+   * Bring every file of a changeset back to its state before it, as a new changeset
    */
-  clearHistory(filePath?: string): void {
+  async rollbackChangeset(changesetId: string): Promise<Changeset> {
+    const changesetPath = this.getChangesetPath(changesetId);
+    if (!await fs.pathExists(changesetPath)) {
+      throw new Error(`Changeset ${changesetId} introuvable`);
+    }
+    const changeset: Changeset = await fs.readJson(changesetPath);
+
+    const changes: FileChange[] = [];
+    for (const entry of changeset.entries) {
+      const fullPath = path.join(this.projectRoot, entry.file);
+      const currentContent = await fs.pathExists(fullPath) ? await fs.readFile(fullPath, 'utf-8') : null;
+      const targetContent = entry.before === null ? null : await this.getVersionContent(entry.file, entry.before);
+      if (currentContent !== targetContent) {
+        changes.push({ filePath: entry.file, previousContent: currentContent, newContent: targetContent });
+      }
+    }
+
+    if (changes.length === 0) {
+      throw new Error(`Les fichiers du changeset ${changesetId} sont déjà dans leur état antérieur`);
+    }
+    return this.applyChangeset(changes, `Annulation du changeset ${changesetId}`);
+  }
+
+  /**
+   * Get recorded changesets, most recent first
+   */
+  async getChangesets(): Promise<Changeset[]> {
+    if (!await fs.pathExists(this.changesetDirectory)) {
+      return [];
+    }
+
+    const changesets: Changeset[] = [];
+    for (const entry of await fs.readdir(this.changesetDirectory)) {
+      if (entry.endsWith('.json')) {
+        changesets.push(await fs.readJson(path.join(this.changesetDirectory, entry)));
+      }
+    }
+    return changesets.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Get the version history of one file, most recent first
+   */
+  async getFileHistory(filePath: string): Promise<HistoryVersion[]> {
+    const history = await this.loadHistory(filePath);
+    return [...history.versions].reverse();
+  }
+
+  /**
+   * Get version history, most recent first
+   */
+  async getHistory(filePath?: string): Promise<Map<string, HistoryVersion[]>> {
     if (filePath) {
-      this.rollbackHistory.delete(filePath);
-    } else {
-      this.rollbackHistory.clear();
+      const history = await this.loadHistory(filePath);
+      return new Map([[history.file, [...history.versions].reverse()]]);
+    }
+
+    const result = new Map<string, HistoryVersion[]>();
+    if (await fs.pathExists(this.historyDirectory)) {
+      for (const entry of await fs.readdir(this.historyDirectory)) {
+        if (!entry.endsWith('.json')) continue;
+        const history = await this.loadHistory(decodeURIComponent(entry.slice(0, -'.json'.length)));
+        if (history.versions.length > 0) {
+          result.set(history.file, [...history.versions].reverse());
+        }
+      }
     }
+    return result;
   }
 
   /**
-   * Get total token cost of stored history
+   * Rebuild the full content of a version
    */
-  getTotalTokenCost(): number {
-    let total = 0;
-    this.rollbackHistory.forEach(history => {
-      history.forEach(entry => {
-        total += entry.tokenCost;
-      });
-    });
-    return total;
+  async getVersionContent(filePath: string, versionId: number): Promise<string> {
+    const history = await this.loadHistory(filePath);
+    return this.contentAt(history, this.resolveTarget(history, { versionId }));
   }
 
   /**
-   * Export history to JSON for persistence
+   * Clear rollback history
    */
-  exportHistory(): string {
-    const obj: { [key: string]: RollbackEntry[] } = {};
-    this.rollbackHistory.forEach((value, key) => {
-      obj[key] = value;
-    });
+  async clearHistory(filePath?: string): Promise<void> {
+    if (filePath) {
+      const file = normalizeProjectPath(filePath);
+      this.histories.delete(file);
+      await fs.remove(this.getHistoryPath(file));
+    } else {
+      this.histories.clear();
+      await fs.remove(this.historyDirectory);
+    }
+  }
+
+  /**
+   * Export all histories to JSON
+   */
+  async exportHistory(): Promise<string> {
+    const obj: { [key: string]: FileHistory } = {};
+    for (const file of (await this.getHistory()).keys()) {
+      obj[file] = await this.loadHistory(file);
+    }
     return JSON.stringify(obj, null, 2);
   }
 
   /**
-   * Import history from JSON
+   * Import histories from JSON, replacing the stored history of each imported file
    */
-  importHistory(json: string): void {
+  async importHistory(json: string): Promise<void> {
     try {
       const obj = JSON.parse(json);
-      this.rollbackHistory.clear();
-      Object.entries(obj).forEach(([key, value]) => {
-        this.rollbackHistory.set(key, value as RollbackEntry[]);
-      });
+      for (const [file, value] of Object.entries(obj)) {
+        const imported = value as FileHistory;
+        if (!Array.isArray(imported?.versions)) {
+          throw new Error(`historique invalide pour ${file}`);
+        }
+        const history: FileHistory = {
+          file: normalizeProjectPath(file),
+          nextId: imported.nextId ?? imported.versions.length + 1,
+          versions: imported.versions
+        };
+        this.histories.set(history.file, history);
+        await this.saveHistory(history);
+      }
     } catch (error) {
       throw new Error(`Erreur lors de l'import de l'historique: ${error}`);
     }
   }
-}
\ No newline at end of file
+
+  private async getConfig(): Promise<HistoryConfig> {
+    if (!this.config) {
+      this.config = (await loadProjectConfig(this.projectRoot)).history;
+    }
+    return this.config;
+  }
+
+  private async getReferencedVersions(file: string): Promise<number[]> {
+    const ids: number[] = [];
+    for (const changeset of await this.getChangesets()) {
+      for (const entry of changeset.entries) {
+        if (entry.file !== file) continue;
+        if (entry.before !== null) ids.push(entry.before);
+        if (entry.after !== null) ids.push(entry.after);
+      }
+    }
+    return ids;
+  }
+
+  private getHistoryPath(file: string): string {
+    return path.join(this.historyDirectory, `${encodeURIComponent(file)}.json`);
+  }
+
+  private getChangesetPath(changesetId: string): string {
+    return path.join(this.changesetDirectory, `${encodeURIComponent(changesetId)}.json`);
+  }
+
+  private async writeState(filePath: string, content: string | null): Promise<void> {
+    const fullPath = path.join(this.projectRoot, filePath);
+    if (content === null) {
+      await fs.remove(fullPath);
+    } else {
+      await fs.outputFile(fullPath, content);
+    }
+  }
+
+  private async loadHistory(filePath: string): Promise<FileHistory> {
+    const file = normalizeProjectPath(filePath);
+    const cached = this.histories.get(file);
+    if (cached) return cached;
+
+    const historyPath = this.getHistoryPath(file);
+    const history: FileHistory = await fs.pathExists(historyPath)
+      ? await fs.readJson(historyPath)
+      : { file, nextId: 1, versions: [] };
+
+    this.histories.set(file, history);
+    return history;
+  }
+
+  private async saveHistory(history: FileHistory): Promise<void> {
+    const historyPath = this.getHistoryPath(history.file);
+    const temporaryPath = `${historyPath}.tmp`;
+    // Write then rename so an interrupted write never corrupts the history
+    await fs.outputJson(temporaryPath, history);
+    await fs.move(temporaryPath, historyPath, { overwrite: true });
+  }
+
+  /**
+   * Make `content` the latest version, appending it when it differs
+   */
+  private async ensureLatest(history: FileHistory, content: string): Promise<HistoryVersion> {
+    const latest = history.versions[history.versions.length - 1];
+    if (latest && latest.hash === hashContent(content)) {
+      return latest;
+    }
+
+    const baseContent = latest ? this.contentAt(history, history.versions.length - 1) : null;
+    return this.appendVersion(history, content, baseContent, latest ? 'Modification externe' : 'Version initiale');
+  }
+
+  private async appendVersion(
+    history: FileHistory,
+    content: string,
+    baseContent: string | null,
+    description?: string
+  ): Promise<HistoryVersion> {
+    const config = await this.getConfig();
+    const lines = content.split('\n');
+    const version: HistoryVersion = {
+      id: history.nextId++,
+      timestamp: Date.now(),
+      hash: hashContent(content),
+      lines: lines.length,
+      added: lines.length,
+      removed: 0,
+      description
+    };
+
+    if (baseContent === null) {
+      version.content = content;
+    } else {
+      const edits = diffLines(baseContent.split('\n'), lines);
+      version.added = edits.reduce((total, edit) => total + edit.insert.length, 0);
+      version.removed = edits.reduce((total, edit) => total + edit.deleteCount, 0);
+
+      // Full copy every checkpointInterval versions, or when the diff is not smaller than the file
+      const diffsSinceCheckpoint = history.versions.length - 1 - this.findCheckpoint(history, history.versions.length - 1);
+      if (diffsSinceCheckpoint + 1 >= config.checkpointInterval || JSON.stringify(edits).length >= content.length) {
+        version.content = content;
+      } else {
+        version.edits = edits;
+      }
+    }
+
+    history.versions.push(version);
+    return version;
+  }
+
+  private findCheckpoint(history: FileHistory, index: number): number {
+    for (let i = index; i >= 0; i--) {
+      if (history.versions[i].content !== undefined) return i;
+    }
+    throw new Error(`Historique corrompu pour ${history.file}: aucune version complète`);
+  }
+
+  private contentAt(history: FileHistory, index: number): string {
+    const checkpoint = this.findCheckpoint(history, index);
+    let lines = history.versions[checkpoint].content!.split('\n');
+    for (let i = checkpoint + 1; i <= index; i++) {
+      lines = applyLineEdits(lines, history.versions[i].edits ?? []);
+    }
+    return lines.join('\n');
+  }
+
+  private resolveTarget(history: FileHistory, target: VersionTarget): number {
+    const versions = history.versions;
+    const range = `${versions[0]?.id ?? '-'} à ${versions[versions.length - 1]?.id ?? '-'}`;
+
+    if (target.versionId !== undefined) {
+      const index = versions.findIndex(version => version.id === target.versionId);
+      if (index === -1) {
+        throw new Error(`Version ${target.versionId} introuvable pour ${history.file} (versions disponibles: ${range})`);
+      }
+      return index;
+    }
+
+    if (target.timestamp !== undefined) {
+      const time = typeof target.timestamp === 'number' || /^\d+$/.test(target.timestamp)
+        ? Number(target.timestamp)
+        : Date.parse(target.timestamp);
+      if (Number.isNaN(time)) {
+        throw new Error(`Date invalide: ${target.timestamp}`);
+      }
+
+      for (let i = versions.length - 1; i >= 0; i--) {
+        if (versions[i].timestamp <= time) return i;
+      }
+      throw new Error(`Aucune version de ${history.file} antérieure au ${new Date(time).toLocaleString()}`);
+    }
+
+    const steps = target.steps ?? 1;
+    if (steps < 1) {
+      throw new Error(`Le nombre de versions à reculer doit être >= 1`);
+    }
+    if (steps > versions.length - 1) {
+      throw new Error(`Seulement ${versions.length - 1} version(s) antérieure(s) disponible(s) pour ${history.file}`);
+    }
+    return versions.length - 1 - steps;
+  }
+
+  /**
+   * Drop the versions beyond the retention limits, oldest first. The oldest version
+   * referenced by a changeset and every later one are kept so the changeset can be rolled back.
+   */
+  private async prune(history: FileHistory, pinned: (number | null)[] = []): Promise<void> {
+    const { maxVersions, maxAgeDays } = await this.getConfig();
+    const versions = history.versions;
+
+    let removeCount = 0;
+    if (maxVersions !== null && versions.length > maxVersions) {
+      removeCount = versions.length - Math.max(maxVersions, 1);
+    }
+    if (maxAgeDays !== null) {
+      const limit = Date.now() - maxAgeDays * DAY_MS;
+      while (removeCount < versions.length - 1 && versions[removeCount].timestamp < limit) {
+        removeCount++;
+      }
+    }
+    // The latest version is always kept
+    removeCount = Math.min(removeCount, versions.length - 1);
+    if (removeCount <= 0) return;
+
+    const referenced = new Set([...pinned, ...await this.getReferencedVersions(history.file)]);
+    const firstReferenced = versions.findIndex(version => referenced.has(version.id));
+    if (firstReferenced !== -1) {
+      removeCount = Math.min(removeCount, firstReferenced);
+      if (removeCount <= 0) return;
+    }
+
+    // The oldest remaining version becomes a checkpoint
+    const firstKeptContent = this.contentAt(history, removeCount);
+    versions.splice(0, removeCount);
+    versions[0] = { ...versions[0], content: firstKeptContent, edits: undefined };
+  }
+}
@@ -3,6 +3,43 @@
  */
 
 import { ITokenManager, TokenUsage } from '../interfaces/managers.js';
+import { TokenCounter, HeuristicTokenCounter } from '../utils/token-counter.js';
+
+export interface ToolTokenStats {
+  tool: string;
+  calls: number;
+  tokens: number;
+  maxTokens: number;
+}
+
+export interface FileTokenStats {
+  file: string;
+  reads: number;
+  tokens: number;
+}
+
+export interface TokenSession {
+  id: number;
+  startedAt: Date;
+  endedAt?: Date;
+  calls: number;
+  tokens: number;
+}
+
+export interface TokenReport {
+  counter: string;
+  session: TokenSession;
+  previousSessions: TokenSession[];
+  totalTokensUsed: number;
+  contextWindowUsed: number;
+  contextWindowMax: number;
+  cacheHits: number;
+  cacheMisses: number;
+  tokensSaved: number;
+  // Sorted by tokens, largest first
+  tools: ToolTokenStats[];
+  files: FileTokenStats[];
+}
 
 export class TokenManager implements ITokenManager {
   private tokenUsage: TokenUsage = {
@@ -11,10 +48,33 @@ export class TokenManager implements ITokenManager {
     contextWindowMax: 200000,
     operationTokens: 0,
     cacheHits: 0,
-    cacheMisses: 0
+    cacheMisses: 0,
+    tokensSaved: 0
   };
 
-  constructor(contextWindowMax: number = 200000) {
+  private fallbackCounter: TokenCounter = new HeuristicTokenCounter();
+  private session: TokenSession = { id: 1, startedAt: new Date(), calls: 0, tokens: 0 };
+  private previousSessions: TokenSession[] = [];
+  // Current session only
+  private toolStats: Map<string, ToolTokenStats> = new Map();
+  private fileStats: Map<string, FileTokenStats> = new Map();
+
+  constructor(contextWindowMax: number = 200000, private counter: TokenCounter = new HeuristicTokenCounter()) {
+    this.tokenUsage.contextWindowMax = contextWindowMax;
+  }
+
+  /**
+   * Replace the token counter (the heuristic stays the fallback if it fails)
+   */
+  setCounter(counter: TokenCounter): void {
+    this.counter = counter;
+  }
+
+  getCounterName(): string {
+    return this.counter.name;
+  }
+
+  setContextWindowMax(contextWindowMax: number): void {
     this.tokenUsage.contextWindowMax = contextWindowMax;
   }
 
@@ -32,11 +92,74 @@ export class TokenManager implements ITokenManager {
   }
 
   /**
-   * Estimate tokens from content (rough approximation)
+   * Count tokens with the configured counter, falling back to the heuristic
    */
   estimateTokens(content: string): number {
-    // Approximation: ~1 token per 4 characters
-    return Math.ceil(content.length / 4);
+    try {
+      return this.counter.count(content);
+    } catch {
+      return this.fallbackCounter.count(content);
+    }
+  }
+
+  /**
+   * Record a tool response, attributed to the file it read if any. Returns its token count.
+   */
+  recordToolCall(tool: string, content: string, file?: string): number {
+    this.updateUsage(content);
+    const tokens = this.tokenUsage.operationTokens;
+
+    this.session.calls++;
+    this.session.tokens += tokens;
+
+    const toolStats = this.toolStats.get(tool) ?? { tool, calls: 0, tokens: 0, maxTokens: 0 };
+    toolStats.calls++;
+    toolStats.tokens += tokens;
+    toolStats.maxTokens = Math.max(toolStats.maxTokens, tokens);
+    this.toolStats.set(tool, toolStats);
+
+    if (file) {
+      const fileStats = this.fileStats.get(file) ?? { file, reads: 0, tokens: 0 };
+      fileStats.reads++;
+      fileStats.tokens += tokens;
+      this.fileStats.set(file, fileStats);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Start a new session, e.g. once the client has cleared its context:
+   * the context window and per-tool/per-file stats start over, the total is kept
+   */
+  startSession(): TokenSession {
+    this.previousSessions.push({ ...this.session, endedAt: new Date() });
+    this.session = { id: this.session.id + 1, startedAt: new Date(), calls: 0, tokens: 0 };
+    this.toolStats.clear();
+    this.fileStats.clear();
+    this.tokenUsage.contextWindowUsed = 0;
+    this.tokenUsage.operationTokens = 0;
+    return { ...this.session };
+  }
+
+  /**
+   * Usage of the current session, tools and files sorted by tokens
+   */
+  getTokenReport(): TokenReport {
+    const byTokens = <T extends { tokens: number }>(a: T, b: T) => b.tokens - a.tokens;
+    return {
+      counter: this.counter.name,
+      session: { ...this.session },
+      previousSessions: this.previousSessions.map(session => ({ ...session })),
+      totalTokensUsed: this.tokenUsage.totalTokensUsed,
+      contextWindowUsed: this.tokenUsage.contextWindowUsed,
+      contextWindowMax: this.tokenUsage.contextWindowMax,
+      cacheHits: this.tokenUsage.cacheHits,
+      cacheMisses: this.tokenUsage.cacheMisses,
+      tokensSaved: this.tokenUsage.tokensSaved,
+      tools: Array.from(this.toolStats.values(), stats => ({ ...stats })).sort(byTokens),
+      files: Array.from(this.fileStats.values(), stats => ({ ...stats })).sort(byTokens)
+    };
   }
 
   /**
@@ -44,10 +167,12 @@ export class TokenManager implements ITokenManager {
    */
   getUsageReport(): string {
     const percentage = (this.tokenUsage.contextWindowUsed / this.tokenUsage.contextWindowMax) * 100;
+    const cacheLookups = this.tokenUsage.cacheHits + this.tokenUsage.cacheMisses;
     return `\n\n---\n📊 **Tokens:** ${this.tokenUsage.operationTokens} | ` +
            `**Total:** ${this.tokenUsage.totalTokensUsed} | ` +
            `**Contexte:** ${percentage.toFixed(1)}% ` +
-           `(${this.tokenUsage.contextWindowUsed}/${this.tokenUsage.contextWindowMax})`;
+           `(${this.tokenUsage.contextWindowUsed}/${this.tokenUsage.contextWindowMax})` +
+           (cacheLookups > 0 ? ` | **Cache:** ${this.tokenUsage.cacheHits}/${cacheLookups} hits, ${this.tokenUsage.tokensSaved} tokens évités` : '');
   }
 
   /**
@@ -58,10 +183,11 @@ export class TokenManager implements ITokenManager {
   }
 
   /**
-   * Record cache hit
+   * Record cache hit, with the tokens the full response would have cost on top of the actual one
    */
-  recordCacheHit(): void {
+  recordCacheHit(savedTokens: number = 0): void {
     this.tokenUsage.cacheHits++;
+    this.tokenUsage.tokensSaved += Math.max(0, savedTokens);
   }
 
   /**
@@ -81,8 +207,13 @@ export class TokenManager implements ITokenManager {
       contextWindowMax: this.tokenUsage.contextWindowMax,
       operationTokens: 0,
       cacheHits: 0,
-      cacheMisses: 0
+      cacheMisses: 0,
+      tokensSaved: 0
     };
+    this.session = { id: 1, startedAt: new Date(), calls: 0, tokens: 0 };
+    this.previousSessions = [];
+    this.toolStats.clear();
+    this.fileStats.clear();
   }
 
   /**
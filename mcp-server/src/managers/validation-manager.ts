@@ -6,7 +6,7 @@ import { IValidationManager, ValidationResult, ValidationError, ValidationWarnin
 import fs from 'fs-extra';
 import path from 'path';
 import { detectAntiPatterns } from '../../antipatterns.js';
-import { countSyntaxElements, validateSyntaxBalance } from '../../patch-templates.js';
+import { analyzeLuauSyntax, formatSyntaxIssue } from '../parser/syntax-analysis.js';
 
 export class ValidationManager implements IValidationManager {
   private projectRoot: string;
@@ -23,6 +23,10 @@ export class ValidationManager implements IValidationManager {
     this.autoValidateEnabled = enabled;
   }
 
+  isAutoValidationEnabled(): boolean {
+    return this.autoValidateEnabled;
+  }
+
   /**
    * Validate a single file
    */
@@ -103,54 +107,34 @@ export class ValidationManager implements IValidationManager {
    * Validate Luau syntax
    */
   validateSyntax(content: string): ValidationResult {
-    const errors: ValidationError[] = [];
+    const syntax = analyzeLuauSyntax(content);
+    const errors: ValidationError[] = syntax.errors.map(issue => ({
+      file: 'current',
+      line: issue.line,
+      type: 'syntax',
+      message: formatSyntaxIssue(issue),
+      severity: 'error'
+    }));
     const warnings: ValidationWarning[] = [];
-    const lines = content.split('\n');
-
-    // Count syntax elements
-    const counts = countSyntaxElements(content);
-    const balance = validateSyntaxBalance(content);
-
-    if (!balance.isValid) {
-      balance.issues.forEach((issue: string) => {
-        errors.push({
-          file: 'current',
-          type: 'syntax',
-          message: issue,
-          severity: 'error'
-        });
-      });
-    }
-
-    // Additional syntax checks
-    let blockStack: string[] = [];
-    let bracketStack: string[] = [];
-    let inString = false;
-    let stringChar = '';
 
-    lines.forEach((line, index) => {
-      const trimmed = line.trim();
-      
-      // Check for deprecated patterns
-      if (/\bwait\s*\(/.test(trimmed)) {
-        warnings.push({
-          file: 'current',
-          line: index + 1,
-          type: 'deprecated',
-          message: 'Utiliser task.wait() au lieu de wait()'
-        });
-      }
+    // Deprecated globals, checked on tokens so strings and comments are ignored
+    syntax.tokens.forEach((token, index) => {
+      const previous = syntax.tokens[index - 1];
+      const next = syntax.tokens[index + 1];
+      if (token.type !== 'name' || next?.value !== '(' || previous?.value === '.' || previous?.value === ':') return;
 
-      if (/\bspawn\s*\(/.test(trimmed)) {
+      if (token.value === 'wait' || token.value === 'spawn') {
         warnings.push({
           file: 'current',
-          line: index + 1,
+          line: token.start.line,
           type: 'deprecated',
-          message: 'Utiliser task.spawn() au lieu de spawn()'
+          message: `Utiliser task.${token.value}() au lieu de ${token.value}()`
         });
       }
+    });
 
-      // Check for potential nil errors
+    // Check for potential nil errors
+    content.split('\n').forEach((line, index) => {
       if (/\.\s*Parent\s*=\s*nil/.test(line)) {
         warnings.push({
           file: 'current',
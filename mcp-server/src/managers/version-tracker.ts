@@ -0,0 +1,50 @@
+/**
+ * Per-file versions seen by the assistant, used to detect writes based on stale content
+ */
+
+import { hashContent } from '../utils/content-hash.js';
+import { normalizeProjectPath } from '../utils/path-utils.js';
+
+// Contents kept per file to serve as merge base
+const MAX_SNAPSHOTS_PER_FILE = 5;
+
+export class VersionTracker {
+  // Last version read or written by the assistant
+  private readonly seen: Map<string, string> = new Map();
+  // Oldest first
+  private readonly snapshots: Map<string, Map<string, string>> = new Map();
+
+  /**
+   * Record a content the assistant has seen (read or written), returning its version
+   */
+  record(filePath: string, content: string): string {
+    const file = normalizeProjectPath(filePath);
+    const version = hashContent(content);
+
+    this.seen.set(file, version);
+
+    const snapshots = this.snapshots.get(file) ?? new Map<string, string>();
+    snapshots.delete(version);
+    snapshots.set(version, content);
+    while (snapshots.size > MAX_SNAPSHOTS_PER_FILE) {
+      snapshots.delete(snapshots.keys().next().value!);
+    }
+    this.snapshots.set(file, snapshots);
+
+    return version;
+  }
+
+  getSeenVersion(filePath: string): string | undefined {
+    return this.seen.get(normalizeProjectPath(filePath));
+  }
+
+  getSnapshot(filePath: string, version: string): string | undefined {
+    return this.snapshots.get(normalizeProjectPath(filePath))?.get(version);
+  }
+
+  forget(filePath: string): void {
+    const file = normalizeProjectPath(filePath);
+    this.seen.delete(file);
+    this.snapshots.delete(file);
+  }
+}
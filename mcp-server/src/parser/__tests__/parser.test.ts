@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseLuau } from '../parser.js';
+import { tokenize } from '../lexer.js';
+import { walkAst } from '../walker.js';
+import { Node } from '../ast.js';
+
+function kinds(source: string): string[] {
+  const result = parseLuau(source);
+  const found: string[] = [];
+  if (result.ast) {
+    walkAst(result.ast, (node: Node) => {
+      found.push(node.kind);
+    });
+  }
+  return found;
+}
+
+describe('Luau lexer', () => {
+  it('should skip long strings and nested-level comments', () => {
+    const { tokens, comments } = tokenize('local s = [==[ end ]] function ]==]\n--[[ if then\nend ]] x()');
+    expect(tokens.filter(t => t.value === 'end')).toHaveLength(0);
+    expect(tokens.find(t => t.type === 'string')?.value).toBe(' end ]] function ');
+    expect(comments).toHaveLength(1);
+    expect(comments[0].long).toBe(true);
+  });
+
+  it('should split interpolated strings around expressions', () => {
+    const { tokens } = tokenize('`a {x} b {t[1]} c`');
+    expect(tokens.map(t => t.type)).toEqual([
+      'interpBegin', 'name', 'interpMid', 'name', 'symbol', 'number', 'symbol', 'interpEnd', 'eof'
+    ]);
+  });
+
+  it('should report unterminated strings with their position', () => {
+    const { errors } = tokenize('local s = "abc\nprint(s)');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(1);
+    expect(errors[0].column).toBe(11);
+  });
+});
+
+describe('Luau parser', () => {
+  it('should parse type syntax', () => {
+    const source = [
+      'export type Map<K, V = string> = { [K]: V }',
+      'type Callback = (player: Player, ...any) -> (boolean, string?)',
+      'type Shape = | { kind: "circle", radius: number } | { kind: "square" }',
+      'local function map<T, U>(list: { T }, fn: (T) -> U): { U }',
+      '  local out: { U } = {}',
+      '  for i, v in list do out[i] = fn(v) end',
+      '  return out',
+      'end',
+      'local n = (value :: any) :: number'
+    ].join('\n');
+    const result = parseLuau(source);
+    expect(result.errors).toEqual([]);
+    expect(kinds(source)).toContain('TypeAliasStatement');
+    expect(kinds(source)).toContain('TypeAssertion');
+  });
+
+  it('should parse compound assignment, if-expressions and interpolation', () => {
+    const source = 'local x = 1\nx += 2\nx //= 2\nlocal s = `x = {if x > 1 then "big" else "small"}`\ns ..= "!"';
+    const result = parseLuau(source);
+    expect(result.errors).toEqual([]);
+    expect(kinds(source).filter(k => k === 'CompoundAssignmentStatement')).toHaveLength(3);
+    expect(kinds(source)).toContain('IfExpression');
+    expect(kinds(source)).toContain('InterpolatedString');
+  });
+
+  it('should treat continue as a keyword only in statement position', () => {
+    const result = parseLuau('local continue = 1\nfor i = 1, 3 do\n  if i == 2 then continue end\nend');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should not count if-expressions as blocks', () => {
+    const result = parseLuau('local v = if a then 1 else 2\nif v then print(v) end');
+    expect(result.blocks).toEqual({ expectedEnds: 1, foundEnds: 1, unclosedBlocks: [] });
+  });
+
+  it('should accept calls spanning several lines', () => {
+    const result = parseLuau('print(\n  "a",\n  function()\n    return 1\n  end\n)');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should report unclosed blocks at end of file', () => {
+    const result = parseLuau('function a()\n  if x then\n    print(1)\n  end\n');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].kind).toBe('unclosed-block');
+    expect(result.blocks.unclosedBlocks).toEqual([{ type: 'function', line: 1 }]);
+    expect(result.blocks.expectedEnds - result.blocks.foundEnds).toBe(1);
+  });
+
+  it('should report an extra end with its line', () => {
+    const result = parseLuau('local function f()\nend\nend');
+    expect(result.errors[0].kind).toBe('unexpected-end');
+    expect(result.errors[0].line).toBe(3);
+  });
+
+  it('should report mismatched brackets', () => {
+    const result = parseLuau('local t = { a = (1 }');
+    expect(result.errors[0].kind).toBe('mismatched-bracket');
+    expect(result.errors[0].column).toBe(20);
+  });
+
+  it('should attach source positions to nodes', () => {
+    const result = parseLuau('local a = 1\n\nfunction Module.helper(x)\n  return x\nend');
+    const fn = result.ast!.body[1];
+    expect(fn.kind).toBe('FunctionStatement');
+    expect(fn.loc.start.line).toBe(3);
+    expect(fn.loc.end.line).toBe(5);
+  });
+});
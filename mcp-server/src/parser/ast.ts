@@ -0,0 +1,368 @@
+/**
+ * Types de l'AST Luau produit par le parser partagé
+ * Chaque noeud porte sa position (ligne/colonne 1-based) dans le source
+ */
+
+import { Position, Comment } from './lexer.js';
+
+export interface SourceLocation {
+  start: Position;
+  end: Position;
+}
+
+interface BaseNode {
+  loc: SourceLocation;
+}
+
+// ===== Types Luau =====
+
+export interface TypeReference extends BaseNode {
+  kind: 'TypeReference';
+  prefix?: string;
+  name: string;
+  parameters: TypeNode[];
+}
+
+export interface TypeTableProperty {
+  key: string;
+  access?: 'read' | 'write';
+  value: TypeNode;
+}
+
+export interface TypeTable extends BaseNode {
+  kind: 'TypeTable';
+  properties: TypeTableProperty[];
+  indexer?: { key: TypeNode; value: TypeNode };
+}
+
+export interface TypeFunction extends BaseNode {
+  kind: 'TypeFunction';
+  generics: GenericParameter[];
+  parameters: TypeNode[];
+  returns: TypeNode;
+}
+
+export interface TypeUnion extends BaseNode {
+  kind: 'TypeUnion';
+  types: TypeNode[];
+}
+
+export interface TypeIntersection extends BaseNode {
+  kind: 'TypeIntersection';
+  types: TypeNode[];
+}
+
+export interface TypeOptional extends BaseNode {
+  kind: 'TypeOptional';
+  type: TypeNode;
+}
+
+export interface TypeTypeof extends BaseNode {
+  kind: 'TypeTypeof';
+  expression: Expression;
+}
+
+export interface TypeSingleton extends BaseNode {
+  kind: 'TypeSingleton';
+  value: string | boolean | null;
+}
+
+export interface TypePack extends BaseNode {
+  kind: 'TypePack';
+  types: TypeNode[];
+}
+
+export interface TypeVariadic extends BaseNode {
+  kind: 'TypeVariadic';
+  type: TypeNode;
+}
+
+export interface TypeGenericPack extends BaseNode {
+  kind: 'TypeGenericPack';
+  name: string;
+}
+
+export type TypeNode =
+  | TypeReference
+  | TypeTable
+  | TypeFunction
+  | TypeUnion
+  | TypeIntersection
+  | TypeOptional
+  | TypeTypeof
+  | TypeSingleton
+  | TypePack
+  | TypeVariadic
+  | TypeGenericPack;
+
+export interface GenericParameter {
+  name: string;
+  pack: boolean;
+  default?: TypeNode;
+}
+
+// ===== Expressions =====
+
+export interface Identifier extends BaseNode {
+  kind: 'Identifier';
+  name: string;
+}
+
+export interface NilLiteral extends BaseNode {
+  kind: 'NilLiteral';
+}
+
+export interface BooleanLiteral extends BaseNode {
+  kind: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NumberLiteral extends BaseNode {
+  kind: 'NumberLiteral';
+  raw: string;
+}
+
+export interface StringLiteral extends BaseNode {
+  kind: 'StringLiteral';
+  value: string;
+}
+
+export interface InterpolatedString extends BaseNode {
+  kind: 'InterpolatedString';
+  strings: string[];
+  expressions: Expression[];
+}
+
+export interface VarargLiteral extends BaseNode {
+  kind: 'VarargLiteral';
+}
+
+export interface Binding {
+  name: Identifier;
+  annotation?: TypeNode;
+}
+
+export interface FunctionExpression extends BaseNode {
+  kind: 'FunctionExpression';
+  generics: GenericParameter[];
+  parameters: Binding[];
+  isVararg: boolean;
+  varargAnnotation?: TypeNode;
+  returnAnnotation?: TypeNode;
+  body: Statement[];
+  attributes: string[];
+}
+
+export interface TableField {
+  type: 'positional' | 'named' | 'computed';
+  key?: Identifier | Expression;
+  value: Expression;
+  loc: SourceLocation;
+}
+
+export interface TableConstructor extends BaseNode {
+  kind: 'TableConstructor';
+  fields: TableField[];
+}
+
+export interface BinaryExpression extends BaseNode {
+  kind: 'BinaryExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface UnaryExpression extends BaseNode {
+  kind: 'UnaryExpression';
+  operator: string;
+  argument: Expression;
+}
+
+export interface IfExpression extends BaseNode {
+  kind: 'IfExpression';
+  clauses: { condition: Expression; value: Expression }[];
+  elseValue: Expression;
+}
+
+export interface MemberExpression extends BaseNode {
+  kind: 'MemberExpression';
+  object: Expression;
+  property: Identifier;
+}
+
+export interface IndexExpression extends BaseNode {
+  kind: 'IndexExpression';
+  object: Expression;
+  index: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+  kind: 'CallExpression';
+  callee: Expression;
+  arguments: Expression[];
+}
+
+export interface MethodCallExpression extends BaseNode {
+  kind: 'MethodCallExpression';
+  object: Expression;
+  method: Identifier;
+  arguments: Expression[];
+}
+
+export interface ParenthesizedExpression extends BaseNode {
+  kind: 'ParenthesizedExpression';
+  expression: Expression;
+}
+
+export interface TypeAssertion extends BaseNode {
+  kind: 'TypeAssertion';
+  expression: Expression;
+  annotation: TypeNode;
+}
+
+export type Expression =
+  | Identifier
+  | NilLiteral
+  | BooleanLiteral
+  | NumberLiteral
+  | StringLiteral
+  | InterpolatedString
+  | VarargLiteral
+  | FunctionExpression
+  | TableConstructor
+  | BinaryExpression
+  | UnaryExpression
+  | IfExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | MethodCallExpression
+  | ParenthesizedExpression
+  | TypeAssertion;
+
+// ===== Statements =====
+
+export interface LocalStatement extends BaseNode {
+  kind: 'LocalStatement';
+  variables: Binding[];
+  values: Expression[];
+}
+
+export interface LocalFunctionStatement extends BaseNode {
+  kind: 'LocalFunctionStatement';
+  name: Identifier;
+  func: FunctionExpression;
+}
+
+export interface FunctionStatement extends BaseNode {
+  kind: 'FunctionStatement';
+  // Chemin complet du nom: ["Module", "sub", "method"]
+  path: Identifier[];
+  isMethod: boolean;
+  func: FunctionExpression;
+}
+
+export interface IfStatement extends BaseNode {
+  kind: 'IfStatement';
+  clauses: { condition: Expression; body: Statement[]; loc: SourceLocation }[];
+  elseBody?: Statement[];
+}
+
+export interface WhileStatement extends BaseNode {
+  kind: 'WhileStatement';
+  condition: Expression;
+  body: Statement[];
+}
+
+export interface NumericForStatement extends BaseNode {
+  kind: 'NumericForStatement';
+  variable: Binding;
+  start: Expression;
+  end: Expression;
+  step?: Expression;
+  body: Statement[];
+}
+
+export interface GenericForStatement extends BaseNode {
+  kind: 'GenericForStatement';
+  variables: Binding[];
+  iterators: Expression[];
+  body: Statement[];
+}
+
+export interface RepeatStatement extends BaseNode {
+  kind: 'RepeatStatement';
+  body: Statement[];
+  condition: Expression;
+}
+
+export interface DoStatement extends BaseNode {
+  kind: 'DoStatement';
+  body: Statement[];
+}
+
+export interface ReturnStatement extends BaseNode {
+  kind: 'ReturnStatement';
+  values: Expression[];
+}
+
+export interface BreakStatement extends BaseNode {
+  kind: 'BreakStatement';
+}
+
+export interface ContinueStatement extends BaseNode {
+  kind: 'ContinueStatement';
+}
+
+export interface AssignmentStatement extends BaseNode {
+  kind: 'AssignmentStatement';
+  targets: Expression[];
+  values: Expression[];
+}
+
+export interface CompoundAssignmentStatement extends BaseNode {
+  kind: 'CompoundAssignmentStatement';
+  // Opérateur binaire sous-jacent: '+', '..', '//', ...
+  operator: string;
+  target: Expression;
+  value: Expression;
+}
+
+export interface CallStatement extends BaseNode {
+  kind: 'CallStatement';
+  expression: CallExpression | MethodCallExpression;
+}
+
+export interface TypeAliasStatement extends BaseNode {
+  kind: 'TypeAliasStatement';
+  name: Identifier;
+  exported: boolean;
+  generics: GenericParameter[];
+  value: TypeNode;
+}
+
+export type Statement =
+  | LocalStatement
+  | LocalFunctionStatement
+  | FunctionStatement
+  | IfStatement
+  | WhileStatement
+  | NumericForStatement
+  | GenericForStatement
+  | RepeatStatement
+  | DoStatement
+  | ReturnStatement
+  | BreakStatement
+  | ContinueStatement
+  | AssignmentStatement
+  | CompoundAssignmentStatement
+  | CallStatement
+  | TypeAliasStatement;
+
+export interface Chunk extends BaseNode {
+  kind: 'Chunk';
+  body: Statement[];
+  comments: Comment[];
+}
+
+export type Node = Chunk | Statement | Expression | TypeNode;
@@ -0,0 +1,329 @@
+/**
+ * Tokenizer Luau partagé par tous les validateurs
+ * Gère les long strings/commentaires à niveaux, les strings interpolées et les opérateurs composés
+ */
+
+export interface Position {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export type TokenType =
+  | 'name'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'interpBegin'
+  | 'interpMid'
+  | 'interpEnd'
+  | 'interpSimple'
+  | 'symbol'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  start: Position;
+  end: Position;
+}
+
+export interface Comment {
+  value: string;
+  long: boolean;
+  start: Position;
+  end: Position;
+}
+
+export interface LexError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface LexResult {
+  tokens: Token[];
+  comments: Comment[];
+  errors: LexError[];
+}
+
+export const KEYWORDS = new Set([
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function',
+  'if', 'in', 'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true',
+  'until', 'while'
+]);
+
+// Triés du plus long au plus court pour que le premier match soit le bon
+const SYMBOLS = [
+  '...', '..=', '//=',
+  '..', '::', '->', '==', '~=', '<=', '>=', '+=', '-=', '*=', '/=', '%=', '^=', '//',
+  '+', '-', '*', '/', '%', '^', '#', '&', '~', '|', '<', '>', '=',
+  '(', ')', '{', '}', '[', ']', ';', ':', ',', '.', '?', '@'
+];
+
+export class LuauLexer {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  private readonly tokens: Token[] = [];
+  private readonly comments: Comment[] = [];
+  private readonly errors: LexError[] = [];
+  // Pile des accolades ouvertes: 'interp' marque l'ouverture d'une expression dans une string interpolée
+  private readonly braceStack: ('brace' | 'interp')[] = [];
+
+  constructor(private readonly source: string) {}
+
+  tokenize(): LexResult {
+    while (true) {
+      this.skipWhitespace();
+      if (this.pos >= this.source.length) break;
+
+      const start = this.position();
+      const char = this.source[this.pos];
+
+      if (char === '-' && this.peek(1) === '-') {
+        this.readComment(start);
+      } else if (/[A-Za-z_]/.test(char)) {
+        this.readName(start);
+      } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(this.peek(1)))) {
+        this.readNumber(start);
+      } else if (char === '"' || char === "'") {
+        this.readQuotedString(start, char);
+      } else if (char === '`') {
+        this.advance();
+        this.readInterpolatedSegment(start, true);
+      } else if (char === '[' && this.longBracketLevel() >= 0) {
+        const content = this.readLongBracket(start, 'string');
+        this.push('string', content, start);
+      } else if (char === '}' && this.braceStack[this.braceStack.length - 1] === 'interp') {
+        this.braceStack.pop();
+        this.advance();
+        this.readInterpolatedSegment(start, false);
+      } else {
+        this.readSymbol(start);
+      }
+    }
+
+    const eofPosition = this.position();
+    this.tokens.push({ type: 'eof', value: '<eof>', start: eofPosition, end: eofPosition });
+
+    return { tokens: this.tokens, comments: this.comments, errors: this.errors };
+  }
+
+  private position(): Position {
+    return { line: this.line, column: this.column, offset: this.pos };
+  }
+
+  private peek(distance: number = 0): string {
+    return this.source[this.pos + distance] ?? '';
+  }
+
+  private advance(): string {
+    const char = this.source[this.pos++];
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    return char;
+  }
+
+  private push(type: TokenType, value: string, start: Position): void {
+    this.tokens.push({ type, value, start, end: this.position() });
+  }
+
+  private error(message: string, at: Position): void {
+    this.errors.push({ message, line: at.line, column: at.column });
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.advance();
+    }
+  }
+
+  /**
+   * Retourne le niveau (nombre de '=') d'un long bracket [==[ à la position courante, ou -1
+   */
+  private longBracketLevel(from: number = this.pos): number {
+    if (this.source[from] !== '[') return -1;
+    let level = 0;
+    let index = from + 1;
+    while (this.source[index] === '=') {
+      level++;
+      index++;
+    }
+    return this.source[index] === '[' ? level : -1;
+  }
+
+  private readLongBracket(start: Position, kind: 'string' | 'comment'): string {
+    const level = this.longBracketLevel();
+    // Sauter [==[
+    for (let i = 0; i < level + 2; i++) this.advance();
+
+    const closing = ']' + '='.repeat(level) + ']';
+    const endIndex = this.source.indexOf(closing, this.pos);
+    if (endIndex === -1) {
+      this.error(
+        kind === 'string'
+          ? `Long string non terminée (ouverte ligne ${start.line})`
+          : `Commentaire long non terminé (ouvert ligne ${start.line})`,
+        start
+      );
+      const content = this.source.slice(this.pos);
+      while (this.pos < this.source.length) this.advance();
+      return content;
+    }
+
+    const content = this.source.slice(this.pos, endIndex);
+    while (this.pos < endIndex + closing.length) this.advance();
+    return content;
+  }
+
+  private readComment(start: Position): void {
+    this.advance();
+    this.advance();
+
+    if (this.longBracketLevel() >= 0) {
+      const value = this.readLongBracket(start, 'comment');
+      this.comments.push({ value, long: true, start, end: this.position() });
+      return;
+    }
+
+    let value = '';
+    while (this.pos < this.source.length && this.peek() !== '\n') {
+      value += this.advance();
+    }
+    this.comments.push({ value, long: false, start, end: this.position() });
+  }
+
+  private readName(start: Position): void {
+    let value = '';
+    while (/[A-Za-z0-9_]/.test(this.peek())) {
+      value += this.advance();
+    }
+    this.push(KEYWORDS.has(value) ? 'keyword' : 'name', value, start);
+  }
+
+  private readNumber(start: Position): void {
+    let value = '';
+
+    if (this.peek() === '0' && /[xXbB]/.test(this.peek(1))) {
+      value += this.advance() + this.advance();
+      while (/[0-9A-Fa-f_]/.test(this.peek())) value += this.advance();
+    } else {
+      while (/[0-9_.]/.test(this.peek())) {
+        // '..' après un nombre est un opérateur de concaténation
+        if (this.peek() === '.' && this.peek(1) === '.') break;
+        value += this.advance();
+      }
+      if (/[eE]/.test(this.peek())) {
+        value += this.advance();
+        if (/[+-]/.test(this.peek())) value += this.advance();
+        while (/[0-9_]/.test(this.peek())) value += this.advance();
+      }
+    }
+
+    if (/[A-Za-z_]/.test(this.peek())) {
+      this.error(`Nombre mal formé '${value}${this.peek()}'`, start);
+      while (/[A-Za-z0-9_]/.test(this.peek())) value += this.advance();
+    }
+
+    this.push('number', value, start);
+  }
+
+  /**
+   * Lit une séquence d'échappement et retourne le texte source consommé
+   */
+  private readEscape(): string {
+    let raw = this.advance(); // '\'
+    const next = this.peek();
+    if (next === 'z') {
+      raw += this.advance();
+      while (/\s/.test(this.peek())) raw += this.advance();
+    } else if (next !== '') {
+      raw += this.advance();
+    }
+    return raw;
+  }
+
+  private readQuotedString(start: Position, quote: string): void {
+    this.advance();
+    let value = '';
+
+    while (true) {
+      const char = this.peek();
+      if (char === '' || char === '\n') {
+        this.error(`Chaîne non terminée (ouverte ligne ${start.line}, colonne ${start.column})`, start);
+        break;
+      }
+      if (char === '\\') {
+        value += this.readEscape();
+        continue;
+      }
+      this.advance();
+      if (char === quote) break;
+      value += char;
+    }
+
+    this.push('string', value, start);
+  }
+
+  /**
+   * Lit un segment de string interpolée jusqu'au prochain '{' ou '`'
+   * Le début d'une string produit interpBegin/interpSimple, la reprise après '}' produit interpMid/interpEnd
+   */
+  private readInterpolatedSegment(start: Position, opening: boolean): void {
+    let value = '';
+
+    while (true) {
+      const char = this.peek();
+      if (char === '' || char === '\n') {
+        this.error(`String interpolée non terminée (ligne ${start.line}, colonne ${start.column})`, start);
+        this.push(opening ? 'interpSimple' : 'interpEnd', value, start);
+        return;
+      }
+      if (char === '\\') {
+        value += this.readEscape();
+        continue;
+      }
+      this.advance();
+      if (char === '`') {
+        this.push(opening ? 'interpSimple' : 'interpEnd', value, start);
+        return;
+      }
+      if (char === '{') {
+        this.braceStack.push('interp');
+        this.push(opening ? 'interpBegin' : 'interpMid', value, start);
+        return;
+      }
+      value += char;
+    }
+  }
+
+  private readSymbol(start: Position): void {
+    for (const symbol of SYMBOLS) {
+      if (this.source.startsWith(symbol, this.pos)) {
+        for (let i = 0; i < symbol.length; i++) this.advance();
+        if (symbol === '{') {
+          this.braceStack.push('brace');
+        } else if (symbol === '}') {
+          this.braceStack.pop();
+        }
+        this.push('symbol', symbol, start);
+        return;
+      }
+    }
+
+    const char = this.advance();
+    this.error(`Caractère inattendu '${char}'`, start);
+  }
+}
+
+/**
+ * Découpe une source Luau en tokens (les commentaires sont retournés séparément)
+ */
+export function tokenize(source: string): LexResult {
+  return new LuauLexer(source).tokenize();
+}
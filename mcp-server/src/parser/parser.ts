@@ -0,0 +1,1019 @@
+/**
+ * Parser Luau (descente récursive) partagé par tous les validateurs
+ * Couvre la syntaxe de types, les strings interpolées, les if-expressions et les affectations composées
+ */
+
+import { tokenize, Token, Comment, Position } from './lexer.js';
+import {
+  Chunk,
+  Statement,
+  Expression,
+  TypeNode,
+  Identifier,
+  Binding,
+  FunctionExpression,
+  GenericParameter,
+  TableField,
+  TypeTableProperty,
+  SourceLocation,
+  CallExpression,
+  MethodCallExpression
+} from './ast.js';
+
+export type ParseErrorKind =
+  | 'lexical'
+  | 'unexpected-token'
+  | 'unexpected-end'
+  | 'unclosed-block'
+  | 'unclosed-bracket'
+  | 'mismatched-bracket';
+
+export class ParseError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: ParseErrorKind,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+export interface OpenBlock {
+  type: 'function' | 'if' | 'for' | 'while' | 'do' | 'repeat';
+  line: number;
+  column: number;
+}
+
+export interface ParseResult {
+  ast?: Chunk;
+  errors: ParseError[];
+  tokens: Token[];
+  comments: Comment[];
+  blocks: {
+    expectedEnds: number;
+    foundEnds: number;
+    unclosedBlocks: { type: string; line: number }[];
+  };
+}
+
+// Priorités gauche/droite des opérateurs binaires (mêmes valeurs que le parser Luau)
+const BINARY_PRIORITY: Record<string, [number, number]> = {
+  'or': [1, 1],
+  'and': [2, 2],
+  '==': [3, 3], '~=': [3, 3], '<': [3, 3], '<=': [3, 3], '>': [3, 3], '>=': [3, 3],
+  '..': [5, 4],
+  '+': [6, 6], '-': [6, 6],
+  '*': [7, 7], '/': [7, 7], '//': [7, 7], '%': [7, 7],
+  '^': [10, 9]
+};
+const UNARY_PRIORITY = 8;
+
+const COMPOUND_OPERATORS = new Set(['+=', '-=', '*=', '/=', '//=', '%=', '^=', '..=']);
+
+const CLOSING_BRACKETS: Record<string, string> = { '(': ')', '{': '}', '[': ']' };
+
+export class LuauParser {
+  private index = 0;
+  private readonly tokens: Token[];
+  private readonly comments: Comment[];
+  private readonly lexErrors: ParseError[];
+  private readonly blockStack: OpenBlock[] = [];
+
+  constructor(source: string) {
+    const lexed = tokenize(source);
+    this.tokens = lexed.tokens;
+    this.comments = lexed.comments;
+    this.lexErrors = lexed.errors.map(e => new ParseError(e.message, 'lexical', e.line, e.column));
+  }
+
+  parse(): ParseResult {
+    const errors: ParseError[] = [...this.lexErrors];
+    const foundEnds = this.tokens.filter(t => t.type === 'keyword' && t.value === 'end').length;
+    let ast: Chunk | undefined;
+    let expectedEnds = foundEnds;
+    let unclosedBlocks: { type: string; line: number }[] = [];
+
+    try {
+      ast = this.parseChunk();
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      // Une erreur lexicale provoque souvent une erreur de parsing au même endroit: ne garder que la première
+      if (!errors.some(e => e.line === error.line)) {
+        errors.push(error);
+      }
+
+      if (error.kind === 'unclosed-block') {
+        unclosedBlocks = this.blockStack.map(b => ({ type: b.type, line: b.line }));
+        expectedEnds = foundEnds + this.blockStack.filter(b => b.type !== 'repeat').length;
+      } else if (error.kind === 'unexpected-end') {
+        expectedEnds = foundEnds - 1;
+      }
+    }
+
+    return {
+      ast: errors.length === 0 ? ast : undefined,
+      errors,
+      tokens: this.tokens,
+      comments: this.comments,
+      blocks: { expectedEnds, foundEnds, unclosedBlocks }
+    };
+  }
+
+  // ===== Navigation dans les tokens =====
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private lookahead(distance: number = 1): Token {
+    return this.tokens[Math.min(this.index + distance, this.tokens.length - 1)];
+  }
+
+  private get previous(): Token {
+    return this.tokens[Math.max(0, this.index - 1)];
+  }
+
+  private next(): Token {
+    const token = this.current;
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private is(value: string, token: Token = this.current): boolean {
+    return (token.type === 'symbol' || token.type === 'keyword') && token.value === value;
+  }
+
+  private isName(value?: string, token: Token = this.current): boolean {
+    return token.type === 'name' && (value === undefined || token.value === value);
+  }
+
+  private accept(value: string): boolean {
+    if (this.is(value)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'eof') return '<eof>';
+    if (token.type === 'string') return 'une chaîne';
+    if (token.type.startsWith('interp')) return 'une string interpolée';
+    return `'${token.value}'`;
+  }
+
+  private fail(message: string, token: Token = this.current, kind: ParseErrorKind = 'unexpected-token'): never {
+    throw new ParseError(message, kind, token.start.line, token.start.column);
+  }
+
+  private expect(value: string, context?: string): Token {
+    if (this.is(value)) return this.next();
+    const suffix = context ? ` ${context}` : '';
+    this.fail(`'${value}' attendu${suffix}, trouvé ${this.describe(this.current)}`);
+  }
+
+  private expectName(context: string): Identifier {
+    const token = this.current;
+    if (token.type !== 'name') {
+      this.fail(`Nom attendu ${context}, trouvé ${this.describe(token)}`);
+    }
+    this.next();
+    return { kind: 'Identifier', name: token.value, loc: { start: token.start, end: token.end } };
+  }
+
+  /**
+   * Consomme le crochet fermant correspondant à `open`, avec un message qui pointe vers l'ouverture
+   */
+  private expectClosing(open: Token): void {
+    const closing = CLOSING_BRACKETS[open.value];
+    if (this.accept(closing)) return;
+
+    const found = this.current;
+    const message = `'${closing}' attendu pour fermer '${open.value}' ligne ${open.start.line}, trouvé ${this.describe(found)}`;
+    if (found.type === 'eof') {
+      this.fail(message, found, 'unclosed-bracket');
+    }
+    if (found.type === 'symbol' && [')', '}', ']'].includes(found.value)) {
+      this.fail(message, found, 'mismatched-bracket');
+    }
+    this.fail(message, found);
+  }
+
+  private locFrom(start: Position): SourceLocation {
+    return { start, end: this.previous.end };
+  }
+
+  // ===== Blocs =====
+
+  private openBlock(type: OpenBlock['type'], token: Token): void {
+    this.blockStack.push({ type, line: token.start.line, column: token.start.column });
+  }
+
+  private closeBlock(): void {
+    const block = this.blockStack[this.blockStack.length - 1];
+    const closer = block.type === 'repeat' ? 'until' : 'end';
+
+    if (!this.is(closer)) {
+      const message = `'${closer}' attendu pour fermer '${block.type}' ouvert ligne ${block.line}, trouvé ${this.describe(this.current)}`;
+      this.fail(message, this.current, this.current.type === 'eof' ? 'unclosed-block' : 'unexpected-token');
+    }
+
+    this.next();
+    this.blockStack.pop();
+  }
+
+  private isBlockEnd(): boolean {
+    const token = this.current;
+    return token.type === 'eof' ||
+      (token.type === 'keyword' && ['end', 'else', 'elseif', 'until'].includes(token.value));
+  }
+
+  private parseChunk(): Chunk {
+    const start = this.current.start;
+    const body = this.parseBlock();
+
+    if (this.current.type !== 'eof') {
+      const token = this.current;
+      if (this.is('end')) {
+        this.fail(`'end' inattendu ligne ${token.start.line}: aucun bloc ouvert à fermer`, token, 'unexpected-end');
+      }
+      this.fail(`${this.describe(token)} inattendu ligne ${token.start.line}`, token);
+    }
+
+    return { kind: 'Chunk', body, comments: this.comments, loc: { start, end: this.current.end } };
+  }
+
+  private parseBlock(): Statement[] {
+    const body: Statement[] = [];
+
+    while (!this.isBlockEnd()) {
+      if (this.accept(';')) continue;
+
+      if (this.is('return')) {
+        body.push(this.parseReturn());
+        this.accept(';');
+        if (!this.isBlockEnd()) {
+          this.fail(`'return' doit être la dernière instruction du bloc, trouvé ${this.describe(this.current)}`);
+        }
+        break;
+      }
+
+      body.push(this.parseStatement());
+    }
+
+    return body;
+  }
+
+  // ===== Instructions =====
+
+  private parseStatement(): Statement {
+    const token = this.current;
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'if': return this.parseIf();
+        case 'while': return this.parseWhile();
+        case 'do': return this.parseDo();
+        case 'for': return this.parseFor();
+        case 'repeat': return this.parseRepeat();
+        case 'function': return this.parseFunctionStatement([]);
+        case 'local': return this.parseLocal([]);
+        case 'break':
+          this.next();
+          return { kind: 'BreakStatement', loc: this.locFrom(token.start) };
+      }
+    }
+
+    if (this.is('@')) {
+      const attributes = this.parseAttributes();
+      if (this.is('function')) return this.parseFunctionStatement(attributes);
+      if (this.is('local') && this.is('function', this.lookahead())) return this.parseLocal(attributes);
+      this.fail(`'function' attendu après un attribut, trouvé ${this.describe(this.current)}`);
+    }
+
+    if (token.type === 'name') {
+      const next = this.lookahead();
+      if (token.value === 'type' && next.type === 'name') {
+        return this.parseTypeAlias(false);
+      }
+      if (token.value === 'export' && this.isName('type', next) && this.lookahead(2).type === 'name') {
+        this.next();
+        return this.parseTypeAlias(true);
+      }
+      if (token.value === 'continue' && !this.continuesExpression(next)) {
+        this.next();
+        return { kind: 'ContinueStatement', loc: this.locFrom(token.start) };
+      }
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  /**
+   * Indique si le token suivant un nom prolonge une expression (continue est un mot-clé contextuel)
+   */
+  private continuesExpression(token: Token): boolean {
+    if (token.type === 'string' || token.type === 'interpSimple' || token.type === 'interpBegin') return true;
+    return token.type === 'symbol' &&
+      (['(', '.', '[', ':', '=', ',', '{'].includes(token.value) || COMPOUND_OPERATORS.has(token.value));
+  }
+
+  private parseAttributes(): string[] {
+    const attributes: string[] = [];
+    while (this.accept('@')) {
+      attributes.push(this.expectName("après '@'").name);
+    }
+    return attributes;
+  }
+
+  private parseIf(): Statement {
+    const start = this.current.start;
+    this.openBlock('if', this.current);
+    this.next();
+
+    const clauses: { condition: Expression; body: Statement[]; loc: SourceLocation }[] = [];
+    let elseBody: Statement[] | undefined;
+
+    do {
+      const clauseStart = this.previous.start;
+      const condition = this.parseExpression();
+      this.expect('then', `après la condition du 'if' ligne ${clauseStart.line}`);
+      const body = this.parseBlock();
+      clauses.push({ condition, body, loc: this.locFrom(clauseStart) });
+    } while (this.accept('elseif'));
+
+    if (this.accept('else')) {
+      elseBody = this.parseBlock();
+    }
+
+    this.closeBlock();
+    return { kind: 'IfStatement', clauses, elseBody, loc: this.locFrom(start) };
+  }
+
+  private parseWhile(): Statement {
+    const start = this.current.start;
+    this.openBlock('while', this.current);
+    this.next();
+
+    const condition = this.parseExpression();
+    this.expect('do', `après la condition du 'while' ligne ${start.line}`);
+    const body = this.parseBlock();
+    this.closeBlock();
+
+    return { kind: 'WhileStatement', condition, body, loc: this.locFrom(start) };
+  }
+
+  private parseDo(): Statement {
+    const start = this.current.start;
+    this.openBlock('do', this.current);
+    this.next();
+
+    const body = this.parseBlock();
+    this.closeBlock();
+
+    return { kind: 'DoStatement', body, loc: this.locFrom(start) };
+  }
+
+  private parseFor(): Statement {
+    const start = this.current.start;
+    this.openBlock('for', this.current);
+    this.next();
+
+    const first = this.parseBinding();
+
+    if (this.accept('=')) {
+      const from = this.parseExpression();
+      this.expect(',', "dans la boucle 'for' numérique");
+      const to = this.parseExpression();
+      const step = this.accept(',') ? this.parseExpression() : undefined;
+      this.expect('do', `après l'en-tête du 'for' ligne ${start.line}`);
+      const body = this.parseBlock();
+      this.closeBlock();
+      return { kind: 'NumericForStatement', variable: first, start: from, end: to, step, body, loc: this.locFrom(start) };
+    }
+
+    const variables = [first];
+    while (this.accept(',')) {
+      variables.push(this.parseBinding());
+    }
+    this.expect('in', "dans la boucle 'for'");
+    const iterators = this.parseExpressionList();
+    this.expect('do', `après l'en-tête du 'for' ligne ${start.line}`);
+    const body = this.parseBlock();
+    this.closeBlock();
+
+    return { kind: 'GenericForStatement', variables, iterators, body, loc: this.locFrom(start) };
+  }
+
+  private parseRepeat(): Statement {
+    const start = this.current.start;
+    this.openBlock('repeat', this.current);
+    this.next();
+
+    const body = this.parseBlock();
+    this.closeBlock();
+    const condition = this.parseExpression();
+
+    return { kind: 'RepeatStatement', body, condition, loc: this.locFrom(start) };
+  }
+
+  private parseFunctionStatement(attributes: string[]): Statement {
+    const start = this.current.start;
+    const functionToken = this.next();
+
+    const path: Identifier[] = [this.expectName("après 'function'")];
+    let isMethod = false;
+    while (this.is('.') || this.is(':')) {
+      const separator = this.next();
+      path.push(this.expectName(`après '${separator.value}'`));
+      if (separator.value === ':') {
+        isMethod = true;
+        break;
+      }
+    }
+
+    const func = this.parseFunctionBody(functionToken, attributes);
+    return { kind: 'FunctionStatement', path, isMethod, func, loc: this.locFrom(start) };
+  }
+
+  private parseLocal(attributes: string[]): Statement {
+    const start = this.current.start;
+    this.next();
+
+    if (this.is('function')) {
+      const functionToken = this.next();
+      const name = this.expectName("après 'local function'");
+      const func = this.parseFunctionBody(functionToken, attributes);
+      return { kind: 'LocalFunctionStatement', name, func, loc: this.locFrom(start) };
+    }
+
+    const variables = [this.parseBinding()];
+    while (this.accept(',')) {
+      variables.push(this.parseBinding());
+    }
+
+    const values = this.accept('=') ? this.parseExpressionList() : [];
+    return { kind: 'LocalStatement', variables, values, loc: this.locFrom(start) };
+  }
+
+  private parseReturn(): Statement {
+    const start = this.current.start;
+    this.next();
+
+    const values = this.isBlockEnd() || this.is(';') ? [] : this.parseExpressionList();
+    return { kind: 'ReturnStatement', values, loc: this.locFrom(start) };
+  }
+
+  private parseTypeAlias(exported: boolean): Statement {
+    const start = exported ? this.previous.start : this.current.start;
+    this.next(); // 'type'
+
+    const name = this.expectName("après 'type'");
+    const generics = this.is('<') ? this.parseGenericParameters(true) : [];
+    this.expect('=', `dans la définition du type '${name.name}'`);
+    const value = this.parseType();
+
+    return { kind: 'TypeAliasStatement', name, exported, generics, value, loc: this.locFrom(start) };
+  }
+
+  private parseExpressionStatement(): Statement {
+    const start = this.current.start;
+    const expression = this.parseSuffixedExpression();
+
+    if (this.is('=') || this.is(',')) {
+      const targets = [expression];
+      while (this.accept(',')) {
+        targets.push(this.parseSuffixedExpression());
+      }
+      for (const target of targets) {
+        this.checkAssignable(target);
+      }
+      this.expect('=', "dans l'affectation");
+      const values = this.parseExpressionList();
+      return { kind: 'AssignmentStatement', targets, values, loc: this.locFrom(start) };
+    }
+
+    if (this.current.type === 'symbol' && COMPOUND_OPERATORS.has(this.current.value)) {
+      this.checkAssignable(expression);
+      const operator = this.next().value.slice(0, -1);
+      const value = this.parseExpression();
+      return { kind: 'CompoundAssignmentStatement', operator, target: expression, value, loc: this.locFrom(start) };
+    }
+
+    if (expression.kind === 'CallExpression' || expression.kind === 'MethodCallExpression') {
+      return { kind: 'CallStatement', expression, loc: this.locFrom(start) };
+    }
+
+    this.fail(
+      `Instruction incomplète ligne ${start.line}: appel de fonction ou affectation attendu, trouvé ${this.describe(this.current)}`
+    );
+  }
+
+  private checkAssignable(expression: Expression): void {
+    if (!['Identifier', 'MemberExpression', 'IndexExpression'].includes(expression.kind)) {
+      throw new ParseError(
+        `Impossible d'affecter une valeur à cette expression (ligne ${expression.loc.start.line})`,
+        'unexpected-token',
+        expression.loc.start.line,
+        expression.loc.start.column
+      );
+    }
+  }
+
+  private parseBinding(): Binding {
+    const name = this.expectName('pour la variable');
+    const annotation = this.accept(':') ? this.parseType() : undefined;
+    return { name, annotation };
+  }
+
+  // ===== Fonctions =====
+
+  private parseFunctionBody(functionToken: Token, attributes: string[]): FunctionExpression {
+    this.openBlock('function', functionToken);
+
+    const generics = this.is('<') ? this.parseGenericParameters(false) : [];
+    const open = this.expect('(', 'pour les paramètres de la fonction');
+
+    const parameters: Binding[] = [];
+    let isVararg = false;
+    let varargAnnotation: TypeNode | undefined;
+
+    if (!this.is(')')) {
+      do {
+        if (this.accept('...')) {
+          isVararg = true;
+          varargAnnotation = this.accept(':') ? this.parseTypeOrPack() : undefined;
+          break;
+        }
+        parameters.push(this.parseBinding());
+      } while (this.accept(','));
+    }
+    this.expectClosing(open);
+
+    const returnAnnotation = this.accept(':') ? this.parseReturnType() : undefined;
+    const body = this.parseBlock();
+    this.closeBlock();
+
+    return {
+      kind: 'FunctionExpression',
+      generics,
+      parameters,
+      isVararg,
+      varargAnnotation,
+      returnAnnotation,
+      body,
+      attributes,
+      loc: this.locFrom(functionToken.start)
+    };
+  }
+
+  private parseGenericParameters(allowDefaults: boolean): GenericParameter[] {
+    const open = this.expect('<');
+    const generics: GenericParameter[] = [];
+
+    do {
+      const name = this.expectName('pour le paramètre générique').name;
+      const pack = this.accept('...');
+      let defaultType: TypeNode | undefined;
+      if (allowDefaults && this.accept('=')) {
+        defaultType = pack ? this.parseTypeOrPack() : this.parseType();
+      }
+      generics.push({ name, pack, default: defaultType });
+    } while (this.accept(','));
+
+    if (!this.accept('>')) {
+      this.fail(`'>' attendu pour fermer les génériques ouverts ligne ${open.start.line}, trouvé ${this.describe(this.current)}`);
+    }
+    return generics;
+  }
+
+  // ===== Expressions =====
+
+  private parseExpressionList(): Expression[] {
+    const expressions = [this.parseExpression()];
+    while (this.accept(',')) {
+      expressions.push(this.parseExpression());
+    }
+    return expressions;
+  }
+
+  parseExpression(limit: number = 0): Expression {
+    const start = this.current.start;
+    let left: Expression;
+
+    if (this.is('not') || this.is('-') || this.is('#')) {
+      const operator = this.next().value;
+      const argument = this.parseExpression(UNARY_PRIORITY);
+      left = { kind: 'UnaryExpression', operator, argument, loc: this.locFrom(start) };
+    } else {
+      left = this.parseSimpleExpression();
+    }
+
+    while (true) {
+      const token = this.current;
+      const priority = (token.type === 'symbol' || token.type === 'keyword') ? BINARY_PRIORITY[token.value] : undefined;
+      if (!priority || priority[0] <= limit) break;
+
+      this.next();
+      const right = this.parseExpression(priority[1]);
+      left = { kind: 'BinaryExpression', operator: token.value, left, right, loc: this.locFrom(start) };
+    }
+
+    return left;
+  }
+
+  private parseSimpleExpression(): Expression {
+    const token = this.current;
+    const start = token.start;
+    let expression: Expression;
+
+    if (token.type === 'number') {
+      this.next();
+      expression = { kind: 'NumberLiteral', raw: token.value, loc: this.locFrom(start) };
+    } else if (token.type === 'string') {
+      this.next();
+      expression = { kind: 'StringLiteral', value: token.value, loc: this.locFrom(start) };
+    } else if (token.type === 'interpSimple' || token.type === 'interpBegin') {
+      expression = this.parseInterpolatedString();
+    } else if (this.is('nil')) {
+      this.next();
+      expression = { kind: 'NilLiteral', loc: this.locFrom(start) };
+    } else if (this.is('true') || this.is('false')) {
+      this.next();
+      expression = { kind: 'BooleanLiteral', value: token.value === 'true', loc: this.locFrom(start) };
+    } else if (this.is('...')) {
+      this.next();
+      expression = { kind: 'VarargLiteral', loc: this.locFrom(start) };
+    } else if (this.is('{')) {
+      expression = this.parseTableConstructor();
+    } else if (this.is('function')) {
+      this.next();
+      expression = this.parseFunctionBody(token, []);
+    } else if (this.is('@')) {
+      const attributes = this.parseAttributes();
+      const functionToken = this.expect('function', 'après un attribut');
+      expression = this.parseFunctionBody(functionToken, attributes);
+    } else if (this.is('if')) {
+      expression = this.parseIfExpression();
+    } else {
+      expression = this.parseSuffixedExpression();
+    }
+
+    while (this.accept('::')) {
+      const annotation = this.parseType();
+      expression = { kind: 'TypeAssertion', expression, annotation, loc: this.locFrom(start) };
+    }
+
+    return expression;
+  }
+
+  private parseInterpolatedString(): Expression {
+    const start = this.current.start;
+    const first = this.next();
+    const strings = [first.value];
+    const expressions: Expression[] = [];
+
+    if (first.type === 'interpBegin') {
+      while (true) {
+        expressions.push(this.parseExpression());
+        const segment = this.current;
+        if (segment.type === 'interpMid') {
+          this.next();
+          strings.push(segment.value);
+        } else if (segment.type === 'interpEnd') {
+          this.next();
+          strings.push(segment.value);
+          break;
+        } else {
+          this.fail(`'}' attendu pour fermer l'expression de la string interpolée ligne ${start.line}, trouvé ${this.describe(segment)}`);
+        }
+      }
+    }
+
+    return { kind: 'InterpolatedString', strings, expressions, loc: this.locFrom(start) };
+  }
+
+  private parseIfExpression(): Expression {
+    const start = this.current.start;
+    this.next();
+
+    const clauses: { condition: Expression; value: Expression }[] = [];
+    do {
+      const condition = this.parseExpression();
+      this.expect('then', "dans l'expression 'if'");
+      const value = this.parseExpression();
+      clauses.push({ condition, value });
+    } while (this.accept('elseif'));
+
+    this.expect('else', "(une expression 'if' doit avoir une branche 'else')");
+    const elseValue = this.parseExpression();
+
+    return { kind: 'IfExpression', clauses, elseValue, loc: this.locFrom(start) };
+  }
+
+  private parsePrimaryExpression(): Expression {
+    const token = this.current;
+
+    if (token.type === 'name') {
+      this.next();
+      return { kind: 'Identifier', name: token.value, loc: { start: token.start, end: token.end } };
+    }
+
+    if (this.is('(')) {
+      const open = this.next();
+      const expression = this.parseExpression();
+      this.expectClosing(open);
+      return { kind: 'ParenthesizedExpression', expression, loc: this.locFrom(token.start) };
+    }
+
+    if (token.type === 'eof') {
+      this.fail(`Expression attendue, trouvé <eof>`);
+    }
+    if (token.type === 'symbol' && [')', '}', ']'].includes(token.value)) {
+      this.fail(`'${token.value}' inattendu ligne ${token.start.line}, colonne ${token.start.column}`, token, 'mismatched-bracket');
+    }
+    this.fail(`Expression attendue, trouvé ${this.describe(token)}`);
+  }
+
+  private parseSuffixedExpression(): Expression {
+    const start = this.current.start;
+    let expression = this.parsePrimaryExpression();
+
+    while (true) {
+      if (this.accept('.')) {
+        const property = this.expectName("après '.'");
+        expression = { kind: 'MemberExpression', object: expression, property, loc: this.locFrom(start) };
+      } else if (this.is('[')) {
+        const open = this.next();
+        const index = this.parseExpression();
+        this.expectClosing(open);
+        expression = { kind: 'IndexExpression', object: expression, index, loc: this.locFrom(start) };
+      } else if (this.accept(':')) {
+        const method = this.expectName("après ':' pour l'appel de méthode");
+        const args = this.parseCallArguments();
+        const call: MethodCallExpression = {
+          kind: 'MethodCallExpression', object: expression, method, arguments: args, loc: this.locFrom(start)
+        };
+        expression = call;
+      } else if (this.is('(') || this.is('{') || this.current.type === 'string') {
+        const args = this.parseCallArguments();
+        const call: CallExpression = { kind: 'CallExpression', callee: expression, arguments: args, loc: this.locFrom(start) };
+        expression = call;
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parseCallArguments(): Expression[] {
+    const token = this.current;
+
+    if (token.type === 'string') {
+      this.next();
+      return [{ kind: 'StringLiteral', value: token.value, loc: { start: token.start, end: token.end } }];
+    }
+    if (this.is('{')) {
+      return [this.parseTableConstructor()];
+    }
+
+    const open = this.expect('(', "pour les arguments de l'appel");
+    const args = this.is(')') ? [] : this.parseExpressionList();
+    this.expectClosing(open);
+    return args;
+  }
+
+  private parseTableConstructor(): Expression {
+    const start = this.current.start;
+    const open = this.expect('{');
+    const fields: TableField[] = [];
+
+    while (!this.is('}')) {
+      const fieldStart = this.current.start;
+
+      if (this.is('[')) {
+        const keyOpen = this.next();
+        const key = this.parseExpression();
+        this.expectClosing(keyOpen);
+        this.expect('=', 'après la clé calculée');
+        const value = this.parseExpression();
+        fields.push({ type: 'computed', key, value, loc: this.locFrom(fieldStart) });
+      } else if (this.current.type === 'name' && this.is('=', this.lookahead())) {
+        const key = this.expectName('pour le champ');
+        this.next();
+        const value = this.parseExpression();
+        fields.push({ type: 'named', key, value, loc: this.locFrom(fieldStart) });
+      } else {
+        const value = this.parseExpression();
+        fields.push({ type: 'positional', value, loc: this.locFrom(fieldStart) });
+      }
+
+      if (!this.accept(',') && !this.accept(';')) break;
+    }
+
+    this.expectClosing(open);
+    return { kind: 'TableConstructor', fields, loc: this.locFrom(start) };
+  }
+
+  // ===== Types =====
+
+  private parseReturnType(): TypeNode {
+    return this.parseTypeOrPack();
+  }
+
+  /**
+   * Type ou pack de types (positions de retour, varargs et paramètres génériques)
+   */
+  private parseTypeOrPack(): TypeNode {
+    const start = this.current.start;
+    if (this.accept('...')) {
+      const type = this.parseType();
+      return { kind: 'TypeVariadic', type, loc: this.locFrom(start) };
+    }
+    if (this.current.type === 'name' && this.is('...', this.lookahead())) {
+      const name = this.next().value;
+      this.next();
+      return { kind: 'TypeGenericPack', name, loc: this.locFrom(start) };
+    }
+    return this.parseType();
+  }
+
+  parseType(): TypeNode {
+    const start = this.current.start;
+    // Un '|' ou '&' initial est autorisé (types multi-lignes)
+    const leading = this.is('|') || this.is('&') ? this.next().value : undefined;
+
+    const first = this.parseSimpleTypeWithSuffix();
+    const separator = leading ?? (this.is('|') ? '|' : this.is('&') ? '&' : undefined);
+    if (!separator || (!leading && !this.is(separator))) {
+      return first;
+    }
+
+    const types = [first];
+    while (this.accept(separator)) {
+      types.push(this.parseSimpleTypeWithSuffix());
+    }
+
+    return separator === '|'
+      ? { kind: 'TypeUnion', types, loc: this.locFrom(start) }
+      : { kind: 'TypeIntersection', types, loc: this.locFrom(start) };
+  }
+
+  private parseSimpleTypeWithSuffix(): TypeNode {
+    const start = this.current.start;
+    let type = this.parseSimpleType();
+    while (this.accept('?')) {
+      type = { kind: 'TypeOptional', type, loc: this.locFrom(start) };
+    }
+    return type;
+  }
+
+  private parseSimpleType(): TypeNode {
+    const token = this.current;
+    const start = token.start;
+
+    if (this.is('nil')) {
+      this.next();
+      return { kind: 'TypeReference', name: 'nil', parameters: [], loc: this.locFrom(start) };
+    }
+    if (this.is('true') || this.is('false')) {
+      this.next();
+      return { kind: 'TypeSingleton', value: token.value === 'true', loc: this.locFrom(start) };
+    }
+    if (token.type === 'string' || token.type === 'interpSimple') {
+      this.next();
+      return { kind: 'TypeSingleton', value: token.value, loc: this.locFrom(start) };
+    }
+
+    if (token.type === 'name') {
+      if (token.value === 'typeof' && this.is('(', this.lookahead())) {
+        this.next();
+        const open = this.next();
+        const expression = this.parseExpression();
+        this.expectClosing(open);
+        return { kind: 'TypeTypeof', expression, loc: this.locFrom(start) };
+      }
+
+      this.next();
+      let prefix: string | undefined;
+      let name = token.value;
+      if (this.accept('.')) {
+        prefix = name;
+        name = this.expectName('après le préfixe de module du type').name;
+      }
+
+      const parameters: TypeNode[] = [];
+      if (this.is('<')) {
+        const open = this.next();
+        if (!this.is('>')) {
+          do {
+            parameters.push(this.parseTypeOrPack());
+          } while (this.accept(','));
+        }
+        if (!this.accept('>')) {
+          this.fail(`'>' attendu pour fermer '<' ligne ${open.start.line}, trouvé ${this.describe(this.current)}`);
+        }
+      }
+      return { kind: 'TypeReference', prefix, name, parameters, loc: this.locFrom(start) };
+    }
+
+    if (this.is('{')) {
+      return this.parseTableType();
+    }
+
+    if (this.is('<') || this.is('(')) {
+      return this.parseFunctionOrParenthesizedType();
+    }
+
+    if (this.is('...')) {
+      return this.parseTypeOrPack();
+    }
+
+    this.fail(`Type attendu, trouvé ${this.describe(token)}`);
+  }
+
+  private parseFunctionOrParenthesizedType(): TypeNode {
+    const start = this.current.start;
+    const generics = this.is('<') ? this.parseGenericParameters(false) : [];
+    const open = this.expect('(', 'pour le type de fonction');
+
+    const parameters: TypeNode[] = [];
+    if (!this.is(')')) {
+      do {
+        // Paramètres nommés: (player: Player, amount: number) -> ()
+        if (this.current.type === 'name' && this.is(':', this.lookahead())) {
+          this.next();
+          this.next();
+        }
+        parameters.push(this.parseTypeOrPack());
+      } while (this.accept(','));
+    }
+    this.expectClosing(open);
+
+    if (this.accept('->')) {
+      const returns = this.parseTypeOrPack();
+      return { kind: 'TypeFunction', generics, parameters, returns, loc: this.locFrom(start) };
+    }
+
+    if (generics.length > 0) {
+      this.fail(`'->' attendu après les paramètres du type de fonction générique, trouvé ${this.describe(this.current)}`);
+    }
+
+    if (parameters.length === 1 && parameters[0].kind !== 'TypeVariadic' && parameters[0].kind !== 'TypeGenericPack') {
+      return parameters[0];
+    }
+    return { kind: 'TypePack', types: parameters, loc: this.locFrom(start) };
+  }
+
+  private parseTableType(): TypeNode {
+    const start = this.current.start;
+    const open = this.expect('{');
+    const properties: TypeTableProperty[] = [];
+    let indexer: { key: TypeNode; value: TypeNode } | undefined;
+
+    // Forme tableau: { Type }
+    const isProperty = () =>
+      this.is('[') ||
+      (this.current.type === 'name' && this.is(':', this.lookahead())) ||
+      ((this.isName('read') || this.isName('write')) && this.lookahead().type === 'name');
+
+    if (!this.is('}') && !isProperty()) {
+      const element = this.parseType();
+      this.expectClosing(open);
+      const key: TypeNode = { kind: 'TypeReference', name: 'number', parameters: [], loc: element.loc };
+      return { kind: 'TypeTable', properties, indexer: { key, value: element }, loc: this.locFrom(start) };
+    }
+
+    while (!this.is('}')) {
+      let access: 'read' | 'write' | undefined;
+      if ((this.isName('read') || this.isName('write')) && this.lookahead().type === 'name') {
+        access = this.next().value as 'read' | 'write';
+      }
+
+      if (this.is('[')) {
+        const keyOpen = this.next();
+        const key = this.parseType();
+        this.expectClosing(keyOpen);
+        this.expect(':', "après la clé d'indexeur");
+        indexer = { key, value: this.parseType() };
+      } else {
+        const key = this.expectName('pour la propriété du type table').name;
+        this.expect(':', `après la propriété '${key}'`);
+        properties.push({ key, access, value: this.parseType() });
+      }
+
+      if (!this.accept(',') && !this.accept(';')) break;
+    }
+
+    this.expectClosing(open);
+    return { kind: 'TypeTable', properties, indexer, loc: this.locFrom(start) };
+  }
+}
+
+/**
+ * Parse une source Luau complète
+ */
+export function parseLuau(source: string): ParseResult {
+  return new LuauParser(source).parse();
+}
@@ -0,0 +1,62 @@
+/**
+ * Point d'entrée unique pour le verdict syntaxique d'un fichier Luau
+ * Tous les validateurs (enforcer, hooks, validate_game, compile_check) passent par ici
+ */
+
+import { parseLuau, ParseErrorKind } from './parser.js';
+import { Chunk } from './ast.js';
+import { Token, Comment } from './lexer.js';
+
+export interface LuauSyntaxIssue {
+  line: number;
+  column: number;
+  message: string;
+  kind: ParseErrorKind;
+}
+
+export interface LuauSyntaxAnalysis {
+  valid: boolean;
+  errors: LuauSyntaxIssue[];
+  ast?: Chunk;
+  tokens: Token[];
+  comments: Comment[];
+  blocks: {
+    expectedEnds: number;
+    foundEnds: number;
+    unclosedBlocks: { type: string; line: number }[];
+  };
+}
+
+// Le même contenu est souvent validé plusieurs fois de suite (hooks puis auto-validation)
+const MAX_CACHE_ENTRIES = 50;
+const analysisCache = new Map<string, LuauSyntaxAnalysis>();
+
+export function analyzeLuauSyntax(content: string): LuauSyntaxAnalysis {
+  const cached = analysisCache.get(content);
+  if (cached) return cached;
+
+  const result = parseLuau(content);
+  const analysis: LuauSyntaxAnalysis = {
+    valid: result.errors.length === 0,
+    errors: result.errors.map(e => ({ line: e.line, column: e.column, message: e.message, kind: e.kind })),
+    ast: result.ast,
+    tokens: result.tokens,
+    comments: result.comments,
+    blocks: result.blocks
+  };
+
+  if (analysisCache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = analysisCache.keys().next().value;
+    if (oldest !== undefined) analysisCache.delete(oldest);
+  }
+  analysisCache.set(content, analysis);
+
+  return analysis;
+}
+
+/**
+ * Formate une erreur de syntaxe de façon homogène entre les outils
+ */
+export function formatSyntaxIssue(issue: LuauSyntaxIssue): string {
+  return `Ligne ${issue.line}, colonne ${issue.column}: ${issue.message}`;
+}
@@ -0,0 +1,42 @@
+/**
+ * Parcours générique de l'AST Luau
+ */
+
+import { Node } from './ast.js';
+
+/**
+ * Visiteur appelé pour chaque noeud. Retourner false évite de descendre dans ses enfants.
+ * `parents` contient la chaîne des ancêtres, du plus proche au plus lointain.
+ */
+export type AstVisitor = (node: Node, parents: Node[]) => void | boolean;
+
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && 'kind' in value && 'loc' in value;
+}
+
+export function walkAst(root: Node, visitor: AstVisitor): void {
+  const visit = (node: Node, parents: Node[]): void => {
+    if (visitor(node, parents) === false) return;
+    const childParents = [node, ...parents];
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'loc' || key === 'comments') continue;
+      visitValue(value, childParents);
+    }
+  };
+
+  // Les clauses, bindings et champs de table ne sont pas des noeuds mais contiennent des noeuds
+  const visitValue = (value: unknown, parents: Node[]): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) visitValue(item, parents);
+    } else if (isNode(value)) {
+      visit(value, parents);
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, nested] of Object.entries(value)) {
+        if (key === 'loc') continue;
+        visitValue(nested, parents);
+      }
+    }
+  };
+
+  visit(root, []);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { resolveAnchor, resolvePatchAnchor } from '../anchors.js';
+import { PatchOperation } from '../../interfaces/managers.js';
+
+const SHOP = [
+  'local Shop = {}',                      // 1
+  '',                                     // 2
+  'local function log(message)',          // 3
+  '  print(message)',                     // 4
+  'end',                                  // 5
+  '',                                     // 6
+  'function Shop.buy(player, item)',      // 7
+  '  if item.price > player.coins then',  // 8
+  '    return false',                     // 9
+  '  end',                                // 10
+  '  for _, tag in item.tags do',         // 11
+  '    log(tag)',                         // 12
+  '  end',                                // 13
+  '  if item.limited then',               // 14
+  '    log("limited")',                   // 15
+  '  end',                                // 16
+  '  return true',                        // 17
+  'end',                                  // 18
+  '',                                     // 19
+  'function Shop:sell(item)',             // 20
+  '  log(item.name)',                     // 21
+  'end',                                  // 22
+  '',                                     // 23
+  'return Shop'                           // 24
+].join('\n');
+
+function patch(operation: PatchOperation['operation'], anchor: PatchOperation['anchor']): PatchOperation {
+  return { scriptPath: 'src/shared/Shop.luau', operation, lineStart: undefined as unknown as number, anchor };
+}
+
+describe('Patch anchors', () => {
+  it('should target functions by full or short name', () => {
+    expect(resolveAnchor(SHOP, { function: 'Shop.buy' })).toEqual({ start: 7, end: 18 });
+    expect(resolveAnchor(SHOP, { function: 'Shop.sell' })).toEqual({ start: 20, end: 22 });
+    expect(resolveAnchor(SHOP, { function: 'log' })).toEqual({ start: 3, end: 5 });
+  });
+
+  it('should target unique text snippets, including multi-line ones', () => {
+    expect(resolveAnchor(SHOP, { text: 'return false' })).toEqual({ start: 9, end: 9 });
+    expect(resolveAnchor(SHOP, { text: 'if item.limited then\n    log("limited")' })).toEqual({ start: 14, end: 15 });
+  });
+
+  it('should follow AST node paths', () => {
+    expect(resolveAnchor(SHOP, { node: 'Shop.buy/if[2]' })).toEqual({ start: 14, end: 16 });
+    expect(resolveAnchor(SHOP, { node: 'Shop.buy/for' })).toEqual({ start: 11, end: 13 });
+    expect(resolveAnchor(SHOP, { node: 'Shop.buy/if[1]/return' })).toEqual({ start: 9, end: 9 });
+  });
+
+  it('should reject missing and ambiguous anchors', () => {
+    expect(() => resolveAnchor(SHOP, { function: 'Shop.refund' })).toThrow('Ancre introuvable: fonction "Shop.refund"');
+    expect(() => resolveAnchor(SHOP, { text: 'log(' })).toThrow('Ancre ambiguë: texte "log(" trouvée 4 fois (lignes 3, 12, 15, 21)');
+    expect(() => resolveAnchor(SHOP, { node: 'Shop.buy/if' })).toThrow('trouvée 2 fois');
+    expect(() => resolveAnchor(SHOP, { function: 'log', text: 'log' })).toThrow('un seul critère');
+  });
+
+  it('should turn anchors into line numbers for each operation', () => {
+    expect(resolvePatchAnchor(SHOP, patch('replace', { function: 'Shop:sell' }))).toMatchObject({ lineStart: 20, lineEnd: 22 });
+    expect(resolvePatchAnchor(SHOP, patch('insert', { before: 'return Shop' }))).toMatchObject({ lineStart: 24 });
+    expect(resolvePatchAnchor(SHOP, patch('insert', { after: 'local Shop = {}' }))).toMatchObject({ lineStart: 2 });
+    expect(resolvePatchAnchor(SHOP, patch('insert', { function: 'log' }))).toMatchObject({ lineStart: 6 });
+    expect(() => resolvePatchAnchor(SHOP, patch('delete', { after: 'local Shop = {}' }))).toThrow('insert');
+  });
+
+  it('should require a valid script for AST anchors only', () => {
+    const broken = 'local function f()\n  print("x")';
+    expect(() => resolveAnchor(broken, { function: 'f' })).toThrow('erreurs de syntaxe');
+    expect(resolveAnchor(broken, { text: 'print("x")' })).toEqual({ start: 2, end: 2 });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { threeWayMerge } from '../three-way-merge.js';
+
+const BASE = [
+  'local Config = {}',
+  '',
+  'Config.SPAWN_INTERVAL = 3',
+  'Config.MAX_GEMS = 10',
+  '',
+  'function Config.describe()',
+  '  return "gems"',
+  'end',
+  '',
+  'return Config'
+].join('\n');
+
+function edit(content: string, from: string, to: string): string {
+  expect(content).toContain(from);
+  return content.replace(from, to);
+}
+
+describe('Three-way merge', () => {
+  it('should combine changes made to different regions', () => {
+    const ours = edit(BASE, 'Config.SPAWN_INTERVAL = 3', 'Config.SPAWN_INTERVAL = 1');
+    const theirs = edit(BASE, '  return "gems"', '  return "gems: " .. Config.MAX_GEMS');
+
+    const result = threeWayMerge(BASE, ours, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(edit(ours, '  return "gems"', '  return "gems: " .. Config.MAX_GEMS'));
+  });
+
+  it('should keep identical changes once', () => {
+    const changed = edit(BASE, 'Config.MAX_GEMS = 10', 'Config.MAX_GEMS = 20');
+
+    const result = threeWayMerge(BASE, changed, changed);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(changed);
+  });
+
+  it('should merge insertions and deletions on both sides', () => {
+    const ours = edit(BASE, 'Config.MAX_GEMS = 10\n', 'Config.MAX_GEMS = 10\nConfig.MIN_GEMS = 2\n');
+    const theirs = edit(BASE, 'local Config = {}\n\n', 'local Config = {}\n');
+
+    const result = threeWayMerge(BASE, ours, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content.split('\n').slice(0, 4)).toEqual([
+      'local Config = {}',
+      'Config.SPAWN_INTERVAL = 3',
+      'Config.MAX_GEMS = 10',
+      'Config.MIN_GEMS = 2'
+    ]);
+  });
+
+  it('should mark overlapping changes as conflicts', () => {
+    const ours = edit(BASE, 'Config.SPAWN_INTERVAL = 3', 'Config.SPAWN_INTERVAL = 1');
+    const theirs = edit(BASE, 'Config.SPAWN_INTERVAL = 3', 'Config.SPAWN_INTERVAL = 5');
+
+    const result = threeWayMerge(BASE, ours, theirs);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.conflictLines).toEqual([3]);
+    expect(result.content.split('\n').slice(2, 7)).toEqual([
+      '<<<<<<< assistant',
+      'Config.SPAWN_INTERVAL = 1',
+      '=======',
+      'Config.SPAWN_INTERVAL = 5',
+      '>>>>>>> disque'
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyUnifiedDiff, createUnifiedDiff, parseUnifiedDiff, describeHunkFailure } from '../unified-diff.js';
+
+const SCRIPT = [
+  'local Players = game:GetService("Players")',
+  '',
+  '-- Spawn settings',
+  'local SPAWN_INTERVAL = 3',
+  'local MAX_GEMS = 10',
+  '',
+  'local function spawnGem()',
+  '  print("spawn")',
+  'end',
+  '',
+  'while true do',
+  '  task.wait(SPAWN_INTERVAL)',
+  '  spawnGem()',
+  'end'
+].join('\n');
+
+describe('Unified diffs', () => {
+  it('should parse git headers and hunks, keeping removed Lua comments as content', () => {
+    const parsed = parseUnifiedDiff([
+      'diff --git a/src/server/main.server.luau b/src/server/main.server.luau',
+      'index 1234567..89abcde 100644',
+      '--- a/src/server/main.server.luau',
+      '+++ b/src/server/main.server.luau',
+      '@@ -2,3 +2,2 @@',
+      ' ',
+      '--- Spawn settings',
+      ' local SPAWN_INTERVAL = 3',
+      ''
+    ].join('\n'));
+
+    expect(parsed.newFile).toBe('src/server/main.server.luau');
+    expect(parsed.hunks).toHaveLength(1);
+    expect(parsed.hunks[0].lines).toEqual([
+      { type: ' ', text: '' },
+      { type: '-', text: '-- Spawn settings' },
+      { type: ' ', text: 'local SPAWN_INTERVAL = 3' }
+    ]);
+  });
+
+  it('should apply hunks at their position or with an offset', () => {
+    const result = applyUnifiedDiff(SCRIPT, [
+      // Line numbers from a version of the file with one line less
+      '@@ -2,3 +2,3 @@',
+      ' -- Spawn settings',
+      '-local SPAWN_INTERVAL = 3',
+      '+local SPAWN_INTERVAL = 1',
+      ' local MAX_GEMS = 10',
+      '@@ -11,2 +11,3 @@',
+      '   task.wait(SPAWN_INTERVAL)',
+      '+  print("tick")',
+      '   spawnGem()'
+    ].join('\n'));
+
+    expect(result.success).toBe(true);
+    expect(result.hunks.map(hunk => [hunk.line, hunk.offset, hunk.fuzz])).toEqual([[3, 1, 0], [12, 0, 0]]);
+    expect(result.content).toContain('local SPAWN_INTERVAL = 1\nlocal MAX_GEMS = 10');
+    expect(result.content).toContain('  task.wait(SPAWN_INTERVAL)\n  print("tick")\n  spawnGem()');
+  });
+
+  it('should ignore outer context lines with fuzz', () => {
+    const result = applyUnifiedDiff(SCRIPT, [
+      '@@ -7,3 +7,3 @@',
+      ' local function spawnGem(position)',
+      '-  print("spawn")',
+      '+  print("spawn", position)',
+      ' end'
+    ].join('\n'));
+
+    expect(result.success).toBe(true);
+    expect(result.hunks[0].fuzz).toBe(1);
+    // Ignored context keeps the file's text
+    expect(result.content).toContain('local function spawnGem()\n  print("spawn", position)\nend');
+  });
+
+  it('should apply hunks without line numbers when their context is unique', () => {
+    const result = applyUnifiedDiff(SCRIPT, '@@\n local MAX_GEMS = 10\n+local MIN_GEMS = 2\n');
+
+    expect(result.success).toBe(true);
+    expect(result.content).toContain('local MAX_GEMS = 10\nlocal MIN_GEMS = 2\n');
+  });
+
+  it('should report hunks that do not apply with the closest region', () => {
+    const result = applyUnifiedDiff(SCRIPT, [
+      '@@ -11,4 +11,4 @@',
+      ' while running do',
+      '-  task.wait(INTERVAL)',
+      '+  task.wait(INTERVAL * 2)',
+      '   spawnGem()',
+      ' end'
+    ].join('\n'), 0);
+
+    expect(result.success).toBe(false);
+    expect(result.hunks[0].closest).toMatchObject({ line: 11, similarity: 0.5 });
+    expect(describeHunkFailure(result.hunks[0])).toBe(
+      'Hunk #1 (@@ -11,4 +11,4 @@): Contexte introuvable. Région la plus proche: ligne 11 (50% de lignes identiques)'
+    );
+  });
+
+  it('should reject diffs touching several files', () => {
+    expect(() => parseUnifiedDiff('--- a/one.luau\n+++ b/one.luau\n@@ -1 +1 @@\n-a\n+b\n--- a/two.luau\n+++ b/two.luau\n'))
+      .toThrow('plusieurs fichiers');
+  });
+
+  it('should create diffs that apply back onto the old content', () => {
+    const edited = SCRIPT
+      .replace('local SPAWN_INTERVAL = 3', 'local SPAWN_INTERVAL = 5')
+      .replace('  spawnGem()\nend', '  spawnGem()\n  print("tick")\nend');
+
+    const diff = createUnifiedDiff(SCRIPT, edited, 1);
+    expect(diff).toBe([
+      '@@ -3,3 +3,3 @@',
+      ' -- Spawn settings',
+      '-local SPAWN_INTERVAL = 3',
+      '+local SPAWN_INTERVAL = 5',
+      ' local MAX_GEMS = 10',
+      '@@ -13,2 +13,3 @@',
+      '   spawnGem()',
+      '+  print("tick")',
+      ' end'
+    ].join('\n'));
+    expect(applyUnifiedDiff(SCRIPT, diff).content).toBe(edited);
+    expect(applyUnifiedDiff('', createUnifiedDiff('', 'print("new")')).content).toBe('print("new")');
+    expect(createUnifiedDiff(SCRIPT, SCRIPT)).toBe('');
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Ancres de patch: cibler du code par son contenu plutôt que par des numéros de ligne
+ * qui deviennent faux dès qu'un patch précédent décale le fichier
+ */
+
+import { analyzeLuauSyntax } from '../parser/syntax-analysis.js';
+import { walkAst } from '../parser/walker.js';
+import { Chunk, Expression, FunctionExpression, Node, SourceLocation, Statement } from '../parser/ast.js';
+import { PatchOperation } from '../interfaces/managers.js';
+
+/**
+ * Un seul critère par ancre:
+ * - function: déclaration de fonction ("Shop.buy", "Shop:buy", "helper")
+ * - text: extrait de code unique (peut couvrir plusieurs lignes)
+ * - before / after: position juste avant / après un extrait unique (insert uniquement)
+ * - node: chemin dans l'AST, ex. "Shop.buy/if[2]/for"
+ */
+export interface PatchAnchor {
+  function?: string;
+  text?: string;
+  before?: string;
+  after?: string;
+  node?: string;
+}
+
+// Lignes 1-based, fin incluse
+export interface AnchorRange {
+  start: number;
+  end: number;
+}
+
+type AnchorKind = keyof PatchAnchor;
+
+const ANCHOR_KINDS: AnchorKind[] = ['function', 'text', 'before', 'after', 'node'];
+
+// Segments de chemin désignant un type d'instruction plutôt qu'un nom de fonction
+const NODE_SEGMENT_KINDS: Record<string, Statement['kind'][]> = {
+  if: ['IfStatement'],
+  for: ['NumericForStatement', 'GenericForStatement'],
+  while: ['WhileStatement'],
+  repeat: ['RepeatStatement'],
+  do: ['DoStatement'],
+  return: ['ReturnStatement'],
+  local: ['LocalStatement']
+};
+
+interface FunctionDeclaration {
+  name: string;
+  statement: Statement;
+  func: FunctionExpression;
+}
+
+/**
+ * Calcule lineStart/lineEnd d'un patch à partir de son ancre, sur le contenu actuel du script.
+ * Sans ancre, le patch est renvoyé tel quel (numéros de ligne explicites).
+ */
+export function resolvePatchAnchor<T extends PatchOperation>(content: string, patch: T): T {
+  if (!patch.anchor) {
+    if (patch.lineStart === undefined) {
+      throw new Error('lineStart ou anchor est requis pour un patch');
+    }
+    return patch;
+  }
+
+  const kind = getAnchorKind(patch.anchor);
+  const range = resolveAnchor(content, patch.anchor);
+
+  if (patch.operation === 'insert') {
+    // Insertion avant l'extrait pour "before", après la zone ciblée sinon
+    const lineStart = kind === 'before' ? range.start : range.end + 1;
+    return { ...patch, lineStart, lineEnd: undefined };
+  }
+
+  if (kind === 'before' || kind === 'after') {
+    throw new Error(`L'ancre "${kind}" désigne une position: elle ne s'utilise qu'avec l'opération insert`);
+  }
+  return { ...patch, lineStart: range.start, lineEnd: range.end };
+}
+
+/**
+ * Lignes désignées par une ancre. Échoue si l'ancre est introuvable ou ambiguë.
+ */
+export function resolveAnchor(content: string, anchor: PatchAnchor): AnchorRange {
+  const kind = getAnchorKind(anchor);
+  const value = anchor[kind]!;
+
+  const matches = kind === 'function' ? findFunctionRanges(content, value)
+    : kind === 'node' ? findNodeRanges(content, value)
+    : findTextRanges(content, value);
+
+  if (matches.length === 0) {
+    throw new Error(`Ancre introuvable: ${describeAnchor(kind, value)}`);
+  }
+  if (matches.length > 1) {
+    const lines = matches.map(range => range.start).join(', ');
+    throw new Error(`Ancre ambiguë: ${describeAnchor(kind, value)} trouvée ${matches.length} fois (lignes ${lines})`);
+  }
+  return matches[0];
+}
+
+function getAnchorKind(anchor: PatchAnchor): AnchorKind {
+  const kinds = ANCHOR_KINDS.filter(kind => anchor[kind] !== undefined);
+  if (kinds.length !== 1) {
+    throw new Error(`Une ancre doit utiliser un seul critère parmi ${ANCHOR_KINDS.join(', ')}`);
+  }
+  if (typeof anchor[kinds[0]] !== 'string' || anchor[kinds[0]]!.trim() === '') {
+    throw new Error(`L'ancre "${kinds[0]}" doit être un texte non vide`);
+  }
+  return kinds[0];
+}
+
+function describeAnchor(kind: AnchorKind, value: string): string {
+  const labels: Record<AnchorKind, string> = {
+    function: 'fonction',
+    text: 'texte',
+    before: 'texte',
+    after: 'texte',
+    node: 'noeud'
+  };
+  const preview = value.length > 60 ? `${value.slice(0, 57)}...` : value;
+  return `${labels[kind]} "${preview.replace(/\n/g, '⏎')}"`;
+}
+
+function findTextRanges(content: string, snippet: string): AnchorRange[] {
+  const needle = snippet.trim();
+  const ranges: AnchorRange[] = [];
+
+  let index = content.indexOf(needle);
+  while (index !== -1) {
+    ranges.push({
+      start: lineAt(content, index),
+      end: lineAt(content, index + needle.length - 1)
+    });
+    index = content.indexOf(needle, index + needle.length);
+  }
+  return ranges;
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+function parseForAnchor(content: string, kind: AnchorKind): Chunk {
+  const { ast } = analyzeLuauSyntax(content);
+  if (!ast) {
+    throw new Error(`Le script contient des erreurs de syntaxe: l'ancre "${kind}" nécessite un script valide (utilisez text, before ou after)`);
+  }
+  return ast;
+}
+
+function toRange(loc: SourceLocation): AnchorRange {
+  return { start: loc.start.line, end: loc.end.line };
+}
+
+function findFunctionRanges(content: string, name: string): AnchorRange[] {
+  const declarations: FunctionDeclaration[] = [];
+  walkAst(parseForAnchor(content, 'function'), node => {
+    const declaration = asFunctionDeclaration(node);
+    if (declaration) declarations.push(declaration);
+  });
+
+  return matchFunctionName(declarations, name).map(declaration => toRange(declaration.statement.loc));
+}
+
+/**
+ * Nom complet d'abord ("Shop.buy"), sinon nom court ("buy"); "." et ":" sont équivalents
+ */
+function matchFunctionName(declarations: FunctionDeclaration[], name: string): FunctionDeclaration[] {
+  const wanted = name.trim().replace(/:/g, '.');
+  const exact = declarations.filter(declaration => declaration.name === wanted);
+  if (exact.length > 0) return exact;
+  return declarations.filter(declaration => declaration.name.split('.').pop() === wanted);
+}
+
+function asFunctionDeclaration(node: Node): FunctionDeclaration | null {
+  switch (node.kind) {
+    case 'FunctionStatement':
+      return { name: node.path.map(part => part.name).join('.'), statement: node, func: node.func };
+
+    case 'LocalFunctionStatement':
+      return { name: node.name.name, statement: node, func: node.func };
+
+    // local f = function() ... end / M.f = function() ... end
+    case 'LocalStatement':
+      if (node.variables.length === 1 && node.values[0]?.kind === 'FunctionExpression') {
+        return { name: node.variables[0].name.name, statement: node, func: node.values[0] };
+      }
+      return null;
+
+    case 'AssignmentStatement': {
+      const name = node.targets.length === 1 ? expressionName(node.targets[0]) : null;
+      if (name && node.values[0]?.kind === 'FunctionExpression') {
+        return { name, statement: node, func: node.values[0] };
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function expressionName(expression: Expression): string | null {
+  if (expression.kind === 'Identifier') return expression.name;
+  if (expression.kind === 'MemberExpression') {
+    const object = expressionName(expression.object);
+    return object ? `${object}.${expression.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Chemin de segments séparés par "/": un nom de fonction, ou un type d'instruction
+ * (if, for, while, repeat, do, return, local) suivi d'un index optionnel [n] parmi
+ * les instructions de ce type du bloc courant
+ */
+function findNodeRanges(content: string, nodePath: string): AnchorRange[] {
+  const segments = nodePath.split('/').map(segment => segment.trim()).filter(Boolean);
+  if (segments.length === 0) {
+    throw new Error(`Chemin de noeud vide: ${nodePath}`);
+  }
+  let candidates: Node[] = [parseForAnchor(content, 'node')];
+
+  for (const segment of segments) {
+    const match = /^(\w+)(?:\[(\d+)\])?$/.exec(segment);
+    const statementKinds = match ? NODE_SEGMENT_KINDS[match[1]] : undefined;
+    const next: Node[] = [];
+
+    for (const candidate of candidates) {
+      const children = childStatements(candidate);
+
+      if (statementKinds) {
+        const ofKind = children.filter(child => statementKinds.includes(child.kind));
+        if (match![2] === undefined) {
+          next.push(...ofKind);
+        } else if (ofKind[Number(match![2]) - 1]) {
+          next.push(ofKind[Number(match![2]) - 1]);
+        }
+      } else {
+        const declarations = children
+          .map(child => asFunctionDeclaration(child))
+          .filter((declaration): declaration is FunctionDeclaration => declaration !== null);
+        next.push(...matchFunctionName(declarations, segment).map(declaration => declaration.statement));
+      }
+    }
+
+    candidates = next;
+  }
+
+  return candidates.map(candidate => toRange(candidate.loc));
+}
+
+function childStatements(node: Node): Statement[] {
+  const declaration = asFunctionDeclaration(node);
+  if (declaration) return declaration.func.body;
+
+  switch (node.kind) {
+    case 'Chunk':
+    case 'WhileStatement':
+    case 'NumericForStatement':
+    case 'GenericForStatement':
+    case 'RepeatStatement':
+    case 'DoStatement':
+      return node.body;
+    case 'IfStatement':
+      return [...node.clauses.flatMap(clause => clause.body), ...(node.elseBody ?? [])];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Fusion à trois voies ligne à ligne (comme diff3): les modifications de chaque côté
+ * par rapport à la base commune sont combinées, les zones modifiées des deux côtés
+ * différemment deviennent des conflits marqués
+ */
+
+import { diffLines, LineEdit } from '../utils/line-diff.js';
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+  // Lignes (1-based) des marqueurs <<<<<<< dans le contenu fusionné
+  conflictLines: number[];
+}
+
+const DEFAULT_LABELS: MergeLabels = { ours: 'assistant', theirs: 'disque' };
+
+interface SidedEdit extends LineEdit {
+  side: 'ours' | 'theirs';
+}
+
+export function threeWayMerge(base: string, ours: string, theirs: string, labels: MergeLabels = DEFAULT_LABELS): MergeResult {
+  const baseLines = base.split('\n');
+  const edits: SidedEdit[] = [
+    ...diffLines(baseLines, ours.split('\n')).map(edit => ({ ...edit, side: 'ours' as const })),
+    ...diffLines(baseLines, theirs.split('\n')).map(edit => ({ ...edit, side: 'theirs' as const }))
+  ].sort((a, b) => a.start - b.start || a.deleteCount - b.deleteCount);
+
+  const merged: string[] = [];
+  const conflictLines: number[] = [];
+  let position = 0;
+  let index = 0;
+
+  while (index < edits.length) {
+    // Zone de la base couverte par des modifications qui se chevauchent ou se touchent
+    const chunk = [edits[index]];
+    const start = edits[index].start;
+    let end = start + edits[index].deleteCount;
+    index++;
+    while (index < edits.length && edits[index].start <= end) {
+      end = Math.max(end, edits[index].start + edits[index].deleteCount);
+      chunk.push(edits[index]);
+      index++;
+    }
+
+    merged.push(...baseLines.slice(position, start));
+    position = end;
+
+    const oursEdits = chunk.filter(edit => edit.side === 'ours');
+    const theirsEdits = chunk.filter(edit => edit.side === 'theirs');
+    const oursLines = applyInRange(baseLines, oursEdits, start, end);
+    const theirsLines = applyInRange(baseLines, theirsEdits, start, end);
+
+    if (oursEdits.length === 0 || theirsEdits.length === 0 || oursLines.join('\n') === theirsLines.join('\n')) {
+      merged.push(...(oursEdits.length > 0 ? oursLines : theirsLines));
+      continue;
+    }
+
+    conflictLines.push(merged.length + 1);
+    merged.push(`<<<<<<< ${labels.ours}`, ...oursLines, '=======', ...theirsLines, `>>>>>>> ${labels.theirs}`);
+  }
+
+  merged.push(...baseLines.slice(position));
+
+  return { content: merged.join('\n'), conflicts: conflictLines.length, conflictLines };
+}
+
+/**
+ * Lignes de base[start, end) après application des modifications d'un seul côté
+ */
+function applyInRange(baseLines: string[], edits: LineEdit[], start: number, end: number): string[] {
+  const result: string[] = [];
+  let position = start;
+  for (const edit of edits) {
+    result.push(...baseLines.slice(position, edit.start), ...edit.insert);
+    position = edit.start + edit.deleteCount;
+  }
+  result.push(...baseLines.slice(position, end));
+  return result;
+}
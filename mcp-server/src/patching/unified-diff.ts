@@ -0,0 +1,384 @@
+/**
+ * Application de diffs unifiés (format git diff / diff -u) avec recherche décalée et fuzz,
+ * comme GNU patch: un hunk est cherché près de sa position annoncée, puis en ignorant
+ * progressivement ses lignes de contexte extérieures
+ */
+
+import { diffOperations } from '../utils/line-diff.js';
+
+export interface DiffHunkLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  // Absent pour un en-tête "@@" sans numéros: le hunk est cherché dans tout le fichier
+  oldStart?: number;
+  oldLines?: number;
+  lines: DiffHunkLine[];
+}
+
+export interface ParsedDiff {
+  oldFile?: string;
+  newFile?: string;
+  hunks: DiffHunk[];
+}
+
+export interface HunkResult {
+  index: number;
+  header: string;
+  applied: boolean;
+  // Ligne (1-based) où le hunk a été appliqué, dans le fichier en cours de patch
+  line?: number;
+  // Décalage par rapport à la position annoncée par l'en-tête
+  offset?: number;
+  // Nombre de lignes de contexte ignorées à chaque extrémité
+  fuzz?: number;
+  reason?: string;
+  // Région du fichier la plus proche du hunk quand il ne s'applique pas
+  closest?: {
+    line: number;
+    similarity: number;
+    excerpt: string[];
+  };
+}
+
+export interface DiffApplyResult {
+  success: boolean;
+  // Contenu patché, seulement significatif si success
+  content: string;
+  hunks: HunkResult[];
+}
+
+export const DEFAULT_MAX_FUZZ = 2;
+
+// "@@ -a,b +c,d @@", ou "@@" seul (sans numéros)
+const HUNK_HEADER = /^@@(?:\s*-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?\s*@@)?/;
+const MAX_EXCERPT_LINES = 8;
+
+/**
+ * Découpe un diff unifié en hunks. Les en-têtes git (diff --git, index, ---, +++) sont acceptés.
+ */
+export function parseUnifiedDiff(diff: string): ParsedDiff {
+  const parsed: ParsedDiff = { hunks: [] };
+  let current: DiffHunk | null = null;
+  // Lignes restant à lire d'après l'en-tête, pour ne pas confondre "--- commentaire" avec un en-tête de fichier
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const inHunk = current !== null && (remainingOld > 0 || remainingNew > 0);
+    const headerMatch = HUNK_HEADER.exec(line);
+
+    if (headerMatch) {
+      current = {
+        header: line.trim(),
+        oldStart: headerMatch[1] !== undefined ? Number(headerMatch[1]) : undefined,
+        oldLines: headerMatch[1] !== undefined ? Number(headerMatch[2] ?? 1) : undefined,
+        lines: []
+      };
+      parsed.hunks.push(current);
+      remainingOld = current.oldLines ?? Infinity;
+      remainingNew = headerMatch[3] !== undefined ? Number(headerMatch[4] ?? 1) : Infinity;
+      continue;
+    }
+
+    if (!inHunk) {
+      if (line.startsWith('--- ')) {
+        parsed.oldFile = parseFileName(line);
+      } else if (line.startsWith('+++ ')) {
+        if (parsed.newFile !== undefined) {
+          throw new Error('Le diff concerne plusieurs fichiers: envoyez un diff par script');
+        }
+        parsed.newFile = parseFileName(line);
+      }
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    }
+
+    // Une ligne vide dans un hunk est une ligne de contexte vide dont l'espace initial a été retiré
+    const type = (line === '' ? ' ' : line[0]) as DiffHunkLine['type'];
+    if (type !== ' ' && type !== '-' && type !== '+') {
+      current = null;
+      continue;
+    }
+
+    current!.lines.push({ type, text: line.slice(1) });
+    if (type !== '+') remainingOld--;
+    if (type !== '-') remainingNew--;
+  }
+
+  // Dernier hunk incomplet (sans numéros ou mal compté): les lignes vides finales viennent de la fin du texte
+  if (current && (remainingOld > 0 || remainingNew > 0)) {
+    while (current.lines.length > 0 && current.lines[current.lines.length - 1].type === ' ' && current.lines[current.lines.length - 1].text === '') {
+      current.lines.pop();
+    }
+  }
+
+  return parsed;
+}
+
+function parseFileName(line: string): string {
+  const name = line.slice(4).split('\t')[0].trim();
+  return name.replace(/^[ab]\//, '');
+}
+
+/**
+ * Applique tous les hunks dans l'ordre. Le résultat n'est exploitable que si tous s'appliquent.
+ */
+export function applyUnifiedDiff(content: string, diff: string, maxFuzz: number = DEFAULT_MAX_FUZZ): DiffApplyResult {
+  const { hunks } = parseUnifiedDiff(diff);
+  if (hunks.length === 0) {
+    throw new Error('Aucun hunk trouvé dans le diff (en-têtes "@@ -a,b +c,d @@" attendus)');
+  }
+
+  let lines = content.split('\n');
+  const results: HunkResult[] = [];
+  // Décalage cumulé entre les numéros de ligne du diff et le fichier en cours de patch
+  let delta = 0;
+  // Les hunks suivants ne sont pas cherchés dans une zone déjà patchée
+  let minStart = 0;
+
+  hunks.forEach((hunk, index) => {
+    const result: HunkResult = { index, header: hunk.header, applied: false };
+    results.push(result);
+
+    if (!hunk.lines.some(line => line.type !== ' ')) {
+      result.reason = 'Hunk sans modification';
+      return;
+    }
+
+    const expected = hunk.oldStart === undefined
+      ? undefined
+      : Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta);
+    const match = findHunk(lines, hunk, expected, minStart, maxFuzz);
+
+    if ('reason' in match) {
+      result.reason = match.reason;
+      result.closest = findClosestRegion(lines, hunk, expected);
+      return;
+    }
+
+    const replacement = buildReplacement(lines, hunk, match.start, match.fuzz);
+    lines = [...lines.slice(0, match.start), ...replacement.lines, ...lines.slice(match.start + replacement.consumed)];
+
+    result.applied = true;
+    result.line = match.start + 1;
+    result.fuzz = match.fuzz;
+    if (expected !== undefined) {
+      result.offset = match.start - (expected + match.skipped);
+      delta += result.offset + replacement.lines.length - replacement.consumed;
+    }
+    minStart = match.start + replacement.lines.length;
+  });
+
+  return {
+    success: results.every(result => result.applied),
+    content: lines.join('\n'),
+    hunks: results
+  };
+}
+
+/**
+ * Message lisible pour un hunk qui ne s'applique pas
+ */
+export function describeHunkFailure(result: HunkResult): string {
+  let message = `Hunk #${result.index + 1} (${result.header}): ${result.reason ?? 'non applicable'}`;
+  if (result.closest) {
+    message += `. Région la plus proche: ligne ${result.closest.line} (${Math.round(result.closest.similarity * 100)}% de lignes identiques)`;
+  }
+  return message;
+}
+
+/**
+ * Résultat hunk par hunk: position, décalage et fuzz, ou région la plus proche en cas d'échec
+ */
+export function formatHunkReport(result: DiffApplyResult): string {
+  let report = `**Hunks:**\n`;
+
+  result.hunks.forEach(hunk => {
+    if (hunk.applied) {
+      const details = [
+        hunk.offset ? `décalage ${hunk.offset > 0 ? '+' : ''}${hunk.offset}` : '',
+        hunk.fuzz ? `fuzz ${hunk.fuzz}` : ''
+      ].filter(Boolean).join(', ');
+      report += `- ✅ #${hunk.index + 1} \`${hunk.header}\` appliqué ligne ${hunk.line}${details ? ` (${details})` : ''}\n`;
+    } else {
+      report += `- ❌ ${describeHunkFailure(hunk)}\n`;
+      if (hunk.closest) {
+        report += "```luau\n" + hunk.closest.excerpt.join('\n') + "\n```\n";
+      }
+    }
+  });
+
+  return report;
+}
+
+function sameLine(a: string, b: string): boolean {
+  return a.trimEnd() === b.trimEnd();
+}
+
+function countContext(lines: DiffHunkLine[]): number {
+  let count = 0;
+  while (count < lines.length && lines[count].type === ' ') count++;
+  return count;
+}
+
+/**
+ * Lignes de contexte ignorées au début et à la fin pour un niveau de fuzz
+ */
+function fuzzTrim(hunk: DiffHunk, fuzz: number): { leading: number; trailing: number } {
+  const leadingContext = countContext(hunk.lines);
+  const trailingContext = countContext([...hunk.lines].reverse());
+  return { leading: Math.min(fuzz, leadingContext), trailing: Math.min(fuzz, trailingContext) };
+}
+
+function findHunk(
+  lines: string[],
+  hunk: DiffHunk,
+  expected: number | undefined,
+  minStart: number,
+  maxFuzz: number
+): { start: number; fuzz: number; skipped: number } | { reason: string } {
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const { leading, trailing } = fuzzTrim(hunk, fuzz);
+    if (fuzz > 0 && leading === 0 && trailing === 0) break;
+
+    const pattern = hunk.lines
+      .slice(leading, hunk.lines.length - trailing)
+      .filter(line => line.type !== '+')
+      .map(line => line.text);
+
+    if (pattern.length === 0) {
+      // Insertion pure sans contexte: seule la position annoncée fait foi
+      if (expected === undefined) {
+        return { reason: 'Insertion sans contexte ni numéro de ligne: position impossible à déterminer' };
+      }
+      return { start: Math.min(Math.max(expected, minStart), lines.length), fuzz, skipped: leading };
+    }
+
+    const candidates: number[] = [];
+    for (let start = minStart; start + pattern.length <= lines.length; start++) {
+      if (pattern.every((text, i) => sameLine(lines[start + i], text))) {
+        candidates.push(start);
+      }
+    }
+    if (candidates.length === 0) continue;
+
+    if (expected === undefined) {
+      if (candidates.length > 1) {
+        return { reason: `Hunk sans numéro de ligne trouvé ${candidates.length} fois (lignes ${candidates.map(c => c + 1).join(', ')}): ajoutez du contexte` };
+      }
+      return { start: candidates[0], fuzz, skipped: leading };
+    }
+
+    // Le plus proche de la position annoncée, comme GNU patch
+    const target = expected + leading;
+    const start = candidates.reduce((best, candidate) =>
+      Math.abs(candidate - target) < Math.abs(best - target) ? candidate : best);
+    return { start, fuzz, skipped: leading };
+  }
+
+  return { reason: maxFuzz > 0 ? `Contexte introuvable, même avec un fuzz de ${maxFuzz}` : 'Contexte introuvable' };
+}
+
+/**
+ * Lignes remplaçant la zone trouvée. Le contexte conserve le texte réel du fichier.
+ */
+function buildReplacement(lines: string[], hunk: DiffHunk, start: number, fuzz: number): { lines: string[]; consumed: number } {
+  const { leading, trailing } = fuzzTrim(hunk, fuzz);
+  const replacement: string[] = [];
+  let position = start;
+
+  for (const line of hunk.lines.slice(leading, hunk.lines.length - trailing)) {
+    if (line.type === ' ') {
+      replacement.push(lines[position++]);
+    } else if (line.type === '-') {
+      position++;
+    } else {
+      replacement.push(line.text);
+    }
+  }
+
+  return { lines: replacement, consumed: position - start };
+}
+
+function findClosestRegion(lines: string[], hunk: DiffHunk, expected: number | undefined): HunkResult['closest'] {
+  const pattern = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+  if (pattern.length === 0 || lines.length === 0) return undefined;
+
+  let best = { start: 0, matches: -1 };
+  for (let start = 0; start <= Math.max(0, lines.length - pattern.length); start++) {
+    let matches = 0;
+    for (let i = 0; i < pattern.length && start + i < lines.length; i++) {
+      if (sameLine(lines[start + i], pattern[i])) matches++;
+    }
+    const closer = expected !== undefined && Math.abs(start - expected) < Math.abs(best.start - expected);
+    if (matches > best.matches || (matches === best.matches && closer)) {
+      best = { start, matches };
+    }
+  }
+
+  if (best.matches <= 0) return undefined;
+  return {
+    line: best.start + 1,
+    similarity: best.matches / pattern.length,
+    excerpt: lines.slice(best.start, best.start + Math.min(pattern.length, MAX_EXCERPT_LINES))
+  };
+}
+
+/**
+ * Diff unifié entre deux contenus (hunks seulement, sans en-têtes de fichier), applicable par applyUnifiedDiff.
+ * Renvoie une chaîne vide si les contenus sont identiques.
+ */
+export function createUnifiedDiff(oldContent: string, newContent: string, context: number = 3): string {
+  const oldLines = oldContent.split('\n');
+  const newLines = newContent.split('\n');
+  const operations = diffOperations(oldLines, newLines);
+
+  // Position de chaque opération dans l'ancien et le nouveau contenu
+  const positions: { old: number; new: number }[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const operation of operations) {
+    positions.push({ old: oldIndex, new: newIndex });
+    if (operation !== '+') oldIndex++;
+    if (operation !== '-') newIndex++;
+  }
+
+  // Regrouper les modifications séparées par moins de 2 * context lignes inchangées
+  const hunks: [number, number][] = [];
+  operations.forEach((operation, index) => {
+    if (operation === '=') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(operations.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+
+  return hunks.map(([start, end]) => {
+    const slice = operations.slice(start, end);
+    const oldCount = slice.filter(operation => operation !== '+').length;
+    const newCount = slice.filter(operation => operation !== '-').length;
+    // Comme diff -u, un hunk vide commence à la ligne qui le précède
+    const oldStart = oldCount === 0 ? positions[start].old : positions[start].old + 1;
+    const newStart = newCount === 0 ? positions[start].new : positions[start].new + 1;
+
+    const lines = slice.map((operation, offset) => {
+      const position = positions[start + offset];
+      return operation === '+' ? `+${newLines[position.new]}`
+        : operation === '-' ? `-${oldLines[position.old]}`
+        : ` ${oldLines[position.old]}`;
+    });
+    return [`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...lines].join('\n');
+  }).join('\n');
+}
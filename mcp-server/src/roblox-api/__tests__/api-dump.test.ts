@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { ApiDumpIndex, RawApiDump } from '../api-dump.js';
+import { getServiceAPI, searchAPIs, setApiDumpIndex } from '../../../roblox-apis.js';
+
+// Extrait réduit du format officiel API-Dump.json
+const DUMP: RawApiDump = {
+  Version: 1,
+  Classes: [
+    {
+      Name: 'Instance',
+      Superclass: '<<<ROOT>>>',
+      Tags: ['NotCreatable', 'NotBrowsable'],
+      Members: [
+        { MemberType: 'Property', Name: 'Name', ValueType: { Category: 'Primitive', Name: 'string' }, Security: { Read: 'None', Write: 'None' } },
+        { MemberType: 'Function', Name: 'FindFirstChild', Parameters: [{ Name: 'name', Type: { Category: 'Primitive', Name: 'string' } }, { Name: 'recursive', Type: { Category: 'Primitive', Name: 'bool' }, Default: 'false' }], ReturnType: { Category: 'Class', Name: 'Instance' }, Security: 'None' },
+        { MemberType: 'Function', Name: 'Remove', Parameters: [], ReturnType: { Category: 'Primitive', Name: 'void' }, Security: 'None', Tags: ['Deprecated'] },
+        { MemberType: 'Event', Name: 'ChildAdded', Parameters: [{ Name: 'child', Type: { Category: 'Class', Name: 'Instance' } }], Security: 'None' }
+      ]
+    },
+    {
+      Name: 'BasePart',
+      Superclass: 'Instance',
+      Tags: ['NotCreatable'],
+      Members: [
+        { MemberType: 'Property', Name: 'Anchored', ValueType: { Category: 'Primitive', Name: 'bool' }, Security: { Read: 'None', Write: 'None' } },
+        { MemberType: 'Property', Name: 'Material', ValueType: { Category: 'Enum', Name: 'Material' }, Security: { Read: 'None', Write: 'None' } }
+      ]
+    },
+    {
+      Name: 'Part',
+      Superclass: 'BasePart',
+      Members: [
+        { MemberType: 'Property', Name: 'Shape', ValueType: { Category: 'Enum', Name: 'PartType' }, Security: { Read: 'None', Write: 'None' } }
+      ]
+    },
+    {
+      Name: 'Players',
+      Superclass: 'Instance',
+      Tags: ['NotCreatable', 'Service'],
+      Members: [
+        { MemberType: 'Function', Name: 'GetPlayers', Parameters: [], ReturnType: { Category: 'Group', Name: 'Objects' }, Security: 'None' },
+        { MemberType: 'Function', Name: 'GetUserIdFromNameAsync', Parameters: [{ Name: 'userName', Type: { Category: 'Primitive', Name: 'string' } }], ReturnType: { Category: 'Primitive', Name: 'int64' }, Security: 'None', Tags: ['Yields'] },
+        { MemberType: 'Property', Name: 'LocalPlayer', ValueType: { Category: 'Class', Name: 'Player' }, Security: { Read: 'None', Write: 'None' }, Tags: ['ReadOnly', 'NotReplicated'] },
+        { MemberType: 'Function', Name: 'Chat', Parameters: [{ Name: 'message', Type: { Category: 'Primitive', Name: 'string' } }], ReturnType: { Category: 'Primitive', Name: 'void' }, Security: 'PluginSecurity' }
+      ]
+    }
+  ],
+  Enums: [
+    { Name: 'Material', Items: [{ Name: 'Plastic', Value: 256 }, { Name: 'Neon', Value: 288 }] },
+    { Name: 'PartType', Items: [{ Name: 'Ball', Value: 0 }, { Name: 'Block', Value: 1 }] }
+  ]
+};
+
+describe('ApiDumpIndex', () => {
+  const index = new ApiDumpIndex(DUMP);
+
+  it('should resolve members through the inheritance chain', () => {
+    expect(index.getInheritanceChain('Part').map(apiClass => apiClass.name)).toEqual(['Part', 'BasePart', 'Instance']);
+
+    const anchored = index.findMember('part', 'anchored');
+    expect(anchored).toMatchObject({ name: 'Anchored', className: 'BasePart', inherited: true, signature: 'Anchored: boolean' });
+    expect(index.getMembers('Part', false).map(member => member.name)).toEqual(['Shape']);
+  });
+
+  it('should expose tags, deprecation and security levels', () => {
+    expect(index.findMember('Part', 'Remove')).toMatchObject({ deprecated: true, className: 'Instance' });
+    expect(index.findMember('Players', 'GetUserIdFromNameAsync')).toMatchObject({ yields: true, signature: 'GetUserIdFromNameAsync(userName: string): number' });
+    expect(index.findMember('Players', 'LocalPlayer')).toMatchObject({ readOnly: true, notReplicated: true });
+    expect(index.findMember('Players', 'Chat')?.security).toEqual({ read: 'PluginSecurity', write: 'PluginSecurity' });
+    expect(index.findMember('Instance', 'FindFirstChild')?.signature).toBe('FindFirstChild(name: string, recursive: boolean = false): Instance');
+    expect(index.getServices().map(apiClass => apiClass.name)).toEqual(['Players']);
+  });
+
+  it('should index enums and rank search results by name match', () => {
+    expect(index.getEnum('Enum.Material')?.items.map(item => item.name)).toEqual(['Plastic', 'Neon']);
+
+    const results = index.search('material');
+    expect(results[0]).toMatchObject({ kind: 'member', className: 'BasePart' });
+    expect(results.some(result => result.kind === 'enum' && result.enumName === 'Material')).toBe(true);
+  });
+});
+
+describe('roblox-apis with an API dump', () => {
+  afterEach(() => setApiDumpIndex(null));
+
+  it('should answer for any class and keep hand-written descriptions', () => {
+    setApiDumpIndex(new ApiDumpIndex(DUMP));
+
+    const part = getServiceAPI('Part', true);
+    expect(part?.inheritance).toEqual(['Part', 'BasePart', 'Instance']);
+    expect(part?.properties?.find(prop => prop.name === 'Anchored')).toMatchObject({ type: 'boolean', inheritedFrom: 'BasePart' });
+    expect(part?.methods.find(method => method.name === 'Remove')?.deprecated).toBe(true);
+
+    const players = getServiceAPI('Players');
+    expect(players?.methods.find(method => method.name === 'GetPlayers')?.description).toBe('Retourne tous les joueurs connectés');
+    expect(players?.methods.find(method => method.name === 'Chat')?.security).toBe('PluginSecurity');
+
+    expect(searchAPIs('ChildAdded')).toEqual([{ service: 'Instance', event: 'ChildAdded' }]);
+    expect(searchAPIs('neon')).toEqual([{ service: 'Material', isEnum: true, enumItem: 'Neon' }]);
+  });
+
+  it('should fall back to the hand-written list without a dump', () => {
+    expect(getServiceAPI('Part')).toBeUndefined();
+    expect(getServiceAPI('Players')?.methods.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Index de l'API-Dump.json officiel: classes avec héritage, membres, tags, niveaux de sécurité et enums
+ */
+
+import fs from 'fs-extra';
+
+// Copie importée dans .mcp-roblox, rechargée au démarrage
+export const API_DUMP_FILE = 'API-Dump.json';
+
+// === Format brut de l'API-Dump.json ===
+
+// Les dumps récents mélangent tags simples et tags structurés (ex: { PreferredDescriptorName: "..." })
+export type RawTag = string | Record<string, unknown>;
+
+interface RawType {
+  Category: string;
+  Name: string;
+}
+
+interface RawParameter {
+  Name: string;
+  Type: RawType;
+  Default?: string | null;
+}
+
+export interface RawMember {
+  MemberType: 'Property' | 'Function' | 'Event' | 'Callback';
+  Name: string;
+  Tags?: RawTag[];
+  Security?: string | { Read: string; Write: string };
+  ValueType?: RawType;
+  Parameters?: RawParameter[];
+  ReturnType?: RawType;
+}
+
+export interface RawClass {
+  Name: string;
+  Superclass: string;
+  Tags?: RawTag[];
+  Members: RawMember[];
+}
+
+interface RawEnum {
+  Name: string;
+  Tags?: RawTag[];
+  Items: { Name: string; Value: number; Tags?: RawTag[] }[];
+}
+
+export interface RawApiDump {
+  Version: number;
+  Classes: RawClass[];
+  Enums?: RawEnum[];
+}
+
+// === Modèle indexé ===
+
+export type ApiMemberType = 'Property' | 'Function' | 'Event' | 'Callback';
+
+export interface ApiMember {
+  name: string;
+  memberType: ApiMemberType;
+  // Classe qui déclare le membre
+  className: string;
+  // Signature Luau (ex: "GetPlayers(): {Player}", "MaxPlayers: number")
+  signature: string;
+  tags: string[];
+  deprecated: boolean;
+  yields: boolean;
+  notReplicated: boolean;
+  readOnly: boolean;
+  // "None" pour les membres accessibles aux scripts de jeu
+  security: { read: string; write: string };
+  // Remplaçant officiel d'un membre déprécié (tag PreferredDescriptorName)
+  preferred?: string;
+  // Classe de la valeur d'une propriété ou du retour d'une fonction, quand c'est une instance
+  valueClass?: string;
+}
+
+export interface ApiClass {
+  name: string;
+  superclass?: string;
+  tags: string[];
+  deprecated: boolean;
+  service: boolean;
+  preferred?: string;
+  members: ApiMember[];
+}
+
+export interface ApiEnum {
+  name: string;
+  tags: string[];
+  deprecated: boolean;
+  items: { name: string; value: number; deprecated: boolean }[];
+}
+
+// Membre vu depuis une classe dérivée
+export interface ResolvedApiMember extends ApiMember {
+  inherited: boolean;
+}
+
+export type ApiSearchResult =
+  | { kind: 'class'; className: string; score: number }
+  | { kind: 'member'; className: string; member: ApiMember; score: number }
+  | { kind: 'enum'; enumName: string; score: number }
+  | { kind: 'enumItem'; enumName: string; itemName: string; score: number };
+
+// Superclasse factice de Instance, racine de la hiérarchie
+const ROOT_SUPERCLASS = '<<<ROOT>>>';
+
+const PRIMITIVE_TYPES: Record<string, string> = {
+  bool: 'boolean',
+  int: 'number',
+  int64: 'number',
+  float: 'number',
+  double: 'number',
+  string: 'string',
+  void: '()',
+  null: 'nil'
+};
+
+const GROUP_TYPES: Record<string, string> = {
+  Array: '{any}',
+  Objects: '{Instance}',
+  Dictionary: '{[string]: any}',
+  Map: '{[any]: any}',
+  Tuple: '...any',
+  Variant: 'any'
+};
+
+function simpleTags(tags: RawTag[] | undefined): string[] {
+  return (tags ?? []).filter((tag): tag is string => typeof tag === 'string');
+}
+
+function preferredDescriptor(tags: RawTag[] | undefined): string | undefined {
+  for (const tag of tags ?? []) {
+    if (typeof tag === 'object' && typeof tag.PreferredDescriptorName === 'string') return tag.PreferredDescriptorName;
+  }
+  return undefined;
+}
+
+function formatType(type: RawType | undefined): string {
+  if (!type) return 'any';
+  switch (type.Category) {
+    case 'Primitive':
+      return PRIMITIVE_TYPES[type.Name] ?? type.Name;
+    case 'Enum':
+      return `Enum.${type.Name}`;
+    case 'Group':
+      return GROUP_TYPES[type.Name] ?? type.Name;
+    default:
+      return type.Name;
+  }
+}
+
+function formatParameters(parameters: RawParameter[] | undefined): string {
+  return (parameters ?? []).map(parameter => {
+    const defaultValue = parameter.Default !== undefined && parameter.Default !== null ? ` = ${parameter.Default}` : '';
+    return `${parameter.Name}: ${formatType(parameter.Type)}${defaultValue}`;
+  }).join(', ');
+}
+
+function formatSignature(member: RawMember): string {
+  switch (member.MemberType) {
+    case 'Property':
+      return `${member.Name}: ${formatType(member.ValueType)}`;
+    case 'Event':
+      return `${member.Name}(${formatParameters(member.Parameters)})`;
+    default:
+      return `${member.Name}(${formatParameters(member.Parameters)}): ${formatType(member.ReturnType)}`;
+  }
+}
+
+function toMember(className: string, raw: RawMember): ApiMember {
+  const tags = simpleTags(raw.Tags);
+  const valueType = raw.MemberType === 'Property' ? raw.ValueType : raw.ReturnType;
+  const security = typeof raw.Security === 'object'
+    ? { read: raw.Security.Read, write: raw.Security.Write }
+    : { read: raw.Security ?? 'None', write: raw.Security ?? 'None' };
+
+  return {
+    name: raw.Name,
+    memberType: raw.MemberType,
+    className,
+    signature: formatSignature(raw),
+    tags,
+    deprecated: tags.includes('Deprecated'),
+    yields: tags.includes('Yields') || tags.includes('CustomLuaState'),
+    notReplicated: tags.includes('NotReplicated'),
+    readOnly: raw.MemberType === 'Property' && tags.includes('ReadOnly'),
+    security,
+    preferred: preferredDescriptor(raw.Tags),
+    valueClass: valueType?.Category === 'Class' ? valueType.Name : undefined
+  };
+}
+
+// Exact > préfixe > contient, les noms courts d'abord à score égal
+function scoreName(name: string, query: string): number {
+  const lower = name.toLowerCase();
+  if (lower === query) return 3;
+  if (lower.startsWith(query)) return 2;
+  if (lower.includes(query)) return 1;
+  return 0;
+}
+
+export class ApiDumpIndex {
+  private readonly classes: Map<string, ApiClass> = new Map();
+  private readonly enums: Map<string, ApiEnum> = new Map();
+
+  constructor(dump: RawApiDump) {
+    if (!dump || !Array.isArray(dump.Classes)) {
+      throw new Error('API dump invalide: tableau "Classes" manquant');
+    }
+
+    for (const raw of dump.Classes) {
+      const tags = simpleTags(raw.Tags);
+      this.classes.set(raw.Name.toLowerCase(), {
+        name: raw.Name,
+        superclass: raw.Superclass && raw.Superclass !== ROOT_SUPERCLASS ? raw.Superclass : undefined,
+        tags,
+        deprecated: tags.includes('Deprecated'),
+        service: tags.includes('Service'),
+        preferred: preferredDescriptor(raw.Tags),
+        members: (raw.Members ?? []).map(member => toMember(raw.Name, member))
+      });
+    }
+
+    for (const raw of dump.Enums ?? []) {
+      const tags = simpleTags(raw.Tags);
+      this.enums.set(raw.Name.toLowerCase(), {
+        name: raw.Name,
+        tags,
+        deprecated: tags.includes('Deprecated'),
+        items: raw.Items.map(item => ({
+          name: item.Name,
+          value: item.Value,
+          deprecated: simpleTags(item.Tags).includes('Deprecated')
+        }))
+      });
+    }
+  }
+
+  get classCount(): number {
+    return this.classes.size;
+  }
+
+  get enumCount(): number {
+    return this.enums.size;
+  }
+
+  getClass(name: string): ApiClass | undefined {
+    return this.classes.get(name.toLowerCase());
+  }
+
+  /**
+   * Accepte "Material" comme "Enum.Material"
+   */
+  getEnum(name: string): ApiEnum | undefined {
+    return this.enums.get(name.replace(/^Enum\./i, '').toLowerCase());
+  }
+
+  getClasses(): ApiClass[] {
+    return Array.from(this.classes.values());
+  }
+
+  getServices(): ApiClass[] {
+    return this.getClasses().filter(apiClass => apiClass.service);
+  }
+
+  /**
+   * Chaîne d'héritage depuis la classe elle-même jusqu'à la racine (ex: Part, BasePart, PVInstance, Instance)
+   */
+  getInheritanceChain(name: string): ApiClass[] {
+    const chain: ApiClass[] = [];
+    const visited = new Set<string>();
+    let current = this.getClass(name);
+
+    while (current && !visited.has(current.name)) {
+      visited.add(current.name);
+      chain.push(current);
+      current = current.superclass ? this.getClass(current.superclass) : undefined;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Membres d'une classe, hérités compris; un membre redéclaré masque celui de l'ancêtre
+   */
+  getMembers(className: string, includeInherited: boolean = true): ResolvedApiMember[] {
+    const chain = this.getInheritanceChain(className);
+    const classes = includeInherited ? chain : chain.slice(0, 1);
+    const seen = new Set<string>();
+    const members: ResolvedApiMember[] = [];
+
+    classes.forEach((apiClass, depth) => {
+      for (const member of apiClass.members) {
+        if (seen.has(member.name)) continue;
+        seen.add(member.name);
+        members.push({ ...member, inherited: depth > 0 });
+      }
+    });
+
+    return members;
+  }
+
+  /**
+   * Membre par nom, hérités compris; le nom exact est préféré aux variantes de casse (Remove/remove)
+   */
+  findMember(className: string, memberName: string, caseSensitive: boolean = false): ResolvedApiMember | undefined {
+    const members = this.getMembers(className);
+    const exact = members.find(member => member.name === memberName);
+    if (exact || caseSensitive) return exact;
+
+    const lower = memberName.toLowerCase();
+    return members.find(member => member.name.toLowerCase() === lower);
+  }
+
+  /**
+   * Recherche par nom dans les classes, leurs membres propres, les enums et leurs items
+   */
+  search(query: string, limit: number = 50): ApiSearchResult[] {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) return [];
+
+    const results: ApiSearchResult[] = [];
+
+    for (const apiClass of this.classes.values()) {
+      const classScore = scoreName(apiClass.name, lowerQuery);
+      if (classScore > 0) results.push({ kind: 'class', className: apiClass.name, score: classScore + 1 });
+
+      for (const member of apiClass.members) {
+        const score = scoreName(member.name, lowerQuery);
+        if (score > 0) results.push({ kind: 'member', className: apiClass.name, member, score });
+      }
+    }
+
+    for (const apiEnum of this.enums.values()) {
+      const enumScore = scoreName(apiEnum.name, lowerQuery);
+      if (enumScore > 0) results.push({ kind: 'enum', enumName: apiEnum.name, score: enumScore });
+
+      for (const item of apiEnum.items) {
+        const score = scoreName(item.name, lowerQuery);
+        if (score > 0) results.push({ kind: 'enumItem', enumName: apiEnum.name, itemName: item.name, score: score - 1 });
+      }
+    }
+
+    const nameOf = (result: ApiSearchResult): string =>
+      result.kind === 'member' ? result.member.name : result.kind === 'class' ? result.className : result.kind === 'enum' ? result.enumName : result.itemName;
+
+    // Les membres dépréciés passent après leurs équivalents actuels
+    const deprecated = (result: ApiSearchResult): number =>
+      result.kind === 'member' && result.member.deprecated ? 1 : 0;
+
+    return results
+      .sort((a, b) => b.score - a.score || deprecated(a) - deprecated(b) || nameOf(a).length - nameOf(b).length)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Charge une copie locale de l'API-Dump.json officiel
+ */
+export async function loadApiDump(filePath: string): Promise<ApiDumpIndex> {
+  const dump = await fs.readJson(filePath);
+  return new ApiDumpIndex(dump);
+}
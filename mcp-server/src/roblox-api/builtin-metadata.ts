@@ -0,0 +1,156 @@
+/**
+ * Métadonnées d'API minimales au format API-Dump.json, utilisées tant que le dump officiel n'est pas importé
+ * Couvre les dépréciations, niveaux de sécurité et membres client les plus courants
+ */
+
+import { RawApiDump, RawMember, RawTag } from './api-dump.js';
+
+const deprecated = (preferred?: string): RawTag[] =>
+  preferred ? ['Deprecated', { PreferredDescriptorName: preferred }] : ['Deprecated'];
+
+const instance = (name: string) => ({ Category: 'Class', Name: name });
+
+const fn = (name: string, returnClass?: string, tags: RawTag[] = [], security: string = 'None'): RawMember => ({
+  MemberType: 'Function',
+  Name: name,
+  Parameters: [],
+  ReturnType: returnClass ? instance(returnClass) : { Category: 'Primitive', Name: 'void' },
+  Security: security,
+  Tags: tags
+});
+
+const prop = (name: string, valueClass?: string, tags: RawTag[] = []): RawMember => ({
+  MemberType: 'Property',
+  Name: name,
+  ValueType: valueClass ? instance(valueClass) : { Category: 'Primitive', Name: 'string' },
+  Security: { Read: 'None', Write: 'None' },
+  Tags: tags
+});
+
+const event = (name: string, tags: RawTag[] = []): RawMember => ({
+  MemberType: 'Event',
+  Name: name,
+  Parameters: [],
+  Security: 'None',
+  Tags: tags
+});
+
+const service = (name: string, members: RawMember[] = []) => ({
+  Name: name,
+  Superclass: 'Instance',
+  Tags: ['NotCreatable', 'Service'],
+  Members: members
+});
+
+// Body movers remplacés par les contraintes
+const legacyMover = (name: string, preferred: string) => ({
+  Name: name,
+  Superclass: 'Instance',
+  Tags: deprecated(preferred),
+  Members: []
+});
+
+export const BUILTIN_API_DUMP: RawApiDump = {
+  Version: 1,
+  Classes: [
+    {
+      Name: 'Instance',
+      Superclass: '<<<ROOT>>>',
+      Tags: ['NotCreatable'],
+      Members: [
+        prop('Name'),
+        prop('Parent', 'Instance'),
+        fn('Destroy'),
+        fn('Clone', 'Instance'),
+        fn('GetChildren'),
+        fn('FindFirstChild', 'Instance'),
+        fn('WaitForChild', 'Instance'),
+        fn('IsA'),
+        event('ChildAdded'),
+        fn('Remove', undefined, deprecated('Destroy')),
+        fn('remove', undefined, deprecated('Destroy')),
+        fn('destroy', undefined, deprecated('Destroy')),
+        fn('clone', 'Instance', deprecated('Clone')),
+        fn('children', undefined, deprecated('GetChildren')),
+        fn('getChildren', undefined, deprecated('GetChildren')),
+        fn('findFirstChild', 'Instance', deprecated('FindFirstChild')),
+        fn('isA', undefined, deprecated('IsA')),
+        event('childAdded', deprecated('ChildAdded'))
+      ]
+    },
+    {
+      Name: 'ServiceProvider',
+      Superclass: 'Instance',
+      Tags: ['NotCreatable'],
+      Members: [
+        fn('GetService', 'Instance'),
+        fn('FindService', 'Instance'),
+        fn('service', 'Instance', deprecated('GetService')),
+        fn('getService', 'Instance', deprecated('GetService'))
+      ]
+    },
+    { Name: 'DataModel', Superclass: 'ServiceProvider', Tags: ['NotCreatable'], Members: [] },
+    service('Workspace', [
+      prop('CurrentCamera', 'Camera'),
+      fn('Raycast'),
+      fn('FindPartOnRay', 'BasePart', deprecated('Raycast')),
+      fn('FindPartOnRayWithIgnoreList', 'BasePart', deprecated('Raycast')),
+      fn('FindPartOnRayWithWhitelist', 'BasePart', deprecated('Raycast'))
+    ]),
+    service('Players', [
+      prop('LocalPlayer', 'Player', ['ReadOnly', 'NotReplicated']),
+      fn('GetPlayers'),
+      fn('GetPlayerFromCharacter', 'Player'),
+      event('PlayerAdded'),
+      prop('localPlayer', 'Player', ['ReadOnly', 'NotReplicated', ...deprecated('LocalPlayer')]),
+      fn('getPlayers', undefined, deprecated('GetPlayers')),
+      fn('playerFromCharacter', 'Player', deprecated('GetPlayerFromCharacter'))
+    ]),
+    {
+      Name: 'Player',
+      Superclass: 'Instance',
+      Tags: ['NotCreatable'],
+      Members: [
+        prop('Character', 'Model'),
+        prop('UserId'),
+        prop('userId', undefined, deprecated('UserId')),
+        fn('GetMouse', 'Mouse'),
+        fn('Kick')
+      ]
+    },
+    service('RunService', [
+      event('Heartbeat'),
+      event('RenderStepped'),
+      event('Stepped', deprecated('PreSimulation')),
+      fn('BindToRenderStep'),
+      fn('UnbindFromRenderStep'),
+      fn('IsServer'),
+      fn('IsClient'),
+      fn('IsStudio')
+    ]),
+    service('UserInputService'),
+    service('ContextActionService'),
+    service('HapticService'),
+    service('ReplicatedStorage'),
+    service('ServerScriptService'),
+    service('ServerStorage'),
+    service('TweenService'),
+    service('DataStoreService'),
+    service('HttpService'),
+    service('Selection', [
+      fn('Get', undefined, [], 'PluginSecurity'),
+      fn('Set', undefined, [], 'PluginSecurity')
+    ]),
+    service('ChangeHistoryService', [
+      fn('SetWaypoint', undefined, [], 'PluginSecurity')
+    ]),
+    legacyMover('BodyVelocity', 'LinearVelocity'),
+    legacyMover('BodyPosition', 'AlignPosition'),
+    legacyMover('BodyGyro', 'AlignOrientation'),
+    legacyMover('BodyAngularVelocity', 'AngularVelocity'),
+    legacyMover('BodyForce', 'VectorForce'),
+    legacyMover('BodyThrust', 'VectorForce'),
+    { Name: 'Hint', Superclass: 'Instance', Tags: deprecated(), Members: [] },
+    { Name: 'Message', Superclass: 'Instance', Tags: deprecated(), Members: [] }
+  ]
+};
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { RojoProjectTree, resolveScriptInfo } from '../project-tree.js';
+
+describe('RojoProjectTree', () => {
+  let projectRoot: string;
+
+  async function writeFiles(files: Record<string, unknown>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      const fullPath = path.join(projectRoot, file);
+      if (typeof content === 'string') {
+        await fs.outputFile(fullPath, content);
+      } else {
+        await fs.outputJson(fullPath, content);
+      }
+    }
+  }
+
+  function scriptNames(tree: RojoProjectTree): string[] {
+    return tree.getScripts().map(script => RojoProjectTree.fullName(script)).sort();
+  }
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-tree-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  it('should map Rojo file naming rules onto instances', async () => {
+    await writeFiles({
+      'default.project.json': { name: 'Game', tree: { $className: 'DataModel', ServerScriptService: { $path: 'src/server' } } },
+      'src/server/main.server.luau': 'print(1)',
+      'src/server/Services/init.luau': 'return {}',
+      'src/server/Services/Data.luau': 'return {}'
+    });
+
+    const tree = await RojoProjectTree.load(projectRoot);
+
+    expect(tree.projectName).toBe('Game');
+    expect(tree.findByPath(['ServerScriptService', 'main'])?.className).toBe('Script');
+    expect(tree.findByPath(['ServerScriptService', 'Services'])?.filePath).toBe('src/server/Services/init.luau');
+    expect(tree.findByFile('src/server/Services/Data.luau')?.path).toEqual(['ServerScriptService', 'Services', 'Data']);
+  });
+
+  it('should follow nested project files relative to their own folder', async () => {
+    await writeFiles({
+      'game.project.json': {
+        name: 'Game',
+        tree: {
+          $className: 'DataModel',
+          ReplicatedStorage: {
+            Packages: { $path: 'packages' },
+            Tools: { $path: 'tools.project.json' }
+          }
+        }
+      },
+      'packages/default.project.json': { name: 'Packages', tree: { $path: 'lib', $properties: { Archivable: false } } },
+      'packages/lib/init.luau': 'return {}',
+      'packages/lib/Promise.luau': 'return {}',
+      'tools.project.json': { tree: { $className: 'Folder', Debug: { $path: 'tools/Debug.luau' } } },
+      'tools/Debug.luau': 'return {}'
+    });
+
+    const tree = await RojoProjectTree.load(projectRoot, 'game.project.json');
+    const packages = tree.findByPath(['ReplicatedStorage', 'Packages'])!;
+
+    expect(packages.projectFile).toBe('packages/default.project.json');
+    expect(packages.properties).toEqual({ Archivable: false });
+    expect(scriptNames(tree)).toEqual([
+      'game.ReplicatedStorage.Packages',
+      'game.ReplicatedStorage.Packages.Promise',
+      'game.ReplicatedStorage.Tools.Debug'
+    ]);
+    expect(tree.getSourcePaths()).toEqual({
+      projectFiles: ['game.project.json', 'packages/default.project.json', 'tools.project.json'],
+      directories: ['packages/lib'],
+      files: ['tools/Debug.luau']
+    });
+  });
+
+  it('should honor globIgnorePaths and $ignoreUnknownInstances', async () => {
+    await writeFiles({
+      'default.project.json': {
+        globIgnorePaths: ['src/**/*.spec.luau'],
+        tree: {
+          $className: 'DataModel',
+          ReplicatedStorage: {
+            Shared: { $path: 'src/shared' },
+            Vendor: { $path: 'vendor', $ignoreUnknownInstances: true }
+          }
+        }
+      },
+      'src/shared/Utils.luau': 'return {}',
+      'src/shared/Utils.spec.luau': 'return {}',
+      'vendor/Lib.luau': 'return {}'
+    });
+
+    const tree = await RojoProjectTree.load(projectRoot);
+
+    expect(scriptNames(tree)).toEqual([
+      'game.ReplicatedStorage.Shared.Utils',
+      'game.ReplicatedStorage.Vendor.Lib'
+    ]);
+    expect(tree.findByPath(['ReplicatedStorage'])?.ignoreUnknownInstances).toBe(true);
+    expect(tree.findByPath(['ReplicatedStorage', 'Shared'])?.ignoreUnknownInstances).toBe(false);
+    expect(tree.findByPath(['ReplicatedStorage', 'Vendor'])?.ignoreUnknownInstances).toBe(true);
+  });
+
+  it('should load default.project.luau and nested Luau projects', async () => {
+    await writeFiles({
+      'default.project.luau': [
+        '-- Projet décrit en Luau',
+        'return {',
+        '  name = "Game",',
+        '  tree = {',
+        '    ["$className"] = "DataModel",',
+        '    ServerScriptService = { ["$path"] = "src/server" },',
+        '    ReplicatedStorage = { Packages = { ["$path"] = "packages" } },',
+        '  },',
+        '}'
+      ].join('\n'),
+      'src/server/main.server.luau': 'print(1)',
+      'packages/default.project.luau': 'return { tree = { ["$path"] = "lib" } }',
+      'packages/lib/Signal.luau': 'return {}'
+    });
+
+    expect(await RojoProjectTree.listProjectFiles(projectRoot)).toEqual(['default.project.luau']);
+    const tree = await RojoProjectTree.load(projectRoot);
+
+    expect(tree.projectFile).toBe('default.project.luau');
+    expect(tree.projectName).toBe('Game');
+    expect(scriptNames(tree)).toEqual(['game.ReplicatedStorage.Packages.Signal', 'game.ServerScriptService.main']);
+    expect(tree.findByPath(['ReplicatedStorage', 'Packages'])?.projectFile).toBe('packages/default.project.luau');
+  });
+
+  it('should require a tree in every project file', async () => {
+    await writeFiles({
+      'default.project.json': { name: 'Game', $className: 'DataModel', Workspace: { $path: 'src' } },
+      'code.project.luau': 'local tree = {}\nreturn { tree = tree }'
+    });
+
+    await expect(RojoProjectTree.load(projectRoot)).rejects.toThrow('default.project.json: la clé "tree" est obligatoire');
+    await expect(RojoProjectTree.load(projectRoot, 'code.project.luau')).rejects.toThrow('uniquement `return { ... }`');
+  });
+
+  it('should reject recursively nested projects', async () => {
+    await writeFiles({
+      'loop.project.json': { tree: { $className: 'DataModel', Workspace: { $path: 'loop.project.json' } } }
+    });
+
+    await expect(RojoProjectTree.load(projectRoot, 'loop.project.json')).rejects.toThrow('récursivement');
+  });
+
+  it('should infer script types from Rojo rules rather than folder names', async () => {
+    await writeFiles({
+      'default.project.json': {
+        tree: {
+          $className: 'DataModel',
+          ReplicatedFirst: { $path: 'src/client' },
+          ServerScriptService: { $path: 'src/server' }
+        }
+      },
+      'src/client/Loader.luau': 'return {}',
+      'src/client/Boot/init.client.luau': 'print(1)',
+      'src/server/moduleLoader.server.luau': 'print(1)',
+      'src/server/Remote.server.luau': 'print(1)',
+      'src/server/Remote.meta.json': { properties: { RunContext: 'Client' } }
+    });
+
+    const tree = await RojoProjectTree.load(projectRoot);
+
+    expect(resolveScriptInfo('src/client/Loader.luau', tree)).toMatchObject({
+      type: 'ModuleScript',
+      realm: 'client',
+      instancePath: 'game.ReplicatedFirst.Loader'
+    });
+    expect(resolveScriptInfo('src/client/Boot/init.client.luau', tree)).toMatchObject({
+      type: 'LocalScript',
+      instancePath: 'game.ReplicatedFirst.Boot'
+    });
+    expect(resolveScriptInfo('src/server/moduleLoader.server.luau', tree).type).toBe('ServerScript');
+    expect(resolveScriptInfo('src/server/Remote.server.luau', tree)).toMatchObject({
+      type: 'LocalScript',
+      className: 'Script',
+      runContext: 'Client',
+      realm: 'client'
+    });
+  });
+
+  it('should map .server and .client files to RunContext scripts when emitLegacyScripts is false', async () => {
+    await writeFiles({
+      'default.project.json': { emitLegacyScripts: false, tree: { $className: 'DataModel', ReplicatedStorage: { $path: 'src' } } },
+      'src/Hud.client.luau': 'print(1)'
+    });
+
+    const tree = await RojoProjectTree.load(projectRoot);
+
+    expect(resolveScriptInfo('src/Hud.client.luau', tree)).toMatchObject({
+      type: 'LocalScript',
+      className: 'Script',
+      runContext: 'Client'
+    });
+  });
+
+  it('should fall back to file suffixes for unmapped files', () => {
+    expect(resolveScriptInfo('lib/server/utils.luau').type).toBe('ModuleScript');
+    expect(resolveScriptInfo('lib/main.client.lua').type).toBe('LocalScript');
+  });
+});
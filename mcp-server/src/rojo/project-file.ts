@@ -0,0 +1,103 @@
+/**
+ * Lecture des fichiers projet Rojo: *.project.json, ou *.project.luau qui retourne la même
+ * table sous forme de littéral Luau
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { analyzeLuauSyntax, formatSyntaxIssue } from '../parser/syntax-analysis.js';
+import { Expression } from '../parser/ast.js';
+
+export const PROJECT_FILE_SUFFIXES = ['.project.json', '.project.luau'];
+
+export function isProjectFile(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return PROJECT_FILE_SUFFIXES.some(suffix => lower.endsWith(suffix));
+}
+
+/**
+ * Contenu d'un fichier projet, au même format que le JSON
+ */
+export async function readProjectFile(fullPath: string): Promise<any> {
+  if (!fullPath.toLowerCase().endsWith('.luau')) {
+    return fs.readJson(fullPath);
+  }
+  return evaluateLuauProject(await fs.readFile(fullPath, 'utf-8'), path.basename(fullPath));
+}
+
+/**
+ * Évalue un projet Luau: le fichier doit se limiter à `return { ... }` avec des valeurs littérales
+ */
+export function evaluateLuauProject(source: string, fileName: string): any {
+  const analysis = analyzeLuauSyntax(source);
+  if (!analysis.valid || !analysis.ast) {
+    throw new Error(`${fileName}: ${analysis.errors.map(formatSyntaxIssue).join(', ')}`);
+  }
+
+  const body = analysis.ast.body;
+  const statement = body[body.length - 1];
+  if (body.length !== 1 || statement.kind !== 'ReturnStatement' || statement.values.length !== 1) {
+    throw new Error(`${fileName}: le projet doit contenir uniquement \`return { ... }\``);
+  }
+  if (statement.values[0].kind !== 'TableConstructor') {
+    throw new Error(`${fileName}: le projet doit retourner une table`);
+  }
+
+  return toValue(statement.values[0], fileName);
+}
+
+function toValue(expression: Expression, fileName: string): unknown {
+  const line = expression.loc.start.line;
+
+  switch (expression.kind) {
+    case 'StringLiteral':
+      return expression.value;
+    case 'BooleanLiteral':
+      return expression.value;
+    case 'NilLiteral':
+      return null;
+    case 'NumberLiteral':
+      return parseNumber(expression.raw, fileName, line);
+    case 'UnaryExpression':
+      if (expression.operator === '-' && expression.argument.kind === 'NumberLiteral') {
+        return -parseNumber(expression.argument.raw, fileName, line);
+      }
+      break;
+    case 'TableConstructor': {
+      const fields = expression.fields;
+      // Une table sans clés est une liste, comme un tableau JSON
+      if (fields.length > 0 && fields.every(field => field.type === 'positional')) {
+        return fields.map(field => toValue(field.value, fileName));
+      }
+
+      const object: Record<string, unknown> = {};
+      for (const field of fields) {
+        let key: string | undefined;
+        if (field.type === 'named' && field.key?.kind === 'Identifier') {
+          key = field.key.name;
+        } else if (field.type === 'computed' && field.key?.kind === 'StringLiteral') {
+          key = field.key.value;
+        }
+        if (key === undefined) {
+          throw new Error(`${fileName}:${field.loc.start.line}: les clés d'une table doivent être des noms ou des chaînes`);
+        }
+        // Comme en Luau, une valeur nil n'ajoute pas de clé
+        const value = toValue(field.value, fileName);
+        if (value !== null) {
+          object[key] = value;
+        }
+      }
+      return object;
+    }
+  }
+
+  throw new Error(`${fileName}:${line}: valeur non littérale (${expression.kind}) dans le projet`);
+}
+
+function parseNumber(raw: string, fileName: string, line: number): number {
+  const value = Number(raw.replace(/_/g, ''));
+  if (Number.isNaN(value)) {
+    throw new Error(`${fileName}:${line}: nombre invalide ${raw}`);
+  }
+  return value;
+}
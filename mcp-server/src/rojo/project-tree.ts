@@ -0,0 +1,490 @@
+/**
+ * Arbre d'instances Rojo: relie le DataModel aux fichiers du projet via les mappings $path
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import { PROJECT_FILE_SUFFIXES, isProjectFile, readProjectFile } from './project-file.js';
+
+export interface RojoInstance {
+  name: string;
+  className: string;
+  // Chemin DataModel depuis la racine, sans "game" (ex: ["ReplicatedStorage", "Shared", "Utils"])
+  path: string[];
+  // Fichier source relatif à la racine du projet (scripts et fichiers de données)
+  filePath?: string;
+  // Dossier relatif mappé sur cette instance ($path vers un dossier)
+  directory?: string;
+  // Fichier projet imbriqué qui décrit cette instance ($path vers un *.project.json ou *.project.luau)
+  projectFile?: string;
+  properties?: Record<string, unknown>;
+  // RunContext d'un Script (propriété ou fichier .meta.json)
+  runContext?: RunContext;
+  // Rojo conserve les enfants inconnus créés dans Studio: le contenu n'est alors pas entièrement connu
+  ignoreUnknownInstances: boolean;
+  children: Map<string, RojoInstance>;
+  parent?: RojoInstance;
+}
+
+export type Realm = 'client' | 'server' | 'shared';
+
+export type RunContext = 'Legacy' | 'Server' | 'Client' | 'Plugin';
+
+// Types de script manipulés par les outils (un Script en RunContext Client se comporte comme un LocalScript)
+export type ScriptType = 'ServerScript' | 'LocalScript' | 'ModuleScript';
+
+export interface ScriptInfo {
+  type: ScriptType;
+  className: string;
+  realm: Realm;
+  runContext?: RunContext;
+  // Chemin DataModel complet (ex: game.ServerScriptService.main), absent si le fichier n'est pas mappé
+  instancePath?: string;
+}
+
+const SCRIPT_SUFFIXES: { suffix: string; className: string; runContext?: RunContext }[] = [
+  { suffix: '.server.luau', className: 'Script', runContext: 'Server' },
+  { suffix: '.server.lua', className: 'Script', runContext: 'Server' },
+  { suffix: '.client.luau', className: 'LocalScript', runContext: 'Client' },
+  { suffix: '.client.lua', className: 'LocalScript', runContext: 'Client' },
+  { suffix: '.luau', className: 'ModuleScript' },
+  { suffix: '.lua', className: 'ModuleScript' }
+];
+
+// Conteneurs dont le contenu ne s'exécute que côté client ou serveur
+const CLIENT_CONTAINERS = ['StarterPlayer', 'StarterGui', 'StarterPack', 'ReplicatedFirst'];
+const SERVER_CONTAINERS = ['ServerScriptService', 'ServerStorage'];
+
+export const LUA_SCRIPT_CLASSES = new Set(['Script', 'LocalScript', 'ModuleScript']);
+
+export const DEFAULT_PROJECT_FILE = 'default.project.json';
+// Fichiers projet par défaut, par ordre de priorité (racine et dossiers de projets imbriqués)
+export const DEFAULT_PROJECT_FILES = [DEFAULT_PROJECT_FILE, 'default.project.luau'];
+
+const META_FILE_SUFFIX = '.meta.json';
+const RUN_CONTEXTS: RunContext[] = ['Legacy', 'Server', 'Client', 'Plugin'];
+
+/**
+ * Détermine le nom d'instance et la classe d'un fichier selon les règles de nommage Rojo
+ */
+export function describeRojoFile(
+  fileName: string,
+  emitLegacyScripts: boolean = true
+): { name: string; className: string; runContext?: RunContext } | null {
+  const lower = fileName.toLowerCase();
+  // Un *.project.luau n'est pas un ModuleScript
+  if (isProjectFile(lower)) return null;
+
+  for (const { suffix, className, runContext } of SCRIPT_SUFFIXES) {
+    if (lower.endsWith(suffix)) {
+      const name = fileName.slice(0, -suffix.length);
+      // Avec emitLegacyScripts: false, Rojo crée des Script avec un RunContext au lieu de LocalScript
+      if (!emitLegacyScripts && runContext) {
+        return { name, className: 'Script', runContext };
+      }
+      return { name, className };
+    }
+  }
+
+  if (lower.endsWith(META_FILE_SUFFIX)) return null;
+  if (lower.endsWith('.model.json')) return { name: fileName.slice(0, -'.model.json'.length), className: 'Model' };
+  if (lower.endsWith('.json')) return { name: fileName.slice(0, -'.json'.length), className: 'ModuleScript' };
+  if (lower.endsWith('.rbxm') || lower.endsWith('.rbxmx')) return { name: fileName.replace(/\.rbxmx?$/i, ''), className: 'Model' };
+  if (lower.endsWith('.txt')) return { name: fileName.slice(0, -'.txt'.length), className: 'StringValue' };
+  if (lower.endsWith('.csv')) return { name: fileName.slice(0, -'.csv'.length), className: 'LocalizationTable' };
+
+  return null;
+}
+
+function toScriptType(className: string, runContext?: RunContext): ScriptType | null {
+  if (className === 'ModuleScript') return 'ModuleScript';
+  if (className === 'LocalScript') return 'LocalScript';
+  if (className === 'Script') return runContext === 'Client' ? 'LocalScript' : 'ServerScript';
+  return null;
+}
+
+/**
+ * Type d'un script selon les règles Rojo: instance mappée par le projet si possible,
+ * sinon suffixes du nom de fichier (.server, .client, init.*)
+ */
+export function resolveScriptInfo(filePath: string, tree?: RojoProjectTree | null): ScriptInfo {
+  const instance = tree?.findByFile(filePath);
+  if (instance) {
+    const info = tree!.getScriptInfo(instance);
+    if (info) return info;
+  }
+
+  const described = describeRojoFile(path.basename(filePath));
+  const className = described && LUA_SCRIPT_CLASSES.has(described.className) ? described.className : 'ModuleScript';
+  const type = toScriptType(className)!;
+  return {
+    type,
+    className,
+    realm: type === 'LocalScript' ? 'client' : type === 'ServerScript' ? 'server' : 'shared'
+  };
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+// Chemin d'un projet (relatif à son dossier) vers un chemin relatif à la racine
+function relativeTo(baseDir: string, relativePath: string): string {
+  return path.posix.normalize(path.posix.join(baseDir, toPosix(relativePath)));
+}
+
+export class RojoProjectTree {
+  private readonly root: RojoInstance;
+  private readonly byFile: Map<string, RojoInstance> = new Map();
+  // Fichiers exclus par les globIgnorePaths des projets chargés
+  private readonly ignoredPaths: Set<string> = new Set();
+  // Projets en cours de chargement, pour détecter les imbrications récursives
+  private readonly loadingProjects: string[] = [];
+  // Fichiers lus pour construire l'arbre: projets chargés, dossiers et fichiers cibles des $path
+  private readonly projectFiles: Set<string> = new Set();
+  private readonly mappedDirectories: Set<string> = new Set();
+  private readonly mappedFiles: Set<string> = new Set();
+  private emitLegacyScripts = true;
+  public projectName?: string;
+
+  private constructor(
+    private readonly projectRoot: string,
+    public readonly projectFile: string
+  ) {
+    this.root = { name: 'game', className: 'DataModel', path: [], children: new Map(), ignoreUnknownInstances: true };
+  }
+
+  /**
+   * Charge un fichier projet Rojo et mappe ses $path sur le système de fichiers,
+   * y compris les projets imbriqués référencés par $path
+   */
+  static async load(projectRoot: string, projectFile: string = DEFAULT_PROJECT_FILE): Promise<RojoProjectTree> {
+    projectFile = await RojoProjectTree.resolveProjectFile(projectRoot, projectFile);
+    const tree = new RojoProjectTree(projectRoot, projectFile);
+    tree.projectName = await tree.loadProject(tree.root, toPosix(path.normalize(projectFile)));
+    return tree;
+  }
+
+  /**
+   * Fichier projet effectif: sans default.project.json, le projet par défaut est default.project.luau
+   */
+  static async resolveProjectFile(projectRoot: string, projectFile: string = DEFAULT_PROJECT_FILE): Promise<string> {
+    if (projectFile !== DEFAULT_PROJECT_FILE) return projectFile;
+    for (const candidate of DEFAULT_PROJECT_FILES) {
+      if (await fs.pathExists(path.join(projectRoot, candidate))) return candidate;
+    }
+    return projectFile;
+  }
+
+  /**
+   * Fichiers projet Rojo disponibles à la racine, projets par défaut en premier
+   */
+  static async listProjectFiles(projectRoot: string): Promise<string[]> {
+    const files = await glob(PROJECT_FILE_SUFFIXES.map(suffix => `*${suffix}`), { cwd: projectRoot });
+    const rank = (file: string) => {
+      const index = DEFAULT_PROJECT_FILES.indexOf(file);
+      return index === -1 ? DEFAULT_PROJECT_FILES.length : index;
+    };
+    return files.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+
+  getRoot(): RojoInstance {
+    return this.root;
+  }
+
+  /**
+   * Trouve une instance à partir de son chemin DataModel
+   */
+  findByPath(segments: string[]): RojoInstance | undefined {
+    let current: RojoInstance | undefined = this.root;
+    for (const segment of segments) {
+      current = current.children.get(segment);
+      if (!current) return undefined;
+    }
+    return current;
+  }
+
+  /**
+   * Retourne l'ancêtre le plus profond existant pour un chemin (utile pour diagnostiquer un chemin manquant)
+   */
+  findDeepestExisting(segments: string[]): { instance: RojoInstance; depth: number } {
+    let current = this.root;
+    let depth = 0;
+    for (const segment of segments) {
+      const child = current.children.get(segment);
+      if (!child) break;
+      current = child;
+      depth++;
+    }
+    return { instance: current, depth };
+  }
+
+  findByFile(filePath: string): RojoInstance | undefined {
+    return this.byFile.get(toPosix(path.normalize(filePath)));
+  }
+
+  /**
+   * Tous les scripts Luau mappés par le projet
+   */
+  getScripts(): RojoInstance[] {
+    return Array.from(this.byFile.values()).filter(instance =>
+      LUA_SCRIPT_CLASSES.has(instance.className) && /\.luau?$/.test(instance.filePath ?? '')
+    );
+  }
+
+  /**
+   * Contexte d'exécution déduit du conteneur (client, serveur ou partagé)
+   */
+  getRealm(instance: RojoInstance): Realm {
+    if (instance.runContext === 'Client') return 'client';
+    if (instance.runContext === 'Server') return 'server';
+
+    const service = instance.path[0];
+    if (service && CLIENT_CONTAINERS.includes(service)) return 'client';
+    if (service && SERVER_CONTAINERS.includes(service)) return 'server';
+    if (instance.className === 'LocalScript') return 'client';
+    if (instance.className === 'Script') return 'server';
+    return 'shared';
+  }
+
+  /**
+   * Type, contexte et chemin DataModel d'une instance de script
+   */
+  getScriptInfo(instance: RojoInstance): ScriptInfo | null {
+    const type = toScriptType(instance.className, instance.runContext);
+    if (!type) return null;
+
+    return {
+      type,
+      className: instance.className,
+      realm: this.getRealm(instance),
+      runContext: instance.runContext,
+      instancePath: RojoProjectTree.fullName(instance)
+    };
+  }
+
+  /**
+   * Fichiers projet chargés (racine et imbriqués) et cibles existantes des $path, par exemple
+   * pour surveiller tout ce dont dépend l'arbre
+   */
+  getSourcePaths(): { projectFiles: string[]; directories: string[]; files: string[] } {
+    return {
+      projectFiles: [...this.projectFiles],
+      directories: [...this.mappedDirectories],
+      files: [...this.mappedFiles]
+    };
+  }
+
+  static fullName(instance: RojoInstance): string {
+    return ['game', ...instance.path].join('.');
+  }
+
+  private async loadProject(instance: RojoInstance, projectFile: string): Promise<string | undefined> {
+    if (this.loadingProjects.includes(projectFile)) {
+      throw new Error(`Projet Rojo imbriqué récursivement: ${[...this.loadingProjects, projectFile].join(' → ')}`);
+    }
+
+    const config = await readProjectFile(path.join(this.projectRoot, projectFile));
+    if (typeof config?.tree !== 'object' || config.tree === null || Array.isArray(config.tree)) {
+      throw new Error(`${projectFile}: la clé "tree" est obligatoire et doit décrire l'instance racine du projet`);
+    }
+    const baseDir = path.posix.dirname(projectFile);
+
+    // Réglage global: seul le projet racine le définit
+    if (this.loadingProjects.length === 0 && config.emitLegacyScripts === false) {
+      this.emitLegacyScripts = false;
+    }
+
+    this.loadingProjects.push(projectFile);
+    this.projectFiles.add(projectFile);
+    try {
+      if (Array.isArray(config.globIgnorePaths)) {
+        await this.collectIgnoredPaths(baseDir, config.globIgnorePaths);
+      }
+
+      await this.populate(instance, config.tree, baseDir);
+    } finally {
+      this.loadingProjects.pop();
+    }
+
+    return typeof config.name === 'string' ? config.name : undefined;
+  }
+
+  private async collectIgnoredPaths(baseDir: string, patterns: string[]): Promise<void> {
+    const matches = await glob(patterns, { cwd: path.join(this.projectRoot, baseDir), dot: true, posix: true });
+    for (const match of matches) {
+      this.ignoredPaths.add(relativeTo(baseDir, match));
+    }
+  }
+
+  private isIgnored(relativePath: string): boolean {
+    return this.ignoredPaths.has(relativePath);
+  }
+
+  private createChild(parent: RojoInstance, name: string, className: string, ignoreUnknownInstances: boolean): RojoInstance {
+    const child: RojoInstance = {
+      name,
+      className,
+      path: [...parent.path, name],
+      children: new Map(),
+      parent,
+      ignoreUnknownInstances
+    };
+    parent.children.set(name, child);
+    return child;
+  }
+
+  private async populate(instance: RojoInstance, description: any, baseDir: string): Promise<void> {
+    if (typeof description !== 'object' || description === null) return;
+
+    if (typeof description.$className === 'string') {
+      instance.className = description.$className;
+    }
+
+    if (typeof description.$properties === 'object' && description.$properties !== null) {
+      this.applyProperties(instance, description.$properties);
+    }
+
+    const hasPath = typeof description.$path === 'string';
+    // Valeur par défaut de Rojo: true sans $path, false quand l'instance vient du disque
+    instance.ignoreUnknownInstances = typeof description.$ignoreUnknownInstances === 'boolean'
+      ? description.$ignoreUnknownInstances
+      : !hasPath;
+
+    if (hasPath) {
+      const mappedPath = relativeTo(baseDir, description.$path);
+      await this.mapPath(instance, mappedPath, description.$className);
+      if (instance.directory === mappedPath) {
+        this.mappedDirectories.add(mappedPath);
+      } else if (instance.filePath === mappedPath) {
+        this.mappedFiles.add(mappedPath);
+      }
+    }
+
+    for (const [key, value] of Object.entries(description)) {
+      if (key.startsWith('$')) continue;
+      // Les enfants directs du DataModel sans $className sont des services du même nom
+      const defaultClass = instance.className === 'DataModel' ? key : 'Folder';
+      const child = instance.children.get(key) ?? this.createChild(instance, key, defaultClass, true);
+      await this.populate(child, value, baseDir);
+    }
+  }
+
+  private async mapPath(instance: RojoInstance, relativePath: string, explicitClass?: string): Promise<void> {
+    const fullPath = path.join(this.projectRoot, relativePath);
+    if (!await fs.pathExists(fullPath)) return;
+
+    const stat = await fs.stat(fullPath);
+
+    if (stat.isFile()) {
+      if (isProjectFile(relativePath)) {
+        instance.projectFile = relativePath;
+        await this.loadProject(instance, relativePath);
+        return;
+      }
+
+      const described = describeRojoFile(path.basename(fullPath), this.emitLegacyScripts);
+      if (described && !explicitClass) {
+        instance.className = described.className;
+        instance.runContext ??= described.runContext;
+      }
+      instance.filePath = relativePath;
+      this.byFile.set(relativePath, instance);
+      return;
+    }
+
+    // Un dossier contenant un default.project.json (ou .luau) est un projet imbriqué
+    for (const defaultProject of DEFAULT_PROJECT_FILES) {
+      const nestedProject = `${relativePath}/${defaultProject}`;
+      if (await fs.pathExists(path.join(this.projectRoot, nestedProject))) {
+        instance.projectFile = nestedProject;
+        await this.loadProject(instance, nestedProject);
+        return;
+      }
+    }
+
+    instance.directory = relativePath;
+    await this.scanDirectory(instance, fullPath, relativePath);
+  }
+
+  private applyProperties(instance: RojoInstance, properties: Record<string, unknown>): void {
+    instance.properties = { ...instance.properties, ...properties };
+
+    const runContext = properties.RunContext;
+    if (typeof runContext === 'string' && RUN_CONTEXTS.includes(runContext as RunContext)) {
+      instance.runContext = runContext as RunContext;
+    }
+  }
+
+  /**
+   * Fichiers .meta.json: className, properties et ignoreUnknownInstances de l'instance associée
+   */
+  private async applyMetaFile(instance: RojoInstance, metaPath: string): Promise<void> {
+    let meta: any;
+    try {
+      meta = await fs.readJson(metaPath);
+    } catch {
+      return;
+    }
+
+    if (typeof meta.className === 'string') {
+      instance.className = meta.className;
+    }
+    if (typeof meta.properties === 'object' && meta.properties !== null) {
+      this.applyProperties(instance, meta.properties);
+    }
+    if (typeof meta.ignoreUnknownInstances === 'boolean') {
+      instance.ignoreUnknownInstances = meta.ignoreUnknownInstances;
+    }
+  }
+
+  private async scanDirectory(instance: RojoInstance, fullPath: string, relativePath: string): Promise<void> {
+    const entries = await fs.readdir(fullPath, { withFileTypes: true });
+    const metaFiles: string[] = [];
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const entryRelative = `${relativePath}/${entry.name}`;
+      if (this.isIgnored(entryRelative)) continue;
+
+      if (entry.isDirectory()) {
+        const child = instance.children.get(entry.name) ?? this.createChild(instance, entry.name, 'Folder', false);
+        await this.mapPath(child, entryRelative);
+        continue;
+      }
+
+      // Les .meta.json s'appliquent une fois les instances créées
+      if (entry.name.toLowerCase().endsWith(META_FILE_SUFFIX)) {
+        metaFiles.push(entry.name);
+        continue;
+      }
+
+      const described = describeRojoFile(entry.name, this.emitLegacyScripts);
+      if (!described) continue;
+
+      // init.luau / init.server.luau / init.client.luau transforment le dossier parent en script
+      if (described.name === 'init' && LUA_SCRIPT_CLASSES.has(described.className) && /\.luau?$/.test(entry.name)) {
+        instance.className = described.className;
+        instance.runContext = described.runContext;
+        instance.filePath = entryRelative;
+        this.byFile.set(entryRelative, instance);
+        continue;
+      }
+
+      const child = instance.children.get(described.name) ?? this.createChild(instance, described.name, described.className, false);
+      child.className = described.className;
+      child.runContext = described.runContext;
+      child.filePath = entryRelative;
+      this.byFile.set(entryRelative, child);
+    }
+
+    for (const metaFile of metaFiles) {
+      const name = metaFile.slice(0, -META_FILE_SUFFIX.length);
+      const target = name === 'init' ? instance : instance.children.get(name);
+      if (target) {
+        await this.applyMetaFile(target, path.join(fullPath, metaFile));
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { RojoProjectTree } from '../../rojo/project-tree.js';
+import { RequireResolver } from '../../analysis/require-resolver.js';
+import { getScaffoldGenerator, planScaffold, validateScaffold, buildRequireExpression } from '../scaffold.js';
+
+const PROJECT = {
+  name: 'Game',
+  tree: {
+    $className: 'DataModel',
+    ReplicatedStorage: { Shared: { $path: 'src/shared' } },
+    ServerScriptService: { $path: 'src/server' },
+    StarterPlayer: { StarterPlayerScripts: { $path: 'src/client' } }
+  }
+};
+
+describe('scaffold', () => {
+  let projectRoot: string;
+  let tree: RojoProjectTree;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-scaffold-'));
+    await fs.outputJson(path.join(projectRoot, 'default.project.json'), PROJECT);
+    await fs.outputFile(path.join(projectRoot, 'src/server/main.server.luau'), 'print("main")');
+    await fs.ensureDir(path.join(projectRoot, 'src/shared'));
+    await fs.ensureDir(path.join(projectRoot, 'src/client'));
+    tree = await RojoProjectTree.load(projectRoot);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  it('should place every file at its Rojo location and wire requires between them', async () => {
+    const plan = planScaffold(getScaffoldGenerator('remote-event')!, { Name: 'BuyItem' }, tree);
+
+    expect(plan.files.map(file => [file.filePath, ['game', ...file.instancePath].join('.')])).toEqual([
+      ['src/shared/Remotes/BuyItemTypes.luau', 'game.ReplicatedStorage.Shared.Remotes.BuyItemTypes'],
+      ['src/server/BuyItemHandler.server.luau', 'game.ServerScriptService.BuyItemHandler'],
+      ['src/client/BuyItemClient.luau', 'game.StarterPlayer.StarterPlayerScripts.BuyItemClient']
+    ]);
+    expect(validateScaffold(plan).size).toBe(0);
+    expect(plan.files[1].content).toContain('remote.Name = "BuyItem"');
+    expect(plan.files[1].content).toContain('remotes.Name = "Remotes"');
+
+    for (const file of plan.files) {
+      await fs.outputFile(path.join(projectRoot, file.filePath), file.content);
+    }
+    const reloaded = await RojoProjectTree.load(projectRoot);
+    const resolver = new RequireResolver(reloaded);
+    for (const file of plan.files.slice(1)) {
+      expect(resolver.resolveRequires(file.filePath, file.content).map(reference => reference.resolvedFile))
+        .toEqual(['src/shared/Remotes/BuyItemTypes.luau']);
+    }
+  });
+
+  it('should require modules relatively inside containers cloned into the player', () => {
+    expect(buildRequireExpression(
+      ['StarterPlayer', 'StarterPlayerScripts', 'ShopUI'],
+      ['StarterPlayer', 'StarterPlayerScripts', 'Controllers', 'ShopController']
+    )).toBe('require(script.Parent:WaitForChild("Controllers"):WaitForChild("ShopController"))');
+
+    const plan = planScaffold(getScaffoldGenerator('ui-controller')!, { Name: 'Shop', ScreenGuiName: 'ShopGui' }, tree);
+    expect(validateScaffold(plan).size).toBe(0);
+    expect(plan.files[1].content.split('\n')[0])
+      .toBe('local ShopController = require(script.Parent:WaitForChild("Controllers"):WaitForChild("ShopController"))');
+  });
+
+  it('should reject invalid variables, existing instances and unmapped containers', () => {
+    const generator = getScaffoldGenerator('datastore-service')!;
+    expect(validateScaffold(planScaffold(generator, { Name: 'PlayerData' }, tree)).size).toBe(0);
+    expect(() => planScaffold(generator, { Name: 'Player Data' }, tree)).toThrow("n'est pas un identifiant");
+
+    const types = getScaffoldGenerator('shared-types')!;
+    const existing = { ...types, files: [{ ...types.files[0], location: 'server' as const, path: 'main' }] };
+    expect(() => planScaffold(existing, { Name: 'Main' }, tree)).toThrow('game.ServerScriptService.main existe déjà');
+
+    expect(() => planScaffold(generator, { Name: 'PlayerData' }, tree, { server: 'ServerStorage' }))
+      .toThrow("game n'est pas mappé sur un dossier");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import { compileTemplate, renderTemplate, TEMPLATE_FILTERS, CompiledTemplate } from '../template-engine.js';
+
+const render = (source: string, values: Record<string, any>, partials: Record<string, string> = {}) =>
+  renderTemplate(compileTemplate(source), values, {
+    partials: name => partials[name] !== undefined ? compileTemplate(partials[name]) : undefined
+  });
+
+describe('template engine', () => {
+  it('should emit a variable number of parameters and optional annotations', () => {
+    const source = [
+      'local function {{name | camel}}(player: Player{{#each params}}, {{name}}{{#if type}}: {{type}}{{/if}}{{/each}})',
+      '{{#if validate}}',
+      '\tassert(player, "player requis")',
+      '{{/if}}',
+      'end'
+    ].join('\n');
+
+    expect(render(source, {
+      name: 'buy item',
+      validate: true,
+      params: [{ name: 'itemId', type: 'string' }, { name: 'amount', type: '' }]
+    })).toBe('local function buyItem(player: Player, itemId: string, amount)\n\tassert(player, "player requis")\nend');
+
+    expect(render(source, { name: 'BuyItem', validate: false, params: [] }))
+      .toBe('local function buyItem(player: Player)\nend');
+  });
+
+  it('should apply filters, loop helpers and indented partials', () => {
+    expect(TEMPLATE_FILTERS.pascal('player_data store')).toBe('PlayerDataStore');
+    expect(TEMPLATE_FILTERS.camel('HTTPService')).toBe('httpService');
+    expect(TEMPLATE_FILTERS.constant('maxRetries')).toBe('MAX_RETRIES');
+
+    const source = [
+      'local Items = {',
+      '{{#each items}}',
+      '\t{{this | pascal}} = {{@index}},',
+      '{{/each}}',
+      '}',
+      'do',
+      '\t{{> footer}}',
+      'end'
+    ].join('\n');
+    expect(render(source, { items: ['sword', 'magic wand'], label: 'Items' }, { footer: 'print("{{label}}")\nprint("fin")' }))
+      .toBe('local Items = {\n\tSword = 0,\n\tMagicWand = 1,\n}\ndo\n\tprint("Items")\n\tprint("fin")\nend');
+  });
+
+  it('should reject malformed templates when compiling', () => {
+    expect(() => compileTemplate('{{#if a}}\nx\n')).toThrow('Ligne 1: Bloc {{#if a}} non fermé');
+    expect(() => compileTemplate('a\n{{name | shout}}')).toThrow('Ligne 2: Filtre inconnu "shout"');
+    expect(() => compileTemplate('{{#each a}}{{/if}}')).toThrow('{{/if}} ne ferme aucun bloc ({{/each}} attendu)');
+    expect(() => compileTemplate('{{#while a}}{{/while}}')).toThrow('Bloc inconnu "#while"');
+
+    const compiled: CompiledTemplate = compileTemplate('{{#each fields}}{{name}}{{/each}} {{Type}} {{> header}}');
+    expect(compiled.variables).toEqual(['fields', 'Type']);
+    expect(compiled.partials).toEqual(['header']);
+  });
+
+  it('should fail on undefined variables but leave Luau table literals untouched', () => {
+    expect(() => render('local x = {{missing}}', {})).toThrow('Variable non définie "missing"');
+    expect(() => render('{{> nope}}', {})).toThrow('Partial inconnu "nope"');
+    expect(() => render('{{list}}', { list: ['a'] })).toThrow('utiliser {{#each list}} ou le filtre join');
+    expect(render('local grid = {{1, 2}, {3, 4}}\nraycast({{{ignore}}})', { ignore: 'part' }))
+      .toBe('local grid = {{1, 2}, {3, 4}}\nraycast({part})');
+  });
+});
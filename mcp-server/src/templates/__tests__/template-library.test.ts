@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { TemplateLibrary, parseTemplateFile } from '../template-library.js';
+
+const SERVICE_TEMPLATE = [
+  '---',
+  'name: ProjectService',
+  'description: Service du projet',
+  'category: service',
+  'scriptType: server',
+  'variables:',
+  '  ServiceName:',
+  '    type: identifier',
+  '  MaxRetries:',
+  '    type: number',
+  '    default: 3',
+  '  Mode:',
+  '    type: enum',
+  '    values: [strict, lenient]',
+  '    default: strict',
+  '---',
+  'local {{ServiceName}} = { maxRetries = {{MaxRetries}}, mode = "{{Mode}}" }',
+  'return {{ServiceName}}',
+  ''
+].join('\n');
+
+describe('TemplateLibrary', () => {
+  let projectRoot: string;
+  let library: TemplateLibrary;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-roblox-templates-'));
+    library = new TemplateLibrary(projectRoot);
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  it('should parse front-matter metadata and typed variables', () => {
+    const template = parseTemplateFile('.mcp-roblox/templates/service.luau', SERVICE_TEMPLATE);
+
+    expect(template).toMatchObject({ name: 'ProjectService', category: 'service', scriptType: 'server', source: 'project' });
+    expect(template.variables.map(variable => [variable.name, variable.type, variable.required, variable.default])).toEqual([
+      ['ServiceName', 'identifier', true, undefined],
+      ['MaxRetries', 'number', false, '3'],
+      ['Mode', 'enum', false, 'strict']
+    ]);
+    expect(template.code.startsWith('local {{ServiceName}}')).toBe(true);
+
+    expect(() => parseTemplateFile('bad.luau', '---\nvariables:\n  Count: number\n---\nprint({{Count}}, {{Other}})'))
+      .toThrow('Other');
+  });
+
+  it('should load project templates, override built-ins and report invalid files', async () => {
+    const directory = library.directory;
+    await fs.outputFile(path.join(directory, 'service.luau'), SERVICE_TEMPLATE);
+    await fs.outputFile(path.join(directory, 'remote.luau'), '---\nname: remote-event-server\ncategory: event\n---\n-- remote du projet');
+    await fs.outputFile(path.join(directory, 'broken.luau'), '---\nvariables:\n  Count:\n    type: integer\n---\nprint({{Count}})');
+    await library.reload();
+
+    expect(library.get('ProjectService')?.source).toBe('project');
+    expect(library.get('remote-event-server')).toMatchObject({ source: 'project', overridesBuiltin: true });
+    expect(library.list().filter(template => template.name === 'remote-event-server')).toHaveLength(1);
+    expect(library.get('datastore-setup')?.source).toBe('builtin');
+    expect(library.getLoadErrors()).toEqual([
+      { file: '.mcp-roblox/templates/broken.luau', message: expect.stringContaining('type inconnu "integer"') }
+    ]);
+    expect(library.isTemplateFile('.mcp-roblox/templates/service.luau')).toBe(true);
+    expect(library.isTemplateFile('src/server/main.server.luau')).toBe(false);
+  });
+
+  it('should apply defaults and reject invalid values', async () => {
+    await fs.outputFile(path.join(library.directory, 'service.luau'), SERVICE_TEMPLATE);
+    await library.reload();
+
+    const { code } = library.render('ProjectService', { ServiceName: 'Inventory' });
+    expect(code).toBe('local Inventory = { maxRetries = 3, mode = "strict" }\nreturn Inventory');
+
+    expect(() => library.render('ProjectService', { ServiceName: 'my service', MaxRetries: 'many', Mode: 'loose' }))
+      .toThrow(/ServiceName: "my service" n'est pas un identifiant[\s\S]*MaxRetries[\s\S]*Mode/);
+    expect(() => library.render('ProjectService', {})).toThrow('ServiceName: valeur manquante');
+    expect(() => library.render('Unknown', {})).toThrow("Template 'Unknown' non trouvé");
+  });
+
+  it('should check partials when loading and syntax-check the generated code', async () => {
+    const directory = library.directory;
+    await fs.outputFile(path.join(directory, 'header.luau'), '---\nvariables:\n  Name: identifier\n---\n-- Module {{Name}}');
+    await fs.outputFile(path.join(directory, 'module.luau'), [
+      '---',
+      'variables:',
+      '  Name: identifier',
+      '  Fields: list',
+      '---',
+      '{{> header}}',
+      'local {{Name}} = {',
+      '{{#each Fields}}',
+      '\t{{this}} = nil,',
+      '{{/each}}',
+      '}',
+      'return {{Name}}'
+    ].join('\n'));
+    await fs.outputFile(path.join(directory, 'loop.luau'), '{{> loop}}');
+    await fs.outputFile(path.join(directory, 'orphan.luau'), '{{> missing}}');
+    await library.reload();
+
+    expect(library.getLoadErrors()).toEqual([
+      { file: '.mcp-roblox/templates/loop.luau', message: 'Inclusion récursive de partials: loop → loop' },
+      { file: '.mcp-roblox/templates/orphan.luau', message: 'Partial inconnu "missing"' }
+    ]);
+
+    const result = library.render('module', { Name: 'Config', Fields: ['speed', 'jump'] });
+    expect(result.code).toBe('-- Module Config\nlocal Config = {\n\tspeed = nil,\n\tjump = nil,\n}\nreturn Config');
+    expect(result.syntaxErrors).toEqual([]);
+
+    expect(library.render('module', { Name: 'Config', Fields: ['end'] }).syntaxErrors).not.toEqual([]);
+    expect(() => library.render('module', { Name: 'Config', Fields: 'speed' })).toThrow('Fields: une liste est attendue');
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * Générateurs multi-fichiers: chaque fichier est placé à un chemin DataModel, converti en fichier
+ * selon les mappings Rojo, et les require entre fichiers générés sont câblés automatiquement
+ */
+
+import path from 'path';
+import { applyTemplate } from '../../templates.js';
+import { RojoProjectTree } from '../rojo/project-tree.js';
+import { syntaxEnforcer } from '../validation/syntax-enforcer.js';
+import { TemplateScriptType, TemplateVariable, resolveTemplateVariables } from './template-library.js';
+import { TemplateValue } from './template-engine.js';
+
+// Emplacement logique d'un fichier, résolu vers un conteneur DataModel du projet
+export type ScaffoldLocation = 'server' | 'client' | 'shared';
+
+export interface ScaffoldFileSpec {
+  // Identifiant utilisé par les autres fichiers: {{require:id}}
+  id: string;
+  location: ScaffoldLocation;
+  // Chemin relatif à l'emplacement, segments séparés par "/" (ex: "Services/{{Name}}Service")
+  path: string;
+  scriptType: TemplateScriptType;
+  code: string;
+}
+
+export interface ScaffoldGenerator {
+  name: string;
+  description: string;
+  variables: TemplateVariable[];
+  files: ScaffoldFileSpec[];
+}
+
+export interface ScaffoldFile {
+  id: string;
+  scriptType: TemplateScriptType;
+  // Chemin DataModel sans "game"
+  instancePath: string[];
+  filePath: string;
+  content: string;
+}
+
+export interface ScaffoldPlan {
+  generator: ScaffoldGenerator;
+  variables: Record<string, TemplateValue>;
+  roots: Record<ScaffoldLocation, string[]>;
+  files: ScaffoldFile[];
+}
+
+const SCRIPT_SUFFIXES: Record<TemplateScriptType, string> = {
+  server: '.server.luau',
+  client: '.client.luau',
+  module: '.luau'
+};
+
+// Conteneurs copiés dans le joueur à l'exécution: un require par chemin absolu viserait l'original
+const CLONED_CONTAINERS: Record<string, number> = {
+  StarterPlayer: 2,
+  StarterGui: 1,
+  StarterPack: 1,
+  ReplicatedFirst: 1
+};
+
+const REQUIRE_PLACEHOLDER = /{{require:(\w+)}}/g;
+
+const identifier = (name: string, description: string): TemplateVariable =>
+  ({ name, type: 'identifier', description, required: true });
+
+export const scaffoldGenerators: ScaffoldGenerator[] = [
+  {
+    name: 'remote-event',
+    description: 'RemoteEvent avec handler serveur validé, wrapper client et module de types partagé',
+    variables: [
+      identifier('Name', 'Nom du RemoteEvent (ex: BuyItem)'),
+      { name: 'RemotesFolder', type: 'identifier', description: 'Dossier des remotes dans ReplicatedStorage', default: 'Remotes', required: false }
+    ],
+    files: [
+      {
+        id: 'types',
+        location: 'shared',
+        path: 'Remotes/{{Name}}Types',
+        scriptType: 'module',
+        code: `--!strict
+-- Types et validation du payload de {{Name}}, partagés entre client et serveur
+
+export type Payload = {
+	action: string,
+}
+
+local {{Name}}Types = {}
+
+function {{Name}}Types.isPayload(value: any): boolean
+	return type(value) == "table" and type(value.action) == "string"
+end
+
+return {{Name}}Types`
+      },
+      {
+        id: 'server',
+        location: 'server',
+        path: '{{Name}}Handler',
+        scriptType: 'server',
+        code: `local ReplicatedStorage = game:GetService("ReplicatedStorage")
+
+local {{Name}}Types = {{require:types}}
+
+local remotes = ReplicatedStorage:FindFirstChild("{{RemotesFolder}}")
+if not remotes then
+	remotes = Instance.new("Folder")
+	remotes.Name = "{{RemotesFolder}}"
+	remotes.Parent = ReplicatedStorage
+end
+
+local remote = Instance.new("RemoteEvent")
+remote.Name = "{{Name}}"
+remote.Parent = remotes
+
+remote.OnServerEvent:Connect(function(player: Player, payload: any)
+	-- Ne jamais faire confiance au client: valider avant d'agir
+	if not {{Name}}Types.isPayload(payload) then
+		warn("{{Name}}: payload invalide reçu de " .. player.Name)
+		return
+	end
+
+	print("{{Name}}: " .. payload.action .. " demandé par " .. player.Name)
+end)`
+      },
+      {
+        id: 'client',
+        location: 'client',
+        path: '{{Name}}Client',
+        scriptType: 'module',
+        code: `local ReplicatedStorage = game:GetService("ReplicatedStorage")
+
+local {{Name}}Types = {{require:types}}
+
+local remote = ReplicatedStorage:WaitForChild("{{RemotesFolder}}"):WaitForChild("{{Name}}")
+
+local {{Name}}Client = {}
+
+function {{Name}}Client.fire(payload: {{Name}}Types.Payload)
+	remote:FireServer(payload)
+end
+
+function {{Name}}Client.onEvent(callback: (...any) -> ()): RBXScriptConnection
+	return remote.OnClientEvent:Connect(callback)
+end
+
+return {{Name}}Client`
+      }
+    ]
+  },
+  {
+    name: 'shared-types',
+    description: 'Module de types partagé entre client et serveur',
+    variables: [identifier('Name', 'Nom du type exporté (ex: Inventory)')],
+    files: [
+      {
+        id: 'types',
+        location: 'shared',
+        path: 'Types/{{Name}}',
+        scriptType: 'module',
+        code: `--!strict
+-- Types partagés entre client et serveur
+
+export type {{Name}} = {
+	id: string,
+}
+
+local {{Name}} = {}
+
+function {{Name}}.new(id: string): {{Name}}
+	return { id = id }
+end
+
+return {{Name}}`
+      }
+    ]
+  },
+  {
+    name: 'datastore-service',
+    description: 'Service DataStore avec cache, sauvegarde à la déconnexion et leaderstats',
+    variables: [
+      identifier('Name', 'Nom du service (ex: PlayerData)'),
+      { name: 'StatName', type: 'identifier', description: 'Statistique affichée dans leaderstats', default: 'Coins', required: false },
+      { name: 'DataStoreName', type: 'string', description: 'Nom du DataStore', default: 'PlayerData_v1', required: false }
+    ],
+    files: [
+      {
+        id: 'service',
+        location: 'server',
+        path: 'Services/{{Name}}Service',
+        scriptType: 'module',
+        code: `local DataStoreService = game:GetService("DataStoreService")
+
+local store = DataStoreService:GetDataStore("{{DataStoreName}}")
+
+local DEFAULT_DATA = {
+	{{StatName}} = 0,
+}
+
+local cache: { [number]: { [string]: any } } = {}
+
+local {{Name}}Service = {}
+
+function {{Name}}Service.load(player: Player): { [string]: any }
+	local success, result = pcall(function()
+		return store:GetAsync(tostring(player.UserId))
+	end)
+	if not success then
+		warn("{{Name}}Service: chargement impossible pour " .. player.Name .. ": " .. tostring(result))
+	end
+
+	local data = table.clone(DEFAULT_DATA)
+	if success and type(result) == "table" then
+		for key, value in pairs(result) do
+			data[key] = value
+		end
+	end
+	cache[player.UserId] = data
+	return data
+end
+
+function {{Name}}Service.get(player: Player): { [string]: any }?
+	return cache[player.UserId]
+end
+
+function {{Name}}Service.save(player: Player)
+	local data = cache[player.UserId]
+	if not data then
+		return
+	end
+
+	local success, err = pcall(function()
+		store:SetAsync(tostring(player.UserId), data)
+	end)
+	if not success then
+		warn("{{Name}}Service: sauvegarde impossible pour " .. player.Name .. ": " .. tostring(err))
+	end
+end
+
+function {{Name}}Service.release(player: Player)
+	{{Name}}Service.save(player)
+	cache[player.UserId] = nil
+end
+
+return {{Name}}Service`
+      },
+      {
+        id: 'leaderstats',
+        location: 'server',
+        path: '{{Name}}Leaderstats',
+        scriptType: 'server',
+        code: `local Players = game:GetService("Players")
+
+local {{Name}}Service = {{require:service}}
+
+local function onPlayerAdded(player: Player)
+	local data = {{Name}}Service.load(player)
+
+	local leaderstats = Instance.new("Folder")
+	leaderstats.Name = "leaderstats"
+
+	local stat = Instance.new("IntValue")
+	stat.Name = "{{StatName}}"
+	stat.Value = data.{{StatName}}
+	stat.Changed:Connect(function(value)
+		data.{{StatName}} = value
+	end)
+	stat.Parent = leaderstats
+
+	leaderstats.Parent = player
+end
+
+Players.PlayerAdded:Connect(onPlayerAdded)
+for _, player in ipairs(Players:GetPlayers()) do
+	task.spawn(onPlayerAdded, player)
+end
+
+Players.PlayerRemoving:Connect(function(player)
+	{{Name}}Service.release(player)
+end)
+
+game:BindToClose(function()
+	for _, player in ipairs(Players:GetPlayers()) do
+		{{Name}}Service.release(player)
+	end
+end)`
+      }
+    ]
+  },
+  {
+    name: 'ui-controller',
+    description: "Contrôleur d'interface client et LocalScript qui le démarre",
+    variables: [
+      identifier('Name', 'Nom du contrôleur (ex: Shop)'),
+      { name: 'ScreenGuiName', type: 'string', description: 'Nom du ScreenGui dans StarterGui', required: true }
+    ],
+    files: [
+      {
+        id: 'controller',
+        location: 'client',
+        path: 'Controllers/{{Name}}Controller',
+        scriptType: 'module',
+        code: `local Players = game:GetService("Players")
+
+local connections: { RBXScriptConnection } = {}
+local gui: ScreenGui? = nil
+
+local {{Name}}Controller = {}
+
+function {{Name}}Controller.start()
+	local playerGui = Players.LocalPlayer:WaitForChild("PlayerGui")
+	gui = playerGui:WaitForChild("{{ScreenGuiName}}") :: ScreenGui
+	-- Connecter ici les éléments de l'interface, ex:
+	-- table.insert(connections, gui.Frame.Button.Activated:Connect(onActivated))
+end
+
+function {{Name}}Controller.setVisible(visible: boolean)
+	if gui then
+		gui.Enabled = visible
+	end
+end
+
+function {{Name}}Controller.stop()
+	for _, connection in ipairs(connections) do
+		connection:Disconnect()
+	end
+	table.clear(connections)
+	gui = nil
+end
+
+return {{Name}}Controller`
+      },
+      {
+        id: 'bootstrap',
+        location: 'client',
+        path: '{{Name}}UI',
+        scriptType: 'client',
+        code: `local {{Name}}Controller = {{require:controller}}
+
+{{Name}}Controller.start()`
+      }
+    ]
+  }
+];
+
+export function getScaffoldGenerator(name: string): ScaffoldGenerator | undefined {
+  return scaffoldGenerators.find(generator => generator.name === name);
+}
+
+/**
+ * "game.ReplicatedStorage.Shared" ou "ReplicatedStorage/Shared" → ["ReplicatedStorage", "Shared"]
+ */
+export function parseDataModelPath(value: string): string[] {
+  const segments = value.split(/[./]/).filter(segment => segment.length > 0);
+  return segments[0] === 'game' ? segments.slice(1) : segments;
+}
+
+/**
+ * Conteneurs par défaut: ServerScriptService, StarterPlayerScripts, ReplicatedStorage.Shared (sinon ReplicatedStorage)
+ */
+export function resolveScaffoldRoots(
+  tree: RojoProjectTree,
+  overrides: Partial<Record<ScaffoldLocation, string>> = {}
+): Record<ScaffoldLocation, string[]> {
+  const shared = tree.findByPath(['ReplicatedStorage', 'Shared']) ? ['ReplicatedStorage', 'Shared'] : ['ReplicatedStorage'];
+  const roots: Record<ScaffoldLocation, string[]> = {
+    server: ['ServerScriptService'],
+    client: ['StarterPlayer', 'StarterPlayerScripts'],
+    shared
+  };
+  for (const [location, value] of Object.entries(overrides)) {
+    if (!(location in roots)) {
+      throw new Error(`Emplacement inconnu "${location}" (attendu: server, client, shared)`);
+    }
+    if (value) roots[location as ScaffoldLocation] = parseDataModelPath(value);
+  }
+  return roots;
+}
+
+/**
+ * Fichier à créer pour une nouvelle instance: le plus proche ancêtre mappé sur un dossier
+ * reçoit les dossiers intermédiaires puis le script (Rojo en fait des Folder)
+ */
+export function resolveNewScriptFile(tree: RojoProjectTree, instancePath: string[], scriptType: TemplateScriptType): string {
+  const fullName = ['game', ...instancePath].join('.');
+  if (tree.findByPath(instancePath)) {
+    throw new Error(`${fullName} existe déjà dans le projet`);
+  }
+
+  const parentPath = instancePath.slice(0, -1);
+  const { instance, depth } = tree.findDeepestExisting(parentPath);
+  if (!instance.directory) {
+    const owner = depth > 0 ? RojoProjectTree.fullName(instance) : 'game';
+    throw new Error(`${owner} n'est pas mappé sur un dossier par le projet Rojo: impossible de créer ${fullName}`);
+  }
+
+  const name = instancePath[instancePath.length - 1];
+  return path.posix.join(instance.directory, ...parentPath.slice(depth), name + SCRIPT_SUFFIXES[scriptType]);
+}
+
+/**
+ * Expression require d'un module depuis un script: relative (script.Parent) dans un conteneur copié
+ * dans le joueur, sinon absolue depuis le service
+ */
+export function buildRequireExpression(from: string[], target: string[]): string {
+  let common = 0;
+  while (common < from.length - 1 && common < target.length && from[common] === target[common]) common++;
+
+  const clonedDepth = CLONED_CONTAINERS[target[0]];
+  if (clonedDepth !== undefined && common >= clonedDepth) {
+    const parents = '.Parent'.repeat(from.length - common);
+    const children = target.slice(common).map(segment => `:WaitForChild("${segment}")`).join('');
+    return `require(script${parents}${children})`;
+  }
+
+  const children = target.slice(1).map(segment => `:WaitForChild("${segment}")`).join('');
+  return `require(game:GetService("${target[0]}")${children})`;
+}
+
+/**
+ * Valide les variables, résout les emplacements et génère le contenu de chaque fichier
+ */
+export function planScaffold(
+  generator: ScaffoldGenerator,
+  values: Record<string, unknown>,
+  tree: RojoProjectTree,
+  rootOverrides: Partial<Record<ScaffoldLocation, string>> = {}
+): ScaffoldPlan {
+  const variables = resolveTemplateVariables(generator, values);
+  const roots = resolveScaffoldRoots(tree, rootOverrides);
+
+  // Chemins d'abord: les require de chaque fichier pointent vers les autres
+  const targets = new Map<string, string[]>();
+  for (const spec of generator.files) {
+    const relative = applyTemplate({ code: spec.path }, variables).split('/').filter(segment => segment.length > 0);
+    targets.set(spec.id, [...roots[spec.location], ...relative]);
+  }
+
+  const files = generator.files.map(spec => {
+    const instancePath = targets.get(spec.id)!;
+    const code = spec.code.replace(REQUIRE_PLACEHOLDER, (_, id: string) => {
+      const target = targets.get(id);
+      if (!target) throw new Error(`Générateur '${generator.name}': fichier "${id}" inconnu dans {{require:${id}}}`);
+      return buildRequireExpression(instancePath, target);
+    });
+
+    return {
+      id: spec.id,
+      scriptType: spec.scriptType,
+      instancePath,
+      filePath: resolveNewScriptFile(tree, instancePath, spec.scriptType),
+      content: applyTemplate({ code }, variables) + '\n'
+    };
+  });
+
+  const duplicates = files.filter((file, index) => files.findIndex(other => other.filePath === file.filePath) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`Plusieurs fichiers générés au même emplacement: ${duplicates.map(file => file.filePath).join(', ')}`);
+  }
+
+  return { generator, variables, roots, files };
+}
+
+/**
+ * Erreurs de syntaxe de chaque fichier généré (vide si tout est valide)
+ */
+export function validateScaffold(plan: ScaffoldPlan): Map<string, string[]> {
+  const errors = new Map<string, string[]>();
+  for (const file of plan.files) {
+    const validation = syntaxEnforcer.validateBeforeModification('', file.content, 'scaffold');
+    if (!validation.isValid) errors.set(file.filePath, validation.errors);
+  }
+  return errors;
+}
@@ -0,0 +1,328 @@
+/**
+ * Moteur de templates: {{variable | filtre}}, blocs {{#if}}/{{#unless}}/{{#each}} avec {{else}},
+ * inclusions {{> partial}} et erreur sur toute variable non définie
+ */
+
+export type TemplateValue = string | number | boolean | TemplateValue[] | { [key: string]: TemplateValue };
+
+export type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; path: string; filters: string[]; line: number }
+  | { kind: 'if'; path: string; negate: boolean; body: TemplateNode[]; alternate: TemplateNode[]; line: number }
+  | { kind: 'each'; path: string; body: TemplateNode[]; alternate: TemplateNode[]; line: number }
+  // indent/newline: partial seul sur sa ligne, dont la ligne a été retirée du texte
+  | { kind: 'partial'; name: string; indent: string; newline: string; line: number };
+
+export interface CompiledTemplate {
+  nodes: TemplateNode[];
+  // Variables du contexte racine référencées hors des boucles (et cibles des boucles)
+  variables: string[];
+  partials: string[];
+}
+
+export class TemplateError extends Error {
+  constructor(public readonly detail: string, public readonly line?: number) {
+    super(line !== undefined ? `Ligne ${line}: ${detail}` : detail);
+    this.name = 'TemplateError';
+  }
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0);
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+export const TEMPLATE_FILTERS: Record<string, (value: TemplateValue) => string> = {
+  pascal: value => words(String(value)).map(capitalize).join(''),
+  camel: value => {
+    const pascal = words(String(value)).map(capitalize).join('');
+    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  },
+  snake: value => words(String(value)).map(word => word.toLowerCase()).join('_'),
+  constant: value => words(String(value)).map(word => word.toUpperCase()).join('_'),
+  upper: value => String(value).toUpperCase(),
+  lower: value => String(value).toLowerCase(),
+  // Liste → "a, b, c"
+  join: value => Array.isArray(value) ? value.map(item => stringify(item, 'join')).join(', ') : String(value),
+  // Chaîne Luau entre guillemets
+  quote: value => JSON.stringify(String(value))
+};
+
+function stringify(value: TemplateValue, path: string, line?: number): string {
+  if (typeof value === 'object') {
+    throw new TemplateError(`"${path}" est une ${Array.isArray(value) ? 'liste' : 'table'}: utiliser {{#each ${path}}} ou le filtre join`, line);
+  }
+  return String(value);
+}
+
+// Contenu d'une balise: bloc, inclusion, commentaire ou variable avec filtres
+const TAG_CONTENT = /^\s*(?:[#/>!]|else\s*$|[A-Za-z_@][\w.@]*\s*(?:\|\s*\w+\s*)*$)/;
+const PATH = /^(?:this|@\w+|[A-Za-z_][\w]*(?:\.[A-Za-z_]\w*)*)$/;
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; value: string; line: number; indent: string; newline: string };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let text = '';
+  let position = 0;
+  let line = 1;
+  let counted = 0;
+
+  while (position < source.length) {
+    const open = source.indexOf('{{', position);
+    if (open === -1) break;
+    const close = source.indexOf('}}', open + 2);
+    const content = close === -1 ? '' : source.slice(open + 2, close);
+
+    // Code Luau qui ressemble à une balise ({{1, 2}}, {{{x}}}): laissé tel quel
+    if (close === -1 || content.includes('\n') || !TAG_CONTENT.test(content)) {
+      text += source.slice(position, open + 1);
+      position = open + 1;
+      continue;
+    }
+
+    text += source.slice(position, open);
+    line += (source.slice(counted, open).match(/\n/g) ?? []).length;
+    counted = open;
+    tokens.push({ type: 'text', value: text });
+    tokens.push({ type: 'tag', value: content.trim(), line, indent: '', newline: '' });
+    text = '';
+    position = close + 2;
+  }
+  tokens.push({ type: 'text', value: text + source.slice(position) });
+
+  // Une balise de bloc seule sur sa ligne ne laisse pas de ligne vide dans le résultat
+  for (let index = 1; index < tokens.length - 1; index += 2) {
+    const tag = tokens[index] as Extract<Token, { type: 'tag' }>;
+    if (!/^[#/>!]|^else$/.test(tag.value)) continue;
+
+    const before = tokens[index - 1] as Extract<Token, { type: 'text' }>;
+    const after = tokens[index + 1] as Extract<Token, { type: 'text' }>;
+    const lineStart = before.value.match(/(^|\n)([ \t]*)$/);
+    const lineEnd = after.value.match(/^[ \t]*(\r?\n|$)/);
+    const atStart = lineStart && (lineStart[1] === '\n' || index === 1);
+    const atEnd = lineEnd && (lineEnd[1] !== '' || index === tokens.length - 2);
+    if (!atStart || !atEnd) continue;
+
+    tag.indent = lineStart[2];
+    tag.newline = lineEnd[1];
+    before.value = before.value.slice(0, before.value.length - lineStart[2].length);
+    after.value = after.value.slice(lineEnd[0].length);
+  }
+
+  return tokens;
+}
+
+function parsePath(path: string, line: number): string {
+  if (!PATH.test(path)) throw new TemplateError(`Chemin de variable invalide "${path}"`, line);
+  return path;
+}
+
+/**
+ * Analyse un template; les erreurs (blocs non fermés, filtres inconnus...) sont levées ici, au chargement
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const tokens = tokenize(source);
+  const variables = new Set<string>();
+  const partials = new Set<string>();
+
+  type Frame = { node: Extract<TemplateNode, { kind: 'if' | 'each' }> | null; inElse: boolean; nodes: TemplateNode[] };
+  const root: Frame = { node: null, inElse: false, nodes: [] };
+  const stack: Frame[] = [root];
+  let loopDepth = 0;
+
+  const reference = (path: string) => {
+    const name = path.split('.')[0];
+    if (loopDepth === 0 && name !== 'this' && !name.startsWith('@')) variables.add(name);
+  };
+
+  for (const token of tokens) {
+    const frame = stack[stack.length - 1];
+    if (token.type === 'text') {
+      if (token.value) frame.nodes.push({ kind: 'text', value: token.value });
+      continue;
+    }
+
+    const { value, line } = token;
+    if (value.startsWith('!')) continue;
+
+    if (value.startsWith('#')) {
+      const [keyword, ...rest] = value.slice(1).trim().split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        throw new TemplateError(`Bloc inconnu "#${keyword}" (attendu: #if, #unless, #each)`, line);
+      }
+      if (rest.length !== 1) throw new TemplateError(`{{#${keyword}}} attend une seule variable`, line);
+      const path = parsePath(rest[0], line);
+      reference(path);
+
+      const node: Extract<TemplateNode, { kind: 'if' | 'each' }> = keyword === 'each'
+        ? { kind: 'each', path, body: [], alternate: [], line }
+        : { kind: 'if', path, negate: keyword === 'unless', body: [], alternate: [], line };
+      frame.nodes.push(node);
+      stack.push({ node, inElse: false, nodes: node.body });
+      if (keyword === 'each') loopDepth++;
+      continue;
+    }
+
+    if (value === 'else') {
+      if (!frame.node || frame.inElse) throw new TemplateError('{{else}} hors d\'un bloc #if/#unless/#each', line);
+      frame.inElse = true;
+      frame.nodes = frame.node.alternate;
+      continue;
+    }
+
+    if (value.startsWith('/')) {
+      const keyword = value.slice(1).trim();
+      const expected = frame.node?.kind === 'each' ? 'each' : frame.node && (frame.node.kind === 'if' && frame.node.negate ? 'unless' : 'if');
+      if (!frame.node || keyword !== expected) {
+        throw new TemplateError(`{{/${keyword}}} ne ferme aucun bloc${expected ? ` ({{/${expected}}} attendu)` : ''}`, line);
+      }
+      if (frame.node.kind === 'each') loopDepth--;
+      stack.pop();
+      continue;
+    }
+
+    if (value.startsWith('>')) {
+      const name = value.slice(1).trim();
+      if (!/^[\w.-]+$/.test(name)) throw new TemplateError(`Nom de partial invalide "${name}"`, line);
+      partials.add(name);
+      frame.nodes.push({ kind: 'partial', name, indent: token.indent, newline: token.newline, line });
+      continue;
+    }
+
+    const [path, ...filters] = value.split('|').map(part => part.trim());
+    for (const filter of filters) {
+      if (!TEMPLATE_FILTERS[filter]) {
+        throw new TemplateError(`Filtre inconnu "${filter}" (disponibles: ${Object.keys(TEMPLATE_FILTERS).join(', ')})`, line);
+      }
+    }
+    reference(parsePath(path, line));
+    frame.nodes.push({ kind: 'variable', path, filters, line });
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1].node!;
+    const keyword = open.kind === 'each' ? 'each' : open.negate ? 'unless' : 'if';
+    throw new TemplateError(`Bloc {{#${keyword} ${open.path}}} non fermé`, open.line);
+  }
+
+  return { nodes: root.nodes, variables: Array.from(variables), partials: Array.from(partials) };
+}
+
+export interface RenderOptions {
+  // Partials disponibles pour {{> nom}}
+  partials?: (name: string) => CompiledTemplate | undefined;
+}
+
+interface Scope {
+  data: TemplateValue;
+  locals: Record<string, TemplateValue>;
+}
+
+const MAX_PARTIAL_DEPTH = 10;
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== '' && value !== false && value !== 'false' && value !== 0;
+}
+
+function lookup(scopes: Scope[], path: string, line: number): TemplateValue {
+  const [head, ...rest] = path.split('.');
+  const current = scopes[scopes.length - 1];
+  let value: TemplateValue | undefined;
+
+  if (head === 'this') {
+    value = current.data;
+  } else if (head.startsWith('@')) {
+    value = current.locals[head];
+    if (value === undefined) throw new TemplateError(`${head} n'est disponible que dans {{#each}}`, line);
+  } else {
+    for (let index = scopes.length - 1; index >= 0 && value === undefined; index--) {
+      const data = scopes[index].data;
+      if (typeof data === 'object' && !Array.isArray(data) && Object.prototype.hasOwnProperty.call(data, head)) {
+        value = data[head];
+      }
+    }
+  }
+
+  for (const segment of rest) {
+    if (value === undefined) break;
+    value = typeof value === 'object' && !Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, segment)
+      ? value[segment]
+      : undefined;
+  }
+
+  if (value === undefined || value === null) {
+    throw new TemplateError(`Variable non définie "${path}"`, line);
+  }
+  return value;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], options: RenderOptions, depth: number): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'variable': {
+        let value = lookup(scopes, node.path, node.line);
+        for (const filter of node.filters) value = TEMPLATE_FILTERS[filter](value);
+        output += stringify(value, node.path, node.line);
+        break;
+      }
+
+      case 'if': {
+        const condition = isTruthy(lookup(scopes, node.path, node.line)) !== node.negate;
+        output += renderNodes(condition ? node.body : node.alternate, scopes, options, depth);
+        break;
+      }
+
+      case 'each': {
+        const items = lookup(scopes, node.path, node.line);
+        if (!Array.isArray(items)) {
+          throw new TemplateError(`{{#each ${node.path}}} attend une liste`, node.line);
+        }
+        if (items.length === 0) {
+          output += renderNodes(node.alternate, scopes, options, depth);
+        }
+        items.forEach((item, index) => {
+          const locals = { '@index': index, '@first': index === 0, '@last': index === items.length - 1 };
+          output += renderNodes(node.body, [...scopes, { data: item, locals }], options, depth);
+        });
+        break;
+      }
+
+      case 'partial': {
+        const partial = options.partials?.(node.name);
+        if (!partial) throw new TemplateError(`Partial inconnu "${node.name}"`, node.line);
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(`Inclusion récursive de partials ("${node.name}")`, node.line);
+        }
+        const rendered = renderNodes(partial.nodes, scopes, options, depth + 1);
+        // Partial seul sur sa ligne: chaque ligne reprend l'indentation de la balise
+        output += node.indent ? rendered.replace(/^(?=.)/gm, node.indent) : rendered;
+        if (rendered.length > 0 && !rendered.endsWith('\n')) output += node.newline;
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Génère le code; toute variable absente des valeurs lève une TemplateError
+ */
+export function renderTemplate(template: CompiledTemplate, values: Record<string, TemplateValue>, options: RenderOptions = {}): string {
+  return renderNodes(template.nodes, [{ data: values, locals: {} }], options, 0);
+}
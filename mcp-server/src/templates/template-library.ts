@@ -0,0 +1,354 @@
+/**
+ * Bibliothèque de templates: templates intégrés (templates.ts) et templates du projet
+ * (.mcp-roblox/templates/*.luau avec front-matter YAML), ces derniers remplaçant les intégrés de même nom
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import { parse as parseYaml } from 'yaml';
+import { luauTemplates } from '../../templates.js';
+import { getMcpDirectory } from '../config/project-config.js';
+import { analyzeLuauSyntax, formatSyntaxIssue } from '../parser/syntax-analysis.js';
+import { CompiledTemplate, TemplateError, TemplateValue, compileTemplate, renderTemplate } from './template-engine.js';
+
+// Dossier des templates du projet dans .mcp-roblox
+export const TEMPLATES_DIRECTORY = 'templates';
+
+export type TemplateVariableType = 'string' | 'identifier' | 'number' | 'boolean' | 'enum' | 'list';
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  description?: string;
+  // Une variable avec valeur par défaut n'est pas obligatoire
+  default?: TemplateValue;
+  required: boolean;
+  // Valeurs autorisées (type enum)
+  values?: string[];
+  // Expression régulière que la valeur doit respecter
+  pattern?: string;
+}
+
+export type TemplateScriptType = 'server' | 'client' | 'module';
+
+export interface TemplateDefinition {
+  name: string;
+  description: string;
+  category: string;
+  code: string;
+  compiled: CompiledTemplate;
+  variables: TemplateVariable[];
+  source: 'builtin' | 'project';
+  // Fichier relatif à la racine du projet (templates du projet)
+  file?: string;
+  // Type de script créé par use_template avec targetPath
+  scriptType?: TemplateScriptType;
+  // Template intégré remplacé par ce template du projet
+  overridesBuiltin?: boolean;
+}
+
+export interface TemplateLoadError {
+  file: string;
+  message: string;
+}
+
+export interface TemplateRenderResult {
+  template: TemplateDefinition;
+  code: string;
+  variables: Record<string, TemplateValue>;
+  // Erreurs de syntaxe Luau du code généré
+  syntaxErrors: string[];
+}
+
+const VARIABLE_TYPES: TemplateVariableType[] = ['string', 'identifier', 'number', 'boolean', 'enum', 'list'];
+const SCRIPT_TYPES: TemplateScriptType[] = ['server', 'client', 'module'];
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+let builtins: TemplateDefinition[] | null = null;
+
+function builtinTemplates(): TemplateDefinition[] {
+  builtins ??= luauTemplates.map(template => ({
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    code: template.code,
+    compiled: compileTemplate(template.code),
+    variables: (template.variables ?? []).map(name => ({ name, type: 'string' as const, required: true })),
+    source: 'builtin' as const
+  }));
+  return builtins;
+}
+
+function parseVariable(name: string, raw: unknown): TemplateVariable {
+  // Forme courte: "maxRetries: number"
+  const spec = typeof raw === 'string' ? { type: raw } : (raw ?? {}) as Record<string, unknown>;
+  const type = (spec.type ?? 'string') as TemplateVariableType;
+
+  if (!VARIABLE_TYPES.includes(type)) {
+    throw new Error(`Variable "${name}": type inconnu "${type}" (attendu: ${VARIABLE_TYPES.join(', ')})`);
+  }
+  if (type === 'enum' && (!Array.isArray(spec.values) || spec.values.length === 0)) {
+    throw new Error(`Variable "${name}": le type enum requiert une liste "values"`);
+  }
+  if (spec.pattern !== undefined) {
+    try {
+      new RegExp(String(spec.pattern));
+    } catch {
+      throw new Error(`Variable "${name}": pattern invalide "${spec.pattern}"`);
+    }
+  }
+
+  const variable: TemplateVariable = {
+    name,
+    type,
+    description: typeof spec.description === 'string' ? spec.description : undefined,
+    default: spec.default === undefined || spec.default === null ? undefined
+      : type === 'list' ? spec.default as TemplateValue : String(spec.default),
+    required: false,
+    values: Array.isArray(spec.values) ? spec.values.map(String) : undefined,
+    pattern: spec.pattern !== undefined ? String(spec.pattern) : undefined
+  };
+  variable.required = spec.required === true || (spec.required !== false && variable.default === undefined);
+
+  // La valeur par défaut doit elle-même être valide
+  if (variable.default !== undefined) {
+    const problem = checkVariableValue(variable, variable.default);
+    if (problem) throw new Error(`Variable "${name}": valeur par défaut invalide (${problem})`);
+  }
+
+  return variable;
+}
+
+/**
+ * Template du projet: front-matter YAML (name, description, category, scriptType, variables) puis le code
+ */
+export function parseTemplateFile(file: string, content: string): TemplateDefinition {
+  const match = content.match(FRONT_MATTER);
+  const meta = match ? parseYaml(match[1]) ?? {} : {};
+  if (typeof meta !== 'object' || Array.isArray(meta)) {
+    throw new Error('Front-matter invalide: un objet YAML est attendu');
+  }
+
+  const scriptType = meta.scriptType as TemplateScriptType | undefined;
+  if (scriptType !== undefined && !SCRIPT_TYPES.includes(scriptType)) {
+    throw new Error(`scriptType inconnu "${scriptType}" (attendu: ${SCRIPT_TYPES.join(', ')})`);
+  }
+
+  const rawVariables = (meta.variables ?? {}) as Record<string, unknown> | string[];
+  const variables = Array.isArray(rawVariables)
+    ? rawVariables.map(name => parseVariable(String(name), 'string'))
+    : Object.entries(rawVariables).map(([name, spec]) => parseVariable(name, spec));
+
+  const code = (match ? content.slice(match[0].length) : content).replace(/\s+$/, '');
+  let compiled: CompiledTemplate;
+  try {
+    compiled = compileTemplate(code);
+  } catch (error) {
+    // Numéros de ligne relatifs au fichier, front-matter compris
+    const offset = match ? match[0].split('\n').length - 1 : 0;
+    if (error instanceof TemplateError && error.line !== undefined) throw new TemplateError(error.detail, error.line + offset);
+    throw error;
+  }
+
+  const declared = new Set(variables.map(variable => variable.name));
+  const undeclared = compiled.variables.filter(name => !declared.has(name));
+  if (undeclared.length > 0) {
+    throw new Error(`Variables utilisées mais non déclarées dans le front-matter: ${undeclared.join(', ')}`);
+  }
+
+  return {
+    name: typeof meta.name === 'string' ? meta.name : path.basename(file).replace(/\.luau?$/i, ''),
+    description: typeof meta.description === 'string' ? meta.description : '',
+    category: typeof meta.category === 'string' ? meta.category : 'project',
+    code,
+    compiled,
+    variables,
+    source: 'project',
+    file,
+    scriptType
+  };
+}
+
+// Message d'erreur si la valeur ne respecte pas le type de la variable
+function checkVariableValue(variable: TemplateVariable, value: TemplateValue): string | null {
+  if (variable.type === 'list') {
+    return Array.isArray(value) ? null : `une liste est attendue`;
+  }
+  if (typeof value === 'object') {
+    return `une valeur simple est attendue, pas une ${Array.isArray(value) ? 'liste' : 'table'}`;
+  }
+
+  value = String(value);
+  switch (variable.type) {
+    case 'identifier':
+      if (!IDENTIFIER.test(value)) return `"${value}" n'est pas un identifiant Luau valide`;
+      break;
+    case 'number':
+      if (value.trim() === '' || !Number.isFinite(Number(value))) return `"${value}" n'est pas un nombre`;
+      break;
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') return `"${value}" n'est pas un booléen (true/false)`;
+      break;
+    case 'enum':
+      if (!variable.values!.includes(value)) return `"${value}" n'est pas une valeur autorisée (${variable.values!.join(', ')})`;
+      break;
+  }
+  if (variable.pattern && !new RegExp(variable.pattern).test(value)) {
+    return `"${value}" ne respecte pas le format ${variable.pattern}`;
+  }
+  return null;
+}
+
+/**
+ * Valide les valeurs fournies et complète avec les valeurs par défaut
+ */
+export function resolveTemplateVariables(
+  template: Pick<TemplateDefinition, 'name' | 'variables'>,
+  values: Record<string, unknown>
+): Record<string, TemplateValue> {
+  const resolved: Record<string, TemplateValue> = {};
+  const problems: string[] = [];
+
+  for (const variable of template.variables) {
+    const provided = values[variable.name];
+    if (provided === undefined || provided === null || provided === '') {
+      if (variable.default !== undefined) {
+        resolved[variable.name] = variable.default;
+      } else if (variable.required) {
+        problems.push(`${variable.name}: valeur manquante`);
+      } else {
+        resolved[variable.name] = variable.type === 'list' ? [] : '';
+      }
+      continue;
+    }
+
+    const value = provided as TemplateValue;
+    const problem = checkVariableValue(variable, value);
+    if (problem) {
+      problems.push(`${variable.name}: ${problem}`);
+    } else {
+      // Les booléens deviennent de vrais booléens pour {{#if}}
+      resolved[variable.name] = variable.type === 'list' ? value
+        : variable.type === 'boolean' ? String(value) === 'true'
+        : String(value);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Variables invalides pour le template '${template.name}':\n- ${problems.join('\n- ')}`);
+  }
+  return resolved;
+}
+
+function findPartialProblem(
+  template: TemplateDefinition,
+  resolve: (name: string) => TemplateDefinition | undefined,
+  chain: string[] = []
+): string | null {
+  const including = [...chain, template.name];
+  for (const name of template.compiled.partials) {
+    if (including.includes(name)) return `Inclusion récursive de partials: ${[...including, name].join(' → ')}`;
+    const partial = resolve(name);
+    if (!partial) return `Partial inconnu "${name}"`;
+    const problem = findPartialProblem(partial, resolve, including);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+export class TemplateLibrary {
+  private projectTemplates: Map<string, TemplateDefinition> = new Map();
+  private errors: TemplateLoadError[] = [];
+
+  constructor(private readonly projectRoot: string) {}
+
+  get directory(): string {
+    return path.join(getMcpDirectory(this.projectRoot), TEMPLATES_DIRECTORY);
+  }
+
+  /**
+   * Fichier (relatif à la racine du projet) appartenant au dossier des templates
+   */
+  isTemplateFile(filePath: string): boolean {
+    const relative = path.relative(this.directory, path.resolve(this.projectRoot, filePath));
+    return !relative.startsWith('..') && !path.isAbsolute(relative) && /\.luau?$/i.test(filePath);
+  }
+
+  /**
+   * (Re)charge les templates du projet; un fichier invalide est ignoré et signalé dans getLoadErrors
+   */
+  async reload(): Promise<void> {
+    const templates = new Map<string, TemplateDefinition>();
+    const errors: TemplateLoadError[] = [];
+
+    if (await fs.pathExists(this.directory)) {
+      const files = await glob('**/*.{luau,lua}', { cwd: this.directory, nodir: true, posix: true });
+      for (const file of files.sort()) {
+        const relativeFile = path.posix.join(path.relative(this.projectRoot, this.directory).split(path.sep).join('/'), file);
+        try {
+          const template = parseTemplateFile(relativeFile, await fs.readFile(path.join(this.directory, file), 'utf-8'));
+          const duplicate = templates.get(template.name);
+          if (duplicate) {
+            throw new Error(`Nom "${template.name}" déjà utilisé par ${duplicate.file}`);
+          }
+          templates.set(template.name, template);
+        } catch (error) {
+          errors.push({ file: relativeFile, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    // Chaque partial inclus doit exister et ne pas s'inclure lui-même; un template retiré peut en invalider d'autres
+    const resolve = (name: string) => templates.get(name) ?? builtinTemplates().find(template => template.name === name);
+    let removed = true;
+    while (removed) {
+      removed = false;
+      for (const template of templates.values()) {
+        const problem = findPartialProblem(template, resolve);
+        if (problem) {
+          templates.delete(template.name);
+          errors.push({ file: template.file!, message: problem });
+          removed = true;
+        }
+      }
+    }
+
+    const builtinNames = new Set(luauTemplates.map(template => template.name));
+    for (const template of templates.values()) {
+      template.overridesBuiltin = builtinNames.has(template.name);
+    }
+
+    this.projectTemplates = templates;
+    this.errors = errors;
+  }
+
+  getLoadErrors(): TemplateLoadError[] {
+    return this.errors;
+  }
+
+  list(category?: string): TemplateDefinition[] {
+    const builtins = builtinTemplates().filter(template => !this.projectTemplates.has(template.name));
+    const all = [...builtins, ...this.projectTemplates.values()];
+    return category ? all.filter(template => template.category === category) : all;
+  }
+
+  get(name: string): TemplateDefinition | undefined {
+    return this.projectTemplates.get(name) ?? builtinTemplates().find(template => template.name === name);
+  }
+
+  /**
+   * Valide les variables, génère le code puis vérifie sa syntaxe
+   */
+  render(name: string, values: Record<string, unknown>): TemplateRenderResult {
+    const template = this.get(name);
+    if (!template) {
+      throw new Error(`Template '${name}' non trouvé. Utilisez 'list_templates' pour voir les templates disponibles.`);
+    }
+    const variables = resolveTemplateVariables(template, values);
+    const code = renderTemplate(template.compiled, variables, { partials: partial => this.get(partial)?.compiled });
+    const syntaxErrors = analyzeLuauSyntax(code).errors.map(formatSyntaxIssue);
+    return { template, code, variables, syntaxErrors };
+  }
+}
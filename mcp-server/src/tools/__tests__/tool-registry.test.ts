@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { ToolRegistry, ToolDefinition } from '../tool-registry.js';
+
+function echoTool(name: string): ToolDefinition {
+  return {
+    name,
+    description: `Outil ${name}`,
+    inputSchema: { type: 'object', properties: { message: { type: 'string' } } },
+    handler: args => ({ content: [{ type: 'text', text: `${name}: ${args.message}` }] })
+  };
+}
+
+describe('ToolRegistry', () => {
+  it('should list tools in registration order without their handlers', () => {
+    const registry = new ToolRegistry().registerAll([echoTool('read_script'), echoTool('write_script')]);
+
+    expect(registry.list()).toEqual([
+      { name: 'read_script', description: 'Outil read_script', inputSchema: echoTool('read_script').inputSchema },
+      { name: 'write_script', description: 'Outil write_script', inputSchema: echoTool('write_script').inputSchema }
+    ]);
+  });
+
+  it('should dispatch calls to the registered handler', async () => {
+    const registry = new ToolRegistry().register(echoTool('read_script'));
+    registry.register({
+      ...echoTool('slow_tool'),
+      handler: async () => ({ content: [{ type: 'text', text: 'done' }] })
+    });
+
+    expect(await registry.call('read_script', { message: 'hello' })).toEqual({ content: [{ type: 'text', text: 'read_script: hello' }] });
+    expect((await registry.call('slow_tool')).content[0].text).toBe('done');
+  });
+
+  it('should reject unknown and duplicate tools', async () => {
+    const registry = new ToolRegistry().register(echoTool('read_script'));
+
+    await expect(registry.call('missing_tool')).rejects.toThrow('Outil inconnu: missing_tool');
+    expect(() => registry.register(echoTool('read_script'))).toThrow('Outil déjà enregistré: read_script');
+  });
+});
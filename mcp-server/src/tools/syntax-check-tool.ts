@@ -4,6 +4,8 @@
  */
 
 import { syntaxEnforcer } from '../validation/syntax-enforcer.js';
+import { analyzeLuauSyntax, formatSyntaxIssue } from '../parser/syntax-analysis.js';
+import { countSyntaxElements } from '../../patch-templates.js';
 
 export interface SyntaxCheckRequest {
   scriptPath: string;
@@ -63,49 +65,18 @@ export class SyntaxCheckTool {
    * Compte tous les blocs et structures
    */
   private countBlocks(content: string, filePath: string): string {
-    const lines = content.split('\n');
+    const analysis = analyzeLuauSyntax(content);
+    const countToken = (value: string) =>
+      analysis.tokens.filter(t => (t.type === 'keyword' || t.type === 'symbol') && t.value === value).length;
+    const elements = countSyntaxElements(content);
     const count: BlockCount = {
-      functions: 0,
-      ends: 0,
-      ifs: 0,
-      fors: 0,
-      whiles: 0,
-      dos: 0,
-      repeats: 0,
-      untils: 0,
-      openParens: 0,
-      closeParens: 0,
-      openBraces: 0,
-      closeBraces: 0
+      ...elements,
+      dos: countToken('do') - elements.fors - elements.whiles,
+      openParens: countToken('('),
+      closeParens: countToken(')')
     };
 
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      // Ignorer les commentaires
-      if (trimmed.startsWith('--')) continue;
-      
-      // Compter les structures
-      if (/\bfunction\s*\(/.test(line)) count.functions++;
-      if (/\bend\b/.test(line)) count.ends++;
-      if (/\bif\b.*\bthen\b/.test(line)) count.ifs++;
-      if (/\bfor\b.*\bdo\b/.test(line)) count.fors++;
-      if (/\bwhile\b.*\bdo\b/.test(line)) count.whiles++;
-      if (/\bdo\b\s*$/.test(line)) count.dos++;
-      if (/\brepeat\b/.test(line)) count.repeats++;
-      if (/\buntil\b/.test(line)) count.untils++;
-      
-      // Compter les parenthèses et accolades
-      for (const char of line) {
-        if (char === '(') count.openParens++;
-        if (char === ')') count.closeParens++;
-        if (char === '{') count.openBraces++;
-        if (char === '}') count.closeBraces++;
-      }
-    }
-
-    // Calculer les blocs attendus
-    const expectedEnds = count.functions + count.ifs + count.fors + count.whiles + count.dos;
+    const { expectedEnds } = analysis.blocks;
     const balance = expectedEnds - count.ends;
 
     let result = `📊 **Analyse des blocs: ${filePath}**\n\n`;
@@ -120,22 +91,18 @@ export class SyntaxCheckTool {
     result += `- **Accolades:** ${count.openBraces} { et ${count.closeBraces} }\n`;
     result += `\n`;
 
-    if (balance === 0) {
+    if (analysis.valid) {
       result += `✅ **Blocs équilibrés!** (${expectedEnds} blocs, ${count.ends} ends)\n`;
     } else if (balance > 0) {
       result += `❌ **Il manque ${balance} 'end'!**\n`;
       result += `   Attendu: ${expectedEnds} 'end'\n`;
       result += `   Trouvé: ${count.ends} 'end'\n`;
-    } else {
+    } else if (balance < 0) {
       result += `❌ **Il y a ${-balance} 'end' en trop!**\n`;
     }
 
-    if (count.openParens !== count.closeParens) {
-      result += `\n⚠️ **Parenthèses déséquilibrées:** ${count.openParens} ( vs ${count.closeParens} )`;
-    }
-    
-    if (count.openBraces !== count.closeBraces) {
-      result += `\n⚠️ **Accolades déséquilibrées:** ${count.openBraces} { vs ${count.closeBraces} }`;
+    for (const error of analysis.errors) {
+      result += `\n❌ ${formatSyntaxIssue(error)}`;
     }
 
     return result;
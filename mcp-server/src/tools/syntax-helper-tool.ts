@@ -4,6 +4,8 @@
  */
 
 import { syntaxEnforcer } from '../validation/syntax-enforcer.js';
+import { analyzeLuauSyntax, formatSyntaxIssue } from '../parser/syntax-analysis.js';
+import { countSyntaxElements } from '../../patch-templates.js';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -98,43 +100,11 @@ async function countBlocks(scriptPath: string, projectRoot: string): Promise<str
       : path.join(projectRoot, scriptPath.replace(/\\/g, '/'));
       
     const content = await fs.readFile(fullPath, 'utf-8');
-    const lines = content.split('\n');
-    
-    let functions = 0;
-    let ends = 0;
-    let ifs = 0;
-    let fors = 0;
-    let whiles = 0;
-    let dos = 0;
-    let repeats = 0;
-    let untils = 0;
-    let braces = { open: 0, close: 0 };
-    let parens = { open: 0, close: 0 };
-    
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('--')) continue;
-      
-      // Compter les structures
-      if (/\bfunction\s*[(\w]/.test(line) && !/\bend\b/.test(line)) functions++;
-      if (/\bend\b/.test(line)) ends++;
-      if (/\bif\b.*\bthen\b/.test(line) && !/\bend\b/.test(line)) ifs++;
-      if (/\bfor\b.*\bdo\b/.test(line)) fors++;
-      if (/\bwhile\b.*\bdo\b/.test(line)) whiles++;
-      if (/\bdo\b\s*$/.test(line) && !/\bwhile\b/.test(line) && !/\bfor\b/.test(line)) dos++;
-      if (/\brepeat\b/.test(line)) repeats++;
-      if (/\buntil\b/.test(line)) untils++;
-      
-      // Compter les symboles
-      for (const char of line) {
-        if (char === '{') braces.open++;
-        if (char === '}') braces.close++;
-        if (char === '(') parens.open++;
-        if (char === ')') parens.close++;
-      }
-    }
-    
-    const expectedEnds = functions + ifs + fors + whiles + dos;
+    const analysis = analyzeLuauSyntax(content);
+    const counts = countSyntaxElements(content);
+    const { functions, ends, ifs, fors, whiles, repeats, untils } = counts;
+    const braces = { open: counts.openBraces, close: counts.closeBraces };
+    const { expectedEnds } = analysis.blocks;
     const diff = expectedEnds - ends;
     
     let result = `## 📊 **Analyse des blocs: ${scriptPath}**\n\n`;
@@ -146,7 +116,7 @@ async function countBlocks(scriptPath: string, projectRoot: string): Promise<str
     result += `- **Repeat/until:** ${repeats}/${untils}\n`;
     result += `- **Braces:** ${braces.open} { et ${braces.close} }\n\n`;
     
-    if (diff === 0 && braces.open === braces.close && parens.open === parens.close) {
+    if (analysis.valid) {
       result += `✅ **Syntaxe équilibrée!**`;
     } else {
       if (diff > 0) {
@@ -156,11 +126,8 @@ async function countBlocks(scriptPath: string, projectRoot: string): Promise<str
         result += `❌ **Il y a ${-diff} 'end' en trop!**`;
       }
       
-      if (braces.open !== braces.close) {
-        result += `\n❌ **Accolades déséquilibrées!**`;
-      }
-      if (parens.open !== parens.close) {
-        result += `\n❌ **Parenthèses déséquilibrées!**`;
+      for (const error of analysis.errors) {
+        result += `\n❌ ${formatSyntaxIssue(error)}`;
       }
     }
     
@@ -0,0 +1,60 @@
+/**
+ * Registre des outils MCP: chaque outil déclare son schéma et son handler au même endroit,
+ * la liste (ListTools) et l'exécution (CallTool) sont servies depuis ce registre
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolArgs = Record<string, unknown>;
+
+export interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+export type ToolHandler = (args: ToolArgs) => ToolResult | Promise<ToolResult>;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Tool["inputSchema"];
+  handler: ToolHandler;
+}
+
+export class ToolRegistry {
+  // Ordre d'enregistrement conservé pour la liste des outils
+  private readonly tools: Map<string, ToolDefinition> = new Map();
+
+  register(tool: ToolDefinition): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Outil déjà enregistré: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  registerAll(tools: ToolDefinition[]): this {
+    tools.forEach(tool => this.register(tool));
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Définitions exposées au client, sans les handlers
+   */
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  }
+
+  async call(name: string, args: ToolArgs = {}): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Outil inconnu: ${name}`);
+    }
+    return await tool.handler(args);
+  }
+}
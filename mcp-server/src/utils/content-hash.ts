@@ -0,0 +1,9 @@
+/**
+ * Short content hash, used as a file version identifier
+ */
+
+import crypto from 'crypto';
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex').slice(0, 12);
+}
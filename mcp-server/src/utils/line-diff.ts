@@ -0,0 +1,162 @@
+/**
+ * Line-based diff (Myers algorithm) producing compact edit scripts
+ */
+
+/**
+ * Replace `deleteCount` lines starting at `start` (0-based, in the old text) by `insert`
+ */
+export interface LineEdit {
+  start: number;
+  deleteCount: number;
+  insert: string[];
+}
+
+export type DiffOperation = '=' | '-' | '+';
+
+// Beyond this edit distance the diff degrades to a single replacement to bound memory usage
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Shortest edit script between two line arrays, as a sequence of keep/delete/insert operations
+ */
+export function diffOperations(oldLines: string[], newLines: string[]): DiffOperation[] {
+  // Common prefix and suffix are kept as-is, Myers only runs on the differing middle
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  return [
+    ...new Array<DiffOperation>(prefix).fill('='),
+    ...myers(a, b),
+    ...new Array<DiffOperation>(suffix).fill('=')
+  ];
+}
+
+/**
+ * Edits turning `oldLines` into `newLines`, sorted by position in the old text
+ */
+export function diffLines(oldLines: string[], newLines: string[]): LineEdit[] {
+  const edits: LineEdit[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let current: LineEdit | null = null;
+
+  for (const operation of diffOperations(oldLines, newLines)) {
+    if (operation === '=') {
+      current = null;
+      oldIndex++;
+      newIndex++;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: oldIndex, deleteCount: 0, insert: [] };
+      edits.push(current);
+    }
+
+    if (operation === '-') {
+      current.deleteCount++;
+      oldIndex++;
+    } else {
+      current.insert.push(newLines[newIndex]);
+      newIndex++;
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Apply edits produced by `diffLines` to the old lines
+ */
+export function applyLineEdits(lines: string[], edits: LineEdit[]): string[] {
+  const result = [...lines];
+  // From the end so earlier positions stay valid
+  for (let i = edits.length - 1; i >= 0; i--) {
+    const edit = edits[i];
+    if (edit.start > result.length) {
+      throw new Error(`Diff invalide: ligne ${edit.start + 1} hors du fichier (${result.length} lignes)`);
+    }
+    result.splice(edit.start, edit.deleteCount, ...edit.insert);
+  }
+  return result;
+}
+
+function myers(a: string[], b: string[]): DiffOperation[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return new Array<DiffOperation>(m).fill('+');
+  if (m === 0) return new Array<DiffOperation>(n).fill('-');
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x for diagonals -d..d before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  // Too many differences: replace the whole block
+  return [...new Array<DiffOperation>(n).fill('-'), ...new Array<DiffOperation>(m).fill('+')];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = d === 0 ? 0 : previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      operations.push('=');
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      operations.push(x === previousX ? '+' : '-');
+    }
+
+    x = previousX;
+    y = previousY;
+  }
+
+  return operations.reverse();
+}
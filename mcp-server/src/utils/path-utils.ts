@@ -119,6 +119,25 @@ export function fixClaudePath(filePath: string): string {
   return fixed;
 }
 
+/**
+ * Key of a project file: relative, forward slashes, no "./" prefix.
+ * Every manager that stores files by path (history, versions, changesets, quarantine) uses it.
+ */
+export function normalizeProjectPath(filePath: string): string {
+  return path.posix.normalize(normalizePath(filePath)).replace(/^\.\//, '');
+}
+
+/**
+ * Same key, refusing absolute paths and paths that leave the project root
+ */
+export function normalizeInsideProject(filePath: string): string {
+  const file = normalizeProjectPath(filePath);
+  if (isAbsolutePath(filePath) || file === '..' || file.startsWith('../')) {
+    throw new Error(`Chemin hors du projet: ${filePath}`);
+  }
+  return file;
+}
+
 /**
  * Validate that a path is safe (no directory traversal)
  */
@@ -130,6 +149,48 @@ export function isSafePath(filePath: string, projectRoot: string): boolean {
   return normalized.startsWith(normalizedRoot);
 }
 
+/**
+ * Match a relative path against a glob pattern (supports **, *, ? and {a,b})
+ * A pattern without a slash matches the file name in any directory, like .gitignore
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const glob = fixClaudePath(pattern);
+  const normalized = fixClaudePath(filePath);
+  const target = glob.includes('/') ? normalized : path.posix.basename(normalized);
+  return globToRegExp(glob).test(target);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches zero directories
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
 /**
  * Extract file info from various path formats Claude might use
  */
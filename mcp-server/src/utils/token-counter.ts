@@ -0,0 +1,149 @@
+/**
+ * Token counters used for context accounting
+ *
+ * The 'vocabulary' counter is not a byte-pair encoder and has no merge table: it applies
+ * a cl100k-like pre-tokenization, then a greedy longest match of every word against a
+ * hand-picked vocabulary (Luau, Roblox API, English and French words, word pieces).
+ * Unknown fragments fall back to chunks of a few characters. Counts are estimates,
+ * checked against cl100k reference counts in the tests.
+ */
+
+export interface TokenCounter {
+  readonly name: string;
+  count(text: string): number;
+}
+
+export type TokenCounterName = 'vocabulary' | 'heuristic';
+
+/**
+ * ~1 token per 4 characters
+ */
+export class HeuristicTokenCounter implements TokenCounter {
+  readonly name = 'heuristic';
+
+  count(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
+
+// Words with their optional leading space or symbol, 1-3 digit numbers, symbol runs, line breaks, spaces
+const PRE_TOKENIZER = /'(?:s|t|re|ve|m|ll|d)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+// Case boundaries inside identifiers: GetServiceName → Get, Service, Name
+const CASE_BOUNDARY = /(?<=[a-z])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+
+// Longest run of spaces merged into a single token
+const MAX_WHITESPACE_RUN = 16;
+// cl100k keeps nearly every lowercase ASCII word up to this length whole, even outside the vocabulary
+const SHORT_WORD = 5;
+// Longer unknown words split by chunks of this size
+const UNKNOWN_CHUNK = 4;
+// Symbol pairs are usually merged
+const SYMBOL_CHUNK = 2;
+
+const VOCABULARY_WORDS = [
+  // Luau
+  'local function end return if then else elseif for in do while repeat until not and or nil true false',
+  'break continue type export typeof self string number boolean table any unknown never',
+  'print warn error pcall xpcall require assert tostring tonumber pairs ipairs next select setmetatable getmetatable',
+  'insert remove clear clone find format sub gsub match gmatch lower upper len rep floor ceil max min abs random clamp',
+  'task spawn defer delay wait cancel math os clock time date coroutine create resume yield wrap status',
+  // Roblox API
+  'game workspace script parent children child instance new service get set players player local character',
+  'humanoid root part model folder remote event function bindable connect disconnect connection fire server client',
+  'all clients invoke on first ancestor descendant descendants wait destroy name value class is a',
+  'position orientation cframe vector color brick anchored size transparency velocity health damage speed walk jump',
+  'replicated storage module data store async update key user id tween info easing style direction',
+  'run heartbeat render stepped input began ended changed added removed removing touched click button frame',
+  'screen gui text label image visible enabled mouse keyboard touch camera sound animation track play stop',
+  'leaderstats attribute tag collection http marketplace teleport signal callback handler controller manager',
+  // English
+  'the of to and a in is it you that he was for on are with as his they be at one have this from by word but',
+  'what some we can out other were all there when up use your how said an each she which do their if will way',
+  'about many then them write would like so these her long make thing see him two has look more could go come',
+  'did number no most people my over know than call who its now find line file code error test',
+  'check valid invalid message result content path list load save read start init update count total report',
+  'amount item items token tokens response request session',
+  // French
+  'le la les un une des de du au aux et est en dans pour par sur avec pas que qui ne se ce son sa ses il elle',
+  'fichier fichiers ligne lignes erreur erreurs script scripts modification modifications modifier',
+  'valide invalide trouver utiliser avant changement changements taille succès',
+  // Word pieces: suffixes and prefixes, matched inside longer words
+  'ing ed er ers es ly able ible ment ments ness ity al ize ise tion tions sion ous ive ful less est ted ting ation',
+  'eur eurs ant ent ait',
+  'pre re un dis over under inter trans sub super get set has is on to'
+];
+
+const VOCABULARY = new Set(VOCABULARY_WORDS.join(' ').split(/\s+/));
+const MAX_VOCABULARY_LENGTH = Math.max(...Array.from(VOCABULARY, word => word.length));
+
+/**
+ * Greedy vocabulary match, closer to cl100k counts than the heuristic on code
+ */
+export class VocabularyTokenCounter implements TokenCounter {
+  readonly name = 'vocabulary';
+
+  count(text: string): number {
+    let tokens = 0;
+    for (const [piece] of text.matchAll(PRE_TOKENIZER)) {
+      tokens += this.countPiece(piece);
+    }
+    return tokens;
+  }
+
+  private countPiece(piece: string): number {
+    if (/^\s+$/.test(piece)) {
+      // Line breaks and indentation merge into few tokens
+      return Math.ceil(piece.replace(/\r/g, '').length / MAX_WHITESPACE_RUN) || 1;
+    }
+    if (/^\p{N}+$/u.test(piece)) return 1;
+
+    const word = piece.match(/^([^\p{L}]?)(\p{L}+)$/u);
+    if (!word) {
+      // Symbol run, with an optional leading space merged into the first pair
+      const symbols = piece.trim();
+      return Math.max(1, Math.ceil(symbols.length / SYMBOL_CHUNK));
+    }
+
+    // Leading whitespace is merged into the word, a leading symbol only into a first segment kept whole
+    const [, prefix, letters] = word;
+    const segments = letters.split(CASE_BOUNDARY);
+    let tokens = 0;
+    for (const segment of segments) {
+      tokens += this.countSegment(segment);
+    }
+    if (prefix && !/\s/.test(prefix) && this.countSegment(segments[0]) > 1) tokens++;
+    return tokens;
+  }
+
+  // Greedy longest match against the vocabulary
+  private countSegment(segment: string): number {
+    const lower = segment.toLowerCase();
+    if (VOCABULARY.has(lower)) return 1;
+    if (lower.length <= SHORT_WORD && /^[a-z]+$/.test(lower)) return 1;
+
+    let tokens = 0;
+    let position = 0;
+    while (position < lower.length) {
+      let matched = 0;
+      for (let length = Math.min(MAX_VOCABULARY_LENGTH, lower.length - position); length > 1; length--) {
+        if (VOCABULARY.has(lower.slice(position, position + length))) {
+          matched = length;
+          break;
+        }
+      }
+      if (matched === 0) {
+        // Non-ASCII letters take several bytes and merge less
+        const chunk = lower.slice(position, position + UNKNOWN_CHUNK);
+        matched = /^[\x00-\x7f]+$/.test(chunk) ? chunk.length : 1;
+      }
+      tokens++;
+      position += matched;
+    }
+    return tokens;
+  }
+}
+
+export function createTokenCounter(name: TokenCounterName): TokenCounter {
+  return name === 'heuristic' ? new HeuristicTokenCounter() : new VocabularyTokenCounter();
+}
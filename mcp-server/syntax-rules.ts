@@ -2,6 +2,8 @@
  * Règles de syntaxe intégrées au serveur MCP pour guider Claude Desktop
  */
 
+import { countSyntaxElements } from './patch-templates.js';
+
 export const SYNTAX_RULES = {
   MANDATORY_WORKFLOW: `
 🔴 RÈGLE OBLIGATOIRE POUR CLAUDE:
@@ -60,32 +62,12 @@ export function validatePatchBeforeApply(
   const suggestions: string[] = [];
   let valid = true;
 
-  // Analyser le contenu du patch
-  const patchLines = patchContent.split('\n');
-  
-  // Compter les éléments dans le patch
-  let openBlocks = 0;
-  let closeBlocks = 0;
-  let openBraces = 0;
-  let closeBraces = 0;
-
-  patchLines.forEach(line => {
-    const trimmed = line.trim();
-    
-    // Détecter les ouvertures de blocs
-    if (/\b(function|if.*then|for.*do|while.*do)\b/.test(trimmed)) {
-      openBlocks++;
-    }
-    
-    // Détecter les fermetures
-    if (/\bend\b/.test(trimmed)) {
-      closeBlocks++;
-    }
-    
-    // Compter les accolades
-    openBraces += (line.match(/\{/g) || []).length;
-    closeBraces += (line.match(/\}/g) || []).length;
-  });
+  // Compter les éléments dans le patch (tokens du parser partagé: strings et commentaires ignorés)
+  const patchCounts = countSyntaxElements(patchContent);
+  const openBlocks = patchCounts.functions + patchCounts.ifs + patchCounts.fors + patchCounts.whiles;
+  const closeBlocks = patchCounts.ends;
+  const openBraces = patchCounts.openBraces;
+  const closeBraces = patchCounts.closeBraces;
 
   // Vérifications pour l'opération 'insert'
   if (operation === 'insert') {
@@ -108,18 +90,9 @@ export function validatePatchBeforeApply(
     const fileLines = fileContent.split('\n');
     const removedLines = fileLines.slice(lineStart - 1, lineEnd);
     
-    let removedOpenBlocks = 0;
-    let removedCloseBlocks = 0;
-    
-    removedLines.forEach(line => {
-      const trimmed = line.trim();
-      if (/\b(function|if.*then|for.*do|while.*do)\b/.test(trimmed)) {
-        removedOpenBlocks++;
-      }
-      if (/\bend\b/.test(trimmed)) {
-        removedCloseBlocks++;
-      }
-    });
+    const removedCounts = countSyntaxElements(removedLines.join('\n'));
+    const removedOpenBlocks = removedCounts.functions + removedCounts.ifs + removedCounts.fors + removedCounts.whiles;
+    const removedCloseBlocks = removedCounts.ends;
     
     // Calculer le delta
     const deltaOpen = openBlocks - removedOpenBlocks;
@@ -3,6 +3,9 @@
  * Empêche les erreurs de syntaxe Luau comme les 'end' manquants
  */
 
+import { analyzeLuauSyntax, formatSyntaxIssue } from './src/parser/syntax-analysis.js';
+import { walkAst } from './src/parser/walker.js';
+
 interface SyntaxValidationResult {
   valid: boolean;
   errors: SyntaxError[];
@@ -46,22 +49,14 @@ interface BlockInfo {
 
 interface MismatchInfo {
   expectedAt: number;
+  column?: number;
   foundAt?: number;
   type: string;
   message: string;
+  fix?: string;
 }
 
 export class LuauSyntaxValidator {
-  private readonly blockKeywords = {
-    'function': 'end',
-    'if': 'end',
-    'for': 'end',
-    'while': 'end',
-    'do': 'end',
-    'repeat': 'until',
-    '{': '}'
-  };
-
   /**
    * VALIDATION PRINCIPALE - OBLIGATOIRE AVANT TOUTE MODIFICATION
    */
@@ -74,16 +69,15 @@ export class LuauSyntaxValidator {
     const bracketAnalysis = this.analyzeBlocks(code);
     
     // Convertir l'analyse en erreurs
-    if (bracketAnalysis.summary.unclosedBlocks > 0) {
-      bracketAnalysis.mismatches.forEach(mismatch => {
-        errors.push({
-          line: mismatch.expectedAt,
-          message: mismatch.message,
-          severity: 'critical',
-          fix: `Ajouter '${mismatch.type}' à la ligne ${mismatch.expectedAt}`
-        });
+    bracketAnalysis.mismatches.forEach(mismatch => {
+      errors.push({
+        line: mismatch.expectedAt,
+        column: mismatch.column,
+        message: mismatch.message,
+        severity: 'critical',
+        fix: mismatch.fix
       });
-    }
+    });
 
     // Vérifications supplémentaires
     const additionalChecks = this.performAdditionalChecks(code);
@@ -105,127 +99,77 @@ export class LuauSyntaxValidator {
   }
 
   /**
-   * ANALYSE DÉTAILLÉE DES BLOCS
+   * ANALYSE DÉTAILLÉE DES BLOCS (via le parser Luau partagé)
    */
   private analyzeBlocks(code: string): BracketAnalysis {
+    const analysis = analyzeLuauSyntax(code);
     const lines = code.split('\n');
     const blocks: BlockInfo[] = [];
-    const blockStack: BlockInfo[] = [];
     const mismatches: MismatchInfo[] = [];
 
-    lines.forEach((line, index) => {
-      const lineNum = index + 1;
-      const trimmed = line.trim();
-      
-      // Ignorer les commentaires
-      if (trimmed.startsWith('--')) return;
-
-      // Détecter les ouvertures de blocs
-      if (/\bfunction\b/.test(trimmed) && !trimmed.includes('end')) {
-        const block: BlockInfo = {
-          type: 'function',
-          openLine: lineNum,
-          content: trimmed,
-          isClosed: false
-        };
-        blocks.push(block);
-        blockStack.push(block);
-      }
-      
-      if (/\bif\b.*\bthen\b/.test(trimmed) && !trimmed.includes('end')) {
-        const block: BlockInfo = {
-          type: 'if',
-          openLine: lineNum,
-          content: trimmed,
-          isClosed: false
-        };
-        blocks.push(block);
-        blockStack.push(block);
-      }
-
-      if (/\bfor\b.*\bdo\b/.test(trimmed) && !trimmed.includes('end')) {
-        const block: BlockInfo = {
-          type: 'for',
-          openLine: lineNum,
-          content: trimmed,
-          isClosed: false
-        };
-        blocks.push(block);
-        blockStack.push(block);
-      }
-
-      if (/\bwhile\b.*\bdo\b/.test(trimmed) && !trimmed.includes('end')) {
-        const block: BlockInfo = {
-          type: 'while',
-          openLine: lineNum,
-          content: trimmed,
-          isClosed: false
-        };
-        blocks.push(block);
-        blockStack.push(block);
-      }
-
-      if (/\brepeat\b/.test(trimmed)) {
-        const block: BlockInfo = {
-          type: 'repeat',
-          openLine: lineNum,
-          content: trimmed,
-          isClosed: false
-        };
-        blocks.push(block);
-        blockStack.push(block);
-      }
-
-      // Détecter les fermetures
-      if (/\bend\b/.test(trimmed)) {
-        if (blockStack.length > 0) {
-          const lastBlock = blockStack[blockStack.length - 1];
-          if (lastBlock.type !== 'repeat') {
-            lastBlock.closeLine = lineNum;
-            lastBlock.isClosed = true;
-            blockStack.pop();
-          }
-        } else {
-          mismatches.push({
-            expectedAt: lineNum,
-            type: 'end',
-            message: `'end' supplémentaire trouvé à la ligne ${lineNum} sans bloc correspondant`
-          });
-        }
-      }
+    const addBlock = (type: BlockInfo['type'], openLine: number, closeLine: number) => {
+      blocks.push({
+        type,
+        openLine,
+        closeLine,
+        content: (lines[openLine - 1] || '').trim(),
+        isClosed: true
+      });
+    };
 
-      if (/\buntil\b/.test(trimmed)) {
-        if (blockStack.length > 0 && blockStack[blockStack.length - 1].type === 'repeat') {
-          const lastBlock = blockStack.pop()!;
-          lastBlock.closeLine = lineNum;
-          lastBlock.isClosed = true;
-        } else {
-          mismatches.push({
-            expectedAt: lineNum,
-            type: 'until',
-            message: `'until' trouvé à la ligne ${lineNum} sans 'repeat' correspondant`
-          });
+    if (analysis.ast) {
+      walkAst(analysis.ast, node => {
+        const { start, end } = node.loc;
+        switch (node.kind) {
+          case 'FunctionExpression': addBlock('function', start.line, end.line); break;
+          case 'IfStatement': addBlock('if', start.line, end.line); break;
+          case 'NumericForStatement':
+          case 'GenericForStatement': addBlock('for', start.line, end.line); break;
+          case 'WhileStatement': addBlock('while', start.line, end.line); break;
+          case 'RepeatStatement': addBlock('repeat', start.line, end.line); break;
+          case 'DoStatement': addBlock('do', start.line, end.line); break;
+          case 'TableConstructor': addBlock('table', start.line, end.line); break;
         }
-      }
-    });
+      });
+    }
 
-    // Vérifier les blocs non fermés
-    blockStack.forEach(unclosedBlock => {
-      const expectedClosing = unclosedBlock.type === 'repeat' ? 'until' : 'end';
+    // Blocs restés ouverts à la fin du fichier
+    for (const unclosed of analysis.blocks.unclosedBlocks) {
+      const expectedClosing = unclosed.type === 'repeat' ? 'until' : 'end';
+      blocks.push({
+        type: unclosed.type as BlockInfo['type'],
+        openLine: unclosed.line,
+        content: (lines[unclosed.line - 1] || '').trim(),
+        isClosed: false
+      });
       mismatches.push({
-        expectedAt: unclosedBlock.openLine,
+        expectedAt: unclosed.line,
         type: expectedClosing,
-        message: `Bloc '${unclosedBlock.type}' ouvert à la ligne ${unclosedBlock.openLine} n'est pas fermé. Il manque '${expectedClosing}'`
+        message: `Bloc '${unclosed.type}' ouvert à la ligne ${unclosed.line} n'est pas fermé. Il manque '${expectedClosing}'`,
+        fix: expectedClosing
       });
-    });
+    }
+
+    for (const error of analysis.errors) {
+      if (error.kind === 'unclosed-block') continue;
+      mismatches.push({
+        expectedAt: error.line,
+        column: error.column,
+        foundAt: error.line,
+        type: error.kind,
+        message: error.kind === 'unexpected-end'
+          ? `'end' supplémentaire trouvé à la ligne ${error.line} sans bloc correspondant`
+          : formatSyntaxIssue(error)
+      });
+    }
 
     return {
       blocks,
       mismatches,
       summary: {
         totalBlocks: blocks.length,
-        unclosedBlocks: blockStack.length,
-        extraEnds: mismatches.filter(m => m.message.includes('supplémentaire')).length
+        unclosedBlocks: analysis.blocks.unclosedBlocks.length,
+        extraEnds: analysis.errors.filter(e => e.kind === 'unexpected-end').length
       }
     };
   }
@@ -234,6 +178,7 @@ export class LuauSyntaxValidator {
    * VÉRIFICATIONS ADDITIONNELLES
    */
   private performAdditionalChecks(code: string): { errors: SyntaxError[], warnings: SyntaxWarning[] } {
+    // L'équilibre des parenthèses/accolades est vérifié par le parser (un appel peut tenir sur plusieurs lignes)
     const errors: SyntaxError[] = [];
     const warnings: SyntaxWarning[] = [];
     const lines = code.split('\n');
@@ -241,27 +186,6 @@ export class LuauSyntaxValidator {
     lines.forEach((line, index) => {
       const lineNum = index + 1;
 
-      // Vérifier les parenthèses
-      const openParens = (line.match(/\(/g) || []).length;
-      const closeParens = (line.match(/\)/g) || []).length;
-      if (openParens !== closeParens) {
-        errors.push({
-          line: lineNum,
-          message: `Parenthèses non équilibrées: ${openParens} '(' et ${closeParens} ')'`,
-          severity: 'error'
-        });
-      }
-
-      // Vérifier les accolades
-      const openBraces = (line.match(/\{/g) || []).length;
-      const closeBraces = (line.match(/\}/g) || []).length;
-      if (openBraces !== closeBraces && !line.includes('--')) {
-        warnings.push({
-          line: lineNum,
-          message: `Accolades potentiellement non équilibrées sur cette ligne`
-        });
-      }
-
       // Détecter les erreurs courantes
       if (/\bfunction\s*\(/.test(line) && !/\bend\b/.test(line)) {
         warnings.push({
@@ -363,21 +287,8 @@ export class LuauSyntaxValidator {
    * VALIDATION STRICTE POUR PATCH
    */
   public validatePatchContent(patchContent: string): SyntaxValidationResult {
-    // Validation spécifique pour le contenu d'un patch
-    const result = this.validateCode(patchContent);
-    
-    // Vérifications supplémentaires pour les patches
-    if (patchContent.includes('function') && !patchContent.includes('end')) {
-      result.errors.push({
-        line: 1,
-        message: "Le patch contient une fonction sans 'end' correspondant",
-        severity: 'critical',
-        fix: "Ajoutez 'end' à la fin de la fonction"
-      });
-      result.valid = false;
-    }
-
-    return result;
+    // Le parser signale déjà une fonction sans 'end' correspondant
+    return this.validateCode(patchContent);
   }
 }
 
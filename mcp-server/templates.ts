@@ -1,3 +1,5 @@
+import { compileTemplate, renderTemplate, RenderOptions, TemplateValue } from "./src/templates/template-engine.js";
+
 export interface LuauTemplate {
   name: string;
   description: string;
@@ -402,15 +404,11 @@ export function getTemplatesByCategory(category: string): LuauTemplate[] {
   return luauTemplates.filter(t => t.category === category);
 }
 
-// Fonction pour remplacer les variables dans un template
-export function applyTemplate(template: LuauTemplate, variables: Record<string, string>): string {
-  let code = template.code;
-  
-  // Remplacer chaque variable
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`{{${key}}}`, 'g');
-    code = code.replace(regex, value);
-  }
-  
-  return code;
-}
\ No newline at end of file
+// Fonction pour générer le code d'un template (variables, blocs if/each, partials, filtres)
+export function applyTemplate(
+  template: Pick<LuauTemplate, 'code'>,
+  variables: Record<string, TemplateValue>,
+  options: RenderOptions = {}
+): string {
+  return renderTemplate(compileTemplate(template.code), variables, options);
+}
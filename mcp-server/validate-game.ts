@@ -1,5 +1,17 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import { analyzeLuauSyntax } from './src/parser/syntax-analysis.js';
+import { RojoProjectTree, DEFAULT_PROJECT_FILE, Realm, resolveScriptInfo } from './src/rojo/project-tree.js';
+import { DependencyGraph, DependencyIssue } from './src/analysis/dependency-graph.js';
+import { ApiLinter } from './src/analysis/api-linter.js';
+import { auditRemoteHandlers, SINK_LABELS } from './src/analysis/remote-auditor.js';
+import { BoundaryChecker, BoundaryViolation } from './src/analysis/boundary-checker.js';
+import { RemoteRegistry } from './src/analysis/remote-registry.js';
+import { BackdoorFinding, isThirdPartyPath, scanForBackdoors, scanProjectSettings } from './src/analysis/backdoor-scanner.js';
+import { RuleEngine } from './src/analysis/rule-engine.js';
+import { MCP_DIRECTORY } from './src/config/project-config.js';
+import { RULES_FILE } from './src/config/rules-config.js';
+import { ApiDumpIndex } from './src/roblox-api/api-dump.js';
 
 interface ValidationResult {
   valid: boolean;
@@ -13,13 +25,15 @@ interface ValidationResult {
     syntaxErrors: number;
     missingDependencies: number;
     securityIssues: number;
+    // Scripts de risque élevé ou critique (scan_backdoors)
+    suspiciousScripts: number;
   };
 }
 
 interface ValidationError {
   file: string;
   line?: number;
-  type: 'syntax' | 'dependency' | 'security' | 'structure';
+  type: 'syntax' | 'dependency' | 'security' | 'structure' | 'api' | 'boundary' | 'pattern';
   message: string;
   severity: 'error' | 'critical';
 }
@@ -35,25 +49,48 @@ export class GameValidator {
   private errors: ValidationError[] = [];
   private warnings: ValidationWarning[] = [];
   private scripts: Map<string, string> = new Map();
+  private dependencyIssues: DependencyIssue[] = [];
+  private boundaryViolations: BoundaryViolation[] = [];
+  private suspiciousScripts = 0;
+  private tree: RojoProjectTree | null = null;
+  private ruleEngine: RuleEngine = new RuleEngine();
+  private apiLinter: ApiLinter;
   
-  async validateGame(projectPath: string): Promise<ValidationResult> {
+  constructor(apiIndex: ApiDumpIndex | null = null) {
+    this.apiLinter = new ApiLinter(apiIndex);
+  }
+  
+  async validateGame(projectPath: string, projectFile: string = DEFAULT_PROJECT_FILE): Promise<ValidationResult> {
     this.errors = [];
     this.warnings = [];
     this.scripts.clear();
+    this.dependencyIssues = [];
+    this.boundaryViolations = [];
+    this.suspiciousScripts = 0;
+    this.tree = null;
+    this.ruleEngine = await RuleEngine.load(projectPath);
+    for (const error of this.ruleEngine.getConfigErrors()) {
+      this.warnings.push({ file: `${MCP_DIRECTORY}/${RULES_FILE}`, type: 'rules', message: error });
+    }
     
     // 1. Collecter tous les scripts
     await this.collectScripts(projectPath);
     
     // 2. Valider la structure du projet
-    this.validateProjectStructure(projectPath);
+    this.validateProjectStructure(projectPath, projectFile);
+    
+    // Résoudre les require à travers l'arbre Rojo
+    await this.buildDependencyGraph(projectPath, projectFile);
     
     // 3. Valider chaque script
     for (const [filePath, content] of this.scripts) {
       await this.validateScript(filePath, content);
     }
     
-    // 4. Valider les dépendances entre scripts
+    // 4. Valider les dépendances entre scripts et la frontière client/serveur
     this.validateDependencies();
+    this.validateBoundaries();
+    this.validateRemoteContracts();
     
     // 5. Vérifier la sécurité
     this.validateSecurity();
@@ -85,7 +122,7 @@ export class GameValidator {
     }
   }
   
-  private validateProjectStructure(projectPath: string): void {
+  private validateProjectStructure(projectPath: string, projectFile: string): void {
     const requiredFolders = ['src/client', 'src/server', 'src/shared'];
     
     for (const folder of requiredFolders) {
@@ -99,13 +136,13 @@ export class GameValidator {
       }
     }
     
-    // Vérifier default.project.json ou default.project.luau
-    const rojoConfigJson = path.join(projectPath, 'default.project.json');
+    // Vérifier le fichier projet sélectionné (ou default.project.luau)
+    const rojoConfigJson = path.join(projectPath, projectFile);
     const rojoConfigLuau = path.join(projectPath, 'default.project.luau');
     
     if (!this.fileExists(rojoConfigJson) && !this.fileExists(rojoConfigLuau)) {
       this.errors.push({
-        file: 'default.project.json ou default.project.luau',
+        file: `${projectFile} ou default.project.luau`,
         type: 'structure',
         message: 'Fichier de configuration Rojo manquant',
         severity: 'critical'
@@ -117,199 +154,107 @@ export class GameValidator {
     const lines = content.split('\n');
     
     // 1. Validation syntaxique basique
-    this.validateSyntax(filePath, lines);
+    this.validateSyntax(filePath, content);
     
     // 2. Validation des requires
-    this.validateRequires(filePath, lines);
+    this.validateRequires(filePath);
     
-    // 3. Validation des patterns dangereux
-    this.validatePatterns(filePath, lines);
+    // 3. Anti-patterns, selon les règles du projet (.mcp-roblox/rules.json)
+    this.validatePatterns(filePath, content);
     
     // 4. Validation spécifique au type de script
-    if (filePath.includes('.client.')) {
+    const { type, realm } = resolveScriptInfo(filePath, this.tree);
+    this.validateApiUsage(filePath, content, realm);
+    if (type === 'LocalScript') {
       this.validateClientScript(filePath, lines);
-    } else if (filePath.includes('.server.')) {
-      this.validateServerScript(filePath, lines);
+    }
+    
+    // 5. Handlers de RemoteEvents/Functions (scripts et modules serveur)
+    if (realm !== 'client') {
+      this.validateRemoteHandlers(filePath, content);
     }
   }
   
-  private validateSyntax(filePath: string, lines: string[]): void {
-    let blockStack: string[] = [];
-    let bracketStack: string[] = [];
-    const blockStarters = ['function', 'if', 'for', 'while', 'repeat', 'do', 'then'];
-    const blockEnders = ['end', 'until'];
-    
-    // Pour un parsing plus robuste
-    let inString = false;
-    let stringChar = '';
-    let inComment = false;
+  private validateSyntax(filePath: string, content: string): void {
+    const analysis = analyzeLuauSyntax(content);
     
-    lines.forEach((line, index) => {
-      let i = 0;
-      inComment = false;
-      
-      while (i < line.length) {
-        const char = line[i];
-        const nextChar = line[i + 1];
-        
-        // Gestion des commentaires
-        if (!inString && char === '-' && nextChar === '-') {
-          inComment = true;
-          break; // Ignorer le reste de la ligne
-        }
-        
-        // Gestion des strings
-        if (!inComment) {
-          if ((char === '"' || char === "'") && line[i-1] !== '\\') {
-            if (!inString) {
-              inString = true;
-              stringChar = char;
-            } else if (char === stringChar) {
-              inString = false;
-            }
-          }
-          
-          // Si on n'est pas dans une string, analyser la syntaxe
-          if (!inString) {
-            // Vérifier les brackets
-            if (char === '(' || char === '{' || char === '[') {
-              bracketStack.push(char);
-            } else if (char === ')' || char === '}' || char === ']') {
-              const expected = char === ')' ? '(' : char === '}' ? '{' : '[';
-              if (bracketStack.length === 0 || bracketStack[bracketStack.length - 1] !== expected) {
-                this.errors.push({
-                  file: filePath,
-                  line: index + 1,
-                  type: 'syntax',
-                  message: `'${char}' sans '${expected}' correspondant`,
-                  severity: 'error'
-                });
-              } else {
-                bracketStack.pop();
-              }
-            }
-          }
-        }
-        
-        i++;
-      }
-      
-      // Vérifier les mots-clés de bloc (hors strings et commentaires)
-      if (!inComment && !inString) {
-        const trimmed = line.trim();
-        
-        // Détecter les débuts de blocs
-        for (const starter of blockStarters) {
-          const pattern = new RegExp(`\\b${starter}\\b`);
-          if (pattern.test(trimmed)) {
-            // Cas spéciaux
-            if (starter === 'then' && trimmed.includes('then return')) continue;
-            if (starter === 'then' && trimmed.includes('then break')) continue;
-            if (starter === 'do' && trimmed.includes('end')) continue; // do...end sur une ligne
-            
-            blockStack.push(starter);
-          }
-        }
-        
-        // Détecter les fins de blocs
-        if (/\bend\b/.test(trimmed)) {
-          if (blockStack.length === 0) {
-            this.errors.push({
-              file: filePath,
-              line: index + 1,
-              type: 'syntax',
-              message: `'end' sans bloc correspondant`,
-              severity: 'error'
-            });
-          } else {
-            blockStack.pop();
-          }
-        }
-      }
-    });
-    
-    // Vérifier les stacks finaux
-    if (blockStack.length > 0) {
+    for (const error of analysis.errors) {
       this.errors.push({
         file: filePath,
+        line: error.line,
         type: 'syntax',
-        message: `${blockStack.length} bloc(s) non fermé(s): ${blockStack.join(', ')}`,
+        message: error.message,
         severity: 'error'
       });
     }
+  }
+  
+  private async buildDependencyGraph(projectPath: string, projectFile: string): Promise<void> {
+    try {
+      const tree = await RojoProjectTree.load(projectPath, projectFile);
+      this.tree = tree;
+      const contents = new Map<string, string>();
+      for (const [filePath, content] of this.scripts) {
+        contents.set(filePath.split(path.sep).join('/'), content);
+      }
+      const graph = await DependencyGraph.build(projectPath, tree, contents);
+      this.dependencyIssues = graph.getIssues();
+      this.boundaryViolations = new BoundaryChecker(graph, contents).check();
+    } catch (error) {
+      this.warnings.push({
+        file: projectFile,
+        type: 'dependency',
+        message: `Impossible de résoudre les require via le projet Rojo: ${error instanceof Error ? error.message : error}`
+      });
+    }
+  }
+  
+  private validateRequires(filePath: string): void {
+    const normalized = filePath.split(path.sep).join('/');
     
-    if (bracketStack.length > 0) {
+    for (const issue of this.dependencyIssues) {
+      // Les require client → serveur sont rapportés par validateBoundaries, avec les chaînes transitives
+      if (issue.type === 'circular-dependency' || issue.type === 'client-requires-server' || issue.file !== normalized) continue;
       this.errors.push({
         file: filePath,
-        type: 'syntax',
-        message: `${bracketStack.length} parenthèse(s)/accolade(s) non fermée(s): ${bracketStack.join(', ')}`,
+        line: issue.line,
+        type: 'dependency',
+        message: issue.message,
         severity: 'error'
       });
     }
   }
   
-  private validateRequires(filePath: string, lines: string[]): void {
-    const requirePattern = /require\s*\(\s*([^)]+)\s*\)/g;
-    const validPaths = new Set<string>();
-    
-    // Construire les chemins valides depuis les scripts collectés
-    for (const scriptPath of this.scripts.keys()) {
-      if (scriptPath.endsWith('.luau') || scriptPath.endsWith('.lua')) {
-        const moduleName = path.basename(scriptPath, path.extname(scriptPath));
-        validPaths.add(moduleName);
+  private validateApiUsage(filePath: string, content: string, realm: Realm): void {
+    for (const finding of this.apiLinter.lint(content, realm)) {
+      // Avec l'arbre Rojo, les API client dans un script serveur sont rapportées par validateBoundaries
+      if (finding.rule === 'client-only' && this.tree) continue;
+      const message = `${finding.message}${finding.replacement ? ` → ${finding.replacement}` : ''}`;
+      if (finding.severity === 'error') {
+        this.errors.push({
+          file: filePath,
+          line: finding.line,
+          type: finding.rule === 'security' ? 'security' : 'api',
+          message,
+          severity: 'error'
+        });
+      } else {
+        this.warnings.push({ file: filePath, line: finding.line, type: finding.rule, message });
       }
     }
-    
-    lines.forEach((line, index) => {
-      let match;
-      while ((match = requirePattern.exec(line)) !== null) {
-        const requirePath = match[1].trim();
-        
-        // Ignorer les requires de services Roblox
-        if (requirePath.includes('game:GetService') || 
-            requirePath.includes('script.Parent') ||
-            requirePath.includes('ReplicatedStorage')) {
-          continue;
-        }
-        
-        // Vérifier si c'est un chemin relatif
-        if (requirePath.includes('.') && !requirePath.includes('game.')) {
-          const moduleName = requirePath.split('.').pop()?.replace(/["']/g, '');
-          if (moduleName && !validPaths.has(moduleName)) {
-            this.warnings.push({
-              file: filePath,
-              line: index + 1,
-              type: 'dependency',
-              message: `Module potentiellement manquant: ${moduleName}`
-            });
-          }
-        }
-      }
-    });
   }
   
-  private validatePatterns(filePath: string, lines: string[]): void {
-    const dangerousPatterns = [
-      { pattern: /\bwait\s*\(/, message: 'Utiliser task.wait() au lieu de wait()' },
-      { pattern: /\bspawn\s*\(/, message: 'Utiliser task.spawn() au lieu de spawn()' },
-      { pattern: /\bdelay\s*\(/, message: 'Utiliser task.delay() au lieu de delay()' },
-      { pattern: /\bloadstring\s*\(/, message: 'loadstring() est dangereux et désactivé par défaut' },
-      { pattern: /\b_G\b/, message: 'Éviter les variables globales _G' },
-      { pattern: /while\s+true\s+do(?!.*wait)/, message: 'Boucle infinie sans wait détectée' }
-    ];
-    
-    lines.forEach((line, index) => {
-      for (const { pattern, message } of dangerousPatterns) {
-        if (pattern.test(line) && !line.trim().startsWith('--')) {
-          this.warnings.push({
-            file: filePath,
-            line: index + 1,
-            type: 'pattern',
-            message
-          });
-        }
+  private validatePatterns(filePath: string, content: string): void {
+    for (const { pattern, line } of this.ruleEngine.detect(content, filePath.split(path.sep).join('/'))) {
+      // Les suggestions restent dans check_antipatterns, loadstring est rapporté par validateSecurity
+      if (pattern.severity === 'info' || pattern.name === 'loadstring-usage') continue;
+      const message = `${pattern.description} (${pattern.name})${pattern.fix ? ` → ${pattern.fix}` : ''}`;
+      if (pattern.severity === 'error') {
+        this.errors.push({ file: filePath, line, type: 'pattern', message, severity: 'error' });
+      } else {
+        this.warnings.push({ file: filePath, line, type: 'pattern', message });
       }
-    });
+    }
   }
   
   private validateClientScript(filePath: string, lines: string[]): void {
@@ -333,96 +278,112 @@ export class GameValidator {
     });
   }
   
-  private validateServerScript(filePath: string, lines: string[]): void {
-    // Vérifier les RemoteEvents/Functions non validés
-    const hasRemoteValidation = lines.some(line => 
-      line.includes('typeof') || 
-      line.includes('type(') || 
-      line.includes('assert(')
-    );
-    
-    const hasRemoteEvent = lines.some(line => 
-      line.includes('RemoteEvent') || 
-      line.includes('RemoteFunction')
-    );
-    
-    if (hasRemoteEvent && !hasRemoteValidation) {
-      this.warnings.push({
-        file: filePath,
-        type: 'security',
-        message: 'RemoteEvent/Function sans validation apparente des entrées'
-      });
+  private validateRemoteHandlers(filePath: string, content: string): void {
+    for (const audit of auditRemoteHandlers(content)) {
+      // Chaque paramètre envoyé par le client qui atteint une opération sensible sans contrôle
+      for (const parameter of audit.parameters) {
+        for (const use of parameter.unsafeUses) {
+          const missing = use.missing.map(check => check === 'type' ? 'type' : 'bornes').join(' et ');
+          this.errors.push({
+            file: filePath,
+            line: use.line,
+            type: 'security',
+            message: `${audit.remote}.${audit.event}: le paramètre "${parameter.name}" atteint ${SINK_LABELS[use.sink]} sans contrôle de ${missing}`,
+            severity: 'error'
+          });
+        }
+      }
+      
+      if (audit.unthrottledSinks.length > 0) {
+        const sinks = [...new Set(audit.unthrottledSinks.map(use => SINK_LABELS[use.sink]))].join(', ');
+        this.warnings.push({
+          file: filePath,
+          line: audit.line,
+          type: 'security',
+          message: `${audit.remote}.${audit.event}: aucune limitation de fréquence avant ${sinks}`
+        });
+      }
     }
   }
   
   private validateDependencies(): void {
-    // Vérifier les dépendances circulaires
-    const dependencies = new Map<string, Set<string>>();
-    
+    // Les cycles concernent plusieurs fichiers: ils sont rapportés une seule fois
+    for (const issue of this.dependencyIssues) {
+      if (issue.type !== 'circular-dependency') continue;
+      this.errors.push({
+        file: issue.file,
+        type: 'dependency',
+        message: issue.message,
+        severity: 'error'
+      });
+    }
+  }
+  
+  private validateBoundaries(): void {
+    for (const violation of this.boundaryViolations) {
+      this.errors.push({
+        file: violation.file,
+        line: violation.line,
+        type: 'boundary',
+        message: violation.message,
+        severity: 'error'
+      });
+    }
+  }
+  
+  private validateRemoteContracts(): void {
+    const contents = new Map<string, string>();
     for (const [filePath, content] of this.scripts) {
-      const deps = new Set<string>();
-      const requirePattern = /require\s*\([^)]+\)/g;
-      let match;
-      
-      while ((match = requirePattern.exec(content)) !== null) {
-        // Extraire le nom du module
-        const moduleMatch = match[0].match(/["']([^"']+)["']/);
-        if (moduleMatch) {
-          deps.add(moduleMatch[1]);
-        }
-      }
-      
-      dependencies.set(filePath, deps);
+      contents.set(filePath.split(path.sep).join('/'), content);
     }
     
-    // Détecter les cycles (simplifié)
-    for (const [file, deps] of dependencies) {
-      for (const dep of deps) {
-        const depDeps = dependencies.get(dep);
-        if (depDeps?.has(file)) {
-          this.warnings.push({
-            file,
-            type: 'dependency',
-            message: `Dépendance circulaire potentielle avec ${dep}`
-          });
-        }
-      }
+    for (const issue of RemoteRegistry.build(this.tree, contents).getIssues()) {
+      this.warnings.push({ file: issue.file, line: issue.line, type: 'remote', message: issue.message });
     }
   }
   
   private validateSecurity(): void {
+    if (this.tree) {
+      this.reportBackdoorFindings(this.tree.projectFile, scanProjectSettings(this.tree));
+    }
+    
     for (const [filePath, content] of this.scripts) {
-      // Vérifier les backdoors potentielles
-      const suspiciousPatterns = [
-        { pattern: /require\s*\(\s*\d+\s*\)/, message: 'Require avec ID numérique (possible backdoor)' },
-        { pattern: /getfenv|setfenv/, message: 'Manipulation d\'environnement détectée' },
-        { pattern: /HttpService.*GetAsync/, message: 'Requête HTTP externe détectée' }
-      ];
-      
-      suspiciousPatterns.forEach(({ pattern, message }) => {
-        if (new RegExp(pattern).test(content)) {
-          this.errors.push({
-            file: filePath,
-            type: 'security',
-            message,
-            severity: 'critical'
-          });
-        }
-      });
+      const scan = scanForBackdoors(content, { thirdParty: isThirdPartyPath(filePath) });
+      if (scan.level === 'high' || scan.level === 'critical') this.suspiciousScripts++;
+      this.reportBackdoorFindings(filePath, scan.findings, scan.score);
+    }
+  }
+  
+  private reportBackdoorFindings(filePath: string, findings: BackdoorFinding[], score?: number): void {
+    const risk = score !== undefined ? ` (risque du fichier: ${score}/100)` : '';
+    
+    for (const finding of findings) {
+      if (finding.severity === 'critical' || finding.severity === 'high') {
+        this.errors.push({
+          file: filePath,
+          line: finding.line,
+          type: 'security',
+          message: `${finding.message}${risk}`,
+          severity: finding.severity === 'critical' ? 'critical' : 'error'
+        });
+      } else {
+        this.warnings.push({ file: filePath, line: finding.line, type: 'security', message: `${finding.message}${risk}` });
+      }
     }
   }
   
   private generateSummary() {
-    const scripts = Array.from(this.scripts.keys());
+    const types = Array.from(this.scripts.keys()).map(filePath => resolveScriptInfo(filePath, this.tree).type);
     
     return {
-      totalScripts: scripts.length,
-      clientScripts: scripts.filter(s => s.includes('.client.')).length,
-      serverScripts: scripts.filter(s => s.includes('.server.')).length,
-      sharedModules: scripts.filter(s => s.includes('/shared/')).length,
+      totalScripts: types.length,
+      clientScripts: types.filter(type => type === 'LocalScript').length,
+      serverScripts: types.filter(type => type === 'ServerScript').length,
+      sharedModules: types.filter(type => type === 'ModuleScript').length,
       syntaxErrors: this.errors.filter(e => e.type === 'syntax').length,
       missingDependencies: this.errors.filter(e => e.type === 'dependency').length,
-      securityIssues: this.errors.filter(e => e.type === 'security').length
+      securityIssues: this.errors.filter(e => e.type === 'security').length,
+      suspiciousScripts: this.suspiciousScripts
     };
   }
   
@@ -445,9 +406,13 @@ export class GameValidator {
 }
 
 // Fonction pour intégration MCP
-export async function validateGameTool(projectPath: string = process.cwd()): Promise<string> {
-  const validator = new GameValidator();
-  const result = await validator.validateGame(projectPath);
+export async function validateGameTool(
+  projectPath: string = process.cwd(),
+  projectFile: string = DEFAULT_PROJECT_FILE,
+  apiIndex: ApiDumpIndex | null = null
+): Promise<string> {
+  const validator = new GameValidator(apiIndex);
+  const result = await validator.validateGame(projectPath, projectFile);
   
   let output = '🎮 VALIDATION DU PROJET ROBLOX\n';
   output += '================================\n\n';
@@ -457,7 +422,8 @@ export async function validateGameTool(projectPath: string = process.cwd()): Pro
   output += `- Scripts analysés: ${result.summary.totalScripts}\n`;
   output += `  - Client: ${result.summary.clientScripts}\n`;
   output += `  - Server: ${result.summary.serverScripts}\n`;
-  output += `  - Shared: ${result.summary.sharedModules}\n\n`;
+  output += `  - Shared: ${result.summary.sharedModules}\n`;
+  output += `- Scripts suspects (risque élevé): ${result.summary.suspiciousScripts}\n\n`;
   
   // Status global
   if (result.valid) {
@@ -495,8 +461,20 @@ export async function validateGameTool(projectPath: string = process.cwd()): Pro
   if (result.summary.securityIssues > 0) {
     output += '- Réviser la sécurité des RemoteEvents/Functions\n';
   }
-  if (result.warnings.some(w => w.type === 'pattern')) {
-    output += '- Migrer vers les APIs modernes (task library)\n';
+  if (result.summary.suspiciousScripts > 0) {
+    output += '- Examiner les scripts suspects avec scan_backdoors et les isoler avec quarantine_script\n';
+  }
+  if (result.warnings.some(w => w.type === 'deprecated')) {
+    output += '- Migrer vers les APIs modernes (remplacements indiqués dans les avertissements)\n';
+  }
+  if (result.warnings.some(w => w.type === 'remote')) {
+    output += '- Aligner les noms et arguments des remotes entre client et serveur (registre complet: list_remotes)\n';
+  }
+  if (result.errors.some(e => e.type === 'boundary')) {
+    output += '- Déplacer le code client/serveur du bon côté de la réplication (les chaînes de require sont indiquées)\n';
+  }
+  if (result.errors.some(e => e.type === 'api')) {
+    output += '- Corriger les usages d\'API invalides côté serveur ou inexistantes\n';
   }
   
   return output;